@@ -6,32 +6,37 @@
 import type { SidebarMenuItem } from '../design-system/components/sidebar/Sidebar.types';
 
 /**
- * Main application menu items
+ * Main application menu items, each shown only to users holding its permission
  */
 export const mainMenuItems: SidebarMenuItem[] = [
     {
         id: 'npi',
         label: 'Conexões',
         path: '/nodeConnections',
+        permission: 'node:read',
     },
     {
         id: 'research',
         label: 'Pesquisas',
         path: '/research',
+        permission: 'research:read',
     },
     {
         id: 'volunteers',
         label: 'Voluntários',
         path: '/volunteers',
+        permission: 'volunteer:read',
     },
     {
         id: 'snomed',
         label: 'SNOMED',
         path: '/snomed',
+        permission: 'snomed:read',
     },
     {
         id: 'users',
         label: 'Usuários e pesquisadores',
         path: '/users',
+        permission: 'user:admin',
     },
 ];
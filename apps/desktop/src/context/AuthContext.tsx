@@ -13,8 +13,10 @@ import type {
     PasswordResetConfirmation,
     SessionInfo,
     AuthState,
-    AuthError
+    AuthError,
+    Permission
 } from '@iris/domain';
+import { userHasPermission } from '@iris/domain';
 import { authService, userAuthService } from '../services/middleware';
 
 // ==================== Types ====================
@@ -39,6 +41,7 @@ interface AuthContextValue {
     // Utilities
     isAuthenticated: boolean;
     hasPermission: (requiredRole: string) => boolean;
+    can: (permission: Permission) => boolean;
 }
 
 // ==================== Context ====================
@@ -77,9 +80,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
                 return;
             }
 
-            const currentUser = await userAuthService.getCurrentUser();
+            const token = userAuthService.getToken() || '';
+            const currentUser = await authService.getCurrentUser(token);
             const session: SessionInfo = {
-                token: userAuthService.getToken() || '',
+                token,
                 expiresAt: userAuthService.getTokenExpiration() || new Date(),
                 issuedAt: new Date(),
                 rememberMe: false
@@ -251,6 +255,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
         return authService.hasPermission(user, requiredRole as any);
     }, [user]);
 
+    /**
+     * Check if user holds a permission
+     */
+    const can = useCallback((permission: Permission) => userHasPermission(user, permission), [user]);
+
     // ==================== Context Value ====================
 
     const value: AuthContextValue = {
@@ -272,7 +281,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
         // Utilities
         isAuthenticated: authState === 'authenticated' as AuthState && user !== null,
-        hasPermission
+        hasPermission,
+        can
     };
 
     return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
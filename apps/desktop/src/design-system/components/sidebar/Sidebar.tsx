@@ -32,6 +32,7 @@ import React, { useState } from 'react';
 import { ChevronLeftIcon } from '@heroicons/react/24/outline';
 import type { SidebarProps, SidebarMenuItem } from './Sidebar.types';
 import './Sidebar.css';
+import { useAuth } from '../../../context';
 
 const Sidebar: React.FC<SidebarProps> = ({
     items,
@@ -43,6 +44,10 @@ const Sidebar: React.FC<SidebarProps> = ({
     className = '',
 }) => {
     const [isCollapsed, setIsCollapsed] = useState(collapsed);
+    const { can } = useAuth();
+
+    // Items the signed-in user may not open are left out
+    const isVisible = (item: SidebarMenuItem): boolean => !item.permission || can(item.permission);
 
     const handleToggleCollapse = () => {
         const newCollapsed = !isCollapsed;
@@ -88,7 +93,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                 {/* Render children if exists */}
                 {item.children && item.children.length > 0 && (
                     <ul className="iris-sidebar__menu iris-sidebar__submenu">
-                        {item.children.map((child) => renderMenuItem(child))}
+                        {item.children.filter(isVisible).map((child) => renderMenuItem(child))}
                     </ul>
                 )}
             </li>
@@ -121,7 +126,7 @@ const Sidebar: React.FC<SidebarProps> = ({
 
             {/* Navigation Menu */}
             <nav className="iris-sidebar__nav">
-                <ul className="iris-sidebar__menu">{items.map((item) => renderMenuItem(item))}</ul>
+                <ul className="iris-sidebar__menu">{items.filter(isVisible).map((item) => renderMenuItem(item))}</ul>
             </nav>
 
             {/* Collapse Toggle */}
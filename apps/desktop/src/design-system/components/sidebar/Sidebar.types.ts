@@ -4,6 +4,7 @@
  */
 
 import { ReactNode } from 'react';
+import type { Permission } from '@iris/domain';
 
 /**
  * Menu item definition
@@ -38,6 +39,11 @@ export interface SidebarMenuItem {
      * Sub-menu items (for nested navigation)
      */
     children?: SidebarMenuItem[];
+
+    /**
+     * Permission required to see the item (always shown when omitted)
+     */
+    permission?: Permission;
 }
 
 /**
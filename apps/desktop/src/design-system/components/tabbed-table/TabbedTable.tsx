@@ -142,6 +142,7 @@ export function TabbedTable({
                                     variant={secondaryActionButton.variant || 'secondary'}
                                     size="medium"
                                     onClick={secondaryActionButton.onClick}
+                                    disabled={secondaryActionButton.disabled}
                                     icon={secondaryActionButton.icon}
                                     iconPosition="left"
                                 >
@@ -153,6 +154,7 @@ export function TabbedTable({
                                     variant={actionButton.variant || 'primary'}
                                     size="medium"
                                     onClick={actionButton.onClick}
+                                    disabled={actionButton.disabled}
                                     icon={actionButton.icon}
                                     iconPosition="left"
                                 >
@@ -43,6 +43,8 @@ export interface TabbedTableAction {
     onClick: () => void;
     /** Button variant */
     variant?: 'primary' | 'secondary' | 'outline';
+    /** Disable the button (e.g. when the user may not perform the action) */
+    disabled?: boolean;
 }
 
 /**
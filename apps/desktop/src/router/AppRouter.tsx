@@ -24,6 +24,7 @@ import SensorForm from "@/screens/Research/SensorForm";
 import ResearcherSelectionScreen from "@/screens/Research/ResearcherSelectionScreen";
 import NodeConnectionsScreen from "@/screens/NodeConnections/NodeConnectionsScreen";
 import AddConnectionForm from "@/screens/NodeConnections/AddConnectionForm";
+import AccessDeniedScreen from "@/screens/AccessDenied/AccessDeniedScreen";
 import {
     ResearchNodeConnection,
     Research,
@@ -34,11 +35,12 @@ import {
     SnomedBodyStructure,
     SnomedTopographicalModifier,
     ClinicalCondition,
+    Permission,
 } from "@iris/domain";
 import { useState, useEffect } from "react";
 
 function AppRouter() {
-    const { isAuthenticated, authState} = useAuth();
+    const { isAuthenticated, authState, can } = useAuth();
     const [version, setVersion] = useState<string>('');
     const [currentPage, setCurrentPage] = useState<Pages>('home');
     const [activePath, setActivePath] = useState<string>('/dashboard');
@@ -321,6 +323,18 @@ function AppRouter() {
     };
 
     const renderContent = () => {
+        // Pages can also be reached from links inside other pages, not only the menu
+        const permission = PAGE_PERMISSIONS[currentPage];
+        if (!can(permission)) {
+            return (
+                <AccessDeniedScreen
+                    activePath={activePath}
+                    permission={permission}
+                    handleNavigation={handleNavigation}
+                />
+            );
+        }
+
         switch (currentPage) {
             case 'node-connections':
                 return (
@@ -707,5 +721,54 @@ type Pages =
     | 'edit-clinical-condition'
     ;
 
+/**
+ * Permission needed to open each page
+ */
+const PAGE_PERMISSIONS: Record<Pages, Permission> = {
+    'home': 'node:read',
+    'node-connections': 'node:read',
+    'add-connection': 'node:manage',
+    'view-connection': 'node:read',
+    'edit-connection': 'node:manage',
+    'research': 'research:read',
+    'add-research': 'research:write',
+    'edit-research': 'research:write',
+    'view-research': 'research:read',
+    'add-researcher-to-research': 'research:write',
+    'add-application': 'research:write',
+    'view-application': 'research:read',
+    'edit-application': 'research:write',
+    'add-device': 'research:write',
+    'view-device': 'research:read',
+    'edit-device': 'research:write',
+    'add-sensor': 'research:write',
+    'view-sensor': 'research:read',
+    'edit-sensor': 'research:write',
+    'volunteers': 'volunteer:read',
+    'add-volunteer': 'volunteer:write',
+    'view-volunteer': 'volunteer:read',
+    'edit-volunteer': 'volunteer:write',
+    'snomed': 'snomed:read',
+    'users': 'user:admin',
+    'add-user': 'user:admin',
+    'view-user': 'user:admin',
+    'edit-user': 'user:admin',
+    'add-researcher': 'user:admin',
+    'view-researcher': 'user:admin',
+    'edit-researcher': 'user:admin',
+    'add-body-region': 'snomed:admin',
+    'view-body-region': 'snomed:read',
+    'edit-body-region': 'snomed:admin',
+    'add-body-structure': 'snomed:admin',
+    'view-body-structure': 'snomed:read',
+    'edit-body-structure': 'snomed:admin',
+    'add-topographic-modifier': 'snomed:admin',
+    'view-topographic-modifier': 'snomed:read',
+    'edit-topographic-modifier': 'snomed:admin',
+    'add-clinical-condition': 'snomed:admin',
+    'view-clinical-condition': 'snomed:read',
+    'edit-clinical-condition': 'snomed:admin',
+};
+
 
 export default AppRouter;
\ No newline at end of file
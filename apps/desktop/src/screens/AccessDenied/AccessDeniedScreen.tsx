@@ -0,0 +1,46 @@
+/**
+ * Access Denied Screen
+ *
+ * Shown in place of a page the signed-in user lacks the permission for.
+ */
+
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import type { Permission } from '@iris/domain';
+import { mainMenuItems } from '../../config/menu';
+import { AppLayout } from '../../design-system/components/app-layout';
+import { Button } from '../../design-system/components/button';
+import '../../styles/shared/AddForm.css';
+
+export type AccessDeniedScreenProps = {
+    activePath: string;
+    permission: Permission;
+    handleNavigation: (path: string) => void;
+};
+
+const AccessDeniedScreen: React.FC<AccessDeniedScreenProps> = ({ activePath, permission, handleNavigation }) => {
+    return (
+        <AppLayout
+            sidebar={{ items: mainMenuItems, activePath, onNavigate: handleNavigation, logo: 'I.R.I.S.' }}
+            header={{ title: 'Acesso negado', showUserMenu: true }}
+        >
+            <div className="add-form">
+                <div className="add-form__container">
+                    <div style={{ padding: '12px 16px', backgroundColor: '#fee', color: '#c33', borderRadius: '4px', marginBottom: '20px', border: '1px solid #fcc' }}>
+                        Seu perfil não tem a permissão <strong>{permission}</strong> necessária para esta página.
+                    </div>
+                    <Button
+                        variant="outline"
+                        size="medium"
+                        onClick={() => handleNavigation('/dashboard')}
+                        icon={<ArrowLeftIcon className="w-5 h-5" />}
+                        iconPosition="left"
+                    >
+                        Voltar
+                    </Button>
+                </div>
+            </div>
+        </AppLayout>
+    );
+};
+
+export default AccessDeniedScreen;
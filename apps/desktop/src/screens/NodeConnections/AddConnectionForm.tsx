@@ -21,6 +21,7 @@ import { ArrowUturnLeftIcon, DocumentArrowDownIcon } from '@heroicons/react/24/o
 import { mainMenuItems } from '../../config/menu';
 import { NodeAccessLevel, AuthorizationStatus, type NewNodeConnectionData, type ResearchNodeConnection, type UpdateNodeConnectionPayload } from '@iris/domain';
 import { nodeConnectionService } from '../../services/middleware';
+import { useAuth } from '../../context';
 import '../../styles/shared/AddForm.css';
 
 export type FormMode = 'add' | 'view' | 'edit';
@@ -47,7 +48,10 @@ export function AddConnectionForm({ handleNavigation, mode = 'add', connection,
     const [institutionDetails, setInstitutionDetails] = useState('');
 
     // Determine if form is read-only
-    const isReadOnly = mode === 'view';
+    const { can } = useAuth();
+    const isReadOnly = mode === 'view' || !can('node:manage');
+    // Authorizing a node through its status is an approval
+    const canChangeStatus = !isReadOnly && can('node:approve');
 
     // Validation state
     const [errors, setErrors] = useState<Record<string, string>>({});
@@ -282,7 +286,7 @@ export function AddConnectionForm({ handleNavigation, mode = 'add', connection,
                             options={statusOptions}
                             value={status}
                             onChange={(value) => setStatus(Array.isArray(value) ? value[0] : value)}
-                            disabled={isReadOnly}
+                            disabled={!canChangeStatus}
                         />
                         <Dropdown
                             label="Nível de acesso"
@@ -5,6 +5,7 @@ import { TabbedTable, TabbedTableTab } from "@/design-system/components/tabbed-t
 import { DataTableColumn } from "@/design-system/components/data-table/DataTable.types";
 import { ResearchNodeConnection, AuthorizationStatus, NodeAccessLevel, SyncPreviewResponse } from "@iris/domain";
 import { nodeConnectionService, nodeSyncServiceAdapter } from "@/services/middleware";
+import { useAuth } from "@/context";
 import { CheckCircleIcon, XCircleIcon, EyeIcon, PencilSquareIcon, ArrowPathIcon, PlusCircleIcon } from "@heroicons/react/24/outline";
 import Button from "@/design-system/components/button/Button";
 import Pagination from '@/design-system/components/pagination/Pagination';
@@ -31,6 +32,10 @@ function formatRelativeTime(date: Date): string {
 }
 
 const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNavigation, onSelectConnection }) => {
+    const { can } = useAuth();
+    const canManage = can('node:manage');
+    const canApprove = can('node:approve');
+
     const [activeTab, setActiveTab] = useState<ConnectionTabs>('active');
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -63,7 +68,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
     };
 
     const handleAcceptConnection = async () => {
-        if (!selectedConnection) return;
+        if (!selectedConnection || !canApprove) return;
         try {
             await nodeConnectionService.approveConnection(selectedConnection.id);
             handleCloseRequestModal();
@@ -75,7 +80,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
     };
 
     const handleRejectConnection = async () => {
-        if (!selectedConnection) return;
+        if (!selectedConnection || !canApprove) return;
         try {
             await nodeConnectionService.rejectConnection(selectedConnection.id);
             handleCloseRequestModal();
@@ -311,6 +316,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
             align: 'center',
             render: (_, connection) => {
                 const canSync =
+                    canManage &&
                     connection.status === AuthorizationStatus.AUTHORIZED &&
                     connection.nodeAccessLevel !== NodeAccessLevel.READ_ONLY;
                 const syncInProgress = isSyncing === connection.id;
@@ -326,14 +332,15 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
                         </button>
                         <button
                             className="action-button edit"
-                            title="Editar"
+                            title={canManage ? 'Editar' : 'Sem permissão para editar conexões'}
                             onClick={() => handleEditConnection(connection)}
+                            disabled={!canManage}
                         >
                             <PencilSquareIcon />
                         </button>
                         <button
                             className="action-button view"
-                            title={canSync ? 'Sincronizar' : 'Sync requires ReadWrite access on an Authorized connection'}
+                            title={canSync ? 'Sincronizar' : canManage ? 'Sync requires ReadWrite access on an Authorized connection' : 'Sem permissão para sincronizar'}
                             onClick={() => canSync && !isSyncing ? handleOpenSync(connection) : undefined}
                             disabled={!canSync || !!isSyncing}
                             style={{
@@ -347,7 +354,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
                 );
             },
         },
-    ], [handleViewConnection, handleEditConnection, handleOpenSync, isSyncing, getSyncStatusBadge]);
+    ], [handleViewConnection, handleEditConnection, handleOpenSync, isSyncing, getSyncStatusBadge, canManage]);
 
     const requestColumns: DataTableColumn<ResearchNodeConnection>[] = useMemo(() => [
         {
@@ -406,15 +413,17 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
                     </button>
                     <button
                         className="action-button edit"
-                        title="Editar"
+                        title={canManage ? 'Editar' : 'Sem permissão para editar conexões'}
                         onClick={() => handleEditConnection(connection)}
+                        disabled={!canManage}
                     >
                         <PencilSquareIcon />
                     </button>
                     <button
                         className="action-button"
-                        title="Aceitar solicitação"
+                        title={canApprove ? 'Aceitar solicitação' : 'Sem permissão para aprovar conexões'}
                         onClick={() => handleOpenRequestModal(connection)}
+                        disabled={!canApprove}
                         style={{ color: '#16a34a' }}
                     >
                         <CheckCircleIcon />
@@ -422,7 +431,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
                 </div>
             ),
         },
-    ], [handleViewConnection, handleEditConnection, handleOpenRequestModal]);
+    ], [handleViewConnection, handleEditConnection, handleOpenRequestModal, canManage, canApprove]);
 
     const tabs: TabbedTableTab[] = useMemo(() => [
         {
@@ -436,6 +445,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
                 onClick: () => handleNavigation('/nodeConnections/add'),
                 icon: <PlusCircleIcon className="w-5 h-5" />,
                 variant: 'outline',
+                disabled: !canManage,
             },
         },
         {
@@ -445,7 +455,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
             data: requests,
             columns: requestColumns,
         },
-    ], [requests, activeConnections, activeColumns, requestColumns, handleNavigation]);
+    ], [requests, activeConnections, activeColumns, requestColumns, handleNavigation, canManage]);
 
     return (
         <AppLayout
@@ -529,6 +539,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
                             <Button
                                 variant="primary"
                                 onClick={handleAcceptConnection}
+                                disabled={!canApprove}
                                 icon={<CheckCircleIcon />}
                                 iconPosition="left"
                             >
@@ -537,6 +548,7 @@ const NodeConnectionsScreen: React.FC<NodeConnectionsScreenProps> = ({ handleNav
                             <Button
                                 variant="outline"
                                 onClick={handleRejectConnection}
+                                disabled={!canApprove}
                                 icon={<XCircleIcon />}
                                 iconPosition="left"
                             >
@@ -24,6 +24,7 @@ import {
     CalibrationStatus,
 } from '@iris/domain';
 import { researchService } from '@/services/middleware';
+import { useAuth } from '@/context';
 import { ToastContainer, type ToastMessage } from '@/design-system/components/toast/Toast';
 import VolunteerSelectionModal from './VolunteerSelectionModal';
 
@@ -109,6 +110,9 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
 
     const [volunteerModalOpen, setVolunteerModalOpen] = useState(false);
 
+    const { can } = useAuth();
+    const canEdit = can('research:write');
+
     const loadResearchDetails = useCallback(async () => {
         try {
             setLoading(true);
@@ -365,6 +369,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Remover"
+                        disabled={!canEdit}
                         onClick={() => handleRemoveResearcher(row.researcherId)}
                         style={{ color: '#ef4444' }}
                     >
@@ -373,7 +378,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 </div>
             ),
         },
-    ], []);
+    ], [canEdit]);
 
     const volunteerColumns: DataTableColumn<ResearchVolunteer>[] = useMemo(() => [
         {
@@ -424,6 +429,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Remover"
+                        disabled={!canEdit}
                         onClick={() => handleRemoveVolunteer(row.volunteerId)}
                         style={{ color: '#ef4444' }}
                     >
@@ -432,7 +438,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 </div>
             ),
         },
-    ], []);
+    ], [canEdit]);
 
     const applicationColumns: DataTableColumn<Application>[] = useMemo(() => [
         {
@@ -495,6 +501,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Editar"
+                        disabled={!canEdit}
                         onClick={() => handleNavigation(`/research/edit-application/${researchId}/${row.id}`)}
                         style={{ color: '#2563eb' }}
                     >
@@ -503,6 +510,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Remover"
+                        disabled={!canEdit}
                         onClick={() => handleDeleteApplication(row.id)}
                         style={{ color: '#ef4444' }}
                     >
@@ -511,7 +519,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 </div>
             ),
         },
-    ], []);
+    ], [canEdit]);
 
     const deviceColumns: DataTableColumn<ResearchDevice>[] = useMemo(() => [
         {
@@ -568,6 +576,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Editar"
+                        disabled={!canEdit}
                         onClick={() => handleNavigation(`/research/edit-device/${researchId}/${row.deviceId}`)}
                         style={{ color: '#2563eb' }}
                     >
@@ -576,6 +585,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Remover"
+                        disabled={!canEdit}
                         onClick={() => handleRemoveDevice(row.deviceId)}
                         style={{ color: '#ef4444' }}
                     >
@@ -584,7 +594,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 </div>
             ),
         },
-    ], []);
+    ], [canEdit]);
 
     const sensorColumns: DataTableColumn<Sensor>[] = useMemo(() => [
         {
@@ -650,6 +660,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Editar"
+                        disabled={!canEdit}
                         onClick={() => handleNavigation(`/research/edit-sensor/${researchId}/${row.id}`)}
                         style={{ color: '#2563eb' }}
                     >
@@ -658,6 +669,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                     <button
                         className="action-button"
                         title="Remover"
+                        disabled={!canEdit}
                         onClick={() => handleDeleteSensor(row.id)}
                         style={{ color: '#ef4444' }}
                     >
@@ -666,7 +678,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 </div>
             ),
         },
-    ], []);
+    ], [canEdit]);
 
     // ── Tab Configuration ────────────────────────────────────────────
 
@@ -682,6 +694,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 icon: <PlusIcon />,
                 onClick: () => handleNavigation(`/research/add-researcher/${researchId}`),
                 variant: 'primary',
+                disabled: !canEdit,
             },
         },
         {
@@ -695,12 +708,14 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 icon: <PlusIcon />,
                 onClick: () => handleNavigation('/volunteers/add'),
                 variant: 'primary',
+                disabled: !can('volunteer:write'),
             },
             secondaryAction: {
                 label: 'Adicionar existente',
                 icon: <PlusIcon />,
                 onClick: () => setVolunteerModalOpen(true),
                 variant: 'secondary',
+                disabled: !canEdit,
             },
         },
         {
@@ -714,6 +729,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 icon: <PlusIcon />,
                 onClick: () => handleNavigation(`/research/add-application/${researchId}`),
                 variant: 'primary',
+                disabled: !canEdit,
             },
         },
         {
@@ -727,6 +743,7 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 icon: <PlusIcon />,
                 onClick: () => handleNavigation(`/research/add-device/${researchId}`),
                 variant: 'primary',
+                disabled: !canEdit,
             },
         },
         {
@@ -740,11 +757,12 @@ export function ResearchDetailsScreen({ handleNavigation, researchId }: Research
                 icon: <PlusIcon />,
                 onClick: () => handleNavigation(`/research/add-sensor/${researchId}`),
                 variant: 'primary',
+                disabled: !canEdit,
             },
         },
     ], [research, researchers, volunteers, applications, devices, sensors,
         researcherColumns, volunteerColumns, applicationColumns, deviceColumns, sensorColumns,
-        researchId, handleNavigation]);
+        researchId, handleNavigation, canEdit, can]);
 
     const isTabLoading = loading || (tabLoading[activeTab] ?? false);
 
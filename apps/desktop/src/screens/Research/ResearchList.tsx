@@ -13,6 +13,7 @@ import type { TabbedTableTab } from '../../design-system/components/tabbed-table
 import type { DataTableColumn } from '../../design-system/components/data-table/DataTable.types';
 import { ArrowDownTrayIcon, EyeIcon, PencilIcon as EditIcon, PlusIcon } from '@heroicons/react/24/outline';
 import { researchService } from '../../services/middleware';
+import { useAuth } from '../../context';
 import Pagination from '@/design-system/components/pagination/Pagination';
 import '../../styles/shared/List.css';
 
@@ -29,6 +30,9 @@ export function ResearchList({
     onResearchView,
     onResearchExport,
 }: ResearchListProps) {
+    const { can } = useAuth();
+    const canEdit = can('research:write');
+
     const [pageSize] = useState(10);
     const [pagination, setPagination] = useState({
         currentPage: 1,
@@ -174,6 +178,7 @@ export function ResearchList({
                     </button>
                     <button
                         className="action-button edit"
+                        disabled={!canEdit}
                         onClick={(e) => {
                             e.stopPropagation();
                             onResearchEdit?.(research);
@@ -196,7 +201,7 @@ export function ResearchList({
                 </div>
             ),
         },
-    ], [onResearchEdit, onResearchView, onResearchExport, exportingId, handleExportClick]);
+    ], [onResearchEdit, onResearchView, onResearchExport, exportingId, handleExportClick, canEdit]);
 
     // Tab configuration (single tab for style consistency)
     const tabs: TabbedTableTab<Research>[] = useMemo(() => [
@@ -210,9 +215,10 @@ export function ResearchList({
                 icon: <PlusIcon />,
                 onClick: onResearchAdd || (() => console.log('Add research clicked')),
                 variant: 'primary',
+                disabled: !canEdit,
             },
         },
-    ], [columns, researches, onResearchAdd]);
+    ], [columns, researches, onResearchAdd, canEdit]);
 
     // Search filter
     const searchFilter = (item: Record<string, unknown>, query: string) => {
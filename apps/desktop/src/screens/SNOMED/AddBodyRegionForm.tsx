@@ -7,6 +7,7 @@ import { ArrowLeftIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 import { mainMenuItems } from '../../config/menu';
 import type { AddSnomedBodyRegionPayload, SnomedBodyRegion, UpdateSnomedBodyRegionPayload } from '@iris/domain';
 import { snomedService } from '../../services/middleware';
+import { useAuth } from '../../context';
 import '../../styles/shared/AddForm.css';
 
 export type FormMode = 'add' | 'view' | 'edit';
@@ -28,7 +29,8 @@ export function AddBodyRegionForm({ handleNavigation, onSave, onCancel, mode = '
     const [parentRegionOption, setParentRegionOption] = useState<{ value: string; label: string }[]>([]);
 
     // Derived state
-    const isReadOnly = mode === 'view';
+    const { can } = useAuth();
+    const isReadOnly = mode === 'view' || !can('snomed:admin');
 
     // Validation state
     const [errors, setErrors] = useState<Record<string, string>>({});
@@ -24,6 +24,7 @@ import { mainMenuItems } from '../../config/menu';
 import type { AddSnomedBodyStructurePayload, SnomedBodyStructure, UpdateSnomedBodyStructurePayload } from '@iris/domain';
 import '../../styles/shared/AddForm.css';
 import { snomedService } from '../../services/middleware';
+import { useAuth } from '../../context';
 
 export type FormMode = 'add' | 'view' | 'edit';
 
@@ -63,7 +64,8 @@ export function AddBodyStructureForm({
     const [parentStructureOption, setParentStructureOption] = useState<{ value: string; label: string }[]>([]);
 
     // Derived state
-    const isReadOnly = mode === 'view';
+    const { can } = useAuth();
+    const isReadOnly = mode === 'view' || !can('snomed:admin');
 
     // Validation state
     const [errors, setErrors] = useState<Record<string, string>>({});
@@ -20,6 +20,7 @@ import { mainMenuItems } from '../../config/menu';
 import type { ClinicalCondition, UpdateSnomedClinicalConditionPayload } from '@iris/domain';
 import '../../styles/shared/AddForm.css';
 import { snomedService } from '../../services/middleware';
+import { useAuth } from '../../context';
 
 export type FormMode = 'add' | 'view' | 'edit';
 
@@ -50,7 +51,8 @@ export function AddClinicalConditionForm({
     const [submitting, setSubmitting] = useState(false);
     const [submitError, setSubmitError] = useState<string | null>(null);
 
-    const isReadOnly = mode === 'view';
+    const { can } = useAuth();
+    const isReadOnly = mode === 'view' || !can('snomed:admin');
 
     // Initialize form state from clinicalCondition prop
     useEffect(() => {
@@ -21,6 +21,7 @@ import { ArrowLeftIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 import { mainMenuItems } from '../../config/menu';
 import type { SnomedTopographicalModifier, UpdateSnomedTopographicalModifierPayload } from '@iris/domain';
 import { snomedService } from '../../services/middleware';
+import { useAuth } from '../../context';
 import '../../styles/shared/AddForm.css';
 
 export type FormMode = 'add' | 'view' | 'edit';
@@ -61,7 +62,8 @@ export function AddTopographicModifierForm({
     const [submitting, setSubmitting] = useState(false);
     const [submitError, setSubmitError] = useState<string | null>(null);
 
-    const isReadOnly = mode === 'view';
+    const { can } = useAuth();
+    const isReadOnly = mode === 'view' || !can('snomed:admin');
 
     // Initialize form state from topographicModifier prop
     useEffect(() => {
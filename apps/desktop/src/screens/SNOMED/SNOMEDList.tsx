@@ -23,6 +23,7 @@ import type { TabbedTableTab } from '../../design-system/components/tabbed-table
 import type { DataTableColumn } from '../../design-system/components/data-table/DataTable.types';
 import { EyeIcon, PencilIcon as EditIcon, PlusIcon } from '@heroicons/react/24/outline';
 import { snomedService } from '../../services/middleware';
+import { useAuth } from '../../context';
 import '../../styles/shared/List.css';
 import Pagination from '@/design-system/components/pagination/Pagination';
 
@@ -71,6 +72,10 @@ export function SNOMEDList({
 
   const [activeTab, setActiveTab] = useState<SnomedTabs>('body-region');
 
+  // Only SNOMED administrators add or edit codes
+  const { can } = useAuth();
+  const canEdit = can('snomed:admin');
+
 
   const [pageSize] = useState(10);
   const [pagination, setPagination] = useState({
@@ -243,6 +248,7 @@ export function SNOMEDList({
             </button>
             <button
               className="action-button edit"
+              disabled={!canEdit}
               onClick={(e) => {
                 e.stopPropagation();
                 onBodyRegionEdit?.(region);
@@ -256,7 +262,7 @@ export function SNOMEDList({
         ),
       },
     ],
-    [onBodyRegionEdit, onBodyRegionView]
+    [onBodyRegionEdit, onBodyRegionView, canEdit]
   );
 
   // Column definitions for Body Structure
@@ -327,6 +333,7 @@ export function SNOMEDList({
             </button>
             <button
               className="action-button edit"
+              disabled={!canEdit}
               onClick={(e) => {
                 e.stopPropagation();
                 onBodyStructureEdit?.(structure);
@@ -340,7 +347,7 @@ export function SNOMEDList({
         ),
       },
     ],
-    [onBodyStructureEdit, onBodyStructureView]
+    [onBodyStructureEdit, onBodyStructureView, canEdit]
   );
 
   // Column definitions for Topographic Modifier
@@ -395,6 +402,7 @@ export function SNOMEDList({
             </button>
             <button
               className="action-button edit"
+              disabled={!canEdit}
               onClick={(e) => {
                 e.stopPropagation();
                 onTopographicModifierEdit?.(modifier);
@@ -408,7 +416,7 @@ export function SNOMEDList({
         ),
       },
     ],
-    [onTopographicModifierEdit, onTopographicModifierView]
+    [onTopographicModifierEdit, onTopographicModifierView, canEdit]
   );
 
   // Column definitions for Clinical Condition
@@ -456,6 +464,7 @@ export function SNOMEDList({
             </button>
             <button
               className="action-button edit"
+              disabled={!canEdit}
               onClick={(e) => {
                 e.stopPropagation();
                 onClinicalConditionEdit?.(condition);
@@ -469,7 +478,7 @@ export function SNOMEDList({
         ),
       },
     ],
-    [onClinicalConditionEdit, onClinicalConditionView]
+    [onClinicalConditionEdit, onClinicalConditionView, canEdit]
   );
 
   // Tab configurations
@@ -486,6 +495,7 @@ export function SNOMEDList({
           icon: <PlusIcon />,
           onClick: onBodyRegionAdd || (() => console.log('Add body region clicked')),
           variant: 'primary',
+          disabled: !canEdit,
         },
       },
       {
@@ -499,6 +509,7 @@ export function SNOMEDList({
           icon: <PlusIcon />,
           onClick: onBodyStructureAdd || (() => console.log('Add body structure clicked')),
           variant: 'primary',
+          disabled: !canEdit,
         },
       },
       {
@@ -512,6 +523,7 @@ export function SNOMEDList({
           icon: <PlusIcon />,
           onClick: onTopographicModifierAdd || (() => console.log('Add topographic modifier clicked')),
           variant: 'primary',
+          disabled: !canEdit,
         },
       },
       {
@@ -525,6 +537,7 @@ export function SNOMEDList({
           icon: <PlusIcon />,
           onClick: onClinicalConditionAdd || (() => console.log('Add clinical condition clicked')),
           variant: 'primary',
+          disabled: !canEdit,
         },
       },
     ],
@@ -541,6 +554,7 @@ export function SNOMEDList({
       onBodyStructureAdd,
       onTopographicModifierAdd,
       onClinicalConditionAdd,
+      canEdit,
     ]
   );
 
@@ -22,6 +22,7 @@ import {
     type ClinicalCondition
 } from '@iris/domain';
 import { volunteerService, snomedService } from '../../services/middleware';
+import { useAuth } from '../../context';
 import '../../styles/shared/AddForm.css';
 
 type FormMode = 'view' | 'edit';
@@ -66,7 +67,8 @@ function formatDateForInput(date: Date): string {
 }
 
 export function VolunteerForm({ handleNavigation, mode, volunteer }: VolunteerFormProps) {
-    const isReadOnly = mode === 'view';
+    const { can } = useAuth();
+    const isReadOnly = mode === 'view' || !can('volunteer:write');
 
     const getHeaderTitle = (): string => {
         switch (mode) {
@@ -11,6 +11,7 @@ import { DataTable } from '../../design-system/components/data-table';
 import type { DataTableColumn } from '../../design-system/components/data-table/DataTable.types';
 import { EyeIcon, PencilIcon as EditIcon, TrashIcon, PlusIcon } from '@heroicons/react/24/outline';
 import { volunteerService } from '../../services/middleware';
+import { useAuth } from '../../context';
 import { Button } from '@/design-system/components/button';
 import Pagination from '@/design-system/components/pagination/Pagination';
 import '../../styles/shared/List.css';
@@ -28,6 +29,9 @@ export function VolunteersList({
     onVolunteerView,
     onVolunteerDelete,
 }: VolunteersListProps) {
+    const { can } = useAuth();
+    const canEdit = can('volunteer:write');
+
     const [pageSize] = useState(10);
     const [pagination, setPagination] = useState({
         currentPage: 1,
@@ -180,6 +184,7 @@ export function VolunteersList({
                     </button>
                     <button
                         className="action-button edit"
+                        disabled={!canEdit}
                         onClick={(e) => {
                             e.stopPropagation();
                             onVolunteerEdit?.(volunteer);
@@ -191,6 +196,7 @@ export function VolunteersList({
                     </button>
                     <button
                         className="action-button delete"
+                        disabled={!canEdit}
                         onClick={(e) => {
                             e.stopPropagation();
                             onVolunteerDelete?.(volunteer);
@@ -203,7 +209,7 @@ export function VolunteersList({
                 </div>
             ),
         },
-    ], [onVolunteerEdit, onVolunteerView, onVolunteerDelete]);
+    ], [onVolunteerEdit, onVolunteerView, onVolunteerDelete, canEdit]);
 
     if (error) {
         return (
@@ -247,6 +253,7 @@ export function VolunteersList({
                     icon={<PlusIcon />}
                     iconPosition="left"
                     onClick={onVolunteerAdd}
+                    disabled={!canEdit}
                 >
                     Adicionar Voluntário
                 </Button>
@@ -10,6 +10,10 @@
  * - Implement common error handling patterns
  * - Convert between domain and middleware types
  *
+ * Request logging (with PII redacted), correlation ids, metrics and the
+ * retry after a 401 are not handled here: they are middleware interceptors
+ * configured once in services/middleware.ts.
+ *
  * Usage:
  * ```typescript
  * class MyService extends BaseService {
@@ -23,6 +27,7 @@
  * ```
  */
 
+import { NodeChannelError } from '@iris/middleware';
 import type {
     ResearchNodeMiddleware,
     ChannelManager,
@@ -179,6 +184,11 @@ export abstract class BaseService {
             return error;
         }
 
+        // The node dropped the channel or session and the handshake could not be redone
+        if (error instanceof NodeChannelError) {
+            return this.createAuthError('network_error' as AuthErrorCode, error.message, { reason: error.reason });
+        }
+
         const message = error instanceof Error ? error.message : String(error);
 
         // Map common middleware errors to auth error codes
@@ -8,7 +8,9 @@
  */
 
 import {
-    UserRole
+    UserRole,
+    primaryRole,
+    resolvePermissions
 } from '@iris/domain';
 import type {
     User,
@@ -25,16 +27,15 @@ import { BaseService, type MiddlewareServices } from '../BaseService';
 /**
  * Adapter to convert domain User to middleware format and vice versa
  */
-function convertMiddlewareUserToDomain(middlewareUser: { id: string; username: string; email: string; name?: string; roles?: string[] }): User {
-    // Map middleware roles to domain UserRole
-    const role = middlewareUser.roles && middlewareUser.roles.length > 0
-        ? (middlewareUser.roles[0] as UserRole)
-        : UserRole.VIEWER;
+function convertMiddlewareUserToDomain(middlewareUser: { id: string; username: string; email: string; name?: string; roles?: string[]; permissions?: string[] }): User {
+    // Map the token's role and permission claims to domain UserRole and Permissions
+    const roles = middlewareUser.roles ?? [];
 
     return {
         id: middlewareUser.id,
         login: middlewareUser.email,
-        role: role
+        role: primaryRole(roles),
+        permissions: resolvePermissions(roles, middlewareUser.permissions)
     };
 }
 
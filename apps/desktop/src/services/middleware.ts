@@ -8,6 +8,7 @@
  * - Secure storage (Electron safeStorage)
  * - Channel and Session management
  * - User authentication service
+ * - Invoke interceptors (correlation ids, metrics, retry on 401, redacted logging)
  */
 
 import {
@@ -17,6 +18,10 @@ import {
     WebCryptoDriver,
     FetchHttpClient,
     UserAuthService,
+    createCorrelationIdInterceptor,
+    createMetricsInterceptor,
+    createRetryInterceptor,
+    createLoggingInterceptor,
     type ResearchNodeCertificateConfig,
     type ChallengeSignatureContext
 } from '@iris/middleware';
@@ -36,6 +41,11 @@ import { NodeSyncServiceAdapter } from './NodeSyncServiceAdapter';
  */
 const BACKEND_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
 
+/**
+ * Requests slower than this are reported by the metrics interceptor
+ */
+const SLOW_REQUEST_MS = 3000;
+
 /**
  * Load certificate configuration from environment variables
  * Falls back to node_a certificate from InteroperableResearchNode for development
@@ -233,6 +243,20 @@ function initializeMiddleware() {
         initialSession: null,
         signChallenge: signChallenge,
 
+        // Cross-cutting request handling: correlation id first so every
+        // other hook sees it; payloads are only logged (redacted) in dev builds
+        interceptors: [
+            createCorrelationIdInterceptor(),
+            createMetricsInterceptor((metric) => {
+                if (metric.durationMs > SLOW_REQUEST_MS) {
+                    console.warn(`[Middleware] Slow request: ${metric.method} ${metric.endpoint} took ${metric.durationMs} ms`, metric);
+                }
+            }),
+            createLoggingInterceptor({ logBodies: import.meta.env.DEV }),
+            // Declared below; only called once a request has been rejected
+            createRetryInterceptor({ recover: (): Promise<unknown> => userAuthService.refreshToken() })
+        ],
+
         // Persistence callbacks
         onChannelPersist: async (channel) => {
             if (channel) {
@@ -167,9 +167,6 @@ export class NodeConnectionService extends BaseService {
                 payload: {}
             });
 
-            // Debug: Log full decrypted response
-            console.log('[NodeConnectionService] 🔍 Full decrypted response (active):', JSON.stringify(response, null, 2));
-
             this.log(`Retrieved ${response.data?.length || 0} active node connections`);
 
             // Convert middleware response to domain types
@@ -247,9 +244,6 @@ export class NodeConnectionService extends BaseService {
                 payload: {}
             });
 
-            // Debug: Log full decrypted response
-            console.log('[NodeConnectionService] 🔍 Full decrypted response (unapproved):', JSON.stringify(response, null, 2));
-
             this.log(`Retrieved ${response.data?.length || 0} unapproved node connections`);
 
             // Convert middleware response to domain types
@@ -133,9 +133,6 @@ export class ResearcherService extends BaseService {
                 payload: {}
             });
 
-            // Debug: Log full decrypted response
-            console.log('[ResearcherService] 🔍 Full decrypted response:', JSON.stringify(response, null, 2));
-
             this.log(`Retrieved ${response.data?.length || 0} researchers`);
 
             // Convert middleware response to domain types
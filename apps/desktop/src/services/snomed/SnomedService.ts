@@ -73,9 +73,6 @@ export class SnomedService extends BaseService {
                 payload: {}
                 });
     
-            // Debug: Log full decrypted response
-            console.log('[SnomedService] 🔍 Full decrypted response:', JSON.stringify(response, null, 2));
-
             this.log(`Retrieved ${response.data?.length || 0} body regions`);
 
             // Convert middleware response to domain types
@@ -275,8 +272,6 @@ export class SnomedService extends BaseService {
                 method: 'GET',
                 payload: {}
             }); 
-            // Debug: Log full decrypted response
-            console.log('[SnomedService] 🔍 Full decrypted response:', JSON.stringify(response, null, 2))
             this.log(`Retrieved ${response.data?.length || 0} body structures`)
             // Convert middleware response to domain types
             // Here we assume the response data is already in the correct format    
@@ -143,9 +143,6 @@ export class UserService extends BaseService {
                 payload: {}
             });
 
-            // Debug: Log full decrypted response
-            console.log('[UserService] 🔍 Full decrypted response:', JSON.stringify(response, null, 2));
-
             this.log(`Retrieved ${response.data?.length || 0} users`);
 
             // Convert middleware response to domain types
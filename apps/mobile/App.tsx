@@ -15,7 +15,7 @@
  */
 
 import React, { useCallback, useEffect, useState } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, Alert } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
 import * as SplashScreen from 'expo-splash-screen';
@@ -38,6 +38,11 @@ import { SyncProvider } from './src/context/SyncContext';
 import { SessionConfigFormProvider } from './src/context/SessionConfigFormContext';
 import { RootNavigator } from './src/navigation';
 import { databaseManager } from './src/data/database';
+import { retentionJob } from './src/data/RetentionJob';
+import { dataProtectionService } from './src/services/DataProtectionService';
+import { preferencesService } from './src/services/PreferencesService';
+import { EmulatedTransport, EMULATOR_SCENARIOS, type EmulatorScenarioName } from './src/device/emulator';
+import type { DeviceTransport } from './src/device';
 
 SplashScreen.preventAutoHideAsync();
 
@@ -71,6 +76,24 @@ function isValidResearchId(value: string | undefined): boolean {
   return UUID_REGEX.test(value.trim());
 }
 
+/**
+ * EXPO_PUBLIC_DEVICE_EMULATOR=<scenario name> replaces Bluetooth Classic with
+ * the in-process firmware emulator (e.g. "nominal", "flakyLink").
+ */
+function createDeviceTransportFromEnv(): DeviceTransport | undefined {
+  const scenarioName = process.env.EXPO_PUBLIC_DEVICE_EMULATOR?.trim();
+  if (!scenarioName) return undefined;
+
+  const scenario = EMULATOR_SCENARIOS[scenarioName as EmulatorScenarioName];
+  if (!scenario) {
+    console.warn(`[App] Unknown emulator scenario "${scenarioName}", using "nominal"`);
+  }
+  console.log('[App] Using device emulator:', scenarioName);
+  return new EmulatedTransport(scenario ?? EMULATOR_SCENARIOS.nominal);
+}
+
+const deviceTransport = createDeviceTransportFromEnv();
+
 export default function App() {
   const researchId = process.env.EXPO_PUBLIC_RESEARCH_ID;
   const researchIdValid = isValidResearchId(researchId);
@@ -88,8 +111,25 @@ export default function App() {
 
   useEffect(() => {
     databaseManager.initialize()
-      .then(() => setDbReady(true))
+      .then(() => {
+        setDbReady(true);
+        // Schema drift is reported up front instead of failing later in a repository
+        const schema = databaseManager.getSchemaVerification();
+        if (schema && !schema.ok) {
+          Alert.alert(
+            'Database Check Failed',
+            `The local database does not match this version of the app:\n\n${schema.issues.map((issue) => `• ${issue.message}`).join('\n')}\n\nUnsynced data is kept. Contact support before deleting the app.`
+          );
+        }
+        // Encrypt recordings from before encryption at rest, finish an interrupted key rotation
+        dataProtectionService.protectRecordings()
+          .catch((error) => console.error('[App] Recording encryption failed:', error));
+        // Purge synced recording files and volunteer details past the retention policy
+        retentionJob.start(() => preferencesService.getRetentionPolicy());
+      })
       .catch((error) => console.error('[App] Database initialization failed:', error));
+
+    return () => retentionJob.stop();
   }, []);
 
   const onLayoutRootView = useCallback(async () => {
@@ -115,7 +155,7 @@ export default function App() {
 
   return (
     <View style={{ flex: 1 }} onLayout={onLayoutRootView}>
-      <BluetoothContextProvider>
+      <BluetoothContextProvider transport={deviceTransport}>
         <AuthProvider>
           <SessionProvider>
             <SessionConfigFormProvider>
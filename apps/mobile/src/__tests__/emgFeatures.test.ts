@@ -0,0 +1,131 @@
+/**
+ * sEMG signal processing (@iris/domain dsp)
+ *
+ * Filters, spectrum and features against synthetic signals with known
+ * answers. Lives here because @iris/domain has no test runner of its own;
+ * vitest resolves @iris/domain to the package source.
+ *
+ * Run with: npx vitest run src/__tests__/emgFeatures.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    bandPassFilter,
+    notchFilter,
+    powerSpectrum,
+    meanFrequency,
+    medianFrequency,
+    rectify,
+    rootMeanSquare,
+    movingRmsEnvelope,
+    integratedEmg,
+    zeroCrossingRate,
+    computeStreamStatistics,
+    computeEmgFeatures,
+    samplesFromRecordingCsv,
+    flattenPackets,
+    DEVICE_SAMPLE_RATE_HZ,
+} from '@iris/domain';
+
+const FS = DEVICE_SAMPLE_RATE_HZ;
+
+function sine(frequencyHz: number, seconds: number, amplitude = 1, phase = 0.3): number[] {
+    return Array.from({ length: Math.round(seconds * FS) }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequencyHz * (i / FS) + phase));
+}
+
+function add(...signals: number[][]): number[] {
+    return signals[0].map((_, i) => signals.reduce((sum, s) => sum + s[i], 0));
+}
+
+/** RMS of the middle half, away from filter start-up transients. */
+function steadyRms(signal: number[]): number {
+    return rootMeanSquare(signal.slice(signal.length / 4, (3 * signal.length) / 4));
+}
+
+describe('sEMG signal processing', () => {
+    describe('filters', () => {
+        it('band-pass keeps in-band content and removes drift and high frequencies', () => {
+            const inBand = sine(50, 4);
+            const filtered = bandPassFilter(add(inBand, sine(2, 4, 5), sine(105, 4)), FS, 20, 95, { zeroPhase: true });
+
+            expect(steadyRms(filtered)).toBeCloseTo(steadyRms(inBand), 1);
+        });
+
+        it('notch removes mains interference', () => {
+            const filtered = notchFilter(sine(60, 4, 10), FS, 60, 30, { zeroPhase: true });
+
+            expect(steadyRms(filtered)).toBeLessThan(0.1);
+        });
+
+        it('rejects cutoffs at or above Nyquist', () => {
+            expect(() => notchFilter([1, 2, 3], FS, 120)).toThrow(/Nyquist/);
+        });
+    });
+
+    describe('spectrum', () => {
+        it('puts mean and median frequency on a pure tone', () => {
+            const spectrum = powerSpectrum(sine(40, 10), FS);
+
+            expect(medianFrequency(spectrum)).toBeCloseTo(40, -0.5);
+            expect(meanFrequency(spectrum)).toBeGreaterThan(38);
+            expect(meanFrequency(spectrum)).toBeLessThan(42);
+        });
+
+        it('shifts median frequency with the dominant component', () => {
+            const low = medianFrequency(powerSpectrum(add(sine(30, 10, 2), sine(70, 10)), FS));
+            const high = medianFrequency(powerSpectrum(add(sine(30, 10), sine(70, 10, 2)), FS));
+
+            expect(low).toBeLessThan(high);
+        });
+    });
+
+    describe('time-domain features', () => {
+        it('rectifies and measures a sine', () => {
+            const signal = sine(25, 4, 2);
+
+            expect(Math.min(...rectify(signal))).toBeGreaterThanOrEqual(0);
+            expect(rootMeanSquare(signal)).toBeCloseTo(Math.SQRT2, 2);
+            expect(integratedEmg(signal, FS)).toBeCloseTo((2 * 2 / Math.PI) * 4, 1);
+            expect(zeroCrossingRate(signal, FS)).toBeCloseTo(50, 0);
+        });
+
+        it('builds a moving RMS envelope that follows amplitude changes', () => {
+            const signal = [...sine(50, 2, 1), ...sine(50, 2, 3)];
+            const envelope = movingRmsEnvelope(signal, 0.1 * FS);
+
+            expect(envelope).toHaveLength(signal.length);
+            expect(envelope[FS]).toBeCloseTo(Math.SQRT1_2, 1);
+            expect(envelope[3 * FS]).toBeCloseTo(3 * Math.SQRT1_2, 1);
+        });
+
+        it('fills StreamStatistics', () => {
+            expect(computeStreamStatistics([4, -2, 1, 1], 2)).toEqual({
+                mean: 1,
+                median: 1,
+                stdDev: Math.sqrt(4.5),
+                min: -2,
+                max: 4,
+                sampleCount: 4,
+                duration: 2,
+            });
+        });
+    });
+
+    describe('inputs', () => {
+        it('computes the same features from packets, samples and recording CSV', () => {
+            const samples = sine(45, 4, 100).map(Math.round);
+            const packets = Array.from({ length: samples.length / 43 }, (_, i) => ({
+                timestamp: i * 200,
+                values: samples.slice(i * 43, (i + 1) * 43),
+            }));
+            const csv = 'timestamp,value\n' + flattenPackets(packets).map((v, i) => `${i}.00,${v}`).join('\n');
+
+            const fromPackets = computeEmgFeatures(packets, FS);
+
+            expect(computeEmgFeatures(samples, FS)).toEqual(fromPackets);
+            expect(computeEmgFeatures(samplesFromRecordingCsv(csv), FS)).toEqual(fromPackets);
+            expect(fromPackets.medianFrequency).toBeCloseTo(45, -0.5);
+            expect(fromPackets.statistics.sampleCount).toBe(samples.length);
+        });
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Permissions (@iris/domain auth)
+ *
+ * Role and permission claims from a token resolve into the permissions both
+ * apps check. Lives here because @iris/domain has no test runner of its own.
+ *
+ * Run with: npx vitest run src/__tests__/permissions.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    PERMISSIONS,
+    ROLE_PERMISSIONS,
+    UserRole,
+    parseUserRole,
+    primaryRole,
+    resolvePermissions,
+    userHasPermission,
+} from '@iris/domain';
+
+describe('parseUserRole', () => {
+    it('should accept role names in any case', () => {
+        expect(parseUserRole('Admin')).toBe(UserRole.ADMIN);
+        expect(parseUserRole(' clinician ')).toBe(UserRole.CLINICIAN);
+        expect(parseUserRole('superuser')).toBeNull();
+    });
+});
+
+describe('primaryRole', () => {
+    it('should pick the most privileged known role', () => {
+        expect(primaryRole(['Viewer', 'Researcher', 'unknown'])).toBe(UserRole.RESEARCHER);
+    });
+
+    it('should fall back to viewer', () => {
+        expect(primaryRole([])).toBe(UserRole.VIEWER);
+        expect(primaryRole(['unknown'])).toBe(UserRole.VIEWER);
+    });
+});
+
+describe('resolvePermissions', () => {
+    it('should give viewers read access only', () => {
+        const permissions = resolvePermissions(['viewer']);
+        expect(permissions).toContain('snomed:read');
+        expect(permissions.filter(permission => !permission.endsWith(':read'))).toEqual([]);
+    });
+
+    it('should not let clinicians approve node connections or edit SNOMED codes', () => {
+        const permissions = resolvePermissions(['Clinician']);
+        expect(permissions).toContain('fes:stimulate');
+        expect(permissions).not.toContain('node:approve');
+        expect(permissions).not.toContain('snomed:admin');
+    });
+
+    it('should give admins every permission', () => {
+        expect(resolvePermissions(['Admin'])).toEqual([...PERMISSIONS]);
+    });
+
+    it('should merge several roles and explicit grants', () => {
+        const permissions = resolvePermissions(['viewer', 'researcher'], ['SNOMED:admin', 'unknown:grant']);
+        expect(permissions).toEqual(
+            PERMISSIONS.filter(permission => ROLE_PERMISSIONS[UserRole.RESEARCHER].includes(permission) || permission === 'snomed:admin')
+        );
+    });
+
+    it('should treat a user whose roles are all unknown as a viewer', () => {
+        expect(resolvePermissions(['superuser'])).toEqual(resolvePermissions(['viewer']));
+    });
+
+    it('should keep unrestricted access for tokens without a role claim', () => {
+        // Nodes do not issue role claims yet; recording and stimulation must keep working
+        expect(resolvePermissions([])).toEqual([...PERMISSIONS]);
+        expect(resolvePermissions([], ['snomed:read'])).toContain('session:record');
+    });
+});
+
+describe('userHasPermission', () => {
+    it('should prefer resolved permissions over the role', () => {
+        expect(userHasPermission({ role: UserRole.VIEWER, permissions: ['snomed:admin'] }, 'snomed:admin')).toBe(true);
+        expect(userHasPermission({ role: UserRole.ADMIN, permissions: [] }, 'snomed:admin')).toBe(false);
+    });
+
+    it('should use the role when permissions were not resolved', () => {
+        expect(userHasPermission({ role: UserRole.CLINICIAN }, 'session:record')).toBe(true);
+        expect(userHasPermission(null, 'snomed:read')).toBe(false);
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * Request Freshness Tests
+ *
+ * Sequence numbers and the advertised rate window (reserveRequest), checking
+ * echoed responses (verifyResponseEcho) and empty responses in a session
+ * (SessionManager), and where EncryptedHttpClient puts the stamp of a request.
+ *
+ * Run with: npx vitest run src/__tests__/requestFreshness.test.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    EncryptedHttpClient,
+    RequestRateLimitError,
+    SessionManager,
+    parseRateWindow,
+    reserveRequest,
+    verifyResponseEcho,
+} from '@iris/middleware';
+import type {
+    ChannelManager,
+    CryptoDriver,
+    HttpClient,
+    HttpRequest,
+    HttpResponse,
+    RequestStamp,
+    SessionRuntimeState,
+} from '@iris/middleware';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+const CHANNEL = {
+    channelId: 'channel-1',
+    cipher: 'AES-256-GCM' as const,
+    symmetricKey: '',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    cryptoKey: {} as CryptoKey,
+};
+
+/** Encrypts to readable JSON so tests can look inside an envelope */
+function createCryptoDriver(): CryptoDriver {
+    return {
+        encrypt: vi.fn(async (payload: unknown) => ({ encryptedData: JSON.stringify(payload), iv: 'iv', authTag: 'tag' })),
+        decrypt: vi.fn(async (payload: { encryptedData: string }) => JSON.parse(payload.encryptedData)),
+    } as unknown as CryptoDriver;
+}
+
+function createSession(capabilities: string[] = []): SessionRuntimeState {
+    return {
+        sessionToken: 'session-token-0123456789',
+        registrationId: 'registration-1',
+        capabilities,
+        expiresAt: new Date(NOW + 60 * 60 * 1000),
+    };
+}
+
+function echoed<T extends object>(data: T, stamp: RequestStamp, respondedAt = new Date(NOW).toISOString()) {
+    return { ...data, requestEcho: { sequence: stamp.sequence, timestamp: stamp.timestamp, respondedAt } };
+}
+
+describe('parseRateWindow', () => {
+    it('reads the advertised request budget', () => {
+        expect(parseRateWindow(['replay-protection', 'rate-limit:30/60'])).toEqual({ limit: 30, windowMs: 60_000 });
+    });
+
+    it('returns null without a valid rate-limit capability', () => {
+        expect(parseRateWindow([])).toBeNull();
+        expect(parseRateWindow(['rate-limit:0/60', 'rate-limit:ten/60'])).toBeNull();
+    });
+});
+
+describe('reserveRequest', () => {
+    it('numbers requests in order and keeps the counter on the session', () => {
+        const session = createSession();
+
+        const stamps = [reserveRequest(session, NOW), reserveRequest(session, NOW + 1), reserveRequest(session, NOW + 2)];
+
+        expect(stamps.map(stamp => stamp.sequence)).toEqual([1, 2, 3]);
+        expect(stamps[1].timestamp).toBe(new Date(NOW + 1).toISOString());
+        expect(session.requestSequence).toBe(3);
+    });
+
+    it('continues the sequence of a restored session', () => {
+        const session = { ...createSession(), requestSequence: 41 };
+
+        expect(reserveRequest(session, NOW).sequence).toBe(42);
+    });
+
+    it('throws RequestRateLimitError once the rate window is used up', () => {
+        const session = createSession(['rate-limit:2/10']);
+        reserveRequest(session, NOW);
+        reserveRequest(session, NOW + 1000);
+
+        let thrown: unknown;
+        try {
+            reserveRequest(session, NOW + 4000);
+        } catch (error) {
+            thrown = error;
+        }
+
+        expect(thrown).toBeInstanceOf(RequestRateLimitError);
+        expect((thrown as RequestRateLimitError).retryAfterMs).toBe(6000);
+        expect(session.requestSequence).toBe(2);
+        expect(session.requestWindowCount).toBe(2);
+    });
+
+    it('opens a new window once the old one has passed, without resetting the sequence', () => {
+        const session = createSession(['rate-limit:2/10']);
+        reserveRequest(session, NOW);
+        reserveRequest(session, NOW + 1000);
+
+        const stamp = reserveRequest(session, NOW + 10_000);
+
+        expect(stamp.sequence).toBe(3);
+        expect(session.requestWindowCount).toBe(1);
+        expect(session.requestWindowStartedAt).toEqual(new Date(NOW + 10_000));
+    });
+});
+
+describe('verifyResponseEcho', () => {
+    const stamp: RequestStamp = { sequence: 7, timestamp: new Date(NOW - 500).toISOString() };
+
+    it('returns a matching response without its echo', () => {
+        expect(verifyResponseEcho(echoed({ id: 'research-1' }, stamp), stamp, 60_000, NOW)).toEqual({ id: 'research-1' });
+    });
+
+    it('rejects a response without an echo', () => {
+        expect(() => verifyResponseEcho({ id: 'research-1' }, stamp, 60_000, NOW)).toThrow(/does not echo/);
+    });
+
+    it('rejects a response to another request', () => {
+        const other = { sequence: 6, timestamp: stamp.timestamp };
+        expect(() => verifyResponseEcho(echoed({}, other), stamp, 60_000, NOW)).toThrow(/answers request #6/);
+    });
+
+    it('rejects an echo whose timestamp differs', () => {
+        const other = { sequence: 7, timestamp: new Date(NOW - 90_000).toISOString() };
+        expect(() => verifyResponseEcho(echoed({}, other), stamp, 60_000, NOW)).toThrow(/replayed or out of order/);
+    });
+
+    it('rejects a response answered outside the allowed skew', () => {
+        const stale = echoed({}, stamp, new Date(NOW - 61_000).toISOString());
+        expect(() => verifyResponseEcho(stale, stamp, 60_000, NOW)).toThrow(/stale/);
+    });
+});
+
+describe('EncryptedHttpClient request stamps', () => {
+    function createClient() {
+        const sent: HttpRequest[] = [];
+        const baseClient: HttpClient = {
+            request: vi.fn(async (request: HttpRequest) => {
+                sent.push(request);
+                return { status: 200, headers: {}, data: {} };
+            }),
+        } as unknown as HttpClient;
+        const client = new EncryptedHttpClient(baseClient, {} as ChannelManager, createCryptoDriver());
+        client.setChannel(CHANNEL);
+        const sentBody = (index: number) =>
+            JSON.parse((sent[index].body as { encryptedData: string }).encryptedData) as Record<string, unknown>;
+        return { client, sent, sentBody };
+    }
+
+    it('adds the stamp next to the body fields without replacing them', async () => {
+        const { client, sentBody } = createClient();
+        const body = { sequence: 'B', timestamp: '2026-02-28T08:00:00.000Z', value: 1 };
+
+        await client.request({ url: '/api/marks', method: 'POST', body });
+        await client.request({ url: '/api/marks', method: 'POST', body });
+
+        expect(sentBody(0)).toMatchObject(body);
+        expect(sentBody(0).requestSequence).toBe(1);
+        expect(sentBody(1).requestSequence).toBe(2);
+        expect(typeof sentBody(1).requestTimestamp).toBe('string');
+    });
+
+    it('sends the stamp as headers when there is no object body', async () => {
+        const { client, sent } = createClient();
+
+        await client.request({ url: '/api/research', method: 'GET' });
+
+        expect(sent[0].body).toBeUndefined();
+        expect(sent[0].headers).toMatchObject({ 'X-Channel-Id': 'channel-1', 'X-Request-Sequence': '1' });
+        expect(sent[0].headers?.['X-Request-Timestamp']).toEqual(expect.any(String));
+    });
+});
+
+describe('SessionManager empty responses', () => {
+    const stamp: RequestStamp = { sequence: 3, timestamp: new Date().toISOString() };
+
+    function submit(response: HttpResponse, capabilities: string[]) {
+        const httpClient = { request: vi.fn(async () => response) } as unknown as HttpClient;
+        const sessionManager = new SessionManager(httpClient, createCryptoDriver());
+        return sessionManager.submitEncryptedPayload(
+            CHANNEL, createSession(capabilities), '/api/marks', 'POST', { value: 1 }, undefined, stamp
+        );
+    }
+
+    it('accepts a 204 without an echo', async () => {
+        await expect(submit({ status: 204, headers: {}, data: undefined }, ['replay-protection'])).resolves.toBeUndefined();
+    });
+
+    it('rejects an empty 200 when the node has replay protection', async () => {
+        await expect(submit({ status: 200, headers: {}, data: {} }, ['replay-protection'])).rejects.toThrow(/no body to echo/);
+    });
+
+    it('accepts an empty 200 from a node without replay protection', async () => {
+        await expect(submit({ status: 200, headers: {}, data: {} }, [])).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,347 @@
+/**
+ * Research Node Middleware Tests
+ *
+ * ResearchNodeMiddleware.invoke() with its interceptor chain, against fake
+ * channel and session managers: hook order, afterResponse outside the retry
+ * path, correlation ids, the retry interceptor, recovery of channels the node
+ * forgot, and PII redaction in logs.
+ *
+ * Run with: npx vitest run src/__tests__/researchNodeMiddleware.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    ResearchNodeMiddleware,
+    createCorrelationIdInterceptor,
+    createRetryInterceptor,
+    createLoggingInterceptor,
+    redactPii,
+    NodeChannelError,
+    CORRELATION_ID_HEADER,
+    REDACTED,
+} from '@iris/middleware';
+import type {
+    ChannelManager,
+    SessionManager,
+    MiddlewareInterceptor,
+    ResearchNodeCertificateConfig,
+    ResearchNodeMiddlewareOptions,
+} from '@iris/middleware';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface SentRequest {
+    channelId: string;
+    path: string;
+    method: string;
+    payload: Record<string, unknown>;
+    headers: Record<string, string>;
+}
+
+type Send = (request: SentRequest) => Promise<unknown>;
+
+function httpError(status: number, data?: unknown, headers: Record<string, string> = {}): Error {
+    return Object.assign(new Error(`HTTP ${status}`), { status, response: { data, headers } });
+}
+
+/** A 401 about the user's JWT, which the middleware leaves to the caller */
+function bearerError(): Error {
+    return httpError(401, 'Token expired', { 'www-authenticate': 'Bearer error="invalid_token"' });
+}
+
+function createMiddleware(send: Send, options: Partial<ResearchNodeMiddlewareOptions> = {}) {
+    let channelCount = 0;
+    const channelManager = {
+        openChannel: vi.fn(async () => {
+            channelCount += 1;
+            return {
+                runtime: {
+                    channelId: `channel-${channelCount}`,
+                    cipher: 'AES-256-GCM',
+                    symmetricKey: '',
+                    expiresAt: new Date(Date.now() + HOUR_MS),
+                    cryptoKey: {} as CryptoKey,
+                },
+                persisted: { channelId: `channel-${channelCount}`, expiresAt: new Date(Date.now() + HOUR_MS).toISOString() },
+            };
+        }),
+    };
+    const sessionManager = {
+        identifyNode: vi.fn(async () => ({ isKnown: true, status: 1, registrationId: 'registration-1' })),
+        requestChallenge: vi.fn(async () => ({ challengeData: 'challenge-data-0123456789' })),
+        authenticate: vi.fn(async () => ({
+            authenticated: true,
+            sessionToken: 'session-token-0123456789',
+            registrationId: 'registration-1',
+            capabilities: [],
+            sessionExpiresAt: new Date(Date.now() + HOUR_MS).toISOString(),
+        })),
+        submitEncryptedPayload: vi.fn(
+            (channel: { channelId: string }, _session: unknown, path: string, method: string, payload: Record<string, unknown>, headers: Record<string, string>) =>
+                send({ channelId: channel.channelId, path, method, payload, headers: { ...headers } })
+        ),
+        toPersisted: vi.fn(() => ({})),
+        renewSession: vi.fn(),
+    };
+
+    const middleware = new ResearchNodeMiddleware({
+        channelManager: channelManager as unknown as ChannelManager,
+        sessionManager: sessionManager as unknown as SessionManager,
+        certificate: { subjectName: 'test-node' } as ResearchNodeCertificateConfig,
+        signChallenge: async () => 'signature-0123456789',
+        ...options,
+    });
+    return { middleware, channelManager, sessionManager };
+}
+
+const POST = { path: '/api/volunteers', method: 'POST' as const, payload: { name: 'Ana' } };
+
+describe('ResearchNodeMiddleware.invoke', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('runs beforeRequest hooks in order and afterResponse hooks in reverse', async () => {
+        const calls: string[] = [];
+        const hook = (name: string): MiddlewareInterceptor => ({
+            name,
+            beforeRequest: () => { calls.push(`before ${name}`); },
+            afterResponse: () => { calls.push(`after ${name}`); },
+        });
+        const { middleware } = createMiddleware(async () => ({ ok: true }), { interceptors: [hook('a'), hook('b')] });
+
+        await expect(middleware.invoke(POST)).resolves.toEqual({ ok: true });
+        expect(calls).toEqual(['before a', 'before b', 'after b', 'after a']);
+    });
+
+    it('lets beforeRequest hooks change the request', async () => {
+        const send = vi.fn<Send>(async () => ({}));
+        const { middleware } = createMiddleware(send, {
+            interceptors: [{ name: 'tag', beforeRequest: (context) => { context.request.headers['X-Test'] = '1'; } }],
+        });
+
+        await middleware.invoke(POST);
+
+        expect(send.mock.calls[0][0].headers).toMatchObject({ 'X-Test': '1' });
+    });
+
+    it('neither fails nor re-sends a request whose afterResponse hook throws', async () => {
+        const send = vi.fn<Send>(async () => ({ id: 'volunteer-1' }));
+        const onError = vi.fn(() => 'retry' as const);
+        const { middleware } = createMiddleware(send, {
+            interceptors: [
+                { name: 'retry-everything', onError },
+                { name: 'broken', afterResponse: () => { throw new Error('metrics backend down'); } },
+            ],
+        });
+
+        await expect(middleware.invoke(POST)).resolves.toEqual({ id: 'volunteer-1' });
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(onError).not.toHaveBeenCalled();
+        expect(console.warn).toHaveBeenCalledWith('[Middleware] afterResponse hook "broken" failed:', expect.any(Error));
+    });
+
+    it('lets an onError hook replace the error the caller sees', async () => {
+        const { middleware } = createMiddleware(async () => { throw httpError(500); }, {
+            interceptors: [{ name: 'wrap', onError: () => { throw new Error('Node unavailable'); } }],
+        });
+
+        await expect(middleware.invoke(POST)).rejects.toThrow('Node unavailable');
+    });
+
+    describe('correlation ids', () => {
+        it('sends one id per call and reuses it on retries', async () => {
+            const ids = ['id-1', 'id-2'];
+            const send = vi.fn<Send>()
+                .mockRejectedValueOnce(bearerError())
+                .mockResolvedValue({});
+            const { middleware } = createMiddleware(send, {
+                interceptors: [
+                    createCorrelationIdInterceptor({ generate: () => ids.shift()! }),
+                    createRetryInterceptor({ recover: () => undefined }),
+                ],
+            });
+
+            await middleware.invoke(POST);
+            await middleware.invoke(POST);
+
+            expect(send.mock.calls.map(([request]) => request.headers[CORRELATION_ID_HEADER])).toEqual(['id-1', 'id-1', 'id-2']);
+        });
+    });
+
+    describe('retry interceptor', () => {
+        it('retries a 401 once after recovering', async () => {
+            const recover = vi.fn();
+            const send = vi.fn<Send>()
+                .mockRejectedValueOnce(bearerError())
+                .mockResolvedValue({ ok: true });
+            const { middleware } = createMiddleware(send, { interceptors: [createRetryInterceptor({ recover })] });
+
+            await expect(middleware.invoke(POST)).resolves.toEqual({ ok: true });
+            expect(send).toHaveBeenCalledTimes(2);
+            expect(recover).toHaveBeenCalledTimes(1);
+        });
+
+        it('gives up after maxRetries', async () => {
+            const send = vi.fn<Send>(async () => { throw bearerError(); });
+            const { middleware } = createMiddleware(send, {
+                interceptors: [createRetryInterceptor({ recover: () => undefined })],
+                maxRetries: 2,
+            });
+
+            await expect(middleware.invoke(POST)).rejects.toMatchObject({ status: 401 });
+            expect(send).toHaveBeenCalledTimes(3);
+        });
+
+        it('shares one token refresh between calls rejected together', async () => {
+            let finishRefresh!: () => void;
+            const recover = vi.fn(() => new Promise<void>(resolve => { finishRefresh = resolve; }));
+            const send = vi.fn<Send>()
+                .mockRejectedValueOnce(bearerError())
+                .mockRejectedValueOnce(bearerError())
+                .mockResolvedValue({ ok: true });
+            const { middleware } = createMiddleware(send, { interceptors: [createRetryInterceptor({ recover })] });
+            await middleware.ensureSession();
+
+            const calls = Promise.all([middleware.invoke(POST), middleware.invoke(POST)]);
+            await vi.waitFor(() => expect(recover).toHaveBeenCalled());
+            finishRefresh();
+
+            await expect(calls).resolves.toEqual([{ ok: true }, { ok: true }]);
+            expect(recover).toHaveBeenCalledTimes(1);
+            expect(send).toHaveBeenCalledTimes(4);
+        });
+
+        it('fails with the original error, without retrying, when the refresh fails', async () => {
+            const send = vi.fn<Send>(async () => { throw bearerError(); });
+            const { middleware } = createMiddleware(send, {
+                interceptors: [createRetryInterceptor({ recover: () => Promise.reject(new Error('refresh rejected')) })],
+            });
+
+            await expect(middleware.invoke(POST)).rejects.toMatchObject({ status: 401 });
+            expect(send).toHaveBeenCalledTimes(1);
+        });
+
+        it('does not retry the user auth endpoints', async () => {
+            const recover = vi.fn();
+            const send = vi.fn<Send>(async () => { throw bearerError(); });
+            const { middleware } = createMiddleware(send, { interceptors: [createRetryInterceptor({ recover })] });
+
+            await expect(middleware.invoke({ ...POST, path: '/api/userauth/refreshtoken' })).rejects.toMatchObject({ status: 401 });
+            expect(send).toHaveBeenCalledTimes(1);
+            expect(recover).not.toHaveBeenCalled();
+        });
+
+        it('does not retry other statuses', async () => {
+            const send = vi.fn<Send>(async () => { throw httpError(500); });
+            const { middleware } = createMiddleware(send, { interceptors: [createRetryInterceptor({ recover: () => undefined })] });
+
+            await expect(middleware.invoke(POST)).rejects.toMatchObject({ status: 500 });
+            expect(send).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('channel recovery', () => {
+        const channelGone = () => httpError(401, 'Invalid or expired channel');
+
+        it('replays a request rejected for an unknown channel exactly once, even with the retry interceptor', async () => {
+            const send = vi.fn<Send>()
+                .mockRejectedValueOnce(channelGone())
+                .mockResolvedValue({ ok: true });
+            const { middleware, channelManager } = createMiddleware(send, {
+                interceptors: [createRetryInterceptor({ recover: () => undefined })],
+                maxRetries: 3,
+            });
+
+            await expect(middleware.invoke(POST)).resolves.toEqual({ ok: true });
+            expect(send.mock.calls.map(([request]) => request.channelId)).toEqual(['channel-1', 'channel-2']);
+            expect(channelManager.openChannel).toHaveBeenCalledTimes(2);
+        });
+
+        it('fails with NodeChannelError, without retrying, when the replay is rejected again', async () => {
+            const send = vi.fn<Send>(async () => { throw channelGone(); });
+            const recover = vi.fn();
+            const { middleware } = createMiddleware(send, {
+                interceptors: [createRetryInterceptor({ recover })],
+                maxRetries: 3,
+            });
+
+            const error = await middleware.invoke(POST).catch((caught: unknown) => caught);
+
+            expect(error).toBeInstanceOf(NodeChannelError);
+            expect(error).toMatchObject({ reason: 'channel-invalid' });
+            expect(send).toHaveBeenCalledTimes(2);
+            expect(recover).not.toHaveBeenCalled();
+        });
+
+        it('does not run the handshake again when a recovered call is retried', async () => {
+            const send = vi.fn<Send>()
+                .mockRejectedValueOnce(channelGone())
+                .mockRejectedValueOnce(bearerError())
+                .mockRejectedValue(channelGone());
+            const { middleware, channelManager } = createMiddleware(send, {
+                interceptors: [createRetryInterceptor({ recover: () => undefined })],
+                maxRetries: 3,
+            });
+
+            await expect(middleware.invoke(POST)).rejects.toBeInstanceOf(NodeChannelError);
+            expect(send).toHaveBeenCalledTimes(3);
+            expect(channelManager.openChannel).toHaveBeenCalledTimes(2);
+        });
+
+        it('fails with NodeChannelError, without replaying, when the handshake fails', async () => {
+            const send = vi.fn<Send>(async () => { throw channelGone(); });
+            const { middleware, channelManager } = createMiddleware(send, {
+                interceptors: [createRetryInterceptor({ recover: () => undefined })],
+                maxRetries: 3,
+            });
+            await middleware.ensureSession();
+            channelManager.openChannel.mockRejectedValue(new Error('node unreachable'));
+
+            await expect(middleware.invoke(POST)).rejects.toBeInstanceOf(NodeChannelError);
+            expect(send).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('redaction', () => {
+        it('redacts PII keys at any depth, ignoring case', () => {
+            const redacted = redactPii({
+                Email: 'ana@example.org',
+                volunteer: { name: 'Ana', birthDate: '1990-01-01', sex: 'F' },
+                contacts: [{ phone: '555-0100' }],
+            });
+
+            expect(redacted).toEqual({
+                Email: REDACTED,
+                volunteer: { name: REDACTED, birthDate: REDACTED, sex: 'F' },
+                contacts: [{ phone: REDACTED }],
+            });
+        });
+
+        it('logs redacted payloads, responses and error bodies only', async () => {
+            const log = vi.fn();
+            const logError = vi.fn();
+            const logging = createLoggingInterceptor({ logBodies: true, log, logError });
+            const send = vi.fn<Send>()
+                .mockResolvedValueOnce({ id: 'volunteer-1', email: 'ana@example.org' })
+                .mockRejectedValueOnce(httpError(400, { error: 'duplicate', cpf: '123.456.789-00' }));
+            const { middleware } = createMiddleware(send, { interceptors: [logging] });
+
+            await middleware.invoke(POST);
+            await expect(middleware.invoke(POST)).rejects.toThrow('HTTP 400');
+
+            const logged = JSON.stringify([...log.mock.calls, ...logError.mock.calls]);
+            expect(logged).not.toContain('Ana');
+            expect(logged).not.toContain('ana@example.org');
+            expect(logged).not.toContain('123.456.789-00');
+            expect(logged).toContain('volunteer-1');
+            expect(logError.mock.calls[0][0]).toContain('POST /api/volunteers failed (HTTP 400)');
+        });
+    });
+});
@@ -0,0 +1,197 @@
+/**
+ * Password Prompt Modal
+ *
+ * Cross-platform modal for entering a password. With `confirm` the password
+ * is typed twice and must match and reach `minLength`, for passwords that
+ * are chosen now and needed later (SettingsScreen backups); without it one
+ * field is shown for entering an existing password.
+ * Passwords are passed on as typed, never trimmed.
+ */
+
+import React, { FC, useState, useEffect } from 'react';
+import {
+    Modal,
+    View,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    StyleSheet,
+    KeyboardAvoidingView,
+    Platform,
+} from 'react-native';
+import { theme } from '@/theme';
+
+interface PasswordPromptModalProps {
+    visible: boolean;
+    title: string;
+    message?: string;
+    confirmLabel?: string;
+    /** Ask for the password twice. */
+    confirm?: boolean;
+    /** Checked only with `confirm`. Default: 1 */
+    minLength?: number;
+    onConfirm: (password: string) => void;
+    onCancel: () => void;
+}
+
+export const PasswordPromptModal: FC<PasswordPromptModalProps> = ({
+    visible,
+    title,
+    message,
+    confirmLabel = 'OK',
+    confirm = false,
+    minLength = 1,
+    onConfirm,
+    onCancel,
+}) => {
+    const [password, setPassword] = useState('');
+    const [repeated, setRepeated] = useState('');
+
+    // Never keep a password around between prompts
+    useEffect(() => {
+        if (visible) {
+            setPassword('');
+            setRepeated('');
+        }
+    }, [visible]);
+
+    let problem: string | null = null;
+    if (confirm && password.length > 0 && password.length < minLength) {
+        problem = `Use at least ${minLength} characters.`;
+    } else if (confirm && repeated.length > 0 && repeated !== password) {
+        problem = 'Passwords do not match.';
+    }
+    const canSubmit = password.length > 0 && (!confirm || (password.length >= minLength && repeated === password));
+
+    const handleConfirm = () => {
+        if (!canSubmit) return;
+        onConfirm(password);
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onCancel}
+        >
+            <KeyboardAvoidingView
+                style={styles.overlay}
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            >
+                <View style={styles.container}>
+                    <Text style={styles.title}>{title}</Text>
+                    {message && <Text style={styles.message}>{message}</Text>}
+
+                    <TextInput
+                        style={styles.input}
+                        value={password}
+                        onChangeText={setPassword}
+                        placeholder="Password"
+                        placeholderTextColor={theme.colors.textMuted}
+                        autoFocus
+                        secureTextEntry
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                    {confirm && (
+                        <TextInput
+                            style={styles.input}
+                            value={repeated}
+                            onChangeText={setRepeated}
+                            placeholder="Repeat password"
+                            placeholderTextColor={theme.colors.textMuted}
+                            secureTextEntry
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            onSubmitEditing={handleConfirm}
+                        />
+                    )}
+                    {problem && <Text style={styles.problem}>{problem}</Text>}
+
+                    <View style={styles.actions}>
+                        <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                            <Text style={styles.cancelText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.confirmButton, !canSubmit && styles.confirmButtonDisabled]}
+                            onPress={handleConfirm}
+                            disabled={!canSubmit}
+                        >
+                            <Text style={styles.confirmText}>{confirmLabel}</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: theme.spacing.xl,
+    },
+    container: {
+        width: '100%',
+        backgroundColor: theme.colors.surface,
+        borderRadius: theme.borderRadius.lg,
+        padding: theme.spacing.xl,
+        ...theme.shadow.md,
+    },
+    title: {
+        ...theme.typography.title3,
+        color: theme.colors.textTitle,
+        marginBottom: theme.spacing.sm,
+    },
+    message: {
+        ...theme.typography.bodySmall,
+        color: theme.colors.textMuted,
+        marginBottom: theme.spacing.md,
+    },
+    input: {
+        ...theme.typography.bodyBase,
+        color: theme.colors.textBody,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: theme.borderRadius.md,
+        paddingHorizontal: theme.spacing.md,
+        paddingVertical: theme.spacing.sm,
+        marginBottom: theme.spacing.md,
+    },
+    problem: {
+        ...theme.typography.bodySmall,
+        color: theme.colors.error,
+        marginBottom: theme.spacing.md,
+    },
+    actions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: theme.spacing.md,
+    },
+    cancelButton: {
+        paddingHorizontal: theme.spacing.lg,
+        paddingVertical: theme.spacing.sm,
+    },
+    cancelText: {
+        ...theme.typography.uiBase,
+        color: theme.colors.textMuted,
+    },
+    confirmButton: {
+        backgroundColor: theme.colors.primary,
+        paddingHorizontal: theme.spacing.lg,
+        paddingVertical: theme.spacing.sm,
+        borderRadius: theme.borderRadius.md,
+    },
+    confirmButtonDisabled: {
+        opacity: 0.5,
+    },
+    confirmText: {
+        ...theme.typography.uiBase,
+        color: theme.colors.surface,
+        fontWeight: '600',
+    },
+});
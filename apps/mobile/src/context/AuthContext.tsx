@@ -10,18 +10,24 @@
  * - Secure token storage
  * - Session validation on mount
  * - Logout with session revocation
+ * - Permissions from the token's role and permission claims
  */
 
-import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode, FC } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode, FC } from 'react';
 import type { LoginCredentials, User, AuthToken } from '@iris/middleware';
-import type { Researcher, PaginatedResponse } from '@iris/domain';
+import type { Researcher, PaginatedResponse, Permission } from '@iris/domain';
+import { resolvePermissions } from '@iris/domain';
 import { authService, middleware, initializeAndHydrate } from '@/services/middleware';
+import { auditLogRepository } from '@/data/repositories/AuditLogRepository';
 
 interface AuthContextValue {
   user: User | null;
   researcher: Researcher | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** Permissions of the signed-in user; empty when signed out */
+  permissions: Permission[];
+  can: (permission: Permission) => boolean;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   error: string | null;
@@ -64,6 +70,17 @@ export const AuthProvider: FC<AuthProviderProps> = ({ children }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Audit entries are attributed to the signed-in user
+  useEffect(() => {
+    auditLogRepository.setActor(user?.id ?? null);
+  }, [user]);
+
+  const permissions = useMemo(
+    () => (user ? resolvePermissions(user.roles ?? [], user.permissions ?? []) : []),
+    [user]
+  );
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
   // Initialize auth service on mount
   useEffect(() => {
     const initialize = async () => {
@@ -177,6 +194,8 @@ export const AuthProvider: FC<AuthProviderProps> = ({ children }) => {
     researcher,
     isAuthenticated: user !== null,
     isLoading,
+    permissions,
+    can,
     login,
     logout,
     error,
@@ -1,44 +1,39 @@
 import React, { useEffect, useState } from 'react';
 import { ReactNode, createContext, useContext } from "react";
-import { PermissionsAndroid, Platform, Linking } from 'react-native';
-import RNBluetoothClassic, { BluetoothDevice, BluetoothEventSubscription } from 'react-native-bluetooth-classic';
-import { toByteArray } from 'react-native-quick-base64';
+import { PermissionsAndroid, Platform, Linking, AppState } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 
 // Import shared domain types
 import {
-    BluetoothProtocolFunction,
-    BluetoothProtocolMethod,
-    BluetoothProtocolBodyProperty,
-    BluetoothProtocolBodyField,
-    BluetoothProtocolPayload,
-    BluetoothProtocolBody,
+    DeviceInfo,
+    DeviceConfiguration,
     FESParametersBody,
     StreamType,
     StreamConfiguration,
     StreamDataPacket,
-    FESParameters,
+    SignalIntegrity,
     SessionStatus,
+    StimulationContext,
+    FesSafetyDecision,
+    FesEnvelopeScope,
+    FesSafetyEnvelope,
     DEVICE_SAMPLE_RATE_HZ,
-    SIMULATION_SAMPLE_RATE_HZ,
-    BINARY_PACKET_MAGIC,
+    clampFesParameters,
 } from '@iris/domain';
-import { BinaryFrameAccumulator } from '@/utils/binaryDecoder';
-
-// Module-level pure helpers for CSV serialization and downsampling
+import { DeviceProtocolClient } from '@/device/DeviceProtocolClient';
+import { ClassicSppTransport } from '@/device/ClassicSppTransport';
+import type { DeviceTransport, TransportDevice, TransportSubscription } from '@/device/DeviceTransport';
+import { FesSafetyInterlock, envelopeFromCapabilities, validateEnvelope, type FesCommandResult } from '@/safety';
+import { stimulationLogRepository, fesEnvelopeRepository } from '@/data/repositories/FesSafetyRepository';
+import { auditLogRepository } from '@/data/repositories/AuditLogRepository';
+import { preferencesService } from '@/services/PreferencesService';
+import { ChunkedRecordingWriter, RECORDING_EXTENSION } from '@/recording';
+import { expoRecordingFileSystem } from '@/recording/ExpoRecordingFileSystem';
+
+// Module-level pure helper for downsampling
 
 const DOWNSAMPLE_FACTOR = 5; // 50 samples → 10 samples per packet
 
-function serializePacketToCSV(packet: StreamDataPacket, sampleRate: number): string {
-    const intervalMs = 1000 / sampleRate;
-    let csv = '';
-    for (let i = 0; i < packet.values.length; i++) {
-        const ts = packet.timestamp + i * intervalMs;
-        csv += `${ts.toFixed(2)},${packet.values[i]}\n`;
-    }
-    return csv;
-}
-
 function downsamplePacket(packet: StreamDataPacket): StreamDataPacket {
     const downsampled: number[] = [];
     for (let i = 0; i < packet.values.length; i += DOWNSAMPLE_FACTOR) {
@@ -51,10 +46,10 @@ const BluetoothContext = createContext({} as BluetoothContextData);
 
 interface BluetoothContextProviderProps {
     children: ReactNode;
+    /** Link to the device. Defaults to Bluetooth Classic SPP. */
+    transport?: DeviceTransport;
 }
 
-type ActivableBluetoothDevice = BluetoothDevice & { active: boolean }
-
 export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
     const verifyConnectionDelayms = 10000;
     const verifySerialDelayms = 1000;
@@ -65,12 +60,17 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
     const [permissionPermanentlyDenied, setPermissionPermanentlyDenied] = useState(false);
     const [reload, callReload] = useState(false);
 
-    const [neuraDevices, setNeuraDevices] = useState<ActivableBluetoothDevice[]>([]);
-    const [pairedDevices, setPairedDevices] = useState<ActivableBluetoothDevice[]>([]);
+    const [neuraDevices, setNeuraDevices] = useState<DeviceInfo[]>([]);
+    const [pairedDevices, setPairedDevices] = useState<DeviceInfo[]>([]);
     const [isScanning, setIsScanning] = useState(false);
-    const [selectedDevice, setSelectedDevice] = useState<BluetoothDevice>();
-    const [btDataRecieveSubscription, setBtDataRecieveSubscription] = useState<BluetoothEventSubscription>();
-    const [btDeviceDisconnectSubscription, setBtDeviceDisconnectSubscription] = useState<BluetoothEventSubscription>();
+    const [selectedDevice, setSelectedDevice] = useState<TransportDevice>();
+    // Firmware version and capabilities from the connect handshake; null for
+    // firmware that predates it or while disconnected.
+    const [deviceConfiguration, setDeviceConfiguration] = useState<DeviceConfiguration | null>(null);
+    const [btDeviceDisconnectSubscription, setBtDeviceDisconnectSubscription] = useState<TransportSubscription>();
+
+    // Transport and protocol client are created once per provider instance
+    const transportRef = React.useRef<DeviceTransport>(props.transport ?? new ClassicSppTransport());
 
     const [fesParams, setFesParams] = useState<FESParametersBody>({
         a: 7,
@@ -98,27 +98,99 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
 
     // Recording state — refs readable from stale BT listener closure
     const isRecordingRef = React.useRef(false);
-    const recordingFilePathRef = React.useRef<string | null>(null);
-    const sampleCountRef = React.useRef(0);
-    const csvPendingRef = React.useRef('');
+    const recordingWriterRef = React.useRef<ChunkedRecordingWriter | null>(null);
     const isFlushingRef = React.useRef(false);
 
     // Recording state — triggers UI re-render
     const [isRecording, setIsRecording] = useState(false);
 
-    // Binary frame accumulator — buffers raw bytes across onDataReceived callbacks
-    const binaryAccumulatorRef = React.useRef(new BinaryFrameAccumulator());
-
     // Session state
     const [sessionStatus, setSessionStatus] = useState<SessionStatus | null>(null);
     const [isSessionActive, setIsSessionActive] = useState(false);
 
+    // Protocol client — handlers only touch refs and state setters, so the
+    // instance created on first render stays valid for the provider lifetime.
+    const protocolRef = React.useRef<DeviceProtocolClient | null>(null);
+    if (protocolRef.current === null) {
+        protocolRef.current = new DeviceProtocolClient(transportRef.current, {
+            onStreamPackets: (packets) => {
+                for (const packet of packets) {
+                    streamBufferRef.current.push(packet);
+                }
+            },
+            onStreamingChange: (streaming) => {
+                isStreamingRef.current = streaming;
+                setIsStreaming(streaming);
+            },
+            onSessionStatus: (status) => {
+                setSessionStatus(status);
+                safetyRef.current?.notifyStatus();
+            },
+            onGyroscopeReading: (angle) => {
+                console.log("Wrist angle:", angle);
+            },
+            onTrigger: () => {
+                console.log("sEMG Trigger Detected");
+            },
+            onSessionPaused: () => {
+                console.log("Session Paused");
+            },
+            onEmergencyStop: () => {
+                console.log("Emergency Stop Activated");
+                safetyRef.current?.sessionStopped();
+                setIsSessionActive(false);
+            },
+            onStreamConfigured: () => {
+                console.log("Stream configuration accepted by device");
+            },
+        });
+    }
+    const protocol = protocolRef.current;
+
+    // Session that stimulation commands are attributed to in the audit log
+    const stimulationContextRef = React.useRef<StimulationContext | null>(null);
+
+    // Safety interlock — every stimulation command goes through it.
+    const safetyRef = React.useRef<FesSafetyInterlock | null>(null);
+    if (safetyRef.current === null) {
+        safetyRef.current = new FesSafetyInterlock(protocol, {
+            log: stimulationLogRepository,
+            onEmergencyStop: (reason) => {
+                console.warn("Emergency Stop issued by safety interlock:", reason);
+                setIsSessionActive(false);
+                void auditLogRepository.record({
+                    action: 'emergency_stop',
+                    sessionId: stimulationContextRef.current?.sessionId,
+                    details: { reason, sent: true },
+                });
+            },
+        });
+    }
+    const safety = safetyRef.current;
+
     const [showConnectionErrorModal, setShowConnectionErrorModal] = useState(false);
 
     useEffect(() => {
         initBluetooth();
     }, []);
 
+    useEffect(() => {
+        preferencesService.getFesSafetyPolicy()
+            .then(policy => safety.setPolicy(policy))
+            .catch(error => console.error("Failed to load FES safety policy:", error));
+
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'background') {
+                safety.handleBackground();
+            }
+        });
+
+        return () => {
+            subscription.remove();
+            safety.dispose();
+        };
+    }, []);
+
     
     useEffect(() => {
         if (permissionGranted) {
@@ -126,7 +198,7 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
         }
     }, [selectedDevice, permissionGranted]);
 
-    // Flush buffer function - CSV accumulation, downsample, and UI update
+    // Flush buffer function - recording append, downsample, and UI update
     const flushStreamBuffer = React.useCallback(async () => {
         if (streamBufferRef.current.length === 0) return;
 
@@ -138,29 +210,14 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
             const packets = [...streamBufferRef.current];
             streamBufferRef.current = [];
 
-            // CSV accumulation (if recording)
-            if (isRecordingRef.current) {
-                for (const packet of packets) {
-                    csvPendingRef.current += serializePacketToCSV(packet, DEVICE_SAMPLE_RATE_HZ);
-                    sampleCountRef.current += packet.values.length;
-                }
-
-                // Flush pending CSV to disk (read + concat + write)
-                const filePath = recordingFilePathRef.current;
-                const pending = csvPendingRef.current;
-                if (filePath && pending.length > 0) {
-                    try {
-                        const existing = await FileSystem.readAsStringAsync(filePath);
-                        await FileSystem.writeAsStringAsync(
-                            filePath,
-                            existing + pending,
-                            { encoding: FileSystem.EncodingType.UTF8 }
-                        );
-                        csvPendingRef.current = '';
-                    } catch (error) {
-                        console.warn('[CSV] Flush error:', error);
-                        // Pending data retained for next flush attempt
-                    }
+            // Append to the recording (if recording); only full chunks hit the disk
+            const writer = recordingWriterRef.current;
+            if (isRecordingRef.current && writer) {
+                try {
+                    await writer.append(packets);
+                } catch (error) {
+                    console.warn('[Recording] Chunk write error:', error);
+                    // Packets stay buffered in the writer for the next attempt
                 }
             }
 
@@ -224,7 +281,7 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
                 return;
             }
 
-            const BTEnabled = await RNBluetoothClassic.requestBluetoothEnabled();
+            const BTEnabled = await transportRef.current.requestEnabled();
             console.log("Bluetooth enabled:", BTEnabled);
             setBluetoothOn(BTEnabled);
 
@@ -291,7 +348,7 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
 
         if (granted) {
             try {
-                const BTEnabled = await RNBluetoothClassic.requestBluetoothEnabled();
+                const BTEnabled = await transportRef.current.requestEnabled();
                 setBluetoothOn(BTEnabled);
                 if (BTEnabled) {
                     updatePairedDevices();
@@ -308,7 +365,7 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
 
     async function verifyCurrentConnection(address: string) {
         try {
-            let response = await RNBluetoothClassic.isDeviceConnected(address);
+            let response = await transportRef.current.isConnected(address);
 
             if (response) {
                 setTimeout(() => {
@@ -324,8 +381,7 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
 
     async function writeToBluetooth(payload: string) {
         try {
-            console.log("writeToBluetoothPayload:", payload);
-            await RNBluetoothClassic.writeToDevice(selectedDevice!.address, payload + '\0');
+            await protocol.writeRaw(payload);
         } catch (error) {
             console.log(error, 'BluetoothContext.writeToBluetooth.Error');
         }
@@ -345,31 +401,31 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
                 }
             }
 
-            let processedNeuraDevices: ActivableBluetoothDevice[] = [];
-            let processedAllDevices: ActivableBluetoothDevice[] = [];
-            let boundedDevices = await RNBluetoothClassic.getBondedDevices();
+            let processedNeuraDevices: DeviceInfo[] = [];
+            let processedAllDevices: DeviceInfo[] = [];
+            let boundedDevices = await transportRef.current.listDevices();
             let boundedNeuraDevices = boundedDevices.filter(item => item.name === 'NeuroEstimulator');
 
             // Process all paired devices
             for (let index = 0; index < boundedDevices.length; index++) {
                 const boundedDevice = boundedDevices[index];
-                let isConnectedResponse = await boundedDevice.isConnected();
+                let isConnectedResponse = await transportRef.current.isConnected(boundedDevice.address);
 
                 processedAllDevices.push({
-                    active: isConnectedResponse,
-                    ...boundedDevice
-                } as ActivableBluetoothDevice);
+                    ...boundedDevice,
+                    active: isConnectedResponse
+                });
             }
 
             // Process NeuroEstimulator devices
             for (let index = 0; index < boundedNeuraDevices.length; index++) {
                 const boundedNeuraDevice = boundedNeuraDevices[index];
-                let isConnectedResponse = await boundedNeuraDevice.isConnected();
+                let isConnectedResponse = await transportRef.current.isConnected(boundedNeuraDevice.address);
 
                 processedNeuraDevices.push({
-                    active: isConnectedResponse,
-                    ...boundedNeuraDevice
-                } as ActivableBluetoothDevice);
+                    ...boundedNeuraDevice,
+                    active: isConnectedResponse
+                });
             }
 
             setNeuraDevices(processedNeuraDevices);
@@ -388,34 +444,38 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
 
     async function connectBluetooth(address: string) {
         try {
-            let connectedDevice = await RNBluetoothClassic.connectToDevice(address, {
-                secureSocket: false,
-                connectionType: 'binary'
-            });
+            let connectedDevice = await transportRef.current.connect(address);
 
             if (connectedDevice) {
-                const deviceCopy: ActivableBluetoothDevice = { ...connectedDevice } as ActivableBluetoothDevice;
+                const deviceCopy: TransportDevice = { ...connectedDevice };
 
-                setSelectedDevice({
-                    ...deviceCopy,
-                    active: true
-                } as ActivableBluetoothDevice);
+                // Silent processing - decode without logging for performance
+                protocol.attach();
 
-                const onRecieveListener = connectedDevice.onDataReceived((btEntry) => {
-                    // Silent processing - decode without logging for performance
-                    decodeMessage(btEntry.data);
-                });
+                // A stop that could not be delivered when the link dropped goes first.
+                await safety.flushPendingEmergencyStop();
 
-                const onDisconnectListener = RNBluetoothClassic.onDeviceDisconnected((deviceDisconectEvent: any) => {
-                    const deviceAddress = deviceCopy.address;
+                // Negotiate before publishing the device so screens that
+                // configure the stream on connect already see the result.
+                const configuration = await protocol.handshake(deviceCopy);
+                setDeviceConfiguration(configuration);
+                safety.setDevice(deviceCopy.address, envelopeFromCapabilities(configuration?.capabilities));
+                if (configuration) {
+                    setFesParams(current => clampFesParameters(current, configuration.capabilities));
+                }
 
-                    if (deviceDisconectEvent.address === deviceAddress) {
-                        disconnect(deviceAddress);
+                setSelectedDevice(deviceCopy);
+
+                const onDisconnectListener = transportRef.current.onDisconnect((lostAddress) => {
+                    if (lostAddress === deviceCopy.address) {
+                        // The write fails on a dead link; the interlock then
+                        // retries the stop on the next connect.
+                        safety.handleDisconnect();
+                        disconnect(lostAddress);
                         setShowConnectionErrorModal(true);
                     }
                 });
 
-                setBtDataRecieveSubscription(onRecieveListener);
                 setBtDeviceDisconnectSubscription(onDisconnectListener);
 
                 setTimeout(() => {
@@ -428,213 +488,66 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
         }
     }
 
-    function decodeMessage(message: string) {
-        try {
-            // Step 1: Sanitize Base64 input (native layer may insert line breaks per RFC 2045,
-            // and serial transport may append null terminators)
-            const sanitized = message.replace(/[\s\0]/g, '');
-            if (sanitized.length === 0) return;
-
-            // Step 2: Decode Base64 to raw bytes (binary connection type delivers all data as Base64)
-            const bytes = toByteArray(sanitized);
-
-            if (bytes.length === 0) return;
-
-            // Step 3: Route based on first byte
-            if (bytes[0] === BINARY_PACKET_MAGIC) {
-                // Binary sEMG packet(s) from firmware v3.1+
-                const packets = binaryAccumulatorRef.current.feed(bytes);
-                for (const packet of packets) {
-                    streamBufferRef.current.push(packet);
-                }
-                // Implicit stream-start: first binary packet proves the device is streaming.
-                // Using the ref avoids repeated setter calls from a stale closure.
-                if (!isStreamingRef.current) {
-                    isStreamingRef.current = true;
-                    setIsStreaming(true);
-                }
-                return;
-            }
-
-            if (bytes[0] === 0x7B) {
-                // JSON command/control message (0x7B = '{')
-                const text = new TextDecoder().decode(bytes);
-                const messageBody = JSON.parse(text) as BluetoothProtocolPayload;
-
-                switch (messageBody.cd) {
-                    case BluetoothProtocolFunction.GyroscopeReading:
-                        console.log("Gyroscope Reading");
-                        console.log(messageBody);
-                        if (messageBody.bd && messageBody.bd.a !== undefined) {
-                            console.log("Wrist angle:", messageBody.bd.a);
-                        }
-                        break;
-
-                    case BluetoothProtocolFunction.Status:
-                        console.log("Session Status");
-                        console.log(messageBody);
-                        if (messageBody.bd) {
-                            const status: SessionStatus = {
-                                parameters: messageBody.bd.parameters as FESParameters,
-                                status: {
-                                    csa: messageBody.bd.csa || 0,
-                                    isa: messageBody.bd.isa || 0,
-                                    tlt: messageBody.bd.tlt || 0,
-                                    sd: messageBody.bd.sd || 0
-                                }
-                            };
-                            setSessionStatus(status);
-                        }
-                        break;
-
-                    case BluetoothProtocolFunction.Trigger:
-                        console.log("sEMG Trigger Detected");
-                        break;
-
-                    case BluetoothProtocolFunction.PauseSession:
-                        console.log("Session Paused");
-                        break;
-
-                    case BluetoothProtocolFunction.EmergencyStop:
-                        console.log("Emergency Stop Activated");
-                        setIsSessionActive(false);
-                        isStreamingRef.current = false;
-                        setIsStreaming(false);
-                        break;
-
-                    case BluetoothProtocolFunction.StartStream:
-                        console.log("Stream Start Acknowledged");
-                        if (messageBody.mt === BluetoothProtocolMethod.ACK) {
-                            isStreamingRef.current = true;
-                            setIsStreaming(true);
-                        }
-                        break;
-
-                    case BluetoothProtocolFunction.StopStream:
-                        console.log("Stream Stop Acknowledged");
-                        if (messageBody.mt === BluetoothProtocolMethod.ACK) {
-                            isStreamingRef.current = false;
-                            setIsStreaming(false);
-                        }
-                        break;
-
-                    case BluetoothProtocolFunction.StreamData:
-                        // Legacy JSON streaming format (simulation mode / firmware v2.x)
-                        if (messageBody.bd && messageBody.bd.t !== undefined && messageBody.bd.v) {
-                            const packet: StreamDataPacket = {
-                                timestamp: messageBody.bd.t,
-                                values: messageBody.bd.v as number[]
-                            };
-                            streamBufferRef.current.push(packet);
-                        }
-                        break;
-
-                    case BluetoothProtocolFunction.ConfigStream:
-                        console.log("Stream Configuration Acknowledged");
-                        if (messageBody.mt === BluetoothProtocolMethod.ACK) {
-                            console.log("Stream configuration accepted by device");
-                        }
-                        break;
-
-                    default:
-                        console.log("Unknown message code:", messageBody.cd);
-                        break;
-                }
-                return;
-            }
-
-            // Neither 0xAA nor '{' — may be a continuation fragment of a binary packet
-            // that was split by the native layer before the magic byte boundary.
-            const packets = binaryAccumulatorRef.current.feed(bytes);
-            for (const packet of packets) {
-                streamBufferRef.current.push(packet);
-            }
-        } catch (error) {
-            console.warn('Error decoding message:', error);
-        }
-    }
-
     function openBluetoothSettings() {
-        RNBluetoothClassic.openBluetoothSettings();
+        transportRef.current.openSettings?.();
     }
 
     async function disconnect(address: string) {
         try {
-            let isConnected = await RNBluetoothClassic.isDeviceConnected(address);
-            if (isConnected) {
-                await RNBluetoothClassic.disconnectFromDevice(address);
+            if (await transportRef.current.isConnected(address)) {
+                await safety.handleDisconnect();
             }
+            await transportRef.current.disconnect();
 
-            if (btDataRecieveSubscription !== undefined) {
-                btDataRecieveSubscription.remove();
-                setBtDataRecieveSubscription(undefined);
-            }
+            protocol.detach();
 
             if (btDeviceDisconnectSubscription !== undefined) {
                 btDeviceDisconnectSubscription.remove();
                 setBtDeviceDisconnectSubscription(undefined);
             }
 
-            binaryAccumulatorRef.current.reset();
             setSelectedDevice(undefined);
+            setDeviceConfiguration(null);
+            safety.setDevice(null);
+            setIsSessionActive(false);
         } catch (error) {
             console.error(error, 'BluetoothContext.disconnect.Error');
         }
     }
 
     function onChange(values: number[], property: keyof FESParametersBody): void {
-        setFesParams(currentParams => ({
-            ...currentParams,
-            [property]: values[0]
-        }));
+        setFesParams(currentParams => {
+            const next = { ...currentParams, [property]: values[0] };
+            return deviceConfiguration ? clampFesParameters(next, deviceConfiguration.capabilities) : next;
+        });
     }
 
     // Streaming functions
-    async function configureStream(rate: number, type: StreamType): Promise<void> {
+    async function configureStream(rate: number, type: StreamType): Promise<boolean> {
         try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.ConfigStream,
-                mt: BluetoothProtocolMethod.WRITE,
-                bd: {
-                    rate: DEVICE_SAMPLE_RATE_HZ,
-                    type: type
-                }
-            };
-
+            // Kept locally even if the device does not ACK — StreamingScreen
+            // re-sends it whenever a device connects.
             setStreamConfig({ rate: DEVICE_SAMPLE_RATE_HZ, type });
-            await writeToBluetooth(JSON.stringify(payload));
+            await protocol.configureStream(type);
             console.log(`Stream configured: ${DEVICE_SAMPLE_RATE_HZ}Hz, type: ${type}`);
+            return true;
         } catch (error) {
             console.error("Error configuring stream:", error);
+            return false;
         }
     }
 
     async function startStream(): Promise<void> {
         try {
-            // Send StopStream first to ensure device firmware is in idle state.
-            // The ESP32 firmware may ignore StartStream if it thinks it's already
-            // streaming from a previous session that wasn't cleanly stopped.
-            const stopPayload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.StopStream,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-            await writeToBluetooth(JSON.stringify(stopPayload));
-            // Give firmware time to transition to idle state
-            await new Promise(resolve => setTimeout(resolve, 300));
-
-            // Reset all app-side streaming state
+            // Reset all app-side streaming state before the stop→start sequence
+            // clears the protocol client's decoder and streaming flag.
             isStreamingRef.current = false;
             setIsStreaming(false);
             setStreamData([]);
             setLastStreamTimestamp(0);
             streamBufferRef.current = [];
-            binaryAccumulatorRef.current.reset();
 
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.StartStream,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-            await writeToBluetooth(JSON.stringify(payload));
+            await protocol.startStream();
             console.log("Stream start requested (stop→start sequence)");
         } catch (error) {
             console.error("Error starting stream:", error);
@@ -643,17 +556,12 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
 
     async function stopStream(): Promise<void> {
         try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.StopStream,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-
             // Reset streaming state immediately — binary firmware does not send
             // a JSON ACK for StopStream, so we cannot rely on the ACK handler.
             isStreamingRef.current = false;
             setIsStreaming(false);
 
-            await writeToBluetooth(JSON.stringify(payload));
+            await protocol.stopStream();
             console.log("Stream stop requested");
         } catch (error) {
             console.error("Error stopping stream:", error);
@@ -661,189 +569,273 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
     }
 
     // Session control functions
-    async function startSession(): Promise<void> {
+    async function startSession(): Promise<boolean> {
         try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.StartSession,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-
-            await writeToBluetooth(JSON.stringify(payload));
+            await protocol.startSession();
+            safety.sessionStarted();
             setIsSessionActive(true);
-            console.log("Session start requested");
+            console.log("Session start acknowledged");
+            return true;
         } catch (error) {
             console.error("Error starting session:", error);
+            return false;
         }
     }
 
-    async function stopSession(): Promise<void> {
+    async function stopSession(): Promise<boolean> {
         try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.StopSession,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-
-            await writeToBluetooth(JSON.stringify(payload));
+            await protocol.stopSession();
+            safety.sessionStopped();
             setIsSessionActive(false);
-            console.log("Session stop requested");
+            console.log("Session stop acknowledged");
+            return true;
         } catch (error) {
             console.error("Error stopping session:", error);
+            return false;
         }
     }
 
-    async function pauseSession(): Promise<void> {
+    async function pauseSession(): Promise<boolean> {
         try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.PauseSession,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-
-            await writeToBluetooth(JSON.stringify(payload));
-            console.log("Session pause requested");
+            await protocol.pauseSession();
+            console.log("Session pause acknowledged");
+            return true;
         } catch (error) {
             console.error("Error pausing session:", error);
+            return false;
         }
     }
 
-    async function resumeSession(): Promise<void> {
+    async function resumeSession(): Promise<boolean> {
         try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.ResumeSession,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-
-            await writeToBluetooth(JSON.stringify(payload));
-            console.log("Session resume requested");
+            await protocol.resumeSession();
+            console.log("Session resume acknowledged");
+            return true;
         } catch (error) {
             console.error("Error resuming session:", error);
+            return false;
         }
     }
 
-    async function sendFesParams(): Promise<void> {
-        try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.FesParam,
-                mt: BluetoothProtocolMethod.WRITE,
-                bd: {
-                    a: fesParams.a,
-                    f: fesParams.f,
-                    pw: fesParams.pw,
-                    df: fesParams.df,
-                    pd: fesParams.pd
-                }
-            };
+    /**
+     * Send the current FES parameters through the safety interlock. Increases
+     * above the confirmation delta come back as `needs_confirmation` until
+     * re-sent with `confirmed: true`.
+     */
+    async function sendFesParams(options: { confirmed?: boolean } = {}): Promise<FesCommandResult> {
+        const result = await safety.sendFesParams(fesParams, options);
+        if (result.status === 'acknowledged') {
+            console.log("FES parameters acknowledged:", fesParams);
+        } else {
+            console.warn("FES parameters not applied:", result);
+        }
+        // Held for confirmation is not an action yet; the confirmed re-send is
+        if (result.status !== 'needs_confirmation') {
+            await auditLogRepository.record({
+                action: 'fes_parameters_sent',
+                sessionId: stimulationContextRef.current?.sessionId,
+                details: { ...fesParams, outcome: result.status, confirmed: options.confirmed ?? false },
+            });
+        }
+        return result;
+    }
 
-            await writeToBluetooth(JSON.stringify(payload));
-            console.log("FES parameters sent:", fesParams);
-        } catch (error) {
-            console.error("Error sending FES parameters:", error);
+    function evaluateFesParams(params: FESParametersBody = fesParams): FesSafetyDecision {
+        return safety.evaluate(params);
+    }
+
+    async function singleStimulation(): Promise<FesCommandResult> {
+        const result = await safety.singleStimulation();
+        if (result.status === 'acknowledged') {
+            console.log("Single stimulation acknowledged");
+        } else {
+            console.warn("Single stimulation not delivered:", result);
         }
+        await auditLogRepository.record({
+            action: 'single_stimulation',
+            sessionId: stimulationContextRef.current?.sessionId,
+            details: { outcome: result.status },
+        });
+        return result;
     }
 
-    async function singleStimulation(): Promise<void> {
-        try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.SingleStimuli,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
+    async function emergencyStop(): Promise<boolean> {
+        const sent = await safety.emergencyStop('manual');
+        setIsSessionActive(false);
+        await auditLogRepository.record({
+            action: 'emergency_stop',
+            sessionId: stimulationContextRef.current?.sessionId,
+            details: { reason: 'manual', sent },
+        });
+        return sent;
+    }
 
-            await writeToBluetooth(JSON.stringify(payload));
-            console.log("Single stimulation requested");
+    /**
+     * Attach researcher/volunteer/session to stimulation commands and load
+     * their envelopes. Called by SessionContext when a session starts or ends.
+     */
+    async function setStimulationContext(context: StimulationContext | null): Promise<void> {
+        stimulationContextRef.current = context;
+        safety.setContext(context);
+        if (!context) {
+            safety.setResearchEnvelope(null);
+            safety.setVolunteerEnvelope(null);
+            return;
+        }
+        try {
+            const [research, volunteer] = await Promise.all([
+                context.researchId ? fesEnvelopeRepository.getByScope('research', context.researchId) : null,
+                fesEnvelopeRepository.getByScope('volunteer', context.volunteerId),
+            ]);
+            safety.setResearchEnvelope(research?.envelope ?? null);
+            safety.setVolunteerEnvelope(volunteer?.envelope ?? null);
         } catch (error) {
-            console.error("Error sending single stimulation:", error);
+            console.error("Error loading FES safety envelopes:", error);
         }
     }
 
+    /**
+     * Save the FES envelope of a research or volunteer, or remove it with
+     * null. Takes effect at once when it belongs to the current stimulation
+     * context. Throws when the envelope is not valid.
+     */
+    async function saveSafetyEnvelope(
+        scope: FesEnvelopeScope,
+        scopeId: string,
+        envelope: FesSafetyEnvelope | null
+    ): Promise<void> {
+        const problems = envelope ? validateEnvelope(envelope) : [];
+        if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+        }
+
+        if (envelope) {
+            await fesEnvelopeRepository.upsert(scope, scopeId, envelope);
+        } else {
+            await fesEnvelopeRepository.delete(scope, scopeId);
+        }
+        await auditLogRepository.record({
+            action: 'fes_envelope_updated',
+            details: { scope, scopeId, envelope },
+        });
+
+        const context = stimulationContextRef.current;
+        if (scope === 'research' && context?.researchId === scopeId) {
+            safety.setResearchEnvelope(envelope);
+        } else if (scope === 'volunteer' && context?.volunteerId === scopeId) {
+            safety.setVolunteerEnvelope(envelope);
+        }
+    }
+
+    /**
+     * Allow or refuse stimulation for the signed-in user (fes:stimulate).
+     * Called by SessionContext whenever the user's permissions change.
+     */
+    function setStimulationPermitted(permitted: boolean): void {
+        safety.setPermitted(permitted);
+    }
+
     async function readGyroscope(): Promise<void> {
+        if (deviceConfiguration && !deviceConfiguration.capabilities.sensors.hasGyroscope) {
+            console.warn("Gyroscope reading skipped: device has no gyroscope");
+            return;
+        }
         try {
-            const payload: BluetoothProtocolPayload = {
-                cd: BluetoothProtocolFunction.GyroscopeReading,
-                mt: BluetoothProtocolMethod.EXECUTE
-            };
-
-            await writeToBluetooth(JSON.stringify(payload));
+            await protocol.readGyroscope();
             console.log("Gyroscope reading requested");
         } catch (error) {
             console.error("Error reading gyroscope:", error);
         }
     }
 
-    async function startRecording(sessionId: string): Promise<string> {
+    /**
+     * Start a chunked recording of the current stream. `channelSensorIds` maps
+     * the stream's channels to the session's sensors, in channel order;
+     * `recordingId` is the id the recording will be saved under.
+     */
+    async function startRecording(sessionId: string, channelSensorIds: string[] = [], recordingId?: string): Promise<string> {
         // Guard: close any stale recording before starting a new one
-        if (isRecordingRef.current && recordingFilePathRef.current) {
-            console.warn('[CSV] Closing stale recording before starting new one');
+        if (isRecordingRef.current && recordingWriterRef.current) {
+            console.warn('[Recording] Closing stale recording before starting new one');
             await stopRecording();
         }
 
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const filename = `recording_${timestamp}.csv`;
-        const filePath = `${FileSystem.documentDirectory}${filename}`;
-
-        // Write CSV header
-        await FileSystem.writeAsStringAsync(filePath, 'timestamp,value\n', {
-            encoding: FileSystem.EncodingType.UTF8,
+        const filePath = `${FileSystem.documentDirectory}recording_${timestamp}${RECORDING_EXTENSION}`;
+
+        recordingWriterRef.current = await ChunkedRecordingWriter.create(expoRecordingFileSystem, filePath, {
+            sampleRate: DEVICE_SAMPLE_RATE_HZ,
+            streamType: streamConfig.type,
+            streamFormat: protocol.negotiatedStreamFormat,
+            deviceId: selectedDevice?.address ?? null,
+            sessionId,
+            recordingId,
+            // Channel count comes from the first packet: recording may start
+            // before the first multi-channel frame has been decoded
+            channelSensorIds,
         });
-
-        recordingFilePathRef.current = filePath;
-        sampleCountRef.current = 0;
-        csvPendingRef.current = '';
+        protocol.resetSignalIntegrity();
         isRecordingRef.current = true;
         setIsRecording(true);
 
-        console.log('[CSV] Recording started:', filePath);
+        console.log('[Recording] Recording started:', filePath);
         return filePath;
     }
 
-    async function stopRecording(): Promise<{ filePath: string; sampleCount: number }> {
+    async function stopRecording(): Promise<RecordingResult> {
         isRecordingRef.current = false;
         setIsRecording(false);
 
-        const filePath = recordingFilePathRef.current;
+        const writer = recordingWriterRef.current;
 
-        if (!filePath) {
+        if (!writer) {
             throw new Error('No active recording to stop');
         }
+        recordingWriterRef.current = null;
 
         // Drain any remaining packets from the stream buffer that the batch
         // interval didn't process (interval was cleared when isStreaming went false).
         const remainingPackets = [...streamBufferRef.current];
         streamBufferRef.current = [];
-        for (const packet of remainingPackets) {
-            csvPendingRef.current += serializePacketToCSV(packet, DEVICE_SAMPLE_RATE_HZ);
-            sampleCountRef.current += packet.values.length;
-        }
-
-        const sampleCount = sampleCountRef.current;
 
-        // Final flush of ALL pending CSV lines to disk
-        const pending = csvPendingRef.current;
-        if (pending.length > 0) {
-            try {
-                const existing = await FileSystem.readAsStringAsync(filePath);
-                await FileSystem.writeAsStringAsync(
-                    filePath,
-                    existing + pending,
-                    { encoding: FileSystem.EncodingType.UTF8 }
-                );
-            } catch (error) {
-                console.error('[CSV] Final flush error:', error);
-            }
-            csvPendingRef.current = '';
+        let sampleCount = writer.sampleCount + remainingPackets.reduce((sum, p) => sum + p.values.length, 0);
+        try {
+            const index = await writer.finalize(remainingPackets);
+            sampleCount = index.sampleCount;
+        } catch (error) {
+            // Left unfinalized; recovered from its chunks on next launch
+            console.error('[Recording] Finalize error:', error);
         }
 
-        recordingFilePathRef.current = null;
-        sampleCountRef.current = 0;
+        // Timestamp continuity is only known for binary frames
+        const signalIntegrity = protocol.negotiatedStreamFormat === 'json' ? undefined : protocol.getSignalIntegrity();
+
+        console.log(`[Recording] Recording stopped: ${writer.path}, ${sampleCount} samples`, signalIntegrity ?? '');
+        return {
+            filePath: writer.path,
+            sampleCount,
+            channelCount: writer.header.channelCount ?? 1,
+            channelSensorIds: writer.header.channelSensorIds ?? [],
+            signalIntegrity,
+        };
+    }
 
-        console.log(`[CSV] Recording stopped: ${filePath}, ${sampleCount} samples`);
-        return { filePath, sampleCount };
+    /**
+     * Offset (ms from the recording's first sample) of the newest packet
+     * received, including packets not yet flushed to the recording; null
+     * when not recording.
+     */
+    function recordingOffsetMs(): number | null {
+        const writer = recordingWriterRef.current;
+        if (!isRecordingRef.current || !writer) return null;
+        return writer.elapsedMs(streamBufferRef.current);
     }
 
     function clearStreamData(): void {
         setStreamData([]);
         setLastStreamTimestamp(0);
         streamBufferRef.current = [];
-        csvPendingRef.current = '';
-        binaryAccumulatorRef.current.reset();
+        protocol.resetDecoder();
     }
 
     function waitForStreamActive(timeoutMs: number = 5000): Promise<boolean> {
@@ -873,6 +865,12 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
             const { exportStreamDataSimpleCSV } = await import('@/utils/csvExport');
             await exportStreamDataSimpleCSV(streamData);
             console.log('Stream data exported successfully');
+            await auditLogRepository.record({
+                action: 'data_exported',
+                sessionId: stimulationContextRef.current?.sessionId,
+                entityType: 'export',
+                details: { kind: 'stream_csv', packets: streamData.length },
+            });
         } catch (error) {
             console.error('Error exporting stream data:', error);
             throw error;
@@ -935,6 +933,8 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
             writeToBluetooth,
             selectedDevice,
             setSelectedDevice,
+            deviceConfiguration,
+            hasGyroscope: deviceConfiguration?.capabilities.sensors.hasGyroscope ?? true,
             fesParams,
             setFesParams,
             onChange,
@@ -955,6 +955,7 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
             stopStream,
             isRecording,
             startRecording,
+            recordingOffsetMs,
             stopRecording,
             clearStreamData,
             waitForStreamActive,
@@ -964,7 +965,12 @@ export function BluetoothContextProvider(props: BluetoothContextProviderProps) {
             pauseSession,
             resumeSession,
             sendFesParams,
+            evaluateFesParams,
             singleStimulation,
+            emergencyStop,
+            setStimulationContext,
+            setStimulationPermitted,
+            saveSafetyEnvelope,
             readGyroscope,
             scanForDevices,
             connectToDevice,
@@ -979,16 +985,31 @@ export function useBluetoothContext() {
     return useContext(BluetoothContext);
 }
 
+/**
+ * What stopRecording() hands back to the screen that saves the recording.
+ */
+interface RecordingResult {
+    filePath: string;
+    sampleCount: number;
+    channelCount: number;
+    channelSensorIds: string[];
+    signalIntegrity?: SignalIntegrity;
+}
+
 interface BluetoothContextData {
     bluetoothOn: boolean;
     permissionGranted: boolean | null;
     permissionPermanentlyDenied: boolean;
-    neuraDevices: ActivableBluetoothDevice[];
-    pairedDevices: ActivableBluetoothDevice[];
+    neuraDevices: DeviceInfo[];
+    pairedDevices: DeviceInfo[];
     isScanning: boolean;
     signalStrength: number | null;
-    selectedDevice: BluetoothDevice | undefined;
-    setSelectedDevice: React.Dispatch<React.SetStateAction<BluetoothDevice | undefined>>;
+    selectedDevice: TransportDevice | undefined;
+    setSelectedDevice: React.Dispatch<React.SetStateAction<TransportDevice | undefined>>;
+    /** Negotiated on connect; null for pre-handshake firmware or when disconnected. */
+    deviceConfiguration: DeviceConfiguration | null;
+    /** False only when the firmware reports no gyroscope — hide gyroscope UI. */
+    hasGyroscope: boolean;
     showConnectionErrorModal: boolean;
     setShowConnectionErrorModal: React.Dispatch<React.SetStateAction<boolean>>;
     fesParams: FESParametersBody;
@@ -1007,21 +1028,27 @@ interface BluetoothContextData {
     initBluetooth: () => void;
     connectBluetooth: (address: string) => void;
     writeToBluetooth: (payload: string) => void;
-    configureStream: (rate: number, type: StreamType) => Promise<void>;
+    configureStream: (rate: number, type: StreamType) => Promise<boolean>;
     startStream: () => Promise<void>;
     stopStream: () => Promise<void>;
     isRecording: boolean;
-    startRecording: (sessionId: string) => Promise<string>;
-    stopRecording: () => Promise<{ filePath: string; sampleCount: number }>;
+    startRecording: (sessionId: string, channelSensorIds?: string[], recordingId?: string) => Promise<string>;
+    recordingOffsetMs: () => number | null;
+    stopRecording: () => Promise<RecordingResult>;
     clearStreamData: () => void;
     waitForStreamActive: (timeoutMs?: number) => Promise<boolean>;
     exportStreamData: () => Promise<void>;
-    startSession: () => Promise<void>;
-    stopSession: () => Promise<void>;
-    pauseSession: () => Promise<void>;
-    resumeSession: () => Promise<void>;
-    sendFesParams: () => Promise<void>;
-    singleStimulation: () => Promise<void>;
+    startSession: () => Promise<boolean>;
+    stopSession: () => Promise<boolean>;
+    pauseSession: () => Promise<boolean>;
+    resumeSession: () => Promise<boolean>;
+    sendFesParams: (options?: { confirmed?: boolean }) => Promise<FesCommandResult>;
+    evaluateFesParams: (params?: FESParametersBody) => FesSafetyDecision;
+    singleStimulation: () => Promise<FesCommandResult>;
+    emergencyStop: () => Promise<boolean>;
+    setStimulationContext: (context: StimulationContext | null) => Promise<void>;
+    setStimulationPermitted: (permitted: boolean) => void;
+    saveSafetyEnvelope: (scope: FesEnvelopeScope, scopeId: string, envelope: FesSafetyEnvelope | null) => Promise<void>;
     readGyroscope: () => Promise<void>;
     scanForDevices: () => Promise<void>;
     connectToDevice: (address: string) => Promise<void>;
@@ -9,7 +9,9 @@
  * - Tracks elapsed time relative to session start
  * - Manages recordings associated with the session
  * - Checks for orphaned sessions on mount
+ * - Recovers recordings interrupted by a crash
  * - Automatic session duration calculation
+ * - Audit log entries for session start and end
  */
 
 import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode, FC, useRef } from 'react';
@@ -17,8 +19,14 @@ import { ClinicalSession, ClinicalData, SessionConfig, Recording, NewRecordingDa
 import { SessionRepository } from '@/data/repositories/SessionRepository';
 import { RecordingRepository } from '@/data/repositories/RecordingRepository';
 import { AnnotationRepository } from '@/data/repositories/AnnotationRepository';
+import { auditLogRepository } from '@/data/repositories/AuditLogRepository';
 import { SyncService } from '@/services/SyncService';
+import * as FileSystem from 'expo-file-system';
+import { findUnfinalizedRecordings, recoverRecording, RECORDING_EXTENSION } from '@/recording';
+import { expoRecordingFileSystem } from '@/recording/ExpoRecordingFileSystem';
 import { middleware } from '@/services/middleware';
+import { useBluetoothContext } from '@/context/BluetoothContext';
+import { useAuth } from '@/context/AuthContext';
 
 interface SessionContextValue {
   activeSession: ClinicalSession | null;
@@ -47,6 +55,28 @@ export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const { setStimulationContext, setStimulationPermitted } = useBluetoothContext();
+  const { can } = useAuth();
+  const canStimulate = can('fes:stimulate');
+
+  // The interlock refuses stimulation unless the signed-in user may stimulate
+  useEffect(() => {
+    setStimulationPermitted(canStimulate);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canStimulate]);
+
+  // Stimulation commands are attributed to (and bounded by) the active session
+  useEffect(() => {
+    setStimulationContext(activeSession
+      ? {
+          researcherId: activeSession.researcherId,
+          volunteerId: activeSession.volunteerId,
+          researchId: activeSession.researchId,
+          sessionId: activeSession.id,
+        }
+      : null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeSession]);
 
   // Check for orphaned sessions on mount
   useEffect(() => {
@@ -77,7 +107,41 @@ export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
       }
     };
 
-    checkForOrphanedSessions();
+    // Recordings cut short by a crash are finalized from their chunks and
+    // registered if CaptureScreen never got to save them.
+    const recoverInterruptedRecordings = async () => {
+      if (!FileSystem.documentDirectory) return;
+      try {
+        const interrupted = await findUnfinalizedRecordings(expoRecordingFileSystem, FileSystem.documentDirectory);
+        for (const { path } of interrupted) {
+          const { header, index } = await recoverRecording(expoRecordingFileSystem, path);
+          const session = await sessionRepository.getById(header.sessionId);
+          if (!session) continue;
+
+          const existing = await recordingRepository.getBySession(header.sessionId);
+          if (existing.some(rec => rec.filePath === path || rec.id === header.recordingId)) continue;
+
+          // Saved under the id marks were anchored to during capture
+          await recordingRepository.create({
+            id: header.recordingId,
+            sessionId: header.sessionId,
+            filename: (path.split('/').pop() || 'recording.csv').replace(RECORDING_EXTENSION, '.csv'),
+            durationSeconds: Math.round(index.sampleCount / header.sampleRate),
+            sampleCount: index.sampleCount,
+            dataType: header.streamType,
+            sampleRate: header.sampleRate,
+            channelCount: header.channelCount,
+            channelSensorIds: header.channelSensorIds,
+            filePath: path,
+          });
+          console.log('[SessionContext] Registered recovered recording:', path);
+        }
+      } catch (error) {
+        console.error('[SessionContext] Failed to recover interrupted recordings:', error);
+      }
+    };
+
+    checkForOrphanedSessions().then(recoverInterruptedRecordings);
   }, []);
 
   // Timer effect for active session
@@ -123,6 +187,10 @@ export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
     try {
       console.log('[SessionContext] Starting new session...');
 
+      if (!can('session:record')) {
+        throw new Error('Your role does not allow running clinical sessions.');
+      }
+
       // Check for existing active session
       const existingActive = await sessionRepository.getActiveSession();
       if (existingActive) {
@@ -132,6 +200,18 @@ export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
       // Create session
       const session = await sessionRepository.create(config);
       setActiveSession(session);
+      await auditLogRepository.record({
+        action: 'session_started',
+        sessionId: session.id,
+        entityType: 'session',
+        entityId: session.id,
+        details: {
+          researcherId: session.researcherId,
+          volunteerId: session.volunteerId,
+          researchId: session.researchId,
+          deviceId: session.deviceId,
+        },
+      });
 
       // Load clinical data
       const clinical = await sessionRepository.getClinicalData(session.id);
@@ -146,7 +226,7 @@ export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
       console.error('[SessionContext] Failed to start session:', error);
       throw error;
     }
-  }, []);
+  }, [can]);
 
   /**
    * End the active session.
@@ -173,6 +253,13 @@ export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
         endedAt,
         durationSeconds,
       });
+      await auditLogRepository.record({
+        action: 'session_ended',
+        sessionId: activeSession.id,
+        entityType: 'session',
+        entityId: activeSession.id,
+        details: { durationSeconds, recordingCount: recordings.length },
+      });
 
       // If session was already synced, send FinishedAt to backend (fire-and-forget)
       if (previousSyncStatus === 'synced') {
@@ -198,7 +285,7 @@ export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
       console.error('[SessionContext] Failed to end session:', error);
       throw error;
     }
-  }, [activeSession]);
+  }, [activeSession, recordings]);
 
   /**
    * Add a recording to the active session.
@@ -7,27 +7,34 @@
  * Features:
  * - Automatic sync start on authentication
  * - Automatic sync stop on logout
+ * - Network- and battery-aware scheduling (see SyncScheduler)
  * - Manual sync trigger
- * - Sync status reporting
+ * - Sync status reporting, including why data is not uploading
  *
  * Usage:
  * ```typescript
- * const { syncReport, syncNow, isRunning } = useSyncContext();
+ * const { syncReport, syncNow, isRunning, schedule } = useSyncContext();
  *
  * // Manual sync
  * await syncNow();
  *
  * // Check last sync report
  * console.log(syncReport);
+ *
+ * // Why data is waiting (offline, recording uploads deferred)
+ * console.log(schedule.reason);
  * ```
  */
 
 import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode, FC } from 'react';
 import { SyncService } from '../services/SyncService';
+import { SyncScheduler } from '../services/SyncScheduler';
+import { DeviceSyncConditions } from '../services/DeviceSyncConditions';
+import { preferencesService } from '../services/PreferencesService';
 import { SessionRepository } from '../data/repositories/SessionRepository';
 import { RecordingRepository } from '../data/repositories/RecordingRepository';
 import { AnnotationRepository } from '../data/repositories/AnnotationRepository';
-import type { SyncReport } from '../services/SyncService.types';
+import type { SyncReport, SyncScheduleState } from '../services/SyncService.types';
 import { useAuth } from './AuthContext';
 
 interface SyncContextValue {
@@ -35,6 +42,8 @@ interface SyncContextValue {
     syncNow: () => Promise<SyncReport>;
     isRunning: boolean;
     isSyncing: boolean;
+    schedule: SyncScheduleState;
+    refreshSchedule: () => Promise<void>;
 }
 
 const SyncContext = createContext<SyncContextValue | null>(null);
@@ -53,15 +62,23 @@ export const SyncProvider: FC<SyncProviderProps> = ({
     enabled = true
 }) => {
     const { isAuthenticated } = useAuth();
-    const [syncService] = useState(() => {
+    const [scheduler] = useState(() => {
         const sessionRepo = new SessionRepository();
         const recordingRepo = new RecordingRepository();
         const annotationRepo = new AnnotationRepository();
-        return new SyncService(sessionRepo, recordingRepo, annotationRepo, maxRetries);
+        const syncService = new SyncService(sessionRepo, recordingRepo, annotationRepo, maxRetries);
+        return new SyncScheduler(
+            syncService,
+            new DeviceSyncConditions(),
+            () => preferencesService.getRecordingUploadPolicy()
+        );
     });
     const [syncReport, setSyncReport] = useState<SyncReport | null>(null);
     const [isSyncing, setIsSyncing] = useState(false);
     const [isRunning, setIsRunning] = useState(false);
+    const [schedule, setSchedule] = useState<SyncScheduleState>(() => scheduler.getState());
+
+    useEffect(() => scheduler.subscribe(setSchedule), [scheduler]);
 
     /**
      * Manual sync trigger.
@@ -73,13 +90,14 @@ export const SyncProvider: FC<SyncProviderProps> = ({
                 sessions: { synced: 0, failed: 0, pending: 0 },
                 recordings: { synced: 0, failed: 0, pending: 0 },
                 annotations: { synced: 0, failed: 0, pending: 0 },
+                auditLog: { synced: 0, failed: 0, pending: 0 },
                 timestamp: new Date().toISOString()
             };
         }
 
         setIsSyncing(true);
         try {
-            const report = await syncService.syncAll();
+            const report = await scheduler.syncNow();
             setSyncReport(report);
             return report;
         } catch (error) {
@@ -88,7 +106,12 @@ export const SyncProvider: FC<SyncProviderProps> = ({
         } finally {
             setIsSyncing(false);
         }
-    }, [syncService, enabled]);
+    }, [scheduler, enabled]);
+
+    /**
+     * Re-evaluate the schedule after the upload policy changed.
+     */
+    const refreshSchedule = useCallback(() => scheduler.refresh(), [scheduler]);
 
     /**
      * Start/stop sync based on authentication and enabled state.
@@ -96,30 +119,30 @@ export const SyncProvider: FC<SyncProviderProps> = ({
     useEffect(() => {
         if (!enabled) {
             console.log('[SyncContext] Sync is disabled');
-            syncService.stop();
+            scheduler.stop();
             setIsRunning(false);
             return;
         }
 
         if (isAuthenticated) {
-            console.log('[SyncContext] Starting sync service (user authenticated)');
-            syncService.start(syncIntervalMs);
+            console.log('[SyncContext] Starting sync scheduler (user authenticated)');
+            scheduler.start(syncIntervalMs);
             setIsRunning(true);
         } else {
-            console.log('[SyncContext] Stopping sync service (user not authenticated)');
-            syncService.stop();
+            console.log('[SyncContext] Stopping sync scheduler (user not authenticated)');
+            scheduler.stop();
             setIsRunning(false);
             setSyncReport(null);
         }
 
         return () => {
-            syncService.stop();
+            scheduler.stop();
             setIsRunning(false);
         };
-    }, [isAuthenticated, syncService, syncIntervalMs, enabled]);
+    }, [isAuthenticated, scheduler, syncIntervalMs, enabled]);
 
     return (
-        <SyncContext.Provider value={{ syncReport, syncNow, isRunning, isSyncing }}>
+        <SyncContext.Provider value={{ syncReport, syncNow, isRunning, isSyncing, schedule, refreshSchedule }}>
             {children}
         </SyncContext.Provider>
     );
@@ -0,0 +1,142 @@
+/**
+ * Data Key Store
+ *
+ * Keeps the data encryption keys for the local database and recording
+ * files in secure storage (Keychain / Android Keystore). A key ring names
+ * the current key and every older key still needed to read data that has
+ * not been re-encrypted since a rotation.
+ *
+ * Each key is written to secure storage before the ring refers to it, so
+ * an interrupted rotation never leaves the ring naming a missing key.
+ */
+
+import type { SecureStorage } from '@iris/middleware';
+import { ReactNativeSecureStorage } from '../storage/ReactNativeSecureStorage';
+import { DataKey, DataKeyProvider, generateDataKey } from './dataEncryption';
+
+const RING_ITEM = 'data_key_ring';
+
+function keyItem(id: string): string {
+    return `data_key_${id}`;
+}
+
+export interface DataKeyRing {
+    currentKeyId: string;
+    /** Every key still needed, the current one included. */
+    keyIds: string[];
+    /** Key all recording files were last brought under, if any. */
+    filesKeyId: string | null;
+}
+
+export class DataKeyStore implements DataKeyProvider {
+    private ring: DataKeyRing | null = null;
+    private keys = new Map<string, DataKey>();
+
+    constructor(private storage: SecureStorage) {}
+
+    /**
+     * Load the key ring into memory, creating the first key on a fresh
+     * install.
+     */
+    async load(): Promise<void> {
+        const ring = await this.storage.getItem<DataKeyRing>(RING_ITEM);
+        if (!ring) {
+            const dataKey = generateDataKey();
+            await this.saveKey(dataKey);
+            await this.saveRing({ currentKeyId: dataKey.id, keyIds: [dataKey.id], filesKeyId: null });
+            console.log('[DataKeyStore] Created data key');
+            return;
+        }
+
+        this.keys.clear();
+        for (const id of ring.keyIds) {
+            const hex = await this.storage.getItem<string>(keyItem(id));
+            if (!hex) {
+                throw new Error(`Data key missing from secure storage: ${id}`);
+            }
+            this.keys.set(id, { id, key: new Uint8Array(Buffer.from(hex, 'hex')) });
+        }
+        this.ring = ring;
+    }
+
+    isLoaded(): boolean {
+        return this.ring !== null;
+    }
+
+    getRing(): DataKeyRing {
+        if (!this.ring) {
+            throw new Error('Data keys not loaded. Call load() first.');
+        }
+        return this.ring;
+    }
+
+    currentKey(): DataKey {
+        const dataKey = this.keys.get(this.getRing().currentKeyId);
+        if (!dataKey) {
+            throw new Error('Current data key not loaded');
+        }
+        return dataKey;
+    }
+
+    getKey(id: string): DataKey | null {
+        return this.keys.get(id) ?? null;
+    }
+
+    /**
+     * Keys to try when opening data of unknown key, current first.
+     */
+    candidateKeys(): DataKey[] {
+        const current = this.currentKey();
+        return [current, ...[...this.keys.values()].filter(dataKey => dataKey.id !== current.id)];
+    }
+
+    /**
+     * Store a new key alongside the existing ones (not yet current).
+     */
+    async addKey(dataKey: DataKey): Promise<void> {
+        const ring = this.getRing();
+        await this.saveKey(dataKey);
+        await this.saveRing({ ...ring, keyIds: [...ring.keyIds, dataKey.id] });
+    }
+
+    async setCurrent(id: string): Promise<void> {
+        const ring = this.getRing();
+        if (!ring.keyIds.includes(id)) {
+            throw new Error(`Unknown data key: ${id}`);
+        }
+        await this.saveRing({ ...ring, currentKeyId: id });
+    }
+
+    async setFilesKeyId(id: string): Promise<void> {
+        await this.saveRing({ ...this.getRing(), filesKeyId: id });
+    }
+
+    /**
+     * Forget every key except the current one. Only call once nothing is
+     * encrypted under the others any more.
+     */
+    async retireOldKeys(): Promise<void> {
+        const ring = this.getRing();
+        const retired = ring.keyIds.filter(id => id !== ring.currentKeyId);
+        if (retired.length === 0) return;
+
+        await this.saveRing({ ...ring, keyIds: [ring.currentKeyId] });
+        for (const id of retired) {
+            this.keys.delete(id);
+            await this.storage.removeItem(keyItem(id));
+        }
+        console.log(`[DataKeyStore] Retired ${retired.length} data key(s)`);
+    }
+
+    private async saveKey(dataKey: DataKey): Promise<void> {
+        await this.storage.setItem(keyItem(dataKey.id), Buffer.from(dataKey.key).toString('hex'));
+        this.keys.set(dataKey.id, dataKey);
+    }
+
+    private async saveRing(ring: DataKeyRing): Promise<void> {
+        await this.storage.setItem(RING_ITEM, ring);
+        this.ring = ring;
+    }
+}
+
+export const dataKeyStore = new DataKeyStore(new ReactNativeSecureStorage('iris_data'));
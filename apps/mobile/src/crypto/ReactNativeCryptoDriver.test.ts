@@ -0,0 +1,107 @@
+/**
+ * Channel Cipher Test Vectors
+ *
+ * The desktop (WebCryptoDriver) and the tablet (ReactNativeCryptoDriver)
+ * must produce and accept the same envelopes for both negotiable channel
+ * ciphers: the RFC 8439 AEAD vector for the middleware's own ChaCha20-Poly1305,
+ * fixed envelopes both drivers must open, and envelopes sealed by one driver
+ * and opened by the other.
+ *
+ * Run with: npx vitest run src/crypto
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    SUPPORTED_CHANNEL_CIPHERS,
+    WebCryptoDriver,
+    chacha20Poly1305Open,
+    chacha20Poly1305Seal,
+} from '@iris/middleware';
+import type { ChannelCipher, CryptoDriver, EncryptedPayload } from '@iris/middleware';
+import { ReactNativeCryptoDriver } from './ReactNativeCryptoDriver';
+
+function hex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value.replace(/\s/g, ''), 'hex'));
+}
+
+// RFC 8439 §2.8.2
+const RFC_KEY = hex('808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f');
+const RFC_NONCE = hex('070000004041424344454647');
+const RFC_AAD = hex('50515253c0c1c2c3c4c5c6c7');
+const RFC_PLAINTEXT = new Uint8Array(Buffer.from(
+    "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.",
+    'utf8'
+));
+const RFC_CIPHERTEXT = hex(`
+    d31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d6
+    3dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b36
+    92ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc
+    3ff4def08e4b7a9de576d26586cec64b6116
+`);
+const RFC_TAG = hex('1ae10b594f09e26a7e902ecbd0600691');
+
+// Channel key 00..1f, nonce 000000000000004a00000000
+const CHANNEL_KEY = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
+const PAYLOAD = { channelId: 'channel-1', sessionToken: 'token', sequence: 7, data: [1, 2, 3] };
+const ENVELOPES: Record<ChannelCipher, EncryptedPayload> = {
+    'AES-256-GCM': {
+        encryptedData: 'DrqxWe0RNUs/+Vo1BJnohfFDulwgYueCeCxR7rnwxnToecj5+DFp8KfJF38oC5yWfzwrzRw4Py6P1n96h/V0UknSQo+ddgHDmz38qw==',
+        iv: 'AAAAAAAAAEoAAAAA',
+        authTag: 'dU3C3E8h6OtJpXVM/UOvyw==',
+    },
+    'ChaCha20-Poly1305': {
+        encryptedData: 'WW0ymyF1t4RDl0NNgkF+he19cedRATfAUm25ie2Aphfkb2XIFw4oqJcNG6aIRbEYWz/fMbNbWq6PAxZ73F8l1h3HVqVkUiNzDvmjVQ==',
+        iv: 'AAAAAAAAAEoAAAAA',
+        authTag: 'i505435/xzZFp2A9MQReqQ==',
+    },
+};
+
+const DRIVERS: Record<string, CryptoDriver> = {
+    WebCryptoDriver: new WebCryptoDriver(),
+    ReactNativeCryptoDriver: new ReactNativeCryptoDriver(),
+};
+
+describe('chacha20Poly1305Seal / chacha20Poly1305Open', () => {
+    it('should match the RFC 8439 AEAD test vector', () => {
+        const sealed = chacha20Poly1305Seal(RFC_KEY, RFC_NONCE, RFC_PLAINTEXT, RFC_AAD);
+        expect(sealed.ciphertext).toEqual(RFC_CIPHERTEXT);
+        expect(sealed.authTag).toEqual(RFC_TAG);
+        expect(chacha20Poly1305Open(RFC_KEY, RFC_NONCE, RFC_CIPHERTEXT, RFC_TAG, RFC_AAD)).toEqual(RFC_PLAINTEXT);
+    });
+
+    it('should reject a tampered ciphertext', () => {
+        const tampered = RFC_CIPHERTEXT.slice();
+        tampered[0] ^= 1;
+        expect(() => chacha20Poly1305Open(RFC_KEY, RFC_NONCE, tampered, RFC_TAG, RFC_AAD)).toThrow('authentication tag mismatch');
+    });
+});
+
+describe.each(Object.entries(DRIVERS))('%s', (_name, driver) => {
+    it.each(SUPPORTED_CHANNEL_CIPHERS)('should open the fixed %s envelope', async (cipher) => {
+        const key = await driver.importSymmetricKey(CHANNEL_KEY);
+        expect(await driver.decrypt(ENVELOPES[cipher], key, cipher)).toEqual(PAYLOAD);
+    });
+
+    it('should default to AES-256-GCM', async () => {
+        const key = await driver.importSymmetricKey(CHANNEL_KEY);
+        expect(await driver.decrypt(ENVELOPES['AES-256-GCM'], key)).toEqual(PAYLOAD);
+        await expect(driver.decrypt(ENVELOPES['ChaCha20-Poly1305'], key)).rejects.toThrow();
+    });
+});
+
+describe('cross-driver envelopes', () => {
+    const pairs = SUPPORTED_CHANNEL_CIPHERS.flatMap(cipher => [
+        [cipher, 'WebCryptoDriver', 'ReactNativeCryptoDriver'],
+        [cipher, 'ReactNativeCryptoDriver', 'WebCryptoDriver'],
+    ] as const);
+
+    it.each(pairs)('should open %s envelopes sealed by %s in %s', async (cipher, sealer, opener) => {
+        const sealingKey = await DRIVERS[sealer].importSymmetricKey(CHANNEL_KEY);
+        const openingKey = await DRIVERS[opener].importSymmetricKey(CHANNEL_KEY);
+
+        const envelope = await DRIVERS[sealer].encrypt(PAYLOAD, sealingKey, cipher);
+        expect(Buffer.from(envelope.iv, 'base64')).toHaveLength(12);
+        expect(Buffer.from(envelope.authTag, 'base64')).toHaveLength(16);
+        expect(await DRIVERS[opener].decrypt(envelope, openingKey, cipher)).toEqual(PAYLOAD);
+    });
+});
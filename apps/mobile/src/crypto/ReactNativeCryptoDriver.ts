@@ -8,7 +8,8 @@
  * Algorithms:
  * - ECDH P-384 key exchange (crypto.createECDH)
  * - HKDF-SHA256 key derivation (manual via HMAC)
- * - AES-256-GCM encryption/decryption (crypto.createCipheriv/createDecipheriv)
+ * - AES-256-GCM or ChaCha20-Poly1305 encryption/decryption, as negotiated
+ *   for the channel (crypto.createCipheriv/createDecipheriv)
  */
 
 import {
@@ -18,7 +19,7 @@ import {
     createHmac,
     randomBytes,
 } from 'crypto';
-import type { CryptoDriver, EphemeralKeyPair } from '@iris/middleware';
+import type { ChannelCipher, CryptoDriver, EphemeralKeyPair } from '@iris/middleware';
 import type { EncryptedPayload } from '@iris/middleware';
 
 // ── Internal key handle types ────────────────────────────────────────────────
@@ -61,6 +62,9 @@ const P384_UNCOMPRESSED_KEY_LENGTH = 97; // 04 || x(48) || y(48)
 
 const HKDF_INFO = Buffer.from('IRN-Channel-v1.0', 'utf8');
 
+// Both channel ciphers take a 12-byte nonce and produce a 16-byte tag
+const AUTH_TAG_LENGTH = 16;
+
 // ── Helper functions ─────────────────────────────────────────────────────────
 
 function wrapPublicKeyToSPKI(uncompressedKey: Buffer): string {
@@ -106,6 +110,18 @@ function hkdfSha256(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Bu
     return Buffer.concat(buffers).subarray(0, length);
 }
 
+function createChannelCipher(cipher: ChannelCipher, key: Buffer, iv: Buffer) {
+    return cipher === 'ChaCha20-Poly1305'
+        ? createCipheriv('chacha20-poly1305', key, iv, { authTagLength: AUTH_TAG_LENGTH })
+        : createCipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH });
+}
+
+function createChannelDecipher(cipher: ChannelCipher, key: Buffer, iv: Buffer) {
+    return cipher === 'ChaCha20-Poly1305'
+        ? createDecipheriv('chacha20-poly1305', key, iv, { authTagLength: AUTH_TAG_LENGTH })
+        : createDecipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH });
+}
+
 // ── CryptoDriver implementation ─────────────────────────────────────────────
 
 export class ReactNativeCryptoDriver implements CryptoDriver {
@@ -194,7 +210,7 @@ export class ReactNativeCryptoDriver implements CryptoDriver {
         return handle as unknown as CryptoKey;
     }
 
-    async encrypt(payload: unknown, symmetricKey: CryptoKey): Promise<EncryptedPayload> {
+    async encrypt(payload: unknown, symmetricKey: CryptoKey, cipher: ChannelCipher = 'AES-256-GCM'): Promise<EncryptedPayload> {
         const handle = symmetricKey as unknown as AESKeyHandle;
         if (handle.__brand !== 'aes-key') {
             throw new Error('Invalid AES key handle');
@@ -203,9 +219,9 @@ export class ReactNativeCryptoDriver implements CryptoDriver {
         const iv = randomBytes(12);
         const plaintext = Buffer.from(JSON.stringify(payload), 'utf8');
 
-        const cipher = createCipheriv('aes-256-gcm', handle.keyBuffer, iv);
-        const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
-        const authTag = cipher.getAuthTag();
+        const cipheriv = createChannelCipher(cipher, handle.keyBuffer, iv);
+        const encrypted = Buffer.concat([cipheriv.update(plaintext), cipheriv.final()]);
+        const authTag = cipheriv.getAuthTag();
 
         return {
             encryptedData: encrypted.toString('base64'),
@@ -214,7 +230,7 @@ export class ReactNativeCryptoDriver implements CryptoDriver {
         };
     }
 
-    async decrypt<T>(payload: EncryptedPayload, symmetricKey: CryptoKey): Promise<T> {
+    async decrypt<T>(payload: EncryptedPayload, symmetricKey: CryptoKey, cipher: ChannelCipher = 'AES-256-GCM'): Promise<T> {
         const handle = symmetricKey as unknown as AESKeyHandle;
         if (handle.__brand !== 'aes-key') {
             throw new Error('Invalid AES key handle');
@@ -224,7 +240,7 @@ export class ReactNativeCryptoDriver implements CryptoDriver {
         const iv = Buffer.from(payload.iv, 'base64');
         const authTag = Buffer.from(payload.authTag, 'base64');
 
-        const decipher = createDecipheriv('aes-256-gcm', handle.keyBuffer, iv);
+        const decipher = createChannelDecipher(cipher, handle.keyBuffer, iv);
         decipher.setAuthTag(authTag);
         const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
 
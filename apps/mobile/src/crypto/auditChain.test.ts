@@ -0,0 +1,89 @@
+/**
+ * Audit Chain Tests
+ *
+ * A chain built entry by entry verifies; editing, removing or reordering
+ * an entry is reported at the first sequence that no longer verifies.
+ *
+ * Run with: npx vitest run src/crypto
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AUDIT_GENESIS_HASH } from '@iris/domain';
+import type { AuditEntry, NewAuditEntry } from '@iris/domain';
+import { canonicalJson, computeAuditHash, verifyAuditChain } from './auditChain';
+
+function buildChain(entries: NewAuditEntry[]): AuditEntry[] {
+    const chain: AuditEntry[] = [];
+    for (const [index, entry] of entries.entries()) {
+        const chained = {
+            ...entry,
+            id: `audit-${index + 1}`,
+            sequence: index + 1,
+            createdAt: `2026-01-01T00:00:0${index}.000Z`,
+            previousHash: chain[index - 1]?.hash ?? AUDIT_GENESIS_HASH,
+        };
+        chain.push({ ...chained, hash: computeAuditHash(chained), syncStatus: 'pending' });
+    }
+    return chain;
+}
+
+const ENTRIES: NewAuditEntry[] = [
+    { action: 'session_started', actorId: 'user-1', sessionId: 'session-1', entityType: 'session', entityId: 'session-1' },
+    { action: 'fes_parameters_sent', actorId: 'user-1', sessionId: 'session-1', details: { a: 5, f: 30, outcome: 'acknowledged' } },
+    { action: 'recording_deleted', actorId: 'user-1', sessionId: 'session-1', entityType: 'recording', entityId: 'rec-1' },
+    { action: 'session_ended', actorId: 'user-1', sessionId: 'session-1', details: { durationSeconds: 600 } },
+];
+
+describe('canonicalJson', () => {
+    it('should serialize objects with sorted keys at every level', () => {
+        expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).toBe('{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}');
+    });
+
+    it('should drop undefined properties like JSON.stringify', () => {
+        expect(canonicalJson({ a: undefined, b: 1 })).toBe(JSON.stringify({ a: undefined, b: 1 }));
+    });
+});
+
+describe('audit chain', () => {
+    it('should verify an untouched chain', () => {
+        expect(verifyAuditChain(buildChain(ENTRIES))).toEqual({ valid: true, checked: 4 });
+    });
+
+    it('should hash details independently of key order', () => {
+        const [entry] = buildChain([{ action: 'data_exported', details: { kind: 'session_zip', count: 2 } }]);
+        expect(computeAuditHash({ ...entry, details: { count: 2, kind: 'session_zip' } })).toBe(entry.hash);
+    });
+
+    it('should detect an edited entry', () => {
+        const chain = buildChain(ENTRIES);
+        chain[1] = { ...chain[1], details: { a: 50, f: 30, outcome: 'acknowledged' } };
+
+        expect(verifyAuditChain(chain)).toMatchObject({ valid: false, checked: 1, brokenAt: 2 });
+    });
+
+    it('should detect an edited entry whose hash was recomputed', () => {
+        const chain = buildChain(ENTRIES);
+        chain[1] = { ...chain[1], actorId: 'user-2' };
+        chain[1].hash = computeAuditHash(chain[1]);
+
+        expect(verifyAuditChain(chain)).toMatchObject({ valid: false, brokenAt: 3, reason: 'Previous hash does not match' });
+    });
+
+    it('should detect a removed entry', () => {
+        const chain = buildChain(ENTRIES);
+        chain.splice(2, 1);
+
+        expect(verifyAuditChain(chain)).toMatchObject({ valid: false, brokenAt: 4, reason: 'Expected sequence 3' });
+    });
+
+    it('should detect a chain that does not start from genesis', () => {
+        const chain = buildChain(ENTRIES);
+        chain[0] = { ...chain[0], previousHash: 'f'.repeat(64) };
+
+        expect(verifyAuditChain(chain)).toMatchObject({ valid: false, brokenAt: 1 });
+    });
+
+    it('should verify a tail of the chain on its own', () => {
+        expect(verifyAuditChain(buildChain(ENTRIES).slice(2)).valid).toBe(true);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Audit Chain
+ *
+ * Hash chain over the audit log. Every entry's hash covers its own fields
+ * and the previous entry's hash, so editing, removing or reordering entries
+ * is detectable by recomputing the chain. The research node recomputes it
+ * the same way: SHA-256 over a JSON array of the fields, with details
+ * serialized with sorted keys.
+ */
+
+import { createHash } from 'crypto';
+import { AUDIT_GENESIS_HASH } from '@iris/domain';
+import type { AuditChainVerification, AuditEntry } from '@iris/domain';
+
+/**
+ * The fields of an entry that its hash covers.
+ */
+export type AuditHashInput = Pick<
+    AuditEntry,
+    'id' | 'sequence' | 'action' | 'actorId' | 'sessionId' | 'entityType' | 'entityId' | 'details' | 'createdAt' | 'previousHash'
+>;
+
+/**
+ * JSON with object keys sorted at every level, so equal values always
+ * serialize (and hash) the same.
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+export function computeAuditHash(entry: AuditHashInput): string {
+    const fields = [
+        entry.id,
+        entry.sequence,
+        entry.action,
+        entry.actorId ?? null,
+        entry.sessionId ?? null,
+        entry.entityType ?? null,
+        entry.entityId ?? null,
+        entry.details === undefined ? null : canonicalJson(entry.details),
+        entry.createdAt,
+        entry.previousHash,
+    ];
+    return createHash('sha256').update(JSON.stringify(fields), 'utf8').digest('hex');
+}
+
+/**
+ * Check entries ordered by sequence: contiguous sequence numbers, each
+ * previousHash equal to the hash before it, and every hash recomputed.
+ * A chain that starts at sequence 1 must start from AUDIT_GENESIS_HASH.
+ */
+export function verifyAuditChain(entries: Array<AuditHashInput & Pick<AuditEntry, 'hash'>>): AuditChainVerification {
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const previous = i > 0 ? entries[i - 1] : null;
+        const broken = (reason: string): AuditChainVerification =>
+            ({ valid: false, checked: i, brokenAt: entry.sequence, reason });
+
+        if (previous === null) {
+            if (entry.sequence === 1 && entry.previousHash !== AUDIT_GENESIS_HASH) {
+                return broken('First entry does not start the chain');
+            }
+        } else {
+            if (entry.sequence !== previous.sequence + 1) {
+                return broken(`Expected sequence ${previous.sequence + 1}`);
+            }
+            if (entry.previousHash !== previous.hash) {
+                return broken('Previous hash does not match');
+            }
+        }
+        if (computeAuditHash(entry) !== entry.hash) {
+            return broken('Entry hash does not match its contents');
+        }
+    }
+
+    return { valid: true, checked: entries.length };
+}
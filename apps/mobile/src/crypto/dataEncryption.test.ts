@@ -0,0 +1,149 @@
+/**
+ * Data Encryption Tests
+ *
+ * AES-256-GCM envelope round trips, tamper detection, password-based
+ * encryption for backups, and the key ring's add / switch / retire
+ * lifecycle against an in-memory secure storage.
+ *
+ * Run with: npx vitest run src/crypto
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { SecureStorage } from '@iris/middleware';
+import {
+    decryptData,
+    decryptWithPassword,
+    encryptData,
+    encryptWithPassword,
+    encryptedKeyId,
+    generateDataKey,
+} from './dataEncryption';
+import { DataKeyStore } from './DataKeyStore';
+
+vi.mock('expo-secure-store', () => ({}));
+
+class MemorySecureStorage implements SecureStorage {
+    readonly items = new Map<string, string>();
+
+    async getItem<T>(key: string): Promise<T | null> {
+        const value = this.items.get(key);
+        return value === undefined ? null : (JSON.parse(value) as T);
+    }
+    async setItem<T>(key: string, value: T): Promise<void> {
+        this.items.set(key, JSON.stringify(value));
+    }
+    async removeItem(key: string): Promise<void> {
+        this.items.delete(key);
+    }
+}
+
+const PLAINTEXT = new Uint8Array(Buffer.from('timestamp,value\n1000,42\n', 'utf8'));
+
+describe('data encryption', () => {
+    it('should round-trip data under its key', () => {
+        const dataKey = generateDataKey();
+        const encrypted = encryptData(PLAINTEXT, dataKey);
+
+        expect(encryptedKeyId(encrypted)).toBe(dataKey.id);
+        expect(Buffer.from(encrypted).includes(Buffer.from('timestamp'))).toBe(false);
+        expect(decryptData(encrypted, { getKey: id => (id === dataKey.id ? dataKey : null) })).toEqual(PLAINTEXT);
+    });
+
+    it('should use a fresh IV for every write', () => {
+        const dataKey = generateDataKey();
+        expect(encryptData(PLAINTEXT, dataKey)).not.toEqual(encryptData(PLAINTEXT, dataKey));
+    });
+
+    it('should recognise plaintext', () => {
+        expect(encryptedKeyId(PLAINTEXT)).toBeNull();
+        expect(encryptedKeyId(new Uint8Array(0))).toBeNull();
+        expect(() => decryptData(PLAINTEXT, { getKey: () => null })).toThrow('Data is not encrypted');
+    });
+
+    it('should reject data under an unknown key', () => {
+        const encrypted = encryptData(PLAINTEXT, generateDataKey());
+        expect(() => decryptData(encrypted, { getKey: () => null })).toThrow('Unknown data key');
+    });
+
+    it('should reject tampered data', () => {
+        const dataKey = generateDataKey();
+        const encrypted = encryptData(PLAINTEXT, dataKey);
+        encrypted[encrypted.length - 1] ^= 0x01;
+
+        expect(() => decryptData(encrypted, { getKey: () => dataKey })).toThrow();
+    });
+});
+
+describe('password encryption', () => {
+    // Few iterations keep the tests fast; the count is read back from the header
+    const ITERATIONS = 1000;
+
+    it('should round-trip data under the password', () => {
+        const encrypted = encryptWithPassword(PLAINTEXT, 'correct horse', ITERATIONS);
+
+        expect(Buffer.from(encrypted).includes(Buffer.from('timestamp'))).toBe(false);
+        expect(decryptWithPassword(encrypted, 'correct horse')).toEqual(PLAINTEXT);
+    });
+
+    it('should reject a wrong password', () => {
+        const encrypted = encryptWithPassword(PLAINTEXT, 'correct horse', ITERATIONS);
+        expect(() => decryptWithPassword(encrypted, 'battery staple')).toThrow('Wrong password or damaged data');
+    });
+
+    it('should reject a tampered header', () => {
+        const encrypted = encryptWithPassword(PLAINTEXT, 'correct horse', ITERATIONS);
+        encrypted[20] ^= 0x01; // inside the salt
+
+        expect(() => decryptWithPassword(encrypted, 'correct horse')).toThrow('Wrong password or damaged data');
+    });
+
+    it('should not mistake other data for a password-encrypted archive', () => {
+        expect(() => decryptWithPassword(encryptData(PLAINTEXT, generateDataKey()), 'x')).toThrow('Data is not password-encrypted');
+        expect(() => encryptWithPassword(PLAINTEXT, '')).toThrow('Password is empty');
+    });
+});
+
+describe('DataKeyStore', () => {
+    it('should create a key on first load and reload it later', async () => {
+        const storage = new MemorySecureStorage();
+        const store = new DataKeyStore(storage);
+        await store.load();
+        const created = store.currentKey();
+
+        const reloaded = new DataKeyStore(storage);
+        await reloaded.load();
+
+        expect(reloaded.currentKey()).toEqual(created);
+        expect(reloaded.getRing()).toEqual({ currentKeyId: created.id, keyIds: [created.id], filesKeyId: null });
+    });
+
+    it('should keep the old key readable until it is retired', async () => {
+        const storage = new MemorySecureStorage();
+        const store = new DataKeyStore(storage);
+        await store.load();
+        const oldKey = store.currentKey();
+        const newKey = generateDataKey();
+
+        await store.addKey(newKey);
+        expect(store.currentKey().id).toBe(oldKey.id);
+        expect(store.candidateKeys().map(k => k.id)).toEqual([oldKey.id, newKey.id]);
+
+        await store.setCurrent(newKey.id);
+        expect(store.currentKey().id).toBe(newKey.id);
+        expect(store.getKey(oldKey.id)).toEqual(oldKey);
+
+        await store.retireOldKeys();
+        expect(store.getKey(oldKey.id)).toBeNull();
+        expect(store.getRing().keyIds).toEqual([newKey.id]);
+        expect([...storage.items.keys()]).toEqual(['data_key_ring', `data_key_${newKey.id}`]);
+    });
+
+    it('should fail to load when a key in the ring is missing', async () => {
+        const storage = new MemorySecureStorage();
+        const store = new DataKeyStore(storage);
+        await store.load();
+        storage.items.delete(`data_key_${store.currentKey().id}`);
+
+        await expect(new DataKeyStore(storage).load()).rejects.toThrow('Data key missing');
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * Data Encryption
+ *
+ * AES-256-GCM envelope for data at rest (recording files). Every encrypted
+ * file names the key it was written with, so files written before a key
+ * rotation stay readable until they are re-encrypted, and files from before
+ * encryption was introduced are recognised as plaintext.
+ *
+ * Layout:
+ *   magic "IRISENC1" (8) | key id length (1) | key id (ASCII)
+ *   | IV (12) | auth tag (16) | ciphertext
+ *
+ * Backups leave the device, so they are encrypted under a password instead
+ * (PBKDF2-SHA256 to an AES-256-GCM key; the header is authenticated too):
+ *   magic "IRISPWD1" (8) | iterations (uint32 BE) | salt (16)
+ *   | IV (12) | auth tag (16) | ciphertext
+ */
+
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from 'crypto';
+
+export const DATA_KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const MAGIC = Buffer.from('IRISENC1', 'ascii');
+const PASSWORD_MAGIC = Buffer.from('IRISPWD1', 'ascii');
+const SALT_BYTES = 16;
+const PASSWORD_HEADER_BYTES = PASSWORD_MAGIC.length + 4 + SALT_BYTES;
+
+export const PASSWORD_KDF_ITERATIONS = 310_000;
+
+/** A data encryption key and the id it is stored under. */
+export interface DataKey {
+    id: string;
+    key: Uint8Array;
+}
+
+/**
+ * Keys by id, for decrypting data written under earlier keys.
+ */
+export interface DataKeyProvider {
+    currentKey(): DataKey;
+    getKey(id: string): DataKey | null;
+}
+
+export function generateDataKey(): DataKey {
+    return {
+        id: randomBytes(8).toString('hex'),
+        key: new Uint8Array(randomBytes(DATA_KEY_BYTES)),
+    };
+}
+
+/**
+ * Id of the key the data was encrypted with, or null for plaintext.
+ */
+export function encryptedKeyId(data: Uint8Array): string | null {
+    if (data.length < MAGIC.length + 1 || !MAGIC.equals(Buffer.from(data.subarray(0, MAGIC.length)))) {
+        return null;
+    }
+    const idLength = data[MAGIC.length];
+    const idStart = MAGIC.length + 1;
+    return Buffer.from(data.subarray(idStart, idStart + idLength)).toString('ascii');
+}
+
+export function encryptData(plaintext: Uint8Array, dataKey: DataKey): Uint8Array {
+    const keyId = Buffer.from(dataKey.id, 'ascii');
+    if (keyId.length > 255) {
+        throw new Error('Data key id too long');
+    }
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', Buffer.from(dataKey.key), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return new Uint8Array(Buffer.concat([
+        MAGIC,
+        Buffer.from([keyId.length]),
+        keyId,
+        iv,
+        cipher.getAuthTag(),
+        ciphertext,
+    ]));
+}
+
+/**
+ * Decrypt data written by encryptData.
+ *
+ * @throws Error when the data is not encrypted, its key is unknown, or it
+ *   fails authentication (tampered or truncated)
+ */
+export function decryptData(data: Uint8Array, keys: Pick<DataKeyProvider, 'getKey'>): Uint8Array {
+    const keyId = encryptedKeyId(data);
+    if (keyId === null) {
+        throw new Error('Data is not encrypted');
+    }
+    const dataKey = keys.getKey(keyId);
+    if (!dataKey) {
+        throw new Error(`Unknown data key: ${keyId}`);
+    }
+
+    const ivStart = MAGIC.length + 1 + Buffer.byteLength(keyId, 'ascii');
+    const tagStart = ivStart + IV_BYTES;
+    const bodyStart = tagStart + TAG_BYTES;
+    if (data.length < bodyStart) {
+        throw new Error('Encrypted data is truncated');
+    }
+
+    const buffer = Buffer.from(data);
+    const decipher = createDecipheriv('aes-256-gcm', Buffer.from(dataKey.key), buffer.subarray(ivStart, tagStart));
+    decipher.setAuthTag(buffer.subarray(tagStart, bodyStart));
+    return new Uint8Array(Buffer.concat([decipher.update(buffer.subarray(bodyStart)), decipher.final()]));
+}
+
+function passwordKey(password: string, salt: Uint8Array, iterations: number): Buffer {
+    return pbkdf2Sync(Buffer.from(password, 'utf8'), salt, iterations, DATA_KEY_BYTES, 'sha256');
+}
+
+export function encryptWithPassword(
+    plaintext: Uint8Array,
+    password: string,
+    iterations: number = PASSWORD_KDF_ITERATIONS
+): Uint8Array {
+    if (password.length === 0) {
+        throw new Error('Password is empty');
+    }
+    const header = Buffer.alloc(PASSWORD_HEADER_BYTES);
+    PASSWORD_MAGIC.copy(header, 0);
+    header.writeUInt32BE(iterations, PASSWORD_MAGIC.length);
+    randomBytes(SALT_BYTES).copy(header, PASSWORD_MAGIC.length + 4);
+
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', passwordKey(password, header.subarray(PASSWORD_MAGIC.length + 4), iterations), iv);
+    cipher.setAAD(header);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return new Uint8Array(Buffer.concat([header, iv, cipher.getAuthTag(), ciphertext]));
+}
+
+/**
+ * Decrypt data written by encryptWithPassword.
+ *
+ * @throws Error when the data is not password-encrypted, or the password is
+ *   wrong or the data was altered (the two cannot be told apart)
+ */
+export function decryptWithPassword(data: Uint8Array, password: string): Uint8Array {
+    const buffer = Buffer.from(data);
+    const tagStart = PASSWORD_HEADER_BYTES + IV_BYTES;
+    const bodyStart = tagStart + TAG_BYTES;
+    if (buffer.length < bodyStart || !PASSWORD_MAGIC.equals(buffer.subarray(0, PASSWORD_MAGIC.length))) {
+        throw new Error('Data is not password-encrypted');
+    }
+
+    const header = buffer.subarray(0, PASSWORD_HEADER_BYTES);
+    const iterations = header.readUInt32BE(PASSWORD_MAGIC.length);
+    const salt = header.subarray(PASSWORD_MAGIC.length + 4);
+    const decipher = createDecipheriv(
+        'aes-256-gcm',
+        passwordKey(password, salt, iterations),
+        buffer.subarray(PASSWORD_HEADER_BYTES, tagStart)
+    );
+    decipher.setAAD(header);
+    decipher.setAuthTag(buffer.subarray(tagStart, bodyStart));
+    try {
+        return new Uint8Array(Buffer.concat([decipher.update(buffer.subarray(bodyStart)), decipher.final()]));
+    } catch {
+        throw new Error('Wrong password or damaged data');
+    }
+}
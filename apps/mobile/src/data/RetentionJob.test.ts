@@ -0,0 +1,179 @@
+/**
+ * Retention Job Tests
+ *
+ * Which synced recordings and sessions fall past the retention policy, and
+ * that a purge deletes files and stubs rows while a dry run changes nothing.
+ *
+ * Run with: npx vitest run src/data
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ClinicalSession, Recording, RetentionPolicy } from '@iris/domain';
+import { RetentionJob, planRetention } from './RetentionJob';
+
+// The job is given fakes below; only the module-level singleton needs these
+vi.mock('./repositories/RecordingRepository', () => ({ RecordingRepository: vi.fn() }));
+vi.mock('./repositories/SessionRepository', () => ({ SessionRepository: vi.fn() }));
+vi.mock('../recording/ExpoRecordingFileSystem', () => ({ expoRecordingFileSystem: {} }));
+
+const NOW = new Date('2026-03-31T12:00:00.000Z');
+
+function daysAgo(days: number): string {
+    return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function makeRecording(overrides: Partial<Recording> = {}): Recording {
+    return {
+        id: 'rec-1',
+        sessionId: 'session-1',
+        filename: 'recording_1.irisrec',
+        durationSeconds: 30,
+        sampleCount: 6450,
+        dataType: 'raw',
+        sampleRate: 215,
+        channelCount: 1,
+        syncStatus: 'synced',
+        filePath: '/docs/recording_1.irisrec',
+        blobUrl: 'https://blob.example/recording_1.csv',
+        recordedAt: daysAgo(40),
+        syncedAt: daysAgo(35),
+        ...overrides,
+    };
+}
+
+function makeSession(overrides: Partial<ClinicalSession> = {}): ClinicalSession {
+    return {
+        id: 'session-1',
+        volunteerId: 'vol-1',
+        volunteerName: 'Maria Silva',
+        researcherId: 'res-1',
+        startedAt: daysAgo(40),
+        endedAt: daysAgo(40),
+        durationSeconds: 600,
+        syncStatus: 'synced',
+        createdAt: daysAgo(40),
+        syncedAt: daysAgo(35),
+        ...overrides,
+    };
+}
+
+const POLICY: RetentionPolicy = { recordingFileDays: 30, sessionDetailDays: 90 };
+
+describe('planRetention', () => {
+    it('should select recordings synced longer ago than the policy', () => {
+        const plan = planRetention(
+            [makeRecording(), makeRecording({ id: 'rec-2', syncedAt: daysAgo(10) })],
+            [],
+            POLICY,
+            NOW
+        );
+
+        expect(plan.recordings.map(item => item.recordingId)).toEqual(['rec-1']);
+        expect(plan.recordings[0]).toEqual({
+            recordingId: 'rec-1',
+            sessionId: 'session-1',
+            filename: 'recording_1.irisrec',
+            filePath: '/docs/recording_1.irisrec',
+            syncedAt: daysAgo(35),
+        });
+    });
+
+    it('should purge at the next run when the policy keeps recordings 0 days', () => {
+        const plan = planRetention([makeRecording({ syncedAt: NOW.toISOString() })], [], { ...POLICY, recordingFileDays: 0 }, NOW);
+        expect(plan.recordings).toHaveLength(1);
+    });
+
+    it('should never select recordings without a confirmed upload', () => {
+        const plan = planRetention(
+            [
+                makeRecording({ id: 'pending', syncStatus: 'pending' }),
+                makeRecording({ id: 'no-blob', blobUrl: undefined }),
+                makeRecording({ id: 'no-file', filePath: undefined }),
+                makeRecording({ id: 'no-synced-at', syncedAt: undefined }),
+            ],
+            [],
+            POLICY,
+            NOW
+        );
+        expect(plan.recordings).toEqual([]);
+    });
+
+    it('should keep volunteer names when the policy says never', () => {
+        const plan = planRetention([], [makeSession({ syncedAt: daysAgo(400) })], { ...POLICY, sessionDetailDays: null }, NOW);
+        expect(plan.sessions).toEqual([]);
+    });
+
+    it('should select synced sessions past the policy that were not purged yet', () => {
+        const plan = planRetention(
+            [],
+            [
+                makeSession({ id: 'old', syncedAt: daysAgo(120) }),
+                makeSession({ id: 'recent', syncedAt: daysAgo(60) }),
+                makeSession({ id: 'purged', syncedAt: daysAgo(120), purgedAt: daysAgo(20) }),
+                makeSession({ id: 'failed', syncStatus: 'failed', syncedAt: daysAgo(120) }),
+            ],
+            POLICY,
+            NOW
+        );
+        expect(plan.sessions).toEqual([
+            { sessionId: 'old', volunteerName: 'Maria Silva', startedAt: daysAgo(40), syncedAt: daysAgo(120) },
+        ]);
+    });
+});
+
+describe('RetentionJob', () => {
+    let recordingRepo: { getRetained: ReturnType<typeof vi.fn>; markFilePurged: ReturnType<typeof vi.fn> };
+    let sessionRepo: { getRetained: ReturnType<typeof vi.fn>; markDetailsPurged: ReturnType<typeof vi.fn> };
+    let fileSystem: { remove: ReturnType<typeof vi.fn> };
+    let job: RetentionJob;
+
+    beforeEach(() => {
+        recordingRepo = {
+            getRetained: vi.fn().mockResolvedValue([
+                makeRecording({ syncedAt: daysAgo(0) }),
+                makeRecording({ id: 'rec-2', filePath: '/docs/recording_2.csv' }),
+            ]),
+            markFilePurged: vi.fn().mockResolvedValue(undefined),
+        };
+        sessionRepo = {
+            getRetained: vi.fn().mockResolvedValue([makeSession({ syncedAt: daysAgo(0) })]),
+            markDetailsPurged: vi.fn().mockResolvedValue(undefined),
+        };
+        fileSystem = { remove: vi.fn().mockResolvedValue(undefined) };
+        job = new RetentionJob(recordingRepo, sessionRepo, fileSystem);
+    });
+
+    it('should report without deleting anything in a dry run', async () => {
+        const report = await job.preview({ recordingFileDays: 0, sessionDetailDays: 0 });
+
+        expect(report.dryRun).toBe(true);
+        expect(report.recordings.map(item => item.recordingId)).toEqual(['rec-1', 'rec-2']);
+        expect(report.sessions.map(item => item.sessionId)).toEqual(['session-1']);
+        expect(fileSystem.remove).not.toHaveBeenCalled();
+        expect(recordingRepo.markFilePurged).not.toHaveBeenCalled();
+        expect(sessionRepo.markDetailsPurged).not.toHaveBeenCalled();
+    });
+
+    it('should delete the files and stub the rows', async () => {
+        const report = await job.purge({ recordingFileDays: 0, sessionDetailDays: 0 });
+
+        expect(report.dryRun).toBe(false);
+        expect(fileSystem.remove).toHaveBeenCalledWith('/docs/recording_1.irisrec');
+        expect(fileSystem.remove).toHaveBeenCalledWith('/docs/recording_2.csv');
+        expect(recordingRepo.markFilePurged).toHaveBeenCalledWith('rec-1', report.generatedAt);
+        expect(recordingRepo.markFilePurged).toHaveBeenCalledWith('rec-2', report.generatedAt);
+        expect(sessionRepo.markDetailsPurged).toHaveBeenCalledWith('session-1', report.generatedAt);
+        expect(report.failed).toEqual([]);
+    });
+
+    it('should keep the row path when the file cannot be deleted', async () => {
+        fileSystem.remove.mockRejectedValueOnce(new Error('EBUSY'));
+
+        const report = await job.purge({ recordingFileDays: 0, sessionDetailDays: null });
+
+        expect(report.failed).toEqual([{ entityId: 'rec-1', error: 'EBUSY' }]);
+        expect(report.recordings.map(item => item.recordingId)).toEqual(['rec-2']);
+        expect(recordingRepo.markFilePurged).not.toHaveBeenCalledWith('rec-1', expect.anything());
+        expect(sessionRepo.getRetained).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,211 @@
+/**
+ * Retention Job
+ *
+ * Applies the retention policy to synced data on the device:
+ * - Recording files are deleted a number of days after their upload was
+ *   verified (sync_status 'synced' and blob_url set). The recording row
+ *   stays as a stub pointing at the uploaded copy.
+ * - Volunteer names are cleared from fully synced sessions after a number
+ *   of days. Ids, timing and clinical data stay.
+ *
+ * Nothing pending, failed or in conflict is ever touched. preview() reports
+ * what a purge would remove without removing it.
+ */
+
+import type {
+    ClinicalSession,
+    Recording,
+    RetentionPolicy,
+    RetentionRecordingItem,
+    RetentionReport,
+    RetentionSessionItem,
+} from '@iris/domain';
+import { RecordingRepository } from './repositories/RecordingRepository';
+import { SessionRepository } from './repositories/SessionRepository';
+import { expoRecordingFileSystem } from '../recording/ExpoRecordingFileSystem';
+import type { RecordingFileSystem } from '../recording/RecordingFileSystem';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What a purge removes under a policy at a given time.
+ */
+export interface RetentionPlan {
+    recordings: RetentionRecordingItem[];
+    sessions: RetentionSessionItem[];
+}
+
+function isDue(syncedAt: string | undefined, days: number, now: Date): syncedAt is string {
+    if (!syncedAt) return false;
+    return new Date(syncedAt).getTime() + days * DAY_MS <= now.getTime();
+}
+
+/**
+ * Select the retained recordings and sessions that are past the policy.
+ * Callers pass the candidates from getRetained(); rows without a syncedAt
+ * are never due.
+ */
+export function planRetention(
+    recordings: Recording[],
+    sessions: ClinicalSession[],
+    policy: RetentionPolicy,
+    now: Date = new Date()
+): RetentionPlan {
+    const plan: RetentionPlan = { recordings: [], sessions: [] };
+
+    for (const recording of recordings) {
+        if (!recording.filePath || !recording.blobUrl || recording.syncStatus !== 'synced') continue;
+        if (!isDue(recording.syncedAt, policy.recordingFileDays, now)) continue;
+        plan.recordings.push({
+            recordingId: recording.id,
+            sessionId: recording.sessionId,
+            filename: recording.filename,
+            filePath: recording.filePath,
+            syncedAt: recording.syncedAt,
+        });
+    }
+
+    if (policy.sessionDetailDays !== null) {
+        for (const session of sessions) {
+            if (session.syncStatus !== 'synced' || session.purgedAt) continue;
+            if (!isDue(session.syncedAt, policy.sessionDetailDays, now)) continue;
+            plan.sessions.push({
+                sessionId: session.id,
+                volunteerName: session.volunteerName ?? null,
+                startedAt: session.startedAt,
+                syncedAt: session.syncedAt,
+            });
+        }
+    }
+
+    return plan;
+}
+
+export class RetentionJob {
+    private intervalId: ReturnType<typeof setInterval> | null = null;
+    private isRunning: boolean = false;
+
+    constructor(
+        private recordingRepo: Pick<RecordingRepository, 'getRetained' | 'markFilePurged'>,
+        private sessionRepo: Pick<SessionRepository, 'getRetained' | 'markDetailsPurged'>,
+        private fileSystem: Pick<RecordingFileSystem, 'remove'>
+    ) {}
+
+    /**
+     * Apply the policy on an interval. The first run happens immediately.
+     * The policy is read before every run so Settings changes apply.
+     */
+    start(getPolicy: () => Promise<RetentionPolicy>, intervalMs: number = 6 * 60 * 60 * 1000): void {
+        if (this.intervalId) {
+            console.log('[RetentionJob] Already running');
+            return;
+        }
+
+        console.log(`[RetentionJob] Starting (interval: ${intervalMs}ms)`);
+        const runScheduled = async () => {
+            try {
+                await this.purge(await getPolicy());
+            } catch (error) {
+                console.error('[RetentionJob] Scheduled purge failed:', error);
+            }
+        };
+        this.intervalId = setInterval(() => {
+            void runScheduled();
+        }, intervalMs);
+
+        void runScheduled();
+    }
+
+    /**
+     * Stop the periodic purge.
+     */
+    stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+            console.log('[RetentionJob] Stopped');
+        }
+    }
+
+    /**
+     * Dry run: report what purge() would remove under the policy.
+     */
+    async preview(policy: RetentionPolicy): Promise<RetentionReport> {
+        const plan = await this.plan(policy);
+        return { dryRun: true, policy, generatedAt: new Date().toISOString(), ...plan, failed: [] };
+    }
+
+    /**
+     * Delete the recording files and clear the volunteer names that are past
+     * the policy. Items that fail are reported and retried on the next run.
+     *
+     * @throws Error when a purge is already in progress
+     */
+    async purge(policy: RetentionPolicy): Promise<RetentionReport> {
+        if (this.isRunning) {
+            throw new Error('Retention purge already in progress');
+        }
+        this.isRunning = true;
+
+        try {
+            const plan = await this.plan(policy);
+            const report: RetentionReport = {
+                dryRun: false,
+                policy,
+                generatedAt: new Date().toISOString(),
+                recordings: [],
+                sessions: [],
+                failed: [],
+            };
+
+            for (const item of plan.recordings) {
+                try {
+                    // Delete the file before dropping the path, so a crash in
+                    // between leaves a path that the next run deletes again.
+                    await this.fileSystem.remove(item.filePath);
+                    await this.recordingRepo.markFilePurged(item.recordingId, report.generatedAt);
+                    report.recordings.push(item);
+                } catch (error) {
+                    report.failed.push({ entityId: item.recordingId, error: errorMessage(error) });
+                }
+            }
+
+            for (const item of plan.sessions) {
+                try {
+                    await this.sessionRepo.markDetailsPurged(item.sessionId, report.generatedAt);
+                    report.sessions.push(item);
+                } catch (error) {
+                    report.failed.push({ entityId: item.sessionId, error: errorMessage(error) });
+                }
+            }
+
+            if (report.recordings.length > 0 || report.sessions.length > 0 || report.failed.length > 0) {
+                console.log(
+                    `[RetentionJob] Purged ${report.recordings.length} recording file(s), ` +
+                    `${report.sessions.length} session(s), ${report.failed.length} failed`
+                );
+            }
+            return report;
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    private async plan(policy: RetentionPolicy): Promise<RetentionPlan> {
+        const [recordings, sessions] = await Promise.all([
+            this.recordingRepo.getRetained(),
+            policy.sessionDetailDays === null ? Promise.resolve([]) : this.sessionRepo.getRetained(),
+        ]);
+        return planRetention(recordings, sessions, policy);
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export const retentionJob = new RetentionJob(
+    new RecordingRepository(),
+    new SessionRepository(),
+    expoRecordingFileSystem
+);
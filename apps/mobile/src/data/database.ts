@@ -2,37 +2,74 @@
  * Database Manager
  *
  * Singleton manager for SQLite database initialization and migration management.
- * Uses expo-sqlite async API (Expo SDK 52).
+ * Uses expo-sqlite async API (Expo SDK 52) built with SQLCipher: the database
+ * is encrypted with the current data key from DataKeyStore. An unencrypted
+ * database from an earlier install is exported into an encrypted copy that
+ * replaces it on first launch.
+ *
+ * Every migration runs in a transaction together with its bookkeeping rows,
+ * so a crash leaves it either applied or not at all. After migrating, the
+ * schema is checked for drift (schemaVerification.ts); problems are logged
+ * and kept for the app to report rather than thrown.
+ *
+ * Unencrypted copies of the database (exportCopy, openCopy, mergeCopy) are
+ * what BackupService packs into and restores from a backup.
  */
 
 import * as SQLite from 'expo-sqlite';
-import { v1_initial } from './migrations/v1_initial';
-import { v2_add_research_columns } from './migrations/v2_add_research_columns';
-import { v3_relax_laterality_constraint } from './migrations/v3_relax_laterality_constraint';
-import { v4_add_session_favorites } from './migrations/v4_add_session_favorites';
-import { v5_add_blob_url } from './migrations/v5_add_blob_url';
-import { v6_add_sensor_columns } from './migrations/v6_add_sensor_columns';
-import { v7_add_sensor_columns_to_clinical_data } from './migrations/v7_add_sensor_columns_to_clinical_data';
-
-interface Migration {
-    version: number;
-    name: string;
-    sql: string;
+import * as FileSystem from 'expo-file-system';
+import { dataKeyStore } from '../crypto/DataKeyStore';
+import type { DataKey } from '../crypto/dataEncryption';
+import { MIGRATIONS } from './migrations';
+import type { Migration } from './migrations';
+import {
+    migrationChecksum,
+    schemaChecksum,
+    verifySchema,
+} from './schemaVerification';
+import type {
+    SchemaChecksumRow,
+    SchemaObjectRow,
+    SchemaSnapshot,
+    SchemaVerification,
+    TableInfoRow,
+} from './schemaVerification';
+
+const DATABASE_NAME = 'iris_clinical.db';
+const ENCRYPTED_EXPORT_NAME = 'iris_clinical.encrypted.db';
+
+// First 16 bytes of every unencrypted SQLite file
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+function databaseFilePath(name: string): string {
+    return `${SQLite.defaultDatabaseDirectory}/${name}`;
 }
 
-const MIGRATIONS: Migration[] = [
-    { version: 1, name: 'v1_initial', sql: v1_initial },
-    { version: 2, name: 'v2_add_research_columns', sql: v2_add_research_columns },
-    { version: 3, name: 'v3_relax_laterality_constraint', sql: v3_relax_laterality_constraint },
-    { version: 4, name: 'v4_add_session_favorites', sql: v4_add_session_favorites },
-    { version: 5, name: 'v5_add_blob_url', sql: v5_add_blob_url },
-    { version: 6, name: 'v6_add_sensor_columns', sql: v6_add_sensor_columns },
-    { version: 7, name: 'v7_add_sensor_columns_to_clinical_data', sql: v7_add_sensor_columns_to_clinical_data },
-];
+function fileUri(path: string): string {
+    return path.startsWith('file://') ? path : `file://${path}`;
+}
+
+/**
+ * SQLCipher raw key literal: the 256-bit key is used as is, without
+ * passphrase derivation.
+ */
+function sqlcipherKey(dataKey: DataKey): string {
+    return `"x'${Buffer.from(dataKey.key).toString('hex')}'"`;
+}
+
+async function isPlaintextDatabase(path: string): Promise<boolean> {
+    const head = await FileSystem.readAsStringAsync(fileUri(path), {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: SQLITE_HEADER.length,
+    });
+    return Buffer.from(head, 'base64').toString('latin1') === SQLITE_HEADER;
+}
 
 class DatabaseManager {
     private db: SQLite.SQLiteDatabase | null = null;
     private initialized = false;
+    private schemaVerification: SchemaVerification | null = null;
 
     /**
      * Initialize the database and run pending migrations.
@@ -43,8 +80,13 @@ class DatabaseManager {
         }
 
         try {
-            this.db = await SQLite.openDatabaseAsync('iris_clinical.db');
+            if (!dataKeyStore.isLoaded()) {
+                await dataKeyStore.load();
+            }
+            await this.encryptLegacyDatabase();
+            this.db = await this.openEncrypted();
             await this.runMigrations();
+            await this.verifySchema();
             this.initialized = true;
             console.log('[DatabaseManager] Database initialized successfully');
         } catch (error) {
@@ -65,28 +107,279 @@ class DatabaseManager {
     }
 
     /**
-     * Run pending database migrations.
+     * Result of the last schema check, or null before initialize().
      */
-    private async runMigrations(): Promise<void> {
-        if (!this.db) {
+    getSchemaVerification(): SchemaVerification | null {
+        return this.schemaVerification;
+    }
+
+    /**
+     * Check the schema for drift against the migrations in this build and
+     * log every issue found. Runs on initialize(); call again after
+     * touching the schema by hand.
+     */
+    async verifySchema(): Promise<SchemaVerification> {
+        const verification = verifySchema(await this.readSchemaSnapshot(this.getDatabase()));
+        this.schemaVerification = verification;
+
+        if (verification.ok) {
+            console.log(`[DatabaseManager] Schema verified at v${verification.version}`);
+        } else {
+            for (const issue of verification.issues) {
+                console.error(`[DatabaseManager] Schema check: ${issue.message}`);
+            }
+        }
+        return verification;
+    }
+
+    /**
+     * Revert applied migrations down to targetVersion using their down
+     * scripts, newest first, each in its own transaction. For development
+     * and for handing the database to an older build.
+     *
+     * @throws Error when a migration to revert has no down script
+     */
+    async migrateDown(targetVersion: number): Promise<void> {
+        const db = this.getDatabase();
+        const applied = await db.getAllAsync<{ version: number; name: string }>(
+            'SELECT version, name FROM migrations WHERE version > ? ORDER BY version DESC',
+            targetVersion
+        );
+
+        // Check all of them first so a missing script reverts nothing
+        const toRevert = applied.map(row => {
+            const migration = MIGRATIONS.find(candidate => candidate.version === row.version);
+            if (!migration?.down) {
+                throw new Error(`Migration ${row.name} cannot be reverted`);
+            }
+            return migration;
+        });
+
+        for (const migration of toRevert) {
+            console.log(`[DatabaseManager] Reverting migration: ${migration.name}`);
+            await db.withTransactionAsync(async () => {
+                await db.execAsync(migration.down!);
+                await db.runAsync('DELETE FROM migrations WHERE version = ?', migration.version);
+                await db.runAsync('DELETE FROM schema_checksums WHERE version = ?', migration.version);
+                // The previous migration's checksum now describes the schema
+                await db.runAsync(
+                    `UPDATE schema_checksums SET schema_checksum = ?, recorded_at = ?
+                     WHERE version = (SELECT MAX(version) FROM migrations)`,
+                    await this.currentSchemaChecksum(db),
+                    new Date().toISOString()
+                );
+            });
+        }
+
+        await this.verifySchema();
+    }
+
+    /**
+     * Re-encrypt the open database with another data key.
+     */
+    async rekey(dataKey: DataKey): Promise<void> {
+        await this.getDatabase().execAsync(`PRAGMA rekey = ${sqlcipherKey(dataKey)};`);
+        console.log(`[DatabaseManager] Database re-encrypted with key ${dataKey.id}`);
+    }
+
+    /**
+     * File URI of a database copy, for reading or writing it whole.
+     */
+    copyUri(name: string): string {
+        return fileUri(databaseFilePath(name));
+    }
+
+    /**
+     * Write an unencrypted copy of the database, for packing into a
+     * password-encrypted backup. Delete it with deleteCopy() once read.
+     *
+     * @returns File URI of the copy
+     */
+    async exportCopy(name: string): Promise<string> {
+        await this.deleteCopy(name);
+        await this.getDatabase().execAsync(`
+            ATTACH DATABASE '${databaseFilePath(name)}' AS copy KEY '';
+            SELECT sqlcipher_export('copy');
+            DETACH DATABASE copy;
+        `);
+        return this.copyUri(name);
+    }
+
+    /**
+     * Open an unencrypted copy (e.g. restored from a backup) and bring it up
+     * to this build's schema.
+     *
+     * @throws Error when the copy comes from a newer build or lacks tables
+     *   or columns that merging needs
+     */
+    async openCopy(name: string): Promise<SQLite.SQLiteDatabase> {
+        const copy = await SQLite.openDatabaseAsync(name);
+        try {
+            await this.runMigrations(copy);
+            const verification = verifySchema(await this.readSchemaSnapshot(copy));
+            const blocking = verification.issues.filter(issue =>
+                ['unknown_migration', 'missing_table', 'missing_column'].includes(issue.kind)
+            );
+            if (blocking.length > 0) {
+                throw new Error(`Database copy cannot be used: ${blocking.map(issue => issue.message).join('; ')}`);
+            }
+            return copy;
+        } catch (error) {
+            await copy.closeAsync();
+            throw error;
+        }
+    }
+
+    /**
+     * Add the rows of a closed copy to the database, parent tables first,
+     * in one transaction. Rows whose primary key (or other unique key)
+     * already exists are skipped, never overwritten.
+     *
+     * @returns Rows inserted and skipped per table
+     */
+    async mergeCopy(
+        name: string,
+        tables: string[]
+    ): Promise<Record<string, { inserted: number; skipped: number }>> {
+        const db = this.getDatabase();
+        const result: Record<string, { inserted: number; skipped: number }> = {};
+
+        // ATTACH is not allowed inside a transaction
+        await db.execAsync(`ATTACH DATABASE '${databaseFilePath(name)}' AS copy KEY '';`);
+        try {
+            await db.withTransactionAsync(async () => {
+                for (const table of tables) {
+                    const mainColumns = await db.getAllAsync<TableInfoRow>(`PRAGMA main.table_info("${table}")`);
+                    const copyColumns = new Set(
+                        (await db.getAllAsync<TableInfoRow>(`PRAGMA copy.table_info("${table}")`)).map(column => column.name)
+                    );
+                    const columns = mainColumns
+                        .filter(column => copyColumns.has(column.name))
+                        .map(column => `"${column.name}"`)
+                        .join(', ');
+
+                    const total = await db.getFirstAsync<{ count: number }>(`SELECT COUNT(*) AS count FROM copy."${table}"`);
+                    const insert = await db.runAsync(
+                        `INSERT OR IGNORE INTO main."${table}" (${columns}) SELECT ${columns} FROM copy."${table}"`
+                    );
+                    result[table] = { inserted: insert.changes, skipped: (total?.count ?? 0) - insert.changes };
+                }
+            });
+        } finally {
+            await db.execAsync('DETACH DATABASE copy;');
+        }
+
+        return result;
+    }
+
+    /**
+     * Delete a database copy. Missing copies are ignored.
+     */
+    async deleteCopy(name: string): Promise<void> {
+        if ((await FileSystem.getInfoAsync(this.copyUri(name))).exists) {
+            await SQLite.deleteDatabaseAsync(name);
+        }
+    }
+
+    /**
+     * Open the database with the current key. Older keys are tried too: a
+     * rotation interrupted between re-encrypting the database and switching
+     * the current key leaves it under the new key, which is then undone.
+     */
+    private async openEncrypted(): Promise<SQLite.SQLiteDatabase> {
+        const current = dataKeyStore.currentKey();
+
+        for (const dataKey of dataKeyStore.candidateKeys()) {
+            const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+            try {
+                await db.execAsync(`PRAGMA key = ${sqlcipherKey(dataKey)};`);
+                // A wrong key only shows once the first page is read
+                await db.getFirstAsync('SELECT count(*) FROM sqlite_master');
+            } catch {
+                await db.closeAsync();
+                continue;
+            }
+
+            if (dataKey.id !== current.id) {
+                console.warn(`[DatabaseManager] Database was under key ${dataKey.id}, re-encrypting with current key`);
+                await db.execAsync(`PRAGMA rekey = ${sqlcipherKey(current)};`);
+            }
+            return db;
+        }
+
+        throw new Error('Database cannot be decrypted with any stored data key');
+    }
+
+    /**
+     * Replace an unencrypted database with an encrypted copy:
+     * sqlcipher_export into a new file, delete the old one, move the copy
+     * into place. Each step can be repeated if the app stops half-way.
+     */
+    private async encryptLegacyDatabase(): Promise<void> {
+        const path = databaseFilePath(DATABASE_NAME);
+        const exportPath = databaseFilePath(ENCRYPTED_EXPORT_NAME);
+
+        if (!(await FileSystem.getInfoAsync(fileUri(path))).exists) {
+            // Stopped after deleting the plaintext file: finish the swap
+            if ((await FileSystem.getInfoAsync(fileUri(exportPath))).exists) {
+                await FileSystem.moveAsync({ from: fileUri(exportPath), to: fileUri(path) });
+            }
+            return;
+        }
+        if (!(await isPlaintextDatabase(path))) {
+            return;
+        }
+
+        console.log('[DatabaseManager] Encrypting existing database');
+        await FileSystem.deleteAsync(fileUri(exportPath), { idempotent: true });
+
+        const plaintext = await SQLite.openDatabaseAsync(DATABASE_NAME);
+        try {
+            await plaintext.execAsync(`
+                ATTACH DATABASE '${exportPath}' AS encrypted KEY ${sqlcipherKey(dataKeyStore.currentKey())};
+                SELECT sqlcipher_export('encrypted');
+                DETACH DATABASE encrypted;
+            `);
+        } finally {
+            await plaintext.closeAsync();
+        }
+
+        await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+        await FileSystem.moveAsync({ from: fileUri(exportPath), to: fileUri(path) });
+        console.log('[DatabaseManager] Existing database encrypted');
+    }
+
+    /**
+     * Run pending database migrations, on the app database or on a copy.
+     */
+    private async runMigrations(db: SQLite.SQLiteDatabase | null = this.db): Promise<void> {
+        if (!db) {
             throw new Error('Database not initialized');
         }
 
-        // Create migrations table if it doesn't exist
-        await this.db.execAsync(`
+        // Create bookkeeping tables if they don't exist
+        await db.execAsync(`
             CREATE TABLE IF NOT EXISTS migrations (
                 version INTEGER PRIMARY KEY,
                 name TEXT NOT NULL,
                 applied_at TEXT NOT NULL DEFAULT (datetime('now'))
             );
+
+            CREATE TABLE IF NOT EXISTS schema_checksums (
+                version INTEGER PRIMARY KEY,
+                migration_checksum TEXT NOT NULL,
+                schema_checksum TEXT,
+                recorded_at TEXT NOT NULL
+            );
         `);
 
         // Get applied migrations
-        const appliedMigrations = await this.db.getAllAsync<{ version: number }>(
+        const appliedMigrations = await db.getAllAsync<{ version: number }>(
             'SELECT version FROM migrations ORDER BY version'
         );
 
         const appliedVersions = new Set(appliedMigrations.map(m => m.version));
+        await this.recordChecksumBaseline(db, appliedVersions);
 
         // Apply pending migrations
         for (const migration of MIGRATIONS) {
@@ -94,15 +387,16 @@ class DatabaseManager {
                 console.log(`[DatabaseManager] Applying migration: ${migration.name}`);
 
                 try {
-                    // Execute migration SQL
-                    await this.db.execAsync(migration.sql);
-
-                    // Record migration
-                    await this.db.runAsync(
-                        'INSERT INTO migrations (version, name) VALUES (?, ?)',
-                        migration.version,
-                        migration.name
-                    );
+                    // Migration SQL and its bookkeeping commit together or not at all
+                    await db.withTransactionAsync(async () => {
+                        await db.execAsync(migration.sql);
+                        await db.runAsync(
+                            'INSERT INTO migrations (version, name) VALUES (?, ?)',
+                            migration.version,
+                            migration.name
+                        );
+                        await this.recordChecksum(db, migration, await this.currentSchemaChecksum(db));
+                    });
 
                     console.log(`[DatabaseManager] Migration ${migration.name} applied successfully`);
                 } catch (error) {
@@ -113,6 +407,71 @@ class DatabaseManager {
         }
     }
 
+    /**
+     * Databases migrated before checksums were kept have none for their
+     * applied migrations. Record them from this build, with the current
+     * schema as the baseline for the latest one.
+     */
+    private async recordChecksumBaseline(db: SQLite.SQLiteDatabase, appliedVersions: Set<number>): Promise<void> {
+        const recorded = await db.getAllAsync<{ version: number }>('SELECT version FROM schema_checksums');
+        const recordedVersions = new Set(recorded.map(row => row.version));
+        const latest = Math.max(0, ...appliedVersions);
+
+        const missing = MIGRATIONS.filter(migration =>
+            appliedVersions.has(migration.version) && !recordedVersions.has(migration.version)
+        );
+        if (missing.length === 0) {
+            return;
+        }
+
+        console.log(`[DatabaseManager] Recording schema checksums for ${missing.length} earlier migration(s)`);
+        const current = await this.currentSchemaChecksum(db);
+        for (const migration of missing) {
+            await this.recordChecksum(db, migration, migration.version === latest ? current : null);
+        }
+    }
+
+    private async recordChecksum(db: SQLite.SQLiteDatabase, migration: Migration, schema: string | null): Promise<void> {
+        await db.runAsync(
+            `INSERT OR REPLACE INTO schema_checksums (version, migration_checksum, schema_checksum, recorded_at)
+             VALUES (?, ?, ?, ?)`,
+            migration.version,
+            migrationChecksum(migration),
+            schema,
+            new Date().toISOString()
+        );
+    }
+
+    private async readSchemaObjects(db: SQLite.SQLiteDatabase): Promise<SchemaObjectRow[]> {
+        return db.getAllAsync<SchemaObjectRow>(
+            "SELECT type, name, sql FROM sqlite_master WHERE type IN ('table', 'index', 'trigger', 'view')"
+        );
+    }
+
+    private async currentSchemaChecksum(db: SQLite.SQLiteDatabase): Promise<string> {
+        return schemaChecksum(await this.readSchemaObjects(db));
+    }
+
+    private async readSchemaSnapshot(db: SQLite.SQLiteDatabase): Promise<SchemaSnapshot> {
+        const objects = await this.readSchemaObjects(db);
+
+        const columns: Record<string, TableInfoRow[]> = {};
+        for (const object of objects) {
+            if (object.type === 'table' && !object.name.startsWith('sqlite_')) {
+                columns[object.name] = await db.getAllAsync<TableInfoRow>(`PRAGMA table_info("${object.name}")`);
+            }
+        }
+
+        return {
+            applied: await db.getAllAsync<{ version: number; name: string }>('SELECT version, name FROM migrations'),
+            checksums: await db.getAllAsync<SchemaChecksumRow>(
+                'SELECT version, migration_checksum, schema_checksum FROM schema_checksums'
+            ),
+            objects,
+            columns,
+        };
+    }
+
     /**
      * Close the database connection.
      */
@@ -136,11 +495,18 @@ class DatabaseManager {
 
         // Drop all tables
         await this.db.execAsync(`
+            DROP TABLE IF EXISTS audit_log;
+            DROP TABLE IF EXISTS sync_conflicts;
+            DROP TABLE IF EXISTS recording_uploads;
+            DROP TABLE IF EXISTS sync_queue;
+            DROP TABLE IF EXISTS stimulation_log;
+            DROP TABLE IF EXISTS fes_safety_envelopes;
             DROP TABLE IF EXISTS session_favorites;
             DROP TABLE IF EXISTS annotations;
             DROP TABLE IF EXISTS recordings;
             DROP TABLE IF EXISTS clinical_data;
             DROP TABLE IF EXISTS clinical_sessions;
+            DROP TABLE IF EXISTS schema_checksums;
             DROP TABLE IF EXISTS migrations;
         `);
 
@@ -148,6 +514,7 @@ class DatabaseManager {
 
         // Re-run migrations
         await this.runMigrations();
+        await this.verifySchema();
     }
 }
 
@@ -1,8 +1,13 @@
 /**
  * Data Layer Exports
  *
- * Barrel export for database manager and repositories.
+ * Barrel export for database manager, schema verification, retention job
+ * and repositories.
  */
 
 export { databaseManager } from './database';
+export { verifySchema, migrationChecksum, schemaChecksum } from './schemaVerification';
+export type { SchemaIssue, SchemaIssueKind, SchemaVerification } from './schemaVerification';
+export { RetentionJob, retentionJob, planRetention } from './RetentionJob';
+export type { RetentionPlan } from './RetentionJob';
 export * from './repositories';
@@ -0,0 +1,55 @@
+/**
+ * Migration Registry
+ *
+ * Every schema migration in the order DatabaseManager applies them. A
+ * migration with a `down` script can be reverted with
+ * databaseManager.migrateDown(); migrations before v11 have none.
+ */
+
+import { v1_initial } from './v1_initial';
+import { v2_add_research_columns } from './v2_add_research_columns';
+import { v3_relax_laterality_constraint } from './v3_relax_laterality_constraint';
+import { v4_add_session_favorites } from './v4_add_session_favorites';
+import { v5_add_blob_url } from './v5_add_blob_url';
+import { v6_add_sensor_columns } from './v6_add_sensor_columns';
+import { v7_add_sensor_columns_to_clinical_data } from './v7_add_sensor_columns_to_clinical_data';
+import { v8_add_fes_safety } from './v8_add_fes_safety';
+import { v9_add_signal_integrity } from './v9_add_signal_integrity';
+import { v10_add_annotation_anchors } from './v10_add_annotation_anchors';
+import { v11_add_sync_queue, v11_add_sync_queue_down } from './v11_add_sync_queue';
+import { v12_add_recording_uploads, v12_add_recording_uploads_down } from './v12_add_recording_uploads';
+import { v13_add_sync_conflicts, v13_add_sync_conflicts_down } from './v13_add_sync_conflicts';
+import { v14_add_retention, v14_add_retention_down } from './v14_add_retention';
+import { v15_add_audit_log, v15_add_audit_log_down } from './v15_add_audit_log';
+import { v16_add_recording_channels, v16_add_recording_channels_down } from './v16_add_recording_channels';
+
+export interface Migration {
+    version: number;
+    name: string;
+    sql: string;
+    down?: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+    { version: 1, name: 'v1_initial', sql: v1_initial },
+    { version: 2, name: 'v2_add_research_columns', sql: v2_add_research_columns },
+    { version: 3, name: 'v3_relax_laterality_constraint', sql: v3_relax_laterality_constraint },
+    { version: 4, name: 'v4_add_session_favorites', sql: v4_add_session_favorites },
+    { version: 5, name: 'v5_add_blob_url', sql: v5_add_blob_url },
+    { version: 6, name: 'v6_add_sensor_columns', sql: v6_add_sensor_columns },
+    { version: 7, name: 'v7_add_sensor_columns_to_clinical_data', sql: v7_add_sensor_columns_to_clinical_data },
+    { version: 8, name: 'v8_add_fes_safety', sql: v8_add_fes_safety },
+    { version: 9, name: 'v9_add_signal_integrity', sql: v9_add_signal_integrity },
+    { version: 10, name: 'v10_add_annotation_anchors', sql: v10_add_annotation_anchors },
+    { version: 11, name: 'v11_add_sync_queue', sql: v11_add_sync_queue, down: v11_add_sync_queue_down },
+    { version: 12, name: 'v12_add_recording_uploads', sql: v12_add_recording_uploads, down: v12_add_recording_uploads_down },
+    { version: 13, name: 'v13_add_sync_conflicts', sql: v13_add_sync_conflicts, down: v13_add_sync_conflicts_down },
+    { version: 14, name: 'v14_add_retention', sql: v14_add_retention, down: v14_add_retention_down },
+    { version: 15, name: 'v15_add_audit_log', sql: v15_add_audit_log, down: v15_add_audit_log_down },
+    {
+        version: 16,
+        name: 'v16_add_recording_channels',
+        sql: v16_add_recording_channels,
+        down: v16_add_recording_channels_down,
+    },
+];
@@ -0,0 +1,17 @@
+/**
+ * Migration v10: Anchor annotations to recordings
+ *
+ * Adds an optional recording reference, start/end offsets (ms from the start
+ * of that recording) and a category to annotations. Existing annotations
+ * stay session-level with all four columns NULL. Foreign keys are not
+ * enforced, so RecordingRepository.delete detaches annotations itself.
+ */
+
+export const v10_add_annotation_anchors = `
+ALTER TABLE annotations ADD COLUMN recording_id TEXT REFERENCES recordings(id) ON DELETE SET NULL;
+ALTER TABLE annotations ADD COLUMN start_offset_ms INTEGER;
+ALTER TABLE annotations ADD COLUMN end_offset_ms INTEGER;
+ALTER TABLE annotations ADD COLUMN category TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_annotations_recording ON annotations(recording_id);
+`;
@@ -0,0 +1,30 @@
+/**
+ * Migration v11: Add sync_queue table
+ *
+ * Persists per-entity retry state for SyncService (previously an in-memory
+ * map that every app restart cleared). One row per entity that has failed
+ * to sync; the row is removed once the entity syncs or is retried by hand.
+ * A NULL next_attempt_at means retrying has stopped.
+ */
+
+export const v11_add_sync_queue = `
+CREATE TABLE IF NOT EXISTS sync_queue (
+    entity_type TEXT NOT NULL CHECK(entity_type IN ('session', 'recording', 'annotation')),
+    entity_id TEXT NOT NULL,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at TEXT,
+    next_attempt_at TEXT,
+    error_reason TEXT,
+    PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entity_id);
+`;
+
+/**
+ * Revert v11. Entities waiting for a retry are picked up again as pending.
+ */
+export const v11_add_sync_queue_down = `
+DROP INDEX IF EXISTS idx_sync_queue_entity;
+DROP TABLE IF EXISTS sync_queue;
+`;
@@ -0,0 +1,27 @@
+/**
+ * Migration v12: Add recording_uploads table
+ *
+ * Tracks resumable chunked uploads so a recording whose upload was cut off
+ * continues from the last offset the backend acknowledged instead of from
+ * zero. One row per recording with an upload in progress; the row is
+ * removed once the upload has been verified.
+ */
+
+export const v12_add_recording_uploads = `
+CREATE TABLE IF NOT EXISTS recording_uploads (
+    recording_id TEXT PRIMARY KEY REFERENCES recordings(id) ON DELETE CASCADE,
+    upload_id TEXT NOT NULL,
+    sha256 TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    chunk_size_bytes INTEGER NOT NULL,
+    acknowledged_bytes INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL
+);
+`;
+
+/**
+ * Revert v12. Uploads in progress start again from zero.
+ */
+export const v12_add_recording_uploads_down = `
+DROP TABLE IF EXISTS recording_uploads;
+`;
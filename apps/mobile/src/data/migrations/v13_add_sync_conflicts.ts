@@ -0,0 +1,49 @@
+/**
+ * Migration v13: Add sync watermarks and sync_conflicts table
+ *
+ * Sessions and annotations record when they were last edited locally and
+ * the backend's updatedAt as of their last sync. SyncService compares that
+ * watermark with the backend before pushing an edit; when both sides
+ * changed, it stores both copies in sync_conflicts. An entity with an
+ * unresolved conflict stays 'pending' but is not pushed until a researcher
+ * resolves it.
+ */
+
+export const v13_add_sync_conflicts = `
+ALTER TABLE clinical_sessions ADD COLUMN updated_at TEXT;
+ALTER TABLE clinical_sessions ADD COLUMN remote_updated_at TEXT;
+ALTER TABLE annotations ADD COLUMN updated_at TEXT;
+ALTER TABLE annotations ADD COLUMN remote_updated_at TEXT;
+
+UPDATE clinical_sessions SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE annotations SET updated_at = created_at WHERE updated_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id TEXT PRIMARY KEY,
+    entity_type TEXT NOT NULL CHECK(entity_type IN ('session', 'annotation')),
+    entity_id TEXT NOT NULL,
+    session_id TEXT NOT NULL REFERENCES clinical_sessions(id) ON DELETE CASCADE,
+    local_values TEXT NOT NULL,
+    remote_values TEXT NOT NULL,
+    remote_updated_at TEXT NOT NULL,
+    detected_at TEXT NOT NULL,
+    resolution TEXT CHECK(resolution IN ('local', 'remote', 'merged')),
+    resolved_at TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_conflicts_open
+    ON sync_conflicts(entity_type, entity_id) WHERE resolved_at IS NULL;
+`;
+
+/**
+ * Revert v13. Open conflicts are dropped along with the watermarks.
+ */
+export const v13_add_sync_conflicts_down = `
+DROP INDEX IF EXISTS idx_sync_conflicts_open;
+DROP TABLE IF EXISTS sync_conflicts;
+
+ALTER TABLE clinical_sessions DROP COLUMN updated_at;
+ALTER TABLE clinical_sessions DROP COLUMN remote_updated_at;
+ALTER TABLE annotations DROP COLUMN updated_at;
+ALTER TABLE annotations DROP COLUMN remote_updated_at;
+`;
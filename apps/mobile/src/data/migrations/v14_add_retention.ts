@@ -0,0 +1,32 @@
+/**
+ * Migration v14: Add retention bookkeeping
+ *
+ * Sessions and recordings record when they were last marked synced, which
+ * the retention policy counts from, and when retention purged them: the
+ * local file of a recording, the volunteer name of a session. Rows that are
+ * already synced start counting from the upgrade.
+ */
+
+export const v14_add_retention = `
+ALTER TABLE clinical_sessions ADD COLUMN synced_at TEXT;
+ALTER TABLE clinical_sessions ADD COLUMN purged_at TEXT;
+ALTER TABLE recordings ADD COLUMN synced_at TEXT;
+ALTER TABLE recordings ADD COLUMN purged_at TEXT;
+
+UPDATE clinical_sessions SET synced_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE sync_status = 'synced';
+UPDATE recordings SET synced_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE sync_status = 'synced';
+
+CREATE INDEX IF NOT EXISTS idx_recordings_retention ON recordings(sync_status, synced_at);
+`;
+
+/**
+ * Revert v14. The index goes first: SQLite cannot drop an indexed column.
+ */
+export const v14_add_retention_down = `
+DROP INDEX IF EXISTS idx_recordings_retention;
+
+ALTER TABLE clinical_sessions DROP COLUMN synced_at;
+ALTER TABLE clinical_sessions DROP COLUMN purged_at;
+ALTER TABLE recordings DROP COLUMN synced_at;
+ALTER TABLE recordings DROP COLUMN purged_at;
+`;
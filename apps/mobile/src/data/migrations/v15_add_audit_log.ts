@@ -0,0 +1,85 @@
+/**
+ * Migration v15: Add audit_log table
+ *
+ * Append-only log of clinical actions, hash-chained (see
+ * crypto/auditChain.ts). Triggers reject deleting an entry or changing
+ * anything but its sync_status. session_id is deliberately not a foreign
+ * key: deleting a session must not delete its audit trail.
+ *
+ * sync_queue is rebuilt so its entity_type CHECK admits 'audit'.
+ */
+
+export const v15_add_audit_log = `
+CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    sequence INTEGER NOT NULL UNIQUE,
+    action TEXT NOT NULL,
+    actor_id TEXT,
+    session_id TEXT,
+    entity_type TEXT CHECK(entity_type IS NULL OR entity_type IN ('session', 'recording', 'annotation', 'export')),
+    entity_id TEXT,
+    details TEXT,
+    created_at TEXT NOT NULL,
+    previous_hash TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    sync_status TEXT NOT NULL DEFAULT 'pending' CHECK(sync_status IN ('synced','pending','failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_sync_status ON audit_log(sync_status, sequence);
+CREATE INDEX IF NOT EXISTS idx_audit_log_session ON audit_log(session_id);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+BEFORE UPDATE OF id, sequence, action, actor_id, session_id, entity_type, entity_id, details,
+                 created_at, previous_hash, hash ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+BEFORE DELETE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TABLE sync_queue_new (
+    entity_type TEXT NOT NULL CHECK(entity_type IN ('session', 'recording', 'annotation', 'audit')),
+    entity_id TEXT NOT NULL,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at TEXT,
+    next_attempt_at TEXT,
+    error_reason TEXT,
+    PRIMARY KEY (entity_type, entity_id)
+);
+
+INSERT INTO sync_queue_new SELECT * FROM sync_queue;
+DROP TABLE sync_queue;
+ALTER TABLE sync_queue_new RENAME TO sync_queue;
+CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entity_id);
+`;
+
+/**
+ * Revert v15. Drops the audit trail and rebuilds sync_queue with the v11
+ * CHECK, so queued audit entries are removed first.
+ */
+export const v15_add_audit_log_down = `
+DROP TRIGGER IF EXISTS audit_log_no_update;
+DROP TRIGGER IF EXISTS audit_log_no_delete;
+DROP TABLE IF EXISTS audit_log;
+
+DELETE FROM sync_queue WHERE entity_type = 'audit';
+
+CREATE TABLE sync_queue_old (
+    entity_type TEXT NOT NULL CHECK(entity_type IN ('session', 'recording', 'annotation')),
+    entity_id TEXT NOT NULL,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at TEXT,
+    next_attempt_at TEXT,
+    error_reason TEXT,
+    PRIMARY KEY (entity_type, entity_id)
+);
+
+INSERT INTO sync_queue_old SELECT * FROM sync_queue;
+DROP TABLE sync_queue;
+ALTER TABLE sync_queue_old RENAME TO sync_queue;
+CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entity_id);
+`;
@@ -0,0 +1,22 @@
+/**
+ * Migration v16: Add recording channels
+ *
+ * Multi-channel electrodes record one column per channel. Recordings store
+ * how many channels they hold and which sensor each channel was mapped to
+ * in the session configuration (JSON array, channel order). Existing
+ * recordings are single-channel; their sensor mapping stays NULL, which
+ * means the session's first sensor.
+ */
+
+export const v16_add_recording_channels = `
+ALTER TABLE recordings ADD COLUMN channel_count INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE recordings ADD COLUMN channel_sensor_ids TEXT;
+`;
+
+/**
+ * Revert v16.
+ */
+export const v16_add_recording_channels_down = `
+ALTER TABLE recordings DROP COLUMN channel_count;
+ALTER TABLE recordings DROP COLUMN channel_sensor_ids;
+`;
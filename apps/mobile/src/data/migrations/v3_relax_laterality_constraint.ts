@@ -4,12 +4,11 @@
  * SQLite does not support ALTER TABLE ... ALTER COLUMN, so the entire
  * clinical_data table must be rebuilt to change the CHECK constraint.
  *
- * Wrapped in a transaction per TL note N2 for crash safety.
+ * Crash safety (TL note N2) comes from DatabaseManager, which runs every
+ * migration in a transaction.
  */
 
 export const v3_relax_laterality_constraint = `
-BEGIN TRANSACTION;
-
 -- Step 1: Create temporary table with relaxed constraint
 CREATE TABLE clinical_data_new (
     id TEXT PRIMARY KEY,
@@ -32,6 +31,4 @@ ALTER TABLE clinical_data_new RENAME TO clinical_data;
 
 -- Step 5: Recreate the index
 CREATE INDEX IF NOT EXISTS idx_clinical_data_session ON clinical_data(session_id);
-
-COMMIT;
 `;
@@ -0,0 +1,42 @@
+/**
+ * Migration v8: Add FES safety tables
+ *
+ * - fes_safety_envelopes: per-research and per-volunteer stimulation limits
+ * - stimulation_log: local audit trail of every stimulation command
+ */
+
+export const v8_add_fes_safety = `
+CREATE TABLE IF NOT EXISTS fes_safety_envelopes (
+    id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL CHECK(scope IN ('research', 'volunteer')),
+    scope_id TEXT NOT NULL,
+    amplitude_min REAL NOT NULL,
+    amplitude_max REAL NOT NULL,
+    frequency_min REAL NOT NULL,
+    frequency_max REAL NOT NULL,
+    pulse_width_min REAL NOT NULL,
+    pulse_width_max REAL NOT NULL,
+    duration_min REAL NOT NULL,
+    duration_max REAL NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(scope, scope_id)
+);
+
+CREATE TABLE IF NOT EXISTS stimulation_log (
+    id TEXT PRIMARY KEY,
+    command TEXT NOT NULL CHECK(command IN ('fes_params', 'single_stimulation', 'emergency_stop')),
+    outcome TEXT NOT NULL CHECK(outcome IN ('acknowledged', 'blocked', 'failed', 'sent')),
+    parameters TEXT,
+    reason TEXT,
+    detail TEXT,
+    researcher_id TEXT,
+    volunteer_id TEXT,
+    research_id TEXT,
+    session_id TEXT,
+    device_address TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stimulation_log_session ON stimulation_log(session_id);
+CREATE INDEX IF NOT EXISTS idx_stimulation_log_created_at ON stimulation_log(created_at);
+`;
@@ -0,0 +1,14 @@
+/**
+ * Migration v9: Add signal integrity columns to recordings table
+ *
+ * Stores the gap, missing-sample and duplicate counts measured while a
+ * binary stream was recorded. NULL for recordings made before this
+ * migration and for JSON streams, which carry no packet timestamps.
+ */
+
+export const v9_add_signal_integrity = `
+ALTER TABLE recordings ADD COLUMN gap_count INTEGER;
+ALTER TABLE recordings ADD COLUMN missing_samples INTEGER;
+ALTER TABLE recordings ADD COLUMN longest_gap_ms INTEGER;
+ALTER TABLE recordings ADD COLUMN duplicate_packets INTEGER;
+`;
@@ -1,12 +1,14 @@
 /**
  * Annotation Repository
  *
- * Manages persistence of text annotations associated with clinical sessions.
+ * Manages persistence of text annotations associated with clinical sessions,
+ * optionally anchored to an offset range within one recording.
  */
 
-import { Annotation, NewAnnotationData } from '@iris/domain';
+import { Annotation, AnnotationCategory, NewAnnotationData } from '@iris/domain';
 import { databaseManager } from '../database';
 import { generateUUID } from '../../utils/uuid';
+import { auditLogRepository } from './AuditLogRepository';
 
 /**
  * Database row type (snake_case from SQLite)
@@ -15,8 +17,14 @@ interface AnnotationRow {
     id: string;
     session_id: string;
     text: string;
+    recording_id: string | null;
+    start_offset_ms: number | null;
+    end_offset_ms: number | null;
+    category: string | null;
     sync_status: string;
     created_at: string;
+    updated_at: string | null;
+    remote_updated_at: string | null;
 }
 
 export class AnnotationRepository {
@@ -54,6 +62,18 @@ export class AnnotationRepository {
         return rows.map(row => this.mapRowToAnnotation(row));
     }
 
+    /**
+     * Get annotations anchored to a recording, in timeline order.
+     */
+    async getByRecording(recordingId: string): Promise<Annotation[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<AnnotationRow>(
+            'SELECT * FROM annotations WHERE recording_id = ? ORDER BY start_offset_ms ASC, created_at ASC',
+            recordingId
+        );
+        return rows.map(row => this.mapRowToAnnotation(row));
+    }
+
     /**
      * Get pending annotations (not synced).
      */
@@ -76,11 +96,17 @@ export class AnnotationRepository {
 
         await db.runAsync(
             `INSERT INTO annotations
-             (id, session_id, text, sync_status, created_at)
-             VALUES (?, ?, ?, 'pending', ?)`,
+             (id, session_id, text, recording_id, start_offset_ms, end_offset_ms,
+              category, sync_status, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)`,
             id,
             data.sessionId,
             data.text,
+            data.recordingId ?? null,
+            data.startOffsetMs ?? null,
+            data.endOffsetMs ?? null,
+            data.category ?? null,
+            createdAt,
             createdAt
         );
 
@@ -94,21 +120,53 @@ export class AnnotationRepository {
 
     /**
      * Update annotation.
+     *
+     * Any change other than sync bookkeeping (syncStatus, remoteUpdatedAt)
+     * is a local edit: it stamps updated_at and, unless a syncStatus is
+     * given, puts the annotation back in the sync queue.
      */
     async update(id: string, data: Partial<Annotation>): Promise<void> {
         const db = databaseManager.getDatabase();
 
         const fields: string[] = [];
-        const values: (string | null)[] = [];
+        const values: (string | number | null)[] = [];
 
         if (data.text !== undefined) {
             fields.push('text = ?');
             values.push(data.text);
         }
+        if (data.recordingId !== undefined) {
+            fields.push('recording_id = ?');
+            values.push(data.recordingId);
+        }
+        if (data.startOffsetMs !== undefined) {
+            fields.push('start_offset_ms = ?');
+            values.push(data.startOffsetMs);
+        }
+        if (data.endOffsetMs !== undefined) {
+            fields.push('end_offset_ms = ?');
+            values.push(data.endOffsetMs);
+        }
+        if (data.category !== undefined) {
+            fields.push('category = ?');
+            values.push(data.category);
+        }
+
+        if (fields.length > 0) {
+            fields.push('updated_at = ?');
+            values.push(new Date().toISOString());
+            if (data.syncStatus === undefined) {
+                fields.push("sync_status = 'pending'");
+            }
+        }
         if (data.syncStatus !== undefined) {
             fields.push('sync_status = ?');
             values.push(data.syncStatus);
         }
+        if (data.remoteUpdatedAt !== undefined) {
+            fields.push('remote_updated_at = ?');
+            values.push(data.remoteUpdatedAt);
+        }
 
         if (fields.length === 0) {
             return;
@@ -127,7 +185,18 @@ export class AnnotationRepository {
      */
     async delete(id: string): Promise<void> {
         const db = databaseManager.getDatabase();
+        const annotation = await this.getById(id);
         await db.runAsync('DELETE FROM annotations WHERE id = ?', id);
+
+        if (annotation) {
+            await auditLogRepository.record({
+                action: 'annotation_deleted',
+                sessionId: annotation.sessionId,
+                entityType: 'annotation',
+                entityId: id,
+                details: { recordingId: annotation.recordingId, syncStatus: annotation.syncStatus },
+            });
+        }
     }
 
     /**
@@ -152,8 +221,14 @@ export class AnnotationRepository {
             id: row.id,
             sessionId: row.session_id,
             text: row.text,
+            recordingId: row.recording_id ?? undefined,
+            startOffsetMs: row.start_offset_ms ?? undefined,
+            endOffsetMs: row.end_offset_ms ?? undefined,
+            category: (row.category as AnnotationCategory | null) ?? undefined,
             syncStatus: row.sync_status as 'synced' | 'pending' | 'failed',
-            createdAt: row.created_at
+            createdAt: row.created_at,
+            updatedAt: row.updated_at ?? undefined,
+            remoteUpdatedAt: row.remote_updated_at ?? undefined,
         };
     }
 }
@@ -0,0 +1,165 @@
+/**
+ * Audit Log Repository
+ *
+ * Append-only audit trail of clinical actions on this device. Every entry
+ * is chained to the one before it by hash (crypto/auditChain.ts); the
+ * table's triggers reject deletes and edits other than sync_status.
+ */
+
+import {
+    AUDIT_GENESIS_HASH,
+    AuditAction,
+    AuditChainVerification,
+    AuditEntityType,
+    AuditEntry,
+    NewAuditEntry,
+} from '@iris/domain';
+import { databaseManager } from '../database';
+import { generateUUID } from '../../utils/uuid';
+import { computeAuditHash, verifyAuditChain } from '../../crypto/auditChain';
+
+interface AuditLogRow {
+    id: string;
+    sequence: number;
+    action: string;
+    actor_id: string | null;
+    session_id: string | null;
+    entity_type: string | null;
+    entity_id: string | null;
+    details: string | null;
+    created_at: string;
+    previous_hash: string;
+    hash: string;
+    sync_status: string;
+}
+
+export class AuditLogRepository {
+    private actorId: string | null = null;
+    // Appends run one at a time so each sees the previous entry's hash
+    private appendQueue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Set the user that entries without an explicit actorId are attributed
+     * to. Called by AuthContext on sign-in and sign-out.
+     */
+    setActor(actorId: string | null): void {
+        this.actorId = actorId;
+    }
+
+    /**
+     * Append an entry to the end of the chain.
+     */
+    append(entry: NewAuditEntry): Promise<AuditEntry> {
+        const result = this.appendQueue.then(() => this.insert(entry));
+        this.appendQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Append an entry, logging instead of throwing on failure. For call
+     * sites where auditing must never block the clinical action itself.
+     */
+    async record(entry: NewAuditEntry): Promise<void> {
+        try {
+            await this.append(entry);
+        } catch (error) {
+            console.error(`[AuditLogRepository] Failed to record ${entry.action}:`, error);
+        }
+    }
+
+    /**
+     * Entries not yet uploaded, in chain order.
+     */
+    async getPending(): Promise<AuditEntry[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<AuditLogRow>(
+            "SELECT * FROM audit_log WHERE sync_status != 'synced' ORDER BY sequence ASC"
+        );
+        return rows.map(row => this.mapRow(row));
+    }
+
+    /**
+     * Most recent entries, newest first.
+     */
+    async getRecent(limit: number = 100): Promise<AuditEntry[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<AuditLogRow>(
+            'SELECT * FROM audit_log ORDER BY sequence DESC LIMIT ?',
+            limit
+        );
+        return rows.map(row => this.mapRow(row));
+    }
+
+    /**
+     * Update sync status. The only change the table allows.
+     */
+    async setSyncStatus(id: string, syncStatus: 'synced' | 'failed'): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync('UPDATE audit_log SET sync_status = ? WHERE id = ?', syncStatus, id);
+    }
+
+    /**
+     * Recompute the whole chain to detect tampering.
+     */
+    async verify(): Promise<AuditChainVerification> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<AuditLogRow>('SELECT * FROM audit_log ORDER BY sequence ASC');
+        return verifyAuditChain(rows.map(row => this.mapRow(row)));
+    }
+
+    private async insert(entry: NewAuditEntry): Promise<AuditEntry> {
+        const db = databaseManager.getDatabase();
+        const last = await db.getFirstAsync<{ sequence: number; hash: string }>(
+            'SELECT sequence, hash FROM audit_log ORDER BY sequence DESC LIMIT 1'
+        );
+
+        const chained: Omit<AuditEntry, 'hash' | 'syncStatus'> = {
+            ...entry,
+            actorId: entry.actorId ?? this.actorId ?? undefined,
+            id: generateUUID(),
+            sequence: (last?.sequence ?? 0) + 1,
+            createdAt: new Date().toISOString(),
+            previousHash: last?.hash ?? AUDIT_GENESIS_HASH,
+        };
+        const hash = computeAuditHash(chained);
+
+        await db.runAsync(
+            `INSERT INTO audit_log
+             (id, sequence, action, actor_id, session_id, entity_type, entity_id, details,
+              created_at, previous_hash, hash, sync_status)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+            chained.id,
+            chained.sequence,
+            chained.action,
+            chained.actorId ?? null,
+            chained.sessionId ?? null,
+            chained.entityType ?? null,
+            chained.entityId ?? null,
+            chained.details ? JSON.stringify(chained.details) : null,
+            chained.createdAt,
+            chained.previousHash,
+            hash
+        );
+
+        return { ...chained, hash, syncStatus: 'pending' };
+    }
+
+    private mapRow(row: AuditLogRow): AuditEntry {
+        return {
+            id: row.id,
+            sequence: row.sequence,
+            action: row.action as AuditAction,
+            actorId: row.actor_id ?? undefined,
+            sessionId: row.session_id ?? undefined,
+            entityType: (row.entity_type as AuditEntityType | null) ?? undefined,
+            entityId: row.entity_id ?? undefined,
+            details: row.details ? JSON.parse(row.details) : undefined,
+            createdAt: row.created_at,
+            previousHash: row.previous_hash,
+            hash: row.hash,
+            syncStatus: row.sync_status as 'synced' | 'pending' | 'failed',
+        };
+    }
+}
+
+export const auditLogRepository = new AuditLogRepository();
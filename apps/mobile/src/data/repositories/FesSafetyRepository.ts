@@ -0,0 +1,195 @@
+/**
+ * FES Safety Repository
+ *
+ * Local persistence for the stimulation interlock:
+ * - Safety envelopes per research and per volunteer (one row per scope)
+ * - Append-only stimulation log
+ */
+
+import {
+    FesEnvelopeScope,
+    FesSafetyEnvelope,
+    FesSafetyEnvelopeRecord,
+    StimulationLogEntry,
+    NewStimulationLogEntry,
+    StimulationCommand,
+    StimulationOutcome,
+    EmergencyStopReason,
+} from '@iris/domain';
+import { databaseManager } from '../database';
+import { generateUUID } from '../../utils/uuid';
+
+interface EnvelopeRow {
+    id: string;
+    scope: string;
+    scope_id: string;
+    amplitude_min: number;
+    amplitude_max: number;
+    frequency_min: number;
+    frequency_max: number;
+    pulse_width_min: number;
+    pulse_width_max: number;
+    duration_min: number;
+    duration_max: number;
+    updated_at: string;
+}
+
+interface StimulationLogRow {
+    id: string;
+    command: string;
+    outcome: string;
+    parameters: string | null;
+    reason: string | null;
+    detail: string | null;
+    researcher_id: string | null;
+    volunteer_id: string | null;
+    research_id: string | null;
+    session_id: string | null;
+    device_address: string | null;
+    created_at: string;
+}
+
+export class FesEnvelopeRepository {
+    /**
+     * Get the envelope configured for a research or volunteer, if any.
+     */
+    async getByScope(scope: FesEnvelopeScope, scopeId: string): Promise<FesSafetyEnvelopeRecord | null> {
+        const db = databaseManager.getDatabase();
+        const row = await db.getFirstAsync<EnvelopeRow>(
+            'SELECT * FROM fes_safety_envelopes WHERE scope = ? AND scope_id = ?',
+            scope,
+            scopeId
+        );
+        return row ? this.mapRow(row) : null;
+    }
+
+    /**
+     * Create or replace the envelope for a research or volunteer.
+     */
+    async upsert(scope: FesEnvelopeScope, scopeId: string, envelope: FesSafetyEnvelope): Promise<FesSafetyEnvelopeRecord> {
+        const db = databaseManager.getDatabase();
+        const existing = await this.getByScope(scope, scopeId);
+        const id = existing?.id ?? generateUUID();
+        const updatedAt = new Date().toISOString();
+
+        await db.runAsync(
+            `INSERT OR REPLACE INTO fes_safety_envelopes
+             (id, scope, scope_id,
+              amplitude_min, amplitude_max, frequency_min, frequency_max,
+              pulse_width_min, pulse_width_max, duration_min, duration_max,
+              updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            id,
+            scope,
+            scopeId,
+            envelope.amplitude.min,
+            envelope.amplitude.max,
+            envelope.frequency.min,
+            envelope.frequency.max,
+            envelope.pulseWidth.min,
+            envelope.pulseWidth.max,
+            envelope.duration.min,
+            envelope.duration.max,
+            updatedAt
+        );
+
+        return { id, scope, scopeId, envelope, updatedAt };
+    }
+
+    async delete(scope: FesEnvelopeScope, scopeId: string): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync('DELETE FROM fes_safety_envelopes WHERE scope = ? AND scope_id = ?', scope, scopeId);
+    }
+
+    private mapRow(row: EnvelopeRow): FesSafetyEnvelopeRecord {
+        return {
+            id: row.id,
+            scope: row.scope as FesEnvelopeScope,
+            scopeId: row.scope_id,
+            envelope: {
+                amplitude: { min: row.amplitude_min, max: row.amplitude_max },
+                frequency: { min: row.frequency_min, max: row.frequency_max },
+                pulseWidth: { min: row.pulse_width_min, max: row.pulse_width_max },
+                duration: { min: row.duration_min, max: row.duration_max },
+            },
+            updatedAt: row.updated_at,
+        };
+    }
+}
+
+export class StimulationLogRepository {
+    /**
+     * Append one entry. Entries are never updated or deleted by the app.
+     */
+    async append(entry: NewStimulationLogEntry): Promise<StimulationLogEntry> {
+        const db = databaseManager.getDatabase();
+        const id = generateUUID();
+        const createdAt = new Date().toISOString();
+
+        await db.runAsync(
+            `INSERT INTO stimulation_log
+             (id, command, outcome, parameters, reason, detail,
+              researcher_id, volunteer_id, research_id, session_id, device_address,
+              created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            id,
+            entry.command,
+            entry.outcome,
+            entry.parameters ? JSON.stringify(entry.parameters) : null,
+            entry.reason ?? null,
+            entry.detail ?? null,
+            entry.researcherId ?? null,
+            entry.volunteerId ?? null,
+            entry.researchId ?? null,
+            entry.sessionId ?? null,
+            entry.deviceAddress ?? null,
+            createdAt
+        );
+
+        return { ...entry, id, createdAt };
+    }
+
+    /**
+     * Get log entries for a session, oldest first.
+     */
+    async getBySession(sessionId: string): Promise<StimulationLogEntry[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<StimulationLogRow>(
+            'SELECT * FROM stimulation_log WHERE session_id = ? ORDER BY created_at ASC',
+            sessionId
+        );
+        return rows.map(row => this.mapRow(row));
+    }
+
+    /**
+     * Most recent entries across all sessions.
+     */
+    async getRecent(limit: number = 100): Promise<StimulationLogEntry[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<StimulationLogRow>(
+            'SELECT * FROM stimulation_log ORDER BY created_at DESC LIMIT ?',
+            limit
+        );
+        return rows.map(row => this.mapRow(row));
+    }
+
+    private mapRow(row: StimulationLogRow): StimulationLogEntry {
+        return {
+            id: row.id,
+            command: row.command as StimulationCommand,
+            outcome: row.outcome as StimulationOutcome,
+            parameters: row.parameters ? JSON.parse(row.parameters) : undefined,
+            reason: (row.reason as EmergencyStopReason | null) ?? undefined,
+            detail: row.detail ?? undefined,
+            researcherId: row.researcher_id ?? undefined,
+            volunteerId: row.volunteer_id ?? undefined,
+            researchId: row.research_id ?? undefined,
+            sessionId: row.session_id ?? undefined,
+            deviceAddress: row.device_address ?? undefined,
+            createdAt: row.created_at,
+        };
+    }
+}
+
+export const fesEnvelopeRepository = new FesEnvelopeRepository();
+export const stimulationLogRepository = new StimulationLogRepository();
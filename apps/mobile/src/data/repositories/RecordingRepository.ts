@@ -7,6 +7,7 @@
 import { Recording, NewRecordingData } from '@iris/domain';
 import { databaseManager } from '../database';
 import { generateUUID } from '../../utils/uuid';
+import { auditLogRepository } from './AuditLogRepository';
 
 /**
  * Database row type (snake_case from SQLite)
@@ -19,10 +20,18 @@ interface RecordingRow {
     sample_count: number;
     data_type: string;
     sample_rate: number;
+    channel_count: number;
+    channel_sensor_ids: string | null;
     sync_status: string;
     file_path: string | null;
     blob_url: string | null;
+    gap_count: number | null;
+    missing_samples: number | null;
+    longest_gap_ms: number | null;
+    duplicate_packets: number | null;
     recorded_at: string;
+    synced_at: string | null;
+    purged_at: string | null;
 }
 
 export class RecordingRepository {
@@ -86,20 +95,58 @@ export class RecordingRepository {
         return rows.map(row => this.mapRowToRecording(row));
     }
 
+    /**
+     * Get synced recordings whose uploaded file is confirmed and still on the
+     * device. These are the candidates for the retention policy.
+     */
+    async getRetained(): Promise<Recording[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<RecordingRow>(
+            `SELECT * FROM recordings
+             WHERE sync_status = 'synced' AND blob_url IS NOT NULL AND file_path IS NOT NULL
+             ORDER BY synced_at ASC`
+        );
+        return rows.map(row => this.mapRowToRecording(row));
+    }
+
+    /**
+     * Record that retention deleted the local file. The row stays as a stub
+     * pointing at the uploaded copy. Unlike update(), this is bookkeeping and
+     * does not touch sync state.
+     */
+    async markFilePurged(id: string, purgedAt: string): Promise<void> {
+        const db = databaseManager.getDatabase();
+        const recording = await this.getById(id);
+        await db.runAsync(
+            'UPDATE recordings SET file_path = NULL, purged_at = ? WHERE id = ?',
+            purgedAt,
+            id
+        );
+
+        await auditLogRepository.record({
+            action: 'recording_file_purged',
+            sessionId: recording?.sessionId,
+            entityType: 'recording',
+            entityId: id,
+            details: { filename: recording?.filename, blobUrl: recording?.blobUrl },
+        });
+    }
+
     /**
      * Create a new recording.
      */
     async create(data: NewRecordingData): Promise<Recording> {
         const db = databaseManager.getDatabase();
 
-        const id = generateUUID();
+        const id = data.id ?? generateUUID();
         const recordedAt = new Date().toISOString();
 
         await db.runAsync(
             `INSERT INTO recordings
              (id, session_id, filename, duration_seconds, sample_count, data_type,
-              sample_rate, sync_status, file_path, blob_url, recorded_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)`,
+              sample_rate, channel_count, channel_sensor_ids, sync_status, file_path, blob_url,
+              gap_count, missing_samples, longest_gap_ms, duplicate_packets, recorded_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?)`,
             id,
             data.sessionId,
             data.filename,
@@ -107,8 +154,14 @@ export class RecordingRepository {
             data.sampleCount,
             data.dataType,
             data.sampleRate,
+            data.channelCount ?? 1,
+            data.channelSensorIds?.length ? JSON.stringify(data.channelSensorIds) : null,
             data.filePath ?? null,
             data.blobUrl ?? null,
+            data.signalIntegrity?.gapCount ?? null,
+            data.signalIntegrity?.missingSamples ?? null,
+            data.signalIntegrity?.longestGapMs ?? null,
+            data.signalIntegrity?.duplicatePackets ?? null,
             recordedAt
         );
 
@@ -117,6 +170,13 @@ export class RecordingRepository {
             throw new Error('Failed to retrieve created recording');
         }
 
+        await auditLogRepository.record({
+            action: 'recording_created',
+            sessionId: recording.sessionId,
+            entityType: 'recording',
+            entityId: recording.id,
+            details: { filename: recording.filename, durationSeconds: recording.durationSeconds },
+        });
         return recording;
     }
 
@@ -152,6 +212,10 @@ export class RecordingRepository {
         if (data.syncStatus !== undefined) {
             fields.push('sync_status = ?');
             values.push(data.syncStatus);
+            if (data.syncStatus === 'synced') {
+                fields.push('synced_at = ?');
+                values.push(new Date().toISOString());
+            }
         }
         if (data.filePath !== undefined) {
             fields.push('file_path = ?');
@@ -161,6 +225,15 @@ export class RecordingRepository {
             fields.push('blob_url = ?');
             values.push(data.blobUrl ?? null);
         }
+        if (data.signalIntegrity !== undefined) {
+            fields.push('gap_count = ?', 'missing_samples = ?', 'longest_gap_ms = ?', 'duplicate_packets = ?');
+            values.push(
+                data.signalIntegrity.gapCount,
+                data.signalIntegrity.missingSamples,
+                data.signalIntegrity.longestGapMs,
+                data.signalIntegrity.duplicatePackets
+            );
+        }
 
         if (fields.length === 0) {
             return;
@@ -175,11 +248,32 @@ export class RecordingRepository {
     }
 
     /**
-     * Delete recording.
+     * Delete recording. Its annotations stay as session-level annotations:
+     * foreign keys are not enforced, so the ON DELETE SET NULL of
+     * annotations.recording_id never fires and they are detached here.
      */
     async delete(id: string): Promise<void> {
         const db = databaseManager.getDatabase();
-        await db.runAsync('DELETE FROM recordings WHERE id = ?', id);
+        const recording = await this.getById(id);
+        await db.withTransactionAsync(async () => {
+            await db.runAsync(
+                `UPDATE annotations
+                 SET recording_id = NULL, start_offset_ms = NULL, end_offset_ms = NULL
+                 WHERE recording_id = ?`,
+                id
+            );
+            await db.runAsync('DELETE FROM recordings WHERE id = ?', id);
+        });
+
+        if (recording) {
+            await auditLogRepository.record({
+                action: 'recording_deleted',
+                sessionId: recording.sessionId,
+                entityType: 'recording',
+                entityId: id,
+                details: { filename: recording.filename, syncStatus: recording.syncStatus },
+            });
+        }
     }
 
     /**
@@ -208,10 +302,22 @@ export class RecordingRepository {
             sampleCount: row.sample_count,
             dataType: row.data_type as 'raw' | 'filtered' | 'rms',
             sampleRate: row.sample_rate,
+            channelCount: row.channel_count ?? 1,
+            channelSensorIds: row.channel_sensor_ids ? JSON.parse(row.channel_sensor_ids) as string[] : undefined,
             syncStatus: row.sync_status as 'synced' | 'pending' | 'failed',
             filePath: row.file_path ?? undefined,
             blobUrl: row.blob_url ?? undefined,
-            recordedAt: row.recorded_at
+            signalIntegrity: row.gap_count !== null
+                ? {
+                    gapCount: row.gap_count,
+                    missingSamples: row.missing_samples ?? 0,
+                    longestGapMs: row.longest_gap_ms ?? 0,
+                    duplicatePackets: row.duplicate_packets ?? 0,
+                }
+                : undefined,
+            recordedAt: row.recorded_at,
+            syncedAt: row.synced_at ?? undefined,
+            purgedAt: row.purged_at ?? undefined,
         };
     }
 }
@@ -0,0 +1,86 @@
+/**
+ * Recording Upload Repository
+ *
+ * Persists the progress of resumable recording uploads, so an interrupted
+ * upload picks up from the last acknowledged offset after a failed cycle or
+ * an app restart.
+ */
+
+import { RecordingUpload } from '@iris/domain';
+import { databaseManager } from '../database';
+
+interface RecordingUploadRow {
+    recording_id: string;
+    upload_id: string;
+    sha256: string;
+    size_bytes: number;
+    chunk_size_bytes: number;
+    acknowledged_bytes: number;
+    updated_at: string;
+}
+
+export class RecordingUploadRepository {
+    /**
+     * Get the upload in progress for a recording, if any.
+     */
+    async get(recordingId: string): Promise<RecordingUpload | null> {
+        const db = databaseManager.getDatabase();
+        const row = await db.getFirstAsync<RecordingUploadRow>(
+            'SELECT * FROM recording_uploads WHERE recording_id = ?',
+            recordingId
+        );
+        return row ? this.mapRow(row) : null;
+    }
+
+    /**
+     * Create or replace the upload for a recording.
+     */
+    async save(upload: RecordingUpload): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync(
+            `INSERT OR REPLACE INTO recording_uploads
+             (recording_id, upload_id, sha256, size_bytes, chunk_size_bytes, acknowledged_bytes, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            upload.recordingId,
+            upload.uploadId,
+            upload.sha256,
+            upload.sizeBytes,
+            upload.chunkSizeBytes,
+            upload.acknowledgedBytes,
+            upload.updatedAt
+        );
+    }
+
+    /**
+     * Record the offset the backend acknowledged.
+     */
+    async updateAcknowledged(recordingId: string, acknowledgedBytes: number): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync(
+            'UPDATE recording_uploads SET acknowledged_bytes = ?, updated_at = ? WHERE recording_id = ?',
+            acknowledgedBytes,
+            new Date().toISOString(),
+            recordingId
+        );
+    }
+
+    /**
+     * Drop the upload for a recording (verified, or to start over).
+     */
+    async remove(recordingId: string): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync('DELETE FROM recording_uploads WHERE recording_id = ?', recordingId);
+    }
+
+    private mapRow(row: RecordingUploadRow): RecordingUpload {
+        return {
+            recordingId: row.recording_id,
+            uploadId: row.upload_id,
+            sha256: row.sha256,
+            sizeBytes: row.size_bytes,
+            chunkSizeBytes: row.chunk_size_bytes,
+            acknowledgedBytes: row.acknowledged_bytes,
+            updatedAt: row.updated_at,
+        };
+    }
+}
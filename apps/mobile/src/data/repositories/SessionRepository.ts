@@ -7,6 +7,7 @@
 import { ClinicalSession, ClinicalData, SessionConfig, Laterality } from '@iris/domain';
 import { databaseManager } from '../database';
 import { generateUUID } from '../../utils/uuid';
+import { auditLogRepository } from './AuditLogRepository';
 
 /**
  * Database row types (snake_case from SQLite)
@@ -24,6 +25,10 @@ interface SessionRow {
     duration_seconds: number;
     sync_status: string;
     created_at: string;
+    updated_at: string | null;
+    remote_updated_at: string | null;
+    synced_at: string | null;
+    purged_at: string | null;
 }
 
 interface ClinicalDataRow {
@@ -110,6 +115,45 @@ export class SessionRepository {
         return rows.map(row => this.mapRowToSession(row));
     }
 
+    /**
+     * Get synced sessions that still hold volunteer details and have nothing
+     * left to sync: every recording synced and no open conflict.
+     */
+    async getRetained(): Promise<ClinicalSession[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<SessionRow>(
+            `SELECT s.* FROM clinical_sessions s
+             WHERE s.sync_status = 'synced' AND s.ended_at IS NOT NULL
+               AND s.volunteer_name IS NOT NULL AND s.purged_at IS NULL
+               AND NOT EXISTS (SELECT 1 FROM recordings r
+                               WHERE r.session_id = s.id AND r.sync_status != 'synced')
+               AND NOT EXISTS (SELECT 1 FROM sync_conflicts c
+                               WHERE c.session_id = s.id AND c.resolved_at IS NULL)
+             ORDER BY s.synced_at ASC`
+        );
+        return rows.map(row => this.mapRowToSession(row));
+    }
+
+    /**
+     * Record that retention cleared the volunteer name. Bookkeeping only:
+     * the session is not marked as locally edited.
+     */
+    async markDetailsPurged(id: string, purgedAt: string): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync(
+            'UPDATE clinical_sessions SET volunteer_name = NULL, purged_at = ? WHERE id = ?',
+            purgedAt,
+            id
+        );
+
+        await auditLogRepository.record({
+            action: 'session_details_purged',
+            sessionId: id,
+            entityType: 'session',
+            entityId: id,
+        });
+    }
+
     /**
      * Get active session (not ended).
      */
@@ -139,8 +183,8 @@ export class SessionRepository {
             // Insert session
             await db.runAsync(
                 `INSERT INTO clinical_sessions
-                 (id, volunteer_id, volunteer_name, researcher_id, device_id, research_id, research_title, started_at, duration_seconds, sync_status, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 'pending', ?)`,
+                 (id, volunteer_id, volunteer_name, researcher_id, device_id, research_id, research_title, started_at, duration_seconds, sync_status, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 'pending', ?, ?)`,
                 sessionId,
                 config.volunteerId,
                 config.volunteerName,
@@ -149,6 +193,7 @@ export class SessionRepository {
                 config.researchId ?? null,
                 config.researchTitle ?? null,
                 now,
+                now,
                 now
             );
 
@@ -188,6 +233,10 @@ export class SessionRepository {
 
     /**
      * Update session.
+     *
+     * Any change other than sync bookkeeping (syncStatus, remoteUpdatedAt)
+     * is a local edit: it stamps updated_at and, unless a syncStatus is
+     * given, puts the session back in the sync queue.
      */
     async update(id: string, data: Partial<ClinicalSession>): Promise<void> {
         const db = databaseManager.getDatabase();
@@ -203,6 +252,10 @@ export class SessionRepository {
             fields.push('device_id = ?');
             values.push(data.deviceId ?? null);
         }
+        if (data.startedAt !== undefined) {
+            fields.push('started_at = ?');
+            values.push(data.startedAt);
+        }
         if (data.endedAt !== undefined) {
             fields.push('ended_at = ?');
             values.push(data.endedAt ?? null);
@@ -211,10 +264,6 @@ export class SessionRepository {
             fields.push('duration_seconds = ?');
             values.push(data.durationSeconds);
         }
-        if (data.syncStatus !== undefined) {
-            fields.push('sync_status = ?');
-            values.push(data.syncStatus);
-        }
         if (data.researchId !== undefined) {
             fields.push('research_id = ?');
             values.push(data.researchId ?? null);
@@ -224,6 +273,26 @@ export class SessionRepository {
             values.push(data.researchTitle ?? null);
         }
 
+        if (fields.length > 0) {
+            fields.push('updated_at = ?');
+            values.push(new Date().toISOString());
+            if (data.syncStatus === undefined) {
+                fields.push("sync_status = 'pending'");
+            }
+        }
+        if (data.syncStatus !== undefined) {
+            fields.push('sync_status = ?');
+            values.push(data.syncStatus);
+            if (data.syncStatus === 'synced') {
+                fields.push('synced_at = ?');
+                values.push(new Date().toISOString());
+            }
+        }
+        if (data.remoteUpdatedAt !== undefined) {
+            fields.push('remote_updated_at = ?');
+            values.push(data.remoteUpdatedAt);
+        }
+
         if (fields.length === 0) {
             return;
         }
@@ -241,7 +310,18 @@ export class SessionRepository {
      */
     async delete(id: string): Promise<void> {
         const db = databaseManager.getDatabase();
+        const session = await this.getById(id);
         await db.runAsync('DELETE FROM clinical_sessions WHERE id = ?', id);
+
+        if (session) {
+            await auditLogRepository.record({
+                action: 'session_deleted',
+                sessionId: id,
+                entityType: 'session',
+                entityId: id,
+                details: { volunteerId: session.volunteerId, startedAt: session.startedAt, syncStatus: session.syncStatus },
+            });
+        }
     }
 
     /**
@@ -289,7 +369,11 @@ export class SessionRepository {
             endedAt: row.ended_at ?? undefined,
             durationSeconds: row.duration_seconds,
             syncStatus: row.sync_status as 'synced' | 'pending' | 'failed',
-            createdAt: row.created_at
+            createdAt: row.created_at,
+            updatedAt: row.updated_at ?? undefined,
+            remoteUpdatedAt: row.remote_updated_at ?? undefined,
+            syncedAt: row.synced_at ?? undefined,
+            purgedAt: row.purged_at ?? undefined,
         };
     }
 
@@ -0,0 +1,118 @@
+/**
+ * Sync Conflict Repository
+ *
+ * Persists conflicts between local edits and changes on the Research Node,
+ * with both copies of the conflicting fields, until a researcher resolves
+ * them. Resolved conflicts are kept as a record of the decision.
+ */
+
+import {
+    NewSyncConflictData,
+    SyncConflict,
+    SyncConflictEntityType,
+    SyncConflictResolution,
+    SyncConflictValues,
+} from '@iris/domain';
+import { databaseManager } from '../database';
+import { generateUUID } from '../../utils/uuid';
+
+interface SyncConflictRow {
+    id: string;
+    entity_type: string;
+    entity_id: string;
+    session_id: string;
+    local_values: string;
+    remote_values: string;
+    remote_updated_at: string;
+    detected_at: string;
+    resolution: string | null;
+    resolved_at: string | null;
+}
+
+export class SyncConflictRepository {
+    /**
+     * Get conflict by ID.
+     */
+    async getById(id: string): Promise<SyncConflict | null> {
+        const db = databaseManager.getDatabase();
+        const row = await db.getFirstAsync<SyncConflictRow>(
+            'SELECT * FROM sync_conflicts WHERE id = ?',
+            id
+        );
+        return row ? this.mapRow(row) : null;
+    }
+
+    /**
+     * Get unresolved conflicts, oldest first.
+     */
+    async getOpen(): Promise<SyncConflict[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<SyncConflictRow>(
+            'SELECT * FROM sync_conflicts WHERE resolved_at IS NULL ORDER BY detected_at ASC'
+        );
+        return rows.map(row => this.mapRow(row));
+    }
+
+    /**
+     * Record a conflict. An entity has at most one open conflict; a newer
+     * detection replaces the copies stored on it.
+     */
+    async upsertOpen(data: NewSyncConflictData): Promise<SyncConflict> {
+        const db = databaseManager.getDatabase();
+        const existing = await db.getFirstAsync<SyncConflictRow>(
+            'SELECT * FROM sync_conflicts WHERE entity_type = ? AND entity_id = ? AND resolved_at IS NULL',
+            data.entityType,
+            data.entityId
+        );
+        const id = existing?.id ?? generateUUID();
+
+        await db.runAsync(
+            `INSERT OR REPLACE INTO sync_conflicts
+             (id, entity_type, entity_id, session_id, local_values, remote_values,
+              remote_updated_at, detected_at, resolution, resolved_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL)`,
+            id,
+            data.entityType,
+            data.entityId,
+            data.sessionId,
+            JSON.stringify(data.localValues),
+            JSON.stringify(data.remoteValues),
+            data.remoteUpdatedAt,
+            existing?.detected_at ?? new Date().toISOString()
+        );
+
+        const conflict = await this.getById(id);
+        if (!conflict) {
+            throw new Error('Failed to retrieve recorded conflict');
+        }
+        return conflict;
+    }
+
+    /**
+     * Mark a conflict resolved.
+     */
+    async resolve(id: string, resolution: SyncConflictResolution): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync(
+            'UPDATE sync_conflicts SET resolution = ?, resolved_at = ? WHERE id = ?',
+            resolution,
+            new Date().toISOString(),
+            id
+        );
+    }
+
+    private mapRow(row: SyncConflictRow): SyncConflict {
+        return {
+            id: row.id,
+            entityType: row.entity_type as SyncConflictEntityType,
+            entityId: row.entity_id,
+            sessionId: row.session_id,
+            localValues: JSON.parse(row.local_values) as SyncConflictValues,
+            remoteValues: JSON.parse(row.remote_values) as SyncConflictValues,
+            remoteUpdatedAt: row.remote_updated_at,
+            detectedAt: row.detected_at,
+            resolution: row.resolution as SyncConflictResolution | null,
+            resolvedAt: row.resolved_at,
+        };
+    }
+}
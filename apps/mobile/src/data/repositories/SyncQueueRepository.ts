@@ -0,0 +1,95 @@
+/**
+ * Sync Queue Repository
+ *
+ * Persists retry state for entities that failed to sync, so backoff and
+ * error reasons survive app restarts.
+ */
+
+import { SyncEntityType, SyncQueueItem } from '@iris/domain';
+import { databaseManager } from '../database';
+
+interface SyncQueueRow {
+    entity_type: string;
+    entity_id: string;
+    retry_count: number;
+    last_attempt_at: string | null;
+    next_attempt_at: string | null;
+    error_reason: string | null;
+}
+
+export class SyncQueueRepository {
+    /**
+     * Get the queue entry for an entity, if it has failed before.
+     */
+    async get(entityType: SyncEntityType, entityId: string): Promise<SyncQueueItem | null> {
+        const db = databaseManager.getDatabase();
+        const row = await db.getFirstAsync<SyncQueueRow>(
+            'SELECT * FROM sync_queue WHERE entity_type = ? AND entity_id = ?',
+            entityType,
+            entityId
+        );
+        return row ? this.mapRow(row) : null;
+    }
+
+    /**
+     * Get all queue entries, most recently attempted first.
+     */
+    async getAll(): Promise<SyncQueueItem[]> {
+        const db = databaseManager.getDatabase();
+        const rows = await db.getAllAsync<SyncQueueRow>(
+            'SELECT * FROM sync_queue ORDER BY last_attempt_at DESC'
+        );
+        return rows.map(row => this.mapRow(row));
+    }
+
+    /**
+     * Create or replace the entry for an entity.
+     */
+    async upsert(item: SyncQueueItem): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync(
+            `INSERT OR REPLACE INTO sync_queue
+             (entity_type, entity_id, retry_count, last_attempt_at, next_attempt_at, error_reason)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            item.entityType,
+            item.entityId,
+            item.retryCount,
+            item.lastAttempt,
+            item.nextAttemptAt,
+            item.errorReason
+        );
+    }
+
+    /**
+     * Drop the entry for an entity (after it synced).
+     */
+    async remove(entityType: SyncEntityType, entityId: string): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync(
+            'DELETE FROM sync_queue WHERE entity_type = ? AND entity_id = ?',
+            entityType,
+            entityId
+        );
+    }
+
+    /**
+     * Drop the entry for an entity of any type (manual retry).
+     */
+    async removeEntity(entityId: string): Promise<void> {
+        const db = databaseManager.getDatabase();
+        await db.runAsync('DELETE FROM sync_queue WHERE entity_id = ?', entityId);
+    }
+
+    private mapRow(row: SyncQueueRow): SyncQueueItem {
+        return {
+            entityType: row.entity_type as SyncEntityType,
+            entityId: row.entity_id,
+            retryCount: row.retry_count,
+            lastAttempt: row.last_attempt_at,
+            nextAttemptAt: row.next_attempt_at,
+            errorReason: row.error_reason,
+        };
+    }
+}
+
+export const syncQueueRepository = new SyncQueueRepository();
@@ -8,3 +8,13 @@ export { SessionRepository } from './SessionRepository';
 export { RecordingRepository } from './RecordingRepository';
 export { AnnotationRepository } from './AnnotationRepository';
 export { FavoriteRepository, favoriteRepository } from './FavoriteRepository';
+export { SyncQueueRepository, syncQueueRepository } from './SyncQueueRepository';
+export { RecordingUploadRepository } from './RecordingUploadRepository';
+export { SyncConflictRepository } from './SyncConflictRepository';
+export { AuditLogRepository, auditLogRepository } from './AuditLogRepository';
+export {
+    FesEnvelopeRepository,
+    StimulationLogRepository,
+    fesEnvelopeRepository,
+    stimulationLogRepository,
+} from './FesSafetyRepository';
@@ -0,0 +1,145 @@
+/**
+ * Schema Verification Tests
+ *
+ * A database migrated by this build verifies; drift such as a partially
+ * applied v3_relax_laterality_constraint, an edited schema or a database
+ * from a newer build is reported issue by issue.
+ *
+ * Run with: npx vitest run src/data
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MIGRATIONS } from './migrations';
+import {
+    EXPECTED_SCHEMA,
+    migrationChecksum,
+    schemaChecksum,
+    verifySchema,
+} from './schemaVerification';
+import type { SchemaObjectRow, SchemaSnapshot } from './schemaVerification';
+
+function tableSql(table: string, columns: string[]): string {
+    return `CREATE TABLE ${table} (${columns.map(column => `${column} TEXT`).join(', ')})`;
+}
+
+function makeSnapshot(): SchemaSnapshot {
+    const objects: SchemaObjectRow[] = [
+        ...Object.entries(EXPECTED_SCHEMA).map(([name, table]) => ({
+            type: 'table',
+            name,
+            sql: tableSql(name, table.columns),
+        })),
+        { type: 'index', name: 'idx_sessions_sync', sql: 'CREATE INDEX idx_sessions_sync ON clinical_sessions(sync_status)' },
+        { type: 'table', name: 'migrations', sql: 'CREATE TABLE migrations (version INTEGER PRIMARY KEY)' },
+        { type: 'table', name: 'schema_checksums', sql: 'CREATE TABLE schema_checksums (version INTEGER PRIMARY KEY)' },
+    ];
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+    return {
+        applied: MIGRATIONS.map(({ version, name }) => ({ version, name })),
+        checksums: MIGRATIONS.map(migration => ({
+            version: migration.version,
+            migration_checksum: migrationChecksum(migration),
+            schema_checksum: migration.version === latest ? schemaChecksum(objects) : null,
+        })),
+        objects,
+        columns: Object.fromEntries(
+            Object.entries(EXPECTED_SCHEMA).map(([name, table]) => [
+                name,
+                table.columns.map(column => ({ name: column, notnull: 0 })),
+            ])
+        ),
+    };
+}
+
+describe('schemaChecksum', () => {
+    it('should ignore whitespace, order and bookkeeping tables', () => {
+        const objects = makeSnapshot().objects;
+        const reformatted = [...objects]
+            .reverse()
+            .filter(object => object.name !== 'schema_checksums')
+            .map(object => ({ ...object, sql: object.sql && `\n    ${object.sql.replace(/ /g, '  ')}\n` }));
+
+        expect(schemaChecksum(reformatted)).toBe(schemaChecksum(objects));
+    });
+
+    it('should change when a definition changes', () => {
+        const objects = makeSnapshot().objects;
+        const edited = objects.map(object =>
+            object.name === 'idx_sessions_sync' ? { ...object, sql: 'CREATE INDEX idx_sessions_sync ON clinical_sessions(id)' } : object
+        );
+
+        expect(schemaChecksum(edited)).not.toBe(schemaChecksum(objects));
+    });
+});
+
+describe('verifySchema', () => {
+    it('should pass a database migrated by this build', () => {
+        const result = verifySchema(makeSnapshot());
+
+        expect(result.issues).toEqual([]);
+        expect(result.ok).toBe(true);
+        expect(result.version).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+    });
+
+    it('should report a partially applied v3_relax_laterality_constraint', () => {
+        const snapshot = makeSnapshot();
+        snapshot.objects.push({ type: 'table', name: 'clinical_data_new', sql: tableSql('clinical_data_new', ['id']) });
+        snapshot.columns.clinical_data = snapshot.columns.clinical_data.map(column =>
+            column.name === 'laterality' ? { ...column, notnull: 1 } : column
+        );
+
+        const result = verifySchema(snapshot);
+
+        expect(result.ok).toBe(false);
+        expect(result.issues.map(issue => [issue.kind, issue.table])).toEqual([
+            ['schema_drift', undefined],
+            ['not_null_column', 'clinical_data'],
+            ['unexpected_table', 'clinical_data_new'],
+        ]);
+    });
+
+    it('should report missing tables and columns', () => {
+        const snapshot = makeSnapshot();
+        snapshot.objects = snapshot.objects.filter(object => object.name !== 'audit_log');
+        snapshot.columns.recordings = snapshot.columns.recordings.filter(column => column.name !== 'synced_at');
+        snapshot.checksums = snapshot.checksums.map(row => ({ ...row, schema_checksum: null }));
+
+        expect(verifySchema(snapshot).issues).toEqual([
+            { kind: 'missing_column', table: 'recordings', message: 'Column recordings.synced_at is missing' },
+            { kind: 'missing_table', table: 'audit_log', message: 'Table audit_log is missing' },
+        ]);
+    });
+
+    it('should report a migration edited after it was applied', () => {
+        const snapshot = makeSnapshot();
+        snapshot.checksums[2] = { ...snapshot.checksums[2], migration_checksum: migrationChecksum({ sql: 'SELECT 1' }) };
+
+        expect(verifySchema(snapshot).issues).toMatchObject([{ kind: 'migration_changed', version: 3 }]);
+    });
+
+    it('should report pending migrations and migrations from a newer build', () => {
+        const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+        const snapshot = makeSnapshot();
+        snapshot.applied = snapshot.applied.filter(row => row.version !== latest);
+        snapshot.applied.push({ version: latest + 1, name: 'from_the_future' });
+
+        expect(verifySchema(snapshot).issues.map(issue => [issue.kind, issue.version])).toEqual([
+            ['unknown_migration', latest + 1],
+            ['pending_migration', latest],
+        ]);
+    });
+});
+
+describe('MIGRATIONS', () => {
+    it('should have consecutive versions', () => {
+        expect(MIGRATIONS.map(migration => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+    });
+
+    it('should have down scripts for a contiguous run of the newest migrations', () => {
+        const firstReversible = MIGRATIONS.findIndex(migration => migration.down !== undefined);
+
+        expect(firstReversible).toBeGreaterThan(0);
+        expect(MIGRATIONS.slice(firstReversible).every(migration => migration.down)).toBe(true);
+    });
+});
@@ -0,0 +1,276 @@
+/**
+ * Schema Verification
+ *
+ * Checks an opened database against the schema this build expects, so
+ * drift is reported at startup instead of surfacing later as a failing
+ * query in a repository. Drift means any of:
+ * - migrations that are not applied, or applied by a newer build
+ * - a migration whose SQL changed after it was applied
+ * - a schema that no longer matches the checksum recorded by the last
+ *   migration (edited by hand, or a migration applied only in part)
+ * - missing tables or columns, NOT NULL where a migration relaxed it, or
+ *   tables no migration creates (e.g. clinical_data_new left by an
+ *   interrupted v3_relax_laterality_constraint)
+ *
+ * Pure functions over rows read from sqlite_master and PRAGMA table_info;
+ * DatabaseManager does the reading.
+ */
+
+import { createHash } from 'crypto';
+import { MIGRATIONS } from './migrations';
+import type { Migration } from './migrations';
+
+/**
+ * Tables kept by DatabaseManager itself rather than by migrations.
+ */
+export const INTERNAL_TABLES = ['migrations', 'schema_checksums'];
+
+interface ExpectedTable {
+    columns: string[];
+    // Columns that must accept NULL
+    nullable?: string[];
+}
+
+/**
+ * Tables and columns after every migration in MIGRATIONS. Update together
+ * with each new migration.
+ */
+export const EXPECTED_SCHEMA: Record<string, ExpectedTable> = {
+    clinical_sessions: {
+        columns: [
+            'id', 'volunteer_id', 'volunteer_name', 'researcher_id', 'device_id', 'started_at', 'ended_at',
+            'duration_seconds', 'sync_status', 'created_at', 'research_id', 'research_title', 'updated_at',
+            'remote_updated_at', 'synced_at', 'purged_at',
+        ],
+        nullable: ['volunteer_name'],
+    },
+    clinical_data: {
+        columns: [
+            'id', 'session_id', 'body_structure_snomed_code', 'body_structure_name', 'laterality',
+            'topography_codes', 'topography_names', 'sensor_ids', 'sensor_names',
+        ],
+        nullable: ['laterality'],
+    },
+    recordings: {
+        columns: [
+            'id', 'session_id', 'filename', 'duration_seconds', 'sample_count', 'data_type', 'sample_rate',
+            'sync_status', 'file_path', 'recorded_at', 'blob_url', 'gap_count', 'missing_samples',
+            'longest_gap_ms', 'duplicate_packets', 'synced_at', 'purged_at', 'channel_count', 'channel_sensor_ids',
+        ],
+        nullable: ['file_path', 'blob_url'],
+    },
+    annotations: {
+        columns: [
+            'id', 'session_id', 'text', 'sync_status', 'created_at', 'recording_id', 'start_offset_ms',
+            'end_offset_ms', 'category', 'updated_at', 'remote_updated_at',
+        ],
+        nullable: ['recording_id'],
+    },
+    session_favorites: {
+        columns: [
+            'id', 'name', 'body_structure_snomed_code', 'body_structure_name', 'topography_codes',
+            'topography_names', 'topography_categories', 'device_id', 'laterality', 'research_id',
+            'research_title', 'created_at', 'updated_at', 'sensor_ids', 'sensor_names',
+        ],
+    },
+    fes_safety_envelopes: {
+        columns: [
+            'id', 'scope', 'scope_id', 'amplitude_min', 'amplitude_max', 'frequency_min', 'frequency_max',
+            'pulse_width_min', 'pulse_width_max', 'duration_min', 'duration_max', 'updated_at',
+        ],
+    },
+    stimulation_log: {
+        columns: [
+            'id', 'command', 'outcome', 'parameters', 'reason', 'detail', 'researcher_id', 'volunteer_id',
+            'research_id', 'session_id', 'device_address', 'created_at',
+        ],
+    },
+    sync_queue: {
+        columns: ['entity_type', 'entity_id', 'retry_count', 'last_attempt_at', 'next_attempt_at', 'error_reason'],
+        nullable: ['next_attempt_at'],
+    },
+    recording_uploads: {
+        columns: [
+            'recording_id', 'upload_id', 'sha256', 'size_bytes', 'chunk_size_bytes', 'acknowledged_bytes',
+            'updated_at',
+        ],
+    },
+    sync_conflicts: {
+        columns: [
+            'id', 'entity_type', 'entity_id', 'session_id', 'local_values', 'remote_values',
+            'remote_updated_at', 'detected_at', 'resolution', 'resolved_at',
+        ],
+        nullable: ['resolution', 'resolved_at'],
+    },
+    audit_log: {
+        columns: [
+            'id', 'sequence', 'action', 'actor_id', 'session_id', 'entity_type', 'entity_id', 'details',
+            'created_at', 'previous_hash', 'hash', 'sync_status',
+        ],
+    },
+};
+
+export interface SchemaObjectRow {
+    type: string;
+    name: string;
+    sql: string | null;
+}
+
+export interface TableInfoRow {
+    name: string;
+    notnull: number;
+}
+
+export interface SchemaChecksumRow {
+    version: number;
+    migration_checksum: string;
+    schema_checksum: string | null;
+}
+
+/**
+ * What verifySchema() reads from the database.
+ */
+export interface SchemaSnapshot {
+    applied: Array<{ version: number; name: string }>;
+    checksums: SchemaChecksumRow[];
+    objects: SchemaObjectRow[];
+    columns: Record<string, TableInfoRow[]>;
+}
+
+export type SchemaIssueKind =
+    | 'pending_migration'
+    | 'unknown_migration'
+    | 'migration_changed'
+    | 'schema_drift'
+    | 'missing_table'
+    | 'missing_column'
+    | 'not_null_column'
+    | 'unexpected_table';
+
+export interface SchemaIssue {
+    kind: SchemaIssueKind;
+    message: string;
+    table?: string;
+    version?: number;
+}
+
+export interface SchemaVerification {
+    ok: boolean;
+    // Highest applied migration
+    version: number;
+    schemaChecksum: string;
+    issues: SchemaIssue[];
+}
+
+function sha256(text: string): string {
+    return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+function normalizeSql(sql: string): string {
+    return sql.replace(/\s+/g, ' ').trim();
+}
+
+function isInternal(name: string): boolean {
+    return name.startsWith('sqlite_') || INTERNAL_TABLES.includes(name);
+}
+
+/**
+ * Checksum of a migration's SQL. Whitespace changes don't count.
+ */
+export function migrationChecksum(migration: Pick<Migration, 'sql'>): string {
+    return sha256(normalizeSql(migration.sql));
+}
+
+/**
+ * Checksum of every table, index and trigger definition in sqlite_master,
+ * apart from SQLite's own and DatabaseManager's bookkeeping tables.
+ */
+export function schemaChecksum(objects: SchemaObjectRow[]): string {
+    const definitions = objects
+        .filter(object => !isInternal(object.name))
+        .map(object => `${object.type} ${object.name} ${normalizeSql(object.sql ?? '')}`)
+        .sort();
+    return sha256(definitions.join('\n'));
+}
+
+export function verifySchema(
+    snapshot: SchemaSnapshot,
+    migrations: Migration[] = MIGRATIONS,
+    expected: Record<string, ExpectedTable> = EXPECTED_SCHEMA
+): SchemaVerification {
+    const issues: SchemaIssue[] = [];
+    const known = new Map(migrations.map(migration => [migration.version, migration]));
+    const appliedVersions = new Set(snapshot.applied.map(row => row.version));
+    const version = Math.max(0, ...appliedVersions);
+    const currentChecksum = schemaChecksum(snapshot.objects);
+
+    for (const row of snapshot.applied) {
+        if (!known.has(row.version)) {
+            issues.push({
+                kind: 'unknown_migration',
+                version: row.version,
+                message: `Migration ${row.name} (v${row.version}) was applied by a newer version of the app`,
+            });
+        }
+    }
+    for (const migration of migrations) {
+        if (!appliedVersions.has(migration.version)) {
+            issues.push({
+                kind: 'pending_migration',
+                version: migration.version,
+                message: `Migration ${migration.name} has not been applied`,
+            });
+        }
+    }
+
+    for (const row of snapshot.checksums) {
+        const migration = known.get(row.version);
+        if (migration && row.migration_checksum !== migrationChecksum(migration)) {
+            issues.push({
+                kind: 'migration_changed',
+                version: row.version,
+                message: `Migration ${migration.name} changed after it was applied`,
+            });
+        }
+    }
+
+    const latest = snapshot.checksums.find(row => row.version === version);
+    if (latest?.schema_checksum && latest.schema_checksum !== currentChecksum) {
+        issues.push({
+            kind: 'schema_drift',
+            version,
+            message: `Schema differs from the one recorded after migration v${version}`,
+        });
+    }
+
+    const tables = new Set(snapshot.objects.filter(object => object.type === 'table').map(object => object.name));
+    for (const [table, definition] of Object.entries(expected)) {
+        if (!tables.has(table)) {
+            issues.push({ kind: 'missing_table', table, message: `Table ${table} is missing` });
+            continue;
+        }
+
+        const columns = new Map((snapshot.columns[table] ?? []).map(column => [column.name, column]));
+        for (const name of definition.columns) {
+            if (!columns.has(name)) {
+                issues.push({ kind: 'missing_column', table, message: `Column ${table}.${name} is missing` });
+            }
+        }
+        for (const name of definition.nullable ?? []) {
+            if (columns.get(name)?.notnull) {
+                issues.push({ kind: 'not_null_column', table, message: `Column ${table}.${name} must allow NULL` });
+            }
+        }
+    }
+    for (const table of tables) {
+        if (!isInternal(table) && !(table in expected)) {
+            issues.push({
+                kind: 'unexpected_table',
+                table,
+                message: `Table ${table} is not created by any migration (left by an interrupted migration?)`,
+            });
+        }
+    }
+
+    return { ok: issues.length === 0, version, schemaChecksum: currentChecksum, issues };
+}
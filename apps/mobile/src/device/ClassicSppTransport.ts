@@ -0,0 +1,122 @@
+/**
+ * Classic SPP Transport
+ *
+ * DeviceTransport implementation over Bluetooth Classic (Serial Port Profile)
+ * using react-native-bluetooth-classic. The connection is opened in `binary`
+ * mode, so the native layer delivers every read as Base64 — this adapter
+ * decodes it back to bytes before handing it to listeners.
+ */
+
+import RNBluetoothClassic, { BluetoothDevice, BluetoothEventSubscription } from 'react-native-bluetooth-classic';
+import { toByteArray } from 'react-native-quick-base64';
+import type {
+    DeviceTransport,
+    TransportDevice,
+    TransportSubscription,
+    TransportDataListener,
+    TransportDisconnectListener,
+} from './DeviceTransport';
+
+export class ClassicSppTransport implements DeviceTransport {
+    readonly kind = 'classic-spp' as const;
+
+    private device: BluetoothDevice | null = null;
+    private dataSubscription: BluetoothEventSubscription | null = null;
+    private disconnectSubscription: BluetoothEventSubscription | null = null;
+    private readonly dataListeners = new Set<TransportDataListener>();
+    private readonly disconnectListeners = new Set<TransportDisconnectListener>();
+
+    async requestEnabled(): Promise<boolean> {
+        return RNBluetoothClassic.requestBluetoothEnabled();
+    }
+
+    async listDevices(): Promise<TransportDevice[]> {
+        const bonded = await RNBluetoothClassic.getBondedDevices();
+        return bonded.map(device => ({ name: device.name, address: device.address }));
+    }
+
+    async isConnected(address: string): Promise<boolean> {
+        return RNBluetoothClassic.isDeviceConnected(address);
+    }
+
+    async connect(address: string): Promise<TransportDevice> {
+        const connected = await RNBluetoothClassic.connectToDevice(address, {
+            secureSocket: false,
+            connectionType: 'binary'
+        });
+
+        this.releaseNativeSubscriptions();
+        this.device = connected;
+
+        this.dataSubscription = connected.onDataReceived((event) => {
+            let bytes: Uint8Array;
+            try {
+                bytes = decodeBase64Chunk(event.data);
+            } catch (error) {
+                console.warn('[ClassicSppTransport] Failed to decode Base64 chunk:', error);
+                return;
+            }
+            if (bytes.length === 0) return;
+            this.dataListeners.forEach(listener => listener(bytes));
+        });
+
+        this.disconnectSubscription = RNBluetoothClassic.onDeviceDisconnected((event: any) => {
+            if (this.device && event.address === this.device.address) {
+                const lostAddress = this.device.address;
+                this.releaseNativeSubscriptions();
+                this.device = null;
+                this.disconnectListeners.forEach(listener => listener(lostAddress));
+            }
+        });
+
+        return { name: connected.name, address: connected.address };
+    }
+
+    async disconnect(): Promise<void> {
+        const device = this.device;
+        this.releaseNativeSubscriptions();
+        this.device = null;
+
+        if (device && await RNBluetoothClassic.isDeviceConnected(device.address)) {
+            await RNBluetoothClassic.disconnectFromDevice(device.address);
+        }
+    }
+
+    async write(data: string): Promise<void> {
+        if (!this.device) {
+            throw new Error('ClassicSppTransport: no device connected');
+        }
+        await RNBluetoothClassic.writeToDevice(this.device.address, data);
+    }
+
+    onData(listener: TransportDataListener): TransportSubscription {
+        this.dataListeners.add(listener);
+        return { remove: () => { this.dataListeners.delete(listener); } };
+    }
+
+    onDisconnect(listener: TransportDisconnectListener): TransportSubscription {
+        this.disconnectListeners.add(listener);
+        return { remove: () => { this.disconnectListeners.delete(listener); } };
+    }
+
+    openSettings(): void {
+        RNBluetoothClassic.openBluetoothSettings();
+    }
+
+    private releaseNativeSubscriptions(): void {
+        this.dataSubscription?.remove();
+        this.dataSubscription = null;
+        this.disconnectSubscription?.remove();
+        this.disconnectSubscription = null;
+    }
+}
+
+/**
+ * Decode one Base64 read from the native layer. The native side may insert
+ * line breaks (RFC 2045) and the serial stream may carry null terminators.
+ */
+function decodeBase64Chunk(message: string): Uint8Array {
+    const sanitized = message.replace(/[\s\0]/g, '');
+    if (sanitized.length === 0) return new Uint8Array(0);
+    return toByteArray(sanitized);
+}
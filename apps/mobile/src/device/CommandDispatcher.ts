@@ -0,0 +1,148 @@
+/**
+ * Command Dispatcher
+ *
+ * Correlates outgoing device commands with their ACKs. The firmware protocol
+ * carries no request IDs, so a command is matched to the first ACK with the
+ * same function code; commands sharing a code are answered in FIFO order.
+ *
+ * Each command is retried on timeout (re-writing the same frame) before the
+ * returned promise rejects with an Error whose `code` is 'timeout'. Only
+ * idempotent commands (reads, stream configuration) should be retried: the
+ * firmware commands are not idempotent, and a timeout does not tell a lost
+ * command from a lost ACK. DeviceProtocolClient sends session, FES and
+ * stimulation commands with `retries: 0`.
+ */
+
+import {
+    BluetoothProtocolFunction,
+    BluetoothProtocolMethod,
+    BluetoothProtocolPayload,
+    encodeBluetoothMessage,
+} from '@iris/domain';
+
+export interface CommandOptions {
+    /** Time to wait for the ACK on each attempt (ms). */
+    timeoutMs?: number;
+    /** Additional attempts after the first one times out. */
+    retries?: number;
+}
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 2000;
+export const DEFAULT_COMMAND_RETRIES = 1;
+
+export type CommandWriter = (frame: string) => Promise<void>;
+
+interface PendingCommand {
+    code: BluetoothProtocolFunction;
+    timer: ReturnType<typeof setTimeout>;
+    resolve: (ack: BluetoothProtocolPayload) => void;
+    reject: (error: Error) => void;
+}
+
+export class CommandDispatcher {
+    private pending: PendingCommand[] = [];
+
+    constructor(private readonly write: CommandWriter) {}
+
+    /**
+     * Write a command and resolve with its ACK.
+     */
+    async request(payload: BluetoothProtocolPayload, options: CommandOptions = {}): Promise<BluetoothProtocolPayload> {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+        const attempts = 1 + (options.retries ?? DEFAULT_COMMAND_RETRIES);
+        const frame = encodeBluetoothMessage(payload);
+        const name = BluetoothProtocolFunction[payload.cd];
+
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            const ack = this.waitForAck(payload.cd, timeoutMs);
+            try {
+                await this.write(frame);
+            } catch (error) {
+                // Nothing was sent, so nothing will be acknowledged.
+                clearTimeout(ack.entry.timer);
+                this.remove(ack.entry);
+                throw error;
+            }
+
+            const result = await ack.promise.then(
+                message => ({ message }),
+                (error: Error) => ({ error })
+            );
+            if ('message' in result) {
+                return result.message;
+            }
+            if ((result.error as Error & { code?: string }).code !== 'timeout') {
+                throw result.error;
+            }
+            if (attempt < attempts) {
+                console.warn(`[CommandDispatcher] ${name} not acknowledged after ${timeoutMs}ms, retrying (${attempt}/${attempts - 1})`);
+            }
+        }
+
+        const error = new Error(`${name} not acknowledged after ${attempts} attempt(s)`) as Error & { code?: string };
+        error.code = 'timeout';
+        throw error;
+    }
+
+    /**
+     * Offer an incoming message to the pending commands.
+     * Returns true when it was the ACK of a pending command.
+     */
+    handleMessage(message: BluetoothProtocolPayload): boolean {
+        if (message.mt !== BluetoothProtocolMethod.ACK) return false;
+
+        const entry = this.pending.find(p => p.code === message.cd);
+        if (!entry) return false;
+
+        this.remove(entry);
+        entry.resolve(message);
+        return true;
+    }
+
+    /** Number of commands still waiting for an ACK. */
+    get pendingCount(): number {
+        return this.pending.length;
+    }
+
+    /**
+     * Reject every pending command, e.g. when the link drops.
+     */
+    cancelAll(reason: string): void {
+        const entries = this.pending;
+        this.pending = [];
+        entries.forEach(entry => {
+            const error = new Error(reason) as Error & { code?: string };
+            error.code = 'cancelled';
+            entry.reject(error);
+        });
+    }
+
+    private waitForAck(code: BluetoothProtocolFunction, timeoutMs: number): {
+        entry: PendingCommand;
+        promise: Promise<BluetoothProtocolPayload>;
+    } {
+        let entry!: PendingCommand;
+        const promise = new Promise<BluetoothProtocolPayload>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.remove(entry);
+                const error = new Error(`${BluetoothProtocolFunction[code]} ACK timed out`) as Error & { code?: string };
+                error.code = 'timeout';
+                reject(error);
+            }, timeoutMs);
+
+            entry = {
+                code,
+                timer,
+                resolve: (ack) => { clearTimeout(timer); resolve(ack); },
+                reject: (error) => { clearTimeout(timer); reject(error); },
+            };
+        });
+
+        this.pending.push(entry);
+        return { entry, promise };
+    }
+
+    private remove(entry: PendingCommand): void {
+        this.pending = this.pending.filter(p => p !== entry);
+    }
+}
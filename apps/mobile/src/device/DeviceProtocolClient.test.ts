@@ -0,0 +1,325 @@
+/**
+ * Device Protocol Client Tests
+ *
+ * Runs the protocol logic over an in-memory DeviceTransport to verify
+ * outgoing command framing and incoming JSON/binary routing without a phone.
+ *
+ * Run with: npx vitest run src/device/DeviceProtocolClient.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    BluetoothProtocolFunction,
+    BluetoothProtocolMethod,
+    BINARY_PACKET_MAGIC,
+    BINARY_PACKET_CODE,
+    BINARY_PACKET_TOTAL_SIZE,
+    BINARY_PACKET_SAMPLES_PER_PACKET,
+} from '@iris/domain';
+import { DeviceProtocolClient } from './DeviceProtocolClient';
+import type {
+    DeviceTransport,
+    TransportDataListener,
+    TransportDisconnectListener,
+} from './DeviceTransport';
+
+class FakeTransport implements DeviceTransport {
+    readonly kind = 'simulated' as const;
+    written: string[] = [];
+    /** Answer every written command with an ACK, like healthy firmware. */
+    autoAck = true;
+    private dataListeners = new Set<TransportDataListener>();
+
+    async requestEnabled() { return true; }
+    async listDevices() { return [{ name: 'NeuroEstimulator', address: '00:11' }]; }
+    async isConnected() { return true; }
+    async connect(address: string) { return { name: 'NeuroEstimulator', address }; }
+    async disconnect() {}
+    async write(data: string) {
+        this.written.push(data);
+        if (this.autoAck) {
+            const { cd } = JSON.parse(data.slice(0, -1));
+            this.receiveJson({ cd, mt: BluetoothProtocolMethod.ACK });
+        }
+    }
+    onData(listener: TransportDataListener) {
+        this.dataListeners.add(listener);
+        return { remove: () => { this.dataListeners.delete(listener); } };
+    }
+    onDisconnect(_listener: TransportDisconnectListener) {
+        return { remove: () => {} };
+    }
+
+    receive(bytes: Uint8Array) {
+        this.dataListeners.forEach(listener => listener(bytes));
+    }
+
+    receiveJson(payload: object) {
+        this.receive(new TextEncoder().encode(JSON.stringify(payload)));
+    }
+
+    get listenerCount() {
+        return this.dataListeners.size;
+    }
+}
+
+function buildBinaryPacket(timestamp: number): Uint8Array {
+    const buf = new Uint8Array(BINARY_PACKET_TOTAL_SIZE);
+    const view = new DataView(buf.buffer);
+    buf[0] = BINARY_PACKET_MAGIC;
+    buf[1] = BINARY_PACKET_CODE;
+    view.setUint32(2, timestamp, true);
+    view.setUint16(6, BINARY_PACKET_SAMPLES_PER_PACKET, true);
+    for (let i = 0; i < BINARY_PACKET_SAMPLES_PER_PACKET; i++) {
+        view.setInt16(8 + i * 2, i - 25, true);
+    }
+    return buf;
+}
+
+describe('DeviceProtocolClient', () => {
+    let transport: FakeTransport;
+
+    beforeEach(() => {
+        transport = new FakeTransport();
+    });
+
+    describe('outgoing commands', () => {
+        it('terminates every JSON command with a null byte', async () => {
+            const client = new DeviceProtocolClient(transport);
+            client.attach();
+            await client.startSession();
+
+            expect(transport.written).toHaveLength(1);
+            expect(transport.written[0].endsWith('\0')).toBe(true);
+            expect(JSON.parse(transport.written[0].slice(0, -1))).toEqual({
+                cd: BluetoothProtocolFunction.StartSession,
+                mt: BluetoothProtocolMethod.EXECUTE,
+            });
+        });
+
+        it('writes FES parameters with the short body keys', async () => {
+            const client = new DeviceProtocolClient(transport);
+            client.attach();
+            await client.sendFesParams({ a: 7, f: 60, pw: 300, df: 5, pd: 2 });
+
+            const payload = JSON.parse(transport.written[0].slice(0, -1));
+            expect(payload.cd).toBe(BluetoothProtocolFunction.FesParam);
+            expect(payload.mt).toBe(BluetoothProtocolMethod.WRITE);
+            expect(payload.bd).toEqual({ a: 7, f: 60, pw: 300, df: 5, pd: 2 });
+        });
+
+        it('sends StopStream before StartStream', async () => {
+            vi.useFakeTimers();
+            const client = new DeviceProtocolClient(transport);
+            const pending = client.startStream();
+            await vi.runAllTimersAsync();
+            await pending;
+            vi.useRealTimers();
+
+            const codes = transport.written.map(w => JSON.parse(w.slice(0, -1)).cd);
+            expect(codes).toEqual([
+                BluetoothProtocolFunction.StopStream,
+                BluetoothProtocolFunction.StartStream,
+            ]);
+        });
+
+        it('refuses to encode a command the codec rejects', async () => {
+            const client = new DeviceProtocolClient(transport);
+
+            await expect(client.send({
+                cd: BluetoothProtocolFunction.FesParam,
+                mt: BluetoothProtocolMethod.WRITE,
+                bd: { a: 7 },
+            })).rejects.toThrow('missing body field "f"');
+            expect(transport.written).toHaveLength(0);
+        });
+    });
+
+    describe('acknowledgements', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            transport.autoAck = false;
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.restoreAllMocks();
+        });
+
+        it('retries once and rejects with a timeout when ConfigStream is never ACKed', async () => {
+            const client = new DeviceProtocolClient(transport, {}, { timeoutMs: 500, retries: 1 });
+            client.attach();
+
+            const pending = client.configureStream('raw');
+            const outcome = expect(pending).rejects.toMatchObject({ code: 'timeout' });
+            await vi.advanceTimersByTimeAsync(1000);
+            await outcome;
+
+            expect(transport.written).toHaveLength(2);
+            expect(transport.written[1]).toBe(transport.written[0]);
+        });
+
+        it.each([
+            ['FesParam', (client: DeviceProtocolClient) => client.sendFesParams({ a: 7, f: 60, pw: 300, df: 5, pd: 2 })],
+            ['StartSession', (client: DeviceProtocolClient) => client.startSession()],
+            ['StopSession', (client: DeviceProtocolClient) => client.stopSession()],
+            ['PauseSession', (client: DeviceProtocolClient) => client.pauseSession()],
+            ['ResumeSession', (client: DeviceProtocolClient) => client.resumeSession()],
+        ])('never retries %s, which changes device state', async (_name, send) => {
+            const client = new DeviceProtocolClient(transport, {}, { timeoutMs: 500, retries: 3 });
+            client.attach();
+
+            const outcome = expect(send(client)).rejects.toMatchObject({ code: 'timeout' });
+            await vi.advanceTimersByTimeAsync(2000);
+            await outcome;
+
+            expect(transport.written).toHaveLength(1);
+        });
+
+        it('resolves when the ACK arrives on the retry', async () => {
+            const client = new DeviceProtocolClient(transport, {}, { timeoutMs: 500, retries: 1 });
+            client.attach();
+
+            const pending = client.configureStream('rms');
+            await vi.advanceTimersByTimeAsync(600);
+            transport.receiveJson({ cd: BluetoothProtocolFunction.ConfigStream, mt: BluetoothProtocolMethod.ACK });
+
+            await expect(pending).resolves.toBeUndefined();
+            expect(transport.written).toHaveLength(2);
+        });
+
+        it('never retries a single stimulation', async () => {
+            const client = new DeviceProtocolClient(transport, {}, { timeoutMs: 500, retries: 3 });
+            client.attach();
+
+            const outcome = expect(client.singleStimulation()).rejects.toMatchObject({ code: 'timeout' });
+            await vi.advanceTimersByTimeAsync(2000);
+            await outcome;
+
+            expect(transport.written).toHaveLength(1);
+        });
+
+        it('rejects pending commands when detached', async () => {
+            const client = new DeviceProtocolClient(transport);
+            client.attach();
+
+            const outcome = expect(client.startSession()).rejects.toMatchObject({ code: 'cancelled' });
+            client.detach();
+            await outcome;
+        });
+    });
+
+    describe('incoming traffic', () => {
+        it('decodes binary frames and flags streaming on the first one', () => {
+            const onStreamPackets = vi.fn();
+            const onStreamingChange = vi.fn();
+            const client = new DeviceProtocolClient(transport, { onStreamPackets, onStreamingChange });
+            client.attach();
+
+            transport.receive(buildBinaryPacket(1000));
+            transport.receive(buildBinaryPacket(1232));
+
+            expect(onStreamPackets).toHaveBeenCalledTimes(2);
+            expect(onStreamPackets.mock.calls[0][0][0].timestamp).toBe(1000);
+            expect(onStreamPackets.mock.calls[0][0][0].values).toHaveLength(BINARY_PACKET_SAMPLES_PER_PACKET);
+            expect(onStreamingChange).toHaveBeenCalledTimes(1);
+            expect(onStreamingChange).toHaveBeenCalledWith(true);
+            expect(client.isStreaming).toBe(true);
+        });
+
+        it('reassembles a binary frame split across two reads', () => {
+            const onStreamPackets = vi.fn();
+            const client = new DeviceProtocolClient(transport, { onStreamPackets });
+            client.attach();
+
+            const frame = buildBinaryPacket(5000);
+            transport.receive(frame.slice(0, 40));
+            transport.receive(frame.slice(40));
+
+            expect(onStreamPackets).toHaveBeenCalledTimes(1);
+            expect(onStreamPackets.mock.calls[0][0][0].timestamp).toBe(5000);
+        });
+
+        it('maps a Status message to SessionStatus', () => {
+            const onSessionStatus = vi.fn();
+            const client = new DeviceProtocolClient(transport, { onSessionStatus });
+            client.attach();
+
+            transport.receiveJson({
+                cd: BluetoothProtocolFunction.Status,
+                mt: BluetoothProtocolMethod.WRITE,
+                bd: { csa: 3, isa: 1, tlt: 1500, sd: 60000 },
+            });
+
+            expect(onSessionStatus).toHaveBeenCalledWith({
+                parameters: undefined,
+                status: { csa: 3, isa: 1, tlt: 1500, sd: 60000 },
+            });
+        });
+
+        it('clears streaming on EmergencyStop', () => {
+            const onStreamingChange = vi.fn();
+            const onEmergencyStop = vi.fn();
+            const client = new DeviceProtocolClient(transport, { onStreamingChange, onEmergencyStop });
+            client.attach();
+
+            transport.receive(buildBinaryPacket(1000));
+            transport.receiveJson({ cd: BluetoothProtocolFunction.EmergencyStop, mt: BluetoothProtocolMethod.EXECUTE });
+
+            expect(onEmergencyStop).toHaveBeenCalledTimes(1);
+            expect(onStreamingChange).toHaveBeenLastCalledWith(false);
+        });
+
+        it('drops messages that fail codec validation', () => {
+            const onStreamPackets = vi.fn();
+            const client = new DeviceProtocolClient(transport, { onStreamPackets });
+            client.attach();
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            transport.receiveJson({ cd: BluetoothProtocolFunction.StreamData, mt: BluetoothProtocolMethod.WRITE, bd: { t: 1, v: 'x' } });
+
+            expect(onStreamPackets).not.toHaveBeenCalled();
+            expect(warn).toHaveBeenCalledWith('[DeviceProtocol] Rejected message:', expect.stringContaining('"v"'));
+            warn.mockRestore();
+        });
+
+        it('ignores malformed JSON without throwing', () => {
+            const client = new DeviceProtocolClient(transport);
+            client.attach();
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            expect(() => transport.receive(new TextEncoder().encode('{"cd":'))).not.toThrow();
+
+            warn.mockRestore();
+        });
+
+        it('refuses binary frames once JSON streaming was negotiated', async () => {
+            const onStreamPackets = vi.fn();
+            const client = new DeviceProtocolClient(transport, { onStreamPackets });
+            client.attach();
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            transport.autoAck = false;
+
+            const pending = client.handshake({ name: 'NeuroEstimulator', address: '00:11' });
+            transport.receiveJson({ cd: BluetoothProtocolFunction.ConnectionHandshake, mt: BluetoothProtocolMethod.ACK, bd: { fw: '2.4.0' } });
+            await pending;
+            transport.receive(buildBinaryPacket(1000));
+
+            expect(client.negotiatedStreamFormat).toBe('json');
+            expect(onStreamPackets).not.toHaveBeenCalled();
+            expect(client.isStreaming).toBe(false);
+            warn.mockRestore();
+        });
+
+        it('detach unsubscribes from the transport', () => {
+            const client = new DeviceProtocolClient(transport);
+            client.attach();
+            client.attach();
+            expect(transport.listenerCount).toBe(1);
+
+            client.detach();
+            expect(transport.listenerCount).toBe(0);
+        });
+    });
+});
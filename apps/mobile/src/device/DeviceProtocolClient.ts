@@ -0,0 +1,403 @@
+/**
+ * Device Protocol Client
+ *
+ * Transport-independent implementation of the NeuroEstimulator protocol:
+ * - Routes incoming bytes to the binary sEMG decoder (0xAA) or the JSON
+ *   command parser ('{')
+ * - Builds and writes every outgoing command (session, FES, streaming),
+ *   validated by the @iris/domain codec
+ * - Waits for the firmware ACK of commands whose outcome matters, so callers
+ *   know whether the device accepted them (see CommandDispatcher)
+ * - Negotiates firmware capabilities and the stream format on connect
+ *
+ * Has no React or native dependencies, so it runs unchanged over any
+ * DeviceTransport and can be exercised under Node.
+ */
+
+import {
+    BluetoothProtocolFunction,
+    BluetoothProtocolMethod,
+    BluetoothProtocolPayload,
+    DeviceConfiguration,
+    FESParametersBody,
+    FESParameters,
+    SessionStatus,
+    StreamType,
+    StreamFormat,
+    StreamDataPacket,
+    SignalIntegrity,
+    DEVICE_SAMPLE_RATE_HZ,
+    BINARY_PACKET_MAGIC,
+    BLUETOOTH_MESSAGE_TERMINATOR,
+    createBluetoothMessage,
+    decodeBluetoothMessage,
+    encodeBluetoothMessage,
+    parseDeviceConfiguration,
+    resolveStreamFormat,
+} from '@iris/domain';
+import { BinaryFrameAccumulator, type BinaryStreamStats } from '@/utils/binaryDecoder';
+import type { DeviceTransport, TransportDevice, TransportSubscription } from './DeviceTransport';
+import { CommandDispatcher, type CommandOptions } from './CommandDispatcher';
+
+/** Delay between StopStream and StartStream so the firmware can settle in idle. */
+const STREAM_RESTART_DELAY_MS = 300;
+
+/** For commands that change device state: a re-sent frame would run them twice. */
+const NOT_RETRIED: CommandOptions = { retries: 0 };
+
+/**
+ * Callbacks fired while decoding device traffic. All are optional.
+ */
+export interface DeviceProtocolHandlers {
+    /** Decoded sEMG packets (binary v3.1+ frames or legacy JSON StreamData). */
+    onStreamPackets?: (packets: StreamDataPacket[]) => void;
+    /** Streaming started/stopped, from an ACK or implied by the first binary frame. */
+    onStreamingChange?: (isStreaming: boolean) => void;
+    onSessionStatus?: (status: SessionStatus) => void;
+    onGyroscopeReading?: (angle: number) => void;
+    onTrigger?: () => void;
+    onSessionPaused?: () => void;
+    onEmergencyStop?: () => void;
+    onStreamConfigured?: () => void;
+}
+
+export class DeviceProtocolClient {
+    private readonly accumulator = new BinaryFrameAccumulator();
+    private readonly dispatcher: CommandDispatcher;
+    private dataSubscription: TransportSubscription | null = null;
+    private disconnectSubscription: TransportSubscription | null = null;
+    private streaming = false;
+    /** Null until a handshake succeeds — both formats are then accepted. */
+    private streamFormat: StreamFormat | null = null;
+
+    constructor(
+        private readonly transport: DeviceTransport,
+        private readonly handlers: DeviceProtocolHandlers = {},
+        private readonly commandOptions: CommandOptions = {}
+    ) {
+        this.dispatcher = new CommandDispatcher(frame => this.writeFrame(frame));
+    }
+
+    /**
+     * Start consuming bytes from the transport. Safe to call repeatedly.
+     */
+    attach(): void {
+        if (this.dataSubscription) return;
+        this.dataSubscription = this.transport.onData(bytes => this.handleBytes(bytes));
+        this.disconnectSubscription = this.transport.onDisconnect(() => {
+            this.dispatcher.cancelAll('Device disconnected');
+        });
+    }
+
+    /**
+     * Stop consuming bytes and drop any partially buffered frame.
+     */
+    detach(): void {
+        this.dataSubscription?.remove();
+        this.dataSubscription = null;
+        this.disconnectSubscription?.remove();
+        this.disconnectSubscription = null;
+        this.dispatcher.cancelAll('Protocol client detached');
+        this.streaming = false;
+        this.streamFormat = null;
+        this.accumulator.reset();
+    }
+
+    get isStreaming(): boolean {
+        return this.streaming;
+    }
+
+    /** Stream format agreed in the handshake, or null if none took place. */
+    get negotiatedStreamFormat(): StreamFormat | null {
+        return this.streamFormat;
+    }
+
+    /** Binary decoder counters — see BinaryFrameAccumulator.getStats(). */
+    getDecoderStats(): BinaryStreamStats {
+        return this.accumulator.getStats();
+    }
+
+    /** Gaps, lost samples and duplicates since the last resetSignalIntegrity(). */
+    getSignalIntegrity(): SignalIntegrity {
+        return this.accumulator.getSignalIntegrity();
+    }
+
+    resetSignalIntegrity(): void {
+        this.accumulator.resetSignalIntegrity();
+    }
+
+    /** Drop any partially buffered binary frame. */
+    resetDecoder(): void {
+        this.accumulator.reset();
+    }
+
+    /**
+     * Decode one chunk of bytes received from the device.
+     */
+    handleBytes(bytes: Uint8Array): void {
+        try {
+            if (bytes.length === 0) return;
+
+            if (bytes[0] === BINARY_PACKET_MAGIC) {
+                if (this.streamFormat === 'json') {
+                    console.warn('[DeviceProtocol] Ignoring binary frame: firmware negotiated JSON streaming');
+                    return;
+                }
+                // Binary sEMG packet(s) from firmware v3.1+
+                this.emitPackets(this.accumulator.feed(bytes));
+                // Implicit stream-start: first binary packet proves the device is streaming.
+                this.setStreaming(true);
+                return;
+            }
+
+            if (bytes[0] === 0x7B) {
+                // JSON command/control message (0x7B = '{')
+                const result = decodeBluetoothMessage(bytes);
+                if (!result.ok) {
+                    console.warn('[DeviceProtocol] Rejected message:', result.error);
+                    return;
+                }
+                this.dispatcher.handleMessage(result.message);
+                this.handleJsonMessage(result.message);
+                return;
+            }
+
+            // Neither 0xAA nor '{' — may be a continuation fragment of a binary packet
+            // that was split by the native layer before the magic byte boundary.
+            if (this.streamFormat !== 'json') {
+                this.emitPackets(this.accumulator.feed(bytes));
+            }
+        } catch (error) {
+            console.warn('[DeviceProtocol] Error decoding message:', error);
+        }
+    }
+
+    /**
+     * Encode and write a protocol payload without waiting for an ACK.
+     */
+    async send(payload: BluetoothProtocolPayload): Promise<void> {
+        await this.writeFrame(encodeBluetoothMessage(payload));
+    }
+
+    /**
+     * Encode and write a protocol payload, resolving with the device ACK.
+     * Rejects with `code: 'timeout'` when every attempt goes unacknowledged.
+     */
+    async request(payload: BluetoothProtocolPayload, options: CommandOptions = {}): Promise<BluetoothProtocolPayload> {
+        return this.dispatcher.request(payload, { ...this.commandOptions, ...options });
+    }
+
+    /**
+     * Write a pre-serialized command string, appending the firmware terminator.
+     */
+    async writeRaw(payload: string): Promise<void> {
+        await this.writeFrame(payload + BLUETOOTH_MESSAGE_TERMINATOR);
+    }
+
+    /**
+     * Query firmware version and capabilities. Sets the stream format used by
+     * configureStream and the decoder: binary for v3.1+, JSON otherwise.
+     *
+     * Resolves null when the firmware predates the handshake (no answer or a
+     * bare ACK); streaming then stays format-agnostic as before.
+     */
+    async handshake(device: TransportDevice): Promise<DeviceConfiguration | null> {
+        let ack: BluetoothProtocolPayload;
+        try {
+            ack = await this.request(
+                createBluetoothMessage(BluetoothProtocolFunction.ConnectionHandshake, BluetoothProtocolMethod.READ),
+                { retries: 0 }
+            );
+        } catch (error) {
+            if ((error as Error & { code?: string }).code === 'timeout') {
+                console.warn('[DeviceProtocol] Handshake not answered, assuming legacy firmware');
+                return null;
+            }
+            throw error;
+        }
+
+        if (!ack.bd?.fw) {
+            return null;
+        }
+
+        const configuration = parseDeviceConfiguration(ack.bd, device);
+        this.streamFormat = resolveStreamFormat(configuration.firmware);
+        console.log(`[DeviceProtocol] Firmware ${configuration.firmware.version}, streaming ${this.streamFormat}`);
+        return configuration;
+    }
+
+    /** Resolves once the device has ACKed the new stream configuration. */
+    async configureStream(type: StreamType): Promise<void> {
+        await this.request(createBluetoothMessage(
+            BluetoothProtocolFunction.ConfigStream,
+            BluetoothProtocolMethod.WRITE,
+            this.streamFormat
+                ? { rate: DEVICE_SAMPLE_RATE_HZ, type, fmt: this.streamFormat }
+                : { rate: DEVICE_SAMPLE_RATE_HZ, type }
+        ));
+    }
+
+    /**
+     * Send StopStream first to ensure device firmware is in idle state.
+     * The ESP32 firmware may ignore StartStream if it thinks it's already
+     * streaming from a previous session that wasn't cleanly stopped.
+     */
+    async startStream(): Promise<void> {
+        await this.execute(BluetoothProtocolFunction.StopStream);
+        await new Promise(resolve => setTimeout(resolve, STREAM_RESTART_DELAY_MS));
+
+        this.streaming = false;
+        this.accumulator.reset();
+        await this.execute(BluetoothProtocolFunction.StartStream);
+    }
+
+    /**
+     * Binary firmware does not send a JSON ACK for StopStream, so streaming
+     * state is cleared immediately instead of waiting for the ACK handler.
+     */
+    async stopStream(): Promise<void> {
+        this.streaming = false;
+        await this.execute(BluetoothProtocolFunction.StopStream);
+    }
+
+    /**
+     * Session commands change the firmware state and are never retried: when
+     * only the ACK is lost, a re-sent frame would run the command twice (a
+     * second StartSession restarts the session timer). A timeout surfaces to
+     * the caller, who can read the device status before trying again.
+     */
+    async startSession(): Promise<void> {
+        await this.executeAcked(BluetoothProtocolFunction.StartSession, NOT_RETRIED);
+    }
+
+    async stopSession(): Promise<void> {
+        await this.executeAcked(BluetoothProtocolFunction.StopSession, NOT_RETRIED);
+    }
+
+    async pauseSession(): Promise<void> {
+        await this.executeAcked(BluetoothProtocolFunction.PauseSession, NOT_RETRIED);
+    }
+
+    async resumeSession(): Promise<void> {
+        await this.executeAcked(BluetoothProtocolFunction.ResumeSession, NOT_RETRIED);
+    }
+
+    /**
+     * Resolves once the device has ACKed the new FES parameters. Not retried,
+     * like the session commands: parameters the device already applied must
+     * not be applied again behind a late ACK.
+     */
+    async sendFesParams(params: FESParametersBody): Promise<void> {
+        await this.request(createBluetoothMessage(
+            BluetoothProtocolFunction.FesParam,
+            BluetoothProtocolMethod.WRITE,
+            { a: params.a, f: params.f, pw: params.pw, df: params.df, pd: params.pd }
+        ), NOT_RETRIED);
+    }
+
+    /**
+     * Never retried: a lost ACK must not turn into a second stimulation pulse.
+     */
+    async singleStimulation(): Promise<void> {
+        await this.executeAcked(BluetoothProtocolFunction.SingleStimuli, NOT_RETRIED);
+    }
+
+    async readGyroscope(): Promise<void> {
+        await this.execute(BluetoothProtocolFunction.GyroscopeReading);
+    }
+
+    async emergencyStop(): Promise<void> {
+        await this.execute(BluetoothProtocolFunction.EmergencyStop);
+    }
+
+    private async execute(code: BluetoothProtocolFunction): Promise<void> {
+        await this.send(createBluetoothMessage(code, BluetoothProtocolMethod.EXECUTE));
+    }
+
+    private async executeAcked(code: BluetoothProtocolFunction, options: CommandOptions = {}): Promise<void> {
+        await this.request(createBluetoothMessage(code, BluetoothProtocolMethod.EXECUTE), options);
+    }
+
+    private async writeFrame(frame: string): Promise<void> {
+        console.log('[DeviceProtocol] write:', frame.slice(0, -BLUETOOTH_MESSAGE_TERMINATOR.length));
+        await this.transport.write(frame);
+    }
+
+    private handleJsonMessage(message: BluetoothProtocolPayload): void {
+        switch (message.cd) {
+            case BluetoothProtocolFunction.GyroscopeReading:
+                if (message.bd && message.bd.a !== undefined) {
+                    this.handlers.onGyroscopeReading?.(message.bd.a);
+                }
+                break;
+
+            case BluetoothProtocolFunction.Status:
+                if (message.bd) {
+                    this.handlers.onSessionStatus?.({
+                        parameters: message.bd.parameters as FESParameters,
+                        status: {
+                            csa: message.bd.csa || 0,
+                            isa: message.bd.isa || 0,
+                            tlt: message.bd.tlt || 0,
+                            sd: message.bd.sd || 0
+                        }
+                    });
+                }
+                break;
+
+            case BluetoothProtocolFunction.Trigger:
+                this.handlers.onTrigger?.();
+                break;
+
+            case BluetoothProtocolFunction.PauseSession:
+                this.handlers.onSessionPaused?.();
+                break;
+
+            case BluetoothProtocolFunction.EmergencyStop:
+                this.setStreaming(false);
+                this.handlers.onEmergencyStop?.();
+                break;
+
+            case BluetoothProtocolFunction.StartStream:
+                if (message.mt === BluetoothProtocolMethod.ACK) {
+                    this.setStreaming(true);
+                }
+                break;
+
+            case BluetoothProtocolFunction.StopStream:
+                if (message.mt === BluetoothProtocolMethod.ACK) {
+                    this.setStreaming(false);
+                }
+                break;
+
+            case BluetoothProtocolFunction.StreamData:
+                // Legacy JSON streaming format (simulation mode / firmware v2.x)
+                if (message.bd && message.bd.t !== undefined && message.bd.v) {
+                    this.emitPackets([{ timestamp: message.bd.t, values: message.bd.v as number[] }]);
+                }
+                break;
+
+            case BluetoothProtocolFunction.ConfigStream:
+                if (message.mt === BluetoothProtocolMethod.ACK) {
+                    this.handlers.onStreamConfigured?.();
+                }
+                break;
+
+            default:
+                console.log('[DeviceProtocol] Unknown message code:', message.cd);
+                break;
+        }
+    }
+
+    private emitPackets(packets: StreamDataPacket[]): void {
+        if (packets.length > 0) {
+            this.handlers.onStreamPackets?.(packets);
+        }
+    }
+
+    private setStreaming(isStreaming: boolean): void {
+        if (this.streaming === isStreaming) return;
+        this.streaming = isStreaming;
+        this.handlers.onStreamingChange?.(isStreaming);
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * Device Transport
+ *
+ * Link-layer abstraction between the NeuroEstimulator protocol logic and the
+ * physical connection (Bluetooth Classic SPP, BLE, USB serial or a simulated
+ * in-process link). Transports move raw bytes only — framing, JSON parsing and
+ * binary packet decoding live in DeviceProtocolClient.
+ */
+
+/**
+ * A device reachable through a transport.
+ */
+export interface TransportDevice {
+    name: string;
+    address: string;
+}
+
+/**
+ * Handle returned by listener registrations. Call `remove()` to unsubscribe.
+ */
+export interface TransportSubscription {
+    remove(): void;
+}
+
+export type TransportDataListener = (bytes: Uint8Array) => void;
+
+export type TransportDisconnectListener = (address: string) => void;
+
+export type DeviceTransportKind = 'classic-spp' | 'ble' | 'serial' | 'simulated';
+
+export interface DeviceTransport {
+    readonly kind: DeviceTransportKind;
+
+    /**
+     * Ensure the underlying radio/port is available. Resolves false when the
+     * user declined to enable it.
+     */
+    requestEnabled(): Promise<boolean>;
+
+    /** Devices the transport can currently reach (bonded, advertised, enumerated). */
+    listDevices(): Promise<TransportDevice[]>;
+
+    isConnected(address: string): Promise<boolean>;
+
+    connect(address: string): Promise<TransportDevice>;
+
+    disconnect(): Promise<void>;
+
+    /** Write a raw string to the connected device. No terminator is appended. */
+    write(data: string): Promise<void>;
+
+    /** Subscribe to bytes received from the connected device. */
+    onData(listener: TransportDataListener): TransportSubscription;
+
+    /** Subscribe to link loss initiated by the device or the OS. */
+    onDisconnect(listener: TransportDisconnectListener): TransportSubscription;
+
+    /** Open the platform settings page for this link, when one exists. */
+    openSettings?(): void;
+}
@@ -0,0 +1,88 @@
+/**
+ * Emulated Transport
+ *
+ * DeviceTransport backed by an in-process NeuroEstimulatorEmulator. Lets
+ * BluetoothContext, DeviceProtocolClient and BinaryFrameAccumulator run
+ * end-to-end without a radio — in CI under Node, or in the app when
+ * EXPO_PUBLIC_DEVICE_EMULATOR is enabled.
+ */
+
+import type {
+    DeviceTransport,
+    TransportDevice,
+    TransportSubscription,
+    TransportDataListener,
+    TransportDisconnectListener,
+} from '../DeviceTransport';
+import { NeuroEstimulatorEmulator } from './NeuroEstimulatorEmulator';
+import type { EmulatorScenario } from './EmulatorScenario';
+
+export const EMULATED_DEVICE: TransportDevice = {
+    name: 'NeuroEstimulator',
+    address: 'EM:UL:AT:ED:00:01',
+};
+
+export class EmulatedTransport implements DeviceTransport {
+    readonly kind = 'simulated' as const;
+    readonly emulator: NeuroEstimulatorEmulator;
+
+    private connected = false;
+    private readonly dataListeners = new Set<TransportDataListener>();
+    private readonly disconnectListeners = new Set<TransportDisconnectListener>();
+
+    constructor(scenario: EmulatorScenario = {}) {
+        this.emulator = new NeuroEstimulatorEmulator(scenario);
+
+        this.emulator.onOutput((bytes) => {
+            this.dataListeners.forEach(listener => listener(bytes));
+        });
+
+        this.emulator.onDisconnect(() => {
+            this.connected = false;
+            this.disconnectListeners.forEach(listener => listener(EMULATED_DEVICE.address));
+        });
+    }
+
+    async requestEnabled(): Promise<boolean> {
+        return true;
+    }
+
+    async listDevices(): Promise<TransportDevice[]> {
+        return [{ ...EMULATED_DEVICE }];
+    }
+
+    async isConnected(address: string): Promise<boolean> {
+        return this.connected && address === EMULATED_DEVICE.address;
+    }
+
+    async connect(address: string): Promise<TransportDevice> {
+        if (address !== EMULATED_DEVICE.address) {
+            throw new Error(`EmulatedTransport: unknown device ${address}`);
+        }
+        this.emulator.connect();
+        this.connected = true;
+        return { ...EMULATED_DEVICE };
+    }
+
+    async disconnect(): Promise<void> {
+        this.emulator.disconnect();
+        this.connected = false;
+    }
+
+    async write(data: string): Promise<void> {
+        if (!this.connected) {
+            throw new Error('EmulatedTransport: no device connected');
+        }
+        this.emulator.receive(data);
+    }
+
+    onData(listener: TransportDataListener): TransportSubscription {
+        this.dataListeners.add(listener);
+        return { remove: () => { this.dataListeners.delete(listener); } };
+    }
+
+    onDisconnect(listener: TransportDisconnectListener): TransportSubscription {
+        this.disconnectListeners.add(listener);
+        return { remove: () => { this.disconnectListeners.delete(listener); } };
+    }
+}
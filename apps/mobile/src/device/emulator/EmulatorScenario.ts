@@ -0,0 +1,90 @@
+/**
+ * Emulator Scenarios
+ *
+ * Scripted behaviours for NeuroEstimulatorEmulator. A scenario describes how
+ * the emulated firmware deviates from the happy path so link-level failure
+ * handling can be reproduced deterministically in tests.
+ */
+
+import { BluetoothProtocolFunction, ChannelLayout, HandshakeCapabilitiesBody } from '@iris/domain';
+
+/**
+ * Streaming format of the emulated firmware.
+ * - `binary`: v3.1+ — 108-byte frames, no JSON ACK for StopStream
+ * - `json`: v2.x — `{cd:13, bd:{t, v}}` StreamData messages, every command ACKed
+ */
+export type EmulatedFirmwareFormat = 'binary' | 'json';
+
+/**
+ * Byte-loss injection on outgoing binary frames.
+ */
+export interface DropBytesScenario {
+    /** Corrupt every Nth frame (1-based). */
+    everyNthFrame: number;
+    /** Number of bytes removed from the frame. */
+    count: number;
+    /** Offset within the frame where bytes are removed. Default: 0 (header loss). */
+    offset?: number;
+}
+
+export interface EmulatorScenario {
+    firmware?: EmulatedFirmwareFormat;
+    /** Version reported in the handshake. Default: 3.1.0 for binary, 2.4.0 for json firmware. */
+    firmwareVersion?: string;
+    /** Capabilities reported in the handshake. Omitted fields use the app defaults. */
+    capabilities?: HandshakeCapabilitiesBody;
+    /** Delay applied to every ACK (ms). */
+    ackDelayMs?: number;
+    /** Per-command ACK delay overrides (ms). */
+    ackDelays?: Partial<Record<BluetoothProtocolFunction, number>>;
+    /** Commands the emulated firmware silently ignores (no ACK, no side effect). */
+    ignoredCommands?: BluetoothProtocolFunction[];
+    dropBytes?: DropBytesScenario;
+    /** Drop the link this many ms after connect. */
+    disconnectAfterMs?: number;
+    /** Split every outgoing binary frame into chunks of at most N bytes (SPP fragmentation). */
+    chunkSize?: number;
+    /** Interval between Status messages while a session runs (ms). 0 disables. */
+    statusIntervalMs?: number;
+    /** Interval between simulated sEMG triggers while a session runs (ms). 0 disables. */
+    triggerIntervalMs?: number;
+    /** Initial value of the firmware millis() counter, e.g. near 2^32 to test wraparound. */
+    bootMillis?: number;
+    /** Seed for the deterministic sample generator. */
+    seed?: number;
+    /** sEMG channels of the emulated electrode. Above 1, binary firmware sends multi-channel frames. */
+    channels?: number;
+    /** Sample order of multi-channel frames. */
+    channelLayout?: ChannelLayout;
+}
+
+export const DEFAULT_EMULATOR_SCENARIO: Required<Omit<EmulatorScenario, 'firmwareVersion' | 'dropBytes' | 'disconnectAfterMs' | 'chunkSize'>> = {
+    firmware: 'binary',
+    capabilities: {},
+    ackDelayMs: 0,
+    ackDelays: {},
+    ignoredCommands: [],
+    statusIntervalMs: 1000,
+    triggerIntervalMs: 0,
+    bootMillis: 0,
+    seed: 1,
+    channels: 1,
+    channelLayout: 'interleaved',
+};
+
+/**
+ * Named presets used by tests and the in-app emulator switch.
+ */
+export const EMULATOR_SCENARIOS = {
+    nominal: {},
+    legacyJsonFirmware: { firmware: 'json' },
+    preHandshakeFirmware: { ignoredCommands: [BluetoothProtocolFunction.ConnectionHandshake] },
+    noGyroscope: { capabilities: { gy: false } },
+    flakyLink: { dropBytes: { everyNthFrame: 7, count: 13 }, chunkSize: 40 },
+    slowAcks: { ackDelayMs: 1500 },
+    droppedConnection: { disconnectAfterMs: 10000 },
+    millisWraparound: { bootMillis: 0xFFFFFFFF - 2000 },
+    fourChannelElectrode: { channels: 4 },
+} satisfies Record<string, EmulatorScenario>;
+
+export type EmulatorScenarioName = keyof typeof EMULATOR_SCENARIOS;
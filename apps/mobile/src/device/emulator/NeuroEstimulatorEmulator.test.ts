@@ -0,0 +1,288 @@
+/**
+ * NeuroEstimulator Emulator Tests
+ *
+ * End-to-end runs of DeviceProtocolClient + BinaryFrameAccumulator against the
+ * emulated firmware, including the scripted failure scenarios.
+ *
+ * Run with: npx vitest run src/device/emulator
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    BluetoothProtocolFunction,
+    BluetoothProtocolMethod,
+    BINARY_PACKET_SAMPLES_PER_PACKET,
+    type BluetoothProtocolPayload,
+    type StreamDataPacket,
+} from '@iris/domain';
+import { DeviceProtocolClient } from '../DeviceProtocolClient';
+import { EmulatedTransport, EMULATED_DEVICE } from './EmulatedTransport';
+import { EMULATOR_PACKET_INTERVAL_MS } from './NeuroEstimulatorEmulator';
+import { EMULATOR_SCENARIOS, type EmulatorScenario } from './EmulatorScenario';
+
+interface Harness {
+    transport: EmulatedTransport;
+    client: DeviceProtocolClient;
+    packets: StreamDataPacket[];
+    json: BluetoothProtocolPayload[];
+}
+
+async function connect(scenario: EmulatorScenario = {}): Promise<Harness> {
+    const transport = new EmulatedTransport(scenario);
+    const packets: StreamDataPacket[] = [];
+    const json: BluetoothProtocolPayload[] = [];
+
+    transport.onData((bytes) => {
+        if (bytes[0] === 0x7B) {
+            json.push(JSON.parse(new TextDecoder().decode(bytes)));
+        }
+    });
+
+    const client = new DeviceProtocolClient(transport, {
+        onStreamPackets: (decoded) => packets.push(...decoded),
+    });
+    client.attach();
+    await transport.connect(EMULATED_DEVICE.address);
+
+    return { transport, client, packets, json };
+}
+
+async function startStreaming(client: DeviceProtocolClient): Promise<void> {
+    const pending = client.startStream();
+    await vi.advanceTimersByTimeAsync(300);
+    await pending;
+}
+
+describe('NeuroEstimulatorEmulator', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    describe('command handling', () => {
+        it('ACKs FesParam and applies the new parameters', async () => {
+            const { client, transport, json } = await connect();
+
+            await client.sendFesParams({ a: 10, f: 40, pw: 200, df: 20, pd: 3 });
+
+            expect(json).toContainEqual({ cd: BluetoothProtocolFunction.FesParam, mt: BluetoothProtocolMethod.ACK });
+            expect(transport.emulator.getState().fesParams).toEqual({ a: 10, f: 40, pw: 200, df: 20, pd: 3 });
+        });
+
+        it('emits periodic Status while a session is active', async () => {
+            const onSessionStatus = vi.fn();
+            const transport = new EmulatedTransport({ statusIntervalMs: 500 });
+            const client = new DeviceProtocolClient(transport, { onSessionStatus });
+            client.attach();
+            await transport.connect(EMULATED_DEVICE.address);
+
+            await client.startSession();
+            await vi.advanceTimersByTimeAsync(1600);
+            await client.stopSession();
+            await vi.advanceTimersByTimeAsync(2000);
+
+            expect(onSessionStatus).toHaveBeenCalledTimes(3);
+            expect(onSessionStatus.mock.calls[2][0].status.sd).toBeGreaterThanOrEqual(1500);
+        });
+
+        it('answers every command code it receives', async () => {
+            const { client, json } = await connect({ firmware: 'json' });
+
+            await client.send({ cd: BluetoothProtocolFunction.ConnectionHandshake, mt: BluetoothProtocolMethod.READ });
+            await client.readGyroscope();
+            await client.startSession();
+            await client.pauseSession();
+            await client.resumeSession();
+            await client.singleStimulation();
+            await client.send({ cd: BluetoothProtocolFunction.Trigger, mt: BluetoothProtocolMethod.EXECUTE });
+            await client.send({ cd: BluetoothProtocolFunction.Status, mt: BluetoothProtocolMethod.READ });
+            await client.stopSession();
+            await client.configureStream('raw');
+            await client.emergencyStop();
+
+            const answered = new Set(json.map(m => m.cd));
+            for (const code of [0, 1, 2, 3, 4, 5, 6, 8, 9, 10, 14]) {
+                expect(answered.has(code)).toBe(true);
+            }
+        });
+
+        it('device-side emergency button halts streaming and notifies the app', async () => {
+            const onEmergencyStop = vi.fn();
+            const transport = new EmulatedTransport();
+            const client = new DeviceProtocolClient(transport, { onEmergencyStop });
+            client.attach();
+            await transport.connect(EMULATED_DEVICE.address);
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(EMULATOR_PACKET_INTERVAL_MS * 2);
+
+            transport.emulator.pressEmergencyButton();
+
+            expect(onEmergencyStop).toHaveBeenCalledTimes(1);
+            expect(transport.emulator.getState().streaming).toBe(false);
+            expect(client.isStreaming).toBe(false);
+        });
+    });
+
+    describe('handshake', () => {
+        it('reports firmware version and capabilities and negotiates binary for v3.1', async () => {
+            const { client } = await connect({ capabilities: { amax: 12, pwmax: 400 } });
+
+            const configuration = await client.handshake(EMULATED_DEVICE);
+
+            expect(configuration?.firmware.version).toBe('3.1.0');
+            expect(configuration?.capabilities.fes.maxAmplitude).toBe(12);
+            expect(configuration?.capabilities.fes.maxPulseWidth).toBe(400);
+            expect(configuration?.capabilities.sensors.hasGyroscope).toBe(true);
+            expect(client.negotiatedStreamFormat).toBe('binary');
+        });
+
+        it('falls back to JSON StreamData for firmware older than v3.1', async () => {
+            const { client, transport, packets } = await connect({ firmwareVersion: '3.0.2' });
+
+            await client.handshake(EMULATED_DEVICE);
+            await client.configureStream('raw');
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(EMULATOR_PACKET_INTERVAL_MS * 3);
+
+            expect(client.negotiatedStreamFormat).toBe('json');
+            expect(transport.emulator.getState().streamFormat).toBe('json');
+            expect(packets).toHaveLength(3);
+        });
+
+        it('reports a missing gyroscope', async () => {
+            const { client } = await connect(EMULATOR_SCENARIOS.noGyroscope);
+
+            const configuration = await client.handshake(EMULATED_DEVICE);
+
+            expect(configuration?.capabilities.sensors.hasGyroscope).toBe(false);
+        });
+
+        it('resolves null for firmware that predates the handshake', async () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            const { client } = await connect(EMULATOR_SCENARIOS.preHandshakeFirmware);
+
+            const pending = client.handshake(EMULATED_DEVICE);
+            await vi.advanceTimersByTimeAsync(5000);
+
+            expect(await pending).toBeNull();
+            expect(client.negotiatedStreamFormat).toBeNull();
+        });
+    });
+
+    describe('binary streaming', () => {
+        it('emits one 50-sample frame per packet interval at 215 Hz', async () => {
+            const { client, packets } = await connect();
+
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(EMULATOR_PACKET_INTERVAL_MS * 10);
+
+            expect(packets).toHaveLength(10);
+            expect(packets.every(p => p.values.length === BINARY_PACKET_SAMPLES_PER_PACKET)).toBe(true);
+            const deltas = packets.slice(1).map((p, i) => p.timestamp - packets[i].timestamp);
+            expect(deltas.every(d => d >= 232 && d <= 233)).toBe(true);
+            expect(client.isStreaming).toBe(true);
+        });
+
+        it('does not ACK StopStream in binary mode', async () => {
+            const { client, transport, json } = await connect();
+            await startStreaming(client);
+            json.length = 0;
+
+            await client.stopStream();
+
+            expect(json.find(m => m.cd === BluetoothProtocolFunction.StopStream)).toBeUndefined();
+            expect(transport.emulator.getState().streaming).toBe(false);
+        });
+
+        it('streams legacy JSON StreamData for v2.x firmware', async () => {
+            const { client, packets } = await connect(EMULATOR_SCENARIOS.legacyJsonFirmware);
+
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(EMULATOR_PACKET_INTERVAL_MS * 3);
+
+            expect(packets).toHaveLength(3);
+        });
+
+        it('reassembles fragmented frames', async () => {
+            const { client, packets } = await connect({ chunkSize: 17 });
+
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(EMULATOR_PACKET_INTERVAL_MS * 5);
+
+            expect(packets).toHaveLength(5);
+            expect(client.getDecoderStats().dropped).toBe(0);
+        });
+
+        it('resyncs after dropped header bytes', async () => {
+            const { client, packets, transport } = await connect({ dropBytes: { everyNthFrame: 4, count: 3 } });
+
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(EMULATOR_PACKET_INTERVAL_MS * 12);
+
+            expect(transport.emulator.getState().framesSent).toBe(12);
+            expect(packets).toHaveLength(9);
+            expect(client.getDecoderStats().dropped).toBeGreaterThan(0);
+            // Frames 4 and 8 show up as timestamp gaps; frame 12 has no successor yet
+            expect(client.getSignalIntegrity()).toMatchObject({ gapCount: 2, missingSamples: 100 });
+        });
+
+        it('wraps the millis() timestamp at 2^32', async () => {
+            const { client, packets } = await connect(EMULATOR_SCENARIOS.millisWraparound);
+
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(EMULATOR_PACKET_INTERVAL_MS * 10);
+
+            const wrapped = packets.findIndex((p, i) => i > 0 && p.timestamp < packets[i - 1].timestamp);
+            expect(wrapped).toBeGreaterThan(0);
+            expect(client.getDecoderStats()).toMatchObject({ wraps: 1, gapCount: 0, duplicatePackets: 0 });
+        });
+    });
+
+    describe('link scenarios', () => {
+        it('delays ACKs by the scripted amount', async () => {
+            const { client, json } = await connect({ ackDelays: { [BluetoothProtocolFunction.ConfigStream]: 1000 } });
+
+            const pending = client.configureStream('rms');
+            await vi.advanceTimersByTimeAsync(0);
+            expect(json).toHaveLength(0);
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(json).toEqual([{ cd: BluetoothProtocolFunction.ConfigStream, mt: BluetoothProtocolMethod.ACK }]);
+            await expect(pending).resolves.toBeUndefined();
+        });
+
+        it('never ACKs ignored commands', async () => {
+            const { client, json, transport } = await connect({ ignoredCommands: [BluetoothProtocolFunction.StartSession] });
+
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            const outcome = expect(client.startSession()).rejects.toMatchObject({ code: 'timeout' });
+            await vi.advanceTimersByTimeAsync(5000);
+            await outcome;
+
+            expect(json).toHaveLength(0);
+            expect(transport.emulator.getState().sessionActive).toBe(false);
+        });
+
+        it('drops the link on schedule and stops streaming', async () => {
+            const { client, transport, packets } = await connect({ disconnectAfterMs: 2000 });
+            const onDisconnect = vi.fn();
+            transport.onDisconnect(onDisconnect);
+
+            await startStreaming(client);
+            await vi.advanceTimersByTimeAsync(5000);
+
+            expect(onDisconnect).toHaveBeenCalledWith(EMULATED_DEVICE.address);
+            expect(await transport.isConnected(EMULATED_DEVICE.address)).toBe(false);
+            const receivedBeforeDrop = packets.length;
+            await vi.advanceTimersByTimeAsync(2000);
+            expect(packets).toHaveLength(receivedBeforeDrop);
+            await expect(client.startSession()).rejects.toThrow('no device connected');
+        });
+    });
+});
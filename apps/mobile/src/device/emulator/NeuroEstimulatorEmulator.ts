@@ -0,0 +1,544 @@
+/**
+ * NeuroEstimulator Emulator
+ *
+ * Headless, Node-runnable model of the ESP32 NeuroEstimulator firmware.
+ * Consumes null-terminated JSON commands, answers every
+ * BluetoothProtocolFunction code and streams sEMG at DEVICE_SAMPLE_RATE_HZ,
+ * either as binary frames (v3.1+; multi-channel frames for electrodes with
+ * more than one channel) or legacy JSON StreamData (v2.x).
+ *
+ * Time is driven exclusively by setTimeout/setInterval, so tests can advance
+ * the emulator with fake timers.
+ */
+
+import {
+    BluetoothProtocolFunction,
+    BluetoothProtocolMethod,
+    BluetoothProtocolPayload,
+    BluetoothProtocolBody,
+    FESParametersBody,
+    StreamType,
+    StreamFormat,
+    DEVICE_SAMPLE_RATE_HZ,
+    BINARY_PACKET_MAGIC,
+    BINARY_PACKET_CODE,
+    BINARY_PACKET_HEADER_SIZE,
+    BINARY_PACKET_SAMPLES_PER_PACKET,
+    BINARY_PACKET_TOTAL_SIZE,
+    BINARY_MULTICHANNEL_PACKET_CODE,
+    BINARY_MULTICHANNEL_HEADER_SIZE,
+    CHANNEL_LAYOUT_CODES,
+    ChannelLayout,
+} from '@iris/domain';
+import { DEFAULT_EMULATOR_SCENARIO, EmulatorScenario } from './EmulatorScenario';
+
+/** Time covered by one packet: 50 samples at 215 Hz ≈ 232.56 ms. */
+export const EMULATOR_PACKET_INTERVAL_MS = (BINARY_PACKET_SAMPLES_PER_PACKET * 1000) / DEVICE_SAMPLE_RATE_HZ;
+
+const UINT32_RANGE = 0x100000000;
+const SAMPLE_LIMIT = 4096;
+
+type OutputListener = (bytes: Uint8Array) => void;
+type DisconnectListener = () => void;
+
+/**
+ * Snapshot of the emulated firmware state, for assertions.
+ */
+export interface EmulatorState {
+    connected: boolean;
+    streaming: boolean;
+    sessionActive: boolean;
+    sessionPaused: boolean;
+    streamType: StreamType;
+    /** Format currently streamed; binary firmware can be switched to JSON via ConfigStream. */
+    streamFormat: StreamFormat;
+    fesParams: FESParametersBody;
+    completeStimuli: number;
+    interruptedStimuli: number;
+    framesSent: number;
+    commandsReceived: BluetoothProtocolPayload[];
+}
+
+export class NeuroEstimulatorEmulator {
+    private readonly scenario: typeof DEFAULT_EMULATOR_SCENARIO & EmulatorScenario;
+    private readonly outputListeners = new Set<OutputListener>();
+    private readonly disconnectListeners = new Set<DisconnectListener>();
+    private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+
+    private streamTimer: ReturnType<typeof setInterval> | null = null;
+    private statusTimer: ReturnType<typeof setInterval> | null = null;
+    private triggerTimer: ReturnType<typeof setInterval> | null = null;
+
+    private inputBuffer = '';
+    private millisBase = 0;
+    private connectedAt = 0;
+    private sampleIndex = 0;
+    private rngState: number;
+    private sessionStartedAt = 0;
+    private lastTriggerAt = 0;
+
+    private state: EmulatorState = {
+        connected: false,
+        streaming: false,
+        sessionActive: false,
+        sessionPaused: false,
+        streamType: 'filtered',
+        streamFormat: 'binary',
+        fesParams: { a: 7, f: 60, pw: 300, df: 5, pd: 2 },
+        completeStimuli: 0,
+        interruptedStimuli: 0,
+        framesSent: 0,
+        commandsReceived: [],
+    };
+
+    constructor(scenario: EmulatorScenario = {}) {
+        this.scenario = { ...DEFAULT_EMULATOR_SCENARIO, ...scenario };
+        this.rngState = this.scenario.seed >>> 0 || 1;
+        this.state.streamFormat = this.scenario.firmware;
+    }
+
+    getState(): EmulatorState {
+        return { ...this.state, fesParams: { ...this.state.fesParams }, commandsReceived: [...this.state.commandsReceived] };
+    }
+
+    onOutput(listener: OutputListener): () => void {
+        this.outputListeners.add(listener);
+        return () => { this.outputListeners.delete(listener); };
+    }
+
+    onDisconnect(listener: DisconnectListener): () => void {
+        this.disconnectListeners.add(listener);
+        return () => { this.disconnectListeners.delete(listener); };
+    }
+
+    /**
+     * Accept an incoming link. Arms the scripted disconnect, if any.
+     */
+    connect(): void {
+        if (this.state.connected) return;
+        this.state.connected = true;
+        this.connectedAt = Date.now();
+        this.millisBase = this.scenario.bootMillis;
+
+        if (this.scenario.disconnectAfterMs !== undefined) {
+            this.schedule(() => this.dropLink(), this.scenario.disconnectAfterMs);
+        }
+    }
+
+    /**
+     * App-initiated disconnect: the firmware stops everything, no event is raised.
+     */
+    disconnect(): void {
+        this.shutdown();
+    }
+
+    /**
+     * Simulate link loss (out of range, power loss). Notifies disconnect listeners.
+     */
+    dropLink(): void {
+        if (!this.state.connected) return;
+        this.shutdown();
+        this.disconnectListeners.forEach(listener => listener());
+    }
+
+    /**
+     * Feed raw bytes written by the app. Commands are delimited by '\0' and
+     * may arrive split across several writes.
+     */
+    receive(data: string): void {
+        if (!this.state.connected) return;
+
+        this.inputBuffer += data;
+        let terminator = this.inputBuffer.indexOf('\0');
+        while (terminator !== -1) {
+            const raw = this.inputBuffer.slice(0, terminator);
+            this.inputBuffer = this.inputBuffer.slice(terminator + 1);
+            if (raw.trim().length > 0) {
+                this.handleCommand(raw);
+            }
+            terminator = this.inputBuffer.indexOf('\0');
+        }
+    }
+
+    /**
+     * Device-side emergency stop (physical button on the stimulator).
+     */
+    pressEmergencyButton(): void {
+        this.haltAll();
+        this.emitJson({ cd: BluetoothProtocolFunction.EmergencyStop, mt: BluetoothProtocolMethod.EXECUTE });
+    }
+
+    /**
+     * Firmware millis() counter — uint32, wraps after ~49.7 days.
+     */
+    millis(): number {
+        const elapsed = Date.now() - this.connectedAt;
+        return (this.millisBase + elapsed) % UINT32_RANGE;
+    }
+
+    private handleCommand(raw: string): void {
+        let command: BluetoothProtocolPayload;
+        try {
+            command = JSON.parse(raw) as BluetoothProtocolPayload;
+        } catch {
+            console.warn('[Emulator] Ignoring malformed command:', raw);
+            return;
+        }
+
+        this.state.commandsReceived.push(command);
+
+        if (this.scenario.ignoredCommands.includes(command.cd)) {
+            return;
+        }
+
+        switch (command.cd) {
+            case BluetoothProtocolFunction.ConnectionHandshake:
+                this.ack(command.cd, {
+                    fw: this.scenario.firmwareVersion ?? (this.scenario.firmware === 'binary' ? '3.1.0' : '2.4.0'),
+                    bdt: '2025-01-01',
+                    ft: this.scenario.firmware === 'binary' ? ['binary-stream'] : [],
+                    cap: { ...this.scenario.capabilities },
+                });
+                break;
+
+            case BluetoothProtocolFunction.GyroscopeReading:
+                this.ack(command.cd, { a: this.readWristAngle() });
+                break;
+
+            case BluetoothProtocolFunction.StartSession:
+                // Streaming and FES sessions share the firmware timer.
+                this.stopStreaming();
+                this.startSession();
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.StopSession:
+                this.stopSession();
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.PauseSession:
+                if (this.state.sessionActive) {
+                    this.state.sessionPaused = true;
+                }
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.ResumeSession:
+                this.state.sessionPaused = false;
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.SingleStimuli:
+                this.stimulate();
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.FesParam:
+                if (command.bd) {
+                    this.applyFesParams(command.bd);
+                }
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.Status:
+                this.emitStatus();
+                break;
+
+            case BluetoothProtocolFunction.Trigger:
+                if (this.state.sessionActive && !this.state.sessionPaused) {
+                    this.fireTrigger();
+                }
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.EmergencyStop:
+                this.haltAll();
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.StartStream:
+                this.stopSession();
+                this.startStreaming();
+                this.ack(command.cd);
+                break;
+
+            case BluetoothProtocolFunction.StopStream:
+                this.stopStreaming();
+                // Binary firmware goes straight back to idle without a JSON ACK.
+                if (this.scenario.firmware === 'json') {
+                    this.ack(command.cd);
+                }
+                break;
+
+            case BluetoothProtocolFunction.ConfigStream:
+                if (command.bd?.type === 'raw' || command.bd?.type === 'filtered' || command.bd?.type === 'rms') {
+                    this.state.streamType = command.bd.type;
+                }
+                // v2.x firmware has no binary encoder and ignores the field.
+                if (this.scenario.firmware === 'binary' && (command.bd?.fmt === 'binary' || command.bd?.fmt === 'json')) {
+                    this.state.streamFormat = command.bd.fmt;
+                }
+                this.ack(command.cd);
+                break;
+
+            default:
+                console.warn('[Emulator] Unknown command code:', command.cd);
+                break;
+        }
+    }
+
+    // ── Session ────────────────────────────────────────────────────────────────
+
+    private startSession(): void {
+        this.state.sessionActive = true;
+        this.state.sessionPaused = false;
+        this.state.completeStimuli = 0;
+        this.state.interruptedStimuli = 0;
+        this.sessionStartedAt = this.millis();
+        this.lastTriggerAt = 0;
+
+        if (this.scenario.statusIntervalMs > 0) {
+            this.statusTimer = setInterval(() => this.emitStatus(), this.scenario.statusIntervalMs);
+        }
+        if (this.scenario.triggerIntervalMs > 0) {
+            this.triggerTimer = setInterval(() => {
+                if (!this.state.sessionPaused) {
+                    this.fireTrigger();
+                }
+            }, this.scenario.triggerIntervalMs);
+        }
+    }
+
+    private stopSession(): void {
+        this.state.sessionActive = false;
+        this.state.sessionPaused = false;
+        this.stopTimer('statusTimer');
+        this.stopTimer('triggerTimer');
+    }
+
+    private fireTrigger(): void {
+        this.lastTriggerAt = this.millis();
+        this.emitJson({ cd: BluetoothProtocolFunction.Trigger, mt: BluetoothProtocolMethod.WRITE });
+        this.stimulate();
+    }
+
+    private stimulate(): void {
+        this.state.completeStimuli++;
+    }
+
+    private applyFesParams(body: BluetoothProtocolBody): void {
+        const params = this.state.fesParams;
+        this.state.fesParams = {
+            a: body.a ?? params.a,
+            f: body.f ?? params.f,
+            pw: body.pw ?? params.pw,
+            df: body.df ?? params.df,
+            pd: body.pd ?? params.pd,
+        };
+    }
+
+    private emitStatus(): void {
+        const now = this.millis();
+        this.emitJson({
+            cd: BluetoothProtocolFunction.Status,
+            mt: BluetoothProtocolMethod.WRITE,
+            bd: {
+                csa: this.state.completeStimuli,
+                isa: this.state.interruptedStimuli,
+                tlt: this.lastTriggerAt,
+                sd: this.state.sessionActive ? (now - this.sessionStartedAt + UINT32_RANGE) % UINT32_RANGE : 0,
+                parameters: { ...this.state.fesParams },
+            },
+        });
+    }
+
+    private haltAll(): void {
+        if (this.state.sessionActive) {
+            this.state.interruptedStimuli++;
+        }
+        this.stopSession();
+        this.stopStreaming();
+    }
+
+    // ── Streaming ──────────────────────────────────────────────────────────────
+
+    private startStreaming(): void {
+        if (this.state.streaming) return;
+        this.state.streaming = true;
+        this.streamTimer = setInterval(() => this.emitStreamPacket(), EMULATOR_PACKET_INTERVAL_MS);
+    }
+
+    private stopStreaming(): void {
+        this.state.streaming = false;
+        this.stopTimer('streamTimer');
+    }
+
+    private emitStreamPacket(): void {
+        const timestamp = this.millis();
+        const channels: number[][] = Array.from({ length: this.scenario.channels }, () => []);
+        for (let i = 0; i < BINARY_PACKET_SAMPLES_PER_PACKET; i++) {
+            const t = this.sampleIndex++ / DEVICE_SAMPLE_RATE_HZ;
+            channels.forEach((samples, channel) => samples.push(this.nextSample(t, channel)));
+        }
+        const values = channels[0];
+
+        this.state.framesSent++;
+
+        if (this.state.streamFormat === 'json') {
+            this.emitJson({
+                cd: BluetoothProtocolFunction.StreamData,
+                mt: BluetoothProtocolMethod.WRITE,
+                bd: { t: timestamp, v: values },
+            });
+            return;
+        }
+
+        let frame = channels.length > 1
+            ? encodeMultiChannelFrame(timestamp, channels, this.scenario.channelLayout)
+            : encodeBinaryFrame(timestamp, values);
+        const drop = this.scenario.dropBytes;
+        if (drop && drop.everyNthFrame > 0 && this.state.framesSent % drop.everyNthFrame === 0) {
+            const offset = drop.offset ?? 0;
+            frame = new Uint8Array([...frame.subarray(0, offset), ...frame.subarray(offset + drop.count)]);
+        }
+        this.emitFrame(frame);
+    }
+
+    /**
+     * Synthetic sEMG: low-amplitude noise with a contraction burst every 2 s.
+     * Each further channel bursts half a second after the one before it.
+     */
+    private nextSample(t: number, channel: number): number {
+        const noise = this.random() * 2 - 1;
+        const inBurst = (((t - channel * 0.5) % 2) + 2) % 2 < 0.6;
+        const amplitude = inBurst ? 900 : 60;
+        const value = Math.round(amplitude * noise * (0.6 + 0.4 * Math.sin(2 * Math.PI * 80 * t)));
+        return Math.max(-SAMPLE_LIMIT, Math.min(SAMPLE_LIMIT, value));
+    }
+
+    private readWristAngle(): number {
+        return Math.round(this.random() * 90 * 10) / 10;
+    }
+
+    /** xorshift32 — deterministic for a given scenario seed. */
+    private random(): number {
+        let x = this.rngState;
+        x ^= x << 13;
+        x ^= x >>> 17;
+        x ^= x << 5;
+        this.rngState = x >>> 0;
+        return this.rngState / UINT32_RANGE;
+    }
+
+    // ── Output ─────────────────────────────────────────────────────────────────
+
+    private ack(code: BluetoothProtocolFunction, body?: BluetoothProtocolBody): void {
+        const delay = this.scenario.ackDelays[code] ?? this.scenario.ackDelayMs;
+        const payload: BluetoothProtocolPayload = body
+            ? { cd: code, mt: BluetoothProtocolMethod.ACK, bd: body }
+            : { cd: code, mt: BluetoothProtocolMethod.ACK };
+
+        if (delay > 0) {
+            this.schedule(() => this.emitJson(payload), delay);
+        } else {
+            this.emitJson(payload);
+        }
+    }
+
+    private emitJson(payload: BluetoothProtocolPayload): void {
+        this.emit(new TextEncoder().encode(JSON.stringify(payload)));
+    }
+
+    /**
+     * Binary frames may be fragmented by the scenario; JSON messages always
+     * arrive whole, matching what the SPP native layer delivers for short writes.
+     */
+    private emitFrame(frame: Uint8Array): void {
+        const chunkSize = this.scenario.chunkSize;
+        if (!chunkSize || chunkSize >= frame.length) {
+            this.emit(frame);
+            return;
+        }
+        for (let offset = 0; offset < frame.length; offset += chunkSize) {
+            this.emit(frame.slice(offset, offset + chunkSize));
+        }
+    }
+
+    private emit(bytes: Uint8Array): void {
+        if (!this.state.connected) return;
+        this.outputListeners.forEach(listener => listener(bytes));
+    }
+
+    // ── Timers ─────────────────────────────────────────────────────────────────
+
+    private schedule(fn: () => void, delayMs: number): void {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            fn();
+        }, delayMs);
+        this.timers.add(timer);
+    }
+
+    private stopTimer(name: 'streamTimer' | 'statusTimer' | 'triggerTimer'): void {
+        const timer = this[name];
+        if (timer) {
+            clearInterval(timer);
+            this[name] = null;
+        }
+    }
+
+    private shutdown(): void {
+        this.haltAll();
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.inputBuffer = '';
+        this.state.connected = false;
+    }
+}
+
+/**
+ * Encode one binary sEMG frame exactly as StreamingProtocol.h lays it out.
+ */
+export function encodeBinaryFrame(timestamp: number, values: number[]): Uint8Array {
+    const frame = new Uint8Array(BINARY_PACKET_TOTAL_SIZE);
+    const view = new DataView(frame.buffer);
+
+    frame[0] = BINARY_PACKET_MAGIC;
+    frame[1] = BINARY_PACKET_CODE;
+    view.setUint32(2, timestamp >>> 0, true);
+    view.setUint16(6, BINARY_PACKET_SAMPLES_PER_PACKET, true);
+    for (let i = 0; i < BINARY_PACKET_SAMPLES_PER_PACKET; i++) {
+        view.setInt16(BINARY_PACKET_HEADER_SIZE + i * 2, values[i] ?? 0, true);
+    }
+
+    return frame;
+}
+
+/**
+ * Encode one multi-channel binary sEMG frame (code 0x0E).
+ */
+export function encodeMultiChannelFrame(
+    timestamp: number,
+    channels: number[][],
+    layout: ChannelLayout = 'interleaved'
+): Uint8Array {
+    const channelCount = channels.length;
+    const frame = new Uint8Array(BINARY_MULTICHANNEL_HEADER_SIZE + channelCount * BINARY_PACKET_SAMPLES_PER_PACKET * 2);
+    const view = new DataView(frame.buffer);
+
+    frame[0] = BINARY_PACKET_MAGIC;
+    frame[1] = BINARY_MULTICHANNEL_PACKET_CODE;
+    view.setUint32(2, timestamp >>> 0, true);
+    view.setUint16(6, BINARY_PACKET_SAMPLES_PER_PACKET, true);
+    frame[8] = channelCount;
+    frame[9] = CHANNEL_LAYOUT_CODES[layout];
+    for (let c = 0; c < channelCount; c++) {
+        for (let i = 0; i < BINARY_PACKET_SAMPLES_PER_PACKET; i++) {
+            const index = layout === 'interleaved' ? i * channelCount + c : c * BINARY_PACKET_SAMPLES_PER_PACKET + i;
+            view.setInt16(BINARY_MULTICHANNEL_HEADER_SIZE + index * 2, channels[c][i] ?? 0, true);
+        }
+    }
+
+    return frame;
+}
@@ -0,0 +1,19 @@
+/**
+ * Device Emulator Barrel Export
+ */
+
+export {
+    NeuroEstimulatorEmulator,
+    encodeBinaryFrame,
+    encodeMultiChannelFrame,
+    EMULATOR_PACKET_INTERVAL_MS,
+} from './NeuroEstimulatorEmulator';
+export type { EmulatorState } from './NeuroEstimulatorEmulator';
+export { EmulatedTransport, EMULATED_DEVICE } from './EmulatedTransport';
+export { EMULATOR_SCENARIOS, DEFAULT_EMULATOR_SCENARIO } from './EmulatorScenario';
+export type {
+    EmulatorScenario,
+    EmulatorScenarioName,
+    EmulatedFirmwareFormat,
+    DropBytesScenario,
+} from './EmulatorScenario';
@@ -0,0 +1,18 @@
+/**
+ * Device Barrel Export
+ *
+ * Transport abstraction and protocol client for the NeuroEstimulator device.
+ */
+
+export type {
+    DeviceTransport,
+    DeviceTransportKind,
+    TransportDevice,
+    TransportSubscription,
+    TransportDataListener,
+    TransportDisconnectListener,
+} from './DeviceTransport';
+export { DeviceProtocolClient } from './DeviceProtocolClient';
+export type { DeviceProtocolHandlers } from './DeviceProtocolClient';
+export { CommandDispatcher, DEFAULT_COMMAND_TIMEOUT_MS, DEFAULT_COMMAND_RETRIES } from './CommandDispatcher';
+export type { CommandOptions, CommandWriter } from './CommandDispatcher';
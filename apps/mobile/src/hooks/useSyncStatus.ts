@@ -2,11 +2,14 @@
  * useSyncStatus Hook
  *
  * Convenience hook for accessing sync status and triggering manual syncs.
+ * `schedule` carries the scheduler's decisions: whether sync is paused
+ * (offline), whether recording uploads are deferred by the upload policy,
+ * and a readable reason when data is waiting.
  *
  * Example:
  * ```typescript
  * function SettingsScreen() {
- *   const { syncReport, syncNow, isRunning, isSyncing } = useSyncStatus();
+ *   const { syncReport, syncNow, isRunning, isSyncing, schedule } = useSyncStatus();
  *
  *   const handleManualSync = async () => {
  *     try {
@@ -20,6 +23,7 @@
  *   return (
  *     <View>
  *       <Text>Sync Status: {isRunning ? 'Running' : 'Stopped'}</Text>
+ *       {schedule.reason && <Text>{schedule.reason}</Text>}
  *       {syncReport && (
  *         <Text>Last sync: {new Date(syncReport.timestamp).toLocaleString()}</Text>
  *       )}
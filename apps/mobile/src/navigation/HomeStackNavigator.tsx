@@ -36,6 +36,7 @@ import { ResearchDevicesScreen } from '@/screens/research/ResearchDevicesScreen'
 import { ResearchDeviceSensorsScreen } from '@/screens/research/ResearchDeviceSensorsScreen';
 import { ApplicationFormScreen } from '@/screens/research/ApplicationFormScreen';
 import { EnrollVolunteerFormScreen } from '@/screens/research/EnrollVolunteerFormScreen';
+import { FesEnvelopeScreen } from '@/screens/research/FesEnvelopeScreen';
 import { FavoritesManageScreen } from '@/screens/FavoritesManageScreen';
 
 const Stack = createNativeStackNavigator<HomeStackParamList>();
@@ -159,6 +160,11 @@ export const HomeStackNavigator: FC = () => {
         component={EnrollVolunteerFormScreen}
         options={{ title: 'Enroll Volunteer', presentation: 'modal' }}
       />
+      <Stack.Screen
+        name="FesEnvelope"
+        component={FesEnvelopeScreen}
+        options={{ title: 'FES Limits' }}
+      />
       <Stack.Screen
         name="FavoritesManage"
         component={FavoritesManageScreen}
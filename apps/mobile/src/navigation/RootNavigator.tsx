@@ -25,6 +25,8 @@ import { useAuth } from '@/context/AuthContext';
 // Import navigators and screens
 import { MainTabNavigator } from './MainTabNavigator';
 import { LoginScreen } from '@/screens/LoginScreen';
+import { RecordingViewerScreen } from '@/screens/RecordingViewerScreen';
+import { SyncConflictsScreen } from '@/screens/SyncConflictsScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -56,8 +58,12 @@ export const RootNavigator: FC = () => {
       }}
     >
       {isAuthenticated ? (
-        // Authenticated: Show main app with tabs
-        <Stack.Screen name="Main" component={MainTabNavigator} />
+        // Authenticated: Show main app with tabs, plus full-screen views above them
+        <>
+          <Stack.Screen name="Main" component={MainTabNavigator} />
+          <Stack.Screen name="RecordingViewer" component={RecordingViewerScreen} />
+          <Stack.Screen name="SyncConflicts" component={SyncConflictsScreen} />
+        </>
       ) : (
         // Not authenticated: Show login screen
         <Stack.Screen
@@ -14,6 +14,8 @@ import type { NavigatorScreenParams } from '@react-navigation/native';
 export type RootStackParamList = {
   Login: { sessionExpiredMessage?: string } | undefined;
   Main: NavigatorScreenParams<MainTabParamList>;
+  RecordingViewer: { recordingId: string };
+  SyncConflicts: undefined;
 };
 
 /**
@@ -58,5 +60,6 @@ export type HomeStackParamList = {
   ResearchDeviceSensors: { researchId: string; deviceId: string; deviceName: string };
   ApplicationForm: { researchId: string; applicationId?: string };
   EnrollVolunteerForm: { researchId: string };
+  FesEnvelope: { researchId: string; volunteerId?: string; volunteerName?: string };
   FavoritesManage: undefined;
 };
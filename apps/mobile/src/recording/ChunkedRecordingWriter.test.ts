@@ -0,0 +1,283 @@
+/**
+ * Chunked Recording Tests
+ *
+ * Writer, reader, CSV export, analysis and crash recovery against an
+ * in-memory file system.
+ *
+ * Run with: npx vitest run src/recording
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamDataPacket, computeEmgFeatures } from '@iris/domain';
+import {
+    ChunkedRecordingWriter,
+    RecordingFileSystem,
+    openRecording,
+    readRecordingPackets,
+    exportRecordingToCsv,
+    recoverRecording,
+    findUnfinalizedRecordings,
+    analyzeRecording,
+    encodeChunk,
+    decodeChunk,
+} from './index';
+
+class MemoryFileSystem implements RecordingFileSystem {
+    readonly files = new Map<string, Uint8Array | string>();
+    readonly directories = new Set<string>();
+    failWrites = false;
+
+    async makeDirectory(path: string) { this.directories.add(path); }
+    async writeBytes(path: string, bytes: Uint8Array) { this.write(path, bytes.slice()); }
+    async readBytes(path: string) { return this.read(path) as Uint8Array; }
+    async writeText(path: string, text: string) { this.write(path, text); }
+    async readText(path: string) { return this.read(path) as string; }
+    async exists(path: string) { return this.files.has(path) || this.directories.has(path); }
+    async list(path: string) {
+        const prefix = `${path}/`;
+        const names = new Set<string>();
+        for (const key of [...this.files.keys(), ...this.directories]) {
+            if (key.startsWith(prefix)) names.add(key.slice(prefix.length).split('/')[0]);
+        }
+        return [...names];
+    }
+    async remove(path: string) {
+        this.files.delete(path);
+        this.directories.delete(path);
+    }
+
+    private write(path: string, data: Uint8Array | string) {
+        if (this.failWrites) throw new Error('ENOSPC');
+        this.files.set(path, data);
+    }
+    private read(path: string) {
+        const data = this.files.get(path);
+        if (data === undefined) throw new Error(`ENOENT: ${path}`);
+        return data;
+    }
+}
+
+const DIR = '/docs';
+const PATH = `${DIR}/recording_test.irisrec`;
+const HEADER = { sampleRate: 215, streamType: 'raw' as const, deviceId: 'AA:BB', sessionId: 'session-1' };
+/** Raw binary stream: int16 chunks, like those encodeChunk() builds by default. */
+const BINARY_HEADER = { ...HEADER, streamFormat: 'binary' as const };
+
+function makePackets(count: number, startTimestamp = 1000): StreamDataPacket[] {
+    return Array.from({ length: count }, (_, i) => ({
+        timestamp: startTimestamp + i * 232,
+        values: Array.from({ length: 50 }, (_, j) => ((i * 50 + j) % 8192) - 4096),
+    }));
+}
+
+describe('Chunked recordings', () => {
+    let fs: MemoryFileSystem;
+
+    beforeEach(() => {
+        fs = new MemoryFileSystem();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('round-trips packets through a chunk and rejects corrupted ones', () => {
+        const packets = makePackets(3);
+        const bytes = encodeChunk(7, packets);
+
+        expect(decodeChunk(bytes)).toMatchObject({ sequence: 7, packets });
+
+        bytes[bytes.length - 1] ^= 0xff;
+        expect(() => decodeChunk(bytes)).toThrow(/CRC/);
+        expect(() => decodeChunk(bytes.subarray(0, 30))).toThrow(/truncated/);
+    });
+
+    it('keeps fractional samples in float32 chunks', () => {
+        const packets: StreamDataPacket[] = [{ timestamp: 1000, values: [12.34, -1.5, 40000.25] }];
+
+        expect(decodeChunk(encodeChunk(0, packets, 1, 'float32'), 1, 'float32').packets).toEqual(packets);
+        expect(decodeChunk(encodeChunk(0, packets)).packets[0].values).toEqual([12, -1, 32767]);
+    });
+
+    it('stores raw binary streams as int16 and every other stream as float32', async () => {
+        const rms: StreamDataPacket[] = [{ timestamp: 1000, values: [0.125, 12.34, 873.5] }];
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, { ...HEADER, streamType: 'rms', streamFormat: 'binary' }, 4);
+        await writer.finalize(rms);
+
+        expect((await openRecording(fs, PATH)).header).toMatchObject({ streamType: 'rms', sampleFormat: 'float32' });
+        expect(await readRecordingPackets(fs, PATH)).toEqual(rms);
+        expect(await exportRecordingToCsv(fs, PATH)).toContain('1000.00,0.125\n');
+
+        const rawPath = `${DIR}/recording_raw.irisrec`;
+        await ChunkedRecordingWriter.create(fs, rawPath, BINARY_HEADER, 4);
+        expect((await openRecording(fs, rawPath)).header.sampleFormat).toBe('int16');
+
+        const jsonPath = `${DIR}/recording_json.irisrec`;
+        await ChunkedRecordingWriter.create(fs, jsonPath, { ...HEADER, streamFormat: 'json' }, 4);
+        expect((await openRecording(fs, jsonPath)).header.sampleFormat).toBe('float32');
+    });
+
+    it('reads a header without a sample format as int16', async () => {
+        const packets = makePackets(2);
+        fs.files.set(`${PATH}/header.json`, JSON.stringify({
+            format: 'iris-semg-chunked', version: 1, ...HEADER, createdAt: '2026-01-01T00:00:00.000Z', chunkPackets: 4,
+        }));
+        fs.files.set(`${PATH}/chunk_000000.bin`, encodeChunk(0, packets));
+        fs.files.set(`${PATH}/index.1.json`, JSON.stringify({ generation: 1, chunkCount: 1, packetCount: 2, sampleCount: 100, finalized: true }));
+
+        expect(await readRecordingPackets(fs, PATH)).toEqual(packets);
+    });
+
+    it('writes only full chunks while recording and keeps a single index', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, BINARY_HEADER, 4);
+
+        await writer.append(makePackets(10));
+
+        const names = await fs.list(PATH);
+        expect(names.filter(n => n.startsWith('chunk_')).sort()).toEqual(['chunk_000000.bin', 'chunk_000001.bin']);
+        expect(names.filter(n => n.startsWith('index.'))).toHaveLength(1);
+        expect((await openRecording(fs, PATH)).index).toMatchObject({ chunkCount: 2, sampleCount: 400, finalized: false });
+        expect(writer.sampleCount).toBe(500);
+    });
+
+    it('finalizes the remainder and reads everything back', async () => {
+        const packets = makePackets(10);
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, BINARY_HEADER, 4);
+        await writer.append(packets.slice(0, 6));
+        await writer.append(packets.slice(6));
+
+        const index = await writer.finalize();
+
+        expect(index).toMatchObject({ chunkCount: 3, packetCount: 10, sampleCount: 500, finalized: true });
+        expect(await readRecordingPackets(fs, PATH)).toEqual(packets);
+        expect((await openRecording(fs, PATH)).header).toMatchObject({ ...HEADER, format: 'iris-semg-chunked', chunkPackets: 4, sampleFormat: 'int16' });
+    });
+
+    it('tracks how far the recording has reached from its first sample', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, { ...BINARY_HEADER, sampleRate: 200, recordingId: 'rec-1' }, 4);
+        const packets = makePackets(3, 50_000);
+
+        expect(writer.elapsedMs()).toBe(0);
+        await writer.append(packets.slice(0, 2));
+        expect(writer.elapsedMs()).toBe(232 + 250);
+        expect(writer.elapsedMs(packets.slice(2))).toBe(2 * 232 + 250);
+        expect((await openRecording(fs, PATH)).header.recordingId).toBe('rec-1');
+    });
+
+    it('exports CSV with interpolated per-sample timestamps', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, { ...HEADER, sampleRate: 200 }, 4);
+        await writer.append([{ timestamp: 1000, values: [1, -2] }]);
+        await writer.finalize();
+
+        expect(await exportRecordingToCsv(fs, PATH)).toBe('timestamp,value\n1000.00,1\n1005.00,-2\n');
+    });
+
+    it('stores one column per channel with the channel-to-sensor mapping', async () => {
+        const packets: StreamDataPacket[] = [
+            { timestamp: 1000, values: [1, 2], channels: [[1, 2], [-1, -2], [10, 20]] },
+            { timestamp: 1010, values: [3, 4], channels: [[3, 4], [-3, -4], [30, 40]] },
+        ];
+        const header = { ...HEADER, sampleRate: 200, channelCount: 3, channelSensorIds: ['s-1', 's-2', 's-3'] };
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, header, 4);
+
+        const index = await writer.finalize(packets);
+
+        expect(index).toMatchObject({ packetCount: 2, sampleCount: 4 });
+        expect((await openRecording(fs, PATH)).header).toMatchObject({ version: 2, channelCount: 3, channelSensorIds: ['s-1', 's-2', 's-3'] });
+        expect(await readRecordingPackets(fs, PATH)).toEqual(packets);
+        expect(await exportRecordingToCsv(fs, PATH)).toBe(
+            'timestamp,ch1,ch2,ch3\n1000.00,1,-1,10\n1005.00,2,-2,20\n1010.00,3,-3,30\n1015.00,4,-4,40\n'
+        );
+    });
+
+    it('takes the channel count from the first packet when recording starts before the first frame', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, { ...BINARY_HEADER, channelSensorIds: ['s-1', 's-2', 's-3'] }, 2);
+        expect((await openRecording(fs, PATH)).header.channelCount).toBe(1);
+
+        const packets: StreamDataPacket[] = [
+            { timestamp: 1000, values: [1, 2], channels: [[1, 2], [-1, -2]] },
+            { timestamp: 1010, values: [3, 4], channels: [[3, 4], [-3, -4]] },
+            { timestamp: 1020, values: [5, 6], channels: [[5, 6], [-5, -6]] },
+        ];
+        await writer.append(packets.slice(0, 2));
+
+        expect(writer.header).toMatchObject({ channelCount: 2, channelSensorIds: ['s-1', 's-2'] });
+        expect((await openRecording(fs, PATH)).header).toMatchObject({ channelCount: 2, channelSensorIds: ['s-1', 's-2'] });
+        expect(console.warn).toHaveBeenCalledWith('[Recording] 3 sensor(s) selected for a 2-channel stream');
+
+        await writer.finalize(packets.slice(2));
+        expect(await readRecordingPackets(fs, PATH)).toEqual(packets);
+    });
+
+    it('keeps the header when the channel count was given', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, { ...BINARY_HEADER, channelCount: 1 }, 2);
+        const headerBefore = fs.files.get(`${PATH}/header.json`);
+
+        await writer.finalize(makePackets(3));
+
+        expect(fs.files.get(`${PATH}/header.json`)).toBe(headerBefore);
+    });
+
+    it('reads a version 1 recording as a single channel', async () => {
+        const packets = makePackets(2);
+        fs.directories.add(PATH);
+        fs.files.set(`${PATH}/header.json`, JSON.stringify({ ...HEADER, format: 'iris-semg-chunked', version: 1, createdAt: '', chunkPackets: 4 }));
+        fs.files.set(`${PATH}/index.1.json`, JSON.stringify({ generation: 1, chunkCount: 1, packetCount: 2, sampleCount: 100, finalized: true }));
+        fs.files.set(`${PATH}/chunk_000000.bin`, encodeChunk(0, packets));
+
+        expect(await readRecordingPackets(fs, PATH)).toEqual(packets);
+        expect((await exportRecordingToCsv(fs, PATH)).startsWith('timestamp,value\n')).toBe(true);
+    });
+
+    it('analyzes a stored recording like the packets it was written from', async () => {
+        const packets = makePackets(10);
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, BINARY_HEADER, 4);
+        await writer.finalize(packets);
+
+        expect(await analyzeRecording(fs, PATH)).toEqual(computeEmgFeatures(packets, HEADER.sampleRate));
+    });
+
+    it('keeps packets buffered when a write fails and retries them', async () => {
+        const packets = makePackets(4);
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, BINARY_HEADER, 4);
+
+        fs.failWrites = true;
+        await expect(writer.append(packets)).rejects.toThrow('ENOSPC');
+        fs.failWrites = false;
+        await writer.finalize();
+
+        expect(await readRecordingPackets(fs, PATH)).toEqual(packets);
+    });
+
+    it('recovers chunks written after the last index and drops a torn chunk', async () => {
+        const packets = makePackets(12);
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, BINARY_HEADER, 4);
+        await writer.append(packets.slice(0, 4));
+
+        // Crash: chunk 1 landed but its index did not; chunk 2 was cut short
+        fs.files.set(`${PATH}/chunk_000001.bin`, encodeChunk(1, packets.slice(4, 8)));
+        fs.files.set(`${PATH}/chunk_000002.bin`, encodeChunk(2, packets.slice(8)).subarray(0, 40));
+
+        expect(await findUnfinalizedRecordings(fs, DIR)).toHaveLength(1);
+
+        const recovered = await recoverRecording(fs, PATH);
+
+        expect(recovered.index).toMatchObject({ chunkCount: 2, sampleCount: 400, finalized: true, recovered: true });
+        expect(await readRecordingPackets(fs, PATH)).toEqual(packets.slice(0, 8));
+        expect(await fs.exists(`${PATH}/chunk_000002.bin`)).toBe(false);
+        expect(await findUnfinalizedRecordings(fs, DIR)).toHaveLength(0);
+    });
+
+    it('falls back to the previous index generation when the newest is torn', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, BINARY_HEADER, 4);
+        await writer.append(makePackets(4));
+        const [current] = (await fs.list(PATH)).filter(n => n.startsWith('index.'));
+        const generation = parseInt(current.split('.')[1], 10);
+
+        fs.files.set(`${PATH}/index.${generation + 1}.json`, '{"generation":');
+
+        expect((await openRecording(fs, PATH)).index.chunkCount).toBe(1);
+    });
+});
@@ -0,0 +1,232 @@
+/**
+ * Chunked Recording Writer
+ *
+ * Appends sEMG packets to a recording as fixed-size binary chunks. Each full
+ * chunk is written to its own file followed by a new index generation, so
+ * the cost of a flush does not grow with the recording and a crash loses at
+ * most the packets of the chunk being filled.
+ */
+
+import { StreamDataPacket, StreamFormat, StreamType } from '@iris/domain';
+import { RecordingFileSystem, joinPath } from './RecordingFileSystem';
+import {
+    RecordingHeader,
+    RecordingIndex,
+    RECORDING_FORMAT,
+    RECORDING_FORMAT_VERSION,
+    RECORDING_CHUNK_PACKETS,
+    RECORDING_HEADER_FILE,
+    chunkFileName,
+    indexFileName,
+    encodeChunk,
+    recordingChannelCount,
+    recordingSampleFormat,
+    sampleFormatForStream,
+} from './recordingFormat';
+import { RecordingClock } from './recordingViewport';
+
+export interface NewRecordingHeader {
+    sampleRate: number;
+    streamType: StreamType;
+    deviceId: string | null;
+    sessionId: string;
+    recordingId?: string;
+    /** Wire format of the stream; picks the sample format (see sampleFormatForStream). */
+    streamFormat?: StreamFormat | null;
+    /**
+     * Default: the channels of the first packet appended. A stream's channel
+     * count is only known once its first frame is decoded, which may come
+     * after the recording starts.
+     */
+    channelCount?: number;
+    /** Cut to the channel count once it is known. */
+    channelSensorIds?: string[];
+}
+
+export class ChunkedRecordingWriter {
+    private pending: StreamDataPacket[] = [];
+    private chunkCount = 0;
+    private packetCount = 0;
+    private writtenSamples = 0;
+    private appendedSamples = 0;
+    private generation = 0;
+    private finalized = false;
+    /** channelCount still to be taken from the first packet. */
+    private channelCountPending: boolean;
+    /** Header changed since it was written; rewritten before the next chunk. */
+    private headerDirty = false;
+    /** Serializes disk writes; append() and finalize() may overlap. */
+    private queue: Promise<unknown> = Promise.resolve();
+    private readonly clock: RecordingClock;
+
+    private constructor(
+        private readonly fs: RecordingFileSystem,
+        readonly path: string,
+        readonly header: RecordingHeader,
+        channelCountKnown: boolean
+    ) {
+        this.clock = new RecordingClock(header.sampleRate);
+        this.channelCountPending = !channelCountKnown;
+    }
+
+    /**
+     * Create the recording directory with its header and an empty index.
+     */
+    static async create(
+        fs: RecordingFileSystem,
+        path: string,
+        header: NewRecordingHeader,
+        chunkPackets: number = RECORDING_CHUNK_PACKETS
+    ): Promise<ChunkedRecordingWriter> {
+        const { streamFormat, ...rest } = header;
+        const fullHeader: RecordingHeader = {
+            format: RECORDING_FORMAT,
+            version: RECORDING_FORMAT_VERSION,
+            ...rest,
+            channelCount: header.channelCount ?? 1,
+            sampleFormat: sampleFormatForStream(header.streamType, streamFormat),
+            createdAt: new Date().toISOString(),
+            chunkPackets,
+        };
+
+        await fs.makeDirectory(path);
+        await fs.writeText(joinPath(path, RECORDING_HEADER_FILE), JSON.stringify(fullHeader));
+
+        const emptyIndex: RecordingIndex = { generation: 0, chunkCount: 0, packetCount: 0, sampleCount: 0, finalized: false };
+        await fs.writeText(joinPath(path, indexFileName(0)), JSON.stringify(emptyIndex));
+        return new ChunkedRecordingWriter(fs, path, fullHeader, header.channelCount !== undefined);
+    }
+
+    /** Samples per channel handed to append(), written or not. */
+    get sampleCount(): number {
+        return this.appendedSamples;
+    }
+
+    /**
+     * Offset (ms from the first sample) the recording has reached, on the
+     * timeline the viewer lays it out on, counting `upcoming` packets that
+     * are not appended yet.
+     */
+    elapsedMs(upcoming: StreamDataPacket[] = []): number {
+        return this.clock.elapsedMs(upcoming);
+    }
+
+    /**
+     * Buffer packets and write every chunk that is full. If a write fails the
+     * packets stay buffered and are retried by the next append/finalize.
+     */
+    append(packets: StreamDataPacket[]): Promise<void> {
+        if (this.finalized) {
+            return Promise.reject(new Error('Recording already finalized'));
+        }
+        this.adoptChannelCount(packets);
+        for (const packet of packets) {
+            this.pending.push(packet);
+            this.appendedSamples += packet.values.length;
+        }
+        this.clock.advance(packets);
+        return this.enqueue(async () => {
+            while (this.pending.length >= this.header.chunkPackets) {
+                await this.writeChunk(this.pending.slice(0, this.header.chunkPackets));
+            }
+        });
+    }
+
+    /**
+     * Write `remaining` plus everything still buffered — the last chunk may be
+     * shorter — and mark the index finalized. Safe to call more than once.
+     */
+    finalize(remaining: StreamDataPacket[] = []): Promise<RecordingIndex> {
+        if (!this.finalized) {
+            this.adoptChannelCount(remaining);
+        }
+        for (const packet of remaining) {
+            this.pending.push(packet);
+            this.appendedSamples += packet.values.length;
+        }
+        this.clock.advance(remaining);
+        this.finalized = true;
+        return this.enqueue(async () => {
+            while (this.pending.length > 0) {
+                await this.writeChunk(this.pending.slice(0, this.header.chunkPackets));
+            }
+            const index = this.buildIndex(true);
+            await this.writeIndex(index);
+            return index;
+        });
+    }
+
+    // ── Internals ──────────────────────────────────────────────────────────────
+
+    /**
+     * Take the channel count from the first packet; the header is rewritten
+     * before the first chunk is.
+     */
+    private adoptChannelCount(packets: StreamDataPacket[]): void {
+        if (!this.channelCountPending || packets.length === 0) return;
+        this.channelCountPending = false;
+
+        const channelCount = packets[0].channels?.length ?? 1;
+        const sensorIds = this.header.channelSensorIds ?? [];
+        if (sensorIds.length > 0 && sensorIds.length !== channelCount) {
+            console.warn(`[Recording] ${sensorIds.length} sensor(s) selected for a ${channelCount}-channel stream`);
+        }
+        this.header.channelCount = channelCount;
+        if (this.header.channelSensorIds) {
+            this.header.channelSensorIds = sensorIds.slice(0, channelCount);
+        }
+        this.headerDirty = true;
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Header (if changed) first, then the chunk file, then the index that
+     * references it: an index never counts a chunk that is not fully on disk.
+     */
+    private async writeChunk(packets: StreamDataPacket[]): Promise<void> {
+        if (this.headerDirty) {
+            await this.fs.writeText(joinPath(this.path, RECORDING_HEADER_FILE), JSON.stringify(this.header));
+            this.headerDirty = false;
+        }
+        const sequence = this.chunkCount;
+        const bytes = encodeChunk(sequence, packets, recordingChannelCount(this.header), recordingSampleFormat(this.header));
+        await this.fs.writeBytes(joinPath(this.path, chunkFileName(sequence)), bytes);
+
+        this.pending.splice(0, packets.length);
+        this.chunkCount++;
+        this.packetCount += packets.length;
+        for (const packet of packets) {
+            this.writtenSamples += packet.values.length;
+        }
+
+        await this.writeIndex(this.buildIndex());
+    }
+
+    private async writeIndex(index: RecordingIndex): Promise<void> {
+        await this.fs.writeText(joinPath(this.path, indexFileName(index.generation)), JSON.stringify(index));
+        const previous = this.generation;
+        this.generation = index.generation;
+        try {
+            await this.fs.remove(joinPath(this.path, indexFileName(previous)));
+        } catch (error) {
+            // A stale generation is harmless: readers take the highest one
+            console.warn('[Recording] Could not remove old index:', error);
+        }
+    }
+
+    private buildIndex(finalized = false): RecordingIndex {
+        return {
+            generation: this.generation + 1,
+            chunkCount: this.chunkCount,
+            packetCount: this.packetCount,
+            sampleCount: this.writtenSamples,
+            finalized,
+            ...(finalized ? { finalizedAt: new Date().toISOString() } : {}),
+        };
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Encrypted Recording File System Tests
+ *
+ * Recordings written through the encrypting file system are unreadable on
+ * disk, plaintext recordings from earlier installs still read, and
+ * protectRecording() brings files under the current key after a rotation.
+ *
+ * Run with: npx vitest run src/recording
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { StreamDataPacket } from '@iris/domain';
+import { DataKey, DataKeyProvider, encryptedKeyId, generateDataKey } from '../crypto/dataEncryption';
+import { EncryptedRecordingFileSystem } from './EncryptedRecordingFileSystem';
+import { ChunkedRecordingWriter } from './ChunkedRecordingWriter';
+import type { RecordingFileSystem } from './RecordingFileSystem';
+import { readRecordingPackets } from './recordingReader';
+
+class MemoryFileSystem implements RecordingFileSystem {
+    readonly files = new Map<string, Uint8Array>();
+    readonly directories = new Set<string>();
+
+    async makeDirectory(path: string) { this.directories.add(path); }
+    async writeBytes(path: string, bytes: Uint8Array) { this.files.set(path, bytes.slice()); }
+    async readBytes(path: string) {
+        const data = this.files.get(path);
+        if (data === undefined) throw new Error(`ENOENT: ${path}`);
+        return data;
+    }
+    async writeText(path: string, text: string) { this.files.set(path, new Uint8Array(Buffer.from(text, 'utf8'))); }
+    async readText(path: string) { return Buffer.from(await this.readBytes(path)).toString('utf8'); }
+    async exists(path: string) { return this.files.has(path) || this.directories.has(path); }
+    async list(path: string) {
+        const prefix = `${path}/`;
+        return [...this.files.keys()].filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length));
+    }
+    async remove(path: string) {
+        this.files.delete(path);
+        this.directories.delete(path);
+    }
+}
+
+/** Key ring stand-in: a current key plus older ones. */
+class MemoryKeys implements DataKeyProvider {
+    readonly keys = new Map<string, DataKey>();
+    current: DataKey;
+
+    constructor() {
+        this.current = generateDataKey();
+        this.keys.set(this.current.id, this.current);
+    }
+
+    rotate(): DataKey {
+        this.current = generateDataKey();
+        this.keys.set(this.current.id, this.current);
+        return this.current;
+    }
+
+    currentKey() { return this.current; }
+    getKey(id: string) { return this.keys.get(id) ?? null; }
+}
+
+const DIR = '/docs';
+const PATH = `${DIR}/recording_test.irisrec`;
+const HEADER = { sampleRate: 215, streamType: 'raw' as const, deviceId: 'AA:BB', sessionId: 'session-1' };
+
+function makePackets(count: number): StreamDataPacket[] {
+    return Array.from({ length: count }, (_, i) => ({
+        timestamp: 1000 + i * 232,
+        values: Array.from({ length: 50 }, (_, j) => i * 50 + j),
+    }));
+}
+
+describe('EncryptedRecordingFileSystem', () => {
+    let disk: MemoryFileSystem;
+    let keys: MemoryKeys;
+    let fs: EncryptedRecordingFileSystem;
+
+    beforeEach(() => {
+        disk = new MemoryFileSystem();
+        keys = new MemoryKeys();
+        fs = new EncryptedRecordingFileSystem(disk, keys);
+    });
+
+    it('should write every recording file encrypted and read it back', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, HEADER, 4);
+        await writer.finalize(makePackets(10));
+
+        for (const [path, data] of disk.files) {
+            expect(encryptedKeyId(data), path).toBe(keys.current.id);
+        }
+        expect(await readRecordingPackets(fs, PATH)).toEqual(makePackets(10));
+    });
+
+    it('should read plaintext files from before encryption', async () => {
+        const csvPath = `${DIR}/recording_legacy.csv`;
+        await disk.writeText(csvPath, 'timestamp,value\n');
+
+        expect(await fs.readText(csvPath)).toBe('timestamp,value\n');
+    });
+
+    it('should encrypt a plaintext recording in place', async () => {
+        const writer = await ChunkedRecordingWriter.create(disk, PATH, HEADER, 4);
+        await writer.finalize(makePackets(10));
+        const fileCount = disk.files.size;
+
+        expect(await fs.protectRecording(PATH)).toBe(fileCount);
+        for (const data of disk.files.values()) {
+            expect(encryptedKeyId(data)).toBe(keys.current.id);
+        }
+        expect(await readRecordingPackets(fs, PATH)).toEqual(makePackets(10));
+    });
+
+    it('should re-encrypt files under an older key after a rotation', async () => {
+        const csvPath = `${DIR}/recording_sim.csv`;
+        await fs.writeText(csvPath, 'timestamp,value\n1000,1\n');
+        const oldKeyId = keys.current.id;
+
+        const newKey = keys.rotate();
+        // Still readable under the old key before it is re-encrypted
+        expect(await fs.readText(csvPath)).toBe('timestamp,value\n1000,1\n');
+
+        expect(await fs.protectRecording(csvPath)).toBe(1);
+        expect(encryptedKeyId(disk.files.get(csvPath)!)).toBe(newKey.id);
+
+        keys.keys.delete(oldKeyId);
+        expect(await fs.readText(csvPath)).toBe('timestamp,value\n1000,1\n');
+        // Already under the current key: nothing to rewrite
+        expect(await fs.protectRecording(csvPath)).toBe(0);
+    });
+
+    it('should not rewrite the chunk files of a recording twice', async () => {
+        const writer = await ChunkedRecordingWriter.create(fs, PATH, HEADER, 4);
+        await writer.finalize(makePackets(6));
+        const before = new Map(disk.files);
+
+        expect(await fs.protectRecording(PATH)).toBe(0);
+        for (const [path, data] of disk.files) {
+            expect(data).toBe(before.get(path));
+        }
+    });
+});
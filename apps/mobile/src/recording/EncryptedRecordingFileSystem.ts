@@ -0,0 +1,87 @@
+/**
+ * Encrypted Recording File System
+ *
+ * RecordingFileSystem that encrypts everything it writes with the current
+ * data key and decrypts on read. Files written before encryption was
+ * introduced are read as plaintext until protectRecording() converts them;
+ * the same call re-encrypts files written under an older key after a
+ * rotation.
+ */
+
+import {
+    DataKeyProvider,
+    decryptData,
+    encryptData,
+    encryptedKeyId,
+} from '../crypto/dataEncryption';
+import { RecordingFileSystem, joinPath } from './RecordingFileSystem';
+import { isChunkedRecording } from './recordingFormat';
+
+export class EncryptedRecordingFileSystem implements RecordingFileSystem {
+    constructor(
+        private readonly inner: RecordingFileSystem,
+        private readonly keys: DataKeyProvider
+    ) {}
+
+    makeDirectory(path: string): Promise<void> {
+        return this.inner.makeDirectory(path);
+    }
+
+    async writeBytes(path: string, bytes: Uint8Array): Promise<void> {
+        await this.inner.writeBytes(path, encryptData(bytes, this.keys.currentKey()));
+    }
+
+    async readBytes(path: string): Promise<Uint8Array> {
+        const data = await this.inner.readBytes(path);
+        return encryptedKeyId(data) === null ? data : decryptData(data, this.keys);
+    }
+
+    async writeText(path: string, text: string): Promise<void> {
+        await this.writeBytes(path, new Uint8Array(Buffer.from(text, 'utf8')));
+    }
+
+    async readText(path: string): Promise<string> {
+        return Buffer.from(await this.readBytes(path)).toString('utf8');
+    }
+
+    list(path: string): Promise<string[]> {
+        return this.inner.list(path);
+    }
+
+    exists(path: string): Promise<boolean> {
+        return this.inner.exists(path);
+    }
+
+    remove(path: string): Promise<void> {
+        return this.inner.remove(path);
+    }
+
+    /**
+     * Bring a recording under the current key: a chunked recording file by
+     * file, a legacy CSV as a whole. Returns the number of files rewritten.
+     */
+    async protectRecording(path: string): Promise<number> {
+        if (!isChunkedRecording(path)) {
+            return (await this.protectFile(path)) ? 1 : 0;
+        }
+        let rewritten = 0;
+        for (const name of await this.inner.list(path)) {
+            if (await this.protectFile(joinPath(path, name))) {
+                rewritten++;
+            }
+        }
+        return rewritten;
+    }
+
+    /**
+     * Rewrite a file under the current key unless it already is.
+     */
+    private async protectFile(path: string): Promise<boolean> {
+        const data = await this.inner.readBytes(path);
+        if (encryptedKeyId(data) === this.keys.currentKey().id) {
+            return false;
+        }
+        await this.writeBytes(path, encryptedKeyId(data) === null ? data : decryptData(data, this.keys));
+        return true;
+    }
+}
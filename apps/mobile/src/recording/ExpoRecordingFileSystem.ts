@@ -0,0 +1,60 @@
+/**
+ * Expo Recording File System
+ *
+ * RecordingFileSystem on top of expo-file-system. Binary data goes through
+ * base64 because the legacy API has no byte-level read/write.
+ *
+ * The shared instance encrypts at rest with the device's data key; the
+ * class itself reads and writes plaintext.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import type { RecordingFileSystem } from './RecordingFileSystem';
+import { EncryptedRecordingFileSystem } from './EncryptedRecordingFileSystem';
+import { dataKeyStore } from '../crypto/DataKeyStore';
+
+export class ExpoRecordingFileSystem implements RecordingFileSystem {
+    async makeDirectory(path: string): Promise<void> {
+        await FileSystem.makeDirectoryAsync(path, { intermediates: true });
+    }
+
+    async writeBytes(path: string, bytes: Uint8Array): Promise<void> {
+        await FileSystem.writeAsStringAsync(path, Buffer.from(bytes).toString('base64'), {
+            encoding: FileSystem.EncodingType.Base64,
+        });
+    }
+
+    async readBytes(path: string): Promise<Uint8Array> {
+        const base64 = await FileSystem.readAsStringAsync(path, {
+            encoding: FileSystem.EncodingType.Base64,
+        });
+        return new Uint8Array(Buffer.from(base64, 'base64'));
+    }
+
+    async writeText(path: string, text: string): Promise<void> {
+        await FileSystem.writeAsStringAsync(path, text, {
+            encoding: FileSystem.EncodingType.UTF8,
+        });
+    }
+
+    async readText(path: string): Promise<string> {
+        return FileSystem.readAsStringAsync(path, {
+            encoding: FileSystem.EncodingType.UTF8,
+        });
+    }
+
+    async list(path: string): Promise<string[]> {
+        return FileSystem.readDirectoryAsync(path);
+    }
+
+    async exists(path: string): Promise<boolean> {
+        const info = await FileSystem.getInfoAsync(path);
+        return info.exists;
+    }
+
+    async remove(path: string): Promise<void> {
+        await FileSystem.deleteAsync(path, { idempotent: true });
+    }
+}
+
+export const expoRecordingFileSystem = new EncryptedRecordingFileSystem(new ExpoRecordingFileSystem(), dataKeyStore);
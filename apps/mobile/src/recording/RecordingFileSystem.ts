@@ -0,0 +1,25 @@
+/**
+ * Recording File System
+ *
+ * The few file operations the chunked recording writer and reader need.
+ * Paths are absolute; directories are given without a trailing slash.
+ * ExpoRecordingFileSystem implements this on device; tests use an
+ * in-memory implementation.
+ */
+
+export interface RecordingFileSystem {
+    makeDirectory(path: string): Promise<void>;
+    writeBytes(path: string, bytes: Uint8Array): Promise<void>;
+    readBytes(path: string): Promise<Uint8Array>;
+    writeText(path: string, text: string): Promise<void>;
+    readText(path: string): Promise<string>;
+    /** Names (not paths) of the entries in a directory. */
+    list(path: string): Promise<string[]>;
+    exists(path: string): Promise<boolean>;
+    /** Removes a file or a directory with its contents. Missing paths are ignored. */
+    remove(path: string): Promise<void>;
+}
+
+export function joinPath(directory: string, name: string): string {
+    return `${directory.replace(/\/$/, '')}/${name}`;
+}
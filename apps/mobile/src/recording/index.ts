@@ -0,0 +1,63 @@
+/**
+ * Recording Barrel Export
+ *
+ * Chunked binary sEMG recordings: writer, reader, encryption at rest,
+ * crash recovery, CSV export, feature analysis and the viewer's viewport
+ * helpers.
+ * ExpoRecordingFileSystem and recordingContent are imported directly where
+ * needed so this barrel stays free of native modules.
+ */
+
+export type { RecordingFileSystem } from './RecordingFileSystem';
+export { joinPath } from './RecordingFileSystem';
+export { EncryptedRecordingFileSystem } from './EncryptedRecordingFileSystem';
+export { ChunkedRecordingWriter } from './ChunkedRecordingWriter';
+export type { NewRecordingHeader } from './ChunkedRecordingWriter';
+export {
+    openRecording,
+    forEachRecordingChunk,
+    readRecordingPackets,
+    exportRecordingToCsv,
+    recoverRecording,
+    findUnfinalizedRecordings,
+} from './recordingReader';
+export type { StoredRecording } from './recordingReader';
+export { analyzeRecording } from './recordingAnalysis';
+export {
+    MIN_VIEWPORT_MS,
+    seriesFromPackets,
+    seriesFromCsv,
+    RecordingClock,
+    fullViewport,
+    zoomViewport,
+    panViewport,
+    downsampleMinMax,
+    placeMarkers,
+    markersInViewport,
+} from './recordingViewport';
+export type {
+    SignalSeries,
+    Viewport,
+    SeriesPoint,
+    RecordingMarker,
+    RecordingMarkerKind,
+    TimelineEvent,
+} from './recordingViewport';
+export {
+    RECORDING_FORMAT,
+    RECORDING_FORMAT_VERSION,
+    RECORDING_EXTENSION,
+    RECORDING_CHUNK_PACKETS,
+    RECORDING_CSV_HEADER,
+    isChunkedRecording,
+    recordingChannelCount,
+    recordingSampleFormat,
+    sampleFormatForStream,
+    packetChannels,
+    encodeChunk,
+    decodeChunk,
+    recordingCsvHeader,
+    packetToCsvRows,
+    crc32,
+} from './recordingFormat';
+export type { RecordingHeader, RecordingIndex, RecordingSampleFormat, DecodedChunk } from './recordingFormat';
@@ -0,0 +1,27 @@
+/**
+ * Recording Analysis
+ *
+ * Runs the shared @iris/domain sEMG feature set over a chunked recording,
+ * so stored recordings are analysed exactly like live or desktop data.
+ */
+
+import { computeEmgFeatures, EmgFeatures, EmgFeatureOptions } from '@iris/domain';
+import type { RecordingFileSystem } from './RecordingFileSystem';
+import { openRecording, forEachRecordingChunk } from './recordingReader';
+
+export async function analyzeRecording(
+    fs: RecordingFileSystem,
+    path: string,
+    options: EmgFeatureOptions = {}
+): Promise<EmgFeatures> {
+    const recording = await openRecording(fs, path);
+    const samples: number[] = [];
+    await forEachRecordingChunk(fs, recording, packets => {
+        for (const packet of packets) {
+            for (const value of packet.values) {
+                samples.push(value);
+            }
+        }
+    });
+    return computeEmgFeatures(samples, recording.header.sampleRate, options);
+}
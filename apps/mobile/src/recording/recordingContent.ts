@@ -0,0 +1,91 @@
+/**
+ * Recording Content
+ *
+ * Loads a saved Recording from wherever it lives: the local file (chunked
+ * or legacy CSV) first, then its blob URL. Used by the history export and
+ * the recording viewer.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import type { Recording } from '@iris/domain';
+import { isChunkedRecording } from './recordingFormat';
+import { openRecording, readRecordingPackets, exportRecordingToCsv } from './recordingReader';
+import { seriesFromPackets, seriesFromCsv, SignalSeries } from './recordingViewport';
+import { expoRecordingFileSystem } from './ExpoRecordingFileSystem';
+
+export interface LoadedRecordingSeries {
+    series: SignalSeries;
+    startedAt: string; // ISO 8601, wall-clock time of the first sample
+}
+
+/**
+ * Resolve CSV content for a recording using local file first, then blob URL fallback.
+ * Downloads to a temp file to avoid loading large CSVs into JS heap on low-end devices.
+ */
+export async function resolveRecordingContent(rec: Recording): Promise<string> {
+    // Case 1: Try local file first
+    if (rec.filePath) {
+        const fileInfo = await FileSystem.getInfoAsync(rec.filePath);
+        if (fileInfo.exists && isChunkedRecording(rec.filePath)) {
+            return exportRecordingToCsv(expoRecordingFileSystem, rec.filePath);
+        }
+        if (fileInfo.exists) {
+            return expoRecordingFileSystem.readText(rec.filePath);
+        }
+    }
+
+    // Case 2: Fetch from blob URL via temp file
+    if (rec.blobUrl) {
+        try {
+            const tmpPath = FileSystem.cacheDirectory + `tmp_${rec.id}.csv`;
+            const download = await FileSystem.downloadAsync(rec.blobUrl, tmpPath);
+            if (download.status === 200) {
+                const content = await FileSystem.readAsStringAsync(tmpPath, {
+                    encoding: FileSystem.EncodingType.UTF8,
+                });
+                await FileSystem.deleteAsync(tmpPath, { idempotent: true });
+                return content;
+            }
+            await FileSystem.deleteAsync(tmpPath, { idempotent: true });
+            return '# Failed to download recording from server\n';
+        } catch {
+            return '# Recording data is on server (offline)\n';
+        }
+    }
+
+    // Case 3: Neither local file nor blob URL available
+    return '# No recording data available\n';
+}
+
+/**
+ * Load a recording as a time series for viewing. Local chunked recordings
+ * are decoded directly (keeping device timestamps and the exact start
+ * time); everything else goes through resolveRecordingContent, with the
+ * start estimated from recordedAt and the duration.
+ */
+export async function loadRecordingSeries(rec: Recording): Promise<LoadedRecordingSeries> {
+    if (rec.filePath && isChunkedRecording(rec.filePath)) {
+        const fileInfo = await FileSystem.getInfoAsync(rec.filePath);
+        if (fileInfo.exists) {
+            const stored = await openRecording(expoRecordingFileSystem, rec.filePath);
+            const packets = await readRecordingPackets(expoRecordingFileSystem, rec.filePath);
+            return {
+                series: seriesFromPackets(packets, stored.header.sampleRate),
+                startedAt: stored.header.createdAt,
+            };
+        }
+    }
+
+    const csv = await resolveRecordingContent(rec);
+    const series = seriesFromCsv(csv, rec.sampleRate);
+    if (series.values.length === 0) {
+        // resolveRecordingContent reports why as a comment line
+        throw new Error(csv.replace(/^#\s*/, '').trim() || 'Recording has no samples');
+    }
+
+    const recordedAt = new Date(rec.recordedAt).getTime();
+    return {
+        series,
+        startedAt: new Date(recordedAt - rec.durationSeconds * 1000).toISOString(),
+    };
+}
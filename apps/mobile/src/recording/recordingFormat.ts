@@ -0,0 +1,300 @@
+/**
+ * Chunked Recording Format
+ *
+ * On-disk layout of an sEMG recording. A recording is a directory
+ * (`recording_<ts>.irisrec`) holding:
+ *   header.json          RecordingHeader, written once at start
+ *   chunk_000000.bin     fixed-size binary chunks, never rewritten
+ *   index.<gen>.json     RecordingIndex; each update writes generation+1 and
+ *                        then deletes the previous one, so a crash always
+ *                        leaves at least one complete index behind. The
+ *                        index only holds totals, so its size is constant.
+ *
+ * Chunk layout (little-endian):
+ *   [0-3]   uint32  magic          'IRCK'
+ *   [4-7]   uint32  sequence       chunk number, from 0
+ *   [8-11]  uint32  payload length bytes after the header
+ *   [12-15] uint32  CRC-32         of the payload
+ *   payload, per packet:
+ *     uint32  timestamp    device millis() of the first sample
+ *     uint16  sample count per channel
+ *     samples, sample count × header.channelCount, interleaved
+ *             (c0 c1 c0 c1 ...), as header.sampleFormat: int16 for raw
+ *             binary streams (the ADC's native resolution), float32 for
+ *             filtered, RMS and JSON streams so they are stored as shown
+ *
+ * Version 1 headers have no channelCount and hold a single channel, which
+ * encodes exactly like a version 2 single-channel recording.
+ */
+
+import { StreamDataPacket, StreamFormat, StreamType } from '@iris/domain';
+
+export const RECORDING_FORMAT = 'iris-semg-chunked';
+export const RECORDING_FORMAT_VERSION = 2;
+export const RECORDING_EXTENSION = '.irisrec';
+
+/** Packets per chunk: 20 × 50 samples ≈ 4.7 s at 215 Hz. */
+export const RECORDING_CHUNK_PACKETS = 20;
+
+export const RECORDING_HEADER_FILE = 'header.json';
+export const RECORDING_CSV_HEADER = 'timestamp,value\n';
+
+const CHUNK_MAGIC = 0x4b435249; // 'IRCK'
+const CHUNK_HEADER_SIZE = 16;
+const PACKET_HEADER_SIZE = 6;
+
+/** How samples are stored in chunks. */
+export type RecordingSampleFormat = 'int16' | 'float32';
+
+const SAMPLE_SIZE: Record<RecordingSampleFormat, number> = { int16: 2, float32: 4 };
+
+/**
+ * Written once when the recording starts.
+ */
+export interface RecordingHeader {
+    format: typeof RECORDING_FORMAT;
+    version: number;
+    sampleRate: number;
+    streamType: StreamType;
+    deviceId: string | null;
+    sessionId: string;
+    createdAt: string; // ISO 8601
+    chunkPackets: number;
+    /** Absent in version 1, which is always one channel. */
+    channelCount?: number;
+    /** Sensor recorded on each channel, in channel order. */
+    channelSensorIds?: string[];
+    /** Absent means int16. */
+    sampleFormat?: RecordingSampleFormat;
+    /** Id the recording is saved under, so annotations made during capture stay attached. */
+    recordingId?: string;
+}
+
+export interface RecordingIndex {
+    generation: number;
+    /** Chunks 0..chunkCount-1 are complete and verified. */
+    chunkCount: number;
+    packetCount: number;
+    /** Samples per channel. */
+    sampleCount: number;
+    finalized: boolean;
+    finalizedAt?: string;
+    /** Set when the index was rebuilt from chunk files after a crash. */
+    recovered?: boolean;
+}
+
+export interface DecodedChunk {
+    sequence: number;
+    packets: StreamDataPacket[];
+    crc32: number;
+}
+
+export function recordingChannelCount(header: RecordingHeader): number {
+    return header.channelCount ?? 1;
+}
+
+export function recordingSampleFormat(header: RecordingHeader): RecordingSampleFormat {
+    return header.sampleFormat ?? 'int16';
+}
+
+/**
+ * Raw samples in binary frames are int16 ADC counts and are stored as they
+ * arrived. Filtered and RMS samples are computed on the device and carry
+ * fractions, and JSON (legacy firmware) streams send numbers of any precision.
+ */
+export function sampleFormatForStream(streamType: StreamType, streamFormat: StreamFormat | null = null): RecordingSampleFormat {
+    return streamType === 'raw' && streamFormat === 'binary' ? 'int16' : 'float32';
+}
+
+/**
+ * Samples of every channel of a packet; a single-channel packet has one.
+ */
+export function packetChannels(packet: StreamDataPacket): number[][] {
+    return packet.channels ?? [packet.values];
+}
+
+export function isChunkedRecording(path: string): boolean {
+    return path.replace(/\/$/, '').endsWith(RECORDING_EXTENSION);
+}
+
+export function chunkFileName(sequence: number): string {
+    return `chunk_${String(sequence).padStart(6, '0')}.bin`;
+}
+
+export function indexFileName(generation: number): string {
+    return `index.${generation}.json`;
+}
+
+/** Generation of an index file name, or null for any other file. */
+export function parseIndexFileName(name: string): number | null {
+    const match = /^index\.(\d+)\.json$/.exec(name);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+export function isChunkFileName(name: string): boolean {
+    return /^chunk_\d{6}\.bin$/.test(name);
+}
+
+// ── CRC-32 (IEEE 802.3) ──────────────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ── Chunk codec ──────────────────────────────────────────────────────────────
+
+function toInt16(value: number): number {
+    return Math.max(-32768, Math.min(32767, Math.round(value)));
+}
+
+/**
+ * float32 widened back to a number: rounded to the 7 significant digits
+ * float32 holds, so 12.34 reads back as 12.34 rather than 12.340000152587891.
+ */
+function fromFloat32(value: number): number {
+    return Number(value.toPrecision(7));
+}
+
+/**
+ * Encode packets into one chunk. Samples are stored as int16 (rounded and
+ * clamped) or float32, see RecordingHeader.sampleFormat; timestamps as uint32
+ * device millis. A packet with fewer channels than the recording (e.g. an
+ * electrode lead dropping out) is padded with zeros, extra channels are not
+ * stored.
+ */
+export function encodeChunk(
+    sequence: number,
+    packets: StreamDataPacket[],
+    channelCount = 1,
+    sampleFormat: RecordingSampleFormat = 'int16'
+): Uint8Array {
+    const sampleSize = SAMPLE_SIZE[sampleFormat];
+    let payloadLength = 0;
+    for (const packet of packets) {
+        payloadLength += PACKET_HEADER_SIZE + packet.values.length * channelCount * sampleSize;
+    }
+
+    const bytes = new Uint8Array(CHUNK_HEADER_SIZE + payloadLength);
+    const view = new DataView(bytes.buffer);
+    let offset = CHUNK_HEADER_SIZE;
+
+    for (const packet of packets) {
+        const channels = packetChannels(packet);
+        view.setUint32(offset, packet.timestamp >>> 0, true);
+        view.setUint16(offset + 4, packet.values.length, true);
+        offset += PACKET_HEADER_SIZE;
+        for (let i = 0; i < packet.values.length; i++) {
+            for (let c = 0; c < channelCount; c++) {
+                const value = channels[c]?.[i] ?? 0;
+                if (sampleFormat === 'float32') {
+                    view.setFloat32(offset, value, true);
+                } else {
+                    view.setInt16(offset, toInt16(value), true);
+                }
+                offset += sampleSize;
+            }
+        }
+    }
+
+    const payload = bytes.subarray(CHUNK_HEADER_SIZE);
+    view.setUint32(0, CHUNK_MAGIC, true);
+    view.setUint32(4, sequence, true);
+    view.setUint32(8, payloadLength, true);
+    view.setUint32(12, crc32(payload), true);
+    return bytes;
+}
+
+/**
+ * Decode and verify a chunk. Throws on a bad magic, truncated payload or
+ * CRC mismatch — i.e. a chunk that was only partially written.
+ */
+export function decodeChunk(
+    bytes: Uint8Array,
+    channelCount = 1,
+    sampleFormat: RecordingSampleFormat = 'int16'
+): DecodedChunk {
+    if (bytes.length < CHUNK_HEADER_SIZE) {
+        throw new Error('Recording chunk truncated: missing header');
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.getUint32(0, true) !== CHUNK_MAGIC) {
+        throw new Error('Recording chunk has bad magic');
+    }
+
+    const sequence = view.getUint32(4, true);
+    const payloadLength = view.getUint32(8, true);
+    const expectedCrc = view.getUint32(12, true);
+    if (bytes.length < CHUNK_HEADER_SIZE + payloadLength) {
+        throw new Error(`Recording chunk ${sequence} truncated`);
+    }
+
+    const payload = bytes.subarray(CHUNK_HEADER_SIZE, CHUNK_HEADER_SIZE + payloadLength);
+    const actualCrc = crc32(payload);
+    if (actualCrc !== expectedCrc) {
+        throw new Error(`Recording chunk ${sequence} failed CRC check`);
+    }
+
+    const packets: StreamDataPacket[] = [];
+    let offset = CHUNK_HEADER_SIZE;
+    const end = CHUNK_HEADER_SIZE + payloadLength;
+    while (offset + PACKET_HEADER_SIZE <= end) {
+        const timestamp = view.getUint32(offset, true);
+        const count = view.getUint16(offset + 4, true);
+        offset += PACKET_HEADER_SIZE;
+        const channels: number[][] = Array.from({ length: channelCount }, () => new Array(count));
+        for (let i = 0; i < count; i++) {
+            for (let c = 0; c < channelCount; c++) {
+                channels[c][i] = sampleFormat === 'float32'
+                    ? fromFloat32(view.getFloat32(offset, true))
+                    : view.getInt16(offset, true);
+                offset += SAMPLE_SIZE[sampleFormat];
+            }
+        }
+        packets.push(channelCount > 1 ? { timestamp, values: channels[0], channels } : { timestamp, values: channels[0] });
+    }
+
+    return { sequence, packets, crc32: expectedCrc };
+}
+
+/**
+ * CSV header line: `timestamp,value` for one channel, `timestamp,ch1,ch2,...`
+ * for several.
+ */
+export function recordingCsvHeader(channelCount: number): string {
+    if (channelCount <= 1) {
+        return RECORDING_CSV_HEADER;
+    }
+    const columns = Array.from({ length: channelCount }, (_, c) => `ch${c + 1}`);
+    return `timestamp,${columns.join(',')}\n`;
+}
+
+/**
+ * CSV rows for one packet, one column per channel: per-sample timestamps are
+ * interpolated from the packet timestamp at the recording's sample rate.
+ */
+export function packetToCsvRows(packet: StreamDataPacket, sampleRate: number): string {
+    const intervalMs = 1000 / sampleRate;
+    const channels = packetChannels(packet);
+    let csv = '';
+    for (let i = 0; i < packet.values.length; i++) {
+        const ts = packet.timestamp + i * intervalMs;
+        csv += `${ts.toFixed(2)},${channels.map(samples => samples[i]).join(',')}\n`;
+    }
+    return csv;
+}
@@ -0,0 +1,182 @@
+/**
+ * Recording Reader
+ *
+ * Reads chunked recordings back: header + index, packets, CSV export, and
+ * recovery of recordings that were never finalized (app killed or crashed
+ * mid-recording).
+ */
+
+import { StreamDataPacket } from '@iris/domain';
+import { RecordingFileSystem, joinPath } from './RecordingFileSystem';
+import {
+    RecordingHeader,
+    RecordingIndex,
+    RECORDING_HEADER_FILE,
+    RECORDING_EXTENSION,
+    chunkFileName,
+    indexFileName,
+    parseIndexFileName,
+    isChunkFileName,
+    decodeChunk,
+    packetToCsvRows,
+    recordingChannelCount,
+    recordingSampleFormat,
+    recordingCsvHeader,
+} from './recordingFormat';
+
+export interface StoredRecording {
+    path: string;
+    header: RecordingHeader;
+    index: RecordingIndex;
+}
+
+const EMPTY_INDEX: RecordingIndex = { generation: 0, chunkCount: 0, packetCount: 0, sampleCount: 0, finalized: false };
+
+/**
+ * Highest index generation that parses. A torn write of the newest
+ * generation falls back to the one before it.
+ */
+async function readLatestIndex(fs: RecordingFileSystem, path: string, names: string[]): Promise<RecordingIndex> {
+    const generations = names
+        .map(parseIndexFileName)
+        .filter((generation): generation is number => generation !== null)
+        .sort((a, b) => b - a);
+
+    for (const generation of generations) {
+        try {
+            const index = JSON.parse(await fs.readText(joinPath(path, indexFileName(generation)))) as RecordingIndex;
+            if (typeof index.chunkCount === 'number') {
+                return index;
+            }
+        } catch {
+            // Try the previous generation
+        }
+    }
+    return { ...EMPTY_INDEX };
+}
+
+export async function openRecording(fs: RecordingFileSystem, path: string): Promise<StoredRecording> {
+    const header = JSON.parse(await fs.readText(joinPath(path, RECORDING_HEADER_FILE))) as RecordingHeader;
+    const index = await readLatestIndex(fs, path, await fs.list(path));
+    return { path, header, index };
+}
+
+/**
+ * Decode the chunks the index vouches for, calling `onPackets` per chunk so
+ * large recordings can be processed without holding every packet at once.
+ */
+export async function forEachRecordingChunk(
+    fs: RecordingFileSystem,
+    recording: StoredRecording,
+    onPackets: (packets: StreamDataPacket[]) => void
+): Promise<void> {
+    for (let sequence = 0; sequence < recording.index.chunkCount; sequence++) {
+        const bytes = await fs.readBytes(joinPath(recording.path, chunkFileName(sequence)));
+        const chunk = decodeChunk(bytes, recordingChannelCount(recording.header), recordingSampleFormat(recording.header));
+        onPackets(chunk.packets);
+    }
+}
+
+export async function readRecordingPackets(fs: RecordingFileSystem, path: string): Promise<StreamDataPacket[]> {
+    const recording = await openRecording(fs, path);
+    const packets: StreamDataPacket[] = [];
+    await forEachRecordingChunk(fs, recording, chunk => {
+        packets.push(...chunk);
+    });
+    return packets;
+}
+
+/**
+ * CSV (`timestamp,value`, or `timestamp,ch1,ch2,...` for multi-channel
+ * recordings) for a recording — the format uploaded to the Research Node and
+ * shown in the history viewer.
+ */
+export async function exportRecordingToCsv(fs: RecordingFileSystem, path: string): Promise<string> {
+    const recording = await openRecording(fs, path);
+    const parts: string[] = [recordingCsvHeader(recordingChannelCount(recording.header))];
+    await forEachRecordingChunk(fs, recording, packets => {
+        for (const packet of packets) {
+            parts.push(packetToCsvRows(packet, recording.header.sampleRate));
+        }
+    });
+    return parts.join('');
+}
+
+/**
+ * Rebuild the index of an unfinalized recording: adopt every consecutive
+ * chunk after the last indexed one that verifies, drop the first one that
+ * does not (a torn write) and everything after it, then finalize.
+ */
+export async function recoverRecording(fs: RecordingFileSystem, path: string): Promise<StoredRecording> {
+    const recording = await openRecording(fs, path);
+    if (recording.index.finalized) {
+        return recording;
+    }
+
+    const names = await fs.list(path);
+    const chunkNames = new Set(names.filter(isChunkFileName));
+    let { chunkCount, packetCount, sampleCount } = recording.index;
+
+    while (chunkNames.has(chunkFileName(chunkCount))) {
+        const file = joinPath(path, chunkFileName(chunkCount));
+        try {
+            const chunk = decodeChunk(await fs.readBytes(file), recordingChannelCount(recording.header), recordingSampleFormat(recording.header));
+            if (chunk.sequence !== chunkCount) {
+                throw new Error(`expected chunk ${chunkCount}, found ${chunk.sequence}`);
+            }
+            packetCount += chunk.packets.length;
+            sampleCount += chunk.packets.reduce((sum, packet) => sum + packet.values.length, 0);
+            chunkNames.delete(chunkFileName(chunkCount));
+            chunkCount++;
+        } catch (error) {
+            console.warn(`[Recording] Discarding unreadable chunk ${chunkCount}:`, error);
+            break;
+        }
+    }
+
+    for (const name of chunkNames) {
+        const sequence = parseInt(name.slice('chunk_'.length), 10);
+        if (sequence >= chunkCount) {
+            await fs.remove(joinPath(path, name));
+        }
+    }
+
+    const index: RecordingIndex = {
+        generation: recording.index.generation + 1,
+        chunkCount,
+        packetCount,
+        sampleCount,
+        finalized: true,
+        finalizedAt: new Date().toISOString(),
+        recovered: true,
+    };
+    await fs.writeText(joinPath(path, indexFileName(index.generation)), JSON.stringify(index));
+    for (const name of names) {
+        const generation = parseIndexFileName(name);
+        if (generation !== null && generation !== index.generation) {
+            await fs.remove(joinPath(path, name));
+        }
+    }
+
+    console.log(`[Recording] Recovered ${path}: ${chunkCount} chunks, ${sampleCount} samples`);
+    return { path, header: recording.header, index };
+}
+
+/**
+ * Recordings in `directory` whose index was never finalized.
+ */
+export async function findUnfinalizedRecordings(fs: RecordingFileSystem, directory: string): Promise<StoredRecording[]> {
+    const unfinalized: StoredRecording[] = [];
+    for (const name of await fs.list(directory)) {
+        if (!name.endsWith(RECORDING_EXTENSION)) continue;
+        try {
+            const recording = await openRecording(fs, joinPath(directory, name));
+            if (!recording.index.finalized) {
+                unfinalized.push(recording);
+            }
+        } catch (error) {
+            console.warn(`[Recording] Skipping unreadable recording ${name}:`, error);
+        }
+    }
+    return unfinalized;
+}
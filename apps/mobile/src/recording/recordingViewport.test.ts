@@ -0,0 +1,153 @@
+/**
+ * Recording Viewport Tests
+ *
+ * Series construction, zoom/pan clamping, min/max downsampling and marker
+ * placement for the offline recording viewer.
+ *
+ * Run with: npx vitest run src/recording
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    seriesFromPackets,
+    seriesFromCsv,
+    RecordingClock,
+    fullViewport,
+    zoomViewport,
+    panViewport,
+    downsampleMinMax,
+    placeMarkers,
+    markersInViewport,
+    MIN_VIEWPORT_MS,
+} from './index';
+
+describe('Recording viewport', () => {
+    describe('series', () => {
+        it('spaces samples at the sample rate and keeps packet gaps', () => {
+            const series = seriesFromPackets([
+                { timestamp: 1000, values: [1, 2] },
+                { timestamp: 1010, values: [3, 4] },
+                { timestamp: 1100, values: [5] },
+            ], 200);
+
+            expect(Array.from(series.times)).toEqual([0, 5, 10, 15, 100]);
+            expect(Array.from(series.values)).toEqual([1, 2, 3, 4, 5]);
+            expect(series.durationMs).toBe(105);
+        });
+
+        it('follows the device clock across uint32 wraparound', () => {
+            const series = seriesFromPackets([
+                { timestamp: 0xfffffff0, values: [1] },
+                { timestamp: 0x10, values: [2] },
+            ], 1000);
+
+            expect(Array.from(series.times)).toEqual([0, 32]);
+        });
+
+        it('uses CSV timestamps when monotonic and the sample rate otherwise', () => {
+            const csv = 'timestamp,value\n500.00,1\n505.00,-2\n# note\n520.00,3\n';
+            expect(Array.from(seriesFromCsv(csv, 200).times)).toEqual([0, 5, 20]);
+
+            const shuffled = 'timestamp,value\n9,1\n3,2\n';
+            expect(Array.from(seriesFromCsv(shuffled, 100).times)).toEqual([0, 10]);
+            expect(seriesFromCsv('# No recording data available\n', 100).values).toHaveLength(0);
+        });
+
+        it('keeps a live clock on the same timeline as the stored series', () => {
+            const packets = [
+                { timestamp: 0xfffffff0, values: [1, 2] },
+                { timestamp: 0x10, values: [3, 4] },
+                { timestamp: 5, values: [5] },
+            ];
+            const clock = new RecordingClock(200);
+
+            expect(clock.elapsedMs()).toBe(0);
+            expect(clock.elapsedMs(packets.slice(0, 1))).toBe(10);
+            expect(clock.elapsedMs()).toBe(0);
+
+            clock.advance(packets.slice(0, 2));
+            expect(clock.elapsedMs()).toBe(42);
+            expect(clock.elapsedMs(packets.slice(2))).toBe(seriesFromPackets(packets, 200).durationMs);
+        });
+
+        it('shows the first channel of a multi-channel CSV', () => {
+            const series = seriesFromCsv('timestamp,ch1,ch2\n0.00,1,-1\n5.00,2,-2\n', 200);
+
+            expect(Array.from(series.values)).toEqual([1, 2]);
+        });
+    });
+
+    describe('viewport', () => {
+        it('zooms around the anchor and stays inside the recording', () => {
+            const view = zoomViewport(fullViewport(10000), 4, 10000, 0.25);
+
+            expect(view).toEqual({ startMs: 1875, endMs: 4375 });
+            expect(zoomViewport(view, 0.01, 10000)).toEqual({ startMs: 0, endMs: 10000 });
+            expect(zoomViewport({ startMs: 9000, endMs: 10000 }, 1000, 10000, 1).endMs - 9000).toBeLessThanOrEqual(1000);
+        });
+
+        it('never zooms narrower than the minimum span', () => {
+            const view = zoomViewport({ startMs: 0, endMs: 1000 }, 100, 10000);
+
+            expect(view.endMs - view.startMs).toBe(MIN_VIEWPORT_MS);
+        });
+
+        it('pans without leaving the recording', () => {
+            const view = { startMs: 2000, endMs: 4000 };
+
+            expect(panViewport(view, 1000, 10000)).toEqual({ startMs: 3000, endMs: 5000 });
+            expect(panViewport(view, -5000, 10000)).toEqual({ startMs: 0, endMs: 2000 });
+            expect(panViewport(view, 50000, 10000)).toEqual({ startMs: 8000, endMs: 10000 });
+        });
+    });
+
+    describe('downsampling', () => {
+        it('keeps each bucket extreme so spikes survive', () => {
+            const values = Array.from({ length: 1000 }, (_, i) => (i === 637 ? 5000 : i === 212 ? -5000 : 0));
+            const series = seriesFromCsv(values.map((v, i) => `${i},${v}`).join('\n'), 1000);
+
+            const points = downsampleMinMax(series, fullViewport(series.durationMs), 10);
+
+            expect(points.length).toBeLessThanOrEqual(20);
+            expect(points.map(p => p.value)).toContain(5000);
+            expect(points.map(p => p.value)).toContain(-5000);
+            expect(points.map(p => p.timeMs)).toEqual([...points.map(p => p.timeMs)].sort((a, b) => a - b));
+        });
+
+        it('returns raw samples when the window is sparse', () => {
+            const series = seriesFromCsv('0,1\n1,2\n2,3\n3,4\n', 1000);
+
+            expect(downsampleMinMax(series, { startMs: 1, endMs: 3 }, 10)).toEqual([
+                { timeMs: 1, value: 2 },
+                { timeMs: 2, value: 3 },
+            ]);
+        });
+    });
+
+    describe('markers', () => {
+        it('places events on the recording timeline and filters by viewport', () => {
+            const markers = placeMarkers([
+                { id: 'b', kind: 'stimulation', at: '2026-01-01T10:00:07.000Z', label: 'Stimulation' },
+                { id: 'a', kind: 'annotation', at: '2026-01-01T10:00:02.500Z', label: 'Fist' },
+                { id: 'late', kind: 'annotation', at: '2026-01-01T10:01:00.000Z', label: 'After' },
+                { id: 'early', kind: 'annotation', at: '2026-01-01T09:59:00.000Z', label: 'Before' },
+            ], '2026-01-01T10:00:00.000Z', 10000);
+
+            expect(markers.map(m => [m.id, m.timeMs])).toEqual([['a', 2500], ['b', 7000]]);
+            expect(markersInViewport(markers, { startMs: 5000, endMs: 8000 }).map(m => m.id)).toEqual(['b']);
+        });
+
+        it('keeps anchored offsets and shows spans that overlap the viewport', () => {
+            const markers = placeMarkers([
+                { id: 'span', kind: 'annotation', offsetMs: 1000, endOffsetMs: 4000, label: 'Electrode re-seated' },
+                { id: 'mark', kind: 'annotation', offsetMs: 9000, label: 'Marker' },
+            ], '2026-01-01T10:00:00.000Z', 10000);
+
+            expect(markers).toEqual([
+                { id: 'span', kind: 'annotation', timeMs: 1000, endMs: 4000, label: 'Electrode re-seated' },
+                { id: 'mark', kind: 'annotation', timeMs: 9000, label: 'Marker' },
+            ]);
+            expect(markersInViewport(markers, { startMs: 3000, endMs: 5000 }).map(m => m.id)).toEqual(['span']);
+        });
+    });
+});
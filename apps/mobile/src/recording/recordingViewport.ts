@@ -0,0 +1,293 @@
+/**
+ * Recording Viewport
+ *
+ * Pure helpers behind the offline recording viewer: a stored recording as a
+ * time series, a zoomable/pannable window onto it, min/max downsampling for
+ * drawing, and placement of annotation and stimulation markers on the
+ * recording's timeline.
+ */
+
+import { StreamDataPacket } from '@iris/domain';
+
+/**
+ * Recording samples on a timeline relative to the first sample (ms).
+ */
+export interface SignalSeries {
+    times: Float64Array;
+    values: Float64Array;
+    durationMs: number;
+}
+
+/**
+ * Visible time window (ms from recording start).
+ */
+export interface Viewport {
+    startMs: number;
+    endMs: number;
+}
+
+export interface SeriesPoint {
+    timeMs: number;
+    value: number;
+}
+
+export type RecordingMarkerKind = 'annotation' | 'stimulation';
+
+export interface RecordingMarker {
+    id: string;
+    kind: RecordingMarkerKind;
+    timeMs: number;
+    endMs?: number; // Spans only
+    label: string;
+}
+
+/**
+ * Something that happened during a session: either at a wall-clock time, or
+ * already anchored to the recording by offset (ms from its start).
+ */
+export type TimelineEvent = {
+    id: string;
+    kind: RecordingMarkerKind;
+    label: string;
+} & ({ at: string } | { offsetMs: number; endOffsetMs?: number });
+
+/** Narrowest window the viewer zooms into (ms). */
+export const MIN_VIEWPORT_MS = 250;
+
+const UINT32_RANGE = 0x100000000;
+
+// ── Series ───────────────────────────────────────────────────────────────────
+
+/**
+ * Build a series from decoded packets. Device timestamps are uint32 ms, so
+ * packet spacing is taken modulo 2^32; a backwards jump (device reset) is
+ * laid out as if the packet followed on directly. Gaps stay visible.
+ */
+export function seriesFromPackets(packets: StreamDataPacket[], sampleRate: number): SignalSeries {
+    const total = packets.reduce((sum, p) => sum + p.values.length, 0);
+    const times = new Float64Array(total);
+    const values = new Float64Array(total);
+    const sampleMs = 1000 / sampleRate;
+
+    let offset = 0;
+    let packetStart = 0;
+    for (let p = 0; p < packets.length; p++) {
+        if (p > 0) {
+            packetStart += packetSpacingMs(packets[p - 1], packets[p], sampleMs);
+        }
+        const packetValues = packets[p].values;
+        for (let i = 0; i < packetValues.length; i++) {
+            times[offset] = packetStart + i * sampleMs;
+            values[offset] = packetValues[i];
+            offset++;
+        }
+    }
+
+    return { times, values, durationMs: total > 0 ? times[total - 1] + sampleMs : 0 };
+}
+
+function packetSpacingMs(previous: StreamDataPacket, next: StreamDataPacket, sampleMs: number): number {
+    const delta = (((next.timestamp - previous.timestamp) % UINT32_RANGE) + UINT32_RANGE) % UINT32_RANGE;
+    return delta < UINT32_RANGE / 2 ? delta : previous.values.length * sampleMs;
+}
+
+/**
+ * The timeline of seriesFromPackets, kept incrementally while a recording is
+ * written, so a mark placed during capture lands where the viewer will draw
+ * it rather than at a wall-clock guess.
+ */
+export class RecordingClock {
+    private last: StreamDataPacket | null = null;
+    private lastStartMs = 0;
+    private readonly sampleMs: number;
+
+    constructor(sampleRate: number) {
+        this.sampleMs = 1000 / sampleRate;
+    }
+
+    /** Move past `packets`, in recording order. */
+    advance(packets: StreamDataPacket[]): void {
+        for (const packet of packets) {
+            if (this.last) {
+                this.lastStartMs += packetSpacingMs(this.last, packet, this.sampleMs);
+            }
+            this.last = packet;
+        }
+    }
+
+    /**
+     * Offset (ms from the first sample) of the end of the last packet seen,
+     * counting `upcoming` packets without advancing past them. 0 before any.
+     */
+    elapsedMs(upcoming: StreamDataPacket[] = []): number {
+        let last = this.last;
+        let lastStartMs = this.lastStartMs;
+        for (const packet of upcoming) {
+            if (last) {
+                lastStartMs += packetSpacingMs(last, packet, this.sampleMs);
+            }
+            last = packet;
+        }
+        return last ? lastStartMs + last.values.length * this.sampleMs : 0;
+    }
+}
+
+/**
+ * Build a series from recording CSV (`timestamp,value`; the first channel of
+ * `timestamp,ch1,ch2,...`). Timestamps are used when they are numeric and
+ * never decrease; otherwise samples are spaced at the nominal sample rate.
+ */
+export function seriesFromCsv(csv: string, sampleRate: number): SignalSeries {
+    const rawTimes: number[] = [];
+    const rawValues: number[] = [];
+    let monotonic = true;
+
+    for (const line of csv.split('\n')) {
+        const comma = line.indexOf(',');
+        if (comma === -1 || line.startsWith('#')) continue;
+        const nextComma = line.indexOf(',', comma + 1);
+        const value = Number(line.slice(comma + 1, nextComma === -1 ? undefined : nextComma));
+        const timestampText = line.slice(0, comma).trim();
+        if (timestampText === '' || !Number.isFinite(value)) continue;
+
+        const timestamp = Number(timestampText);
+        if (!Number.isFinite(timestamp) || (rawTimes.length > 0 && timestamp < rawTimes[rawTimes.length - 1])) {
+            monotonic = false;
+        }
+        rawTimes.push(timestamp);
+        rawValues.push(value);
+    }
+
+    const sampleMs = 1000 / sampleRate;
+    const times = new Float64Array(rawValues.length);
+    for (let i = 0; i < times.length; i++) {
+        times[i] = monotonic ? rawTimes[i] - rawTimes[0] : i * sampleMs;
+    }
+
+    return {
+        times,
+        values: Float64Array.from(rawValues),
+        durationMs: times.length > 0 ? times[times.length - 1] + sampleMs : 0,
+    };
+}
+
+// ── Viewport ─────────────────────────────────────────────────────────────────
+
+export function fullViewport(durationMs: number): Viewport {
+    return { startMs: 0, endMs: Math.max(durationMs, 0) };
+}
+
+function clampViewport(startMs: number, spanMs: number, durationMs: number): Viewport {
+    const span = Math.min(spanMs, durationMs);
+    const start = Math.min(Math.max(startMs, 0), durationMs - span);
+    return { startMs: start, endMs: start + span };
+}
+
+/**
+ * Zoom by `factor` (> 1 zooms in) around `anchor`, a position within the
+ * window from 0 (left edge) to 1 (right edge) that stays put on screen.
+ */
+export function zoomViewport(
+    viewport: Viewport,
+    factor: number,
+    durationMs: number,
+    anchor: number = 0.5,
+    minSpanMs: number = MIN_VIEWPORT_MS
+): Viewport {
+    const span = viewport.endMs - viewport.startMs;
+    const nextSpan = Math.min(Math.max(span / factor, Math.min(minSpanMs, durationMs)), durationMs);
+    const anchorMs = viewport.startMs + span * anchor;
+    return clampViewport(anchorMs - nextSpan * anchor, nextSpan, durationMs);
+}
+
+/**
+ * Shift the window by `deltaMs`, stopping at either end of the recording.
+ */
+export function panViewport(viewport: Viewport, deltaMs: number, durationMs: number): Viewport {
+    return clampViewport(viewport.startMs + deltaMs, viewport.endMs - viewport.startMs, durationMs);
+}
+
+// ── Drawing ──────────────────────────────────────────────────────────────────
+
+/** Index of the first sample at or after `timeMs`. */
+function lowerBound(times: Float64Array, timeMs: number): number {
+    let lo = 0;
+    let hi = times.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (times[mid] < timeMs) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+/**
+ * Reduce the samples inside the viewport to at most `buckets * 2` points,
+ * keeping each bucket's minimum and maximum in time order so spikes survive
+ * at any zoom level. Windows with few samples are returned as-is.
+ */
+export function downsampleMinMax(series: SignalSeries, viewport: Viewport, buckets: number): SeriesPoint[] {
+    const from = lowerBound(series.times, viewport.startMs);
+    const to = lowerBound(series.times, viewport.endMs);
+    const count = to - from;
+    const points: SeriesPoint[] = [];
+
+    if (count <= buckets * 2) {
+        for (let i = from; i < to; i++) {
+            points.push({ timeMs: series.times[i], value: series.values[i] });
+        }
+        return points;
+    }
+
+    for (let b = 0; b < buckets; b++) {
+        const start = from + Math.floor((b * count) / buckets);
+        const end = from + Math.floor(((b + 1) * count) / buckets);
+        let minIndex = start;
+        let maxIndex = start;
+        for (let i = start + 1; i < end; i++) {
+            if (series.values[i] < series.values[minIndex]) minIndex = i;
+            if (series.values[i] > series.values[maxIndex]) maxIndex = i;
+        }
+        const [first, second] = minIndex <= maxIndex ? [minIndex, maxIndex] : [maxIndex, minIndex];
+        points.push({ timeMs: series.times[first], value: series.values[first] });
+        if (second !== first) {
+            points.push({ timeMs: series.times[second], value: series.values[second] });
+        }
+    }
+    return points;
+}
+
+// ── Markers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Place events on a recording that started at `recordingStart` and lasted
+ * `durationMs`. Wall-clock events are converted to offsets; anchored events
+ * keep theirs. Events outside the recording are left out.
+ */
+export function placeMarkers(events: TimelineEvent[], recordingStart: string, durationMs: number): RecordingMarker[] {
+    const startMs = new Date(recordingStart).getTime();
+    return events
+        .map((event): RecordingMarker => {
+            const marker: RecordingMarker = {
+                id: event.id,
+                kind: event.kind,
+                label: event.label,
+                timeMs: 'offsetMs' in event ? event.offsetMs : new Date(event.at).getTime() - startMs,
+            };
+            if ('offsetMs' in event && event.endOffsetMs !== undefined) {
+                marker.endMs = Math.min(event.endOffsetMs, durationMs);
+            }
+            return marker;
+        })
+        .filter(marker => marker.timeMs >= 0 && marker.timeMs <= durationMs)
+        .sort((a, b) => a.timeMs - b.timeMs);
+}
+
+/**
+ * Markers that are at least partly inside the viewport.
+ */
+export function markersInViewport(markers: RecordingMarker[], viewport: Viewport): RecordingMarker[] {
+    return markers.filter(marker =>
+        (marker.endMs ?? marker.timeMs) >= viewport.startMs && marker.timeMs <= viewport.endMs
+    );
+}
@@ -0,0 +1,259 @@
+/**
+ * FES Safety Interlock Tests
+ *
+ * Drives the interlock against the emulated NeuroEstimulator: envelope
+ * blocking, confirmation of large increases, the stimulation log and every
+ * EmergencyStop trigger (disconnect, background, Status watchdog, reconnect).
+ *
+ * Run with: npx vitest run src/safety
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    BluetoothProtocolFunction,
+    NewStimulationLogEntry,
+    FesSafetyEnvelope,
+    FESParametersBody,
+} from '@iris/domain';
+import { DeviceProtocolClient } from '@/device/DeviceProtocolClient';
+import { EmulatedTransport, EMULATED_DEVICE } from '@/device/emulator';
+import { FesSafetyInterlock } from './FesSafetyInterlock';
+import { intersectEnvelopes, envelopeFromCapabilities, validateEnvelope } from './fesEnvelope';
+
+const CONTEXT = { researcherId: 'researcher-1', volunteerId: 'volunteer-1', researchId: 'research-1', sessionId: 'session-1' };
+const BASE_PARAMS: FESParametersBody = { a: 5, f: 40, pw: 200, df: 5, pd: 2 };
+
+const VOLUNTEER_ENVELOPE: FesSafetyEnvelope = {
+    amplitude: { min: 0, max: 8 },
+    frequency: { min: 10, max: 50 },
+    pulseWidth: { min: 100, max: 300 },
+    duration: { min: 1, max: 10 },
+};
+
+interface Harness {
+    transport: EmulatedTransport;
+    client: DeviceProtocolClient;
+    interlock: FesSafetyInterlock;
+    log: NewStimulationLogEntry[];
+    onEmergencyStop: ReturnType<typeof vi.fn>;
+}
+
+async function connect(statusIntervalMs = 1000): Promise<Harness> {
+    const transport = new EmulatedTransport({ statusIntervalMs });
+    const client = new DeviceProtocolClient(transport, {
+        onSessionStatus: () => interlock.notifyStatus(),
+    });
+    const log: NewStimulationLogEntry[] = [];
+    const onEmergencyStop = vi.fn();
+    const interlock: FesSafetyInterlock = new FesSafetyInterlock(client, {
+        log: { append: async (entry) => { log.push(entry); } },
+        onEmergencyStop,
+    });
+
+    client.attach();
+    await transport.connect(EMULATED_DEVICE.address);
+    interlock.setDevice(EMULATED_DEVICE.address);
+    interlock.setContext(CONTEXT);
+    interlock.setPermitted(true);
+
+    return { transport, client, interlock, log, onEmergencyStop };
+}
+
+function emergencyStopsReceived(transport: EmulatedTransport): number {
+    return transport.emulator.getState().commandsReceived
+        .filter(c => c.cd === BluetoothProtocolFunction.EmergencyStop).length;
+}
+
+describe('FesSafetyInterlock', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    describe('envelopes', () => {
+        it('intersects device, research and volunteer envelopes', () => {
+            const research: FesSafetyEnvelope = { ...VOLUNTEER_ENVELOPE, amplitude: { min: 1, max: 12 } };
+
+            const envelope = intersectEnvelopes(envelopeFromCapabilities(), research, VOLUNTEER_ENVELOPE, null);
+
+            expect(envelope.amplitude).toEqual({ min: 1, max: 8 });
+            expect(envelope.frequency).toEqual({ min: 10, max: 50 });
+        });
+
+        it('rejects envelopes with inverted or negative ranges', () => {
+            expect(validateEnvelope(VOLUNTEER_ENVELOPE)).toEqual([]);
+            expect(validateEnvelope({
+                ...VOLUNTEER_ENVELOPE,
+                amplitude: { min: 9, max: 8 },
+                frequency: { min: -1, max: 50 },
+                duration: { min: 1, max: NaN },
+            })).toEqual([
+                'amplitude: minimum 9 is above maximum 8',
+                'frequency: minimum must not be negative',
+                'duration: minimum and maximum must be numbers',
+            ]);
+        });
+
+        it('blocks parameters outside the volunteer envelope and never writes them', async () => {
+            const { interlock, transport, log } = await connect();
+            interlock.setVolunteerEnvelope(VOLUNTEER_ENVELOPE);
+
+            const result = await interlock.sendFesParams({ ...BASE_PARAMS, a: 9 });
+
+            expect(result).toMatchObject({ status: 'blocked', violations: [{ field: 'amplitude', value: 9 }] });
+            expect(transport.emulator.getState().commandsReceived).toHaveLength(0);
+            expect(log).toEqual([expect.objectContaining({ command: 'fes_params', outcome: 'blocked', volunteerId: 'volunteer-1' })]);
+        });
+
+        it('refuses stimulation without a session context', async () => {
+            const { interlock, transport } = await connect();
+            interlock.setContext(null);
+
+            const result = await interlock.sendFesParams(BASE_PARAMS);
+
+            expect(result.status).toBe('blocked');
+            expect(transport.emulator.getState().commandsReceived).toHaveLength(0);
+        });
+
+        it('refuses stimulation for a user without fes:stimulate', async () => {
+            const { interlock, transport, log } = await connect();
+            interlock.setPermitted(false);
+
+            expect(await interlock.sendFesParams(BASE_PARAMS)).toEqual({
+                status: 'blocked',
+                reason: 'User is not permitted to stimulate',
+            });
+            expect((await interlock.singleStimulation()).status).toBe('blocked');
+            expect(transport.emulator.getState().commandsReceived).toHaveLength(0);
+            expect(log.map(entry => entry.outcome)).toEqual(['blocked', 'blocked']);
+        });
+    });
+
+    describe('confirmation', () => {
+        it('requires confirmation for the first parameters after connect', async () => {
+            const { interlock, transport, log } = await connect();
+
+            const unconfirmed = await interlock.sendFesParams(BASE_PARAMS);
+            expect(unconfirmed).toMatchObject({
+                status: 'needs_confirmation',
+                increases: expect.arrayContaining([{ field: 'amplitude', from: 0, to: 5, delta: 5 }]),
+            });
+            expect(transport.emulator.getState().commandsReceived).toHaveLength(0);
+
+            expect((await interlock.sendFesParams(BASE_PARAMS, { confirmed: true })).status).toBe('acknowledged');
+            expect(log).toEqual([expect.objectContaining({ outcome: 'acknowledged', detail: expect.stringContaining('amplitude 0→5') })]);
+        });
+
+        it('only lets first parameters within the deltas of zero through unconfirmed', async () => {
+            const { interlock } = await connect();
+
+            expect((await interlock.sendFesParams({ a: 2, f: 20, pw: 100, df: 5, pd: 1 })).status).toBe('acknowledged');
+        });
+
+        it('requires confirmation again after switching devices', async () => {
+            const { interlock } = await connect();
+            await interlock.sendFesParams(BASE_PARAMS, { confirmed: true });
+
+            interlock.setDevice(EMULATED_DEVICE.address);
+
+            expect((await interlock.sendFesParams(BASE_PARAMS)).status).toBe('needs_confirmation');
+        });
+
+        it('requires confirmation for increases above the delta, then sends when confirmed', async () => {
+            const { interlock, transport, log } = await connect();
+            await interlock.sendFesParams(BASE_PARAMS, { confirmed: true });
+
+            const unconfirmed = await interlock.sendFesParams({ ...BASE_PARAMS, a: 8 });
+            expect(unconfirmed).toEqual({
+                status: 'needs_confirmation',
+                increases: [{ field: 'amplitude', from: 5, to: 8, delta: 3 }],
+            });
+            expect(transport.emulator.getState().fesParams.a).toBe(5);
+
+            const confirmed = await interlock.sendFesParams({ ...BASE_PARAMS, a: 8 }, { confirmed: true });
+            expect(confirmed.status).toBe('acknowledged');
+            expect(transport.emulator.getState().fesParams.a).toBe(8);
+            expect(log[log.length - 1]).toMatchObject({ outcome: 'acknowledged', detail: 'Confirmed increase: amplitude 5→8' });
+        });
+
+        it('lets decreases and small increases through', async () => {
+            const { interlock } = await connect();
+            await interlock.sendFesParams(BASE_PARAMS, { confirmed: true });
+
+            expect((await interlock.sendFesParams({ ...BASE_PARAMS, a: 6 })).status).toBe('acknowledged');
+            expect((await interlock.sendFesParams({ ...BASE_PARAMS, a: 1 })).status).toBe('acknowledged');
+        });
+
+        it('only stimulates once parameters were acknowledged', async () => {
+            const { interlock, transport, log } = await connect();
+
+            expect((await interlock.singleStimulation()).status).toBe('blocked');
+            await interlock.sendFesParams(BASE_PARAMS, { confirmed: true });
+            expect((await interlock.singleStimulation()).status).toBe('acknowledged');
+
+            expect(transport.emulator.getState().completeStimuli).toBe(1);
+            expect(log.map(e => `${e.command}:${e.outcome}`)).toEqual([
+                'single_stimulation:blocked',
+                'fes_params:acknowledged',
+                'single_stimulation:acknowledged',
+            ]);
+        });
+    });
+
+    describe('emergency stop', () => {
+        it('fires when no Status arrives within the watchdog window', async () => {
+            const { interlock, client, transport, onEmergencyStop } = await connect(0);
+            await client.startSession();
+            interlock.sessionStarted();
+
+            await vi.advanceTimersByTimeAsync(5000);
+
+            expect(emergencyStopsReceived(transport)).toBe(1);
+            expect(onEmergencyStop).toHaveBeenCalledWith('watchdog');
+            expect(transport.emulator.getState().sessionActive).toBe(false);
+        });
+
+        it('stays quiet while Status keeps arriving', async () => {
+            const { interlock, client, transport } = await connect(1000);
+            await client.startSession();
+            interlock.sessionStarted();
+
+            await vi.advanceTimersByTimeAsync(20000);
+
+            expect(emergencyStopsReceived(transport)).toBe(0);
+        });
+
+        it('stops an active session when the app is backgrounded', async () => {
+            const { interlock, transport, log } = await connect();
+            interlock.sessionStarted();
+
+            await interlock.handleBackground();
+
+            expect(emergencyStopsReceived(transport)).toBe(1);
+            expect(log).toContainEqual(expect.objectContaining({ command: 'emergency_stop', outcome: 'sent', reason: 'background' }));
+        });
+
+        it('retries a stop that could not be sent on link loss at the next connect', async () => {
+            const { interlock, transport, log } = await connect();
+            interlock.sessionStarted();
+            transport.emulator.dropLink();
+
+            expect(await interlock.emergencyStop('disconnect')).toBe(false);
+            expect(interlock.hasPendingEmergencyStop).toBe(true);
+
+            await transport.connect(EMULATED_DEVICE.address);
+            await interlock.flushPendingEmergencyStop();
+
+            expect(emergencyStopsReceived(transport)).toBe(1);
+            expect(interlock.hasPendingEmergencyStop).toBe(false);
+            expect(log.map(e => `${e.reason}:${e.outcome}`)).toEqual(['disconnect:failed', 'reconnect:sent']);
+        });
+    });
+});
@@ -0,0 +1,325 @@
+/**
+ * FES Safety Interlock
+ *
+ * Sits between the UI and DeviceProtocolClient for every stimulation command:
+ * - Validates FES parameters against the effective envelope (device ∩
+ *   research ∩ volunteer) and blocks anything outside it
+ * - Requires explicit confirmation for increases above the policy delta
+ * - Logs every stimulation command with who/when/outcome
+ * - Sends EmergencyStop on disconnect, app backgrounding and when the
+ *   device stops reporting Status during a session (watchdog); a stop that
+ *   could not be written is retried first thing on the next connect
+ */
+
+import {
+    FESParametersBody,
+    FesSafetyEnvelope,
+    FesSafetyPolicy,
+    FesSafetyDecision,
+    FesEnvelopeViolation,
+    FesParameterIncrease,
+    StimulationContext,
+    NewStimulationLogEntry,
+    EmergencyStopReason,
+    DEFAULT_FES_SAFETY_POLICY,
+} from '@iris/domain';
+import type { DeviceProtocolClient } from '@/device/DeviceProtocolClient';
+import {
+    envelopeFromCapabilities,
+    intersectEnvelopes,
+    evaluateFesParameters,
+    describeViolations,
+} from './fesEnvelope';
+
+/**
+ * Persists stimulation log entries (StimulationLogRepository in the app).
+ */
+export interface StimulationLogSink {
+    append(entry: NewStimulationLogEntry): Promise<unknown>;
+}
+
+export interface FesSafetyInterlockOptions {
+    log: StimulationLogSink;
+    policy?: FesSafetyPolicy;
+    /** Called after the interlock issued an EmergencyStop on its own (watchdog, background, disconnect). */
+    onEmergencyStop?: (reason: EmergencyStopReason) => void;
+}
+
+/**
+ * Outcome of a guarded stimulation command.
+ */
+export type FesCommandResult =
+    | { status: 'acknowledged' }
+    | { status: 'blocked'; reason: string; violations?: FesEnvelopeViolation[] }
+    | { status: 'needs_confirmation'; increases: FesParameterIncrease[] }
+    | { status: 'failed'; error: string };
+
+export class FesSafetyInterlock {
+    private policy: FesSafetyPolicy;
+    private context: StimulationContext | null = null;
+    private deviceAddress: string | null = null;
+    private deviceEnvelope: FesSafetyEnvelope = envelopeFromCapabilities();
+    private researchEnvelope: FesSafetyEnvelope | null = null;
+    private volunteerEnvelope: FesSafetyEnvelope | null = null;
+    /** Last parameter set the device ACKed — baseline for confirmation deltas. */
+    private acknowledgedParams: FESParametersBody | null = null;
+    private sessionActive = false;
+    /** Whether the signed-in user may stimulate (fes:stimulate). */
+    private permitted = false;
+    private pendingEmergencyStop = false;
+    private watchdog: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(
+        private readonly protocol: DeviceProtocolClient,
+        private readonly options: FesSafetyInterlockOptions
+    ) {
+        this.policy = options.policy ?? DEFAULT_FES_SAFETY_POLICY;
+    }
+
+    // ── Configuration ──────────────────────────────────────────────────────────
+
+    setPolicy(policy: FesSafetyPolicy): void {
+        this.policy = policy;
+        if (this.sessionActive) {
+            this.resetWatchdog();
+        }
+    }
+
+    /**
+     * Who is stimulating whom. Stimulation is refused while this is null.
+     */
+    setContext(context: StimulationContext | null): void {
+        this.context = context;
+    }
+
+    /**
+     * Whether the signed-in user holds fes:stimulate. Stimulation is refused
+     * until this is set; emergency stops never are.
+     */
+    setPermitted(permitted: boolean): void {
+        this.permitted = permitted;
+    }
+
+    setResearchEnvelope(envelope: FesSafetyEnvelope | null): void {
+        this.researchEnvelope = envelope;
+    }
+
+    setVolunteerEnvelope(envelope: FesSafetyEnvelope | null): void {
+        this.volunteerEnvelope = envelope;
+    }
+
+    /**
+     * New link to a stimulator. The acknowledged baseline belongs to the
+     * previous device, so it is discarded.
+     */
+    setDevice(address: string | null, envelope: FesSafetyEnvelope = envelopeFromCapabilities()): void {
+        this.deviceAddress = address;
+        this.deviceEnvelope = envelope;
+        this.acknowledgedParams = null;
+    }
+
+    getEffectiveEnvelope(): FesSafetyEnvelope {
+        return intersectEnvelopes(this.deviceEnvelope, this.researchEnvelope, this.volunteerEnvelope);
+    }
+
+    get hasPendingEmergencyStop(): boolean {
+        return this.pendingEmergencyStop;
+    }
+
+    // ── Guarded commands ───────────────────────────────────────────────────────
+
+    evaluate(params: FESParametersBody): FesSafetyDecision {
+        return evaluateFesParameters(params, this.getEffectiveEnvelope(), this.acknowledgedParams, this.policy);
+    }
+
+    /**
+     * Send FES parameters if they pass the interlock. Large increases are
+     * only sent with `confirmed: true`.
+     */
+    async sendFesParams(params: FESParametersBody, options: { confirmed?: boolean } = {}): Promise<FesCommandResult> {
+        if (!this.context) {
+            return this.block('fes_params', 'No active session', params);
+        }
+        if (!this.permitted) {
+            return this.block('fes_params', 'User is not permitted to stimulate', params);
+        }
+
+        const decision = this.evaluate(params);
+        if (decision.status === 'blocked') {
+            return this.block('fes_params', describeViolations(decision.violations), params, decision.violations);
+        }
+        if (decision.status === 'needs_confirmation' && !options.confirmed) {
+            return { status: 'needs_confirmation', increases: decision.increases };
+        }
+
+        const detail = decision.status === 'needs_confirmation'
+            ? `Confirmed increase: ${decision.increases.map(i => `${i.field} ${i.from}→${i.to}`).join(', ')}`
+            : undefined;
+
+        try {
+            await this.protocol.sendFesParams(params);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await this.record({ command: 'fes_params', outcome: 'failed', parameters: params, detail: message });
+            return { status: 'failed', error: message };
+        }
+
+        this.acknowledgedParams = { ...params };
+        await this.record({ command: 'fes_params', outcome: 'acknowledged', parameters: params, detail });
+        return { status: 'acknowledged' };
+    }
+
+    /**
+     * Deliver one stimulation pulse with the last acknowledged parameters,
+     * re-checked against the current envelope.
+     */
+    async singleStimulation(): Promise<FesCommandResult> {
+        if (!this.context) {
+            return this.block('single_stimulation', 'No active session');
+        }
+        if (!this.permitted) {
+            return this.block('single_stimulation', 'User is not permitted to stimulate');
+        }
+        const params = this.acknowledgedParams;
+        if (!params) {
+            return this.block('single_stimulation', 'FES parameters not yet acknowledged by the device');
+        }
+        const decision = this.evaluate(params);
+        if (decision.status === 'blocked') {
+            return this.block('single_stimulation', describeViolations(decision.violations), params, decision.violations);
+        }
+
+        try {
+            await this.protocol.singleStimulation();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await this.record({ command: 'single_stimulation', outcome: 'failed', parameters: params, detail: message });
+            return { status: 'failed', error: message };
+        }
+
+        await this.record({ command: 'single_stimulation', outcome: 'acknowledged', parameters: params });
+        return { status: 'acknowledged' };
+    }
+
+    /**
+     * Never blocked and never waits for an ACK. Returns false when the
+     * command could not be written; it is then retried on the next connect.
+     */
+    async emergencyStop(reason: EmergencyStopReason = 'manual'): Promise<boolean> {
+        this.sessionStopped();
+
+        try {
+            await this.protocol.emergencyStop();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.pendingEmergencyStop = true;
+            console.error(`[FesSafety] EmergencyStop (${reason}) could not be sent:`, message);
+            await this.record({ command: 'emergency_stop', outcome: 'failed', reason, detail: message });
+            return false;
+        }
+
+        this.pendingEmergencyStop = false;
+        console.warn(`[FesSafety] EmergencyStop sent (${reason})`);
+        await this.record({ command: 'emergency_stop', outcome: 'sent', reason });
+        if (reason !== 'manual') {
+            this.options.onEmergencyStop?.(reason);
+        }
+        return true;
+    }
+
+    /**
+     * Call right after a link comes up, before anything else is sent.
+     */
+    async flushPendingEmergencyStop(): Promise<void> {
+        if (this.pendingEmergencyStop) {
+            await this.emergencyStop('reconnect');
+        }
+    }
+
+    // ── Lifecycle triggers ─────────────────────────────────────────────────────
+
+    /** Device session started: arm the Status watchdog. */
+    sessionStarted(): void {
+        this.sessionActive = true;
+        this.resetWatchdog();
+    }
+
+    sessionStopped(): void {
+        this.sessionActive = false;
+        this.clearWatchdog();
+    }
+
+    /** Feed the watchdog; call for every Status message from the device. */
+    notifyStatus(): void {
+        if (this.sessionActive) {
+            this.resetWatchdog();
+        }
+    }
+
+    /**
+     * The link is going away (user disconnect or link loss).
+     */
+    async handleDisconnect(): Promise<void> {
+        await this.emergencyStop('disconnect');
+    }
+
+    /**
+     * The app left the foreground. Stimulation must not continue unattended.
+     */
+    async handleBackground(): Promise<void> {
+        if (this.sessionActive) {
+            await this.emergencyStop('background');
+        }
+    }
+
+    dispose(): void {
+        this.clearWatchdog();
+    }
+
+    // ── Internals ──────────────────────────────────────────────────────────────
+
+    private resetWatchdog(): void {
+        this.clearWatchdog();
+        this.watchdog = setTimeout(() => {
+            this.watchdog = null;
+            console.error(`[FesSafety] No Status for ${this.policy.statusWatchdogSeconds}s`);
+            void this.emergencyStop('watchdog');
+        }, this.policy.statusWatchdogSeconds * 1000);
+    }
+
+    private clearWatchdog(): void {
+        if (this.watchdog) {
+            clearTimeout(this.watchdog);
+            this.watchdog = null;
+        }
+    }
+
+    private async block(
+        command: 'fes_params' | 'single_stimulation',
+        reason: string,
+        parameters?: FESParametersBody,
+        violations?: FesEnvelopeViolation[]
+    ): Promise<FesCommandResult> {
+        console.warn(`[FesSafety] Blocked ${command}: ${reason}`);
+        await this.record({ command, outcome: 'blocked', parameters, detail: reason });
+        return violations ? { status: 'blocked', reason, violations } : { status: 'blocked', reason };
+    }
+
+    /**
+     * Logging must never stand in the way of a stimulation or stop command.
+     */
+    private async record(entry: Omit<NewStimulationLogEntry, keyof StimulationContext | 'deviceAddress'>): Promise<void> {
+        try {
+            await this.options.log.append({
+                ...entry,
+                researcherId: this.context?.researcherId,
+                volunteerId: this.context?.volunteerId,
+                researchId: this.context?.researchId,
+                sessionId: this.context?.sessionId,
+                deviceAddress: this.deviceAddress ?? undefined,
+            });
+        } catch (error) {
+            console.error('[FesSafety] Failed to write stimulation log:', error);
+        }
+    }
+}
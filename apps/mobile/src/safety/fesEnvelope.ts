@@ -0,0 +1,169 @@
+/**
+ * FES Envelope Helpers
+ *
+ * Pure functions behind the safety interlock: building envelopes from device
+ * capabilities, narrowing them per research/volunteer, and checking a set of
+ * FES parameters against the result.
+ */
+
+import {
+    DeviceCapabilities,
+    FESParametersBody,
+    FesSafetyEnvelope,
+    FesSafetyPolicy,
+    FesSafetyDecision,
+    FesEnvelopeViolation,
+    FesParameterIncrease,
+    DEFAULT_DEVICE_CAPABILITIES,
+} from '@iris/domain';
+
+/** Stimulation duration bounds when nothing narrower is configured (s). */
+const DEFAULT_DURATION_RANGE = { min: 1, max: 60 };
+
+/** Envelope field → FESParametersBody key. */
+const PARAMETER_KEYS: Record<keyof FesSafetyEnvelope, keyof FESParametersBody> = {
+    amplitude: 'a',
+    frequency: 'f',
+    pulseWidth: 'pw',
+    duration: 'pd',
+};
+
+const ENVELOPE_FIELDS = Object.keys(PARAMETER_KEYS) as (keyof FesSafetyEnvelope)[];
+
+/**
+ * Hardware envelope: what the connected stimulator can physically deliver.
+ */
+export function envelopeFromCapabilities(
+    capabilities: DeviceCapabilities = DEFAULT_DEVICE_CAPABILITIES
+): FesSafetyEnvelope {
+    const { fes } = capabilities;
+    return {
+        amplitude: { min: fes.minAmplitude, max: fes.maxAmplitude },
+        frequency: { min: fes.minFrequency, max: fes.maxFrequency },
+        pulseWidth: { min: fes.minPulseWidth, max: fes.maxPulseWidth },
+        duration: { ...DEFAULT_DURATION_RANGE },
+    };
+}
+
+/**
+ * Intersect envelopes field by field. Missing envelopes are skipped, so the
+ * result is never wider than any envelope given.
+ */
+export function intersectEnvelopes(
+    base: FesSafetyEnvelope,
+    ...others: (FesSafetyEnvelope | null | undefined)[]
+): FesSafetyEnvelope {
+    const result: FesSafetyEnvelope = {
+        amplitude: { ...base.amplitude },
+        frequency: { ...base.frequency },
+        pulseWidth: { ...base.pulseWidth },
+        duration: { ...base.duration },
+    };
+
+    for (const envelope of others) {
+        if (!envelope) continue;
+        for (const field of ENVELOPE_FIELDS) {
+            result[field] = {
+                min: Math.max(result[field].min, envelope[field].min),
+                max: Math.min(result[field].max, envelope[field].max),
+            };
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Parameters outside the envelope. An empty range (min > max, from
+ * conflicting envelopes) rejects every value.
+ */
+export function findEnvelopeViolations(
+    params: FESParametersBody,
+    envelope: FesSafetyEnvelope
+): FesEnvelopeViolation[] {
+    const violations: FesEnvelopeViolation[] = [];
+    for (const field of ENVELOPE_FIELDS) {
+        const value = params[PARAMETER_KEYS[field]];
+        const range = envelope[field];
+        if (!Number.isFinite(value) || value < range.min || value > range.max) {
+            violations.push({ field, value, range: { ...range } });
+        }
+    }
+    return violations;
+}
+
+/**
+ * Increases over the previously acknowledged parameters that exceed the
+ * policy's confirmation delta. Decreases never need confirmation.
+ */
+export function findLargeIncreases(
+    previous: FESParametersBody,
+    next: FESParametersBody,
+    policy: FesSafetyPolicy
+): FesParameterIncrease[] {
+    const increases: FesParameterIncrease[] = [];
+    for (const field of ENVELOPE_FIELDS) {
+        const key = PARAMETER_KEYS[field];
+        const delta = next[key] - previous[key];
+        if (delta > policy.confirmationDelta[field]) {
+            increases.push({ field, from: previous[key], to: next[key], delta });
+        }
+    }
+    return increases;
+}
+
+/** Baseline before the device acknowledged any parameters: no stimulation. */
+const ZERO_PARAMETERS: FESParametersBody = { a: 0, f: 0, pw: 0, df: 0, pd: 0 };
+
+/**
+ * Interlock verdict. Envelope violations always win over confirmation. With
+ * no acknowledged baseline (first send after connect or a device change) the
+ * increases are measured from zero, so anything above the confirmation
+ * deltas must be confirmed.
+ */
+export function evaluateFesParameters(
+    params: FESParametersBody,
+    envelope: FesSafetyEnvelope,
+    previous: FESParametersBody | null,
+    policy: FesSafetyPolicy
+): FesSafetyDecision {
+    const violations = findEnvelopeViolations(params, envelope);
+    if (violations.length > 0) {
+        return { status: 'blocked', violations };
+    }
+
+    const increases = findLargeIncreases(previous ?? ZERO_PARAMETERS, params, policy);
+    if (increases.length > 0) {
+        return { status: 'needs_confirmation', increases };
+    }
+
+    return { status: 'allowed' };
+}
+
+/**
+ * Problems that keep an envelope from being saved: non-numeric or negative
+ * bounds, and ranges whose minimum is above their maximum.
+ */
+export function validateEnvelope(envelope: FesSafetyEnvelope): string[] {
+    const problems: string[] = [];
+    for (const field of ENVELOPE_FIELDS) {
+        const { min, max } = envelope[field];
+        if (!Number.isFinite(min) || !Number.isFinite(max)) {
+            problems.push(`${field}: minimum and maximum must be numbers`);
+        } else if (min < 0) {
+            problems.push(`${field}: minimum must not be negative`);
+        } else if (min > max) {
+            problems.push(`${field}: minimum ${min} is above maximum ${max}`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * One-line description for logs and alerts.
+ */
+export function describeViolations(violations: FesEnvelopeViolation[]): string {
+    return violations
+        .map(v => `${v.field} ${v.value} outside ${v.range.min}–${v.range.max}`)
+        .join('; ');
+}
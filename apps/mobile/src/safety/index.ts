@@ -0,0 +1,17 @@
+/**
+ * Safety Barrel Export
+ *
+ * FES stimulation interlock and envelope helpers.
+ */
+
+export { FesSafetyInterlock } from './FesSafetyInterlock';
+export type { FesCommandResult, FesSafetyInterlockOptions, StimulationLogSink } from './FesSafetyInterlock';
+export {
+    envelopeFromCapabilities,
+    intersectEnvelopes,
+    findEnvelopeViolations,
+    findLargeIncreases,
+    evaluateFesParameters,
+    validateEnvelope,
+    describeViolations,
+} from './fesEnvelope';
@@ -8,7 +8,7 @@
  * - Running session timer (MM:SS format)
  * - Session summary card with volunteer, body structure, device
  * - Large circular record button for starting captures
- * - Recordings list with sync status badges
+ * - Recordings list with sync status badges and signal-integrity summary
  * - Empty state when no recordings
  * - Annotations navigation
  * - End session with confirmation dialog
@@ -110,6 +110,9 @@ export const ActiveSessionScreen: FC<Props> = ({ navigation }) => {
       minute: '2-digit',
     });
 
+    const integrity = item.signalIntegrity;
+    const hasGaps = !!integrity && integrity.gapCount > 0;
+
     return (
       <View style={styles.recordingItem}>
         <View style={styles.recordingContent}>
@@ -121,6 +124,14 @@ export const ActiveSessionScreen: FC<Props> = ({ navigation }) => {
             <Text style={styles.recordingMeta}>
               {recordedTime} • {item.durationSeconds}s
             </Text>
+            {integrity && (
+              <Text style={[styles.recordingIntegrity, { color: hasGaps ? theme.colors.warning : theme.colors.success }]}>
+                {hasGaps
+                  ? `${integrity.gapCount} gap${integrity.gapCount === 1 ? '' : 's'} • ${integrity.missingSamples} samples lost • longest ${integrity.longestGapMs} ms`
+                  : 'No gaps'}
+                {integrity.duplicatePackets > 0 ? ` • ${integrity.duplicatePackets} duplicates dropped` : ''}
+              </Text>
+            )}
           </View>
         </View>
         <View style={[styles.syncBadge, { backgroundColor: `${syncStatusColor}15` }]}>
@@ -402,6 +413,11 @@ const styles = StyleSheet.create({
     color: theme.colors.textMuted,
   },
 
+  recordingIntegrity: {
+    ...theme.typography.bodySmall,
+    marginTop: 2,
+  },
+
   syncBadge: {
     paddingHorizontal: theme.spacing.sm,
     paddingVertical: theme.spacing.xs,
@@ -24,6 +24,7 @@ import { Button } from '@/components/ui/Button';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { AnnotationRepository } from '@/data/repositories/AnnotationRepository';
 import type { Annotation } from '@iris/domain';
+import { ANNOTATION_CATEGORY_LABELS } from '@iris/domain';
 import { ChevronLeft, Plus, MoreVertical } from 'lucide-react-native';
 
 type Props = NativeStackScreenProps<HomeStackParamList, 'AnnotationsList'>;
@@ -89,7 +90,11 @@ export const AnnotationsListScreen: FC<Props> = ({ route, navigation }) => {
   const renderAnnotationItem = ({ item }: ListRenderItemInfo<Annotation>) => (
     <Card style={styles.annotationCard}>
       <View style={styles.annotationHeader}>
-        <Text style={styles.timestamp}>{formatTimestamp(item.createdAt)}</Text>
+        <Text style={styles.timestamp}>
+          {formatTimestamp(item.createdAt)}
+          {item.category ? ` · ${ANNOTATION_CATEGORY_LABELS[item.category]}` : ''}
+          {item.startOffsetMs !== undefined ? ` · ${(item.startOffsetMs / 1000).toFixed(1)}s into recording` : ''}
+        </Text>
         <MoreVertical size={16} color={theme.colors.textMuted} />
       </View>
       <Text style={styles.annotationText}>{item.text}</Text>
@@ -28,7 +28,7 @@ import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { MainTabParamList, RootStackParamList } from '@/navigation/types';
 import { theme } from '@/theme';
 import { useBluetoothContext } from '@/context/BluetoothContext';
-import { BluetoothDevice } from 'react-native-bluetooth-classic';
+import type { DeviceInfo } from '@iris/domain';
 import { RefreshCw, Smartphone, CheckCircle2, Bluetooth, AlertTriangle, HelpCircle, Search, ShieldOff, Settings } from 'lucide-react-native';
 
 type Props = CompositeScreenProps<
@@ -36,7 +36,7 @@ type Props = CompositeScreenProps<
   NativeStackScreenProps<RootStackParamList>
 >;
 
-type DeviceWithStatus = BluetoothDevice & { active: boolean };
+type DeviceWithStatus = DeviceInfo;
 
 export const BluetoothScreen: FC<Props> = ({ navigation }) => {
   const {
@@ -46,6 +46,7 @@ export const BluetoothScreen: FC<Props> = ({ navigation }) => {
     pairedDevices,
     isScanning,
     selectedDevice,
+    deviceConfiguration,
     signalStrength,
     scanForDevices,
     connectToDevice,
@@ -156,7 +157,9 @@ export const BluetoothScreen: FC<Props> = ({ navigation }) => {
   const renderDevice = ({ item }: { item: DeviceWithStatus }) => {
     const status = getDeviceStatus(item);
     const badge = getStatusBadge(status);
-    const deviceSignal = item.active && selectedDevice?.address === item.address ? signalStrength : null;
+    const isSelected = item.active && selectedDevice?.address === item.address;
+    const deviceSignal = isSelected ? signalStrength : null;
+    const firmwareVersion = isSelected ? deviceConfiguration?.firmware.version : undefined;
 
     return (
       <TouchableOpacity
@@ -176,6 +179,9 @@ export const BluetoothScreen: FC<Props> = ({ navigation }) => {
             <Text style={styles.deviceAddress}>
               {deviceSignal !== null ? `Signal: ${deviceSignal}%` : item.address}
             </Text>
+            {firmwareVersion && (
+              <Text style={styles.deviceAddress}>Firmware {firmwareVersion}</Text>
+            )}
           </View>
         </View>
         <View style={[styles.statusBadge, badge.style]}>
@@ -9,6 +9,8 @@
  * - Red pulsing recording indicator
  * - Real-time waveform chart with ±3000µV range
  * - Three metric cards (RMS, Frequency, Signal Quality)
+ * - One-tap "mark now" annotations, saved when tapped and anchored to the
+ *   recording's sample clock
  * - Stop recording with save modal
  * - Simulation mode when no device connected
  */
@@ -32,9 +34,19 @@ import { SEMGChart } from '@/components/SEMGChart';
 import { SavingModal } from '@/components/SavingModal';
 import { useStreamData } from '@/hooks/useStreamData';
 import { useRecordingTimer } from '@/hooks/useRecordingTimer';
-import type { StreamDataPacket, ChartDataPoint, NewRecordingData } from '@iris/domain';
-import { DEVICE_SAMPLE_RATE_HZ, SIMULATION_SAMPLE_RATE_HZ } from '@iris/domain';
-import { Square, Activity, Zap, Signal } from 'lucide-react-native';
+import type { StreamDataPacket, ChartDataPoint, NewRecordingData, SignalIntegrity } from '@iris/domain';
+import {
+  DEVICE_SAMPLE_RATE_HZ,
+  SIMULATION_SAMPLE_RATE_HZ,
+  ANNOTATION_CATEGORY_LABELS,
+  rootMeanSquare,
+  computeStreamStatistics,
+} from '@iris/domain';
+import { RECORDING_EXTENSION } from '@/recording';
+import { expoRecordingFileSystem } from '@/recording/ExpoRecordingFileSystem';
+import { AnnotationRepository } from '@/data/repositories/AnnotationRepository';
+import { generateUUID } from '@/utils/uuid';
+import { Square, Activity, Zap, Signal, Flag } from 'lucide-react-native';
 
 type Props = NativeStackScreenProps<HomeStackParamList, 'Capture'>;
 
@@ -43,11 +55,13 @@ const DARK_CARD_BG = '#252538';
 const TEAL_LINE = '#49A2A8';
 const RED_INDICATOR = '#EF4444';
 
+const annotationRepository = new AnnotationRepository();
+
 export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
   const { sessionId } = route.params;
-  const { selectedDevice, streamData, streamConfig, startStream, stopStream, isStreaming, startRecording, stopRecording: stopBtRecording, clearStreamData, waitForStreamActive } =
+  const { selectedDevice, streamData, streamConfig, startStream, stopStream, isStreaming, startRecording, recordingOffsetMs, stopRecording: stopBtRecording, clearStreamData, waitForStreamActive } =
     useBluetoothContext();
-  const { addRecording } = useSession();
+  const { addRecording, clinicalData } = useSession();
   const { elapsedSeconds, formattedTime } = useRecordingTimer();
   const processedData = useStreamData(streamData, DEVICE_SAMPLE_RATE_HZ);
 
@@ -63,6 +77,12 @@ export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
   // Process simulation data at top level (cannot call hooks conditionally)
   const simulationProcessedData = useStreamData(simulationData, SIMULATION_SAMPLE_RATE_HZ);
 
+  // The recording is saved under this id, so marks can be stored as they are
+  // tapped, before the recording itself exists
+  const recordingIdRef = useRef(generateUUID());
+  const simulationStartedAtRef = useRef<number | null>(null);
+  const [markCount, setMarkCount] = useState(0);
+
   // Pulsing animation for recording indicator
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
@@ -106,7 +126,8 @@ export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
         }
 
         console.log('[CaptureScreen] Stream active, starting recording...');
-        await startRecording(sessionId);
+        // Channels map to the session's sensors in the order they were selected
+        await startRecording(sessionId, clinicalData?.sensorIds ?? [], recordingIdRef.current);
       } else {
         console.log('[CaptureScreen] No device connected, entering simulation mode');
         startSimulation();
@@ -127,6 +148,7 @@ export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
   const startSimulation = () => {
     let sampleIndex = 0;
     const baseTimestamp = Date.now();
+    simulationStartedAtRef.current = baseTimestamp;
 
     simulationIntervalRef.current = setInterval(() => {
       const timestamp = Date.now() - baseTimestamp;
@@ -167,15 +189,12 @@ export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
       };
     }
 
-    // RMS calculation
+    const sampleRate = selectedDevice ? DEVICE_SAMPLE_RATE_HZ : SIMULATION_SAMPLE_RATE_HZ;
     const values = dataSource.chartData.map((point: ChartDataPoint) => point.y);
-    const squaredSum = values.reduce((sum: number, val: number) => sum + val * val, 0);
-    const rms = Math.sqrt(squaredSum / values.length);
+    const rms = rootMeanSquare(values);
 
     // Standard deviation for signal quality
-    const mean = dataSource.avgValue;
-    const variance = values.reduce((sum: number, val: number) => sum + Math.pow(val - mean, 2), 0) / values.length;
-    const stdDev = Math.sqrt(variance);
+    const { stdDev } = computeStreamStatistics(values, sampleRate);
 
     // Signal quality: 1-3 dots based on stdDev
     let signalQuality = 1;
@@ -186,14 +205,37 @@ export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
     }
 
     return {
-      rms: Math.abs(rms),
-      frequency: selectedDevice ? DEVICE_SAMPLE_RATE_HZ : SIMULATION_SAMPLE_RATE_HZ,
+      rms,
+      frequency: sampleRate,
       signalQuality,
     };
   }, [processedData, simulationProcessedData, selectedDevice]);
 
   const metrics = calculateMetrics();
 
+  // Mark the current moment of the recording. Device recordings are placed by
+  // the newest packet received; simulated packets are stamped with Date.now().
+  const handleMarkNow = useCallback(async () => {
+    const simulationStartedAt = simulationStartedAtRef.current;
+    const startOffsetMs = selectedDevice
+      ? recordingOffsetMs()
+      : simulationStartedAt === null ? null : Date.now() - simulationStartedAt;
+    if (startOffsetMs === null) return;
+
+    try {
+      await annotationRepository.create({
+        sessionId,
+        recordingId: recordingIdRef.current,
+        startOffsetMs: Math.round(startOffsetMs),
+        category: 'marker',
+        text: ANNOTATION_CATEGORY_LABELS.marker,
+      });
+      setMarkCount((count) => count + 1);
+    } catch (error) {
+      console.error('[CaptureScreen] Failed to save mark:', error);
+    }
+  }, [selectedDevice, recordingOffsetMs, sessionId]);
+
   // Stop recording and save
   const handleStopRecording = useCallback(async () => {
     console.log('[CaptureScreen] Stopping recording...');
@@ -218,36 +260,45 @@ export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
     try {
       let filePath: string;
       let totalSamples: number;
+      let signalIntegrity: SignalIntegrity | undefined;
+      let channelCount = 1;
+      let channelSensorIds: string[] = [];
       const sampleRate = selectedDevice ? DEVICE_SAMPLE_RATE_HZ : SIMULATION_SAMPLE_RATE_HZ;
 
       if (selectedDevice) {
-        // Incremental CSV already written to disk by BluetoothContext
+        // Chunked recording already written to disk by BluetoothContext
         const result = await stopBtRecording();
         filePath = result.filePath;
         totalSamples = result.sampleCount;
+        signalIntegrity = result.signalIntegrity;
+        channelCount = result.channelCount;
+        channelSensorIds = result.channelSensorIds;
       } else {
         // Simulation mode: bulk export (unchanged path)
         const csvContent = createSimulationCSVContent(simulationData, sampleRate);
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const filename = `recording_${timestamp}.csv`;
         filePath = `${FileSystem.documentDirectory}${filename}`;
-        await FileSystem.writeAsStringAsync(filePath, csvContent, {
-          encoding: FileSystem.EncodingType.UTF8,
-        });
+        await expoRecordingFileSystem.writeText(filePath, csvContent);
         totalSamples = simulationData.reduce((sum, p) => sum + p.values.length, 0);
       }
 
-      const filename = filePath.split('/').pop() || 'recording.csv';
+      // Recordings are exported as CSV, so the name always carries .csv
+      const filename = (filePath.split('/').pop() || 'recording.csv').replace(RECORDING_EXTENSION, '.csv');
 
       // Create recording entity
       const recordingData: NewRecordingData = {
+        id: recordingIdRef.current,
         sessionId,
         filename,
         durationSeconds: elapsedSeconds,
         sampleCount: totalSamples,
         dataType: selectedDevice ? streamConfig.type : 'filtered',
         sampleRate,
+        channelCount,
+        channelSensorIds,
         filePath,
+        signalIntegrity,
       };
 
       await addRecording(recordingData);
@@ -351,13 +402,23 @@ export const CaptureScreen: FC<Props> = ({ route, navigation }) => {
             </View>
           </View>
 
-          {/* Stop Recording Button */}
-          <TouchableOpacity style={styles.stopButton} onPress={handleStopRecording}>
-            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
-              <Square size={20} color="#FFFFFF" fill="#FFFFFF" />
-              <Text style={styles.stopButtonText}>Stop Recording</Text>
-            </View>
-          </TouchableOpacity>
+          <View style={styles.actionRow}>
+            {/* Mark Now Button */}
+            <TouchableOpacity style={styles.markButton} onPress={handleMarkNow}>
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                <Flag size={20} color={TEAL_LINE} />
+                <Text style={styles.markButtonText}>Mark{markCount > 0 ? ` (${markCount})` : ''}</Text>
+              </View>
+            </TouchableOpacity>
+
+            {/* Stop Recording Button */}
+            <TouchableOpacity style={styles.stopButton} onPress={handleStopRecording}>
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                <Square size={20} color="#FFFFFF" fill="#FFFFFF" />
+                <Text style={styles.stopButtonText}>Stop Recording</Text>
+              </View>
+            </TouchableOpacity>
+          </View>
         </View>
       </SafeAreaView>
 
@@ -486,7 +547,25 @@ const styles = StyleSheet.create({
   qualityDotActive: {
     backgroundColor: '#10B981',
   },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  markButton: {
+    borderWidth: 1,
+    borderColor: TEAL_LINE,
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  markButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: TEAL_LINE,
+  },
   stopButton: {
+    flex: 1,
     backgroundColor: RED_INDICATOR,
     borderRadius: 12,
     paddingVertical: 16,
@@ -2,12 +2,14 @@
  * History Screen
  *
  * Displays past sessions with backend integration, local merge, offline
- * fallback, sync status badges, and per-session retry.
+ * fallback, sync status badges with the last sync error, per-session
+ * retry, and a link to review sync conflicts. Tapping a session
+ * lists its local recordings, each opening in the recording viewer.
  *
  * Implements US-MI-014 through US-MI-018.
  */
 
-import React, { FC, useState, useEffect, useMemo, useCallback } from 'react';
+import React, { FC, useState, useMemo, useCallback } from 'react';
 import {
   View,
   Text,
@@ -19,16 +21,17 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import type { CompositeScreenProps } from '@react-navigation/native';
+import { useFocusEffect, type CompositeScreenProps } from '@react-navigation/native';
 import type { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { MainTabParamList, RootStackParamList } from '@/navigation/types';
-import type { ClinicalSession, ClinicalData, PaginatedResponse, Recording } from '@iris/domain';
+import type { ClinicalSession, ClinicalData, PaginatedResponse, Recording, SyncQueueItem } from '@iris/domain';
 import { theme } from '@/theme';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { SessionRepository } from '@/data/repositories/SessionRepository';
 import { RecordingRepository } from '@/data/repositories/RecordingRepository';
 import { AnnotationRepository } from '@/data/repositories/AnnotationRepository';
+import { auditLogRepository } from '@/data/repositories/AuditLogRepository';
 import { SyncService } from '@/services/SyncService';
 import { middleware } from '@/services/middleware';
 import {
@@ -36,17 +39,19 @@ import {
   type ClinicalSessionResponseDTO,
 } from '@/services/SyncService.mappers';
 import { useDebounce } from '@/hooks/useDebounce';
-import * as FileSystem from 'expo-file-system';
 import {
   exportSessionAsZip,
   shareZip,
   type SessionMetadata,
   type RecordingForExport,
 } from '@/utils/csvExport';
+import { resolveRecordingContent } from '@/recording/recordingContent';
 import {
   Search,
   Calendar,
   ChevronRight,
+  ChevronDown,
+  Activity,
   FileDown,
   CheckCircle2,
   Clock,
@@ -54,6 +59,7 @@ import {
   Loader2,
   WifiOff,
   RefreshCw,
+  GitMerge,
 } from 'lucide-react-native';
 
 type Props = CompositeScreenProps<
@@ -89,7 +95,9 @@ function formatTime(isoString: string): string {
 
 /**
  * Merge backend and local session data.
- * Backend is authoritative for synced sessions.
+ * Backend is authoritative for synced sessions. Sessions with local edits
+ * not yet pushed are shown as they are on the device, so a pending edit is
+ * never hidden behind the backend copy; SyncService reconciles the two.
  * Local-only sessions keep their current syncStatus.
  */
 function mergeSessionData(
@@ -103,7 +111,9 @@ function mergeSessionData(
   }
 
   for (const ls of localSessions) {
-    if (mergedMap.has(ls.id)) {
+    if (mergedMap.has(ls.id) && ls.syncStatus !== 'synced') {
+      mergedMap.set(ls.id, { ...mergedMap.get(ls.id)!, ...ls });
+    } else if (mergedMap.has(ls.id)) {
       const backend = mergedMap.get(ls.id)!;
       mergedMap.set(ls.id, {
         ...backend,
@@ -120,44 +130,6 @@ function mergeSessionData(
     .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
 }
 
-/**
- * Resolve CSV content for a recording using local file first, then blob URL fallback.
- * Downloads to a temp file to avoid loading large CSVs into JS heap on low-end devices.
- */
-async function resolveRecordingContent(rec: Recording): Promise<string> {
-    // Case 1: Try local file first
-    if (rec.filePath) {
-        const fileInfo = await FileSystem.getInfoAsync(rec.filePath);
-        if (fileInfo.exists) {
-            return FileSystem.readAsStringAsync(rec.filePath, {
-                encoding: FileSystem.EncodingType.UTF8,
-            });
-        }
-    }
-
-    // Case 2: Fetch from blob URL via temp file
-    if (rec.blobUrl) {
-        try {
-            const tmpPath = FileSystem.cacheDirectory + `tmp_${rec.id}.csv`;
-            const download = await FileSystem.downloadAsync(rec.blobUrl, tmpPath);
-            if (download.status === 200) {
-                const content = await FileSystem.readAsStringAsync(tmpPath, {
-                    encoding: FileSystem.EncodingType.UTF8,
-                });
-                await FileSystem.deleteAsync(tmpPath, { idempotent: true });
-                return content;
-            }
-            await FileSystem.deleteAsync(tmpPath, { idempotent: true });
-            return '# Failed to download recording from server\n';
-        } catch {
-            return '# Recording data is on server (offline)\n';
-        }
-    }
-
-    // Case 3: Neither local file nor blob URL available
-    return '# No recording data available\n';
-}
-
 export const HistoryScreen: FC<Props> = ({ navigation }) => {
   const [sessions, setSessions] = useState<SessionWithClinicalData[]>([]);
   const [loading, setLoading] = useState(true);
@@ -165,6 +137,11 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
   const [searchText, setSearchText] = useState('');
   const [exportingSessionId, setExportingSessionId] = useState<string | null>(null);
   const [retryingSessionId, setRetryingSessionId] = useState<string | null>(null);
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [expandedRecordings, setExpandedRecordings] = useState<Recording[]>([]);
+  const [syncFailures, setSyncFailures] = useState<Map<string, SyncQueueItem>>(new Map());
+  const [conflictSessionIds, setConflictSessionIds] = useState<Set<string>>(new Set());
+  const [conflictCount, setConflictCount] = useState(0);
 
   const debouncedSearchText = useDebounce(searchText, 300);
 
@@ -182,6 +159,15 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
         })
       );
 
+      // Why entities failed to sync, keyed by entity id
+      const queue = await syncService.getSyncQueue();
+      setSyncFailures(new Map(queue.map((item) => [item.entityId, item])));
+
+      // Sessions with an unresolved conflict, on the session or its annotations
+      const conflicts = await syncService.getConflicts();
+      setConflictSessionIds(new Set(conflicts.map((conflict) => conflict.sessionId)));
+      setConflictCount(conflicts.length);
+
       // Try fetching from backend
       let backendSessions: ClinicalSession[] = [];
       try {
@@ -261,6 +247,12 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
       }
 
       const zipUri = await exportSessionAsZip(metadata, recordingsForExport, csvContents);
+      await auditLogRepository.record({
+        action: 'data_exported',
+        sessionId: session.id,
+        entityType: 'export',
+        details: { kind: 'session_zip', recordingIds: recordings.map((rec) => rec.id) },
+      });
       await shareZip(zipUri);
     } catch (error) {
       console.error('[HistoryScreen] Export failed:', error);
@@ -270,6 +262,23 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
     }
   }, []);
 
+  /**
+   * Show or hide the local recordings of a session.
+   */
+  const handleToggleSession = useCallback(async (sessionId: string) => {
+    if (expandedSessionId === sessionId) {
+      setExpandedSessionId(null);
+      return;
+    }
+    try {
+      const recordings = await recordingRepository.getBySession(sessionId);
+      setExpandedRecordings(recordings);
+      setExpandedSessionId(sessionId);
+    } catch (error) {
+      console.error('[HistoryScreen] Failed to load recordings:', error);
+    }
+  }, [expandedSessionId]);
+
   /**
    * Retry sync for a failed session.
    * Resets retry state and triggers a full sync cycle.
@@ -278,7 +287,7 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
     try {
       setRetryingSessionId(sessionId);
       await sessionRepository.update(sessionId, { syncStatus: 'pending' });
-      syncService.resetEntityRetry(sessionId);
+      await syncService.resetEntityRetry(sessionId);
       await syncService.syncAll();
       await loadSessions();
     } catch (error) {
@@ -294,6 +303,18 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
   const renderSyncBadge = useCallback((session: SessionWithClinicalData) => {
     const isRetrying = retryingSessionId === session.id;
 
+    if (conflictSessionIds.has(session.id)) {
+      return (
+        <Pressable
+          style={({ pressed }) => [styles.syncBadge, pressed && { opacity: 0.7 }]}
+          onPress={() => navigation.navigate('SyncConflicts')}
+        >
+          <GitMerge size={12} color={theme.colors.error} />
+          <Text style={[styles.syncBadgeText, { color: theme.colors.error }]}>Conflict</Text>
+        </Pressable>
+      );
+    }
+
     switch (session.syncStatus) {
       case 'synced':
         return (
@@ -339,11 +360,29 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
       default:
         return null;
     }
-  }, [retryingSessionId, handleRetrySync]);
+  }, [retryingSessionId, handleRetrySync, conflictSessionIds, navigation]);
+
+  /**
+   * Last sync error for an entity, with the next automatic attempt if any.
+   */
+  const renderSyncFailure = useCallback((entityId: string) => {
+    const failure = syncFailures.get(entityId);
+    if (!failure?.errorReason) return null;
+
+    return (
+      <Text style={styles.syncErrorText} numberOfLines={2}>
+        {failure.errorReason}
+        {failure.nextAttemptAt
+          ? ` · retry ${failure.retryCount} at ${formatTime(failure.nextAttemptAt)}`
+          : ' · not retrying'}
+      </Text>
+    );
+  }, [syncFailures]);
 
   const renderSessionCard = useCallback(
     ({ item: session }: { item: SessionWithClinicalData }) => {
       const isExporting = exportingSessionId === session.id;
+      const isExpanded = expandedSessionId === session.id;
 
       return (
         <View style={styles.card}>
@@ -359,7 +398,7 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
             {renderSyncBadge(session)}
           </View>
 
-          <View style={styles.cardBody}>
+          <Pressable style={styles.cardBody} onPress={() => handleToggleSession(session.id)}>
             <View style={styles.sessionInfo}>
               <Text style={styles.volunteerName} numberOfLines={1}>
                 {session.volunteerName ?? 'Unknown Volunteer'}
@@ -372,9 +411,40 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
                   {session.researchTitle}
                 </Text>
               )}
+              {renderSyncFailure(session.id)}
             </View>
-            <ChevronRight size={20} color={theme.colors.textMuted} />
-          </View>
+            {isExpanded ? (
+              <ChevronDown size={20} color={theme.colors.textMuted} />
+            ) : (
+              <ChevronRight size={20} color={theme.colors.textMuted} />
+            )}
+          </Pressable>
+
+          {isExpanded && (
+            <View style={styles.recordingList}>
+              {expandedRecordings.length === 0 ? (
+                <Text style={styles.recordingEmpty}>No recordings on this device</Text>
+              ) : (
+                expandedRecordings.map((rec) => (
+                  <Pressable
+                    key={rec.id}
+                    style={({ pressed }) => [styles.recordingRow, pressed && styles.exportButtonPressed]}
+                    onPress={() => navigation.navigate('RecordingViewer', { recordingId: rec.id })}
+                  >
+                    <Activity size={14} color={theme.colors.primary} />
+                    <View style={styles.recordingName}>
+                      <Text style={styles.recordingNameText} numberOfLines={1}>
+                        {rec.filename}
+                      </Text>
+                      {renderSyncFailure(rec.id)}
+                    </View>
+                    <Text style={styles.recordingMeta}>{rec.durationSeconds.toFixed(0)}s</Text>
+                    <ChevronRight size={16} color={theme.colors.textMuted} />
+                  </Pressable>
+                ))
+              )}
+            </View>
+          )}
 
           <View style={styles.cardFooter}>
             <Pressable
@@ -395,7 +465,16 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
         </View>
       );
     },
-    [exportingSessionId, handleExportSession, renderSyncBadge]
+    [
+      exportingSessionId,
+      expandedSessionId,
+      expandedRecordings,
+      handleExportSession,
+      handleToggleSession,
+      renderSyncBadge,
+      renderSyncFailure,
+      navigation,
+    ]
   );
 
   const renderEmptyState = useCallback(() => {
@@ -422,9 +501,12 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
     return null;
   }, [loading, debouncedSearchText, filteredSessions.length, sessions.length]);
 
-  useEffect(() => {
-    loadSessions();
-  }, [loadSessions]);
+  // Reload on focus so resolved conflicts and new sessions show up
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [loadSessions])
+  );
 
   return (
     <SafeAreaView style={styles.container}>
@@ -455,6 +537,20 @@ export const HistoryScreen: FC<Props> = ({ navigation }) => {
         </View>
       )}
 
+      {/* Sync Conflicts Banner */}
+      {conflictCount > 0 && (
+        <Pressable
+          style={({ pressed }) => [styles.conflictBanner, pressed && { opacity: 0.7 }]}
+          onPress={() => navigation.navigate('SyncConflicts')}
+        >
+          <GitMerge size={14} color={theme.colors.error} />
+          <Text style={styles.offlineBannerText}>
+            {conflictCount === 1 ? '1 sync conflict needs review' : `${conflictCount} sync conflicts need review`}
+          </Text>
+          <ChevronRight size={16} color={theme.colors.textMuted} />
+        </Pressable>
+      )}
+
       {loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={theme.colors.primary} />
@@ -527,6 +623,16 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: theme.colors.warning,
   },
+  conflictBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: theme.colors.error + '15',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.error,
+  },
   offlineBannerText: {
     ...theme.typography.bodySmall,
     color: theme.colors.textBody,
@@ -613,6 +719,39 @@ const styles = StyleSheet.create({
     color: theme.colors.primary,
     fontWeight: '600',
   },
+  recordingList: {
+    marginBottom: theme.spacing.md,
+    gap: theme.spacing.xs,
+  },
+  recordingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.backgroundAlt,
+  },
+  recordingName: {
+    flex: 1,
+  },
+  recordingNameText: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textBody,
+  },
+  syncErrorText: {
+    ...theme.typography.uiSmall,
+    color: theme.colors.error,
+  },
+  recordingMeta: {
+    ...theme.typography.uiSmall,
+    color: theme.colors.textMuted,
+  },
+  recordingEmpty: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+    fontStyle: 'italic',
+  },
   cardFooter: {
     borderTopWidth: 1,
     borderTopColor: theme.colors.border,
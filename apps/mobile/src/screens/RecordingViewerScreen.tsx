@@ -0,0 +1,536 @@
+/**
+ * Recording Viewer Screen
+ *
+ * Offline view of a saved recording across its full duration. Drag to pan,
+ * pinch or use the buttons to zoom. Session annotations and stimulation
+ * commands from the FES log are drawn as markers on the recording's
+ * timeline; tapping a marker in the list centres the view on it.
+ */
+
+import React, { FC, useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+  PanResponder,
+  type GestureResponderEvent,
+  type LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Polyline, Line, Rect } from 'react-native-svg';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@/navigation/types';
+import type { Annotation, Recording, StimulationLogEntry } from '@iris/domain';
+import { ANNOTATION_CATEGORY_LABELS } from '@iris/domain';
+import { theme } from '@/theme';
+import { RecordingRepository } from '@/data/repositories/RecordingRepository';
+import { AnnotationRepository } from '@/data/repositories/AnnotationRepository';
+import { stimulationLogRepository } from '@/data/repositories/FesSafetyRepository';
+import {
+  fullViewport,
+  zoomViewport,
+  panViewport,
+  downsampleMinMax,
+  placeMarkers,
+  markersInViewport,
+  type SignalSeries,
+  type Viewport,
+  type RecordingMarker,
+  type RecordingMarkerKind,
+  type TimelineEvent,
+} from '@/recording';
+import { loadRecordingSeries } from '@/recording/recordingContent';
+import { ChevronLeft, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react-native';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'RecordingViewer'>;
+
+const recordingRepository = new RecordingRepository();
+const annotationRepository = new AnnotationRepository();
+
+const CHART_HEIGHT = 220;
+const ZOOM_STEP = 2;
+
+const MARKER_COLORS: Record<RecordingMarkerKind, string> = {
+  annotation: theme.colors.secondary,
+  stimulation: theme.colors.warning,
+};
+
+const STIMULATION_LABELS: Record<StimulationLogEntry['command'], string> = {
+  fes_params: 'FES parameters',
+  single_stimulation: 'Stimulation',
+  emergency_stop: 'Emergency stop',
+};
+
+function formatOffset(ms: number): string {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+  return `${minutes}:${seconds.toFixed(seconds < 10 ? 2 : 1).padStart(5, '0')}`;
+}
+
+function touchDistance(event: GestureResponderEvent): number {
+  const [a, b] = event.nativeEvent.touches;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+}
+
+/**
+ * Annotations anchored to this recording keep their offsets; session-level
+ * ones are placed by creation time; those anchored elsewhere are skipped.
+ */
+function annotationEvents(annotations: Annotation[], recordingId: string): TimelineEvent[] {
+  return annotations.flatMap((annotation): TimelineEvent[] => {
+    const label = annotation.category
+      ? `${ANNOTATION_CATEGORY_LABELS[annotation.category]}: ${annotation.text}`
+      : annotation.text;
+    if (annotation.recordingId === recordingId && annotation.startOffsetMs !== undefined) {
+      return [{
+        id: annotation.id,
+        kind: 'annotation',
+        label,
+        offsetMs: annotation.startOffsetMs,
+        endOffsetMs: annotation.endOffsetMs,
+      }];
+    }
+    if (annotation.recordingId) {
+      return [];
+    }
+    return [{ id: annotation.id, kind: 'annotation', label, at: annotation.createdAt }];
+  });
+}
+
+/**
+ * Stimulation commands that reached the device. Blocked commands never left
+ * the phone, so they have no place on the signal.
+ */
+function stimulationEvents(entries: StimulationLogEntry[]): TimelineEvent[] {
+  return entries
+    .filter((entry) => entry.outcome !== 'blocked')
+    .map((entry) => ({
+      id: entry.id,
+      kind: 'stimulation' as const,
+      at: entry.createdAt,
+      label: STIMULATION_LABELS[entry.command],
+    }));
+}
+
+export const RecordingViewerScreen: FC<Props> = ({ route, navigation }) => {
+  const { recordingId } = route.params;
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [series, setSeries] = useState<SignalSeries | null>(null);
+  const [markers, setMarkers] = useState<RecordingMarker[]>([]);
+  const [viewport, setViewport] = useState<Viewport>({ startMs: 0, endMs: 0 });
+  const [chartWidth, setChartWidth] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const rec = await recordingRepository.getById(recordingId);
+        if (!rec) {
+          throw new Error('Recording not found');
+        }
+        const [loaded, annotations, stimulations] = await Promise.all([
+          loadRecordingSeries(rec),
+          annotationRepository.getBySession(rec.sessionId),
+          stimulationLogRepository.getBySession(rec.sessionId),
+        ]);
+        if (cancelled) return;
+
+        const events: TimelineEvent[] = [
+          ...annotationEvents(annotations, rec.id),
+          ...stimulationEvents(stimulations),
+        ];
+
+        setRecording(rec);
+        setSeries(loaded.series);
+        setMarkers(placeMarkers(events, loaded.startedAt, loaded.series.durationMs));
+        setViewport(fullViewport(loaded.series.durationMs));
+      } catch (err) {
+        console.error('[RecordingViewer] Failed to load recording:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load recording');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId]);
+
+  const durationMs = series?.durationMs ?? 0;
+
+  // Fixed amplitude scale so panning does not rescale the trace
+  const valueRange = useMemo(() => {
+    if (!series || series.values.length === 0) return { min: -1, max: 1 };
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < series.values.length; i++) {
+      if (series.values[i] < min) min = series.values[i];
+      if (series.values[i] > max) max = series.values[i];
+    }
+    return min === max ? { min: min - 1, max: max + 1 } : { min, max };
+  }, [series]);
+
+  const polylinePoints = useMemo(() => {
+    if (!series || chartWidth === 0) return '';
+    const span = viewport.endMs - viewport.startMs || 1;
+    const range = valueRange.max - valueRange.min;
+    return downsampleMinMax(series, viewport, Math.floor(chartWidth))
+      .map((point) => {
+        const x = ((point.timeMs - viewport.startMs) / span) * chartWidth;
+        const y = CHART_HEIGHT - ((point.value - valueRange.min) / range) * CHART_HEIGHT;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  }, [series, viewport, chartWidth, valueRange]);
+
+  const visibleMarkers = useMemo(() => markersInViewport(markers, viewport), [markers, viewport]);
+
+  // Gesture state lives in refs; the responder is created once
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+  const layoutRef = useRef({ width: 0, durationMs: 0 });
+  layoutRef.current = { width: chartWidth, durationMs };
+  const gestureRef = useRef<{ origin: Viewport; pinchDistance: number | null }>({
+    origin: viewport,
+    pinchDistance: null,
+  });
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        // Keep the gesture when the surrounding ScrollView asks for it
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => {
+          gestureRef.current = { origin: viewportRef.current, pinchDistance: null };
+        },
+        onPanResponderMove: (event, gesture) => {
+          const { width, durationMs: total } = layoutRef.current;
+          if (width === 0 || total === 0) return;
+          const { origin } = gestureRef.current;
+
+          if (event.nativeEvent.touches.length >= 2) {
+            const distance = touchDistance(event);
+            if (gestureRef.current.pinchDistance === null) {
+              gestureRef.current = { origin: viewportRef.current, pinchDistance: distance };
+              return;
+            }
+            const [a, b] = event.nativeEvent.touches;
+            const anchor = Math.min(Math.max(((a.locationX + b.locationX) / 2) / width, 0), 1);
+            setViewport(zoomViewport(gestureRef.current.origin, distance / gestureRef.current.pinchDistance, total, anchor));
+            return;
+          }
+
+          if (gestureRef.current.pinchDistance === null) {
+            const span = origin.endMs - origin.startMs;
+            setViewport(panViewport(origin, (-gesture.dx / width) * span, total));
+          }
+        },
+      }),
+    []
+  );
+
+  const handleChartLayout = useCallback((event: LayoutChangeEvent) => {
+    setChartWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const handleZoom = useCallback(
+    (factor: number) => setViewport((current) => zoomViewport(current, factor, durationMs)),
+    [durationMs]
+  );
+
+  const handleFocusMarker = useCallback(
+    (marker: RecordingMarker) => {
+      setViewport((current) => {
+        const span = current.endMs - current.startMs;
+        return panViewport(current, marker.timeMs - (current.startMs + span / 2), durationMs);
+      });
+    },
+    [durationMs]
+  );
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+          <Text style={styles.mutedText}>Loading recording...</Text>
+        </View>
+      );
+    }
+
+    if (error || !series || !recording) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error ?? 'Recording unavailable'}</Text>
+        </View>
+      );
+    }
+
+    const span = viewport.endMs - viewport.startMs || 1;
+    const zeroY = CHART_HEIGHT - ((0 - valueRange.min) / (valueRange.max - valueRange.min)) * CHART_HEIGHT;
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.chartCard}>
+          <View style={styles.chartArea} onLayout={handleChartLayout} {...panResponder.panHandlers}>
+            {chartWidth > 0 && (
+              <Svg width={chartWidth} height={CHART_HEIGHT}>
+                <Line
+                  x1={0}
+                  x2={chartWidth}
+                  y1={zeroY}
+                  y2={zeroY}
+                  stroke={theme.colors.border}
+                  strokeWidth={1}
+                />
+                <Polyline points={polylinePoints} fill="none" stroke={theme.colors.primary} strokeWidth={1} />
+                {visibleMarkers.map((marker) => {
+                  const x = ((marker.timeMs - viewport.startMs) / span) * chartWidth;
+                  if (marker.endMs !== undefined) {
+                    const endX = ((marker.endMs - viewport.startMs) / span) * chartWidth;
+                    return (
+                      <Rect
+                        key={marker.id}
+                        x={x}
+                        y={0}
+                        width={Math.max(endX - x, 2)}
+                        height={CHART_HEIGHT}
+                        fill={MARKER_COLORS[marker.kind]}
+                        fillOpacity={0.2}
+                      />
+                    );
+                  }
+                  return (
+                    <Line
+                      key={marker.id}
+                      x1={x}
+                      x2={x}
+                      y1={0}
+                      y2={CHART_HEIGHT}
+                      stroke={MARKER_COLORS[marker.kind]}
+                      strokeWidth={2}
+                      strokeDasharray={marker.kind === 'annotation' ? '4,3' : undefined}
+                    />
+                  );
+                })}
+              </Svg>
+            )}
+          </View>
+
+          <View style={styles.axisRow}>
+            <Text style={styles.axisText}>{formatOffset(viewport.startMs)}</Text>
+            <Text style={styles.axisText}>{(span / 1000).toFixed(span < 10000 ? 2 : 1)} s window</Text>
+            <Text style={styles.axisText}>{formatOffset(viewport.endMs)}</Text>
+          </View>
+
+          <View style={styles.controls}>
+            <Pressable style={({ pressed }) => [styles.controlButton, pressed && styles.pressed]} onPress={() => handleZoom(1 / ZOOM_STEP)}>
+              <ZoomOut size={18} color={theme.colors.primary} />
+            </Pressable>
+            <Pressable style={({ pressed }) => [styles.controlButton, pressed && styles.pressed]} onPress={() => setViewport(fullViewport(durationMs))}>
+              <Maximize2 size={18} color={theme.colors.primary} />
+            </Pressable>
+            <Pressable style={({ pressed }) => [styles.controlButton, pressed && styles.pressed]} onPress={() => handleZoom(ZOOM_STEP)}>
+              <ZoomIn size={18} color={theme.colors.primary} />
+            </Pressable>
+          </View>
+        </View>
+
+        <View style={styles.legend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS.annotation }]} />
+            <Text style={styles.mutedText}>Annotation</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS.stimulation }]} />
+            <Text style={styles.mutedText}>FES event</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Markers ({markers.length})</Text>
+        {markers.length === 0 ? (
+          <Text style={styles.mutedText}>No annotations or FES events during this recording.</Text>
+        ) : (
+          markers.map((marker) => (
+            <Pressable
+              key={marker.id}
+              style={({ pressed }) => [styles.markerRow, pressed && styles.pressed]}
+              onPress={() => handleFocusMarker(marker)}
+            >
+              <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS[marker.kind] }]} />
+              <Text style={styles.markerTime}>
+                {formatOffset(marker.timeMs)}
+                {marker.endMs !== undefined ? `–${formatOffset(marker.endMs)}` : ''}
+              </Text>
+              <Text style={styles.markerLabel} numberOfLines={1}>
+                {marker.label}
+              </Text>
+            </Pressable>
+          ))
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => navigation.goBack()} style={styles.backButton}>
+          <ChevronLeft size={24} color={theme.colors.textBody} />
+        </Pressable>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {recording?.filename ?? 'Recording'}
+          </Text>
+          {recording && (
+            <Text style={styles.headerSubtitle}>
+              {formatOffset(durationMs)} | {recording.sampleRate} Hz | {recording.dataType}
+            </Text>
+          )}
+        </View>
+      </View>
+      {renderBody()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+    ...theme.shadow.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    ...theme.typography.title2,
+    color: theme.colors.textTitle,
+  },
+  headerSubtitle: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    padding: theme.spacing['2xl'],
+  },
+  errorText: {
+    ...theme.typography.bodyBase,
+    color: theme.colors.error,
+    textAlign: 'center',
+  },
+  content: {
+    padding: theme.spacing.lg,
+    gap: theme.spacing.md,
+  },
+  chartCard: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    ...theme.shadow.sm,
+  },
+  chartArea: {
+    height: CHART_HEIGHT,
+    overflow: 'hidden',
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.xs,
+  },
+  axisText: {
+    ...theme.typography.uiSmall,
+    color: theme.colors.textMuted,
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
+  controlButton: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.backgroundAlt,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: theme.spacing.lg,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  mutedText: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+  },
+  sectionTitle: {
+    ...theme.typography.title3,
+    color: theme.colors.textTitle,
+  },
+  markerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  markerTime: {
+    ...theme.typography.uiSmall,
+    color: theme.colors.textBody,
+    fontWeight: '600',
+    minWidth: 64,
+  },
+  markerLabel: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textBody,
+    flex: 1,
+  },
+});
@@ -9,7 +9,8 @@
  * - Body structure selection (SNOMED CT)
  * - Topography multi-select with tag chips
  * - Device selection from paired Bluetooth devices
- * - Sensor selection via inline Select dropdown (required when sensors exist)
+ * - Sensor selection via inline Select dropdowns, one per electrode channel
+ *   (required when sensors exist)
  * - Form validation before session start
  *
  * Research project is resolved from EXPO_PUBLIC_RESEARCH_ID env var —
@@ -41,7 +42,7 @@ import type { SessionFavorite, Sensor } from '@iris/domain';
 import { useBluetoothContext } from '@/context/BluetoothContext';
 import { useSession } from '@/context/SessionContext';
 import { useAuth } from '@/context/AuthContext';
-import { Volunteer, SnomedBodyStructure, SnomedTopographicalModifier } from '@iris/domain';
+import { Volunteer, SnomedBodyStructure, SnomedTopographicalModifier, MAX_SEMG_CHANNELS } from '@iris/domain';
 import { Search, Plus, Star, Settings, RotateCcw } from 'lucide-react-native';
 import { favoriteRepository } from '@/data/repositories/FavoriteRepository';
 import { NamePromptModal } from '@/components/NamePromptModal';
@@ -52,7 +53,8 @@ type Props = NativeStackScreenProps<HomeStackParamList, 'SessionConfig'>;
 const RESEARCH_ID = process.env.EXPO_PUBLIC_RESEARCH_ID ?? '';
 
 export const SessionConfigScreen: FC<Props> = ({ navigation, route }) => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canRecord = can('session:record');
   const { neuraDevices } = useBluetoothContext();
   const { startSession } = useSession();
   const {
@@ -88,6 +90,26 @@ export const SessionConfigScreen: FC<Props> = ({ navigation, route }) => {
   const [sensors, setSensors] = useState<Sensor[]>([]);
   const [isSensorsLoading, setIsSensorsLoading] = useState(false);
 
+  // One sensor per electrode channel, in channel order, plus an empty slot
+  // for the next channel up to MAX_SEMG_CHANNELS.
+  const channelSlots = Array.from(
+    { length: Math.min(selectedSensorIds.length + 1, MAX_SEMG_CHANNELS, sensors.length) },
+    (_, channel) => channel
+  );
+
+  const selectChannelSensor = (channel: number, sensorId: string) => {
+    const sensor = sensors.find((s) => s.id === sensorId);
+    // Clearing a channel also clears the ones after it, so channels stay contiguous
+    const ids = sensor
+      ? [...selectedSensorIds.slice(0, channel), sensor.id, ...selectedSensorIds.slice(channel + 1)]
+      : selectedSensorIds.slice(0, channel);
+    const names = sensor
+      ? [...selectedSensorNames.slice(0, channel), sensor.name, ...selectedSensorNames.slice(channel + 1)]
+      : selectedSensorNames.slice(0, channel);
+    setSelectedSensorIds(ids);
+    setSelectedSensorNames(names);
+  };
+
   // Debounce volunteer search
   const debouncedSearchQuery = useDebounce(volunteerSearchQuery, 500);
 
@@ -327,7 +349,7 @@ export const SessionConfigScreen: FC<Props> = ({ navigation, route }) => {
 
   // Start session handler
   const handleStartSession = async () => {
-    if (!isFormValid() || !selectedVolunteer || !user) {
+    if (!isFormValid() || !selectedVolunteer || !user || !canRecord) {
       return;
     }
 
@@ -556,22 +578,21 @@ export const SessionConfigScreen: FC<Props> = ({ navigation, route }) => {
             <Text style={styles.sensorHint}>No sensors registered for this research.</Text>
           ) : (
             <>
-              <Select
-                label="Sensor"
-                placeholder="Select sensor..."
-                value={selectedSensorIds[0] ?? ''}
-                onValueChange={(value) => {
-                  const sensor = sensors.find((s) => s.id === value);
-                  if (sensor) {
-                    setSelectedSensorIds([sensor.id]);
-                    setSelectedSensorNames([sensor.name]);
-                  } else {
-                    setSelectedSensorIds([]);
-                    setSelectedSensorNames([]);
-                  }
-                }}
-                options={sensors.map((s) => ({ label: s.name, value: s.id }))}
-              />
+              {channelSlots.map((channel) => (
+                <Select
+                  key={channel}
+                  label={channelSlots.length > 1 ? `Channel ${channel + 1}` : 'Sensor'}
+                  placeholder={channel === 0 ? 'Select sensor...' : 'Add a channel...'}
+                  value={selectedSensorIds[channel] ?? ''}
+                  onValueChange={(value) => selectChannelSensor(channel, String(value))}
+                  options={[
+                    ...(channel > 0 ? [{ label: 'None', value: '' }] : []),
+                    ...sensors
+                      .filter((s) => s.id === selectedSensorIds[channel] || !selectedSensorIds.includes(s.id))
+                      .map((s) => ({ label: s.name, value: s.id })),
+                  ]}
+                />
+              ))}
               {selectedSensorIds.length === 0 && deviceHasSensors && (
                 <Text style={styles.sensorValidationHint}>
                   A sensor is required to start a session.
@@ -611,12 +632,15 @@ export const SessionConfigScreen: FC<Props> = ({ navigation, route }) => {
           leftIcon={<Star size={16} color={canSaveFavorite() ? theme.colors.primary : theme.colors.textMuted} />}
         />
         <View style={{ height: theme.spacing.sm }} />
+        {!canRecord && (
+          <Text style={styles.permissionHint}>Your role does not allow running clinical sessions.</Text>
+        )}
         <Button
           title="Start Session"
           variant="primary"
           size="lg"
           fullWidth
-          disabled={!isFormValid() || isStartingSession}
+          disabled={!isFormValid() || isStartingSession || !canRecord}
           loading={isStartingSession}
           onPress={handleStartSession}
         />
@@ -772,6 +796,12 @@ const styles = StyleSheet.create({
     color: theme.colors.textMuted,
     fontStyle: 'italic',
   },
+  permissionHint: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    marginBottom: theme.spacing.sm,
+  },
   sensorValidationHint: {
     ...theme.typography.bodySmall,
     color: theme.colors.warning,
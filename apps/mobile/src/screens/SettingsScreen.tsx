@@ -8,6 +8,12 @@
  * - Profile card with user information
  * - Appearance settings (light/dark mode placeholder)
  * - Export format preferences
+ * - Recording upload policy and the sync scheduler's current status
+ * - Data retention policy, with a dry-run review before purging
+ * - Password-encrypted backup of all local data (password typed twice), and
+ *   restore from the latest local backup or any file the system picker reaches
+ * - Rotation of the key that encrypts local data at rest
+ * - Integrity check of the device audit log
  * - App version info
  * - Logout with active session warning
  */
@@ -23,7 +29,25 @@ import {
   Pressable,
   Alert,
 } from 'react-native';
-import { User, Moon, Download, Shield, ChevronRight, LogOut, RefreshCw, Star } from 'lucide-react-native';
+import {
+  User,
+  Moon,
+  Download,
+  Shield,
+  ChevronRight,
+  LogOut,
+  RefreshCw,
+  Star,
+  CloudUpload,
+  Wifi,
+  KeyRound,
+  HardDrive,
+  UserX,
+  Trash2,
+  ShieldCheck,
+  Archive,
+  ArchiveRestore,
+} from 'lucide-react-native';
 import type { CompositeScreenProps } from '@react-navigation/native';
 import type { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
@@ -31,9 +55,17 @@ import type { MainTabParamList, RootStackParamList } from '@/navigation/types';
 import { theme } from '@/theme';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { PasswordPromptModal } from '@/components/PasswordPromptModal';
 import { useAuth } from '@/context/AuthContext';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
 import { preferencesService } from '@/services/PreferencesService';
+import type { RecordingUploadPolicy, SyncScheduleState } from '@/services/SyncService.types';
+import { BACKUP_PASSWORD_MIN_LENGTH, DEFAULT_RETENTION_POLICY, RestoreReport, RetentionPolicy, RetentionReport } from '@iris/domain';
+import { retentionJob } from '@/data/RetentionJob';
+import { auditLogRepository } from '@/data/repositories/AuditLogRepository';
 import { snomedService } from '@/services/SnomedService';
+import { dataProtectionService } from '@/services/DataProtectionService';
+import { backupService } from '@/services/BackupService';
 
 type Props = CompositeScreenProps<
   BottomTabScreenProps<MainTabParamList, 'Settings'>,
@@ -42,11 +74,81 @@ type Props = CompositeScreenProps<
 
 const APP_VERSION = '1.0.0';
 
+// Order in which the upload policy row cycles
+const RECORDING_UPLOAD_POLICIES: RecordingUploadPolicy[] = ['any', 'unmetered', 'unmetered_or_charging', 'charging'];
+
+const RECORDING_UPLOAD_POLICY_LABELS: Record<RecordingUploadPolicy, string> = {
+  any: 'Any network',
+  unmetered: 'Wi-Fi only',
+  unmetered_or_charging: 'Wi-Fi or charging',
+  charging: 'While charging',
+};
+
+// Options the retention rows cycle through, in days
+const RECORDING_FILE_DAYS = [0, 7, 30, 90];
+const SESSION_DETAIL_DAYS: (number | null)[] = [null, 30, 90, 180];
+
+function recordingFileDaysLabel(days: number): string {
+  return days === 0 ? 'Until uploaded' : `${days} days after upload`;
+}
+
+function sessionDetailDaysLabel(days: number | null): string {
+  return days === null ? 'Never' : `${days} days after sync`;
+}
+
+function nextOption<T>(options: T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
+
+function retentionSummary(report: RetentionReport): string {
+  const lines = [
+    `${report.recordings.length} recording file(s) will be deleted from this phone.`,
+    `${report.sessions.length} session(s) will have the volunteer name removed.`,
+  ];
+  const names = report.recordings.slice(0, 5).map(item => `• ${item.filename}`);
+  if (report.recordings.length > names.length) {
+    names.push(`• and ${report.recordings.length - names.length} more`);
+  }
+  return [...lines, ...names, 'Uploaded copies and session records stay.'].join('\n');
+}
+
+function restoreSummary(report: RestoreReport): string {
+  const sessions = report.inserted.clinical_sessions ?? 0;
+  const recordings = report.inserted.recordings ?? 0;
+  const existing = report.skipped.clinical_sessions ?? 0;
+  const lines = [`Added ${sessions} session(s) and ${recordings} recording(s).`];
+  if (existing > 0) {
+    lines.push(`${existing} session(s) were already on this device and were kept as they are.`);
+  }
+  if (report.recordingsWithoutFiles.length > 0) {
+    lines.push(`${report.recordingsWithoutFiles.length} recording(s) had no file in the backup.`);
+  }
+  return lines.join('\n');
+}
+
+function syncStatusLabel(schedule: SyncScheduleState, isRunning: boolean): string {
+  if (!isRunning) return 'Stopped';
+  if (schedule.paused) return 'Paused (offline)';
+  if (schedule.deferredRecordings > 0) return `${schedule.deferredRecordings} recording(s) waiting`;
+  if (schedule.lastSyncAt) {
+    return `Synced ${new Date(schedule.lastSyncAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  }
+  return 'Active';
+}
+
 export const SettingsScreen: FC<Props> = ({ navigation }) => {
   const { user, researcher, logout } = useAuth();
+  const { schedule, isRunning, refreshSchedule } = useSyncStatus();
 
   const [appearance, setAppearance] = useState<'light' | 'dark'>('light');
   const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
+  const [uploadPolicy, setUploadPolicy] = useState<RecordingUploadPolicy>('any');
+  const [rotatingKey, setRotatingKey] = useState(false);
+  const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [purging, setPurging] = useState(false);
+  const [backupPrompt, setBackupPrompt] = useState<'create' | 'restore' | null>(null);
+  const [restoreUri, setRestoreUri] = useState<string | null>(null);
+  const [backupBusy, setBackupBusy] = useState(false);
 
   // Load preferences on mount
   useEffect(() => {
@@ -55,12 +157,16 @@ export const SettingsScreen: FC<Props> = ({ navigation }) => {
 
   const loadPreferences = async () => {
     try {
-      const [appearancePref, exportPref] = await Promise.all([
+      const [appearancePref, exportPref, uploadPolicyPref, retentionPref] = await Promise.all([
         preferencesService.getAppearance(),
         preferencesService.getExportFormat(),
+        preferencesService.getRecordingUploadPolicy(),
+        preferencesService.getRetentionPolicy(),
       ]);
       setAppearance(appearancePref);
       setExportFormat(exportPref);
+      setUploadPolicy(uploadPolicyPref);
+      setRetentionPolicy(retentionPref);
     } catch (error) {
       console.error('[SettingsScreen] Failed to load preferences:', error);
     }
@@ -88,11 +194,234 @@ export const SettingsScreen: FC<Props> = ({ navigation }) => {
     }
   }, [exportFormat]);
 
+  const handleUploadPolicyToggle = useCallback(async () => {
+    const index = RECORDING_UPLOAD_POLICIES.indexOf(uploadPolicy);
+    const newPolicy = RECORDING_UPLOAD_POLICIES[(index + 1) % RECORDING_UPLOAD_POLICIES.length];
+    setUploadPolicy(newPolicy);
+    try {
+      await preferencesService.setRecordingUploadPolicy(newPolicy);
+      await refreshSchedule();
+    } catch (error) {
+      console.error('[SettingsScreen] Failed to save recording upload policy:', error);
+      Alert.alert('Error', 'Failed to save recording upload preference');
+    }
+  }, [uploadPolicy, refreshSchedule]);
+
+  const saveRetentionPolicy = useCallback(async (newPolicy: RetentionPolicy) => {
+    setRetentionPolicy(newPolicy);
+    try {
+      await preferencesService.setRetentionPolicy(newPolicy);
+    } catch (error) {
+      console.error('[SettingsScreen] Failed to save retention policy:', error);
+      Alert.alert('Error', 'Failed to save data retention preference');
+    }
+  }, []);
+
+  const handleRecordingRetentionToggle = useCallback(() => {
+    const recordingFileDays = nextOption(RECORDING_FILE_DAYS, retentionPolicy.recordingFileDays);
+    return saveRetentionPolicy({ ...retentionPolicy, recordingFileDays });
+  }, [retentionPolicy, saveRetentionPolicy]);
+
+  const handleSessionRetentionToggle = useCallback(() => {
+    const sessionDetailDays = nextOption(SESSION_DETAIL_DAYS, retentionPolicy.sessionDetailDays);
+    return saveRetentionPolicy({ ...retentionPolicy, sessionDetailDays });
+  }, [retentionPolicy, saveRetentionPolicy]);
+
+  const handlePurge = useCallback(async () => {
+    let preview: RetentionReport;
+    try {
+      preview = await retentionJob.preview(retentionPolicy);
+    } catch (error) {
+      console.error('[SettingsScreen] Retention preview failed:', error);
+      Alert.alert('Error', 'Failed to check which data can be purged');
+      return;
+    }
+
+    if (preview.recordings.length === 0 && preview.sessions.length === 0) {
+      Alert.alert('Nothing to Purge', 'No synced data is past the retention policy.');
+      return;
+    }
+
+    Alert.alert(
+      'Purge Synced Data',
+      retentionSummary(preview),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Purge',
+          style: 'destructive',
+          onPress: async () => {
+            setPurging(true);
+            try {
+              const report = await retentionJob.purge(retentionPolicy);
+              const message = `Deleted ${report.recordings.length} recording file(s) and cleared ${report.sessions.length} volunteer name(s).`;
+              Alert.alert(
+                'Purge Complete',
+                report.failed.length > 0
+                  ? `${message} ${report.failed.length} item(s) failed and will be retried.`
+                  : message
+              );
+            } catch (error) {
+              console.error('[SettingsScreen] Retention purge failed:', error);
+              Alert.alert('Error', 'Failed to purge synced data. Please try again.');
+            } finally {
+              setPurging(false);
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  }, [retentionPolicy]);
+
+  const confirmRestore = useCallback((uri: string) => {
+    Alert.alert(
+      'Restore Backup',
+      `Restore ${uri.slice(uri.lastIndexOf('/') + 1)}? Its sessions and recordings are added to this device; data already here is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Continue',
+          onPress: () => {
+            setRestoreUri(uri);
+            setBackupPrompt('restore');
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  }, []);
+
+  const handlePickBackup = useCallback(async () => {
+    try {
+      const uri = await backupService.pickBackup();
+      if (uri) confirmRestore(uri);
+    } catch (error) {
+      console.error('[SettingsScreen] Picking backup failed:', error);
+      Alert.alert('Error', 'Failed to open the backup file');
+    }
+  }, [confirmRestore]);
+
+  // Offer the newest backup made on this device next to the file picker
+  const handleRestoreBackup = useCallback(async () => {
+    let backups: string[] = [];
+    try {
+      backups = await backupService.listBackups();
+    } catch (error) {
+      console.error('[SettingsScreen] Listing backups failed:', error);
+    }
+
+    if (backups.length === 0) {
+      handlePickBackup();
+      return;
+    }
+
+    const latest = backups[0];
+    Alert.alert(
+      'Restore Backup',
+      'Restore the latest backup made on this device, or choose a backup file?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Choose File', onPress: () => handlePickBackup() },
+        { text: latest.slice(latest.lastIndexOf('/') + 1), onPress: () => confirmRestore(latest) },
+      ],
+      { cancelable: true }
+    );
+  }, [confirmRestore, handlePickBackup]);
+
+  const handleBackupPassword = useCallback(async (password: string) => {
+    const mode = backupPrompt;
+    setBackupPrompt(null);
+    setBackupBusy(true);
+    try {
+      if (mode === 'create') {
+        const result = await backupService.createBackup(password);
+        Alert.alert(
+          'Backup Created',
+          `${result.counts.sessions} session(s) and ${result.counts.recordings} recording(s) backed up. Share the file to keep it off this device.`,
+          [
+            { text: 'Later', style: 'cancel' },
+            {
+              text: 'Share',
+              onPress: () => {
+                backupService.share(result.uri).catch((error) => {
+                  console.error('[SettingsScreen] Sharing backup failed:', error);
+                  Alert.alert('Error', 'Failed to share the backup');
+                });
+              },
+            },
+          ]
+        );
+      } else if (mode === 'restore' && restoreUri) {
+        const report = await backupService.restore(restoreUri, password);
+        Alert.alert('Backup Restored', restoreSummary(report));
+      }
+    } catch (error) {
+      console.error(`[SettingsScreen] Backup ${mode} failed:`, error);
+      Alert.alert(
+        mode === 'create' ? 'Backup Failed' : 'Restore Failed',
+        error instanceof Error ? error.message : 'Please try again.'
+      );
+    } finally {
+      setBackupBusy(false);
+    }
+  }, [backupPrompt, restoreUri]);
+
   const handleRefreshSnomedData = useCallback(() => {
     snomedService.clearCache();
     Alert.alert('Success', 'SNOMED data cache cleared. New data will be fetched on next use.');
   }, []);
 
+  const handleRotateKey = useCallback(() => {
+    Alert.alert(
+      'Rotate Encryption Key',
+      'Local data and recordings will be re-encrypted with a new key. This can take a while with many recordings; avoid recording meanwhile.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Rotate',
+          onPress: async () => {
+            setRotatingKey(true);
+            try {
+              const result = await dataProtectionService.rotateKey();
+              if (result.failedRecordings.length > 0) {
+                Alert.alert(
+                  'Key Rotated',
+                  `${result.failedRecordings.length} recording(s) could not be re-encrypted yet. They will be retried on next launch.`
+                );
+              } else {
+                Alert.alert('Key Rotated', 'Local data is now encrypted with a new key.');
+              }
+            } catch (error) {
+              console.error('[SettingsScreen] Key rotation failed:', error);
+              Alert.alert('Error', 'Failed to rotate the encryption key. Your data is still readable; please try again.');
+            } finally {
+              setRotatingKey(false);
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  }, []);
+
+  const handleVerifyAuditLog = useCallback(async () => {
+    try {
+      const result = await auditLogRepository.verify();
+      if (result.valid) {
+        Alert.alert('Audit Log Intact', `${result.checked} entries verified.`);
+      } else {
+        Alert.alert(
+          'Audit Log Tampered',
+          `Entry #${result.brokenAt} does not verify: ${result.reason}. Report this device to the study coordinator.`
+        );
+      }
+    } catch (error) {
+      console.error('[SettingsScreen] Audit log verification failed:', error);
+      Alert.alert('Error', 'Failed to verify the audit log');
+    }
+  }, []);
+
   const handleLogout = useCallback(() => {
     // TODO: Check for active session when SessionContext is implemented
     // For now, show a simple confirmation
@@ -178,6 +507,81 @@ export const SettingsScreen: FC<Props> = ({ navigation }) => {
           </Card>
         </View>
 
+        {/* Sync Settings */}
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>SYNC</Text>
+          <Card padded={false}>
+            <SettingRow
+              label="Recording Uploads"
+              value={RECORDING_UPLOAD_POLICY_LABELS[uploadPolicy]}
+              onPress={handleUploadPolicyToggle}
+              showBorder
+              icon={<CloudUpload size={20} color={theme.colors.textBody} />}
+            />
+            <SettingRow
+              label="Sync Status"
+              value={syncStatusLabel(schedule, isRunning)}
+              onPress={undefined}
+              icon={<Wifi size={20} color={theme.colors.textBody} />}
+            />
+          </Card>
+          {isRunning && schedule.reason && (
+            <Text style={styles.sectionNote}>{schedule.reason}</Text>
+          )}
+        </View>
+
+        {/* Data Retention Settings */}
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>DATA RETENTION</Text>
+          <Card padded={false}>
+            <SettingRow
+              label="Keep Recordings on Phone"
+              value={recordingFileDaysLabel(retentionPolicy.recordingFileDays)}
+              onPress={handleRecordingRetentionToggle}
+              showBorder
+              icon={<HardDrive size={20} color={theme.colors.textBody} />}
+            />
+            <SettingRow
+              label="Remove Volunteer Names"
+              value={sessionDetailDaysLabel(retentionPolicy.sessionDetailDays)}
+              onPress={handleSessionRetentionToggle}
+              showBorder
+              icon={<UserX size={20} color={theme.colors.textBody} />}
+            />
+            <SettingRow
+              label="Purge Synced Data"
+              value={purging ? 'Purging…' : undefined}
+              onPress={purging ? undefined : handlePurge}
+              icon={<Trash2 size={20} color={theme.colors.textBody} />}
+            />
+          </Card>
+          <Text style={styles.sectionNote}>
+            Only data whose upload has been confirmed is removed. Purging also runs automatically in the background.
+          </Text>
+        </View>
+
+        {/* Backup */}
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>BACKUP</Text>
+          <Card padded={false}>
+            <SettingRow
+              label="Create Backup"
+              value={backupBusy ? 'Working…' : undefined}
+              onPress={backupBusy ? undefined : () => setBackupPrompt('create')}
+              showBorder
+              icon={<Archive size={20} color={theme.colors.textBody} />}
+            />
+            <SettingRow
+              label="Restore Backup"
+              onPress={backupBusy ? undefined : handleRestoreBackup}
+              icon={<ArchiveRestore size={20} color={theme.colors.textBody} />}
+            />
+          </Card>
+          <Text style={styles.sectionNote}>
+            Backups include unsynced sessions and recordings, encrypted with the password you choose. Without the password a backup cannot be restored.
+          </Text>
+        </View>
+
         {/* System Settings */}
         <View style={styles.section}>
           <Text style={styles.sectionHeader}>SYSTEM</Text>
@@ -188,6 +592,19 @@ export const SettingsScreen: FC<Props> = ({ navigation }) => {
               showBorder
               icon={<RefreshCw size={20} color={theme.colors.textBody} />}
             />
+            <SettingRow
+              label="Rotate Encryption Key"
+              value={rotatingKey ? 'Rotating…' : undefined}
+              onPress={rotatingKey ? undefined : handleRotateKey}
+              showBorder
+              icon={<KeyRound size={20} color={theme.colors.textBody} />}
+            />
+            <SettingRow
+              label="Verify Audit Log"
+              onPress={handleVerifyAuditLog}
+              showBorder
+              icon={<ShieldCheck size={20} color={theme.colors.textBody} />}
+            />
             <SettingRow
               label="App Version"
               value={APP_VERSION}
@@ -209,6 +626,21 @@ export const SettingsScreen: FC<Props> = ({ navigation }) => {
           </Text>
         </View>
       </ScrollView>
+
+      <PasswordPromptModal
+        visible={backupPrompt !== null}
+        title={backupPrompt === 'restore' ? 'Backup Password' : 'Choose a Backup Password'}
+        message={
+          backupPrompt === 'create'
+            ? `At least ${BACKUP_PASSWORD_MIN_LENGTH} characters. Without it the backup cannot be restored.`
+            : undefined
+        }
+        confirmLabel={backupPrompt === 'restore' ? 'Restore' : 'Create'}
+        confirm={backupPrompt === 'create'}
+        minLength={BACKUP_PASSWORD_MIN_LENGTH}
+        onConfirm={handleBackupPassword}
+        onCancel={() => setBackupPrompt(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -324,6 +756,12 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.sm,
     marginLeft: theme.spacing.xs,
   },
+  sectionNote: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.sm,
+    marginLeft: theme.spacing.xs,
+  },
 
   // Setting Row
   settingRow: {
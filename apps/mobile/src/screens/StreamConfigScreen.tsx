@@ -42,7 +42,15 @@ export function StreamConfigScreen({ navigation }: StreamConfigScreenProps) {
 
     const handleSave = async () => {
         try {
-            await configureStream(DEVICE_SAMPLE_RATE_HZ, selectedType);
+            const accepted = await configureStream(DEVICE_SAMPLE_RATE_HZ, selectedType);
+            if (!accepted) {
+                Alert.alert(
+                    'Device Not Confirmed',
+                    'The device did not acknowledge the new configuration. Check the connection and try again.',
+                    [{ text: 'OK' }]
+                );
+                return;
+            }
             navigation.navigate('Streaming');
         } catch (error) {
             console.error('Error saving stream configuration:', error);
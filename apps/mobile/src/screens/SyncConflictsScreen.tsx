@@ -0,0 +1,344 @@
+/**
+ * Sync Conflicts Screen
+ *
+ * Lists sessions and annotations that were edited on this device while
+ * their copy on the Research Node changed too. For each conflict the
+ * differing fields are shown side by side; the researcher keeps the
+ * device's values, the node's, or picks per field and saves the merge.
+ */
+
+import React, { FC, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@/navigation/types';
+import type { SyncConflict, SyncConflictResolution, AnnotationCategory } from '@iris/domain';
+import { ANNOTATION_CATEGORY_LABELS } from '@iris/domain';
+import { theme } from '@/theme';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { SessionRepository } from '@/data/repositories/SessionRepository';
+import { RecordingRepository } from '@/data/repositories/RecordingRepository';
+import { AnnotationRepository } from '@/data/repositories/AnnotationRepository';
+import { SyncService } from '@/services/SyncService';
+import {
+  CONFLICT_FIELD_LABELS,
+  conflictingFields,
+  type ConflictFieldChoice,
+} from '@/services/SyncService.conflicts';
+import { ChevronLeft, Smartphone, Server } from 'lucide-react-native';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SyncConflicts'>;
+
+const syncService = new SyncService(
+  new SessionRepository(),
+  new RecordingRepository(),
+  new AnnotationRepository()
+);
+
+const TIMESTAMP_FIELDS = new Set(['startedAt', 'endedAt']);
+
+function formatValue(field: string, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (TIMESTAMP_FIELDS.has(field)) return new Date(String(value)).toLocaleString();
+  if (field === 'category') return ANNOTATION_CATEGORY_LABELS[value as AnnotationCategory] ?? String(value);
+  return String(value);
+}
+
+function conflictTitle(conflict: SyncConflict): string {
+  if (conflict.entityType === 'session') {
+    return `Session of ${formatValue('startedAt', conflict.localValues.startedAt)}`;
+  }
+  return `Annotation "${formatValue('text', conflict.localValues.text)}"`;
+}
+
+export const SyncConflictsScreen: FC<Props> = ({ navigation }) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  // Per conflict, per field: which side the merge takes (local by default)
+  const [choices, setChoices] = useState<Record<string, Record<string, ConflictFieldChoice>>>({});
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setConflicts(await syncService.getConflicts());
+    } catch (error) {
+      console.error('[SyncConflictsScreen] Failed to load conflicts:', error);
+      Alert.alert('Error', 'Failed to load sync conflicts.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadConflicts();
+    }, [loadConflicts])
+  );
+
+  const handleChoose = useCallback((conflictId: string, field: string, choice: ConflictFieldChoice) => {
+    setChoices((prev) => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: choice } }));
+  }, []);
+
+  const handleResolve = useCallback(async (conflict: SyncConflict, resolution: SyncConflictResolution) => {
+    setResolvingId(conflict.id);
+    try {
+      await syncService.resolveConflict(conflict.id, resolution, choices[conflict.id]);
+      setConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+    } catch (error) {
+      console.error('[SyncConflictsScreen] Failed to resolve conflict:', error);
+      Alert.alert('Error', 'Failed to resolve the conflict. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  }, [choices]);
+
+  const renderConflict = (conflict: SyncConflict) => {
+    const labels = CONFLICT_FIELD_LABELS[conflict.entityType];
+    const fields = conflictingFields(conflict.localValues, conflict.remoteValues);
+    const picked = choices[conflict.id] ?? {};
+    const isResolving = resolvingId === conflict.id;
+
+    return (
+      <View key={conflict.id} style={styles.card}>
+        <Text style={styles.cardTitle} numberOfLines={2}>
+          {conflictTitle(conflict)}
+        </Text>
+        <Text style={styles.mutedText}>
+          Changed on the node {new Date(conflict.remoteUpdatedAt).toLocaleString()}
+        </Text>
+
+        <View style={styles.columnHeader}>
+          <View style={styles.fieldLabelCell} />
+          <View style={styles.columnTitle}>
+            <Smartphone size={14} color={theme.colors.textMuted} />
+            <Text style={styles.mutedText}>This device</Text>
+          </View>
+          <View style={styles.columnTitle}>
+            <Server size={14} color={theme.colors.textMuted} />
+            <Text style={styles.mutedText}>Node</Text>
+          </View>
+        </View>
+
+        {fields.map((field) => (
+          <View key={field} style={styles.fieldRow}>
+            <Text style={[styles.fieldLabel, styles.fieldLabelCell]}>{labels[field] ?? field}</Text>
+            {(['local', 'remote'] as const).map((side) => {
+              const selected = (picked[field] ?? 'local') === side;
+              const values = side === 'local' ? conflict.localValues : conflict.remoteValues;
+              return (
+                <Pressable
+                  key={side}
+                  style={({ pressed }) => [
+                    styles.valueCell,
+                    selected && styles.valueCellSelected,
+                    pressed && styles.pressed,
+                  ]}
+                  onPress={() => handleChoose(conflict.id, field, side)}
+                >
+                  <Text style={styles.valueText} numberOfLines={4}>
+                    {formatValue(field, values[field])}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        ))}
+
+        <Text style={styles.hintText}>Tap a value to pick it for the merge.</Text>
+
+        <View style={styles.actions}>
+          <Button
+            title="Keep device"
+            variant="outline"
+            size="sm"
+            disabled={isResolving}
+            onPress={() => handleResolve(conflict, 'local')}
+          />
+          <Button
+            title="Keep node"
+            variant="outline"
+            size="sm"
+            disabled={isResolving}
+            onPress={() => handleResolve(conflict, 'remote')}
+          />
+          <Button
+            title="Save merge"
+            size="sm"
+            loading={isResolving}
+            onPress={() => handleResolve(conflict, 'merged')}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      );
+    }
+    if (conflicts.length === 0) {
+      return (
+        <EmptyState
+          title="No sync conflicts"
+          message="Everything edited on this device agrees with the Research Node."
+        />
+      );
+    }
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        {conflicts.map(renderConflict)}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => navigation.goBack()} style={styles.backButton}>
+          <ChevronLeft size={24} color={theme.colors.textBody} />
+        </Pressable>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Sync Conflicts</Text>
+          {!loading && conflicts.length > 0 && (
+            <Text style={styles.headerSubtitle}>
+              {conflicts.length} to review
+            </Text>
+          )}
+        </View>
+      </View>
+      {renderBody()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+    ...theme.shadow.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    ...theme.typography.title2,
+    color: theme.colors.textTitle,
+  },
+  headerSubtitle: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing['2xl'],
+  },
+  content: {
+    padding: theme.spacing.lg,
+    gap: theme.spacing.md,
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    gap: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    ...theme.shadow.sm,
+  },
+  cardTitle: {
+    ...theme.typography.title3,
+    color: theme.colors.textTitle,
+  },
+  mutedText: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.xs,
+  },
+  columnTitle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    gap: theme.spacing.sm,
+  },
+  fieldLabelCell: {
+    width: 88,
+  },
+  fieldLabel: {
+    ...theme.typography.uiSmall,
+    color: theme.colors.textBody,
+    paddingVertical: theme.spacing.sm,
+  },
+  valueCell: {
+    flex: 1,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.backgroundAlt,
+  },
+  valueCellSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '15',
+  },
+  valueText: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textBody,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  hintText: {
+    ...theme.typography.uiSmall,
+    color: theme.colors.textMuted,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.xs,
+  },
+});
@@ -19,6 +19,10 @@ export { HistoryScreen } from './HistoryScreen';
 export { BluetoothScreen } from './BluetoothScreen';
 export { SettingsScreen } from './SettingsScreen';
 
+// Root Stack Screens
+export { RecordingViewerScreen } from './RecordingViewerScreen';
+export { SyncConflictsScreen } from './SyncConflictsScreen';
+
 // Legacy screens (preserved for reference)
 export { default as HomeScreen } from './HomeScreen';
 export { default as StreamConfigScreen } from './StreamConfigScreen';
@@ -0,0 +1,254 @@
+/**
+ * FES Envelope Screen
+ *
+ * Edit the FES safety envelope of a research, or of one volunteer in it.
+ * The interlock stimulates only within device ∩ research ∩ volunteer, so a
+ * volunteer envelope can narrow the research one but never widen it.
+ *
+ * Features:
+ * - Min/max inputs for amplitude, frequency, pulse width and duration,
+ *   prefilled with the saved envelope or the connected device's limits
+ * - Validation: numbers, non-negative, min not above max
+ * - Save and Remove (back to the device limits); both require research:write
+ *   and are recorded in the audit log
+ */
+
+import React, { FC, useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { HomeStackParamList } from '@/navigation/types';
+import type { FesSafetyEnvelope } from '@iris/domain';
+import { fesEnvelopeRepository } from '@/data/repositories/FesSafetyRepository';
+import { useBluetoothContext } from '@/context/BluetoothContext';
+import { useAuth } from '@/context/AuthContext';
+import { envelopeFromCapabilities, validateEnvelope } from '@/safety';
+import { Button, Input } from '@/components/ui';
+import { theme } from '@/theme';
+
+type Props = NativeStackScreenProps<HomeStackParamList, 'FesEnvelope'>;
+
+type EnvelopeField = keyof FesSafetyEnvelope;
+type EnvelopeForm = Record<EnvelopeField, { min: string; max: string }>;
+
+const FIELDS: { key: EnvelopeField; label: string; unit: string }[] = [
+  { key: 'amplitude', label: 'Amplitude', unit: 'V' },
+  { key: 'frequency', label: 'Frequency', unit: 'Hz' },
+  { key: 'pulseWidth', label: 'Pulse width', unit: 'ms' },
+  { key: 'duration', label: 'Duration', unit: 's' },
+];
+
+function toForm(envelope: FesSafetyEnvelope): EnvelopeForm {
+  return Object.fromEntries(
+    FIELDS.map(({ key }) => [key, { min: String(envelope[key].min), max: String(envelope[key].max) }])
+  ) as EnvelopeForm;
+}
+
+function fromForm(form: EnvelopeForm): FesSafetyEnvelope {
+  const parse = (value: string) => (value.trim() === '' ? NaN : Number(value.replace(',', '.')));
+  return Object.fromEntries(
+    FIELDS.map(({ key }) => [key, { min: parse(form[key].min), max: parse(form[key].max) }])
+  ) as unknown as FesSafetyEnvelope;
+}
+
+export const FesEnvelopeScreen: FC<Props> = ({ route, navigation }) => {
+  const { researchId, volunteerId, volunteerName } = route.params;
+  const scope = volunteerId ? 'volunteer' : 'research';
+  const scopeId = volunteerId ?? researchId;
+
+  const { deviceConfiguration, saveSafetyEnvelope } = useBluetoothContext();
+  const { can } = useAuth();
+  const canEdit = can('research:write');
+
+  const [form, setForm] = useState<EnvelopeForm>(() =>
+    toForm(envelopeFromCapabilities(deviceConfiguration?.capabilities))
+  );
+  const [hasSavedEnvelope, setHasSavedEnvelope] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    navigation.setOptions({ title: volunteerName ? `FES Limits · ${volunteerName}` : 'Research FES Limits' });
+  }, [navigation, volunteerName]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const record = await fesEnvelopeRepository.getByScope(scope, scopeId);
+        if (record) {
+          setForm(toForm(record.envelope));
+          setHasSavedEnvelope(true);
+        }
+      } catch (err) {
+        console.error('[FesEnvelopeScreen] Load error:', err);
+        Alert.alert('Error', 'Failed to load the safety envelope.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [scope, scopeId]);
+
+  const envelope = fromForm(form);
+  const problems = validateEnvelope(envelope);
+
+  const updateField = (key: EnvelopeField, bound: 'min' | 'max', value: string) => {
+    setForm((current) => ({ ...current, [key]: { ...current[key], [bound]: value } }));
+  };
+
+  const save = async (next: FesSafetyEnvelope | null) => {
+    try {
+      setIsSubmitting(true);
+      await saveSafetyEnvelope(scope, scopeId, next);
+      navigation.goBack();
+    } catch (err) {
+      console.error('[FesEnvelopeScreen] Save error:', err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to save the safety envelope.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      'Remove Limits',
+      'Stimulation will only be bounded by the device and any other envelope. Remove these limits?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => save(null) },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.hint}>
+          {scope === 'volunteer'
+            ? 'Limits for this volunteer. They narrow the research limits; they cannot widen them.'
+            : 'Limits for every volunteer in this research.'}
+          {hasSavedEnvelope ? '' : ' Nothing is saved yet; the values below are the device limits.'}
+        </Text>
+
+        {FIELDS.map(({ key, label, unit }) => (
+          <View key={key} style={styles.fieldRow}>
+            <Input
+              style={styles.fieldInput}
+              label={`${label} min (${unit})`}
+              value={form[key].min}
+              onChangeText={(value) => updateField(key, 'min', value)}
+              keyboardType="decimal-pad"
+              disabled={!canEdit}
+            />
+            <Input
+              style={styles.fieldInput}
+              label={`${label} max (${unit})`}
+              value={form[key].max}
+              onChangeText={(value) => updateField(key, 'max', value)}
+              keyboardType="decimal-pad"
+              disabled={!canEdit}
+            />
+          </View>
+        ))}
+
+        {problems.map((problem) => (
+          <Text key={problem} style={styles.errorText}>{problem}</Text>
+        ))}
+        {!canEdit && (
+          <Text style={styles.hint}>You do not have permission to change safety limits.</Text>
+        )}
+      </ScrollView>
+
+      {canEdit && (
+        <View style={styles.footer}>
+          <Button
+            title="Save"
+            variant="primary"
+            size="lg"
+            fullWidth
+            disabled={problems.length > 0 || isSubmitting}
+            loading={isSubmitting}
+            onPress={() => save(envelope)}
+          />
+          {hasSavedEnvelope && (
+            <View style={styles.footerSpacing}>
+              <Button
+                title="Remove Limits"
+                variant="outline"
+                size="lg"
+                fullWidth
+                disabled={isSubmitting}
+                onPress={handleRemove}
+              />
+            </View>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing['2xl'],
+  },
+  hint: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.textMuted,
+    marginBottom: theme.spacing.md,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  fieldInput: {
+    flex: 1,
+  },
+  errorText: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.error,
+    marginBottom: theme.spacing.xs,
+  },
+  footer: {
+    padding: theme.spacing.lg,
+    backgroundColor: theme.colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+    ...theme.shadow.sm,
+  },
+  footerSpacing: {
+    marginTop: theme.spacing.sm,
+  },
+});
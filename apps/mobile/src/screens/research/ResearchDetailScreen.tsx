@@ -7,6 +7,7 @@
  * Features (US-RC-023):
  * - Header card with title, status badge, description, dates
  * - Sub-entity summary cards (Researchers, Volunteers, Applications, Devices)
+ * - FES safety limits card opens the research envelope editor
  * - Tappable cards navigate to sub-entity screens
  * - useFocusEffect re-fetches on return from sub-entity screens
  */
@@ -37,6 +38,7 @@ import {
   ChevronRight,
   CalendarDays,
   AlertCircle,
+  ShieldAlert,
 } from 'lucide-react-native';
 
 type Props = NativeStackScreenProps<HomeStackParamList, 'ResearchDetail'>;
@@ -140,6 +142,12 @@ export const ResearchDetailScreen: FC<Props> = ({ route, navigation }) => {
       icon: <Cpu size={20} color={theme.colors.primary} />,
       onPress: () => navigation.navigate('ResearchDevices', { researchId }),
     },
+    {
+      key: 'fes-limits',
+      label: 'FES Safety Limits',
+      icon: <ShieldAlert size={20} color={theme.colors.primary} />,
+      onPress: () => navigation.navigate('FesEnvelope', { researchId }),
+    },
   ];
 
   return (
@@ -201,9 +209,11 @@ export const ResearchDetailScreen: FC<Props> = ({ route, navigation }) => {
               <Text style={styles.sectionCardLabel}>{section.label}</Text>
             </View>
             <View style={styles.sectionCardRight}>
-              <View style={styles.countBadge}>
-                <Text style={styles.countBadgeText}>{section.count}</Text>
-              </View>
+              {section.count !== undefined && (
+                <View style={styles.countBadge}>
+                  <Text style={styles.countBadgeText}>{section.count}</Text>
+                </View>
+              )}
               <ChevronRight size={16} color={theme.colors.textMuted} />
             </View>
           </Pressable>
@@ -8,6 +8,7 @@
  * - Status badge colors per enrollment status
  * - "Enroll Volunteer" button navigates to EnrollVolunteerForm modal
  * - Long-press to withdraw with confirmation
+ * - "FES safety limits" link opens the volunteer envelope editor
  * - Tap card to update enrollment status via action sheet
  */
 
@@ -30,7 +31,7 @@ import { ResearchVolunteer, EnrollmentStatus } from '@iris/domain';
 import { researchService } from '@/services/ResearchService';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { theme } from '@/theme';
-import { Heart, UserPlus, AlertCircle } from 'lucide-react-native';
+import { Heart, UserPlus, AlertCircle, ShieldAlert } from 'lucide-react-native';
 
 type Props = NativeStackScreenProps<HomeStackParamList, 'ResearchVolunteers'>;
 
@@ -164,6 +165,19 @@ export const ResearchVolunteersScreen: FC<Props> = ({ route, navigation }) => {
         {item.consentDate && (
           <Text style={styles.cardDetail}>Consent: {item.consentDate} (v{item.consentVersion})</Text>
         )}
+        <Pressable
+          style={styles.limitsLink}
+          onPress={() =>
+            navigation.navigate('FesEnvelope', {
+              researchId,
+              volunteerId: item.volunteerId,
+              volunteerName: volunteer?.name,
+            })
+          }
+        >
+          <ShieldAlert size={14} color={theme.colors.primary} />
+          <Text style={styles.limitsLinkText}>FES safety limits</Text>
+        </Pressable>
         <Text style={styles.cardHint}>Tap to change status | Long-press to withdraw</Text>
       </Pressable>
     );
@@ -285,6 +299,18 @@ const styles = StyleSheet.create({
     color: theme.colors.textBody,
     marginTop: theme.spacing.xs,
   },
+  limitsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  limitsLinkText: {
+    ...theme.typography.bodySmall,
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
   cardHint: {
     ...theme.typography.bodySmall,
     color: theme.colors.textMuted,
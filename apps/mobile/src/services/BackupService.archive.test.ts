@@ -0,0 +1,121 @@
+/**
+ * BackupService Archive Tests
+ *
+ * An archive opens with its password and gives back the database copy and
+ * recording files; a wrong password, a damaged or incomplete archive, a
+ * newer format and unsafe recording names are rejected before anything is
+ * restored.
+ *
+ * Run with: npx vitest run src/services
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { BACKUP_FORMAT_VERSION } from '@iris/domain';
+import type { BackupManifest } from '@iris/domain';
+import { decryptWithPassword, encryptWithPassword } from '../crypto/dataEncryption';
+import {
+    BACKUP_MANIFEST_ENTRY,
+    BackupContents,
+    buildBackupArchive,
+    openBackupArchive,
+} from './BackupService.archive';
+
+const PASSWORD = 'correct horse';
+// Few iterations keep the tests fast; the count is read back from the archive
+const ITERATIONS = 1000;
+
+function bytes(text: string): Uint8Array {
+    return new Uint8Array(Buffer.from(text, 'utf8'));
+}
+
+const CONTENTS: BackupContents = {
+    createdAt: '2026-05-04T10:00:00.000Z',
+    schemaVersion: 15,
+    counts: { sessions: 2, recordings: 2, annotations: 1, favorites: 1 },
+    database: bytes('SQLite format 3\0...'),
+    recordings: [
+        { recordingId: 'rec-1', name: 'recording_1.csv', files: [{ path: '', bytes: bytes('timestamp,value\n0,12\n') }] },
+        {
+            recordingId: 'rec-2',
+            name: 'recording_2.irisrec',
+            files: [
+                { path: 'header.json', bytes: bytes('{"format":"iris-semg-chunked"}') },
+                { path: 'chunk_000000.bin', bytes: new Uint8Array([0x49, 0x52, 0x43, 0x4b, 1, 2, 3]) },
+            ],
+        },
+    ],
+};
+
+/**
+ * Decrypt an archive, change its ZIP and encrypt it again under the same
+ * password, as someone holding the password could.
+ */
+async function rewrite(archive: Uint8Array, change: (zip: JSZip, manifest: BackupManifest) => void): Promise<Uint8Array> {
+    const zip = await JSZip.loadAsync(decryptWithPassword(archive, PASSWORD));
+    const manifest = JSON.parse(await zip.file(BACKUP_MANIFEST_ENTRY)!.async('string')) as BackupManifest;
+    change(zip, manifest);
+    zip.file(BACKUP_MANIFEST_ENTRY, JSON.stringify(manifest));
+    return encryptWithPassword(await zip.generateAsync({ type: 'uint8array' }), PASSWORD, ITERATIONS);
+}
+
+describe('backup archive', () => {
+    it('should round-trip the database and recording files', async () => {
+        const backup = await openBackupArchive(await buildBackupArchive(CONTENTS, PASSWORD, ITERATIONS), PASSWORD);
+
+        expect(backup.manifest).toMatchObject({
+            format: 'iris-mobile-backup',
+            version: BACKUP_FORMAT_VERSION,
+            createdAt: CONTENTS.createdAt,
+            schemaVersion: 15,
+            counts: CONTENTS.counts,
+        });
+        expect(backup.manifest.recordings).toEqual([
+            { recordingId: 'rec-1', name: 'recording_1.csv', files: [''] },
+            { recordingId: 'rec-2', name: 'recording_2.irisrec', files: ['header.json', 'chunk_000000.bin'] },
+        ]);
+        expect(await backup.readDatabase()).toEqual(CONTENTS.database);
+        expect(await backup.readRecordingFile(backup.manifest.recordings[1], 'chunk_000000.bin')).toEqual(
+            CONTENTS.recordings[1].files[1].bytes
+        );
+    });
+
+    it('should reject a wrong password', async () => {
+        const archive = await buildBackupArchive(CONTENTS, PASSWORD, ITERATIONS);
+        await expect(openBackupArchive(archive, 'battery staple')).rejects.toThrow('Wrong password or damaged backup');
+    });
+
+    it('should reject files that are not backups', async () => {
+        await expect(openBackupArchive(bytes('timestamp,value\n'), PASSWORD)).rejects.toThrow('Not an IRIS backup');
+    });
+
+    it('should reject a file whose checksum does not match', async () => {
+        const archive = await rewrite(await buildBackupArchive(CONTENTS, PASSWORD, ITERATIONS), zip => {
+            zip.file('recordings/rec-1/recording_1.csv', 'timestamp,value\n0,99\n');
+        });
+        await expect(openBackupArchive(archive, PASSWORD)).rejects.toThrow(
+            'Backup file recordings/rec-1/recording_1.csv is damaged'
+        );
+    });
+
+    it('should reject a missing file', async () => {
+        const archive = await rewrite(await buildBackupArchive(CONTENTS, PASSWORD, ITERATIONS), zip => {
+            zip.remove('database.sqlite');
+        });
+        await expect(openBackupArchive(archive, PASSWORD)).rejects.toThrow('Backup is missing database.sqlite');
+    });
+
+    it('should reject a newer format', async () => {
+        const archive = await rewrite(await buildBackupArchive(CONTENTS, PASSWORD, ITERATIONS), (_zip, manifest) => {
+            manifest.version = BACKUP_FORMAT_VERSION + 1;
+        });
+        await expect(openBackupArchive(archive, PASSWORD)).rejects.toThrow('needs a newer version of the app');
+    });
+
+    it('should reject recording names that would escape the documents directory', async () => {
+        const archive = await rewrite(await buildBackupArchive(CONTENTS, PASSWORD, ITERATIONS), (_zip, manifest) => {
+            manifest.recordings[0].name = '../iris_clinical.db';
+        });
+        await expect(openBackupArchive(archive, PASSWORD)).rejects.toThrow('invalid path for recording rec-1');
+    });
+});
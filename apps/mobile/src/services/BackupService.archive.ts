@@ -0,0 +1,175 @@
+/**
+ * BackupService Archive
+ *
+ * Packing and unpacking of backup archives: a ZIP holding manifest.json,
+ * the database copy and the recording files, encrypted as a whole under the
+ * backup password. Opening an archive checks the password, the format and
+ * the checksum of every file before anything is restored from it.
+ *
+ * Archive layout:
+ *   manifest.json                              BackupManifest
+ *   database.sqlite                            unencrypted database copy
+ *   recordings/<recordingId>/<name>            a CSV recording
+ *   recordings/<recordingId>/<name>/<file>     a file of a chunked recording
+ */
+
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from '@iris/domain';
+import type { BackupCounts, BackupFileEntry, BackupManifest, BackupRecordingEntry } from '@iris/domain';
+import { PASSWORD_KDF_ITERATIONS, decryptWithPassword, encryptWithPassword } from '../crypto/dataEncryption';
+
+export const BACKUP_MANIFEST_ENTRY = 'manifest.json';
+export const BACKUP_DATABASE_ENTRY = 'database.sqlite';
+
+/**
+ * A recording's files, read (and decrypted) from the device.
+ */
+export interface BackupRecordingFiles {
+    recordingId: string;
+    name: string;
+    /** Path inside the recording directory ('' for a single file) and contents. */
+    files: Array<{ path: string; bytes: Uint8Array }>;
+}
+
+/**
+ * Everything that goes into an archive.
+ */
+export interface BackupContents {
+    createdAt: string;
+    schemaVersion: number;
+    counts: BackupCounts;
+    database: Uint8Array;
+    recordings: BackupRecordingFiles[];
+}
+
+/**
+ * An archive whose password, format and checksums have been verified.
+ */
+export interface OpenedBackup {
+    manifest: BackupManifest;
+    readDatabase(): Promise<Uint8Array>;
+    readRecordingFile(recording: BackupRecordingEntry, path: string): Promise<Uint8Array>;
+}
+
+function sha256(bytes: Uint8Array): string {
+    return createHash('sha256').update(bytes).digest('hex');
+}
+
+// Restored files are written under these names, so no separators or '..'
+function isPlainName(name: string): boolean {
+    return /^[^/\\]+$/.test(name) && name !== '.' && name !== '..';
+}
+
+function recordingEntryPath(recordingId: string, name: string, path: string): string {
+    const base = `recordings/${recordingId}/${name}`;
+    return path === '' ? base : `${base}/${path}`;
+}
+
+/**
+ * Pack and encrypt an archive.
+ */
+export async function buildBackupArchive(
+    contents: BackupContents,
+    password: string,
+    kdfIterations: number = PASSWORD_KDF_ITERATIONS
+): Promise<Uint8Array> {
+    const zip = new JSZip();
+    const files: BackupFileEntry[] = [];
+    const add = (path: string, bytes: Uint8Array) => {
+        zip.file(path, bytes);
+        files.push({ path, sha256: sha256(bytes), sizeBytes: bytes.length });
+    };
+
+    add(BACKUP_DATABASE_ENTRY, contents.database);
+    const recordings: BackupRecordingEntry[] = contents.recordings.map(recording => {
+        for (const file of recording.files) {
+            add(recordingEntryPath(recording.recordingId, recording.name, file.path), file.bytes);
+        }
+        return {
+            recordingId: recording.recordingId,
+            name: recording.name,
+            files: recording.files.map(file => file.path),
+        };
+    });
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_FORMAT_VERSION,
+        createdAt: contents.createdAt,
+        schemaVersion: contents.schemaVersion,
+        counts: contents.counts,
+        files,
+        recordings,
+    };
+    zip.file(BACKUP_MANIFEST_ENTRY, JSON.stringify(manifest, null, 2));
+
+    const packed = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    return encryptWithPassword(packed, password, kdfIterations);
+}
+
+/**
+ * Decrypt an archive and validate it.
+ *
+ * @throws Error when the password is wrong, the archive is damaged or from
+ *   a newer app version, or any file is missing or fails its checksum
+ */
+export async function openBackupArchive(data: Uint8Array, password: string): Promise<OpenedBackup> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(decryptWithPassword(data, password));
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Data is not password-encrypted') {
+            throw new Error('Not an IRIS backup');
+        }
+        throw new Error('Wrong password or damaged backup');
+    }
+
+    const manifestFile = zip.file(BACKUP_MANIFEST_ENTRY);
+    if (!manifestFile) {
+        throw new Error('Backup has no manifest');
+    }
+    const manifest = JSON.parse(await manifestFile.async('string')) as BackupManifest;
+    if (manifest.format !== BACKUP_FORMAT) {
+        throw new Error('Not an IRIS backup');
+    }
+    if (manifest.version > BACKUP_FORMAT_VERSION) {
+        throw new Error(`Backup format v${manifest.version} needs a newer version of the app`);
+    }
+
+    for (const recording of manifest.recordings) {
+        if (!isPlainName(recording.name) || recording.files.some(path => path !== '' && !isPlainName(path))) {
+            throw new Error(`Backup manifest has an invalid path for recording ${recording.recordingId}`);
+        }
+    }
+
+    const checksums = new Map(manifest.files.map(file => [file.path, file]));
+    for (const entry of manifest.files) {
+        const file = zip.file(entry.path);
+        if (!file) {
+            throw new Error(`Backup is missing ${entry.path}`);
+        }
+        const bytes = await file.async('uint8array');
+        if (bytes.length !== entry.sizeBytes || sha256(bytes) !== entry.sha256) {
+            throw new Error(`Backup file ${entry.path} is damaged`);
+        }
+    }
+    const referenced = [
+        BACKUP_DATABASE_ENTRY,
+        ...manifest.recordings.flatMap(recording =>
+            recording.files.map(path => recordingEntryPath(recording.recordingId, recording.name, path))
+        ),
+    ];
+    for (const path of referenced) {
+        if (!checksums.has(path)) {
+            throw new Error(`Backup manifest does not list ${path}`);
+        }
+    }
+
+    const read = (path: string) => zip.file(path)!.async('uint8array');
+    return {
+        manifest,
+        readDatabase: () => read(BACKUP_DATABASE_ENTRY),
+        readRecordingFile: (recording, path) => read(recordingEntryPath(recording.recordingId, recording.name, path)),
+    };
+}
@@ -0,0 +1,358 @@
+/**
+ * Backup Service
+ *
+ * Backup and restore of everything the app keeps on the device, so a
+ * broken tablet does not take its unsynced sessions with it.
+ *
+ * - createBackup() packs an unencrypted copy of the database and every
+ *   recording file still on the device (decrypted from the device key) into
+ *   one archive encrypted under a password (BackupService.archive.ts). The
+ *   archive can then be shared off the device with share().
+ * - restore() validates an archive, brings its database up to this build's
+ *   schema and merges it: rows whose id already exists are kept as they
+ *   are, recording files are written only for recordings that are new here
+ *   and are encrypted with this device's key.
+ *
+ * The archive is built in memory, so a backup whose recording files exceed
+ * BACKUP_MAX_RECORDING_BYTES is refused before anything is read.
+ *
+ * Plaintext copies only exist in the app sandbox while a backup or restore
+ * runs.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { BACKUP_EXTENSION, BACKUP_MAX_RECORDING_BYTES, BACKUP_PASSWORD_MIN_LENGTH } from '@iris/domain';
+import type { BackupCounts, BackupRecordingEntry, BackupResult, RestoreReport } from '@iris/domain';
+import { databaseManager } from '../data/database';
+import { MIGRATIONS } from '../data/migrations';
+import { RecordingRepository } from '../data/repositories/RecordingRepository';
+import { auditLogRepository } from '../data/repositories/AuditLogRepository';
+import { ExpoRecordingFileSystem, expoRecordingFileSystem } from '../recording/ExpoRecordingFileSystem';
+import { joinPath } from '../recording/RecordingFileSystem';
+import { isChunkedRecording } from '../recording/recordingFormat';
+import { BackupRecordingFiles, OpenedBackup, buildBackupArchive, openBackupArchive } from './BackupService.archive';
+
+const BACKUP_COPY_NAME = 'iris_backup_copy.db';
+const RESTORE_COPY_NAME = 'iris_restore_copy.db';
+
+// Restored in this order so that parents exist before their children.
+// Sync bookkeeping, conflicts and the audit log belong to the device that
+// wrote them and are not restored.
+const RESTORED_TABLES = [
+    'clinical_sessions',
+    'clinical_data',
+    'recordings',
+    'annotations',
+    'session_favorites',
+    'fes_safety_envelopes',
+    'stimulation_log',
+];
+
+// Archives and database copies are read and written as they are
+const plainFileSystem = new ExpoRecordingFileSystem();
+
+interface RecordingFileSet {
+    recordingId: string;
+    path: string;
+    /** As in BackupRecordingFiles: '' for a single file. */
+    files: string[];
+}
+
+function baseName(path: string): string {
+    const trimmed = path.replace(/\/$/, '');
+    return trimmed.slice(trimmed.lastIndexOf('/') + 1);
+}
+
+class BackupService {
+    private recordingRepo = new RecordingRepository();
+    private isRunning = false;
+
+    /**
+     * Write a password-encrypted backup to the documents directory.
+     *
+     * @throws Error when the password is shorter than
+     *   BACKUP_PASSWORD_MIN_LENGTH, the recordings are too large for one
+     *   backup, or a backup or restore is already in progress
+     */
+    async createBackup(password: string): Promise<BackupResult> {
+        if (password.length < BACKUP_PASSWORD_MIN_LENGTH) {
+            throw new Error(`Backup password must have at least ${BACKUP_PASSWORD_MIN_LENGTH} characters`);
+        }
+        return this.exclusive(async () => {
+            const directory = FileSystem.documentDirectory;
+            if (!directory) {
+                throw new Error('Document directory is not available');
+            }
+            const recordingFiles = await this.findRecordingFiles();
+
+            const createdAt = new Date().toISOString();
+            console.log('[BackupService] Creating backup');
+            const copyUri = await databaseManager.exportCopy(BACKUP_COPY_NAME);
+            try {
+                const counts = await this.countRows();
+                const archive = await buildBackupArchive(
+                    {
+                        createdAt,
+                        schemaVersion: databaseManager.getSchemaVerification()?.version ?? MIGRATIONS[MIGRATIONS.length - 1].version,
+                        counts,
+                        database: await plainFileSystem.readBytes(copyUri),
+                        recordings: await this.readRecordings(recordingFiles),
+                    },
+                    password
+                );
+
+                const timestamp = createdAt.replace(/[:.]/g, '-').slice(0, -5);
+                const uri = joinPath(directory, `iris_backup_${timestamp}${BACKUP_EXTENSION}`);
+                await plainFileSystem.writeBytes(uri, archive);
+
+                await auditLogRepository.record({
+                    action: 'data_exported',
+                    entityType: 'export',
+                    details: { kind: 'backup', sessions: counts.sessions, recordings: counts.recordings },
+                });
+                console.log(`[BackupService] Backup written: ${uri} (${archive.length} bytes)`);
+                return { uri, createdAt, sizeBytes: archive.length, counts };
+            } finally {
+                await databaseManager.deleteCopy(BACKUP_COPY_NAME);
+            }
+        });
+    }
+
+    /**
+     * Share a backup via the native share sheet.
+     */
+    async share(uri: string): Promise<void> {
+        const isAvailable = await Sharing.isAvailableAsync();
+        if (!isAvailable) {
+            throw new Error('Sharing is not available on this device');
+        }
+
+        await Sharing.shareAsync(uri, {
+            mimeType: 'application/octet-stream',
+            dialogTitle: 'Share IRIS Backup',
+        });
+    }
+
+    /**
+     * Backup archives in the documents directory, newest first. Archives
+     * from elsewhere are opened with pickBackup().
+     */
+    async listBackups(): Promise<string[]> {
+        const directory = FileSystem.documentDirectory;
+        if (!directory) {
+            return [];
+        }
+        const names = await plainFileSystem.list(directory);
+        return names
+            .filter(name => name.endsWith(BACKUP_EXTENSION))
+            .sort()
+            .reverse()
+            .map(name => joinPath(directory, name));
+    }
+
+    /**
+     * Let the user pick a backup from anywhere the system file picker
+     * reaches (downloads, cloud drives, a USB stick).
+     *
+     * @returns URI of a readable copy, or null when the picker was cancelled
+     */
+    async pickBackup(): Promise<string | null> {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: '*/*', // .irisbackup has no registered MIME type
+            copyToCacheDirectory: true,
+            multiple: false,
+        });
+        if (result.canceled || result.assets.length === 0) {
+            return null;
+        }
+        return result.assets[0].uri;
+    }
+
+    /**
+     * Merge a backup into the local data.
+     *
+     * @throws Error when the password is wrong, the archive is invalid or
+     *   from a newer app version, or a backup or restore is already in
+     *   progress. Nothing is merged then.
+     */
+    async restore(uri: string, password: string): Promise<RestoreReport> {
+        return this.exclusive(async () => {
+            const backup = await openBackupArchive(await plainFileSystem.readBytes(uri), password);
+            const { manifest } = backup;
+            if (manifest.schemaVersion > MIGRATIONS[MIGRATIONS.length - 1].version) {
+                throw new Error('Backup was made by a newer version of the app');
+            }
+
+            console.log(`[BackupService] Restoring backup from ${manifest.createdAt}`);
+            const writtenPaths: string[] = [];
+            try {
+                await plainFileSystem.writeBytes(databaseManager.copyUri(RESTORE_COPY_NAME), await backup.readDatabase());
+                const copy = await databaseManager.openCopy(RESTORE_COPY_NAME);
+
+                let recordingFilesRestored = 0;
+                const recordingsWithoutFiles: string[] = [];
+                try {
+                    const local = await databaseManager.getDatabase().getAllAsync<{ id: string }>('SELECT id FROM recordings');
+                    const localIds = new Set(local.map(row => row.id));
+                    const archived = new Map(manifest.recordings.map(entry => [entry.recordingId, entry]));
+                    const rows = await copy.getAllAsync<{ id: string }>(
+                        'SELECT id FROM recordings WHERE file_path IS NOT NULL'
+                    );
+
+                    // Point new recordings at their restored files before merging
+                    for (const row of rows) {
+                        if (localIds.has(row.id)) continue;
+                        const entry = archived.get(row.id);
+                        if (!entry) {
+                            recordingsWithoutFiles.push(row.id);
+                            await copy.runAsync('UPDATE recordings SET file_path = NULL WHERE id = ?', row.id);
+                            continue;
+                        }
+                        const path = await this.restoreRecording(backup, entry);
+                        writtenPaths.push(path);
+                        recordingFilesRestored += entry.files.length;
+                        await copy.runAsync('UPDATE recordings SET file_path = ? WHERE id = ?', path, row.id);
+                    }
+                } finally {
+                    await copy.closeAsync();
+                }
+
+                const merged = await databaseManager.mergeCopy(RESTORE_COPY_NAME, RESTORED_TABLES);
+                const report: RestoreReport = {
+                    backupCreatedAt: manifest.createdAt,
+                    restoredAt: new Date().toISOString(),
+                    inserted: Object.fromEntries(Object.entries(merged).map(([table, counts]) => [table, counts.inserted])),
+                    skipped: Object.fromEntries(Object.entries(merged).map(([table, counts]) => [table, counts.skipped])),
+                    recordingFilesRestored,
+                    recordingsWithoutFiles,
+                };
+
+                await auditLogRepository.record({
+                    action: 'data_restored',
+                    details: {
+                        backupCreatedAt: manifest.createdAt,
+                        sessions: report.inserted.clinical_sessions ?? 0,
+                        recordings: report.inserted.recordings ?? 0,
+                    },
+                });
+                console.log(
+                    `[BackupService] Restored ${report.inserted.clinical_sessions ?? 0} session(s), ` +
+                    `${report.inserted.recordings ?? 0} recording(s)`
+                );
+                return report;
+            } catch (error) {
+                // Nothing was merged: drop the files written for it
+                for (const path of writtenPaths) {
+                    await expoRecordingFileSystem.remove(path).catch(() => undefined);
+                }
+                throw error;
+            } finally {
+                await databaseManager.deleteCopy(RESTORE_COPY_NAME);
+            }
+        });
+    }
+
+    private async exclusive<T>(task: () => Promise<T>): Promise<T> {
+        if (this.isRunning) {
+            throw new Error('Backup or restore already in progress');
+        }
+        this.isRunning = true;
+        try {
+            return await task();
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    private async countRows(): Promise<BackupCounts> {
+        const counts = await databaseManager.getDatabase().getFirstAsync<BackupCounts>(
+            `SELECT (SELECT COUNT(*) FROM clinical_sessions) AS sessions,
+                    (SELECT COUNT(*) FROM recordings) AS recordings,
+                    (SELECT COUNT(*) FROM annotations) AS annotations,
+                    (SELECT COUNT(*) FROM session_favorites) AS favorites`
+        );
+        return counts ?? { sessions: 0, recordings: 0, annotations: 0, favorites: 0 };
+    }
+
+    /**
+     * The local files of every recording, checked against
+     * BACKUP_MAX_RECORDING_BYTES without reading them. Recordings whose file
+     * is gone, e.g. purged after upload, are left out.
+     *
+     * @throws Error when the files are too large for one backup
+     */
+    private async findRecordingFiles(): Promise<RecordingFileSet[]> {
+        const result: RecordingFileSet[] = [];
+        let totalBytes = 0;
+        const addSize = async (path: string) => {
+            const info = await FileSystem.getInfoAsync(path);
+            totalBytes += info.exists ? info.size : 0;
+        };
+
+        for (const recording of await this.recordingRepo.getAll()) {
+            const path = recording.filePath;
+            if (!path || !(await expoRecordingFileSystem.exists(path))) continue;
+
+            const files = isChunkedRecording(path) ? await expoRecordingFileSystem.list(path) : [''];
+            for (const file of files) {
+                await addSize(file === '' ? path : joinPath(path, file));
+            }
+            result.push({ recordingId: recording.id, path, files });
+        }
+
+        if (totalBytes > BACKUP_MAX_RECORDING_BYTES) {
+            const megabytes = (bytes: number) => Math.ceil(bytes / (1024 * 1024));
+            throw new Error(
+                `Recordings on this device take ${megabytes(totalBytes)} MB; a backup holds at most ` +
+                `${megabytes(BACKUP_MAX_RECORDING_BYTES)} MB. Sync and purge uploaded recordings first.`
+            );
+        }
+        return result;
+    }
+
+    /**
+     * Read (and decrypt) the files found by findRecordingFiles().
+     */
+    private async readRecordings(recordings: RecordingFileSet[]): Promise<BackupRecordingFiles[]> {
+        const result: BackupRecordingFiles[] = [];
+        for (const { recordingId, path, files } of recordings) {
+            const read: BackupRecordingFiles['files'] = [];
+            for (const file of files) {
+                read.push({ path: file, bytes: await expoRecordingFileSystem.readBytes(file === '' ? path : joinPath(path, file)) });
+            }
+            result.push({ recordingId, name: baseName(path), files: read });
+        }
+        return result;
+    }
+
+    /**
+     * Write a recording's files under its original name, or with the
+     * recording id appended when that name is taken.
+     *
+     * @returns Path of the restored recording
+     */
+    private async restoreRecording(backup: OpenedBackup, entry: BackupRecordingEntry): Promise<string> {
+        const directory = FileSystem.documentDirectory!;
+        let path = joinPath(directory, entry.name);
+        if (await expoRecordingFileSystem.exists(path)) {
+            const dot = entry.name.lastIndexOf('.');
+            const stem = dot > 0 ? entry.name.slice(0, dot) : entry.name;
+            const extension = dot > 0 ? entry.name.slice(dot) : '';
+            path = joinPath(directory, `${stem}_${entry.recordingId.slice(0, 8)}${extension}`);
+        }
+
+        if (entry.files.length === 1 && entry.files[0] === '') {
+            await expoRecordingFileSystem.writeBytes(path, await backup.readRecordingFile(entry, ''));
+            return path;
+        }
+        await expoRecordingFileSystem.makeDirectory(path);
+        for (const file of entry.files) {
+            await expoRecordingFileSystem.writeBytes(joinPath(path, file), await backup.readRecordingFile(entry, file));
+        }
+        return path;
+    }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,92 @@
+/**
+ * Data Protection Service
+ *
+ * Encryption at rest for what the app keeps on the device: the SQLite
+ * database (SQLCipher, see DatabaseManager) and the recording files in
+ * documentDirectory (EncryptedRecordingFileSystem). Both use the current
+ * data key from DataKeyStore.
+ *
+ * - protectRecordings() encrypts recordings left unencrypted by an earlier
+ *   install and finishes an interrupted rotation; it runs after every launch
+ *   but only touches files when there is something to do
+ * - rotateKey() moves the database and every recording to a new key and
+ *   then forgets the old one
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { databaseManager } from '../data/database';
+import { dataKeyStore } from '../crypto/DataKeyStore';
+import { generateDataKey } from '../crypto/dataEncryption';
+import { expoRecordingFileSystem } from '../recording/ExpoRecordingFileSystem';
+import { joinPath } from '../recording/RecordingFileSystem';
+import { isChunkedRecording } from '../recording/recordingFormat';
+
+/**
+ * Outcome of bringing the recordings under the current key.
+ */
+export interface RecordingProtectionResult {
+    keyId: string;
+    filesRewritten: number;
+    failedRecordings: string[];
+}
+
+// Recordings are chunked directories, or CSVs saved by simulation capture.
+// Exports (semg_*, session_*) are meant to be shared and stay as they are.
+function isRecordingEntry(name: string): boolean {
+    return isChunkedRecording(name) || /^recording_.*\.csv$/.test(name);
+}
+
+class DataProtectionService {
+    /**
+     * Bring every recording under the current key, then retire older keys.
+     * Recordings that fail (e.g. being written right now) keep the older
+     * keys alive until a later run succeeds.
+     */
+    async protectRecordings(): Promise<RecordingProtectionResult> {
+        const ring = dataKeyStore.getRing();
+        const result: RecordingProtectionResult = { keyId: ring.currentKeyId, filesRewritten: 0, failedRecordings: [] };
+        if (ring.filesKeyId === ring.currentKeyId && ring.keyIds.length === 1) {
+            return result;
+        }
+
+        const directory = FileSystem.documentDirectory;
+        if (!directory) {
+            return result;
+        }
+
+        for (const name of await expoRecordingFileSystem.list(directory)) {
+            if (!isRecordingEntry(name)) continue;
+            try {
+                result.filesRewritten += await expoRecordingFileSystem.protectRecording(joinPath(directory, name));
+            } catch (error) {
+                console.error(`[DataProtectionService] Failed to encrypt recording ${name}:`, error);
+                result.failedRecordings.push(name);
+            }
+        }
+
+        if (result.failedRecordings.length === 0) {
+            await dataKeyStore.setFilesKeyId(ring.currentKeyId);
+            await dataKeyStore.retireOldKeys();
+        }
+        console.log(`[DataProtectionService] Recordings protected: ${result.filesRewritten} file(s) rewritten`);
+        return result;
+    }
+
+    /**
+     * Rotate the data key: store a new key, re-encrypt the database with it,
+     * make it current, then re-encrypt the recordings. The old key is kept
+     * until nothing depends on it, so an interrupted rotation is finished
+     * (or, before the switch, undone) on the next launch.
+     */
+    async rotateKey(): Promise<RecordingProtectionResult> {
+        const newKey = generateDataKey();
+        console.log(`[DataProtectionService] Rotating data key to ${newKey.id}`);
+
+        await dataKeyStore.addKey(newKey);
+        await databaseManager.rekey(newKey);
+        await dataKeyStore.setCurrent(newKey.id);
+        return this.protectRecordings();
+    }
+}
+
+export const dataProtectionService = new DataProtectionService();
@@ -0,0 +1,78 @@
+/**
+ * Device Sync Conditions
+ *
+ * SyncConditionsMonitor backed by NetInfo (connectivity, metered network)
+ * and expo-battery (charging state).
+ */
+
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import * as Battery from 'expo-battery';
+import type { SyncConditions, SyncConditionsMonitor } from './SyncService.types';
+
+function isOnline(state: NetInfoState): boolean {
+    // isInternetReachable is null until NetInfo has checked; trust isConnected meanwhile
+    return state.isConnected === true && state.isInternetReachable !== false;
+}
+
+function isUnmetered(state: NetInfoState): boolean {
+    return isOnline(state) && state.details !== null && !state.details.isConnectionExpensive;
+}
+
+function isChargingState(batteryState: Battery.BatteryState): boolean {
+    return batteryState === Battery.BatteryState.CHARGING || batteryState === Battery.BatteryState.FULL;
+}
+
+async function readCharging(): Promise<boolean> {
+    try {
+        return isChargingState(await Battery.getBatteryStateAsync());
+    } catch (error) {
+        // Not available on every device (e.g. simulators)
+        console.warn('[DeviceSyncConditions] Battery state unavailable:', error);
+        return false;
+    }
+}
+
+function toConditions(state: NetInfoState, isCharging: boolean): SyncConditions {
+    return {
+        isOnline: isOnline(state),
+        isUnmetered: isUnmetered(state),
+        isCharging,
+    };
+}
+
+export class DeviceSyncConditions implements SyncConditionsMonitor {
+    async current(): Promise<SyncConditions> {
+        const [netState, isCharging] = await Promise.all([NetInfo.fetch(), readCharging()]);
+        return toConditions(netState, isCharging);
+    }
+
+    subscribe(listener: (conditions: SyncConditions) => void): () => void {
+        let netState: NetInfoState | null = null;
+        let isCharging = false;
+
+        const emit = () => {
+            if (netState) {
+                listener(toConditions(netState, isCharging));
+            }
+        };
+
+        void readCharging().then(charging => {
+            isCharging = charging;
+            emit();
+        });
+
+        const unsubscribeNet = NetInfo.addEventListener(state => {
+            netState = state;
+            emit();
+        });
+        const batterySubscription = Battery.addBatteryStateListener(({ batteryState }) => {
+            isCharging = isChargingState(batteryState);
+            emit();
+        });
+
+        return () => {
+            unsubscribeNet();
+            batterySubscription.remove();
+        };
+    }
+}
@@ -6,11 +6,21 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  FesSafetyPolicy,
+  DEFAULT_FES_SAFETY_POLICY,
+  RetentionPolicy,
+  DEFAULT_RETENTION_POLICY,
+} from '@iris/domain';
+import type { RecordingUploadPolicy } from './SyncService.types';
 
 class PreferencesService {
   private static KEYS = {
     APPEARANCE: 'pref_appearance',
     EXPORT_FORMAT: 'pref_export_format',
+    FES_SAFETY_POLICY: 'pref_fes_safety_policy',
+    RECORDING_UPLOAD_POLICY: 'pref_recording_upload_policy',
+    RETENTION_POLICY: 'pref_retention_policy',
   } as const;
 
   /**
@@ -69,6 +79,54 @@ class PreferencesService {
     return this.set(PreferencesService.KEYS.EXPORT_FORMAT, value);
   }
 
+  /**
+   * Get FES safety policy (confirmation deltas, Status watchdog)
+   */
+  async getFesSafetyPolicy(): Promise<FesSafetyPolicy> {
+    const stored = await this.get<Partial<FesSafetyPolicy>>(PreferencesService.KEYS.FES_SAFETY_POLICY, {});
+    return {
+      ...DEFAULT_FES_SAFETY_POLICY,
+      ...stored,
+      confirmationDelta: { ...DEFAULT_FES_SAFETY_POLICY.confirmationDelta, ...stored.confirmationDelta },
+    };
+  }
+
+  /**
+   * Set FES safety policy
+   */
+  async setFesSafetyPolicy(value: FesSafetyPolicy): Promise<void> {
+    return this.set(PreferencesService.KEYS.FES_SAFETY_POLICY, value);
+  }
+
+  /**
+   * Get recording upload policy (when recording files may upload)
+   */
+  async getRecordingUploadPolicy(): Promise<RecordingUploadPolicy> {
+    return this.get(PreferencesService.KEYS.RECORDING_UPLOAD_POLICY, 'any');
+  }
+
+  /**
+   * Set recording upload policy
+   */
+  async setRecordingUploadPolicy(value: RecordingUploadPolicy): Promise<void> {
+    return this.set(PreferencesService.KEYS.RECORDING_UPLOAD_POLICY, value);
+  }
+
+  /**
+   * Get data retention policy, filling in fields added since it was saved
+   */
+  async getRetentionPolicy(): Promise<RetentionPolicy> {
+    const stored = await this.get<Partial<RetentionPolicy>>(PreferencesService.KEYS.RETENTION_POLICY, {});
+    return { ...DEFAULT_RETENTION_POLICY, ...stored };
+  }
+
+  /**
+   * Set data retention policy
+   */
+  async setRetentionPolicy(value: RetentionPolicy): Promise<void> {
+    return this.set(PreferencesService.KEYS.RETENTION_POLICY, value);
+  }
+
   /**
    * Clear all preferences
    */
@@ -0,0 +1,219 @@
+/**
+ * Sync Scheduler Tests
+ *
+ * Unit tests for the scheduling decisions: pausing while offline, syncing
+ * on reconnect, and deferring recording uploads by policy.
+ *
+ * Run with: npm test src/services/SyncScheduler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyncScheduler, decideSync } from './SyncScheduler';
+import type { SyncService } from './SyncService';
+import type {
+    RecordingUploadPolicy,
+    SyncConditions,
+    SyncConditionsMonitor,
+    SyncCycleOptions,
+    SyncReport,
+} from './SyncService.types';
+
+const WIFI: SyncConditions = { isOnline: true, isUnmetered: true, isCharging: false };
+const CELLULAR: SyncConditions = { isOnline: true, isUnmetered: false, isCharging: false };
+const OFFLINE: SyncConditions = { isOnline: false, isUnmetered: false, isCharging: false };
+
+function createFakeMonitor(initial: SyncConditions): SyncConditionsMonitor & {
+    set(next: SyncConditions): void;
+    listenerCount(): number;
+} {
+    let conditions = initial;
+    const listeners = new Set<(conditions: SyncConditions) => void>();
+    return {
+        current: vi.fn(async () => conditions),
+        subscribe: vi.fn((listener: (conditions: SyncConditions) => void) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        }),
+        /** Change conditions and notify subscribers. */
+        set(next: SyncConditions) {
+            conditions = next;
+            listeners.forEach(listener => listener(next));
+        },
+        listenerCount: () => listeners.size,
+    };
+}
+
+function reportFor(options: SyncCycleOptions, pendingRecordings: number): SyncReport {
+    const deferred = options.deferRecordings ? pendingRecordings : 0;
+    return {
+        sessions: { synced: 0, failed: 0, pending: 0 },
+        recordings: {
+            synced: pendingRecordings - deferred,
+            failed: 0,
+            pending: deferred,
+            deferred: deferred > 0 ? deferred : undefined,
+        },
+        annotations: { synced: 0, failed: 0, pending: 0 },
+        auditLog: { synced: 0, failed: 0, pending: 0 },
+        timestamp: new Date().toISOString(),
+    };
+}
+
+// Let the async work started by a subscriber callback settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('decideSync', () => {
+    it('should pause everything while offline', () => {
+        expect(decideSync(OFFLINE, 'any')).toEqual({
+            sync: false,
+            uploadRecordings: false,
+            reason: expect.stringContaining('Offline'),
+        });
+    });
+
+    it('should upload recordings on any network by default policy', () => {
+        expect(decideSync(CELLULAR, 'any')).toEqual({ sync: true, uploadRecordings: true, reason: null });
+    });
+
+    it('should defer recordings on a metered network under the unmetered policy', () => {
+        const decision = decideSync(CELLULAR, 'unmetered');
+        expect(decision.sync).toBe(true);
+        expect(decision.uploadRecordings).toBe(false);
+        expect(decision.reason).toBe('Recording uploads wait for Wi-Fi');
+        expect(decideSync(WIFI, 'unmetered').uploadRecordings).toBe(true);
+    });
+
+    it('should accept charging as an alternative to Wi-Fi', () => {
+        const charging = { ...CELLULAR, isCharging: true };
+        expect(decideSync(charging, 'unmetered_or_charging').uploadRecordings).toBe(true);
+        expect(decideSync(CELLULAR, 'unmetered_or_charging').uploadRecordings).toBe(false);
+        expect(decideSync(WIFI, 'charging').uploadRecordings).toBe(false);
+        expect(decideSync(charging, 'charging').uploadRecordings).toBe(true);
+    });
+});
+
+describe('SyncScheduler', () => {
+    let monitor: ReturnType<typeof createFakeMonitor>;
+    let policy: RecordingUploadPolicy;
+    let pendingRecordings: number;
+    let syncAll: ReturnType<typeof vi.fn>;
+    let scheduler: SyncScheduler;
+
+    function createScheduler(initial: SyncConditions) {
+        monitor = createFakeMonitor(initial);
+        scheduler = new SyncScheduler(
+            { syncAll } as unknown as Pick<SyncService, 'syncAll'>,
+            monitor,
+            async () => policy
+        );
+    }
+
+    beforeEach(() => {
+        policy = 'any';
+        pendingRecordings = 0;
+        syncAll = vi.fn(async (options: SyncCycleOptions = {}) => reportFor(options, pendingRecordings));
+    });
+
+    afterEach(() => {
+        scheduler.stop();
+        vi.useRealTimers();
+    });
+
+    it('should run a cycle on start and on every interval', async () => {
+        vi.useFakeTimers();
+        createScheduler(WIFI);
+
+        scheduler.start(1000);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(syncAll).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(syncAll).toHaveBeenCalledTimes(3);
+        expect(scheduler.getState().lastSyncAt).not.toBeNull();
+    });
+
+    it('should skip cycles while offline and explain why', async () => {
+        vi.useFakeTimers();
+        createScheduler(OFFLINE);
+
+        scheduler.start(1000);
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect(syncAll).not.toHaveBeenCalled();
+        expect(scheduler.getState().paused).toBe(true);
+        expect(scheduler.getState().reason).toContain('Offline');
+    });
+
+    it('should sync immediately on reconnect', async () => {
+        createScheduler(OFFLINE);
+        scheduler.start(60_000);
+        await flush();
+        expect(syncAll).not.toHaveBeenCalled();
+
+        monitor.set(WIFI);
+        await flush();
+
+        expect(syncAll).toHaveBeenCalledTimes(1);
+        expect(scheduler.getState().paused).toBe(false);
+        expect(scheduler.getState().reason).toBeNull();
+    });
+
+    it('should defer recordings by policy and upload once conditions allow', async () => {
+        policy = 'unmetered';
+        pendingRecordings = 2;
+        createScheduler(CELLULAR);
+
+        scheduler.start(60_000);
+        await flush();
+        expect(syncAll).toHaveBeenLastCalledWith({ deferRecordings: true });
+        expect(scheduler.getState()).toMatchObject({
+            recordingUploadsAllowed: false,
+            deferredRecordings: 2,
+            reason: 'Recording uploads wait for Wi-Fi',
+        });
+
+        monitor.set(WIFI);
+        await flush();
+
+        expect(syncAll).toHaveBeenCalledTimes(2);
+        expect(syncAll).toHaveBeenLastCalledWith({ deferRecordings: false });
+        expect(scheduler.getState().deferredRecordings).toBe(0);
+    });
+
+    it('should not sync on condition changes that change nothing', async () => {
+        policy = 'unmetered';
+        pendingRecordings = 1;
+        createScheduler(CELLULAR);
+        scheduler.start(60_000);
+        await flush();
+
+        monitor.set({ ...CELLULAR, isCharging: true });
+        await flush();
+
+        expect(syncAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse a manual sync while offline', async () => {
+        createScheduler(OFFLINE);
+
+        await expect(scheduler.syncNow()).rejects.toThrow('Offline');
+        expect(syncAll).not.toHaveBeenCalled();
+    });
+
+    it('should publish state changes and unsubscribe from conditions on stop', async () => {
+        createScheduler(WIFI);
+        const listener = vi.fn();
+        scheduler.subscribe(listener);
+
+        scheduler.start(60_000);
+        await flush();
+        expect(listener).toHaveBeenCalled();
+        expect(monitor.listenerCount()).toBe(1);
+
+        scheduler.stop();
+        expect(scheduler.isRunning()).toBe(false);
+        expect(monitor.listenerCount()).toBe(0);
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * Sync Scheduler
+ *
+ * Runs SyncService cycles on an interval, adjusted to the device's
+ * conditions:
+ * - Offline: cycles are paused; reconnecting triggers one immediately
+ * - Recording uploads follow the researcher's upload policy (unmetered
+ *   network and/or charging) and are deferred otherwise; conditions that
+ *   allow them again trigger a cycle when recordings are waiting
+ *
+ * Every decision is published as a SyncScheduleState with a readable
+ * reason, so the UI can explain why data has not uploaded.
+ */
+
+import type { SyncService } from './SyncService';
+import type {
+    RecordingUploadPolicy,
+    SyncConditions,
+    SyncConditionsMonitor,
+    SyncReport,
+    SyncScheduleState,
+} from './SyncService.types';
+
+/**
+ * Outcome of evaluating the conditions against the upload policy.
+ */
+export interface SyncDecision {
+    sync: boolean;
+    uploadRecordings: boolean;
+    reason: string | null;
+}
+
+const DEFERRED_REASONS: Record<RecordingUploadPolicy, string> = {
+    any: '',
+    unmetered: 'Recording uploads wait for Wi-Fi',
+    charging: 'Recording uploads wait until the device is charging',
+    unmetered_or_charging: 'Recording uploads wait for Wi-Fi or charging',
+};
+
+const OFFLINE_REASON = 'Offline — sync resumes when the connection returns';
+
+function recordingUploadsAllowed(conditions: SyncConditions, policy: RecordingUploadPolicy): boolean {
+    switch (policy) {
+        case 'unmetered':
+            return conditions.isUnmetered;
+        case 'charging':
+            return conditions.isCharging;
+        case 'unmetered_or_charging':
+            return conditions.isUnmetered || conditions.isCharging;
+        default:
+            return true;
+    }
+}
+
+/**
+ * Decide whether a cycle runs and whether it uploads recordings.
+ */
+export function decideSync(conditions: SyncConditions, policy: RecordingUploadPolicy): SyncDecision {
+    if (!conditions.isOnline) {
+        return { sync: false, uploadRecordings: false, reason: OFFLINE_REASON };
+    }
+    if (!recordingUploadsAllowed(conditions, policy)) {
+        return { sync: true, uploadRecordings: false, reason: DEFERRED_REASONS[policy] };
+    }
+    return { sync: true, uploadRecordings: true, reason: null };
+}
+
+type SyncScheduleListener = (state: SyncScheduleState) => void;
+
+export class SyncScheduler {
+    private intervalId: ReturnType<typeof setInterval> | null = null;
+    private unsubscribeConditions: (() => void) | null = null;
+    private listeners = new Set<SyncScheduleListener>();
+    private state: SyncScheduleState = {
+        conditions: null,
+        policy: 'any',
+        paused: false,
+        recordingUploadsAllowed: true,
+        deferredRecordings: 0,
+        reason: null,
+        lastSyncAt: null,
+    };
+
+    constructor(
+        private syncService: Pick<SyncService, 'syncAll'>,
+        private monitor: SyncConditionsMonitor,
+        private getPolicy: () => Promise<RecordingUploadPolicy>
+    ) {}
+
+    /**
+     * Start scheduled synchronization. The first cycle runs immediately.
+     */
+    start(intervalMs: number = 60000): void {
+        if (this.intervalId) {
+            console.log('[SyncScheduler] Already running');
+            return;
+        }
+
+        console.log(`[SyncScheduler] Starting (interval: ${intervalMs}ms)`);
+        this.intervalId = setInterval(() => {
+            void this.runScheduled();
+        }, intervalMs);
+        this.unsubscribeConditions = this.monitor.subscribe(conditions => {
+            void this.handleConditionsChange(conditions);
+        });
+
+        void this.runScheduled();
+    }
+
+    /**
+     * Stop scheduled synchronization.
+     */
+    stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+            console.log('[SyncScheduler] Stopped');
+        }
+        this.unsubscribeConditions?.();
+        this.unsubscribeConditions = null;
+    }
+
+    isRunning(): boolean {
+        return this.intervalId !== null;
+    }
+
+    getState(): SyncScheduleState {
+        return this.state;
+    }
+
+    /**
+     * Listen for schedule state changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: SyncScheduleListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Run a cycle now, under the same policy as scheduled cycles.
+     *
+     * @throws Error when the device is offline or the cycle fails
+     */
+    async syncNow(): Promise<SyncReport> {
+        const decision = await this.evaluate(await this.monitor.current());
+        if (!decision.sync) {
+            throw new Error(decision.reason ?? 'Sync is paused');
+        }
+        return this.runCycle(decision);
+    }
+
+    /**
+     * Re-read the upload policy, e.g. after the researcher changed it, and
+     * run a cycle if recordings it was holding back may now upload.
+     */
+    async refresh(): Promise<void> {
+        const wasDeferring = this.state.deferredRecordings > 0;
+        const decision = await this.evaluate(this.state.conditions ?? await this.monitor.current());
+        if (this.isRunning() && wasDeferring && decision.uploadRecordings) {
+            await this.runScheduled();
+        }
+    }
+
+    private async handleConditionsChange(conditions: SyncConditions): Promise<void> {
+        const previous = this.state.conditions;
+        const wasDeferring = this.state.deferredRecordings > 0;
+        const decision = await this.evaluate(conditions);
+        if (!this.isRunning()) return;
+
+        const reconnected = previous !== null && !previous.isOnline && conditions.isOnline;
+        if (reconnected) {
+            console.log('[SyncScheduler] Connection restored, syncing now');
+            await this.runScheduled();
+        } else if (wasDeferring && decision.uploadRecordings) {
+            console.log('[SyncScheduler] Recording uploads allowed again, syncing now');
+            await this.runScheduled();
+        }
+    }
+
+    /**
+     * Scheduled cycle: skipped while offline, errors are logged only.
+     */
+    private async runScheduled(): Promise<void> {
+        try {
+            const decision = await this.evaluate(await this.monitor.current());
+            if (!decision.sync) {
+                console.log(`[SyncScheduler] Skipping cycle: ${decision.reason}`);
+                return;
+            }
+            await this.runCycle(decision);
+        } catch (error) {
+            console.error('[SyncScheduler] Scheduled sync failed:', error);
+        }
+    }
+
+    private async runCycle(decision: SyncDecision): Promise<SyncReport> {
+        const report = await this.syncService.syncAll({ deferRecordings: !decision.uploadRecordings });
+        this.update({
+            deferredRecordings: report.recordings.deferred ?? 0,
+            lastSyncAt: report.timestamp,
+        });
+        return report;
+    }
+
+    private async evaluate(conditions: SyncConditions): Promise<SyncDecision> {
+        const policy = await this.getPolicy();
+        const decision = decideSync(conditions, policy);
+        this.update({
+            conditions,
+            policy,
+            paused: !decision.sync,
+            recordingUploadsAllowed: decision.uploadRecordings,
+            // Nothing is held back once uploads are allowed again
+            deferredRecordings: decision.uploadRecordings ? 0 : this.state.deferredRecordings,
+            reason: decision.reason,
+        });
+        return decision;
+    }
+
+    private update(changes: Partial<SyncScheduleState>): void {
+        this.state = { ...this.state, ...changes };
+        for (const listener of this.listeners) {
+            listener(this.state);
+        }
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * SyncService Conflicts
+ *
+ * Field-level comparison of a local entity with its copy on the Research
+ * Node, and the local updates that apply a chosen resolution. Only fields
+ * that both sides can change take part; timestamps are normalised so that
+ * formatting differences are not reported as conflicts.
+ */
+
+import type {
+    Annotation,
+    AnnotationCategory,
+    ClinicalSession,
+    SyncConflict,
+    SyncConflictEntityType,
+    SyncConflictValues,
+} from '@iris/domain';
+import type { AnnotationResponseDTO, ClinicalSessionResponseDTO } from './SyncService.mappers';
+
+/** Per-field choice when merging. */
+export type ConflictFieldChoice = 'local' | 'remote';
+
+/** Display labels of the compared fields, in display order. */
+export const CONFLICT_FIELD_LABELS: Record<SyncConflictEntityType, Record<string, string>> = {
+    session: {
+        researchId: 'Research',
+        startedAt: 'Started',
+        endedAt: 'Finished',
+    },
+    annotation: {
+        text: 'Text',
+        category: 'Category',
+        startOffsetMs: 'Start offset (ms)',
+        endOffsetMs: 'End offset (ms)',
+    },
+};
+
+function normalizeTimestamp(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+// ── Comparable values ─────────────────────────────────────────────────
+
+export function sessionConflictValues(session: ClinicalSession): SyncConflictValues {
+    return {
+        researchId: session.researchId ?? null,
+        startedAt: normalizeTimestamp(session.startedAt),
+        endedAt: normalizeTimestamp(session.endedAt),
+    };
+}
+
+export function remoteSessionConflictValues(dto: ClinicalSessionResponseDTO): SyncConflictValues {
+    return {
+        researchId: dto.researchId ?? null,
+        startedAt: normalizeTimestamp(dto.startAt),
+        endedAt: normalizeTimestamp(dto.finishedAt),
+    };
+}
+
+export function annotationConflictValues(annotation: Annotation): SyncConflictValues {
+    return {
+        text: annotation.text,
+        category: annotation.category ?? null,
+        startOffsetMs: annotation.startOffsetMs ?? null,
+        endOffsetMs: annotation.endOffsetMs ?? null,
+    };
+}
+
+export function remoteAnnotationConflictValues(dto: AnnotationResponseDTO): SyncConflictValues {
+    return {
+        text: dto.text,
+        category: dto.category ?? null,
+        startOffsetMs: dto.startOffsetMs ?? null,
+        endOffsetMs: dto.endOffsetMs ?? null,
+    };
+}
+
+/**
+ * Names of the fields whose values differ between the two sides.
+ */
+export function conflictingFields(local: SyncConflictValues, remote: SyncConflictValues): string[] {
+    return Object.keys(local).filter(field => local[field] !== (remote[field] ?? null));
+}
+
+// ── Resolution ────────────────────────────────────────────────────────
+
+/**
+ * Values to keep for a resolution. Merging takes each field from the side
+ * chosen for it and keeps the local value for fields without a choice.
+ */
+export function resolvedConflictValues(
+    conflict: SyncConflict,
+    resolution: SyncConflict['resolution'],
+    choices: Record<string, ConflictFieldChoice> = {}
+): SyncConflictValues {
+    if (resolution === 'remote') return { ...conflict.remoteValues };
+    if (resolution === 'local') return { ...conflict.localValues };
+
+    const merged: SyncConflictValues = {};
+    for (const field of Object.keys(conflict.localValues)) {
+        merged[field] = choices[field] === 'remote'
+            ? conflict.remoteValues[field] ?? null
+            : conflict.localValues[field];
+    }
+    return merged;
+}
+
+// Nulls are passed through: the repositories write them as NULL, which is
+// how a field cleared on one side is cleared on the other.
+
+export function sessionUpdateFromValues(values: SyncConflictValues): Partial<ClinicalSession> {
+    const update: Partial<ClinicalSession> = {
+        researchId: values.researchId as string,
+        endedAt: values.endedAt as string,
+    };
+    if (values.startedAt) {
+        update.startedAt = values.startedAt as string;
+    }
+    if (update.endedAt && update.startedAt) {
+        update.durationSeconds = Math.floor(
+            (new Date(update.endedAt).getTime() - new Date(update.startedAt).getTime()) / 1000
+        );
+    }
+    return update;
+}
+
+export function annotationUpdateFromValues(values: SyncConflictValues): Partial<Annotation> {
+    return {
+        text: (values.text as string | null) ?? '',
+        category: values.category as AnnotationCategory,
+        startOffsetMs: values.startOffsetMs as number,
+        endOffsetMs: values.endOffsetMs as number,
+    };
+}
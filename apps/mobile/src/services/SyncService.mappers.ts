@@ -8,7 +8,8 @@
  * Implements US-MI-001, US-MI-002, US-MI-003, US-MI-004.
  */
 
-import type { ClinicalSession, ClinicalData, Recording, Annotation } from '@iris/domain';
+import type { ClinicalSession, ClinicalData, Recording, RecordingUpload, Annotation, AuditEntry } from '@iris/domain';
+import { canonicalJson } from '../crypto/auditChain';
 
 // ── Outbound payloads (mobile -> backend, PascalCase) ─────────────────
 
@@ -40,21 +41,58 @@ export interface CreateRecordingPayload {
     FileUrl: string;
     CollectionDate: string;
     SensorId: string | null;
+    ChannelCount: number;
+    ChannelSensorIds: string[];
 }
 
 export interface CreateAnnotationPayload {
     Id: string;
     Text: string;
+    RecordingId: string | null;
+    StartOffsetMs: number | null;
+    EndOffsetMs: number | null;
+    Category: string | null;
     CreatedAt: string;
 }
 
-export interface UploadRecordingPayload {
+/**
+ * Audit entry as hashed on the device. Details are sent in the canonical
+ * form the hash was computed over, so the node can verify the chain.
+ */
+export interface CreateAuditEntryPayload {
+    Id: string;
+    Sequence: number;
+    Action: string;
+    ActorId: string | null;
+    SessionId: string | null;
+    EntityType: string | null;
+    EntityId: string | null;
+    Details: string | null;
+    CreatedAt: string;
+    PreviousHash: string;
+    Hash: string;
+}
+
+export interface StartRecordingUploadPayload {
+    UploadId: string | null;    // Upload to resume, if one was started before
     RecordingId: string;
     SessionId: string;
     FileName: string;
     ContentType: string;
-    FileData: string;
     FileSizeBytes: number;
+    ChunkSizeBytes: number;
+    Sha256: string;
+}
+
+export interface UploadChunkPayload {
+    Offset: number;
+    ChunkData: string;          // Base64
+    ChunkSizeBytes: number;
+    ChunkSha256: string;
+}
+
+export interface CompleteRecordingUploadPayload {
+    Sha256: string;
 }
 
 // ── Inbound DTOs (backend -> mobile, camelCase via System.Text.Json) ──
@@ -70,6 +108,31 @@ export interface ClinicalSessionResponseDTO {
     updatedAt: string;
 }
 
+export interface AnnotationResponseDTO {
+    id: string;
+    text: string;
+    recordingId: string | null;
+    startOffsetMs: number | null;
+    endOffsetMs: number | null;
+    category: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface RecordingUploadResponseDTO {
+    uploadId: string;
+    receivedBytes: number;      // Bytes the backend already holds
+}
+
+export interface UploadChunkResponseDTO {
+    receivedBytes: number;
+}
+
+export interface CompleteRecordingUploadResponseDTO {
+    fileUrl: string;
+    sha256: string;             // Digest of the assembled file
+}
+
 // ── Outbound mappers ──────────────────────────────────────────────────
 
 export function mapToCreateSessionPayload(
@@ -110,6 +173,8 @@ export function mapToCreateRecordingPayload(
         FileUrl: '',
         CollectionDate: recording.recordedAt,
         SensorId: sensorId ?? null,
+        ChannelCount: recording.channelCount,
+        ChannelSensorIds: recording.channelSensorIds ?? [],
     };
 }
 
@@ -119,23 +184,57 @@ export function mapToCreateAnnotationPayload(
     return {
         Id: annotation.id,
         Text: annotation.text,
+        RecordingId: annotation.recordingId ?? null,
+        StartOffsetMs: annotation.startOffsetMs ?? null,
+        EndOffsetMs: annotation.endOffsetMs ?? null,
+        Category: annotation.category ?? null,
         CreatedAt: annotation.createdAt,
     };
 }
 
-export function buildUploadPayload(
+export function mapToCreateAuditEntryPayload(entry: AuditEntry): CreateAuditEntryPayload {
+    return {
+        Id: entry.id,
+        Sequence: entry.sequence,
+        Action: entry.action,
+        ActorId: entry.actorId ?? null,
+        SessionId: entry.sessionId ?? null,
+        EntityType: entry.entityType ?? null,
+        EntityId: entry.entityId ?? null,
+        Details: entry.details === undefined ? null : canonicalJson(entry.details),
+        CreatedAt: entry.createdAt,
+        PreviousHash: entry.previousHash,
+        Hash: entry.hash,
+    };
+}
+
+export function buildStartUploadPayload(
     recording: Recording,
-    sessionId: string,
-    base64Content: string,
-    fileSizeBytes: number
-): UploadRecordingPayload {
+    upload: Pick<RecordingUpload, 'sha256' | 'sizeBytes' | 'chunkSizeBytes'>,
+    resumeUploadId: string | null
+): StartRecordingUploadPayload {
     return {
+        UploadId: resumeUploadId,
         RecordingId: recording.id,
-        SessionId: sessionId,
+        SessionId: recording.sessionId,
         FileName: recording.filename,
         ContentType: 'text/csv',
-        FileData: base64Content,
-        FileSizeBytes: fileSizeBytes,
+        FileSizeBytes: upload.sizeBytes,
+        ChunkSizeBytes: upload.chunkSizeBytes,
+        Sha256: upload.sha256,
+    };
+}
+
+export function buildUploadChunkPayload(
+    offset: number,
+    chunk: Uint8Array,
+    chunkSha256: string
+): UploadChunkPayload {
+    return {
+        Offset: offset,
+        ChunkData: Buffer.from(chunk).toString('base64'),
+        ChunkSizeBytes: chunk.length,
+        ChunkSha256: chunkSha256,
     };
 }
 
@@ -155,6 +254,7 @@ export function mapResponseToClinicalSession(
             : 0,
         syncStatus: 'synced',
         createdAt: dto.createdAt,
+        remoteUpdatedAt: dto.updatedAt,
         researchId: dto.researchId ?? undefined,
     };
 }
@@ -8,10 +8,17 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
 import { SyncService } from './SyncService';
+import { mapToCreateAnnotationPayload } from './SyncService.mappers';
 import type { SessionRepository } from '../data/repositories/SessionRepository';
 import type { RecordingRepository } from '../data/repositories/RecordingRepository';
 import type { AnnotationRepository } from '../data/repositories/AnnotationRepository';
+import type { SyncQueueRepository } from '../data/repositories/SyncQueueRepository';
+import type { RecordingUploadRepository } from '../data/repositories/RecordingUploadRepository';
+import type { SyncConflictRepository } from '../data/repositories/SyncConflictRepository';
+import type { AuditLogRepository } from '../data/repositories/AuditLogRepository';
+import type { AuditEntry, NewSyncConflictData, RecordingUpload, SyncConflict, SyncQueueItem } from '@iris/domain';
 
 // Mock middleware module
 const mockInvoke = vi.fn().mockResolvedValue({});
@@ -25,9 +32,28 @@ vi.mock('./middleware', () => ({
 vi.mock('expo-file-system', () => ({
     getInfoAsync: vi.fn().mockResolvedValue({ exists: true, size: 1024 }),
     readAsStringAsync: vi.fn().mockResolvedValue('bW9ja2Jhc2U2NA=='),
+    deleteAsync: vi.fn().mockResolvedValue(undefined),
     EncodingType: { Base64: 'base64' },
 }));
 
+// Recording files are read through the encrypting file system, whose key store uses SecureStore
+vi.mock('expo-secure-store', () => ({}));
+
+// The real repositories pull in expo-sqlite; tests pass in-memory stand-ins instead
+vi.mock('../data/repositories/SyncQueueRepository', () => ({
+    SyncQueueRepository: vi.fn(),
+}));
+vi.mock('../data/repositories/RecordingUploadRepository', () => ({
+    RecordingUploadRepository: vi.fn(),
+}));
+vi.mock('../data/repositories/SyncConflictRepository', () => ({
+    SyncConflictRepository: vi.fn(),
+}));
+vi.mock('../data/repositories/AuditLogRepository', () => ({
+    AuditLogRepository: vi.fn(),
+    auditLogRepository: {},
+}));
+
 // Mock mapper functions (they are pure and tested separately if needed)
 vi.mock('./SyncService.mappers', () => ({
     mapToCreateSessionPayload: vi.fn((_session: unknown, _data: unknown) => ({
@@ -52,16 +78,47 @@ vi.mock('./SyncService.mappers', () => ({
         Text: 'Test annotation',
         CreatedAt: '2026-01-01T00:00:00Z',
     })),
-    buildUploadPayload: vi.fn(() => ({
+    mapToCreateAuditEntryPayload: vi.fn((entry: { id: string; sequence: number; hash: string }) => ({
+        Id: entry.id,
+        Sequence: entry.sequence,
+        Hash: entry.hash,
+    })),
+    buildStartUploadPayload: vi.fn((_recording: unknown, upload: { sha256: string; sizeBytes: number }, uploadId: string | null) => ({
+        UploadId: uploadId,
         RecordingId: 'rec-1',
-        SessionId: 'session-1',
-        FileName: 'recording.csv',
-        ContentType: 'text/csv',
-        FileData: 'bW9ja2Jhc2U2NA==',
-        FileSizeBytes: 1024,
+        FileSizeBytes: upload.sizeBytes,
+        Sha256: upload.sha256,
+    })),
+    buildUploadChunkPayload: vi.fn((offset: number, chunk: Uint8Array, chunkSha256: string) => ({
+        Offset: offset,
+        ChunkData: Buffer.from(chunk).toString('base64'),
+        ChunkSizeBytes: chunk.length,
+        ChunkSha256: chunkSha256,
     })),
 }));
 
+// Decoded content of the mocked recording file
+const MOCK_FILE_SHA256 = createHash('sha256').update('mockbase64').digest('hex');
+const MOCK_FILE_URL = 'https://storage.example.com/recordings/rec-1.csv';
+
+/**
+ * Research Node stand-in: acknowledges every chunk and reports the mock
+ * file's digest on completion.
+ */
+function respond(request: { path: string; payload?: Record<string, unknown> }): Promise<unknown> {
+    if (request.path === '/api/Upload/recording/Start') {
+        return Promise.resolve({ uploadId: 'upload-1', receivedBytes: 0 });
+    }
+    if (request.path.endsWith('/Chunk')) {
+        const { Offset, ChunkSizeBytes } = request.payload as { Offset: number; ChunkSizeBytes: number };
+        return Promise.resolve({ receivedBytes: Offset + ChunkSizeBytes });
+    }
+    if (request.path.endsWith('/Complete')) {
+        return Promise.resolve({ fileUrl: MOCK_FILE_URL, sha256: MOCK_FILE_SHA256 });
+    }
+    return Promise.resolve({});
+}
+
 function createMockSessionRepo(): SessionRepository {
     return {
         getPending: vi.fn().mockResolvedValue([]),
@@ -80,6 +137,7 @@ function createMockSessionRepo(): SessionRepository {
 function createMockRecordingRepo(): RecordingRepository {
     return {
         getPendingWithSyncedParent: vi.fn().mockResolvedValue([]),
+        getById: vi.fn().mockResolvedValue(null),
         update: vi.fn().mockResolvedValue(undefined),
     } as unknown as RecordingRepository;
 }
@@ -91,6 +149,83 @@ function createMockAnnotationRepo(): AnnotationRepository {
     } as unknown as AnnotationRepository;
 }
 
+/** In-memory sync_queue so retry state carries across syncAll() calls. */
+function createMockSyncQueueRepo(): SyncQueueRepository & { items: Map<string, SyncQueueItem> } {
+    const items = new Map<string, SyncQueueItem>();
+    return {
+        items,
+        getAll: vi.fn(async () => [...items.values()]),
+        upsert: vi.fn(async (item: SyncQueueItem) => { items.set(item.entityId, item); }),
+        remove: vi.fn(async (_type: string, entityId: string) => { items.delete(entityId); }),
+        removeEntity: vi.fn(async (entityId: string) => { items.delete(entityId); }),
+    } as unknown as SyncQueueRepository & { items: Map<string, SyncQueueItem> };
+}
+
+/** In-memory recording_uploads so upload progress carries across syncAll() calls. */
+function createMockRecordingUploadRepo(): RecordingUploadRepository & { items: Map<string, RecordingUpload> } {
+    const items = new Map<string, RecordingUpload>();
+    return {
+        items,
+        get: vi.fn(async (recordingId: string) => items.get(recordingId) ?? null),
+        save: vi.fn(async (upload: RecordingUpload) => { items.set(upload.recordingId, { ...upload }); }),
+        updateAcknowledged: vi.fn(async (recordingId: string, acknowledgedBytes: number) => {
+            const upload = items.get(recordingId);
+            if (upload) upload.acknowledgedBytes = acknowledgedBytes;
+        }),
+        remove: vi.fn(async (recordingId: string) => { items.delete(recordingId); }),
+    } as unknown as RecordingUploadRepository & { items: Map<string, RecordingUpload> };
+}
+
+/** In-memory sync_conflicts, keyed by conflict id. */
+function createMockSyncConflictRepo(): SyncConflictRepository & { items: Map<string, SyncConflict> } {
+    const items = new Map<string, SyncConflict>();
+    return {
+        items,
+        getById: vi.fn(async (id: string) => items.get(id) ?? null),
+        getOpen: vi.fn(async () => [...items.values()].filter(c => c.resolvedAt === null)),
+        upsertOpen: vi.fn(async (data: NewSyncConflictData) => {
+            const conflict: SyncConflict = {
+                ...data,
+                id: `conflict-${data.entityId}`,
+                detectedAt: '2026-01-02T00:00:00Z',
+                resolution: null,
+                resolvedAt: null,
+            };
+            items.set(conflict.id, conflict);
+            return conflict;
+        }),
+        resolve: vi.fn(async (id: string, resolution: SyncConflict['resolution']) => {
+            const conflict = items.get(id)!;
+            items.set(id, { ...conflict, resolution, resolvedAt: '2026-01-03T00:00:00Z' });
+        }),
+    } as unknown as SyncConflictRepository & { items: Map<string, SyncConflict> };
+}
+
+/** In-memory audit_log. */
+function createMockAuditLogRepo(entries: AuditEntry[] = []): AuditLogRepository & { entries: AuditEntry[] } {
+    return {
+        entries,
+        getPending: vi.fn(async () => entries.filter(e => e.syncStatus !== 'synced')),
+        setSyncStatus: vi.fn(async (id: string, syncStatus: AuditEntry['syncStatus']) => {
+            const entry = entries.find(e => e.id === id)!;
+            entry.syncStatus = syncStatus;
+        }),
+    } as unknown as AuditLogRepository & { entries: AuditEntry[] };
+}
+
+function makeAuditEntry(sequence: number): AuditEntry {
+    return {
+        id: `audit-${sequence}`,
+        sequence,
+        action: 'session_started',
+        sessionId: 'session-1',
+        createdAt: '2026-01-01T00:00:00Z',
+        previousHash: `hash-${sequence - 1}`,
+        hash: `hash-${sequence}`,
+        syncStatus: 'pending',
+    };
+}
+
 const mockSession = {
     id: 'session-1',
     volunteerId: 'vol-1',
@@ -106,6 +241,7 @@ const mockRecording = {
     sessionId: 'session-1',
     dataType: 'raw' as const,
     sampleRate: 215,
+    channelCount: 1,
     sampleCount: 1000,
     durationSeconds: 10,
     filePath: '/data/recording.csv',
@@ -127,14 +263,22 @@ describe('SyncService', () => {
     let sessionRepo: SessionRepository;
     let recordingRepo: RecordingRepository;
     let annotationRepo: AnnotationRepository;
+    let syncQueueRepo: ReturnType<typeof createMockSyncQueueRepo>;
+    let uploadRepo: ReturnType<typeof createMockRecordingUploadRepo>;
+    let conflictRepo: ReturnType<typeof createMockSyncConflictRepo>;
+    let auditRepo: ReturnType<typeof createMockAuditLogRepo>;
 
     beforeEach(() => {
         sessionRepo = createMockSessionRepo();
         recordingRepo = createMockRecordingRepo();
         annotationRepo = createMockAnnotationRepo();
-        // maxRetries=0 to avoid retry delays in tests
-        syncService = new SyncService(sessionRepo, recordingRepo, annotationRepo, 0);
-        mockInvoke.mockResolvedValue({});
+        syncQueueRepo = createMockSyncQueueRepo();
+        uploadRepo = createMockRecordingUploadRepo();
+        conflictRepo = createMockSyncConflictRepo();
+        auditRepo = createMockAuditLogRepo();
+        // maxRetries=0: the first failure is final unless a test says otherwise
+        syncService = new SyncService(sessionRepo, recordingRepo, annotationRepo, 0, syncQueueRepo, uploadRepo, conflictRepo, auditRepo);
+        mockInvoke.mockImplementation(respond);
     });
 
     afterEach(() => {
@@ -209,12 +353,25 @@ describe('SyncService', () => {
                 method: 'POST',
                 path: '/api/ClinicalSession/session-1/recordings/New',
             }));
-            // Step 2: file upload
-            expect(mockInvoke).toHaveBeenCalledWith(expect.objectContaining({
-                method: 'POST',
-                path: '/api/Upload/recording',
-            }));
+            // Step 2: chunked file upload
+            expect(mockInvoke.mock.calls.map(([request]) => request.path).slice(1)).toEqual([
+                '/api/Upload/recording/Start',
+                '/api/Upload/recording/upload-1/Chunk',
+                '/api/Upload/recording/upload-1/Complete',
+            ]);
+            expect(recordingRepo.update).toHaveBeenCalledWith('rec-1', { blobUrl: MOCK_FILE_URL });
             expect(recordingRepo.update).toHaveBeenCalledWith('rec-1', { syncStatus: 'synced' });
+            expect(uploadRepo.items.has('rec-1')).toBe(false);
+        });
+
+        it('should leave recordings pending when they are deferred', async () => {
+            vi.spyOn(recordingRepo, 'getPendingWithSyncedParent').mockResolvedValue([mockRecording]);
+
+            const report = await syncService.syncAll({ deferRecordings: true });
+
+            expect(report.recordings).toEqual({ synced: 0, failed: 0, pending: 1, deferred: 1 });
+            expect(mockInvoke).not.toHaveBeenCalled();
+            expect(recordingRepo.update).not.toHaveBeenCalled();
         });
 
         it('should sync annotations only when parent session is synced', async () => {
@@ -247,6 +404,38 @@ describe('SyncService', () => {
             expect(report.annotations.pending).toBe(1);
         });
 
+        it('should hold anchored annotations until their recording is synced', async () => {
+            const anchored = { ...mockAnnotation, recordingId: 'rec-1', startOffsetMs: 1500, category: 'marker' as const };
+            vi.spyOn(annotationRepo, 'getPending').mockResolvedValue([anchored]);
+            vi.spyOn(sessionRepo, 'getById').mockResolvedValue({ ...mockSession, syncStatus: 'synced' });
+            vi.spyOn(recordingRepo, 'getById').mockResolvedValue(mockRecording);
+
+            const waiting = await syncService.syncAll();
+
+            expect(waiting.annotations).toMatchObject({ synced: 0, pending: 1 });
+
+            vi.spyOn(recordingRepo, 'getById').mockResolvedValue({ ...mockRecording, syncStatus: 'synced' });
+
+            const report = await syncService.syncAll();
+
+            expect(report.annotations.synced).toBe(1);
+            expect(annotationRepo.update).toHaveBeenCalledWith('ann-1', { syncStatus: 'synced' });
+        });
+
+        it('should sync an annotation whose recording was deleted as session-level', async () => {
+            const orphaned = { ...mockAnnotation, recordingId: 'rec-deleted', startOffsetMs: 1500, category: 'marker' as const };
+            vi.spyOn(annotationRepo, 'getPending').mockResolvedValue([orphaned]);
+            vi.spyOn(sessionRepo, 'getById').mockResolvedValue({ ...mockSession, syncStatus: 'synced' });
+            vi.spyOn(recordingRepo, 'getById').mockResolvedValue(null);
+
+            const report = await syncService.syncAll();
+
+            expect(report.annotations).toMatchObject({ synced: 1, pending: 0 });
+            expect(mapToCreateAnnotationPayload).toHaveBeenCalledWith(
+                expect.objectContaining({ recordingId: undefined, startOffsetMs: undefined, category: 'marker' })
+            );
+        });
+
         it('should prevent concurrent sync', async () => {
             // Start first sync
             const promise1 = syncService.syncAll();
@@ -319,9 +508,327 @@ describe('SyncService', () => {
         });
     });
 
-    describe('resetEntityRetry', () => {
-        it('should be callable without error', () => {
-            expect(() => syncService.resetEntityRetry('session-1')).not.toThrow();
+    describe('resumable upload', () => {
+        beforeEach(() => {
+            syncService = new SyncService(sessionRepo, recordingRepo, annotationRepo, 2, syncQueueRepo, uploadRepo, conflictRepo, auditRepo);
+            vi.spyOn(recordingRepo, 'getPendingWithSyncedParent').mockResolvedValue([mockRecording]);
+        });
+
+        it('should keep acknowledged progress when the upload is cut off', async () => {
+            mockInvoke.mockImplementation((request: { path: string }) =>
+                request.path.endsWith('/Complete')
+                    ? Promise.reject(new Error('Network error'))
+                    : respond(request)
+            );
+
+            const report = await syncService.syncAll();
+
+            expect(report.recordings).toMatchObject({ synced: 0, failed: 0, pending: 1 });
+            expect(uploadRepo.items.get('rec-1')).toMatchObject({
+                uploadId: 'upload-1',
+                sha256: MOCK_FILE_SHA256,
+                sizeBytes: 10,
+                acknowledgedBytes: 10,
+            });
+        });
+
+        it('should resume from the offset the backend acknowledges', async () => {
+            uploadRepo.items.set('rec-1', {
+                recordingId: 'rec-1',
+                uploadId: 'upload-1',
+                sha256: MOCK_FILE_SHA256,
+                sizeBytes: 10,
+                chunkSizeBytes: 4,
+                acknowledgedBytes: 4,
+                updatedAt: '2026-01-01T00:00:00Z',
+            });
+            mockInvoke.mockImplementation((request: { path: string; payload?: Record<string, unknown> }) =>
+                request.path.endsWith('/Start')
+                    ? Promise.resolve({ uploadId: 'upload-1', receivedBytes: 4 })
+                    : respond(request)
+            );
+
+            const report = await syncService.syncAll();
+
+            expect(report.recordings.synced).toBe(1);
+            expect(mockInvoke).toHaveBeenCalledWith(expect.objectContaining({
+                path: '/api/Upload/recording/Start',
+                payload: expect.objectContaining({ UploadId: 'upload-1' }),
+            }));
+            const chunks = mockInvoke.mock.calls
+                .map(([request]) => request)
+                .filter(request => request.path.endsWith('/Chunk'))
+                .map(request => [request.payload.Offset, request.payload.ChunkSizeBytes]);
+            expect(chunks).toEqual([[4, 4], [8, 2]]);
+        });
+
+        it('should start over when the local file no longer matches', async () => {
+            uploadRepo.items.set('rec-1', {
+                recordingId: 'rec-1',
+                uploadId: 'upload-stale',
+                sha256: 'ab'.repeat(32),
+                sizeBytes: 10,
+                chunkSizeBytes: 4,
+                acknowledgedBytes: 8,
+                updatedAt: '2026-01-01T00:00:00Z',
+            });
+
+            await syncService.syncAll();
+
+            expect(mockInvoke).toHaveBeenCalledWith(expect.objectContaining({
+                path: '/api/Upload/recording/Start',
+                payload: expect.objectContaining({ UploadId: null }),
+            }));
+        });
+
+        it('should not mark the recording synced when the digest does not match', async () => {
+            mockInvoke.mockImplementation((request: { path: string }) =>
+                request.path.endsWith('/Complete')
+                    ? Promise.resolve({ fileUrl: MOCK_FILE_URL, sha256: '00'.repeat(32) })
+                    : respond(request)
+            );
+
+            const report = await syncService.syncAll();
+
+            expect(report.recordings.synced).toBe(0);
+            expect(recordingRepo.update).not.toHaveBeenCalledWith('rec-1', { syncStatus: 'synced' });
+            expect(recordingRepo.update).not.toHaveBeenCalledWith('rec-1', { blobUrl: MOCK_FILE_URL });
+            expect(uploadRepo.items.has('rec-1')).toBe(false);
+            expect(syncQueueRepo.items.get('rec-1')?.errorReason).toMatch(/integrity check failed/);
+        });
+    });
+
+    describe('conflicts', () => {
+        const syncedBefore = { ...mockSession, endedAt: '2026-01-01T01:00:00.000Z', remoteUpdatedAt: '2026-01-01T02:00:00Z' };
+        const remoteSession = {
+            id: 'session-1',
+            researchId: null,
+            volunteerId: 'vol-1',
+            targetAreaId: null,
+            startAt: '2026-01-01T00:00:00Z',
+            finishedAt: '2026-01-01T01:00:00Z',
+            createdAt: '2026-01-01T00:00:00Z',
+            updatedAt: '2026-01-01T02:00:00Z',
+        };
+
+        function backend(remote: Record<string, unknown>) {
+            mockInvoke.mockImplementation((request: { method: string; path: string }) => {
+                if (request.method === 'GET') return Promise.resolve(remote);
+                if (request.path === '/api/ClinicalSession/New') return Promise.resolve({ updatedAt: '2026-01-05T00:00:00Z' });
+                return Promise.resolve({});
+            });
+        }
+
+        beforeEach(() => {
+            vi.spyOn(sessionRepo, 'getPending').mockResolvedValue([syncedBefore]);
+        });
+
+        it('should push when the backend copy is unchanged and move the watermark', async () => {
+            backend(remoteSession);
+
+            const report = await syncService.syncAll();
+
+            expect(report.sessions.synced).toBe(1);
+            expect(sessionRepo.update).toHaveBeenCalledWith('session-1', {
+                syncStatus: 'synced',
+                remoteUpdatedAt: '2026-01-05T00:00:00Z',
+            });
+        });
+
+        it('should record a conflict instead of overwriting a changed backend copy', async () => {
+            backend({ ...remoteSession, finishedAt: '2026-01-01T01:30:00Z', updatedAt: '2026-01-04T00:00:00Z' });
+
+            const report = await syncService.syncAll();
+
+            expect(report.sessions).toMatchObject({ synced: 0, failed: 0, pending: 1, conflicts: 1 });
+            expect(mockInvoke).not.toHaveBeenCalledWith(expect.objectContaining({ path: '/api/ClinicalSession/New' }));
+            expect(conflictRepo.items.get('conflict-session-1')).toMatchObject({
+                entityType: 'session',
+                localValues: { endedAt: '2026-01-01T01:00:00.000Z' },
+                remoteValues: { endedAt: '2026-01-01T01:30:00.000Z' },
+                remoteUpdatedAt: '2026-01-04T00:00:00Z',
+            });
+        });
+
+        it('should push when the backend changed to the same values', async () => {
+            backend({ ...remoteSession, startAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-04T00:00:00Z' });
+
+            const report = await syncService.syncAll();
+
+            expect(report.sessions.synced).toBe(1);
+            expect(conflictRepo.upsertOpen).not.toHaveBeenCalled();
+        });
+
+        it('should hold back entities with an open conflict', async () => {
+            backend({ ...remoteSession, finishedAt: null, updatedAt: '2026-01-04T00:00:00Z' });
+            await syncService.syncAll();
+            mockInvoke.mockClear();
+
+            const report = await syncService.syncAll();
+
+            expect(mockInvoke).not.toHaveBeenCalled();
+            expect(report.sessions.conflicts).toBe(1);
+        });
+
+        it('should apply a merged resolution and push it against the new watermark', async () => {
+            vi.spyOn(annotationRepo, 'getPending').mockResolvedValue([]);
+            backend({ ...remoteSession, researchId: 'research-9', finishedAt: '2026-01-01T01:30:00Z', updatedAt: '2026-01-04T00:00:00Z' });
+            await syncService.syncAll();
+
+            await syncService.resolveConflict('conflict-session-1', 'merged', { researchId: 'remote' });
+
+            expect(sessionRepo.update).toHaveBeenLastCalledWith('session-1', expect.objectContaining({
+                researchId: 'research-9',
+                endedAt: '2026-01-01T01:00:00.000Z',
+                syncStatus: 'pending',
+                remoteUpdatedAt: '2026-01-04T00:00:00Z',
+            }));
+            expect(conflictRepo.items.get('conflict-session-1')).toMatchObject({ resolution: 'merged' });
+            expect(await syncService.getConflicts()).toEqual([]);
+            await expect(syncService.resolveConflict('conflict-session-1', 'local')).rejects.toThrow('No open sync conflict');
+        });
+
+        it('should detect conflicts on annotations edited on both sides', async () => {
+            vi.spyOn(sessionRepo, 'getPending').mockResolvedValue([]);
+            vi.spyOn(sessionRepo, 'getById').mockResolvedValue({ ...mockSession, syncStatus: 'synced' });
+            vi.spyOn(annotationRepo, 'getPending').mockResolvedValue([
+                { ...mockAnnotation, text: 'Local wording', remoteUpdatedAt: '2026-01-01T02:00:00Z' },
+            ]);
+            backend({
+                id: 'ann-1',
+                text: 'Node wording',
+                recordingId: null,
+                startOffsetMs: null,
+                endOffsetMs: null,
+                category: null,
+                createdAt: '2026-01-01T00:00:00Z',
+                updatedAt: '2026-01-04T00:00:00Z',
+            });
+
+            const report = await syncService.syncAll();
+
+            expect(mockInvoke).toHaveBeenCalledWith(expect.objectContaining({
+                method: 'GET',
+                path: '/api/ClinicalSession/session-1/annotations/ann-1',
+            }));
+            expect(report.annotations.conflicts).toBe(1);
+            expect(conflictRepo.items.get('conflict-ann-1')?.remoteValues.text).toBe('Node wording');
+        });
+    });
+
+    describe('audit log', () => {
+        it('should upload pending entries in sequence order after the clinical data', async () => {
+            auditRepo.entries.push(makeAuditEntry(1), makeAuditEntry(2));
+            vi.spyOn(sessionRepo, 'getPending').mockResolvedValue([mockSession]);
+
+            const report = await syncService.syncAll();
+
+            const paths = mockInvoke.mock.calls.map(call => (call[0] as { path: string }).path);
+            expect(paths).toEqual(['/api/ClinicalSession/New', '/api/AuditLog/New', '/api/AuditLog/New']);
+            expect(mockInvoke.mock.calls[1][0].payload).toMatchObject({ Sequence: 1, Hash: 'hash-1' });
+            expect(mockInvoke.mock.calls[2][0].payload).toMatchObject({ Sequence: 2, Hash: 'hash-2' });
+            expect(auditRepo.entries.map(e => e.syncStatus)).toEqual(['synced', 'synced']);
+            expect(report.auditLog).toMatchObject({ synced: 2, failed: 0, pending: 0 });
+        });
+
+        it('should hold back later entries when one fails', async () => {
+            auditRepo.entries.push(makeAuditEntry(1), makeAuditEntry(2), makeAuditEntry(3));
+            mockInvoke.mockImplementation((request: { payload: { Sequence: number } }) =>
+                request.payload.Sequence === 2
+                    ? Promise.reject({ status: 503, message: 'Unavailable' })
+                    : Promise.resolve({}));
+            syncService = new SyncService(sessionRepo, recordingRepo, annotationRepo, 2, syncQueueRepo, uploadRepo, conflictRepo, auditRepo);
+
+            const report = await syncService.syncAll();
+
+            expect(mockInvoke).toHaveBeenCalledTimes(2);
+            expect(auditRepo.entries.map(e => e.syncStatus)).toEqual(['synced', 'pending', 'pending']);
+            expect(syncQueueRepo.items.get('audit-2')).toMatchObject({ entityType: 'audit', retryCount: 1 });
+            expect(report.auditLog).toMatchObject({ synced: 1, failed: 0, pending: 2 });
+        });
+    });
+
+    describe('sync queue', () => {
+        beforeEach(() => {
+            syncService = new SyncService(sessionRepo, recordingRepo, annotationRepo, 2, syncQueueRepo, uploadRepo, conflictRepo, auditRepo);
+            vi.spyOn(sessionRepo, 'getPending').mockResolvedValue([mockSession]);
+        });
+
+        it('should persist a transient failure and keep the entity pending', async () => {
+            mockInvoke.mockRejectedValue({ status: 503, message: 'Unavailable' });
+
+            const report = await syncService.syncAll();
+
+            expect(report.sessions).toMatchObject({ synced: 0, failed: 0, pending: 1 });
+            expect(sessionRepo.update).not.toHaveBeenCalledWith('session-1', { syncStatus: 'failed' });
+            const item = syncQueueRepo.items.get('session-1');
+            expect(item).toMatchObject({ entityType: 'session', retryCount: 1, errorReason: '503: Unavailable' });
+            expect(new Date(item!.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now());
+        });
+
+        it('should skip entities still inside their backoff window', async () => {
+            syncQueueRepo.items.set('session-1', {
+                entityType: 'session',
+                entityId: 'session-1',
+                retryCount: 1,
+                lastAttempt: new Date().toISOString(),
+                nextAttemptAt: new Date(Date.now() + 60_000).toISOString(),
+                errorReason: '503: Unavailable',
+            });
+
+            const report = await syncService.syncAll();
+
+            expect(mockInvoke).not.toHaveBeenCalled();
+            expect(report.sessions.pending).toBe(1);
+        });
+
+        it('should stop retrying once maxRetries is used up', async () => {
+            mockInvoke.mockRejectedValue(new Error('Network error'));
+            syncQueueRepo.items.set('session-1', {
+                entityType: 'session',
+                entityId: 'session-1',
+                retryCount: 2,
+                lastAttempt: '2026-01-01T00:00:00Z',
+                nextAttemptAt: '2026-01-01T00:00:30Z',
+                errorReason: 'Network error',
+            });
+
+            const report = await syncService.syncAll();
+
+            expect(report.sessions.failed).toBe(1);
+            expect(sessionRepo.update).toHaveBeenCalledWith('session-1', { syncStatus: 'failed' });
+            expect(syncQueueRepo.items.get('session-1')).toMatchObject({ retryCount: 3, nextAttemptAt: null });
+        });
+
+        it('should stop retrying immediately on a permanent error', async () => {
+            mockInvoke.mockRejectedValue({ status: 400, message: 'Bad Request' });
+
+            await syncService.syncAll();
+
+            expect(syncQueueRepo.items.get('session-1')).toMatchObject({
+                retryCount: 1,
+                nextAttemptAt: null,
+                errorReason: '400: Bad Request',
+            });
+        });
+
+        it('should clear the entry on success and on manual retry', async () => {
+            const failure: SyncQueueItem = {
+                entityType: 'session',
+                entityId: 'session-1',
+                retryCount: 1,
+                lastAttempt: '2026-01-01T00:00:00Z',
+                nextAttemptAt: '2026-01-01T00:00:30Z',
+                errorReason: 'Network error',
+            };
+            syncQueueRepo.items.set('session-1', failure);
+
+            await syncService.syncAll();
+            expect(syncQueueRepo.items.has('session-1')).toBe(false);
+
+            syncQueueRepo.items.set('rec-1', { ...failure, entityType: 'recording', entityId: 'rec-1', nextAttemptAt: null });
+            await syncService.resetEntityRetry('rec-1');
+            expect(syncQueueRepo.items.has('rec-1')).toBe(false);
         });
     });
 });
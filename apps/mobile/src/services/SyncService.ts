@@ -5,43 +5,84 @@
  * Handles sessions, recordings, and annotations with retry logic and status tracking.
  *
  * Features:
- * - Periodic background sync (default: 60s)
- * - Exponential backoff retry with jitter
+ * - Periodic background sync (default: 60s); SyncScheduler adds
+ *   connectivity and battery awareness on top
+ * - Persistent sync queue: exponential backoff with jitter across cycles and
+ *   app restarts; retrying stops after maxRetries or on a permanent error
  * - Concurrent sync prevention via isSyncing mutex
  * - Dependency ordering: sessions -> recordings -> annotations
- * - Two-step recording sync: metadata POST + file upload
+ * - Conflict detection: an edited session or annotation whose backend copy
+ *   changed since the last sync is held back until the conflict is resolved
+ * - Two-step recording sync: metadata POST + resumable chunked file upload,
+ *   verified by SHA-256 before the recording is marked synced
+ * - Audit log upload in chain order, after the clinical data
  *
  * Implements US-MI-005 through US-MI-009, US-MI-019.
  */
 
+import { createHash } from 'crypto';
 import * as FileSystem from 'expo-file-system';
 import { SessionRepository } from '../data/repositories/SessionRepository';
 import { RecordingRepository } from '../data/repositories/RecordingRepository';
 import { AnnotationRepository } from '../data/repositories/AnnotationRepository';
+import { SyncQueueRepository } from '../data/repositories/SyncQueueRepository';
+import { RecordingUploadRepository } from '../data/repositories/RecordingUploadRepository';
+import { SyncConflictRepository } from '../data/repositories/SyncConflictRepository';
+import { AuditLogRepository, auditLogRepository } from '../data/repositories/AuditLogRepository';
 import { middleware } from './middleware';
+import { isChunkedRecording, exportRecordingToCsv } from '../recording';
+import { expoRecordingFileSystem } from '../recording/ExpoRecordingFileSystem';
 import {
     mapToCreateSessionPayload,
     mapToCreateRecordingPayload,
     mapToCreateAnnotationPayload,
-    buildUploadPayload,
+    mapToCreateAuditEntryPayload,
+    buildStartUploadPayload,
+    buildUploadChunkPayload,
 } from './SyncService.mappers';
-import type { SyncReport, SyncEntityReport } from './SyncService.types';
-
-// In-memory retry tracking (V1 — no SQLite migration for retry_count)
-const retryTracker = new Map<string, number>();
-
-function getRetryCount(entityId: string): number {
-    return retryTracker.get(entityId) ?? 0;
-}
-
-function incrementRetry(entityId: string): number {
-    const count = getRetryCount(entityId) + 1;
-    retryTracker.set(entityId, count);
-    return count;
-}
-
-function resetRetry(entityId: string): void {
-    retryTracker.delete(entityId);
+import {
+    sessionConflictValues,
+    remoteSessionConflictValues,
+    annotationConflictValues,
+    remoteAnnotationConflictValues,
+    conflictingFields,
+    resolvedConflictValues,
+    sessionUpdateFromValues,
+    annotationUpdateFromValues,
+} from './SyncService.conflicts';
+import type { ConflictFieldChoice } from './SyncService.conflicts';
+import type {
+    ClinicalSessionResponseDTO,
+    AnnotationResponseDTO,
+    RecordingUploadResponseDTO,
+    UploadChunkResponseDTO,
+    CompleteRecordingUploadResponseDTO,
+} from './SyncService.mappers';
+import type { SyncReport, SyncEntityReport, SyncCycleOptions } from './SyncService.types';
+import type {
+    Annotation,
+    ClinicalSession,
+    Recording,
+    SyncConflict,
+    SyncConflictEntityType,
+    SyncConflictResolution,
+    SyncConflictValues,
+    SyncEntityType,
+    SyncQueueItem,
+} from '@iris/domain';
+
+// Backoff between attempts: min(BASE_DELAY * 2^(retry - 1) + jitter, MAX_DELAY)
+const BASE_DELAY_MS = 30_000;
+const MAX_DELAY_MS = 300_000;
+const MAX_JITTER_MS = 500;
+
+// Recording files are uploaded in pieces of this size
+const UPLOAD_CHUNK_BYTES = 256 * 1024;
+
+type SyncQueueMap = Map<string, SyncQueueItem>;
+
+function queueKey(entityType: SyncEntityType, entityId: string): string {
+    return `${entityType}:${entityId}`;
 }
 
 /**
@@ -57,6 +98,21 @@ function isTransientError(error: unknown): boolean {
     return true;
 }
 
+/**
+ * Sync bookkeeping after a successful push. The backend's updatedAt in the
+ * response becomes the watermark for the next conflict check.
+ */
+function syncedFields(response: unknown): { syncStatus: 'synced'; remoteUpdatedAt?: string } {
+    const updatedAt = (response as { updatedAt?: unknown } | null | undefined)?.updatedAt;
+    return typeof updatedAt === 'string'
+        ? { syncStatus: 'synced', remoteUpdatedAt: updatedAt }
+        : { syncStatus: 'synced' };
+}
+
+function sha256Hex(data: Uint8Array): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
 function extractErrorMessage(error: unknown): string {
     if (error instanceof Error) return error.message;
     if (error && typeof error === 'object' && 'status' in error) {
@@ -75,7 +131,11 @@ export class SyncService {
         private sessionRepo: SessionRepository,
         private recordingRepo: RecordingRepository,
         private annotationRepo: AnnotationRepository,
-        maxRetries: number = 5
+        maxRetries: number = 5,
+        private syncQueueRepo: SyncQueueRepository = new SyncQueueRepository(),
+        private recordingUploadRepo: RecordingUploadRepository = new RecordingUploadRepository(),
+        private syncConflictRepo: SyncConflictRepository = new SyncConflictRepository(),
+        private auditLogRepo: Pick<AuditLogRepository, 'getPending' | 'setSyncStatus'> = auditLogRepository
     ) {
         this.maxRetries = maxRetries;
     }
@@ -117,9 +177,12 @@ export class SyncService {
 
     /**
      * Synchronize all pending data with dependency ordering:
-     * sessions first, then recordings, then annotations.
+     * sessions first, then recordings, then annotations, then the audit log.
+     *
+     * With deferRecordings, pending recordings are left for a later cycle and
+     * reported as deferred.
      */
-    async syncAll(): Promise<SyncReport> {
+    async syncAll(options: SyncCycleOptions = {}): Promise<SyncReport> {
         if (this.isSyncing) {
             console.log('[SyncService] Sync already in progress, skipping');
             return this.emptyReport();
@@ -129,14 +192,20 @@ export class SyncService {
         console.log('[SyncService] Starting sync cycle...');
 
         try {
-            const sessionResult = await this.syncSessions();
-            const recordingResult = await this.syncRecordings();
-            const annotationResult = await this.syncAnnotations();
+            const queue = await this.loadQueue();
+            const conflicted = await this.loadConflicted();
+            const sessionResult = await this.syncSessions(queue, conflicted);
+            const recordingResult = options.deferRecordings
+                ? await this.reportDeferredRecordings()
+                : await this.syncRecordings(queue);
+            const annotationResult = await this.syncAnnotations(queue, conflicted);
+            const auditLogResult = await this.syncAuditLog(queue);
 
             const report: SyncReport = {
                 sessions: sessionResult,
                 recordings: recordingResult,
                 annotations: annotationResult,
+                auditLog: auditLogResult,
                 timestamp: new Date().toISOString()
             };
 
@@ -153,8 +222,9 @@ export class SyncService {
     /**
      * Synchronize pending sessions via POST /api/ClinicalSession/New.
      * The backend performs upsert on client-generated UUID (idempotent).
+     * Sessions synced before are checked for conflicts first.
      */
-    private async syncSessions(): Promise<SyncEntityReport> {
+    private async syncSessions(queue: SyncQueueMap, conflicted: Set<string>): Promise<SyncEntityReport> {
         const pending = await this.sessionRepo.getPending();
 
         if (pending.length === 0) {
@@ -165,9 +235,17 @@ export class SyncService {
 
         let synced = 0;
         let failed = 0;
+        let conflicts = 0;
         const errorDetails: Array<{ entityId: string; error: string }> = [];
 
         for (const session of pending) {
+            if (!this.isDue(queue, 'session', session.id)) {
+                continue;
+            }
+            if (conflicted.has(queueKey('session', session.id))) {
+                conflicts++;
+                continue;
+            }
             try {
                 const clinicalData = await this.sessionRepo.getClinicalData(session.id);
                 if (!clinicalData) {
@@ -175,43 +253,138 @@ export class SyncService {
                     continue;
                 }
 
+                if (await this.detectSessionConflict(session)) {
+                    conflicts++;
+                    continue;
+                }
+
                 const payload = mapToCreateSessionPayload(session, clinicalData);
 
-                await this.retryWithBackoff(
-                    () => middleware.invoke<Record<string, unknown>, unknown>({
-                        method: 'POST',
-                        path: '/api/ClinicalSession/New',
-                        payload: { ...payload },
-                    }),
-                    session.id,
-                    'session'
-                );
+                const response = await middleware.invoke<Record<string, unknown>, unknown>({
+                    method: 'POST',
+                    path: '/api/ClinicalSession/New',
+                    payload: { ...payload },
+                });
 
-                await this.sessionRepo.update(session.id, { syncStatus: 'synced' });
-                resetRetry(session.id);
+                await this.sessionRepo.update(session.id, syncedFields(response));
+                await this.clearFailure(queue, 'session', session.id);
                 synced++;
                 console.log(`[SyncService] Session synced: ${session.id}`);
             } catch (error) {
-                failed++;
                 const errorMsg = extractErrorMessage(error);
                 errorDetails.push({ entityId: session.id, error: errorMsg });
-                await this.sessionRepo.update(session.id, { syncStatus: 'failed' });
-                console.error(`[SyncService] Session sync failed: ${session.id}`, errorMsg);
+                if (await this.recordFailure(queue, 'session', session.id, error)) {
+                    failed++;
+                    await this.sessionRepo.update(session.id, { syncStatus: 'failed' });
+                    console.error(`[SyncService] Session sync failed: ${session.id}`, errorMsg);
+                }
+            }
+        }
+
+        return this.entityReport(pending.length, synced, failed, conflicts, errorDetails);
+    }
+
+    /**
+     * Upload body for a local recording file. Chunked binary recordings are
+     * exported to CSV here; legacy CSV files are sent as they are.
+     * Returns null when the file no longer exists.
+     */
+    private async readRecordingUpload(filePath: string): Promise<Buffer | null> {
+        const fileInfo = await FileSystem.getInfoAsync(filePath);
+        if (!fileInfo.exists) {
+            return null;
+        }
+
+        if (isChunkedRecording(filePath)) {
+            return Buffer.from(await exportRecordingToCsv(expoRecordingFileSystem, filePath), 'utf8');
+        }
+
+        // Decrypted: the node receives (and verifies) the plaintext file
+        return Buffer.from(await expoRecordingFileSystem.readBytes(filePath));
+    }
+
+    /**
+     * Upload a recording file in chunks and return its blob URL:
+     * 1. POST /api/Upload/recording/Start (resumes a previous upload if the
+     *    file is unchanged; the backend reports how much it already holds)
+     * 2. POST /api/Upload/recording/{uploadId}/Chunk from that offset on,
+     *    persisting every acknowledged offset
+     * 3. POST /api/Upload/recording/{uploadId}/Complete, whose SHA-256 must
+     *    match the local file
+     *
+     * A failed cycle leaves the acknowledged offset in recording_uploads for
+     * the next attempt. A digest mismatch discards it so the file is sent again.
+     */
+    private async uploadRecordingFile(recording: Recording, body: Buffer): Promise<string> {
+        const sha256 = sha256Hex(body);
+        const previous = await this.recordingUploadRepo.get(recording.id);
+        const resumable = previous !== null && previous.sha256 === sha256 && previous.sizeBytes === body.length
+            ? previous
+            : null;
+        const chunkSizeBytes = resumable?.chunkSizeBytes ?? UPLOAD_CHUNK_BYTES;
+
+        const started = await middleware.invoke<Record<string, unknown>, RecordingUploadResponseDTO>({
+            method: 'POST',
+            path: '/api/Upload/recording/Start',
+            payload: {
+                ...buildStartUploadPayload(
+                    recording,
+                    { sha256, sizeBytes: body.length, chunkSizeBytes },
+                    resumable?.uploadId ?? null
+                ),
+            },
+        });
+
+        let offset = started.receivedBytes;
+        if (offset > 0) {
+            console.log(`[SyncService] Resuming upload of ${recording.id} at ${offset}/${body.length} bytes`);
+        }
+        await this.recordingUploadRepo.save({
+            recordingId: recording.id,
+            uploadId: started.uploadId,
+            sha256,
+            sizeBytes: body.length,
+            chunkSizeBytes,
+            acknowledgedBytes: offset,
+            updatedAt: new Date().toISOString(),
+        });
+
+        while (offset < body.length) {
+            const chunk = body.subarray(offset, offset + chunkSizeBytes);
+            const ack = await middleware.invoke<Record<string, unknown>, UploadChunkResponseDTO>({
+                method: 'POST',
+                path: `/api/Upload/recording/${started.uploadId}/Chunk`,
+                payload: { ...buildUploadChunkPayload(offset, chunk, sha256Hex(chunk)) },
+            });
+            if (ack.receivedBytes <= offset || ack.receivedBytes > body.length) {
+                throw new Error(`Upload of ${recording.id} stalled at ${offset}/${body.length} bytes`);
             }
+            offset = ack.receivedBytes;
+            await this.recordingUploadRepo.updateAcknowledged(recording.id, offset);
         }
 
-        const remainingPending = pending.length - synced - failed;
-        return { synced, failed, pending: remainingPending, errorDetails: errorDetails.length > 0 ? errorDetails : undefined };
+        const completed = await middleware.invoke<Record<string, unknown>, CompleteRecordingUploadResponseDTO>({
+            method: 'POST',
+            path: `/api/Upload/recording/${started.uploadId}/Complete`,
+            payload: { Sha256: sha256 },
+        });
+
+        // Whatever happens next, this upload session is finished with
+        await this.recordingUploadRepo.remove(recording.id);
+        if (completed.sha256?.toLowerCase() !== sha256) {
+            throw new Error(`Upload integrity check failed for ${recording.id}: expected ${sha256}, got ${completed.sha256}`);
+        }
+        return completed.fileUrl;
     }
 
     /**
      * Synchronize pending recordings via two-step process:
      * 1. POST /api/ClinicalSession/{sid}/recordings/New (metadata)
-     * 2. POST /api/Upload/recording (base64 file upload)
+     * 2. Chunked file upload (see uploadRecordingFile)
      *
      * Only processes recordings whose parent session is already synced.
      */
-    private async syncRecordings(): Promise<SyncEntityReport> {
+    private async syncRecordings(queue: SyncQueueMap): Promise<SyncEntityReport> {
         const pending = await this.recordingRepo.getPendingWithSyncedParent();
 
         if (pending.length === 0) {
@@ -225,86 +398,76 @@ export class SyncService {
         const errorDetails: Array<{ entityId: string; error: string }> = [];
 
         for (const recording of pending) {
+            if (!this.isDue(queue, 'recording', recording.id)) {
+                continue;
+            }
             try {
                 const clinicalData = await this.sessionRepo.getClinicalData(recording.sessionId);
-                const sensorId = clinicalData?.sensorIds?.[0] ?? null;
-
-                await this.retryWithBackoff(
-                    async () => {
-                        // Step 1: Create recording metadata
-                        const recPayload = mapToCreateRecordingPayload(recording, sensorId);
-                        await middleware.invoke<Record<string, unknown>, unknown>({
-                            method: 'POST',
-                            path: `/api/ClinicalSession/${recording.sessionId}/recordings/New`,
-                            payload: { ...recPayload },
-                        });
-
-                        // Step 2: Upload file if a local file path exists
-                        if (recording.filePath) {
-                            const fileInfo = await FileSystem.getInfoAsync(recording.filePath);
-                            if (fileInfo.exists && 'size' in fileInfo) {
-                                const base64Content = await FileSystem.readAsStringAsync(
-                                    recording.filePath,
-                                    { encoding: FileSystem.EncodingType.Base64 }
-                                );
-                                const uploadPayload = buildUploadPayload(
-                                    recording,
-                                    recording.sessionId,
-                                    base64Content,
-                                    fileInfo.size
-                                );
-                                const uploadResponse = await middleware.invoke<Record<string, unknown>, { fileUrl?: string }>({
-                                    method: 'POST',
-                                    path: '/api/Upload/recording',
-                                    payload: { ...uploadPayload },
-                                });
-
-                                // Persist blob URL first, then delete local file, then clear local path.
-                                // This ordering guarantees at least one source survives a crash.
-                                if (uploadResponse.fileUrl) {
-                                    await this.recordingRepo.update(recording.id, {
-                                        blobUrl: uploadResponse.fileUrl,
-                                    });
-                                    if (recording.filePath) {
-                                        try {
-                                            await FileSystem.deleteAsync(recording.filePath, { idempotent: true });
-                                        } catch {
-                                            // Non-fatal: local cleanup failure does not block sync
-                                        }
-                                    }
-                                    await this.recordingRepo.update(recording.id, {
-                                        filePath: undefined,  // Clear local path (maps to NULL in DB)
-                                    });
-                                }
-                            }
+                const sensorId = recording.channelSensorIds?.[0] ?? clinicalData?.sensorIds?.[0] ?? null;
+
+                // Step 1: Create recording metadata
+                const recPayload = mapToCreateRecordingPayload(recording, sensorId);
+                await middleware.invoke<Record<string, unknown>, unknown>({
+                    method: 'POST',
+                    path: `/api/ClinicalSession/${recording.sessionId}/recordings/New`,
+                    payload: { ...recPayload },
+                });
+
+                // Step 2: Upload file if a local file path exists
+                if (recording.filePath) {
+                    const body = await this.readRecordingUpload(recording.filePath);
+                    if (body) {
+                        const fileUrl = await this.uploadRecordingFile(recording, body);
+
+                        // The local file stays until the retention policy purges it
+                        // (see RetentionJob), which only happens once blobUrl is set.
+                        if (fileUrl) {
+                            await this.recordingRepo.update(recording.id, {
+                                blobUrl: fileUrl,
+                            });
                         }
-                    },
-                    recording.id,
-                    'recording'
-                );
+                    }
+                }
 
                 await this.recordingRepo.update(recording.id, { syncStatus: 'synced' });
-                resetRetry(recording.id);
+                await this.clearFailure(queue, 'recording', recording.id);
                 synced++;
                 console.log(`[SyncService] Recording synced: ${recording.id}`);
             } catch (error) {
-                failed++;
                 const errorMsg = extractErrorMessage(error);
                 errorDetails.push({ entityId: recording.id, error: errorMsg });
-                await this.recordingRepo.update(recording.id, { syncStatus: 'failed' });
-                console.error(`[SyncService] Recording sync failed: ${recording.id}`, errorMsg);
+                if (await this.recordFailure(queue, 'recording', recording.id, error)) {
+                    failed++;
+                    await this.recordingRepo.update(recording.id, { syncStatus: 'failed' });
+                    console.error(`[SyncService] Recording sync failed: ${recording.id}`, errorMsg);
+                }
             }
         }
 
-        const remainingPending = pending.length - synced - failed;
-        return { synced, failed, pending: remainingPending, errorDetails: errorDetails.length > 0 ? errorDetails : undefined };
+        return this.entityReport(pending.length, synced, failed, 0, errorDetails);
+    }
+
+    /**
+     * Report pending recordings as deferred without uploading them.
+     */
+    private async reportDeferredRecordings(): Promise<SyncEntityReport> {
+        const pending = await this.recordingRepo.getPendingWithSyncedParent();
+
+        if (pending.length === 0) {
+            return { synced: 0, failed: 0, pending: 0 };
+        }
+
+        console.log(`[SyncService] Deferring ${pending.length} pending recordings`);
+        return { synced: 0, failed: 0, pending: pending.length, deferred: pending.length };
     }
 
     /**
      * Synchronize pending annotations via POST /api/ClinicalSession/{sid}/annotations/New.
-     * Only processes annotations whose parent session is already synced (client-side filter).
+     * Only processes annotations whose parent session is already synced (client-side filter);
+     * annotations anchored to a recording also wait for that recording.
+     * Annotations synced before are checked for conflicts first.
      */
-    private async syncAnnotations(): Promise<SyncEntityReport> {
+    private async syncAnnotations(queue: SyncQueueMap, conflicted: Set<string>): Promise<SyncEntityReport> {
         const allPending = await this.annotationRepo.getPending();
 
         if (allPending.length === 0) {
@@ -322,7 +485,26 @@ export class SyncService {
             }
         }
 
-        const pending = allPending.filter(a => syncedSessionIds.has(a.sessionId));
+        // Anchored annotations reference their recording, so it must exist on the backend first.
+        // One whose recording was deleted goes out as a session-level annotation.
+        const syncedRecordingIds = new Set<string>();
+        const deletedRecordingIds = new Set<string>();
+        for (const annotation of allPending) {
+            const recordingId = annotation.recordingId;
+            if (recordingId && !syncedRecordingIds.has(recordingId) && !deletedRecordingIds.has(recordingId)) {
+                const recording = await this.recordingRepo.getById(recordingId);
+                if (!recording) {
+                    deletedRecordingIds.add(recordingId);
+                } else if (recording.syncStatus === 'synced') {
+                    syncedRecordingIds.add(recordingId);
+                }
+            }
+        }
+
+        const pending = allPending.filter(a =>
+            syncedSessionIds.has(a.sessionId) &&
+            (!a.recordingId || syncedRecordingIds.has(a.recordingId) || deletedRecordingIds.has(a.recordingId))
+        );
 
         if (pending.length === 0) {
             return { synced: 0, failed: 0, pending: allPending.length };
@@ -332,86 +514,326 @@ export class SyncService {
 
         let synced = 0;
         let failed = 0;
+        let conflicts = 0;
         const errorDetails: Array<{ entityId: string; error: string }> = [];
 
         for (const annotation of pending) {
+            if (!this.isDue(queue, 'annotation', annotation.id)) {
+                continue;
+            }
+            if (conflicted.has(queueKey('annotation', annotation.id))) {
+                conflicts++;
+                continue;
+            }
             try {
-                const payload = mapToCreateAnnotationPayload(annotation);
-
-                await this.retryWithBackoff(
-                    () => middleware.invoke<Record<string, unknown>, unknown>({
-                        method: 'POST',
-                        path: `/api/ClinicalSession/${annotation.sessionId}/annotations/New`,
-                        payload: { ...payload },
-                    }),
-                    annotation.id,
-                    'annotation'
+                if (await this.detectAnnotationConflict(annotation)) {
+                    conflicts++;
+                    continue;
+                }
+
+                const payload = mapToCreateAnnotationPayload(
+                    annotation.recordingId && deletedRecordingIds.has(annotation.recordingId)
+                        ? { ...annotation, recordingId: undefined, startOffsetMs: undefined, endOffsetMs: undefined }
+                        : annotation
                 );
 
-                await this.annotationRepo.update(annotation.id, { syncStatus: 'synced' });
-                resetRetry(annotation.id);
+                const response = await middleware.invoke<Record<string, unknown>, unknown>({
+                    method: 'POST',
+                    path: `/api/ClinicalSession/${annotation.sessionId}/annotations/New`,
+                    payload: { ...payload },
+                });
+
+                await this.annotationRepo.update(annotation.id, syncedFields(response));
+                await this.clearFailure(queue, 'annotation', annotation.id);
                 synced++;
                 console.log(`[SyncService] Annotation synced: ${annotation.id}`);
             } catch (error) {
-                failed++;
                 const errorMsg = extractErrorMessage(error);
                 errorDetails.push({ entityId: annotation.id, error: errorMsg });
-                await this.annotationRepo.update(annotation.id, { syncStatus: 'failed' });
-                console.error(`[SyncService] Annotation sync failed: ${annotation.id}`, errorMsg);
+                if (await this.recordFailure(queue, 'annotation', annotation.id, error)) {
+                    failed++;
+                    await this.annotationRepo.update(annotation.id, { syncStatus: 'failed' });
+                    console.error(`[SyncService] Annotation sync failed: ${annotation.id}`, errorMsg);
+                }
             }
         }
 
-        const remainingPending = allPending.length - synced - failed;
-        return { synced, failed, pending: remainingPending, errorDetails: errorDetails.length > 0 ? errorDetails : undefined };
+        return this.entityReport(allPending.length, synced, failed, conflicts, errorDetails);
     }
 
     /**
-     * Exponential backoff retry with jitter.
-     * Formula: min(1000 * 2^attempt + jitter, 300000ms)
-     * Permanent errors (4xx) fail immediately without retrying.
+     * Upload pending audit entries via POST /api/AuditLog/New, in sequence
+     * order. The node verifies the hash chain as entries arrive, so the
+     * first entry that fails (or is waiting out its backoff) holds back
+     * every entry after it.
      */
-    private async retryWithBackoff<T>(
-        fn: () => Promise<T>,
-        entityId: string,
-        entityType: string
-    ): Promise<T> {
-        const BASE_DELAY = 1000;
-        const MAX_DELAY = 300_000;
-        const MAX_JITTER = 500;
+    private async syncAuditLog(queue: SyncQueueMap): Promise<SyncEntityReport> {
+        const pending = await this.auditLogRepo.getPending();
 
-        let lastError: unknown;
+        if (pending.length === 0) {
+            return { synced: 0, failed: 0, pending: 0 };
+        }
+
+        console.log(`[SyncService] Syncing ${pending.length} pending audit entries`);
+
+        let synced = 0;
+        let failed = 0;
+        const errorDetails: Array<{ entityId: string; error: string }> = [];
 
-        for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+        for (const entry of pending) {
+            if (!this.isDue(queue, 'audit', entry.id)) {
+                break;
+            }
             try {
-                return await fn();
+                await middleware.invoke<Record<string, unknown>, unknown>({
+                    method: 'POST',
+                    path: '/api/AuditLog/New',
+                    payload: { ...mapToCreateAuditEntryPayload(entry) },
+                });
+
+                await this.auditLogRepo.setSyncStatus(entry.id, 'synced');
+                await this.clearFailure(queue, 'audit', entry.id);
+                synced++;
             } catch (error) {
-                lastError = error;
-
-                // Permanent error — no retry
-                if (!isTransientError(error)) {
-                    console.error(`[SyncService] Permanent error for ${entityType} ${entityId}:`, error);
-                    throw error;
+                const errorMsg = extractErrorMessage(error);
+                errorDetails.push({ entityId: entry.id, error: errorMsg });
+                if (await this.recordFailure(queue, 'audit', entry.id, error)) {
+                    failed++;
+                    await this.auditLogRepo.setSyncStatus(entry.id, 'failed');
+                    console.error(`[SyncService] Audit entry sync failed: #${entry.sequence}`, errorMsg);
                 }
+                break;
+            }
+        }
 
-                const currentRetry = incrementRetry(entityId);
+        return this.entityReport(pending.length, synced, failed, 0, errorDetails);
+    }
 
-                if (attempt < this.maxRetries) {
-                    const jitter = Math.random() * MAX_JITTER;
-                    const delay = Math.min(BASE_DELAY * Math.pow(2, attempt) + jitter, MAX_DELAY);
-                    console.log(`[SyncService] Retrying ${entityType} ${entityId} (attempt ${currentRetry}/${this.maxRetries}, delay ${Math.round(delay)}ms)`);
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                }
+    private entityReport(
+        total: number,
+        synced: number,
+        failed: number,
+        conflicts: number,
+        errorDetails: Array<{ entityId: string; error: string }>
+    ): SyncEntityReport {
+        return {
+            synced,
+            failed,
+            pending: total - synced - failed,
+            conflicts: conflicts > 0 ? conflicts : undefined,
+            errorDetails: errorDetails.length > 0 ? errorDetails : undefined,
+        };
+    }
+
+    // ── Conflicts ────────────────────────────────────────────────────────
+
+    /**
+     * Keys of entities with an unresolved conflict; they are not pushed.
+     */
+    private async loadConflicted(): Promise<Set<string>> {
+        const conflicts = await this.syncConflictRepo.getOpen();
+        return new Set(conflicts.map(conflict => queueKey(conflict.entityType, conflict.entityId)));
+    }
+
+    /**
+     * Backend copy of an entity, or null when the backend does not have it.
+     */
+    private async fetchRemote<T>(path: string): Promise<T | null> {
+        try {
+            return await middleware.invoke<Record<string, unknown>, T>({ method: 'GET', path, payload: {} });
+        } catch (error) {
+            if (error && typeof error === 'object' && 'status' in error && (error as { status: number }).status === 404) {
+                return null;
             }
+            throw error;
+        }
+    }
+
+    /**
+     * Before pushing a session that was synced before, check whether its
+     * backend copy changed since then. Returns true (and records a conflict)
+     * when it did and the compared fields differ.
+     */
+    private async detectSessionConflict(session: ClinicalSession): Promise<boolean> {
+        if (!session.remoteUpdatedAt) {
+            return false;
+        }
+        const remote = await this.fetchRemote<ClinicalSessionResponseDTO>(`/api/ClinicalSession/${session.id}`);
+        if (!remote || remote.updatedAt === session.remoteUpdatedAt) {
+            return false;
+        }
+        return this.recordConflict(
+            'session',
+            session.id,
+            session.id,
+            sessionConflictValues(session),
+            remoteSessionConflictValues(remote),
+            remote.updatedAt
+        );
+    }
+
+    /**
+     * Annotation counterpart of detectSessionConflict.
+     */
+    private async detectAnnotationConflict(annotation: Annotation): Promise<boolean> {
+        if (!annotation.remoteUpdatedAt) {
+            return false;
+        }
+        const remote = await this.fetchRemote<AnnotationResponseDTO>(
+            `/api/ClinicalSession/${annotation.sessionId}/annotations/${annotation.id}`
+        );
+        if (!remote || remote.updatedAt === annotation.remoteUpdatedAt) {
+            return false;
+        }
+        return this.recordConflict(
+            'annotation',
+            annotation.id,
+            annotation.sessionId,
+            annotationConflictValues(annotation),
+            remoteAnnotationConflictValues(remote),
+            remote.updatedAt
+        );
+    }
+
+    private async recordConflict(
+        entityType: SyncConflictEntityType,
+        entityId: string,
+        sessionId: string,
+        localValues: SyncConflictValues,
+        remoteValues: SyncConflictValues,
+        remoteUpdatedAt: string
+    ): Promise<boolean> {
+        const fields = conflictingFields(localValues, remoteValues);
+        if (fields.length === 0) {
+            // Changed on the backend, but to the same values: safe to push
+            return false;
         }
+        await this.syncConflictRepo.upsertOpen({
+            entityType,
+            entityId,
+            sessionId,
+            localValues,
+            remoteValues,
+            remoteUpdatedAt,
+        });
+        console.warn(`[SyncService] Sync conflict on ${entityType} ${entityId}: ${fields.join(', ')}`);
+        return true;
+    }
 
-        throw lastError;
+    /**
+     * Unresolved sync conflicts, oldest first.
+     */
+    async getConflicts(): Promise<SyncConflict[]> {
+        return this.syncConflictRepo.getOpen();
+    }
+
+    /**
+     * Resolve a conflict by keeping the local values, the backend's, or a
+     * per-field merge (`choices`; fields without a choice keep the local
+     * value). Local and merged values are pushed on the next cycle; the
+     * backend copy they replace becomes the new watermark, so the push is
+     * not reported as a conflict again.
+     */
+    async resolveConflict(
+        conflictId: string,
+        resolution: SyncConflictResolution,
+        choices: Record<string, ConflictFieldChoice> = {}
+    ): Promise<void> {
+        const conflict = await this.syncConflictRepo.getById(conflictId);
+        if (!conflict || conflict.resolvedAt) {
+            throw new Error(`No open sync conflict: ${conflictId}`);
+        }
+
+        const values = resolvedConflictValues(conflict, resolution, choices);
+        const bookkeeping = {
+            syncStatus: resolution === 'remote' ? 'synced' : 'pending',
+            remoteUpdatedAt: conflict.remoteUpdatedAt,
+        } as const;
+
+        if (conflict.entityType === 'session') {
+            await this.sessionRepo.update(conflict.entityId, { ...sessionUpdateFromValues(values), ...bookkeeping });
+        } else {
+            await this.annotationRepo.update(conflict.entityId, { ...annotationUpdateFromValues(values), ...bookkeeping });
+        }
+        await this.syncConflictRepo.resolve(conflict.id, resolution);
+        console.log(`[SyncService] Sync conflict on ${conflict.entityType} ${conflict.entityId} resolved: ${resolution}`);
+    }
+
+    /**
+     * Load the persisted retry state for this cycle.
+     */
+    private async loadQueue(): Promise<SyncQueueMap> {
+        const items = await this.syncQueueRepo.getAll();
+        return new Map(items.map(item => [queueKey(item.entityType, item.entityId), item]));
+    }
+
+    /**
+     * Whether an entity may be attempted now: never failed, or its backoff
+     * has elapsed. Entities whose retrying has stopped are never due; they
+     * are also marked failed, so only a manual retry brings them back.
+     */
+    private isDue(queue: SyncQueueMap, entityType: SyncEntityType, entityId: string): boolean {
+        const item = queue.get(queueKey(entityType, entityId));
+        if (!item) return true;
+        if (item.nextAttemptAt === null) return false;
+        return new Date(item.nextAttemptAt).getTime() <= Date.now();
+    }
+
+    /**
+     * Persist a failed attempt and schedule the next one.
+     * Returns true when retrying stops: a permanent (4xx) error, or
+     * maxRetries retries used up.
+     */
+    private async recordFailure(
+        queue: SyncQueueMap,
+        entityType: SyncEntityType,
+        entityId: string,
+        error: unknown
+    ): Promise<boolean> {
+        const retryCount = (queue.get(queueKey(entityType, entityId))?.retryCount ?? 0) + 1;
+        const exhausted = !isTransientError(error) || retryCount > this.maxRetries;
+        const now = Date.now();
+
+        let nextAttemptAt: string | null = null;
+        if (!exhausted) {
+            const delay = Math.min(BASE_DELAY_MS * Math.pow(2, retryCount - 1) + Math.random() * MAX_JITTER_MS, MAX_DELAY_MS);
+            nextAttemptAt = new Date(now + delay).toISOString();
+            console.log(`[SyncService] Will retry ${entityType} ${entityId} (attempt ${retryCount}/${this.maxRetries}, delay ${Math.round(delay)}ms)`);
+        } else if (!isTransientError(error)) {
+            console.error(`[SyncService] Permanent error for ${entityType} ${entityId}:`, error);
+        }
+
+        const item: SyncQueueItem = {
+            entityType,
+            entityId,
+            retryCount,
+            lastAttempt: new Date(now).toISOString(),
+            nextAttemptAt,
+            errorReason: extractErrorMessage(error),
+        };
+        queue.set(queueKey(entityType, entityId), item);
+        await this.syncQueueRepo.upsert(item);
+        return exhausted;
+    }
+
+    private async clearFailure(queue: SyncQueueMap, entityType: SyncEntityType, entityId: string): Promise<void> {
+        if (queue.delete(queueKey(entityType, entityId))) {
+            await this.syncQueueRepo.remove(entityType, entityId);
+        }
     }
 
     /**
      * Reset retry state for a specific entity (used by retry button).
      */
-    resetEntityRetry(entityId: string): void {
-        resetRetry(entityId);
+    async resetEntityRetry(entityId: string): Promise<void> {
+        await this.syncQueueRepo.removeEntity(entityId);
+    }
+
+    /**
+     * Current retry state of every entity that has failed to sync.
+     */
+    async getSyncQueue(): Promise<SyncQueueItem[]> {
+        return this.syncQueueRepo.getAll();
     }
 
     private emptyReport(): SyncReport {
@@ -419,6 +841,7 @@ export class SyncService {
             sessions: { synced: 0, failed: 0, pending: 0 },
             recordings: { synced: 0, failed: 0, pending: 0 },
             annotations: { synced: 0, failed: 0, pending: 0 },
+            auditLog: { synced: 0, failed: 0, pending: 0 },
             timestamp: new Date().toISOString()
         };
     }
@@ -13,6 +13,7 @@ export interface SyncReport {
     sessions: SyncEntityReport;
     recordings: SyncEntityReport;
     annotations: SyncEntityReport;
+    auditLog: SyncEntityReport;
     timestamp: string;
 }
 
@@ -25,6 +26,8 @@ export interface SyncEntityReport {
     synced: number;
     failed: number;
     pending: number;
+    conflicts?: number;     // Held back by an unresolved sync conflict (counted in pending)
+    deferred?: number;      // Recordings held back by the upload policy (counted in pending)
     errorDetails?: Array<{ entityId: string; error: string }>;
 }
 
@@ -39,6 +42,59 @@ export interface SyncOptions {
     enabled?: boolean;
 }
 
+/**
+ * Sync Cycle Options
+ *
+ * Per-cycle overrides decided by the scheduler.
+ */
+export interface SyncCycleOptions {
+    deferRecordings?: boolean;
+}
+
+/**
+ * Recording Upload Policy
+ *
+ * When recording files may be uploaded. Sessions and annotations are small
+ * and always sync while online.
+ */
+export type RecordingUploadPolicy = 'any' | 'unmetered' | 'charging' | 'unmetered_or_charging';
+
+/**
+ * Sync Conditions
+ *
+ * Device state the scheduler bases its decisions on.
+ */
+export interface SyncConditions {
+    isOnline: boolean;
+    isUnmetered: boolean;   // Wi-Fi or Ethernet not flagged as expensive
+    isCharging: boolean;
+}
+
+/**
+ * Sync Conditions Monitor
+ *
+ * Source of the current sync conditions and their changes.
+ */
+export interface SyncConditionsMonitor {
+    current(): Promise<SyncConditions>;
+    subscribe(listener: (conditions: SyncConditions) => void): () => void;
+}
+
+/**
+ * Sync Schedule State
+ *
+ * What the scheduler decided last and why, for display.
+ */
+export interface SyncScheduleState {
+    conditions: SyncConditions | null;
+    policy: RecordingUploadPolicy;
+    paused: boolean;                // Offline: no sync cycles run
+    recordingUploadsAllowed: boolean;
+    deferredRecordings: number;     // Recordings held back in the last cycle
+    reason: string | null;          // Why data is not uploading, if it is not
+    lastSyncAt: string | null;
+}
+
 /**
  * Sync Status Event
  *
@@ -5,8 +5,20 @@
  */
 
 export { SyncService } from './SyncService';
-export type { SyncReport, SyncEntityReport, SyncOptions, SyncStatusEvent } from './SyncService.types';
+export { SyncScheduler, decideSync } from './SyncScheduler';
+export { DeviceSyncConditions } from './DeviceSyncConditions';
+export type {
+    SyncReport,
+    SyncEntityReport,
+    SyncOptions,
+    SyncStatusEvent,
+    RecordingUploadPolicy,
+    SyncConditions,
+    SyncScheduleState,
+} from './SyncService.types';
 export { volunteerService } from './VolunteerService';
 export { snomedService } from './SnomedService';
 export { preferencesService } from './PreferencesService';
 export { researchService } from './ResearchService';
+export { dataProtectionService } from './DataProtectionService';
+export { backupService } from './BackupService';
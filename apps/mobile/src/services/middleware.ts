@@ -8,6 +8,7 @@
  * - Secure storage (Expo SecureStore)
  * - Channel and Session management
  * - User authentication service
+ * - Invoke interceptors (correlation ids, retry on 401, redacted logging)
  * - Real certificate loading and RSA-SHA256 signing (via node-forge)
  */
 
@@ -17,6 +18,9 @@ import {
     SessionManager,
     FetchHttpClient,
     UserAuthService,
+    createCorrelationIdInterceptor,
+    createRetryInterceptor,
+    createLoggingInterceptor,
     type ResearchNodeCertificateConfig,
     type ChallengeSignatureContext
 } from '@iris/middleware';
@@ -172,6 +176,14 @@ function initializeMiddleware() {
         nodeId: CERTIFICATE_CONFIG.subjectName,
         signChallenge,
 
+        // Request bodies reach the log only in dev builds, with PII redacted
+        interceptors: [
+            createCorrelationIdInterceptor(),
+            createLoggingInterceptor({ logBodies: __DEV__ }),
+            // Declared below; only called once a request has been rejected
+            createRetryInterceptor({ recover: (): Promise<unknown> => authService.refreshToken() })
+        ],
+
         onChannelPersist: async (channel) => {
             if (channel) {
                 await storage.setItem('channel', channel);
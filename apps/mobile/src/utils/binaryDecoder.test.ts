@@ -0,0 +1,142 @@
+/**
+ * Binary Decoder Tests
+ *
+ * Timestamp continuity checks in BinaryFrameAccumulator: gaps, uint32
+ * wraparound, duplicates and clock restarts. Demultiplexing of
+ * multi-channel frames.
+ *
+ * Run with: npx vitest run src/utils/binaryDecoder.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BinaryFrameAccumulator } from './binaryDecoder';
+import { encodeBinaryFrame, encodeMultiChannelFrame } from '@/device/emulator';
+
+const SAMPLES = new Array(50).fill(0);
+
+function concat(frames: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(frames.reduce((sum, f) => sum + f.length, 0));
+    let offset = 0;
+    for (const frame of frames) {
+        bytes.set(frame, offset);
+        offset += frame.length;
+    }
+    return bytes;
+}
+
+/** Channel c holds c * 1000 + sample index, so every sample is identifiable. */
+function makeChannels(count: number): number[][] {
+    return Array.from({ length: count }, (_, c) => Array.from({ length: 50 }, (_, i) => c * 1000 + i));
+}
+
+function feedTimestamps(accumulator: BinaryFrameAccumulator, timestamps: number[]) {
+    return accumulator.feed(concat(timestamps.map(ts => encodeBinaryFrame(ts, SAMPLES))));
+}
+
+describe('BinaryFrameAccumulator signal integrity', () => {
+    let accumulator: BinaryFrameAccumulator;
+
+    beforeEach(() => {
+        accumulator = new BinaryFrameAccumulator();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('accepts millis() jitter around the 232 ms interval', () => {
+        feedTimestamps(accumulator, [1000, 1232, 1465, 1698, 1930]);
+
+        expect(accumulator.getSignalIntegrity()).toEqual({ gapCount: 0, missingSamples: 0, longestGapMs: 0, duplicatePackets: 0 });
+    });
+
+    it('counts gaps, missing samples and the longest gap', () => {
+        // One packet lost after 1232, three after 1930
+        feedTimestamps(accumulator, [1000, 1232, 1698, 1930, 2860]);
+
+        expect(accumulator.getSignalIntegrity()).toEqual({
+            gapCount: 2,
+            missingSamples: 200,
+            longestGapMs: 697,
+            duplicatePackets: 0,
+        });
+    });
+
+    it('treats a uint32 rollover as a normal step', () => {
+        const packets = feedTimestamps(accumulator, [0xffffff00, 0xffffffe8, 209]);
+
+        expect(packets).toHaveLength(3);
+        expect(accumulator.getStats()).toMatchObject({ wraps: 1, gapCount: 0 });
+    });
+
+    it('drops duplicated packets', () => {
+        const packets = feedTimestamps(accumulator, [1000, 1232, 1232, 1465]);
+
+        expect(packets.map(p => p.timestamp)).toEqual([1000, 1232, 1465]);
+        expect(accumulator.getStats()).toMatchObject({ received: 4, duplicatePackets: 1, gapCount: 0 });
+    });
+
+    it('re-baselines when the device clock restarts', () => {
+        feedTimestamps(accumulator, [500000, 500232, 10, 242]);
+
+        expect(accumulator.getSignalIntegrity().gapCount).toBe(0);
+    });
+
+    it('keeps the last timestamp across resetSignalIntegrity()', () => {
+        feedTimestamps(accumulator, [1000, 1232]);
+        feedTimestamps(accumulator, [1465, 1698]);
+        accumulator.resetSignalIntegrity();
+
+        feedTimestamps(accumulator, [2163]);
+
+        expect(accumulator.getSignalIntegrity()).toMatchObject({ gapCount: 1, missingSamples: 50 });
+    });
+});
+
+describe('BinaryFrameAccumulator multi-channel frames', () => {
+    let accumulator: BinaryFrameAccumulator;
+
+    beforeEach(() => {
+        accumulator = new BinaryFrameAccumulator();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it.each(['interleaved', 'planar'] as const)('demultiplexes %s frames', layout => {
+        const channels = makeChannels(3);
+
+        const [packet] = accumulator.feed(encodeMultiChannelFrame(1000, channels, layout));
+
+        expect(packet).toEqual({ timestamp: 1000, values: channels[0], channels });
+        expect(accumulator.channelCount).toBe(3);
+    });
+
+    it('reassembles frames split across reads and mixed with single-channel frames', () => {
+        const bytes = concat([
+            encodeBinaryFrame(1000, SAMPLES),
+            encodeMultiChannelFrame(1232, makeChannels(4)),
+            encodeMultiChannelFrame(1465, makeChannels(4)),
+        ]);
+
+        const first = accumulator.feed(bytes.subarray(0, 200));
+        const rest = accumulator.feed(bytes.subarray(200));
+
+        expect(first.map(p => p.timestamp)).toEqual([1000]);
+        expect(rest.map(p => p.channels?.length)).toEqual([4, 4]);
+        expect(accumulator.getStats()).toMatchObject({ received: 3, dropped: 0, gapCount: 0 });
+    });
+
+    it('resyncs past a header with an invalid channel count', () => {
+        const corrupt = encodeMultiChannelFrame(1000, makeChannels(2));
+        corrupt[8] = 9;
+
+        const packets = accumulator.feed(concat([corrupt, encodeMultiChannelFrame(1232, makeChannels(2))]));
+
+        expect(packets.map(p => p.timestamp)).toEqual([1232]);
+        expect(accumulator.getStats().dropped).toBeGreaterThan(0);
+    });
+});
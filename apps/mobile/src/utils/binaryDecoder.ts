@@ -1,53 +1,87 @@
 /**
  * Binary sEMG Packet Decoder
  *
- * Decodes 108-byte binary packets from the ESP32 device (firmware v3.1+).
- * Packet structure mirrors StreamingProtocol.h on the device:
+ * Decodes binary packets from the ESP32 device (firmware v3.1+).
+ * Packet structure mirrors StreamingProtocol.h on the device.
+ *
+ * Single channel (108 bytes):
  *   [0]    uint8   magic byte     0xAA
  *   [1]    uint8   message code   0x0D
  *   [2-5]  uint32  timestamp      LE, millis() since boot
  *   [6-7]  uint16  sample_count   LE, always 50
  *   [8-107] int16[50] samples     LE, range -4096..+4096 mV
+ *
+ * Multi-channel (10 + 100 × channels bytes):
+ *   [0]    uint8   magic byte     0xAA
+ *   [1]    uint8   message code   0x0E
+ *   [2-5]  uint32  timestamp      LE, millis() since boot
+ *   [6-7]  uint16  samples per channel, LE, always 50
+ *   [8]    uint8   channel count  1..4
+ *   [9]    uint8   layout         0 interleaved, 1 planar (ChannelLayout)
+ *   [10-]  int16[50 × channels] samples, LE
  */
 
 import {
     StreamDataPacket,
+    SignalIntegrity,
     BINARY_PACKET_MAGIC,
     BINARY_PACKET_CODE,
+    BINARY_MULTICHANNEL_PACKET_CODE,
+    BINARY_MULTICHANNEL_HEADER_SIZE,
+    BINARY_PACKET_HEADER_SIZE,
     BINARY_PACKET_SAMPLES_PER_PACKET,
     BINARY_PACKET_TOTAL_SIZE,
+    BINARY_PACKET_INTERVAL_MS,
+    CHANNEL_LAYOUT_CODES,
+    MAX_SEMG_CHANNELS,
 } from '@iris/domain';
 
+/** A timestamp step above this many packet intervals counts as a gap (absorbs millis() jitter). */
+const GAP_TOLERANCE_INTERVALS = 1.5;
+
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Decoder counters plus signal-integrity counters since the last reset.
+ */
+export interface BinaryStreamStats extends SignalIntegrity {
+    received: number;   // Decoded packets, duplicates included
+    dropped: number;    // Resync events
+    wraps: number;      // uint32 millis() rollovers (~every 49.7 days of device uptime)
+}
+
 interface DecodedBinaryPacket {
     packet: StreamDataPacket;
     bytesConsumed: number;
 }
 
 /**
- * Attempts to decode a single binary sEMG packet starting at `offset`
- * within the provided buffer.
- *
- * Returns null if:
- * - Not enough bytes available (< BINARY_PACKET_TOTAL_SIZE)
- * - Magic byte mismatch at offset
- * - Message code mismatch
- * - Sample count validation fails
+ * Length of the frame starting at `offset`, read from its header, or null
+ * when the header is invalid. Needs the full header to be buffered.
  */
-function decodeBinaryPacket(buffer: Uint8Array, offset: number): DecodedBinaryPacket | null {
-    if (buffer.length - offset < BINARY_PACKET_TOTAL_SIZE) {
-        return null;
-    }
-
-    if (buffer[offset] !== BINARY_PACKET_MAGIC) {
-        return null;
+function frameLength(buffer: Uint8Array, offset: number): number | null {
+    if (buffer[offset + 1] === BINARY_PACKET_CODE) {
+        return BINARY_PACKET_TOTAL_SIZE;
     }
-
-    if (buffer[offset + 1] !== BINARY_PACKET_CODE) {
+    const channelCount = buffer[offset + 8];
+    if (channelCount < 1 || channelCount > MAX_SEMG_CHANNELS) {
+        console.warn(`[BinaryDecoder] Invalid channel count: ${channelCount}`);
         return null;
     }
+    return BINARY_MULTICHANNEL_HEADER_SIZE + channelCount * BINARY_PACKET_SAMPLES_PER_PACKET * 2;
+}
 
+/**
+ * Attempts to decode a single binary sEMG packet of `length` bytes starting
+ * at `offset` within the provided buffer.
+ *
+ * Returns null if:
+ * - Sample count validation fails
+ * - The channel layout is unknown
+ */
+function decodeBinaryPacket(buffer: Uint8Array, offset: number, length: number): DecodedBinaryPacket | null {
     // DataView constructor handles non-zero byteOffset on sliced Uint8Array views
-    const view = new DataView(buffer.buffer, buffer.byteOffset + offset, BINARY_PACKET_TOTAL_SIZE);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + offset, length);
 
     const timestamp = view.getUint32(2, true);
     const sampleCount = view.getUint16(6, true);
@@ -57,31 +91,66 @@ function decodeBinaryPacket(buffer: Uint8Array, offset: number): DecodedBinaryPa
         return null;
     }
 
-    const values: number[] = [];
-    for (let i = 0; i < BINARY_PACKET_SAMPLES_PER_PACKET; i++) {
-        values.push(view.getInt16(8 + i * 2, true));
+    if (buffer[offset + 1] === BINARY_PACKET_CODE) {
+        const values: number[] = [];
+        for (let i = 0; i < BINARY_PACKET_SAMPLES_PER_PACKET; i++) {
+            values.push(view.getInt16(BINARY_PACKET_HEADER_SIZE + i * 2, true));
+        }
+        return { packet: { timestamp, values }, bytesConsumed: length };
     }
 
+    const channelCount = view.getUint8(8);
+    const layout = view.getUint8(9);
+    if (layout !== CHANNEL_LAYOUT_CODES.interleaved && layout !== CHANNEL_LAYOUT_CODES.planar) {
+        console.warn(`[BinaryDecoder] Unknown channel layout: ${layout}`);
+        return null;
+    }
+
+    const channels = demultiplex(view, channelCount, layout === CHANNEL_LAYOUT_CODES.interleaved);
     return {
-        packet: { timestamp, values },
-        bytesConsumed: BINARY_PACKET_TOTAL_SIZE,
+        packet: { timestamp, values: channels[0], channels },
+        bytesConsumed: length,
     };
 }
 
+/**
+ * Split the samples of a multi-channel frame into one array per channel.
+ */
+function demultiplex(view: DataView, channelCount: number, interleaved: boolean): number[][] {
+    const channels: number[][] = [];
+    for (let c = 0; c < channelCount; c++) {
+        const samples: number[] = new Array(BINARY_PACKET_SAMPLES_PER_PACKET);
+        for (let i = 0; i < BINARY_PACKET_SAMPLES_PER_PACKET; i++) {
+            const index = interleaved ? i * channelCount + c : c * BINARY_PACKET_SAMPLES_PER_PACKET + i;
+            samples[i] = view.getInt16(BINARY_MULTICHANNEL_HEADER_SIZE + index * 2, true);
+        }
+        channels.push(samples);
+    }
+    return channels;
+}
+
 /**
  * Stateful accumulator that buffers incoming bytes across multiple
- * `onDataReceived` callbacks and extracts complete 108-byte sEMG packets.
+ * `onDataReceived` callbacks and extracts complete sEMG packets, single- or
+ * multi-channel.
  *
  * SPP does not guarantee message boundaries — this class handles:
  * - Partial packets split across callbacks
  * - Multiple concatenated packets in a single callback
  * - Byte-stream corruption with resync via magic byte scanning
+ *
+ * It also checks packet timestamps for continuity: gaps (lost packets),
+ * uint32 millis() wraparound, and duplicates, which are dropped.
  */
 export class BinaryFrameAccumulator {
     private buffer: Uint8Array;
     private writePos: number;
     private receivedCount: number;
     private droppedCount: number;
+    private lastTimestamp: number | null = null;
+    private integrity: SignalIntegrity = emptySignalIntegrity();
+    private wrapCount = 0;
+    private lastChannelCount = 1;
 
     constructor(initialCapacity = 512) {
         this.buffer = new Uint8Array(initialCapacity);
@@ -117,18 +186,34 @@ export class BinaryFrameAccumulator {
                 continue;
             }
 
-            if (this.buffer[scanPos + 1] !== BINARY_PACKET_CODE) {
+            const code = this.buffer[scanPos + 1];
+            if (code !== BINARY_PACKET_CODE && code !== BINARY_MULTICHANNEL_PACKET_CODE) {
                 // Magic byte found but message code mismatch — skip this byte
                 scanPos++;
                 this.droppedCount++;
                 continue;
             }
 
-            const result = decodeBinaryPacket(this.buffer, scanPos);
+            const length = frameLength(this.buffer, scanPos);
+            if (length === null) {
+                // Corrupt multi-channel header — skip past this 0xAA
+                scanPos++;
+                this.droppedCount++;
+                continue;
+            }
+            if (this.writePos - scanPos < length) {
+                // Multi-channel frame still arriving
+                break;
+            }
+
+            const result = decodeBinaryPacket(this.buffer, scanPos, length);
             if (result !== null) {
-                packets.push(result.packet);
+                if (this.checkContinuity(result.packet)) {
+                    packets.push(result.packet);
+                }
                 scanPos += result.bytesConsumed;
                 this.receivedCount++;
+                this.lastChannelCount = result.packet.channels?.length ?? 1;
             } else {
                 // Validation failed (e.g. wrong sample count) — skip past this 0xAA
                 scanPos++;
@@ -147,11 +232,78 @@ export class BinaryFrameAccumulator {
         this.writePos = 0;
         this.receivedCount = 0;
         this.droppedCount = 0;
+        this.lastTimestamp = null;
+        this.wrapCount = 0;
+        this.lastChannelCount = 1;
+        this.resetSignalIntegrity();
     }
 
-    /** Returns debug counters. received = decoded packets, dropped = resync events. */
-    getStats(): { received: number; dropped: number } {
-        return { received: this.receivedCount, dropped: this.droppedCount };
+    /** Channels of the most recent frame; 1 until a frame has been decoded. */
+    get channelCount(): number {
+        return this.lastChannelCount;
+    }
+
+    /** Returns decoder and signal-integrity counters. */
+    getStats(): BinaryStreamStats {
+        return {
+            received: this.receivedCount,
+            dropped: this.droppedCount,
+            wraps: this.wrapCount,
+            ...this.integrity,
+        };
+    }
+
+    getSignalIntegrity(): SignalIntegrity {
+        return { ...this.integrity };
+    }
+
+    /**
+     * Restart the integrity counters (e.g. at the start of a recording).
+     * The last timestamp is kept, so a gap right at the boundary still counts.
+     */
+    resetSignalIntegrity(): void {
+        this.integrity = emptySignalIntegrity();
+    }
+
+    /**
+     * Compare a decoded packet's timestamp with the previous one and update
+     * the integrity counters. Returns false for a duplicate (same timestamp),
+     * which the caller drops.
+     */
+    private checkContinuity(packet: StreamDataPacket): boolean {
+        const previous = this.lastTimestamp;
+        this.lastTimestamp = packet.timestamp;
+        if (previous === null) {
+            return true;
+        }
+
+        // Forward distance modulo 2^32, so a millis() rollover is a normal step
+        const delta = (packet.timestamp - previous + UINT32_RANGE) % UINT32_RANGE;
+
+        if (delta === 0) {
+            this.integrity.duplicatePackets++;
+            return false;
+        }
+
+        if (delta >= UINT32_RANGE / 2) {
+            // Went backwards: the device restarted its clock. Re-baseline.
+            console.warn(`[BinaryDecoder] Timestamp went backwards: ${previous} → ${packet.timestamp}`);
+            return true;
+        }
+
+        if (packet.timestamp < previous) {
+            this.wrapCount++;
+        }
+
+        if (delta > BINARY_PACKET_INTERVAL_MS * GAP_TOLERANCE_INTERVALS) {
+            const missingPackets = Math.max(1, Math.round(delta / BINARY_PACKET_INTERVAL_MS) - 1);
+            const gapMs = Math.round(delta - BINARY_PACKET_INTERVAL_MS);
+            this.integrity.gapCount++;
+            this.integrity.missingSamples += missingPackets * packet.values.length;
+            this.integrity.longestGapMs = Math.max(this.integrity.longestGapMs, gapMs);
+        }
+
+        return true;
     }
 
     private append(data: Uint8Array): void {
@@ -188,3 +340,7 @@ export class BinaryFrameAccumulator {
         return -1;
     }
 }
+
+function emptySignalIntegrity(): SignalIntegrity {
+    return { gapCount: 0, missingSamples: 0, longestGapMs: 0, duplicatePackets: 0 };
+}
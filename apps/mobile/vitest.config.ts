@@ -9,6 +9,7 @@ export default defineConfig({
     resolve: {
         alias: {
             '@iris/domain': path.resolve(__dirname, '../../packages/domain/src/index.ts'),
+            '@iris/middleware': path.resolve(__dirname, '../../packages/middleware/src/index.ts'),
             '@': path.resolve(__dirname, './src'),
         },
     },
@@ -0,0 +1,71 @@
+/**
+ * Permissions
+ *
+ * Resolves the roles and permissions named in a token's claims into the
+ * UserRole and Permission values the apps check. Unknown names are ignored;
+ * a user whose role claims name no known role is a viewer.
+ *
+ * Rollout: nodes do not issue role claims yet. Until they do, a token with
+ * no role claim at all keeps the unrestricted access the apps had before
+ * permissions were enforced; once a node issues role claims its users get
+ * exactly the permissions of their roles. See the domain README.
+ */
+
+import { User, UserRole } from '../models/User';
+import { PERMISSIONS, Permission, ROLE_PERMISSIONS } from '../models/Permission';
+
+// Most privileged first
+const ROLE_PRECEDENCE: readonly UserRole[] = [UserRole.ADMIN, UserRole.RESEARCHER, UserRole.CLINICIAN, UserRole.VIEWER];
+
+/**
+ * Parse a role claim, ignoring case ('Admin', 'admin').
+ *
+ * @returns The role, or null for a name that is not a UserRole
+ */
+export function parseUserRole(name: string): UserRole | null {
+    const normalized = name.trim().toLowerCase();
+    return ROLE_PRECEDENCE.find(role => role === normalized) ?? null;
+}
+
+/**
+ * The most privileged of the named roles, VIEWER when none is known.
+ */
+export function primaryRole(names: readonly string[]): UserRole {
+    const roles = names.map(parseUserRole);
+    return ROLE_PRECEDENCE.find(role => roles.includes(role)) ?? UserRole.VIEWER;
+}
+
+/**
+ * Permissions of the named roles (a viewer's when none is known) plus those
+ * granted by name. Without any role claim: every permission (see Rollout).
+ *
+ * @param roleNames - Values of the token's role claims
+ * @param grantedNames - Values of the token's permission claims
+ */
+export function resolvePermissions(roleNames: readonly string[], grantedNames: readonly string[] = []): Permission[] {
+    if (roleNames.length === 0) {
+        return [...PERMISSIONS];
+    }
+    const known = roleNames.map(parseUserRole).filter((role): role is UserRole => role !== null);
+    const granted = new Set<Permission>();
+    for (const role of known.length > 0 ? known : [UserRole.VIEWER]) {
+        ROLE_PERMISSIONS[role].forEach(permission => granted.add(permission));
+    }
+    for (const name of grantedNames) {
+        const permission = PERMISSIONS.find(known => known === name.trim().toLowerCase());
+        if (permission) {
+            granted.add(permission);
+        }
+    }
+    // Keep the declaration order so equal grants compare equal
+    return PERMISSIONS.filter(permission => granted.has(permission));
+}
+
+/**
+ * Whether a user holds a permission. Users without resolved permissions
+ * (e.g. created before the claims were read) get those of their role.
+ */
+export function userHasPermission(user: Pick<User, 'role' | 'permissions'> | null, permission: Permission): boolean {
+    if (!user) return false;
+    return (user.permissions ?? ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
+}
@@ -0,0 +1,217 @@
+/**
+ * sEMG Features
+ *
+ * Time-domain features, StreamStatistics and the combined feature set shared
+ * by the mobile capture screen and the desktop analysis views. Inputs are
+ * either raw sample arrays or StreamDataPacket[] as delivered by the device.
+ */
+
+import { StreamDataPacket, StreamStatistics } from '../models/Stream';
+import { bandPassFilter, notchFilter, DEFAULT_EMG_BAND, DEFAULT_NOTCH_HZ } from './filters';
+import { powerSpectrum, meanFrequency, medianFrequency, DEFAULT_SPECTRUM_SEGMENT } from './spectrum';
+
+/** Moving RMS window used when none is given (ms). */
+export const DEFAULT_RMS_WINDOW_MS = 100;
+
+/**
+ * Features of one sEMG signal segment.
+ */
+export interface EmgFeatures {
+    rms: number;
+    meanAbsoluteValue: number;
+    integratedEmg: number;      // Σ|x| · dt (signal units × s)
+    zeroCrossingRate: number;   // Crossings per second
+    meanFrequency: number;      // Hz
+    medianFrequency: number;    // Hz
+    statistics: StreamStatistics;
+}
+
+export interface EmgFeatureOptions {
+    /** Band-pass edges (Hz). Pass null to skip band-pass filtering. */
+    band?: { lowHz: number; highHz: number } | null;
+    /** Notch centre (Hz). Pass null to skip notch filtering. */
+    notchHz?: number | null;
+    /** Welch segment length for the spectral features (power of two). */
+    spectrumSegment?: number;
+}
+
+// ── Input helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Concatenate packet samples in arrival order.
+ */
+export function flattenPackets(packets: StreamDataPacket[]): number[] {
+    const samples: number[] = [];
+    for (const packet of packets) {
+        for (const value of packet.values) {
+            samples.push(value);
+        }
+    }
+    return samples;
+}
+
+/**
+ * Sample values from a recording CSV (`timestamp,value` per line, as
+ * exported and uploaded by the mobile app; the first channel of
+ * `timestamp,ch1,ch2,...`). Comment and malformed lines are skipped.
+ */
+export function samplesFromRecordingCsv(csv: string): number[] {
+    const samples: number[] = [];
+    for (const line of csv.split('\n')) {
+        const comma = line.indexOf(',');
+        if (comma === -1 || line.startsWith('#')) continue;
+        const nextComma = line.indexOf(',', comma + 1);
+        const value = Number(line.slice(comma + 1, nextComma === -1 ? undefined : nextComma));
+        if (line.slice(0, comma).trim() !== '' && Number.isFinite(value)) {
+            samples.push(value);
+        }
+    }
+    return samples;
+}
+
+function toSamples(input: StreamDataPacket[] | ArrayLike<number>): ArrayLike<number> {
+    return Array.isArray(input) && input.length > 0 && typeof input[0] === 'object'
+        ? flattenPackets(input as StreamDataPacket[])
+        : (input as ArrayLike<number>);
+}
+
+// ── Time-domain features ─────────────────────────────────────────────────────
+
+/** Full-wave rectification. */
+export function rectify(samples: ArrayLike<number>): number[] {
+    return Array.from(samples, Math.abs);
+}
+
+export function rootMeanSquare(samples: ArrayLike<number>): number {
+    if (samples.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / samples.length);
+}
+
+export function meanAbsoluteValue(samples: ArrayLike<number>): number {
+    if (samples.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += Math.abs(samples[i]);
+    return sum / samples.length;
+}
+
+/**
+ * Moving RMS over a trailing window; output has the input's length. The
+ * first samples use the (shorter) window available so far.
+ */
+export function movingRmsEnvelope(samples: ArrayLike<number>, windowSamples: number): number[] {
+    const window = Math.max(1, Math.floor(windowSamples));
+    const envelope = new Array<number>(samples.length);
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sumSquares += samples[i] * samples[i];
+        if (i >= window) {
+            sumSquares -= samples[i - window] * samples[i - window];
+        }
+        const count = Math.min(i + 1, window);
+        // Clamp float drift from the running subtraction
+        envelope[i] = Math.sqrt(Math.max(0, sumSquares) / count);
+    }
+    return envelope;
+}
+
+/**
+ * Integrated EMG: area under the rectified signal.
+ */
+export function integratedEmg(samples: ArrayLike<number>, sampleRate: number): number {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += Math.abs(samples[i]);
+    return sum / sampleRate;
+}
+
+/**
+ * Sign changes per second. Steps smaller than `threshold` are ignored so
+ * baseline noise around zero does not count. Expects a zero-mean signal
+ * (i.e. after band-pass filtering).
+ */
+export function zeroCrossingRate(samples: ArrayLike<number>, sampleRate: number, threshold: number = 0): number {
+    if (samples.length < 2) return 0;
+    let crossings = 0;
+    for (let i = 1; i < samples.length; i++) {
+        const a = samples[i - 1];
+        const b = samples[i];
+        if (((a > 0 && b < 0) || (a < 0 && b > 0)) && Math.abs(a - b) >= threshold) {
+            crossings++;
+        }
+    }
+    return crossings / (samples.length / sampleRate);
+}
+
+/**
+ * Fill StreamStatistics for a signal segment (population standard deviation).
+ */
+export function computeStreamStatistics(samples: ArrayLike<number>, sampleRate: number): StreamStatistics {
+    const n = samples.length;
+    if (n === 0) {
+        return { mean: 0, median: 0, stdDev: 0, min: 0, max: 0, sampleCount: 0, duration: 0 };
+    }
+
+    let sum = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < n; i++) {
+        sum += samples[i];
+        if (samples[i] < min) min = samples[i];
+        if (samples[i] > max) max = samples[i];
+    }
+    const mean = sum / n;
+
+    let variance = 0;
+    for (let i = 0; i < n; i++) variance += (samples[i] - mean) ** 2;
+
+    const sorted = Float64Array.from(samples).sort();
+    const median = n % 2 === 1 ? sorted[(n - 1) / 2] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
+
+    return {
+        mean,
+        median,
+        stdDev: Math.sqrt(variance / n),
+        min,
+        max,
+        sampleCount: n,
+        duration: n / sampleRate,
+    };
+}
+
+// ── Combined ─────────────────────────────────────────────────────────────────
+
+/**
+ * Standard sEMG feature set. By default the signal is notch-filtered at
+ * DEFAULT_NOTCH_HZ and band-passed to DEFAULT_EMG_BAND (zero-phase) before
+ * the features are taken; statistics describe the unfiltered input.
+ */
+export function computeEmgFeatures(
+    input: StreamDataPacket[] | ArrayLike<number>,
+    sampleRate: number,
+    options: EmgFeatureOptions = {}
+): EmgFeatures {
+    const raw = toSamples(input);
+    const band = options.band === undefined ? DEFAULT_EMG_BAND : options.band;
+    const notchHz = options.notchHz === undefined ? DEFAULT_NOTCH_HZ : options.notchHz;
+
+    let signal: ArrayLike<number> = raw;
+    if (raw.length > 0 && notchHz !== null && notchHz < sampleRate / 2) {
+        signal = notchFilter(signal, sampleRate, notchHz, 30, { zeroPhase: true });
+    }
+    if (raw.length > 0 && band !== null) {
+        signal = bandPassFilter(signal, sampleRate, band.lowHz, band.highHz, { zeroPhase: true });
+    }
+
+    const spectrum = powerSpectrum(signal, sampleRate, options.spectrumSegment ?? DEFAULT_SPECTRUM_SEGMENT);
+
+    return {
+        rms: rootMeanSquare(signal),
+        meanAbsoluteValue: meanAbsoluteValue(signal),
+        integratedEmg: integratedEmg(signal, sampleRate),
+        zeroCrossingRate: zeroCrossingRate(signal, sampleRate),
+        meanFrequency: meanFrequency(spectrum),
+        medianFrequency: medianFrequency(spectrum),
+        statistics: computeStreamStatistics(raw, sampleRate),
+    };
+}
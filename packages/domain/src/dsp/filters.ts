@@ -0,0 +1,147 @@
+/**
+ * sEMG Filters
+ *
+ * Second-order IIR sections (RBJ Audio EQ Cookbook) and the band-pass and
+ * notch filters built from them. Pure functions over sample arrays; the
+ * input is never modified.
+ */
+
+/**
+ * Normalized biquad coefficients (a0 = 1).
+ */
+export interface BiquadCoefficients {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+export interface FilterOptions {
+    /**
+     * Run the filter forward and backward (filtfilt). No phase shift, which
+     * keeps envelopes aligned with the raw signal; only for offline data.
+     */
+    zeroPhase?: boolean;
+}
+
+/** sEMG pass band used when none is given (Hz). Clamped below Nyquist. */
+export const DEFAULT_EMG_BAND = { lowHz: 20, highHz: 95 };
+
+/** Mains frequency removed by the notch filter by default (Hz). */
+export const DEFAULT_NOTCH_HZ = 60;
+
+/** Q factors of the two sections of a 4th-order Butterworth filter. */
+const BUTTERWORTH_4_Q = [0.5411961, 1.3065630];
+
+/** Highest usable cutoff as a fraction of the sample rate. */
+const MAX_CUTOFF_RATIO = 0.45;
+
+function normalize(b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): BiquadCoefficients {
+    return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+function assertFrequency(frequencyHz: number, sampleRate: number): void {
+    if (!(frequencyHz > 0) || frequencyHz >= sampleRate / 2) {
+        throw new Error(`Filter frequency ${frequencyHz} Hz must be between 0 and Nyquist (${sampleRate / 2} Hz)`);
+    }
+}
+
+export function designLowPass(cutoffHz: number, sampleRate: number, q: number = Math.SQRT1_2): BiquadCoefficients {
+    assertFrequency(cutoffHz, sampleRate);
+    const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    return normalize((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+}
+
+export function designHighPass(cutoffHz: number, sampleRate: number, q: number = Math.SQRT1_2): BiquadCoefficients {
+    assertFrequency(cutoffHz, sampleRate);
+    const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    return normalize((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+}
+
+export function designNotch(centerHz: number, sampleRate: number, q: number = 30): BiquadCoefficients {
+    assertFrequency(centerHz, sampleRate);
+    const w0 = (2 * Math.PI * centerHz) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    return normalize(1, -2 * cos, 1, 1 + alpha, -2 * cos, 1 - alpha);
+}
+
+/**
+ * Run one biquad section (direct form II transposed) from rest.
+ */
+export function applyBiquad(samples: ArrayLike<number>, c: BiquadCoefficients): number[] {
+    const output = new Array<number>(samples.length);
+    let z1 = 0;
+    let z2 = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const x = samples[i];
+        const y = c.b0 * x + z1;
+        z1 = c.b1 * x - c.a1 * y + z2;
+        z2 = c.b2 * x - c.a2 * y;
+        output[i] = y;
+    }
+    return output;
+}
+
+/**
+ * Run a cascade of sections, optionally forward and backward.
+ */
+export function applyFilterCascade(
+    samples: ArrayLike<number>,
+    sections: BiquadCoefficients[],
+    options: FilterOptions = {}
+): number[] {
+    let output = Array.from(samples);
+    for (const section of sections) {
+        output = applyBiquad(output, section);
+    }
+    if (options.zeroPhase) {
+        output.reverse();
+        for (const section of sections) {
+            output = applyBiquad(output, section);
+        }
+        output.reverse();
+    }
+    return output;
+}
+
+/**
+ * 4th-order Butterworth band-pass (high-pass + low-pass cascade). The upper
+ * edge is clamped to 0.45 × sample rate, since the device's 215 Hz rate puts
+ * Nyquist well below the textbook 450 Hz sEMG limit.
+ */
+export function bandPassFilter(
+    samples: ArrayLike<number>,
+    sampleRate: number,
+    lowHz: number = DEFAULT_EMG_BAND.lowHz,
+    highHz: number = DEFAULT_EMG_BAND.highHz,
+    options: FilterOptions = {}
+): number[] {
+    const upper = Math.min(highHz, sampleRate * MAX_CUTOFF_RATIO);
+    if (lowHz >= upper) {
+        throw new Error(`Band-pass low edge ${lowHz} Hz must be below high edge ${upper} Hz`);
+    }
+    const sections = [
+        ...BUTTERWORTH_4_Q.map(q => designHighPass(lowHz, sampleRate, q)),
+        ...BUTTERWORTH_4_Q.map(q => designLowPass(upper, sampleRate, q)),
+    ];
+    return applyFilterCascade(samples, sections, options);
+}
+
+/**
+ * Remove a narrow band around `centerHz` (power-line interference).
+ */
+export function notchFilter(
+    samples: ArrayLike<number>,
+    sampleRate: number,
+    centerHz: number = DEFAULT_NOTCH_HZ,
+    q: number = 30,
+    options: FilterOptions = {}
+): number[] {
+    return applyFilterCascade(samples, [designNotch(centerHz, sampleRate, q)], options);
+}
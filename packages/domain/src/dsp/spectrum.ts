@@ -0,0 +1,150 @@
+/**
+ * sEMG Spectrum
+ *
+ * Radix-2 FFT, Welch power spectral density and the spectral features used
+ * for fatigue analysis (mean and median frequency).
+ */
+
+export interface PowerSpectrum {
+    frequencies: number[]; // Hz, 0 .. sampleRate / 2
+    power: number[];       // Power per bin (arbitrary units)
+}
+
+/** Welch segment length used when none is given (samples, power of two). */
+export const DEFAULT_SPECTRUM_SEGMENT = 256;
+
+function isPowerOfTwo(n: number): boolean {
+    return n > 0 && (n & (n - 1)) === 0;
+}
+
+function nextPowerOfTwo(n: number): number {
+    let p = 1;
+    while (p < n) p <<= 1;
+    return p;
+}
+
+/**
+ * In-place iterative radix-2 FFT. Both arrays must have the same
+ * power-of-two length.
+ */
+export function fft(real: Float64Array, imag: Float64Array): void {
+    const n = real.length;
+    if (!isPowerOfTwo(n) || imag.length !== n) {
+        throw new Error(`FFT length must be a power of two (got ${n})`);
+    }
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        const step = (-2 * Math.PI) / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const wr = Math.cos(step * k);
+                const wi = Math.sin(step * k);
+                const a = start + k;
+                const b = a + half;
+                const tr = real[b] * wr - imag[b] * wi;
+                const ti = real[b] * wi + imag[b] * wr;
+                real[b] = real[a] - tr;
+                imag[b] = imag[a] - ti;
+                real[a] += tr;
+                imag[a] += ti;
+            }
+        }
+    }
+}
+
+/**
+ * Welch PSD: Hann-windowed segments with 50% overlap, each de-meaned, with
+ * the periodograms averaged. Signals shorter than one segment are analysed
+ * as a single zero-padded segment.
+ */
+export function powerSpectrum(
+    samples: ArrayLike<number>,
+    sampleRate: number,
+    segmentLength: number = DEFAULT_SPECTRUM_SEGMENT
+): PowerSpectrum {
+    const length = samples.length < segmentLength ? nextPowerOfTwo(Math.max(samples.length, 2)) : segmentLength;
+    if (!isPowerOfTwo(length)) {
+        throw new Error(`Spectrum segment length must be a power of two (got ${segmentLength})`);
+    }
+
+    const bins = length / 2 + 1;
+    const power = new Array<number>(bins).fill(0);
+    // Hann window over the data only; a short signal's padding stays zero
+    const windowLength = Math.min(samples.length, length);
+    const window = new Float64Array(windowLength);
+    for (let i = 0; i < windowLength; i++) {
+        window[i] = windowLength > 1 ? 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (windowLength - 1)) : 1;
+    }
+
+    const hop = length / 2;
+    let segments = 0;
+    for (let start = 0; start === 0 || start + length <= samples.length; start += hop) {
+        const count = Math.min(length, samples.length - start);
+        let mean = 0;
+        for (let i = 0; i < count; i++) mean += samples[start + i];
+        mean = count > 0 ? mean / count : 0;
+
+        const real = new Float64Array(length);
+        const imag = new Float64Array(length);
+        for (let i = 0; i < count; i++) {
+            real[i] = (samples[start + i] - mean) * window[i];
+        }
+        fft(real, imag);
+        for (let k = 0; k < bins; k++) {
+            power[k] += real[k] * real[k] + imag[k] * imag[k];
+        }
+        segments++;
+    }
+
+    const frequencies = new Array<number>(bins);
+    for (let k = 0; k < bins; k++) {
+        frequencies[k] = (k * sampleRate) / length;
+        power[k] /= segments;
+    }
+    return { frequencies, power };
+}
+
+/**
+ * Power-weighted mean frequency (MNF). 0 for a flat-zero signal.
+ */
+export function meanFrequency(spectrum: PowerSpectrum): number {
+    let weighted = 0;
+    let total = 0;
+    for (let k = 0; k < spectrum.power.length; k++) {
+        weighted += spectrum.frequencies[k] * spectrum.power[k];
+        total += spectrum.power[k];
+    }
+    return total > 0 ? weighted / total : 0;
+}
+
+/**
+ * Frequency that splits the spectrum into two halves of equal power (MDF).
+ */
+export function medianFrequency(spectrum: PowerSpectrum): number {
+    let total = 0;
+    for (const p of spectrum.power) total += p;
+    if (total <= 0) return 0;
+
+    let cumulative = 0;
+    for (let k = 0; k < spectrum.power.length; k++) {
+        cumulative += spectrum.power[k];
+        if (cumulative >= total / 2) {
+            return spectrum.frequencies[k];
+        }
+    }
+    return spectrum.frequencies[spectrum.frequencies.length - 1];
+}
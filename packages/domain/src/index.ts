@@ -7,15 +7,27 @@
 // Bluetooth Protocol
 export * from './models/Bluetooth';
 
+// Bluetooth Protocol Codec
+export * from './protocol/BluetoothCodec';
+export * from './protocol/DeviceHandshake';
+
 // Streaming Data
 export * from './models/Stream';
 
+// Signal Processing (sEMG)
+export * from './dsp/filters';
+export * from './dsp/spectrum';
+export * from './dsp/features';
+
 // Session Management
 export * from './models/Session';
 
 // Device Management
 export * from './models/Device';
 
+// FES Safety
+export * from './models/FesSafety';
+
 // Authentication and Authorization
 export * from './models/Auth';
 
@@ -24,6 +36,10 @@ export * from './models/Snomed';
 
 export * from './models/User';
 
+// Permissions
+export * from './models/Permission';
+export * from './auth/permissions';
+
 export * from './models/Researcher';
 
 export * from './models/Research';
@@ -40,6 +56,7 @@ export * from './models/Sensor';
 
 // Sync Status
 export * from './models/SyncStatus';
+export * from './models/SyncConflict';
 
 // Clinical Sessions
 export * from './models/ClinicalSession';
@@ -52,3 +69,12 @@ export * from './models/Annotation';
 
 // Node Synchronization
 export * from './models/NodeSync';
+
+// Data Retention
+export * from './models/Retention';
+
+// Audit Log
+export * from './models/AuditLog';
+
+// Backup
+export * from './models/Backup';
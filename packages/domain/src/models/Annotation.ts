@@ -6,19 +6,45 @@
 
 import { SyncStatus } from './SyncStatus';
 
+/**
+ * Annotation Category
+ *
+ * What kind of event an annotation marks. 'marker' is the one-tap
+ * "mark now" during capture; the others classify protocol events.
+ */
+export type AnnotationCategory = 'marker' | 'artifact' | 'electrode' | 'movement' | 'protocol' | 'note';
+
+export const ANNOTATION_CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+    marker: 'Marker',
+    artifact: 'Artifact',
+    electrode: 'Electrode',
+    movement: 'Movement',
+    protocol: 'Protocol',
+    note: 'Note',
+};
+
 /**
  * Annotation
  *
  * Represents a text annotation added to a clinical session.
  * Annotations are used to capture researcher observations, notes,
  * or other contextual information during a session.
+ *
+ * An annotation may be anchored to a moment (or span) of one recording;
+ * offsets are milliseconds from the start of that recording.
  */
 export interface Annotation {
     id: string;
     sessionId: string;
     text: string;
+    recordingId?: string;
+    startOffsetMs?: number;
+    endOffsetMs?: number;       // Absent for a single instant
+    category?: AnnotationCategory;
     syncStatus: SyncStatus;
     createdAt: string; // ISO 8601
+    updatedAt?: string; // ISO 8601, last local edit
+    remoteUpdatedAt?: string; // Backend updatedAt as of the last sync (watermark)
 }
 
 /**
@@ -29,4 +55,8 @@ export interface Annotation {
 export interface NewAnnotationData {
     sessionId: string;
     text: string;
+    recordingId?: string;
+    startOffsetMs?: number;
+    endOffsetMs?: number;
+    category?: AnnotationCategory;
 }
@@ -0,0 +1,73 @@
+/**
+ * Audit Log Models
+ *
+ * Append-only record of clinical actions taken on a device: who started or
+ * ended a session, sent FES parameters, deleted a recording, exported data
+ * or restored a backup. Each entry carries the hash of the one before it,
+ * so a removed, reordered or altered entry breaks the chain.
+ */
+
+import { SyncStatus } from './SyncStatus';
+
+/**
+ * Audited clinical actions.
+ */
+export type AuditAction =
+    | 'session_started'
+    | 'session_ended'
+    | 'session_deleted'
+    | 'session_details_purged'
+    | 'recording_created'
+    | 'recording_deleted'
+    | 'recording_file_purged'
+    | 'annotation_deleted'
+    | 'fes_parameters_sent'
+    | 'single_stimulation'
+    | 'emergency_stop'
+    | 'fes_envelope_updated'
+    | 'data_exported'
+    | 'data_restored';
+
+/**
+ * Kind of entity an audit entry refers to.
+ */
+export type AuditEntityType = 'session' | 'recording' | 'annotation' | 'export';
+
+/**
+ * Data for appending an audit entry.
+ */
+export interface NewAuditEntry {
+    action: AuditAction;
+    actorId?: string;       // Defaults to the signed-in user
+    sessionId?: string;
+    entityType?: AuditEntityType;
+    entityId?: string;
+    details?: Record<string, unknown>;
+}
+
+/**
+ * Audit Entry
+ */
+export interface AuditEntry extends NewAuditEntry {
+    id: string;
+    sequence: number;       // 1-based, contiguous on a device
+    createdAt: string;      // ISO 8601
+    previousHash: string;   // Hash of entry sequence - 1; AUDIT_GENESIS_HASH for the first
+    hash: string;           // SHA-256 (hex) over the entry and previousHash
+    syncStatus: SyncStatus;
+}
+
+/**
+ * previousHash of the first entry in a chain.
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Outcome of checking an audit chain.
+ */
+export interface AuditChainVerification {
+    valid: boolean;
+    checked: number;
+    brokenAt?: number;      // Sequence of the first entry that does not verify
+    reason?: string;
+}
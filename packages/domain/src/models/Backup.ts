@@ -0,0 +1,89 @@
+/**
+ * Backup Models
+ *
+ * A backup is one password-encrypted archive of a device's dataset: a copy
+ * of the SQLite database (sessions, clinical data, recordings, annotations,
+ * favorites, FES safety limits) and the recording files still on the
+ * device. Restoring merges it into the local database; rows whose id
+ * already exists locally are left as they are.
+ */
+
+export const BACKUP_FORMAT = 'iris-mobile-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_EXTENSION = '.irisbackup';
+
+/** The password is the only key to a backup; shorter ones are refused. */
+export const BACKUP_PASSWORD_MIN_LENGTH = 10;
+
+/**
+ * Largest total size of recording files one backup takes. The archive is
+ * built and encrypted in memory, so a bigger dataset is refused up front
+ * instead of running the app out of memory halfway.
+ */
+export const BACKUP_MAX_RECORDING_BYTES = 256 * 1024 * 1024;
+
+/**
+ * A file inside the archive, with the checksum restore validates it by.
+ */
+export interface BackupFileEntry {
+    path: string;
+    sha256: string;
+    sizeBytes: number;
+}
+
+/**
+ * The files of one recording inside the archive.
+ */
+export interface BackupRecordingEntry {
+    recordingId: string;
+    /** Base name of the local path: a chunked recording directory or a CSV file. */
+    name: string;
+    /** Paths inside the recording directory, or [''] for a single file. */
+    files: string[];
+}
+
+export interface BackupCounts {
+    sessions: number;
+    recordings: number;
+    annotations: number;
+    favorites: number;
+}
+
+/**
+ * manifest.json at the root of the archive.
+ */
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string; // ISO 8601
+    /** Highest migration applied to the database copy. */
+    schemaVersion: number;
+    counts: BackupCounts;
+    files: BackupFileEntry[];
+    recordings: BackupRecordingEntry[];
+}
+
+/**
+ * Backup Result
+ */
+export interface BackupResult {
+    uri: string;
+    createdAt: string; // ISO 8601
+    sizeBytes: number;
+    counts: BackupCounts;
+}
+
+/**
+ * Restore Report
+ */
+export interface RestoreReport {
+    backupCreatedAt: string; // ISO 8601
+    restoredAt: string; // ISO 8601
+    /** Rows added per table. */
+    inserted: Record<string, number>;
+    /** Rows per table left out because their id (or unique key) already existed. */
+    skipped: Record<string, number>;
+    recordingFilesRestored: number;
+    /** New recordings the archive has no file for, e.g. purged after upload. */
+    recordingsWithoutFiles: string[];
+}
@@ -94,11 +94,38 @@ export interface BluetoothProtocolBody {
     type?: string; // Streaming type: "raw", "filtered", "rms"
     t?: number; // Timestamp (milliseconds since boot)
     v?: number[]; // Array of sEMG values
+    fmt?: string; // Requested stream format: "binary", "json" (firmware v3.1+)
+
+    // Connection handshake (ACK of ConnectionHandshake)
+    fw?: string; // Firmware version, e.g. "3.1.0"
+    bdt?: string; // Firmware build date (ISO 8601)
+    ft?: string[]; // Firmware feature flags
+    cap?: HandshakeCapabilitiesBody; // Hardware capabilities
 
     // Nested parameters
     parameters?: any; // Nested FES parameters in status messages
 }
 
+/**
+ * Capabilities reported in the ConnectionHandshake ACK.
+ * Every field is optional; missing ones fall back to DEFAULT_DEVICE_CAPABILITIES.
+ */
+export interface HandshakeCapabilitiesBody {
+    amin?: number; // Minimum amplitude (V)
+    amax?: number; // Maximum amplitude (V)
+    fmin?: number; // Minimum frequency (Hz)
+    fmax?: number; // Maximum frequency (Hz)
+    pwmin?: number; // Minimum pulse width
+    pwmax?: number; // Maximum pulse width
+    rmin?: number; // Minimum streaming rate (Hz)
+    rmax?: number; // Maximum streaming rate (Hz)
+    st?: string[]; // Supported stream types
+    buf?: number; // Stream buffer size
+    gy?: boolean; // Gyroscope fitted
+    acc?: boolean; // Accelerometer fitted
+    tmp?: boolean; // Temperature sensor fitted
+}
+
 /**
  * FES Parameters Body (specific structure)
  */
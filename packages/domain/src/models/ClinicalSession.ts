@@ -31,6 +31,10 @@ export interface ClinicalSession {
     durationSeconds: number;
     syncStatus: SyncStatus;
     createdAt: string; // ISO 8601
+    updatedAt?: string; // ISO 8601, last local edit
+    remoteUpdatedAt?: string; // Backend updatedAt as of the last sync (watermark)
+    syncedAt?: string; // ISO 8601, when last marked synced
+    purgedAt?: string; // ISO 8601, when retention removed volunteer details
 }
 
 /**
@@ -47,6 +51,8 @@ export interface ClinicalData {
     laterality: Laterality | null;
     topographyCodes: string[]; // JSON-serialized in SQLite
     topographyNames: string[];
+    sensorIds?: string[]; // One per electrode channel, in channel order
+    sensorNames?: string[];
 }
 
 /**
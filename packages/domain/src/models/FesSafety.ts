@@ -0,0 +1,154 @@
+/**
+ * FES Safety Models
+ *
+ * Defines types for the stimulation safety interlock: parameter envelopes,
+ * the confirmation policy for large increases, and the stimulation log.
+ */
+
+import { FESParametersBody } from './Bluetooth';
+
+/**
+ * Inclusive range for one stimulation parameter.
+ */
+export interface FesParameterRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * FES Safety Envelope
+ *
+ * Allowed ranges for the hardware-relevant FES parameters. Units follow
+ * FESParametersBody: amplitude (V), frequency (Hz), pulse width, duration (s).
+ */
+export interface FesSafetyEnvelope {
+    amplitude: FesParameterRange;
+    frequency: FesParameterRange;
+    pulseWidth: FesParameterRange;
+    duration: FesParameterRange;
+}
+
+/**
+ * Whom an envelope applies to. Research envelopes bound every volunteer in
+ * the research; volunteer envelopes can only narrow them further.
+ */
+export type FesEnvelopeScope = 'research' | 'volunteer';
+
+/**
+ * Stored envelope for one research or volunteer.
+ */
+export interface FesSafetyEnvelopeRecord {
+    id: string;
+    scope: FesEnvelopeScope;
+    scopeId: string; // researchId or volunteerId
+    envelope: FesSafetyEnvelope;
+    updatedAt: string; // ISO 8601
+}
+
+/**
+ * FES Safety Policy
+ *
+ * Interlock behaviour that is not tied to a research or volunteer.
+ */
+export interface FesSafetyPolicy {
+    /** Increases larger than these deltas need explicit confirmation. */
+    confirmationDelta: {
+        amplitude: number; // V
+        frequency: number; // Hz
+        pulseWidth: number;
+        duration: number; // s
+    };
+    /** Send EmergencyStop if no Status arrives within this many seconds of an active session. */
+    statusWatchdogSeconds: number;
+}
+
+export const DEFAULT_FES_SAFETY_POLICY: FesSafetyPolicy = {
+    confirmationDelta: {
+        amplitude: 2,
+        frequency: 20,
+        pulseWidth: 100,
+        duration: 5,
+    },
+    statusWatchdogSeconds: 5,
+};
+
+/**
+ * A parameter outside the effective envelope.
+ */
+export interface FesEnvelopeViolation {
+    field: keyof FesSafetyEnvelope;
+    value: number;
+    range: FesParameterRange;
+}
+
+/**
+ * A parameter increase that exceeds the confirmation delta.
+ */
+export interface FesParameterIncrease {
+    field: keyof FesSafetyEnvelope;
+    from: number;
+    to: number;
+    delta: number;
+}
+
+/**
+ * Interlock verdict for a set of FES parameters.
+ */
+export type FesSafetyDecision =
+    | { status: 'allowed' }
+    | { status: 'blocked'; violations: FesEnvelopeViolation[] }
+    | { status: 'needs_confirmation'; increases: FesParameterIncrease[] };
+
+/**
+ * Stimulation commands recorded in the log.
+ */
+export type StimulationCommand = 'fes_params' | 'single_stimulation' | 'emergency_stop';
+
+/**
+ * What happened to a stimulation command.
+ * - `acknowledged`: device ACKed it
+ * - `blocked`: the interlock refused to send it
+ * - `failed`: sent but not acknowledged, or the write failed
+ * - `sent`: written without waiting for an ACK (emergency stop)
+ */
+export type StimulationOutcome = 'acknowledged' | 'blocked' | 'failed' | 'sent';
+
+/**
+ * Why an emergency stop was issued.
+ */
+export type EmergencyStopReason = 'manual' | 'disconnect' | 'background' | 'watchdog' | 'reconnect';
+
+/**
+ * Stimulation Log Entry
+ *
+ * One row per stimulation command, kept locally for audit.
+ */
+export interface StimulationLogEntry {
+    id: string;
+    command: StimulationCommand;
+    outcome: StimulationOutcome;
+    parameters?: FESParametersBody;
+    reason?: EmergencyStopReason;
+    detail?: string; // Violations, confirmation note or error message
+    researcherId?: string;
+    volunteerId?: string;
+    researchId?: string;
+    sessionId?: string;
+    deviceAddress?: string;
+    createdAt: string; // ISO 8601
+}
+
+/**
+ * Data required to append a stimulation log entry.
+ */
+export type NewStimulationLogEntry = Omit<StimulationLogEntry, 'id' | 'createdAt'>;
+
+/**
+ * Who is stimulating whom — attached to every log entry.
+ */
+export interface StimulationContext {
+    researcherId: string;
+    volunteerId: string;
+    researchId?: string;
+    sessionId?: string;
+}
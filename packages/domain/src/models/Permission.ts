@@ -0,0 +1,64 @@
+/**
+ * Permission Models
+ *
+ * What a user may do in the desktop and mobile apps. Each role grants a
+ * fixed set of permissions; a token can grant more through its
+ * `permissions` claim. Screens and actions check permissions, never roles.
+ */
+
+import { UserRole } from './User';
+
+/**
+ * Permission
+ *
+ * `<area>:read` allows viewing, `<area>:write` creating and editing.
+ */
+export type Permission =
+    | 'node:read'
+    | 'node:manage'      // add and edit connections to other nodes
+    | 'node:approve'     // accept or reject connection requests
+    | 'research:read'
+    | 'research:write'
+    | 'volunteer:read'
+    | 'volunteer:write'
+    | 'snomed:read'
+    | 'snomed:admin'     // add and edit SNOMED CT codes
+    | 'user:admin'       // manage users and researchers
+    | 'session:record'   // run clinical sessions and record sEMG
+    | 'fes:stimulate';   // send FES stimulation to a device
+
+export const PERMISSIONS: readonly Permission[] = [
+    'node:read',
+    'node:manage',
+    'node:approve',
+    'research:read',
+    'research:write',
+    'volunteer:read',
+    'volunteer:write',
+    'snomed:read',
+    'snomed:admin',
+    'user:admin',
+    'session:record',
+    'fes:stimulate',
+];
+
+const VIEWER_PERMISSIONS: readonly Permission[] = ['node:read', 'research:read', 'volunteer:read', 'snomed:read'];
+
+const CLINICIAN_PERMISSIONS: readonly Permission[] = [
+    ...VIEWER_PERMISSIONS,
+    'volunteer:write',
+    'session:record',
+    'fes:stimulate',
+];
+
+const RESEARCHER_PERMISSIONS: readonly Permission[] = [...CLINICIAN_PERMISSIONS, 'node:manage', 'research:write'];
+
+/**
+ * Permissions granted by each role.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+    [UserRole.VIEWER]: VIEWER_PERMISSIONS,
+    [UserRole.CLINICIAN]: CLINICIAN_PERMISSIONS,
+    [UserRole.RESEARCHER]: RESEARCHER_PERMISSIONS,
+    [UserRole.ADMIN]: PERMISSIONS,
+};
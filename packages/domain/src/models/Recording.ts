@@ -11,11 +11,26 @@ import { SyncStatus } from './SyncStatus';
  */
 export type DataType = 'raw' | 'filtered' | 'rms';
 
+/**
+ * Signal Integrity
+ *
+ * Continuity of a binary sEMG stream, derived from the timestamps of
+ * consecutive packets.
+ */
+export interface SignalIntegrity {
+    gapCount: number;           // Timestamp jumps longer than one packet interval
+    missingSamples: number;     // Samples lost in those gaps
+    longestGapMs: number;       // Longest stretch without data
+    duplicatePackets: number;   // Repeated packets, dropped before recording
+}
+
 /**
  * Recording
  *
  * Represents a sEMG data recording with metadata including duration,
- * sample count, data type, sample rate, and file path.
+ * sample count, data type, sample rate, and file path. Multi-channel
+ * recordings hold one column per channel; `sampleCount` counts time steps,
+ * i.e. samples per channel.
  */
 export interface Recording {
     id: string;
@@ -25,10 +40,15 @@ export interface Recording {
     sampleCount: number;
     dataType: DataType;
     sampleRate: number;
+    channelCount: number;
+    channelSensorIds?: string[]; // Sensor on each channel, in channel order
     syncStatus: SyncStatus;
     filePath?: string;
     blobUrl?: string;       // Remote blob storage URL (set after sync, NULL before)
+    signalIntegrity?: SignalIntegrity; // Binary device streams only
     recordedAt: string; // ISO 8601
+    syncedAt?: string;      // ISO 8601, when last marked synced
+    purgedAt?: string;      // ISO 8601, when retention deleted the local file
 }
 
 /**
@@ -37,12 +57,34 @@ export interface Recording {
  * Data transfer object for creating a new recording.
  */
 export interface NewRecordingData {
+    id?: string;            // Pre-assigned while recording; generated if absent
     sessionId: string;
     filename: string;
     durationSeconds: number;
     sampleCount: number;
     dataType: DataType;
     sampleRate: number;
+    channelCount?: number;  // Default: 1
+    channelSensorIds?: string[];
     filePath?: string;
     blobUrl?: string;       // Remote blob storage URL
+    signalIntegrity?: SignalIntegrity;
+}
+
+/**
+ * Recording Upload
+ *
+ * Progress of a resumable, chunked recording upload. `acknowledgedBytes` is
+ * the offset the backend has confirmed receiving; `sha256` covers the whole
+ * upload body and is checked against the backend before the recording is
+ * marked synced.
+ */
+export interface RecordingUpload {
+    recordingId: string;
+    uploadId: string;           // Backend upload session
+    sha256: string;             // Hex digest of the full file
+    sizeBytes: number;
+    chunkSizeBytes: number;
+    acknowledgedBytes: number;
+    updatedAt: string;          // ISO 8601
 }
@@ -0,0 +1,55 @@
+/**
+ * Retention Models
+ *
+ * How long synced data stays on the device, and the report of what a purge
+ * removed (or, in a dry run, would remove). Purging keeps metadata stubs:
+ * recording rows keep their blob URL, session rows their ids and timing.
+ */
+
+/**
+ * Retention Policy
+ */
+export interface RetentionPolicy {
+    /** Days a recording file stays on the device after its upload was verified. 0: purge at the next run. */
+    recordingFileDays: number;
+    /** Days volunteer names stay on fully synced sessions. null: keep them. */
+    sessionDetailDays: number | null;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    recordingFileDays: 0,
+    sessionDetailDays: null,
+};
+
+/**
+ * A local recording file due for deletion.
+ */
+export interface RetentionRecordingItem {
+    recordingId: string;
+    sessionId: string;
+    filename: string;
+    filePath: string;
+    syncedAt: string; // ISO 8601
+}
+
+/**
+ * A synced session whose volunteer details are due for removal.
+ */
+export interface RetentionSessionItem {
+    sessionId: string;
+    volunteerName: string | null;
+    startedAt: string; // ISO 8601
+    syncedAt: string; // ISO 8601
+}
+
+/**
+ * Retention Report
+ */
+export interface RetentionReport {
+    dryRun: boolean;
+    policy: RetentionPolicy;
+    generatedAt: string; // ISO 8601
+    recordings: RetentionRecordingItem[];
+    sessions: RetentionSessionItem[];
+    failed: Array<{ entityId: string; error: string }>;
+}
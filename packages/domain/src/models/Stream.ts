@@ -34,8 +34,44 @@ export const BINARY_PACKET_SAMPLES_PER_PACKET = 50;
 /** Total binary packet size in bytes (header + 50 * 2 bytes per sample). */
 export const BINARY_PACKET_TOTAL_SIZE = 108;
 
+/** Multi-channel binary packet message code (StreamDataMultiChannel = 14 = 0x0E). */
+export const BINARY_MULTICHANNEL_PACKET_CODE = 0x0E;
+
+/**
+ * Multi-channel binary packet header size in bytes (magic + code + timestamp
+ * + samples per channel + channel count + layout).
+ */
+export const BINARY_MULTICHANNEL_HEADER_SIZE = 10;
+
+/** Most sEMG channels an electrode can carry. */
+export const MAX_SEMG_CHANNELS = 4;
+
+/** Expected spacing of binary packet timestamps: 50 samples at 215 Hz ≈ 232.56 ms. */
+export const BINARY_PACKET_INTERVAL_MS = (BINARY_PACKET_SAMPLES_PER_PACKET / DEVICE_SAMPLE_RATE_HZ) * 1000;
+
 export type StreamType = 'raw' | 'filtered' | 'rms';
 
+/**
+ * Sample order inside a multi-channel binary packet.
+ * - `interleaved`: one sample of every channel per time step (c0 c1 c0 c1 ...)
+ * - `planar`: all samples of channel 0, then all of channel 1, ...
+ */
+export type ChannelLayout = 'interleaved' | 'planar';
+
+/** Layout byte of a multi-channel packet header. */
+export const CHANNEL_LAYOUT_CODES: Record<ChannelLayout, number> = {
+    interleaved: 0,
+    planar: 1,
+};
+
+/**
+ * Wire format of streamed sEMG samples.
+ * - `binary`: 108-byte frames (firmware v3.1+), or multi-channel frames
+ *   (code 0x0E) from electrodes with more than one channel
+ * - `json`: `{cd:13, bd:{t, v}}` StreamData messages (firmware v2.x)
+ */
+export type StreamFormat = 'binary' | 'json';
+
 /**
  * Stream Configuration
  * Note: `rate` is informational for real devices (always DEVICE_SAMPLE_RATE_HZ)
@@ -48,10 +84,15 @@ export interface StreamConfiguration {
 
 /**
  * Stream Data Packet (from device)
+ *
+ * `values` is always the first channel, so single-channel consumers (chart,
+ * DSP) work unchanged. `channels` is set for packets from multi-channel
+ * frames and holds every channel demultiplexed, `channels[0] === values`.
  */
 export interface StreamDataPacket {
     timestamp: number; // Milliseconds since device boot
     values: number[]; // Array of sEMG samples (5-10 per packet)
+    channels?: number[][]; // Samples per channel, multi-channel frames only
 }
 
 /**
@@ -0,0 +1,45 @@
+/**
+ * Sync Conflict Models
+ *
+ * A sync conflict is recorded when an entity was edited on the device and
+ * its copy on the Research Node changed since the last sync. The entity is
+ * held back from sync until a researcher chooses which values to keep.
+ */
+
+/**
+ * Entity kinds that can be edited on both sides.
+ */
+export type SyncConflictEntityType = 'session' | 'annotation';
+
+/**
+ * Which values win: the device's, the node's, or a per-field pick.
+ */
+export type SyncConflictResolution = 'local' | 'remote' | 'merged';
+
+/**
+ * Comparable field values of one side of a conflict, keyed by field name.
+ */
+export type SyncConflictValues = Record<string, string | number | null>;
+
+/**
+ * Sync Conflict
+ */
+export interface SyncConflict {
+    id: string;
+    entityType: SyncConflictEntityType;
+    entityId: string;
+    sessionId: string;
+    localValues: SyncConflictValues;
+    remoteValues: SyncConflictValues;
+    remoteUpdatedAt: string;    // Backend updatedAt of the conflicting copy
+    detectedAt: string;         // ISO 8601
+    resolution: SyncConflictResolution | null;
+    resolvedAt: string | null;  // ISO 8601
+}
+
+/**
+ * New Sync Conflict Data
+ *
+ * Data transfer object for recording a new conflict.
+ */
+export type NewSyncConflictData = Omit<SyncConflict, 'id' | 'detectedAt' | 'resolution' | 'resolvedAt'>;
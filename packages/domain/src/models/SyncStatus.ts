@@ -6,16 +6,23 @@
 
 export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'failed';
 
+/**
+ * Entity kinds pushed to the Research Node.
+ */
+export type SyncEntityType = 'session' | 'recording' | 'annotation' | 'audit';
+
 /**
  * Sync Queue Item
  *
  * Represents an entity waiting to be synced with the backend.
  * Used for tracking retry state in the optimistic push protocol.
+ * An item exists only while its entity has failed at least once.
  */
 export interface SyncQueueItem {
-    entityType: 'session' | 'recording' | 'annotation';
+    entityType: SyncEntityType;
     entityId: string;
     retryCount: number;
-    lastAttempt: string | null;
+    lastAttempt: string | null;     // ISO 8601
+    nextAttemptAt: string | null;   // ISO 8601; null once retrying has stopped
     errorReason: string | null;
 }
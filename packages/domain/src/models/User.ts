@@ -1,4 +1,5 @@
 import { Researcher } from "./Researcher";
+import type { Permission } from "./Permission";
 
 /**
  * User Role
@@ -17,6 +18,8 @@ export interface User {
     id: string;
     login: string;
     role: UserRole;
+    /** Permissions of the user's roles and explicit grants; ROLE_PERMISSIONS[role] when absent */
+    permissions?: Permission[];
     researcher?: Researcher;
     createdAt?: Date;
     updatedAt?: Date;
@@ -0,0 +1,245 @@
+/**
+ * Bluetooth Protocol Codec
+ *
+ * Encodes and decodes the null-terminated JSON messages exchanged with the
+ * ESP32 NeuroEstimulator ({ cd, mt, bd }), validating every message against
+ * the shape registered for its function code. Binary sEMG frames are not
+ * handled here — see BINARY_PACKET_* in Stream.ts.
+ */
+
+import {
+    BluetoothProtocolFunction,
+    BluetoothProtocolMethod,
+    BluetoothProtocolPayload,
+    BluetoothProtocolBody,
+} from '../models/Bluetooth';
+
+/**
+ * Version of the message table below. Bump when a function code, method or
+ * body field is added, removed or changes meaning.
+ */
+export const BLUETOOTH_PROTOCOL_VERSION = 2;
+
+/** Firmware reads JSON commands up to a null terminator. */
+export const BLUETOOTH_MESSAGE_TERMINATOR = '\0';
+
+type FieldKind = 'number' | 'string' | 'number[]' | 'string[]' | 'object';
+
+interface FieldRule {
+    kind: FieldKind;
+    required?: boolean;
+    values?: readonly string[];
+}
+
+interface MessageSchema {
+    methods: readonly BluetoothProtocolMethod[];
+    /** Body rules, applied to every non-ACK message with this code. */
+    body?: Record<string, FieldRule>;
+    /** Body rules for the ACK, when the firmware answers with data. */
+    ackBody?: Record<string, FieldRule>;
+}
+
+const { READ, WRITE, EXECUTE, ACK } = BluetoothProtocolMethod;
+
+const STREAM_TYPES = ['raw', 'filtered', 'rms'] as const;
+const STREAM_FORMATS = ['binary', 'json'] as const;
+
+const STATUS_BODY: Record<string, FieldRule> = {
+    csa: { kind: 'number' },
+    isa: { kind: 'number' },
+    tlt: { kind: 'number' },
+    sd: { kind: 'number' },
+    m: { kind: 'number' },
+    parameters: { kind: 'object' },
+};
+
+const MESSAGE_SCHEMAS: Record<BluetoothProtocolFunction, MessageSchema> = {
+    [BluetoothProtocolFunction.ConnectionHandshake]: {
+        methods: [READ, ACK],
+        ackBody: {
+            fw: { kind: 'string', required: true },
+            bdt: { kind: 'string' },
+            ft: { kind: 'string[]' },
+            cap: { kind: 'object' },
+        },
+    },
+    [BluetoothProtocolFunction.GyroscopeReading]: {
+        methods: [READ, WRITE, EXECUTE, ACK],
+        body: { a: { kind: 'number' } },
+    },
+    [BluetoothProtocolFunction.StartSession]: { methods: [EXECUTE, ACK] },
+    [BluetoothProtocolFunction.StopSession]: { methods: [EXECUTE, ACK] },
+    [BluetoothProtocolFunction.PauseSession]: { methods: [EXECUTE, WRITE, ACK] },
+    [BluetoothProtocolFunction.ResumeSession]: { methods: [EXECUTE, ACK] },
+    [BluetoothProtocolFunction.SingleStimuli]: { methods: [EXECUTE, ACK] },
+    [BluetoothProtocolFunction.FesParam]: {
+        methods: [READ, WRITE, ACK],
+        body: {
+            a: { kind: 'number', required: true },
+            f: { kind: 'number', required: true },
+            pw: { kind: 'number', required: true },
+            df: { kind: 'number', required: true },
+            pd: { kind: 'number', required: true },
+        },
+    },
+    [BluetoothProtocolFunction.Status]: { methods: [READ, WRITE, ACK], body: STATUS_BODY },
+    [BluetoothProtocolFunction.Trigger]: { methods: [WRITE, EXECUTE, ACK] },
+    [BluetoothProtocolFunction.EmergencyStop]: { methods: [WRITE, EXECUTE, ACK] },
+    [BluetoothProtocolFunction.StartStream]: { methods: [EXECUTE, ACK] },
+    [BluetoothProtocolFunction.StopStream]: { methods: [EXECUTE, ACK] },
+    [BluetoothProtocolFunction.StreamData]: {
+        methods: [WRITE],
+        body: {
+            t: { kind: 'number', required: true },
+            v: { kind: 'number[]', required: true },
+        },
+    },
+    [BluetoothProtocolFunction.ConfigStream]: {
+        methods: [WRITE, ACK],
+        body: {
+            rate: { kind: 'number', required: true },
+            type: { kind: 'string', required: true, values: STREAM_TYPES },
+            fmt: { kind: 'string', values: STREAM_FORMATS },
+        },
+    },
+};
+
+/**
+ * Outcome of decoding one incoming message.
+ */
+export type BluetoothDecodeResult =
+    | { ok: true; message: BluetoothProtocolPayload }
+    | { ok: false; error: string };
+
+/**
+ * Check a payload against the message table. Returns the list of problems
+ * found; an empty list means the message is valid.
+ */
+export function validateBluetoothMessage(payload: unknown): string[] {
+    if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+        return ['message must be a JSON object'];
+    }
+
+    const { cd, mt, bd } = payload as Record<string, unknown>;
+    const issues: string[] = [];
+
+    if (typeof cd !== 'number' || !(cd in MESSAGE_SCHEMAS)) {
+        return [`unknown function code: ${String(cd)}`];
+    }
+
+    const schema = MESSAGE_SCHEMAS[cd as BluetoothProtocolFunction];
+    const name = BluetoothProtocolFunction[cd];
+
+    if (typeof mt !== 'string' || !schema.methods.includes(mt as BluetoothProtocolMethod)) {
+        issues.push(`${name}: method "${String(mt)}" not allowed (expected ${schema.methods.join('|')})`);
+    }
+
+    if (bd !== undefined && (bd === null || typeof bd !== 'object' || Array.isArray(bd))) {
+        issues.push(`${name}: body must be an object`);
+        return issues;
+    }
+
+    const rules = mt === ACK ? schema.ackBody : schema.body;
+    if (!rules) {
+        return issues;
+    }
+
+    // Plain ACKs carry no body; rules only apply when one is present.
+    if (mt === ACK && bd === undefined) {
+        return issues;
+    }
+
+    const body = (bd ?? {}) as Record<string, unknown>;
+    for (const [field, rule] of Object.entries(rules)) {
+        const value = body[field];
+        if (value === undefined) {
+            if (rule.required && mt !== READ) {
+                issues.push(`${name}: missing body field "${field}"`);
+            }
+            continue;
+        }
+        const problem = checkField(value, rule);
+        if (problem) {
+            issues.push(`${name}: body field "${field}" ${problem}`);
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Build a payload, omitting `bd` when no body is given.
+ */
+export function createBluetoothMessage(
+    code: BluetoothProtocolFunction,
+    method: BluetoothProtocolMethod,
+    body?: BluetoothProtocolBody
+): BluetoothProtocolPayload {
+    return body === undefined ? { cd: code, mt: method } : { cd: code, mt: method, bd: body };
+}
+
+/**
+ * Validate and serialize a payload into a wire frame (JSON + terminator).
+ * Throws if the payload does not match the message table.
+ */
+export function encodeBluetoothMessage(payload: BluetoothProtocolPayload): string {
+    const issues = validateBluetoothMessage(payload);
+    if (issues.length > 0) {
+        throw new Error(`BluetoothCodec: invalid message — ${issues.join('; ')}`);
+    }
+    return JSON.stringify(payload) + BLUETOOTH_MESSAGE_TERMINATOR;
+}
+
+/**
+ * Parse and validate one incoming JSON message. Accepts raw bytes or text,
+ * with or without trailing terminators.
+ */
+export function decodeBluetoothMessage(input: string | Uint8Array): BluetoothDecodeResult {
+    const text = (typeof input === 'string' ? input : new TextDecoder().decode(input))
+        .replace(/\0+$/, '')
+        .trim();
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        return { ok: false, error: `malformed JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const issues = validateBluetoothMessage(parsed);
+    if (issues.length > 0) {
+        return { ok: false, error: issues.join('; ') };
+    }
+
+    return { ok: true, message: parsed as BluetoothProtocolPayload };
+}
+
+/**
+ * True when `message` acknowledges a command with the given function code.
+ */
+export function isBluetoothAck(message: BluetoothProtocolPayload, code: BluetoothProtocolFunction): boolean {
+    return message.cd === code && message.mt === ACK;
+}
+
+function checkField(value: unknown, rule: FieldRule): string | null {
+    switch (rule.kind) {
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a finite number';
+        case 'string':
+            if (typeof value !== 'string') return 'must be a string';
+            if (rule.values && !rule.values.includes(value)) {
+                return `must be one of ${rule.values.join('|')}`;
+            }
+            return null;
+        case 'number[]':
+            return Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v))
+                ? null
+                : 'must be an array of finite numbers';
+        case 'string[]':
+            return Array.isArray(value) && value.every(v => typeof v === 'string')
+                ? null
+                : 'must be an array of strings';
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value) ? null : 'must be an object';
+    }
+}
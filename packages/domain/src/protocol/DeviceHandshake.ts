@@ -0,0 +1,121 @@
+/**
+ * Device Handshake
+ *
+ * Turns the ConnectionHandshake ACK into a DeviceConfiguration and answers
+ * the questions the app asks of it: which stream format the firmware speaks
+ * and which FES values the hardware accepts.
+ */
+
+import { BluetoothProtocolBody, FESParametersBody } from '../models/Bluetooth';
+import { DeviceCapabilities, DeviceConfiguration, DeviceType, FirmwareInfo } from '../models/Device';
+import { DEVICE_SAMPLE_RATE_HZ, BINARY_PACKET_SAMPLES_PER_PACKET, StreamFormat } from '../models/Stream';
+
+/** First firmware release that streams 108-byte binary frames. */
+export const MIN_BINARY_STREAM_FIRMWARE_VERSION = '3.1.0';
+
+/**
+ * Capabilities assumed when the firmware omits a field (or does not answer
+ * the handshake at all). Matches the NeuroEstimulator hardware ranges.
+ */
+export const DEFAULT_DEVICE_CAPABILITIES: DeviceCapabilities = {
+    fes: {
+        minAmplitude: 0,
+        maxAmplitude: 15,
+        minFrequency: 1,
+        maxFrequency: 100,
+        minPulseWidth: 1,
+        maxPulseWidth: 1000,
+    },
+    streaming: {
+        minRate: DEVICE_SAMPLE_RATE_HZ,
+        maxRate: DEVICE_SAMPLE_RATE_HZ,
+        supportedTypes: ['raw', 'filtered', 'rms'],
+        bufferSize: BINARY_PACKET_SAMPLES_PER_PACKET,
+    },
+    sensors: {
+        hasGyroscope: true,
+        hasAccelerometer: false,
+        hasTemperature: false,
+    },
+};
+
+/**
+ * Compare two dotted version strings ("3.1", "v3.1.2"). Missing or
+ * non-numeric parts count as 0. Returns <0, 0 or >0.
+ */
+export function compareFirmwareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.replace(/^v/i, '').split('.').map(part => parseInt(part, 10) || 0);
+    const left = parse(a);
+    const right = parse(b);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] ?? 0) - (right[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * Stream format to request from a firmware. Binary frames are refused for
+ * anything older than MIN_BINARY_STREAM_FIRMWARE_VERSION.
+ */
+export function resolveStreamFormat(firmware: FirmwareInfo): StreamFormat {
+    return compareFirmwareVersions(firmware.version, MIN_BINARY_STREAM_FIRMWARE_VERSION) >= 0 ? 'binary' : 'json';
+}
+
+/**
+ * Build a DeviceConfiguration from a ConnectionHandshake ACK body.
+ */
+export function parseDeviceConfiguration(
+    body: BluetoothProtocolBody,
+    device: { address: string; name: string }
+): DeviceConfiguration {
+    const cap = body.cap ?? {};
+    const defaults = DEFAULT_DEVICE_CAPABILITIES;
+
+    return {
+        deviceId: device.address,
+        name: device.name,
+        type: DeviceType.NEURO_ESTIMULATOR,
+        firmware: {
+            version: body.fw ?? '0.0.0',
+            buildDate: body.bdt ?? '',
+            features: body.ft ?? [],
+        },
+        capabilities: {
+            fes: {
+                minAmplitude: cap.amin ?? defaults.fes.minAmplitude,
+                maxAmplitude: cap.amax ?? defaults.fes.maxAmplitude,
+                minFrequency: cap.fmin ?? defaults.fes.minFrequency,
+                maxFrequency: cap.fmax ?? defaults.fes.maxFrequency,
+                minPulseWidth: cap.pwmin ?? defaults.fes.minPulseWidth,
+                maxPulseWidth: cap.pwmax ?? defaults.fes.maxPulseWidth,
+            },
+            streaming: {
+                minRate: cap.rmin ?? defaults.streaming.minRate,
+                maxRate: cap.rmax ?? defaults.streaming.maxRate,
+                supportedTypes: cap.st ?? defaults.streaming.supportedTypes,
+                bufferSize: cap.buf ?? defaults.streaming.bufferSize,
+            },
+            sensors: {
+                hasGyroscope: cap.gy ?? defaults.sensors.hasGyroscope,
+                hasAccelerometer: cap.acc ?? defaults.sensors.hasAccelerometer,
+                hasTemperature: cap.tmp ?? defaults.sensors.hasTemperature,
+            },
+        },
+    };
+}
+
+/**
+ * Clamp amplitude, frequency and pulse width into the device's FES range.
+ * Difficulty and duration are not hardware-limited and pass through.
+ */
+export function clampFesParameters(params: FESParametersBody, capabilities: DeviceCapabilities): FESParametersBody {
+    const { fes } = capabilities;
+    const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+    return {
+        ...params,
+        a: clamp(params.a, fes.minAmplitude, fes.maxAmplitude),
+        f: clamp(params.f, fes.minFrequency, fes.maxFrequency),
+        pw: clamp(params.pw, fes.minPulseWidth, fes.maxPulseWidth),
+    };
+}
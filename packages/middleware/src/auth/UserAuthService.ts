@@ -13,6 +13,27 @@ import type {
 } from './UserAuthService.types';
 import { DEFAULT_USER_AUTH_OPTIONS } from './UserAuthService.types';
 
+// Role claim names: plain JWT and the ASP.NET Core ClaimTypes.Role URI
+const ROLE_CLAIMS = ['role', 'roles', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role'];
+const PERMISSION_CLAIMS = ['permission', 'permissions'];
+
+/**
+ * Collect the values of a multi-valued claim. A claim holds a single string
+ * when the user has one value and an array otherwise.
+ */
+function claimValues(payload: Record<string, unknown>, names: string[]): string[] {
+    const values = new Set<string>();
+    for (const name of names) {
+        const claim = payload[name];
+        for (const value of Array.isArray(claim) ? claim : [claim]) {
+            if (typeof value === 'string' && value.trim() !== '') {
+                values.add(value.trim());
+            }
+        }
+    }
+    return [...values];
+}
+
 interface StoredAuthState {
     token: string;
     expiresAt: string;
@@ -129,7 +150,8 @@ export class UserAuthService {
 
     /**
      * Decode user information from JWT token
-     * Backend includes user info in JWT claims: sub, login, name, email, orcid
+     * Backend includes user info in JWT claims: sub, login, name, email, orcid,
+     * and the user's roles and explicitly granted permissions
      */
     private decodeUserFromToken(token: string, username: string): User {
         try {
@@ -147,7 +169,8 @@ export class UserAuthService {
                 username: payload.login || username,
                 email: payload.email || '',
                 name: payload.name,
-                roles: [] // Backend doesn't return roles in current implementation
+                roles: claimValues(payload, ROLE_CLAIMS),
+                permissions: claimValues(payload, PERMISSION_CLAIMS)
             };
         } catch (error) {
             console.error('[UserAuthService] Failed to decode JWT:', error);
@@ -192,8 +215,14 @@ export class UserAuthService {
             throw new Error('Invalid refresh response: missing token or expiration');
         }
 
+        // Roles granted or revoked since login take effect with the new token
+        const refreshed = this.decodeUserFromToken(token, this.currentUser!.username);
+        const user: User = refreshed.id
+            ? { ...this.currentUser!, roles: refreshed.roles, permissions: refreshed.permissions }
+            : this.currentUser!;
+
         // Update stored token
-        await this.setAuthState(token, expiresAt, this.currentUser!);
+        await this.setAuthState(token, expiresAt, user);
 
         // Reschedule token refresh
         this.scheduleTokenRefresh();
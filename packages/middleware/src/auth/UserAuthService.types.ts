@@ -15,7 +15,10 @@ export interface User {
     username: string;
     email: string;
     name?: string;
+    /** Role names from the token's role claims, e.g. 'Admin' or 'clinician' */
     roles?: string[];
+    /** Permissions granted in the token besides those of the roles */
+    permissions?: string[];
 }
 
 export interface LoginRequest extends Record<string, unknown> {
@@ -1,9 +1,25 @@
 import type { CryptoDriver } from '../crypto/CryptoDriver';
 import type { HttpClient } from '../http/HttpClient';
-import type { ChannelOpenResponse, ChannelRuntimeState, PersistedChannelState } from '../types';
+import type { ChannelCipher, ChannelOpenResponse, ChannelRuntimeState, PersistedChannelState } from '../types';
+import { DEFAULT_CHANNEL_CIPHER, SUPPORTED_CHANNEL_CIPHERS } from '../types';
 
 const DEFAULT_CHANNEL_TTL_MS = 30 * 60 * 1000; // 30 minutes
 
+/**
+ * Cipher the node selected, matched case-insensitively against the ones
+ * offered. Nodes that predate negotiation do not name one and use AES-256-GCM.
+ */
+function negotiatedCipher(selected: string | undefined): ChannelCipher {
+    if (!selected) {
+        return DEFAULT_CHANNEL_CIPHER;
+    }
+    const cipher = SUPPORTED_CHANNEL_CIPHERS.find(supported => supported.toLowerCase() === selected.toLowerCase());
+    if (!cipher) {
+        throw new Error(`ChannelManager: server selected unsupported cipher ${selected}.`);
+    }
+    return cipher;
+}
+
 export class ChannelManager {
     constructor(private readonly httpClient: HttpClient, private readonly cryptoDriver: CryptoDriver) {}
 
@@ -16,7 +32,7 @@ export class ChannelManager {
         crypto.getRandomValues(nonceArray);
         const nonce = btoa(String.fromCharCode(...nonceArray));
 
-        const response = await this.httpClient.request<{ ephemeralPublicKey: string; nonce: string }>({
+        const response = await this.httpClient.request<{ ephemeralPublicKey: string; nonce: string; selectedCipher?: string }>({
             url: '/api/channel/open',
             method: 'POST',
             headers: {
@@ -26,7 +42,7 @@ export class ChannelManager {
                 protocolVersion: '1.0',
                 ephemeralPublicKey: ephemeral.publicKey,
                 keyExchangeAlgorithm: 'ECDH-P384',
-                supportedCiphers: ['AES-256-GCM', 'ChaCha20-Poly1305'],
+                supportedCiphers: [...SUPPORTED_CHANNEL_CIPHERS],
                 timestamp: new Date().toISOString(),
                 nonce: nonce
             }
@@ -47,6 +63,8 @@ export class ChannelManager {
             throw new Error('ChannelManager: server nonce missing in channel open response.');
         }
 
+        const cipher = negotiatedCipher(response.data.selectedCipher);
+
         const symmetricKey = await this.cryptoDriver.deriveSymmetricKey({
             privateKey: ephemeral.privateKey,
             peerPublicKey: serverPublicKey,
@@ -59,6 +77,7 @@ export class ChannelManager {
 
         const runtime: ChannelRuntimeState = {
             channelId,
+            cipher,
             cryptoKey: symmetricKey,
             symmetricKey: symmetricKeyExport,
             expiresAt,
@@ -69,6 +88,7 @@ export class ChannelManager {
 
         const persisted: PersistedChannelState = {
             channelId,
+            cipher,
             symmetricKey: symmetricKeyExport,
             expiresAt: expiresAt.toISOString(),
             metadata: {
@@ -78,6 +98,7 @@ export class ChannelManager {
 
         const openResponse: ChannelOpenResponse = {
             channelId,
+            cipher,
             serverPublicKey,
             expiresAt
         };
@@ -97,6 +118,7 @@ export class ChannelManager {
         const cryptoKey = await this.cryptoDriver.importSymmetricKey(state.symmetricKey);
         return {
             channelId: state.channelId,
+            cipher: state.cipher ?? DEFAULT_CHANNEL_CIPHER,
             symmetricKey: state.symmetricKey,
             cryptoKey,
             expiresAt: new Date(state.expiresAt),
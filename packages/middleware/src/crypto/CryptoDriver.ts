@@ -1,17 +1,24 @@
-import type { EncryptedPayload } from '../types';
+import type { ChannelCipher, EncryptedPayload } from '../types';
+import { DEFAULT_CHANNEL_CIPHER } from '../types';
+import { chacha20Poly1305Open, chacha20Poly1305Seal } from './chacha20poly1305';
 
 export interface EphemeralKeyPair {
     publicKey: string;
     privateKey: CryptoKey;
 }
 
+/**
+ * The symmetric key is the same 32-byte HKDF output for every cipher; the
+ * channel's negotiated cipher is passed to encrypt/decrypt and defaults to
+ * AES-256-GCM. Both ciphers use a 12-byte nonce (`iv`) and a 16-byte tag.
+ */
 export interface CryptoDriver {
     generateEphemeralKeyPair(): Promise<EphemeralKeyPair>;
     deriveSymmetricKey(params: { privateKey: CryptoKey; peerPublicKey: string; clientNonce: string; serverNonce: string }): Promise<CryptoKey>;
     exportSymmetricKey(key: CryptoKey): Promise<string>;
     importSymmetricKey(key: string): Promise<CryptoKey>;
-    encrypt(payload: unknown, symmetricKey: CryptoKey): Promise<EncryptedPayload>;
-    decrypt<T>(payload: EncryptedPayload, symmetricKey: CryptoKey): Promise<T>;
+    encrypt(payload: unknown, symmetricKey: CryptoKey, cipher?: ChannelCipher): Promise<EncryptedPayload>;
+    decrypt<T>(payload: EncryptedPayload, symmetricKey: CryptoKey, cipher?: ChannelCipher): Promise<T>;
 }
 
 function bufferToBase64(buffer: ArrayBuffer): string {
@@ -53,6 +60,10 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
     return bytes.buffer;
 }
 
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
 const INFO_CONTEXT = new TextEncoder().encode('IRN-Channel-v1.0');
 
 export class WebCryptoDriver implements CryptoDriver {
@@ -151,7 +162,7 @@ export class WebCryptoDriver implements CryptoDriver {
         );
     }
 
-    async encrypt(payload: unknown, symmetricKey: CryptoKey): Promise<EncryptedPayload> {
+    async encrypt(payload: unknown, symmetricKey: CryptoKey, cipher: ChannelCipher = DEFAULT_CHANNEL_CIPHER): Promise<EncryptedPayload> {
         const cryptoObj = globalThis.crypto;
         if (!cryptoObj || typeof cryptoObj.getRandomValues !== 'function') {
             throw new Error('No crypto implementation available for random values.');
@@ -160,6 +171,17 @@ export class WebCryptoDriver implements CryptoDriver {
         const iv = cryptoObj.getRandomValues(new Uint8Array(12));
         const encodedPayload = new TextEncoder().encode(JSON.stringify(payload));
 
+        // WebCrypto has no ChaCha20: seal with the raw key bytes instead
+        if (cipher === 'ChaCha20-Poly1305') {
+            const key = new Uint8Array(await this.subtle.exportKey('raw', symmetricKey));
+            const sealed = chacha20Poly1305Seal(key, iv, encodedPayload);
+            return {
+                encryptedData: bufferToBase64(toArrayBuffer(sealed.ciphertext)),
+                iv: bufferToBase64(toArrayBuffer(iv)),
+                authTag: bufferToBase64(toArrayBuffer(sealed.authTag))
+            };
+        }
+
         const encrypted = await this.subtle.encrypt(
             {
                 name: 'AES-GCM',
@@ -187,10 +209,17 @@ export class WebCryptoDriver implements CryptoDriver {
         };
     }
 
-    async decrypt<T>(payload: EncryptedPayload, symmetricKey: CryptoKey): Promise<T> {
+    async decrypt<T>(payload: EncryptedPayload, symmetricKey: CryptoKey, cipher: ChannelCipher = DEFAULT_CHANNEL_CIPHER): Promise<T> {
     const ciphertext = new Uint8Array(base64ToArrayBuffer(payload.encryptedData));
     const iv = new Uint8Array(base64ToArrayBuffer(payload.iv));
     const tag = new Uint8Array(base64ToArrayBuffer(payload.authTag));
+
+        if (cipher === 'ChaCha20-Poly1305') {
+            const key = new Uint8Array(await this.subtle.exportKey('raw', symmetricKey));
+            const plaintext = chacha20Poly1305Open(key, iv, ciphertext, tag);
+            return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+        }
+
     const combined = new Uint8Array(ciphertext.byteLength + tag.byteLength);
 
     combined.set(ciphertext, 0);
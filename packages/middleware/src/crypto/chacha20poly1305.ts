@@ -0,0 +1,195 @@
+/**
+ * ChaCha20-Poly1305 AEAD (RFC 8439)
+ *
+ * WebCrypto has no ChaCha20, so WebCryptoDriver uses this implementation for
+ * channels that negotiated it. Poly1305 runs on BigInt, which is plenty for
+ * JSON request and response bodies.
+ */
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+export const CHACHA20_POLY1305_TAG_LENGTH = 16;
+
+function rotl(value: number, shift: number): number {
+    return (value << shift) | (value >>> (32 - shift));
+}
+
+function quarterRound(state: Uint32Array, a: number, b: number, c: number, d: number): void {
+    state[a] = (state[a] + state[b]) >>> 0; state[d] = rotl(state[d] ^ state[a], 16);
+    state[c] = (state[c] + state[d]) >>> 0; state[b] = rotl(state[b] ^ state[c], 12);
+    state[a] = (state[a] + state[b]) >>> 0; state[d] = rotl(state[d] ^ state[a], 8);
+    state[c] = (state[c] + state[d]) >>> 0; state[b] = rotl(state[b] ^ state[c], 7);
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+/** One 64-byte ChaCha20 keystream block (RFC 8439 §2.3) */
+function chacha20Block(key: Uint8Array, counter: number, nonce: Uint8Array): Uint8Array {
+    const initial = new Uint32Array(16);
+    // "expand 32-byte k"
+    initial[0] = 0x61707865;
+    initial[1] = 0x3320646e;
+    initial[2] = 0x79622d32;
+    initial[3] = 0x6b206574;
+    for (let i = 0; i < 8; i += 1) {
+        initial[4 + i] = readUint32LE(key, i * 4);
+    }
+    initial[12] = counter >>> 0;
+    for (let i = 0; i < 3; i += 1) {
+        initial[13 + i] = readUint32LE(nonce, i * 4);
+    }
+
+    const working = initial.slice();
+    for (let round = 0; round < 10; round += 1) {
+        quarterRound(working, 0, 4, 8, 12);
+        quarterRound(working, 1, 5, 9, 13);
+        quarterRound(working, 2, 6, 10, 14);
+        quarterRound(working, 3, 7, 11, 15);
+        quarterRound(working, 0, 5, 10, 15);
+        quarterRound(working, 1, 6, 11, 12);
+        quarterRound(working, 2, 7, 8, 13);
+        quarterRound(working, 3, 4, 9, 14);
+    }
+
+    const output = new Uint8Array(64);
+    for (let i = 0; i < 16; i += 1) {
+        const word = (working[i] + initial[i]) >>> 0;
+        output[i * 4] = word & 0xff;
+        output[i * 4 + 1] = (word >>> 8) & 0xff;
+        output[i * 4 + 2] = (word >>> 16) & 0xff;
+        output[i * 4 + 3] = (word >>> 24) & 0xff;
+    }
+    return output;
+}
+
+/** ChaCha20 encryption / decryption starting at a block counter (RFC 8439 §2.4) */
+function chacha20Xor(key: Uint8Array, counter: number, nonce: Uint8Array, data: Uint8Array): Uint8Array {
+    const output = new Uint8Array(data.length);
+    for (let offset = 0, block = counter; offset < data.length; offset += 64, block += 1) {
+        const keystream = chacha20Block(key, block, nonce);
+        const end = Math.min(offset + 64, data.length);
+        for (let i = offset; i < end; i += 1) {
+            output[i] = data[i] ^ keystream[i - offset];
+        }
+    }
+    return output;
+}
+
+function littleEndianToBigInt(bytes: Uint8Array): bigint {
+    let value = BigInt(0);
+    for (let i = bytes.length - 1; i >= 0; i -= 1) {
+        value = (value << BigInt(8)) | BigInt(bytes[i]);
+    }
+    return value;
+}
+
+const POLY1305_P = (BigInt(1) << BigInt(130)) - BigInt(5);
+const POLY1305_R_CLAMP = BigInt('0x0ffffffc0ffffffc0ffffffc0fffffff');
+const MASK_128 = (BigInt(1) << BigInt(128)) - BigInt(1);
+
+/** Poly1305 one-time authenticator (RFC 8439 §2.5) */
+function poly1305(oneTimeKey: Uint8Array, message: Uint8Array): Uint8Array {
+    const r = littleEndianToBigInt(oneTimeKey.subarray(0, 16)) & POLY1305_R_CLAMP;
+    const s = littleEndianToBigInt(oneTimeKey.subarray(16, 32));
+
+    let accumulator = BigInt(0);
+    for (let offset = 0; offset < message.length; offset += 16) {
+        const chunk = message.subarray(offset, Math.min(offset + 16, message.length));
+        const n = littleEndianToBigInt(chunk) + (BigInt(1) << BigInt(8 * chunk.length));
+        accumulator = ((accumulator + n) * r) % POLY1305_P;
+    }
+
+    let tag = (accumulator + s) & MASK_128;
+    const output = new Uint8Array(16);
+    for (let i = 0; i < 16; i += 1) {
+        output[i] = Number(tag & BigInt(0xff));
+        tag >>= BigInt(8);
+    }
+    return output;
+}
+
+function pad16(length: number): Uint8Array {
+    return new Uint8Array((16 - (length % 16)) % 16);
+}
+
+function uint64LE(value: number): Uint8Array {
+    const output = new Uint8Array(8);
+    let remaining = value;
+    for (let i = 0; i < 8; i += 1) {
+        output[i] = remaining % 256;
+        remaining = Math.floor(remaining / 256);
+    }
+    return output;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+}
+
+function computeTag(key: Uint8Array, nonce: Uint8Array, ciphertext: Uint8Array, aad: Uint8Array): Uint8Array {
+    const oneTimeKey = chacha20Block(key, 0, nonce).subarray(0, 32);
+    return poly1305(
+        oneTimeKey,
+        concat([aad, pad16(aad.length), ciphertext, pad16(ciphertext.length), uint64LE(aad.length), uint64LE(ciphertext.length)])
+    );
+}
+
+function checkParameters(key: Uint8Array, nonce: Uint8Array): void {
+    if (key.length !== KEY_LENGTH) {
+        throw new Error(`ChaCha20-Poly1305: key must be ${KEY_LENGTH} bytes, got ${key.length}`);
+    }
+    if (nonce.length !== NONCE_LENGTH) {
+        throw new Error(`ChaCha20-Poly1305: nonce must be ${NONCE_LENGTH} bytes, got ${nonce.length}`);
+    }
+}
+
+/**
+ * Encrypt and authenticate.
+ *
+ * @returns Ciphertext (same length as the plaintext) and 16-byte tag
+ */
+export function chacha20Poly1305Seal(
+    key: Uint8Array,
+    nonce: Uint8Array,
+    plaintext: Uint8Array,
+    aad: Uint8Array = new Uint8Array(0)
+): { ciphertext: Uint8Array; authTag: Uint8Array } {
+    checkParameters(key, nonce);
+    const ciphertext = chacha20Xor(key, 1, nonce, plaintext);
+    return { ciphertext, authTag: computeTag(key, nonce, ciphertext, aad) };
+}
+
+/**
+ * Verify and decrypt.
+ *
+ * @throws Error when the tag does not match
+ */
+export function chacha20Poly1305Open(
+    key: Uint8Array,
+    nonce: Uint8Array,
+    ciphertext: Uint8Array,
+    authTag: Uint8Array,
+    aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+    checkParameters(key, nonce);
+    const expected = computeTag(key, nonce, ciphertext, aad);
+
+    // Compare every byte so the time taken does not reveal where they differ
+    let difference = authTag.length ^ CHACHA20_POLY1305_TAG_LENGTH;
+    for (let i = 0; i < CHACHA20_POLY1305_TAG_LENGTH; i += 1) {
+        difference |= expected[i] ^ (authTag[i] ?? 0);
+    }
+    if (difference !== 0) {
+        throw new Error('ChaCha20-Poly1305: authentication tag mismatch');
+    }
+
+    return chacha20Xor(key, 1, nonce, ciphertext);
+}
@@ -2,6 +2,14 @@ import type { HttpClient, HttpRequest, HttpResponse } from './HttpClient';
 import type { ChannelManager } from '../channel/ChannelManager';
 import type { CryptoDriver } from '../crypto/CryptoDriver';
 import type { ChannelRuntimeState, EncryptedPayload } from '../types';
+import {
+    DEFAULT_MAX_RESPONSE_SKEW_MS,
+    REQUEST_SEQUENCE_HEADER,
+    REQUEST_TIMESTAMP_HEADER,
+    stampFields,
+    verifyResponseEcho,
+    type RequestStamp
+} from '../session/requestFreshness';
 
 /**
  * List of public endpoints that should NOT be encrypted
@@ -28,20 +36,36 @@ function isPublicEndpoint(url: string): boolean {
  * This client is useful for:
  * - Low-level channel operations
  * - Custom endpoints that need encryption but not session management
+ *
+ * Encrypted requests carry a sequence number (per channel) and a timestamp,
+ * as `requestSequence` / `requestTimestamp` next to the body's own fields,
+ * or as headers when there is no object body. With `replayProtection` the
+ * node must echo them in every encrypted response (see
+ * session/requestFreshness.ts); responses that do not are rejected.
  */
+export interface EncryptedHttpClientOptions {
+    replayProtection?: boolean;
+    maxResponseSkewMs?: number;
+}
+
 export class EncryptedHttpClient implements HttpClient {
     private currentChannel: ChannelRuntimeState | null = null;
+    private sequence = 0;
 
     constructor(
         private readonly baseClient: HttpClient,
         private readonly channelManager: ChannelManager,
-        private readonly cryptoDriver: CryptoDriver
+        private readonly cryptoDriver: CryptoDriver,
+        private readonly options: EncryptedHttpClientOptions = {}
     ) {}
 
     /**
      * Set the current channel for encryption
      */
     setChannel(channel: ChannelRuntimeState | null): void {
+        if (channel?.channelId !== this.currentChannel?.channelId) {
+            this.sequence = 0;
+        }
         this.currentChannel = channel;
     }
 
@@ -77,18 +101,33 @@ export class EncryptedHttpClient implements HttpClient {
             return this.baseClient.request<TResponse, TPayload>(request);
         }
 
-        // Encrypt the request body if present
-        let encryptedBody: EncryptedPayload | undefined;
-        if (request.body !== undefined) {
-            encryptedBody = await this.cryptoDriver.encrypt(request.body, channel.cryptoKey);
-        }
+        this.sequence += 1;
+        const stamp: RequestStamp = { sequence: this.sequence, timestamp: new Date().toISOString() };
 
         // Add channel header
-        const headers = {
+        const headers: Record<string, string> = {
             ...(request.headers ?? {}),
             'X-Channel-Id': channel.channelId
         };
 
+        // The stamp goes inside an object body, in headers otherwise
+        const body = request.body as unknown;
+        const stampInBody = typeof body === 'object' && body !== null && !Array.isArray(body);
+        if (!stampInBody) {
+            headers[REQUEST_SEQUENCE_HEADER] = String(stamp.sequence);
+            headers[REQUEST_TIMESTAMP_HEADER] = stamp.timestamp;
+        }
+
+        // Encrypt the request body if present
+        let encryptedBody: EncryptedPayload | undefined;
+        if (body !== undefined) {
+            encryptedBody = await this.cryptoDriver.encrypt(
+                stampInBody ? { ...body, ...stampFields(stamp) } : body,
+                channel.cryptoKey,
+                channel.cipher
+            );
+        }
+
         // Make the request with encrypted payload
         const response = await this.baseClient.request<EncryptedPayload | TResponse, EncryptedPayload | TPayload>({
             ...request,
@@ -108,12 +147,15 @@ export class EncryptedHttpClient implements HttpClient {
             // Decrypt the response
             const decrypted = await this.cryptoDriver.decrypt<TResponse>(
                 responseData as EncryptedPayload,
-                channel.cryptoKey
+                channel.cryptoKey,
+                channel.cipher
             );
 
             return {
                 ...response,
-                data: decrypted
+                data: this.options.replayProtection
+                    ? verifyResponseEcho(decrypted, stamp, this.options.maxResponseSkewMs ?? DEFAULT_MAX_RESPONSE_SKEW_MS)
+                    : decrypted
             };
         }
 
@@ -132,7 +174,7 @@ export class EncryptedHttpClient implements HttpClient {
 
         // Open a new channel
         const { runtime } = await this.channelManager.openChannel();
-        this.currentChannel = runtime;
+        this.setChannel(runtime);
         return runtime;
     }
 
@@ -140,6 +182,6 @@ export class EncryptedHttpClient implements HttpClient {
      * Clear the current channel
      */
     clearChannel(): void {
-        this.currentChannel = null;
+        this.setChannel(null);
     }
 }
@@ -15,8 +15,10 @@ export type {
     AuthenticationPayload,
     AuthenticationResult,
     SessionWhoAmIResult,
-    SessionRenewResult
+    SessionRenewResult,
+    ChannelCipher
 } from './types';
+export { SUPPORTED_CHANNEL_CIPHERS, DEFAULT_CHANNEL_CIPHER } from './types';
 
 export type { SecureStorage, SecureStorageOptions } from './storage/SecureStorage';
 export { withKeyPrefix } from './storage/SecureStorage';
@@ -32,8 +34,19 @@ export { ChannelManager } from './channel/ChannelManager';
 export { SessionManager, type JwtTokenProvider } from './session/SessionManager';
 export { WebCryptoDriver } from './crypto/CryptoDriver';
 export type { CryptoDriver, EphemeralKeyPair } from './crypto/CryptoDriver';
+export { chacha20Poly1305Seal, chacha20Poly1305Open } from './crypto/chacha20poly1305';
 export { FetchHttpClient } from './http/HttpClient';
-export { EncryptedHttpClient } from './http/EncryptedHttpClient';
+export { EncryptedHttpClient, type EncryptedHttpClientOptions } from './http/EncryptedHttpClient';
+export {
+    REPLAY_PROTECTION_CAPABILITY,
+    RATE_LIMIT_CAPABILITY_PREFIX,
+    parseRateWindow,
+    hasReplayProtection,
+    reserveRequest,
+    verifyResponseEcho,
+    RequestRateLimitError
+} from './session/requestFreshness';
+export type { RequestStamp, RequestEcho, RateWindow } from './session/requestFreshness';
 export type { HttpClient, HttpRequest, HttpResponse, HttpMethod } from './http/HttpClient';
 export { ResearchNodeMiddleware } from './service/ResearchNodeMiddleware';
 export type {
@@ -42,6 +55,28 @@ export type {
     IdentifyPayloadFactoryContext,
     ChallengeSignatureContext
 } from './service/ResearchNodeMiddleware';
+export {
+    createCorrelationIdInterceptor,
+    createMetricsInterceptor,
+    createRetryInterceptor,
+    createLoggingInterceptor,
+    redactPii,
+    errorStatus,
+    CORRELATION_ID_HEADER,
+    DEFAULT_PII_KEYS,
+    REDACTED
+} from './service/interceptors';
+export type {
+    MiddlewareInterceptor,
+    InvokeContext,
+    InterceptorErrorResult,
+    InvokeMetric,
+    CorrelationIdInterceptorOptions,
+    RetryInterceptorOptions,
+    LoggingInterceptorOptions
+} from './service/interceptors';
+export { NodeChannelError, classifyNodeRejection } from './service/NodeChannelError';
+export type { NodeRejectionReason } from './service/NodeChannelError';
 
 export { UserAuthService } from './auth/UserAuthService';
 export type {
@@ -0,0 +1,67 @@
+/**
+ * Node channel errors
+ *
+ * A research node forgets its channels and sessions when it restarts, while
+ * the client still holds them until they expire. Requests on such a channel
+ * fail with HTTP 401, a "channel" error, or a response that no longer
+ * decrypts with the channel key. classifyNodeRejection() recognises those
+ * failures so ResearchNodeMiddleware.invoke() can run the handshake again;
+ * NodeChannelError is what callers see when that recovery fails.
+ */
+
+export type NodeRejectionReason = 'channel-invalid' | 'session-invalid';
+
+export class NodeChannelError extends Error {
+    readonly reason: NodeRejectionReason;
+    readonly cause: unknown;
+
+    constructor(reason: NodeRejectionReason, message: string, cause?: unknown) {
+        super(message);
+        this.name = 'NodeChannelError';
+        this.reason = reason;
+        this.cause = cause;
+    }
+}
+
+/** HTTP status of an error thrown by FetchHttpClient, if any */
+export function errorStatus(error: unknown): number | undefined {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+function responseText(error: unknown): string {
+    const data = (error as { response?: { data?: unknown } } | null)?.response?.data;
+    if (data === undefined || data === null) {
+        return '';
+    }
+    return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+/**
+ * Whether an error means the node no longer knows the channel or session.
+ *
+ * A 401 challenging for a Bearer token is about the user's JWT, not the
+ * channel, and is left to the caller.
+ */
+export function classifyNodeRejection(error: unknown): NodeRejectionReason | null {
+    if (error instanceof NodeChannelError) {
+        return error.reason;
+    }
+
+    const status = errorStatus(error);
+    const text = responseText(error);
+
+    if (status === 401) {
+        const headers = (error as { response?: { headers?: Record<string, string> } }).response?.headers;
+        if (/^bearer/i.test(headers?.['www-authenticate'] ?? '')) {
+            return null;
+        }
+        return /session/i.test(text) && !/channel/i.test(text) ? 'session-invalid' : 'channel-invalid';
+    }
+
+    if ((status === 400 || status === 404) && /channel/i.test(text)) {
+        return 'channel-invalid';
+    }
+
+    return null;
+}
@@ -10,6 +10,9 @@ import type {
     NodeIdentifyPayload
 } from '../types';
 import { AuthorizationStatus } from '../types';
+import type { InvokeContext, MiddlewareInterceptor } from './interceptors';
+import { NodeChannelError, classifyNodeRejection } from './NodeChannelError';
+import { reserveRequest } from '../session/requestFreshness';
 
 function isExpired(date: Date, skewMs = 5_000): boolean {
     return Date.now() >= date.getTime() - skewMs;
@@ -41,23 +44,47 @@ export interface ResearchNodeMiddlewareOptions {
     onSessionPersist?: (next: PersistedSessionState | null) => Promise<void> | void;
     prepareIdentifyPayload?: (context: IdentifyPayloadFactoryContext) => Promise<Partial<NodeIdentifyPayload>>;
     signChallenge: (context: ChallengeSignatureContext) => Promise<string>;
+    /** Hooks run around every invoke(), see interceptors.ts */
+    interceptors?: MiddlewareInterceptor[];
+    /** How many times onError hooks may ask for a retry of one invoke(). Default: 1 */
+    maxRetries?: number;
 }
 
 export interface InvokeOptions<TPayload extends Record<string, unknown> = Record<string, unknown>> {
     path: string;
     method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
     payload: TPayload;
+    /** Extra HTTP headers, sent alongside the channel and session headers */
+    headers?: Record<string, string>;
 }
 
 export class ResearchNodeMiddleware {
     private channelRuntime: ChannelRuntimeState | null = null;
     private sessionRuntime: SessionRuntimeState | null = null;
     private status: MiddlewareStatus = 'idle';
+    private readonly interceptors: MiddlewareInterceptor[];
+    private recovery: Promise<void> | null = null;
 
     constructor(private readonly options: ResearchNodeMiddlewareOptions) {
         if (!options.signChallenge) {
             throw new Error('ResearchNodeMiddleware requires a signChallenge implementation.');
         }
+        this.interceptors = [...(options.interceptors ?? [])];
+    }
+
+    /**
+     * Add an interceptor after the configured ones.
+     *
+     * @returns Function that removes it again
+     */
+    use(interceptor: MiddlewareInterceptor): () => void {
+        this.interceptors.push(interceptor);
+        return () => {
+            const index = this.interceptors.indexOf(interceptor);
+            if (index !== -1) {
+                this.interceptors.splice(index, 1);
+            }
+        };
     }
 
     get currentStatus(): MiddlewareStatus {
@@ -239,7 +266,8 @@ export class ResearchNodeMiddleware {
             capabilities: authResult.capabilities,
             expiresAt: new Date(authResult.sessionExpiresAt),
             nodeId: authResult.nodeId,
-            requestWindowCount: 0
+            requestWindowCount: 0,
+            requestSequence: 0
         };
 
         this.sessionRuntime = runtime;
@@ -265,7 +293,9 @@ export class ResearchNodeMiddleware {
                 capabilities: renewResult.capabilities ?? session.capabilities,
                 expiresAt: new Date(renewResult.expiresAt),
                 nodeId: session.nodeId,
-                requestWindowCount: session.requestWindowCount
+                requestWindowCount: session.requestWindowCount,
+                requestWindowStartedAt: session.requestWindowStartedAt,
+                requestSequence: session.requestSequence
             };
 
             this.sessionRuntime = renewed;
@@ -279,20 +309,148 @@ export class ResearchNodeMiddleware {
     }
 
     async invoke<TPayload extends Record<string, unknown>, TResponse>(options: InvokeOptions<TPayload>): Promise<TResponse> {
+        const maxRetries = this.options.maxRetries ?? 1;
+        const context: InvokeContext = {
+            request: { ...options, headers: { ...options.headers } },
+            attempt: 0,
+            startedAt: Date.now(),
+            metadata: {},
+            middleware: this
+        };
+        // One handshake and replay per call, however often hooks retry it
+        const recovery = { attempted: false };
+
+        for (;;) {
+            context.attempt += 1;
+            // Hooks added or removed during a call take effect on the next one
+            const interceptors = [...this.interceptors];
+
+            let response: TResponse;
+            try {
+                for (const interceptor of interceptors) {
+                    await interceptor.beforeRequest?.(context);
+                }
+
+                response = await this.sendWithRecovery<TResponse>(context.request, recovery);
+            } catch (error) {
+                let current = error;
+                let retry = false;
+
+                for (const interceptor of [...interceptors].reverse()) {
+                    if (!interceptor.onError) {
+                        continue;
+                    }
+                    try {
+                        retry = (await interceptor.onError(context, current)) === 'retry' || retry;
+                    } catch (replaced) {
+                        current = replaced;
+                    }
+                }
+
+                if (!retry || context.attempt > maxRetries) {
+                    throw current;
+                }
+                continue;
+            }
+
+            // The node has processed the request: a failing hook must neither
+            // fail the call nor send it again
+            for (const interceptor of [...interceptors].reverse()) {
+                try {
+                    await interceptor.afterResponse?.(context, response);
+                } catch (hookError) {
+                    console.warn(`[Middleware] afterResponse hook "${interceptor.name}" failed:`, hookError);
+                }
+            }
+
+            return response;
+        }
+    }
+
+    /**
+     * Send a request; if the node no longer knows the channel or session
+     * (e.g. it restarted), run the handshake again and replay it once. A
+     * call whose earlier attempt already recovered is not recovered again.
+     *
+     * @throws NodeChannelError when the handshake or the replay is rejected
+     *   again, or the node rejects a call that was already recovered
+     */
+    private async sendWithRecovery<TResponse>(
+        request: InvokeContext['request'],
+        recovery: { attempted: boolean }
+    ): Promise<TResponse> {
+        const used: { channelId?: string } = {};
+        try {
+            return await this.send<TResponse>(request, used);
+        } catch (error) {
+            const reason = classifyNodeRejection(error);
+            if (!reason) {
+                throw error;
+            }
+            if (recovery.attempted) {
+                throw new NodeChannelError(reason, 'The research node rejected the request again after a new handshake.', error);
+            }
+            recovery.attempted = true;
+
+            console.warn(`[Middleware] ⚠️  Node rejected the ${reason === 'channel-invalid' ? 'channel' : 'session'}, running the handshake again`);
+            try {
+                await this.recover(used.channelId);
+            } catch (handshakeError) {
+                throw new NodeChannelError(reason, 'Could not re-establish the session with the research node.', handshakeError);
+            }
+
+            try {
+                return await this.send<TResponse>(request, used);
+            } catch (replayError) {
+                const replayReason = classifyNodeRejection(replayError);
+                if (replayReason) {
+                    throw new NodeChannelError(replayReason, 'The research node rejected the request again after a new handshake.', replayError);
+                }
+                throw replayError;
+            }
+        }
+    }
+
+    /**
+     * Drop the channel and session and run the 3-phase handshake. Requests
+     * that fail together share one handshake, and a request that failed on
+     * a channel already replaced by another recovery just replays.
+     */
+    private async recover(staleChannelId?: string): Promise<void> {
+        if (!this.recovery) {
+            if (this.channelRuntime && staleChannelId && this.channelRuntime.channelId !== staleChannelId) {
+                return;
+            }
+            this.recovery = (async () => {
+                await this.reset();
+                await this.ensureSession();
+                console.log('[Middleware] ✅ Channel and session recovered');
+            })().finally(() => {
+                this.recovery = null;
+            });
+        }
+        await this.recovery;
+    }
+
+    private async send<TResponse>(request: InvokeContext['request'], used: { channelId?: string }): Promise<TResponse> {
         const channel = await this.ensureChannel();
+        used.channelId = channel.channelId;
         const session = await this.ensureSessionValid();
 
-        const response = await this.options.sessionManager.submitEncryptedPayload<TPayload, TResponse>(
+        // Persisted before sending, so a sequence number is never reused after a restart
+        const stamp = reserveRequest(session);
+        await this.options.onSessionPersist?.(this.options.sessionManager.toPersisted(session));
+
+        const response = await this.options.sessionManager.submitEncryptedPayload<Record<string, unknown>, TResponse>(
             channel,
             session,
-            options.path,
-            options.method,
-            options.payload
+            request.path,
+            request.method,
+            request.payload,
+            request.headers,
+            stamp
         );
 
-        session.requestWindowCount = (session.requestWindowCount ?? 0) + 1;
-        await this.options.onSessionPersist?.(this.options.sessionManager.toPersisted(session));
-
         this.status = 'session-ready';
 
         return response;
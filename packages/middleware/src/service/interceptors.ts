@@ -0,0 +1,289 @@
+/**
+ * Invoke interceptors
+ *
+ * Hooks that ResearchNodeMiddleware.invoke() runs around every encrypted
+ * request, so cross-cutting concerns (correlation ids, metrics, retries,
+ * logging) are written once and each app picks the ones it wants:
+ *
+ * - beforeRequest hooks run in registration order and may change the
+ *   request (path, payload, headers) before it is encrypted.
+ * - afterResponse hooks run in reverse order with the decrypted response,
+ *   outside the retry path: an error thrown by one is logged and neither
+ *   fails the call nor sends the request again.
+ * - onError hooks run in reverse order. A hook may throw to replace the
+ *   error seen by the remaining hooks and the caller, or return 'retry' to
+ *   send the request again (bounded by the middleware's maxRetries).
+ */
+
+import type { InvokeOptions, ResearchNodeMiddleware } from './ResearchNodeMiddleware';
+import { classifyNodeRejection, errorStatus } from './NodeChannelError';
+
+export { errorStatus };
+
+export interface InvokeContext {
+    /** Request about to be sent; beforeRequest hooks may change it */
+    request: InvokeOptions<Record<string, unknown>> & { headers: Record<string, string> };
+    /** 1 on the first attempt, incremented on every retry */
+    attempt: number;
+    /** Epoch milliseconds when invoke() was called */
+    startedAt: number;
+    /** Per-call values shared between hooks, kept across retries */
+    metadata: Record<string, unknown>;
+    middleware: ResearchNodeMiddleware;
+}
+
+export type InterceptorErrorResult = 'retry' | void;
+
+export interface MiddlewareInterceptor {
+    name: string;
+    beforeRequest?(context: InvokeContext): Promise<void> | void;
+    afterResponse?(context: InvokeContext, response: unknown): Promise<void> | void;
+    onError?(context: InvokeContext, error: unknown): Promise<InterceptorErrorResult> | InterceptorErrorResult;
+}
+
+/** Path without its query string, so metrics and logs group by endpoint */
+function endpointOf(path: string): string {
+    const index = path.indexOf('?');
+    return index === -1 ? path : path.slice(0, index);
+}
+
+// ==================== Correlation ids ====================
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+function randomId(): string {
+    const cryptoApi = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+    if (cryptoApi?.randomUUID) {
+        return cryptoApi.randomUUID();
+    }
+    return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2, 14)}`;
+}
+
+export interface CorrelationIdInterceptorOptions {
+    header?: string;
+    generate?: () => string;
+}
+
+/**
+ * Tag every call with a correlation id, sent as a header and kept in
+ * context.metadata.correlationId. Retries reuse the id of the first attempt.
+ */
+export function createCorrelationIdInterceptor(options: CorrelationIdInterceptorOptions = {}): MiddlewareInterceptor {
+    const header = options.header ?? CORRELATION_ID_HEADER;
+    const generate = options.generate ?? randomId;
+
+    return {
+        name: 'correlation-id',
+        beforeRequest(context) {
+            if (typeof context.metadata.correlationId !== 'string') {
+                context.metadata.correlationId = generate();
+            }
+            context.request.headers[header] = context.metadata.correlationId as string;
+        }
+    };
+}
+
+// ==================== Metrics ====================
+
+export interface InvokeMetric {
+    method: InvokeOptions['method'];
+    endpoint: string;
+    outcome: 'success' | 'error';
+    attempt: number;
+    /** Time since invoke() was called, across retries */
+    durationMs: number;
+    httpStatus?: number;
+    correlationId?: string;
+}
+
+/**
+ * Report one metric per attempt. Failed attempts that are retried are
+ * reported too, with the attempt they belong to.
+ */
+export function createMetricsInterceptor(onMetric: (metric: InvokeMetric) => void): MiddlewareInterceptor {
+    const report = (context: InvokeContext, outcome: InvokeMetric['outcome'], httpStatus?: number) => {
+        const correlationId = context.metadata.correlationId;
+        onMetric({
+            method: context.request.method,
+            endpoint: endpointOf(context.request.path),
+            outcome,
+            attempt: context.attempt,
+            durationMs: Date.now() - context.startedAt,
+            httpStatus,
+            correlationId: typeof correlationId === 'string' ? correlationId : undefined
+        });
+    };
+
+    return {
+        name: 'metrics',
+        afterResponse(context) {
+            report(context, 'success');
+        },
+        onError(context, error) {
+            report(context, 'error', errorStatus(error));
+        }
+    };
+}
+
+// ==================== Retry ====================
+
+export interface RetryInterceptorOptions {
+    /** HTTP statuses to retry. Default: [401] */
+    statuses?: number[];
+    /**
+     * Gets a new user token before the retry, e.g. UserAuthService.refreshToken().
+     * Calls failing at the same time share one refresh; when it throws, the
+     * call fails with the original error instead of being retried.
+     */
+    recover: (context: InvokeContext, error: unknown) => Promise<unknown> | unknown;
+    /** Path prefixes never retried, such as the token refresh itself. Default: ['/api/userauth/'] */
+    skipPaths?: string[];
+}
+
+/**
+ * Retry a call rejected because of the user token (a 401 with
+ * `WWW-Authenticate: Bearer`) once `recover` has refreshed it. Channels and
+ * sessions the node no longer knows are recovered (and the request replayed
+ * once) inside invoke(), so those rejections — and the NodeChannelError
+ * thrown when that recovery fails — are never retried here.
+ */
+export function createRetryInterceptor(options: RetryInterceptorOptions): MiddlewareInterceptor {
+    const statuses = options.statuses ?? [401];
+    const skipPaths = options.skipPaths ?? ['/api/userauth/'];
+    let refreshing: Promise<unknown> | null = null;
+
+    return {
+        name: 'retry',
+        async onError(context, error) {
+            const status = errorStatus(error);
+            if (status === undefined || !statuses.includes(status) || classifyNodeRejection(error) !== null) {
+                return;
+            }
+            const endpoint = endpointOf(context.request.path);
+            if (skipPaths.some(prefix => endpoint.startsWith(prefix))) {
+                return;
+            }
+
+            if (!refreshing) {
+                refreshing = Promise.resolve()
+                    .then(() => options.recover(context, error))
+                    .finally(() => {
+                        refreshing = null;
+                    });
+            }
+            try {
+                await refreshing;
+            } catch (recoverError) {
+                console.warn(`[Middleware] Could not recover from HTTP ${status}, not retrying:`, recoverError);
+                return;
+            }
+
+            console.warn(`[Middleware] Request rejected with HTTP ${status}, retrying (attempt ${context.attempt})`);
+            return 'retry';
+        }
+    };
+}
+
+// ==================== Logging ====================
+
+/** Keys whose values are never written to logs (compared case-insensitively) */
+export const DEFAULT_PII_KEYS = [
+    'name',
+    'givenName',
+    'familyName',
+    'email',
+    'username',
+    'password',
+    'cpf',
+    'phone',
+    'address',
+    'birthDate',
+    'dateOfBirth',
+    'token',
+    'accessToken',
+    'refreshToken',
+    'sessionToken',
+    'signature',
+    'authorization'
+];
+
+export const REDACTED = '[redacted]';
+
+/**
+ * Copy of a value with the values of PII keys replaced, at any depth.
+ */
+export function redactPii(value: unknown, keys: readonly string[] = DEFAULT_PII_KEYS): unknown {
+    const lowered = new Set(keys.map(key => key.toLowerCase()));
+
+    const visit = (current: unknown, depth: number): unknown => {
+        if (current === null || typeof current !== 'object') {
+            return current;
+        }
+        if (depth > 16) {
+            return REDACTED;
+        }
+        if (Array.isArray(current)) {
+            return current.map(item => visit(item, depth + 1));
+        }
+        return Object.fromEntries(
+            Object.entries(current as Record<string, unknown>).map(([key, entry]) => [
+                key,
+                lowered.has(key.toLowerCase()) ? REDACTED : visit(entry, depth + 1)
+            ])
+        );
+    };
+
+    return visit(value, 0);
+}
+
+export interface LoggingInterceptorOptions {
+    /** Log decrypted payloads and responses (redacted). Default: false, only method, path and outcome */
+    logBodies?: boolean;
+    /** Keys to redact. Default: DEFAULT_PII_KEYS */
+    redactKeys?: string[];
+    log?: (message: string, ...data: unknown[]) => void;
+    logError?: (message: string, ...data: unknown[]) => void;
+}
+
+/**
+ * Log every call with PII redacted from payloads, responses and errors.
+ */
+export function createLoggingInterceptor(options: LoggingInterceptorOptions = {}): MiddlewareInterceptor {
+    const log = options.log ?? ((message, ...data) => console.log(message, ...data));
+    const logError = options.logError ?? ((message, ...data) => console.error(message, ...data));
+    const redact = (value: unknown) => redactPii(value, options.redactKeys);
+
+    const describe = (context: InvokeContext) => {
+        const correlationId = context.metadata.correlationId;
+        const suffix = typeof correlationId === 'string' ? ` [${correlationId}]` : '';
+        return `${context.request.method} ${endpointOf(context.request.path)}${suffix}`;
+    };
+
+    return {
+        name: 'logging',
+        beforeRequest(context) {
+            if (options.logBodies && context.request.method !== 'GET') {
+                log(`[Middleware] → ${describe(context)}`, redact(context.request.payload));
+            } else {
+                log(`[Middleware] → ${describe(context)}`);
+            }
+        },
+        afterResponse(context, response) {
+            const durationMs = Date.now() - context.startedAt;
+            if (options.logBodies) {
+                log(`[Middleware] ← ${describe(context)} (${durationMs} ms)`, redact(response));
+            } else {
+                log(`[Middleware] ← ${describe(context)} (${durationMs} ms)`);
+            }
+        },
+        onError(context, error) {
+            const status = errorStatus(error);
+            const message = error instanceof Error ? error.message : String(error);
+            const data = (error as { response?: { data?: unknown } } | null)?.response?.data;
+            logError(
+                `[Middleware] ✗ ${describe(context)} failed${status !== undefined ? ` (HTTP ${status})` : ''}: ${message}`,
+                ...(data !== undefined ? [redact(data)] : [])
+            );
+        }
+    };
+}
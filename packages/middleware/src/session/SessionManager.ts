@@ -1,5 +1,5 @@
 import type { CryptoDriver } from '../crypto/CryptoDriver';
-import type { HttpClient, HttpMethod } from '../http/HttpClient';
+import type { HttpClient, HttpMethod, HttpResponse } from '../http/HttpClient';
 import type {
     AuthenticationPayload,
     AuthenticationResult,
@@ -14,6 +14,15 @@ import type {
     SessionRuntimeState,
     SessionWhoAmIResult
 } from '../types';
+import { NodeChannelError } from '../service/NodeChannelError';
+import {
+    REQUEST_SEQUENCE_HEADER,
+    REQUEST_TIMESTAMP_HEADER,
+    hasReplayProtection,
+    stampFields,
+    verifyResponseEcho,
+    type RequestStamp
+} from './requestFreshness';
 
 /**
  * JWT Token Provider function type
@@ -38,15 +47,28 @@ export class SessionManager {
     }
 
     private async encrypt(channel: ChannelRuntimeState, payload: unknown): Promise<EncryptedPayload> {
-        return this.cryptoDriver.encrypt(payload, channel.cryptoKey);
+        return this.cryptoDriver.encrypt(payload, channel.cryptoKey, channel.cipher);
     }
 
+    /**
+     * A response that does not decrypt with the channel key was encrypted
+     * for another channel, e.g. one the node opened after restarting.
+     */
     private async decrypt<T>(channel: ChannelRuntimeState, payload: EncryptedPayload): Promise<T> {
-        return this.cryptoDriver.decrypt<T>(payload, channel.cryptoKey);
+        try {
+            return await this.cryptoDriver.decrypt<T>(payload, channel.cryptoKey, channel.cipher);
+        } catch (error) {
+            throw new NodeChannelError('channel-invalid', 'Response could not be decrypted with the channel key.', error);
+        }
     }
 
-    private async buildHeaders(channel: ChannelRuntimeState, session?: SessionRuntimeState): Promise<Record<string, string>> {
+    private async buildHeaders(
+        channel: ChannelRuntimeState,
+        session?: SessionRuntimeState,
+        extraHeaders: Record<string, string> = {}
+    ): Promise<Record<string, string>> {
         const headers: Record<string, string> = {
+            ...extraHeaders,
             'Content-Type': 'application/json',
             'X-Channel-Id': channel.channelId
         };
@@ -161,51 +183,70 @@ export class SessionManager {
         });
     }
 
+    /**
+     * Send a request in the session. With a stamp, its sequence number and
+     * timestamp go into the envelope (headers for GET), and the response is
+     * checked against them when the node advertises replay protection.
+     */
     async submitEncryptedPayload<TPayload, TResponse>(
         channel: ChannelRuntimeState,
         session: SessionRuntimeState,
         path: string,
         method: HttpMethod,
-        payload: TPayload
+        payload: TPayload,
+        extraHeaders?: Record<string, string>,
+        stamp?: RequestStamp
     ): Promise<TResponse> {
+        let response: HttpResponse<EncryptedPayload>;
+
         // For GET requests, we cannot send a body per HTTP spec
         // Backend attribute [PrismEncryptedChannelConnection] without generic type handles these
         if (method === 'GET') {
-            const response = await this.httpClient.request<EncryptedPayload>({
+            const headers = { ...extraHeaders };
+            if (stamp) {
+                headers[REQUEST_SEQUENCE_HEADER] = String(stamp.sequence);
+                headers[REQUEST_TIMESTAMP_HEADER] = stamp.timestamp;
+            }
+
+            response = await this.httpClient.request<EncryptedPayload>({
                 url: path,
                 method,
-                headers: await this.buildHeaders(channel, session)
+                headers: await this.buildHeaders(channel, session, headers)
+            });
+        } else {
+            // For POST/PUT/PATCH/DELETE, encrypt and send payload as body
+            const envelope = await this.encrypt(channel, {
+                ...payload,
+                channelId: channel.channelId,
+                sessionToken: session.sessionToken,
+                timestamp: new Date().toISOString(),
+                ...(stamp ? stampFields(stamp) : {})
             });
 
-            // Handle empty responses
-            if (!response.data || (typeof response.data === 'object' && Object.keys(response.data).length === 0)) {
-                return undefined as TResponse;
-            }
-
-            return this.decrypt<TResponse>(channel, response.data);
+            response = await this.httpClient.request<EncryptedPayload>({
+                url: path,
+                method,
+                headers: await this.buildHeaders(channel, session, extraHeaders),
+                body: envelope
+            });
         }
 
-        // For POST/PUT/PATCH/DELETE, encrypt and send payload as body
-        const envelope = await this.encrypt(channel, {
-            ...payload,
-            channelId: channel.channelId,
-            sessionToken: session.sessionToken,
-            timestamp: new Date().toISOString()
-        });
-
-        const response = await this.httpClient.request<EncryptedPayload>({
-            url: path,
-            method,
-            headers: await this.buildHeaders(channel, session),
-            body: envelope
-        });
+        const checkEcho = stamp !== undefined && hasReplayProtection(session.capabilities);
 
-        // Handle empty responses (e.g., 204 No Content or empty 200 OK)
+        // Handle empty responses (e.g., 204 No Content or empty 200 OK). With
+        // replay protection only a 204 may come without an echo.
         if (!response.data || (typeof response.data === 'object' && Object.keys(response.data).length === 0)) {
+            if (checkEcho && response.status !== 204) {
+                throw new Error(`Response to request #${stamp.sequence} rejected: it has no body to echo the request.`);
+            }
             return undefined as TResponse;
         }
 
-        return this.decrypt<TResponse>(channel, response.data);
+        const decrypted = await this.decrypt<TResponse>(channel, response.data);
+        if (checkEcho) {
+            return verifyResponseEcho(decrypted, stamp);
+        }
+        return decrypted;
     }
 
     restoreFromPersisted(state: PersistedSessionState): SessionRuntimeState {
@@ -215,7 +256,9 @@ export class SessionManager {
             capabilities: state.capabilities,
             expiresAt: new Date(state.expiresAt),
             nodeId: state.nodeId,
-            requestWindowCount: state.requestWindowCount
+            requestWindowCount: state.requestWindowCount,
+            requestWindowStartedAt: state.requestWindowStartedAt ? new Date(state.requestWindowStartedAt) : undefined,
+            requestSequence: state.requestSequence
         };
     }
 
@@ -226,7 +269,9 @@ export class SessionManager {
             capabilities: session.capabilities,
             expiresAt: session.expiresAt.toISOString(),
             nodeId: session.nodeId,
-            requestWindowCount: session.requestWindowCount
+            requestWindowCount: session.requestWindowCount,
+            requestWindowStartedAt: session.requestWindowStartedAt?.toISOString(),
+            requestSequence: session.requestSequence
         };
     }
 }
@@ -0,0 +1,146 @@
+/**
+ * Request freshness
+ *
+ * Every request sent through a session carries a sequence number, increasing
+ * per session, and a timestamp inside its encrypted envelope, as
+ * `requestSequence` and `requestTimestamp` so they never replace fields of
+ * the payload (as headers for GET, which has no body). Nodes that advertise the `replay-protection`
+ * capability echo both back in a `requestEcho` field of the encrypted
+ * response, with the time they answered; a response to another request, or
+ * one answered outside the allowed clock skew, is rejected.
+ *
+ * Nodes may also advertise a request budget as `rate-limit:<requests>/<seconds>`,
+ * which the client enforces before sending.
+ */
+
+import type { SessionRuntimeState } from '../types';
+
+export const REPLAY_PROTECTION_CAPABILITY = 'replay-protection';
+export const RATE_LIMIT_CAPABILITY_PREFIX = 'rate-limit:';
+export const REQUEST_SEQUENCE_HEADER = 'X-Request-Sequence';
+export const REQUEST_TIMESTAMP_HEADER = 'X-Request-Timestamp';
+export const REQUEST_SEQUENCE_FIELD = 'requestSequence';
+export const REQUEST_TIMESTAMP_FIELD = 'requestTimestamp';
+export const DEFAULT_MAX_RESPONSE_SKEW_MS = 60_000;
+
+/** Sequence number and timestamp sent with one request */
+export interface RequestStamp {
+    sequence: number;
+    timestamp: string;
+}
+
+/** What a node with replay protection returns in `requestEcho` */
+export interface RequestEcho {
+    sequence: number;
+    timestamp: string;
+    respondedAt: string;
+}
+
+export interface RateWindow {
+    limit: number;
+    windowMs: number;
+}
+
+/** Thrown instead of sending a request once the advertised rate window is used up */
+export class RequestRateLimitError extends Error {
+    readonly retryAfterMs: number;
+
+    constructor(window: RateWindow, retryAfterMs: number) {
+        super(
+            `Request rate limit reached (${window.limit} per ${window.windowMs / 1000} s); try again in ${Math.ceil(retryAfterMs / 1000)} s.`
+        );
+        this.name = 'RequestRateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export function hasReplayProtection(capabilities: readonly string[]): boolean {
+    return capabilities.some(capability => capability.toLowerCase() === REPLAY_PROTECTION_CAPABILITY);
+}
+
+/**
+ * Rate window advertised in the session capabilities, or null when the node
+ * does not advertise one.
+ */
+export function parseRateWindow(capabilities: readonly string[]): RateWindow | null {
+    for (const capability of capabilities) {
+        if (!capability.toLowerCase().startsWith(RATE_LIMIT_CAPABILITY_PREFIX)) {
+            continue;
+        }
+        const match = /^(\d+)\/(\d+)$/.exec(capability.slice(RATE_LIMIT_CAPABILITY_PREFIX.length).trim());
+        if (match && Number(match[1]) > 0 && Number(match[2]) > 0) {
+            return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+        }
+    }
+    return null;
+}
+
+/**
+ * Take a slot in the session's rate window and the next sequence number.
+ * Updates the session in place; the caller persists it.
+ *
+ * @throws RequestRateLimitError when the rate window is used up
+ */
+export function reserveRequest(session: SessionRuntimeState, now = Date.now()): RequestStamp {
+    const window = parseRateWindow(session.capabilities);
+
+    if (window) {
+        const startedAt = session.requestWindowStartedAt?.getTime();
+        if (startedAt === undefined || now - startedAt >= window.windowMs) {
+            session.requestWindowStartedAt = new Date(now);
+            session.requestWindowCount = 0;
+        } else if ((session.requestWindowCount ?? 0) >= window.limit) {
+            throw new RequestRateLimitError(window, startedAt + window.windowMs - now);
+        }
+    }
+
+    session.requestWindowCount = (session.requestWindowCount ?? 0) + 1;
+    session.requestSequence = (session.requestSequence ?? 0) + 1;
+
+    return { sequence: session.requestSequence, timestamp: new Date(now).toISOString() };
+}
+
+/** Envelope fields carrying a stamp, next to the payload's own fields */
+export function stampFields(stamp: RequestStamp): Record<string, string | number> {
+    return {
+        [REQUEST_SEQUENCE_FIELD]: stamp.sequence,
+        [REQUEST_TIMESTAMP_FIELD]: stamp.timestamp
+    };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a decrypted response answers the request it was sent for and
+ * is fresh, and return it without its `requestEcho`.
+ *
+ * @throws Error when the echo is missing, names another request or is stale
+ */
+export function verifyResponseEcho<TResponse>(
+    response: TResponse,
+    stamp: RequestStamp,
+    maxSkewMs = DEFAULT_MAX_RESPONSE_SKEW_MS,
+    now = Date.now()
+): TResponse {
+    const echo = isPlainObject(response) ? response.requestEcho : undefined;
+    if (!isPlainObject(echo)) {
+        throw new Error(`Response to request #${stamp.sequence} rejected: it does not echo the request.`);
+    }
+
+    const { sequence, timestamp, respondedAt } = echo as Partial<RequestEcho>;
+    if (sequence !== stamp.sequence || timestamp !== stamp.timestamp) {
+        throw new Error(
+            `Response to request #${stamp.sequence} rejected: it answers request #${String(sequence)} (replayed or out of order).`
+        );
+    }
+
+    const respondedAtMs = typeof respondedAt === 'string' ? Date.parse(respondedAt) : NaN;
+    if (Number.isNaN(respondedAtMs) || Math.abs(now - respondedAtMs) > maxSkewMs) {
+        throw new Error(`Response to request #${stamp.sequence} rejected: it is stale (answered at ${String(respondedAt)}).`);
+    }
+
+    const { requestEcho: _echo, ...rest } = response as Record<string, unknown>;
+    return rest as TResponse;
+}
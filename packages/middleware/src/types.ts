@@ -18,8 +18,18 @@ export enum AuthorizationStatus {
     Revoked = 3
 }
 
+/** Symmetric ciphers a channel can negotiate, in order of client preference */
+export const SUPPORTED_CHANNEL_CIPHERS = ['AES-256-GCM', 'ChaCha20-Poly1305'] as const;
+
+export type ChannelCipher = typeof SUPPORTED_CHANNEL_CIPHERS[number];
+
+/** Cipher of channels whose node did not name one (and of channels persisted before negotiation) */
+export const DEFAULT_CHANNEL_CIPHER: ChannelCipher = 'AES-256-GCM';
+
 export interface PersistedChannelState {
     channelId: string;
+    /** Cipher the node selected when the channel was opened */
+    cipher?: ChannelCipher;
     /** Base64 encoded representation of the symmetric key used to decrypt payloads */
     symmetricKey?: string;
     /** ISO8601 string representing expiration */
@@ -39,6 +49,10 @@ export interface PersistedSessionState {
     expiresAt: string;
     /** Optional metrics for rate limiting */
     requestWindowCount?: number;
+    /** ISO8601 start of the current rate window, when the node advertises one */
+    requestWindowStartedAt?: string;
+    /** Sequence number of the last request sent in this session */
+    requestSequence?: number;
 }
 
 export interface ResearchNodeMiddlewareState {
@@ -79,6 +93,7 @@ export type MiddlewareStatus =
 
 export interface ChannelRuntimeState {
     channelId: string;
+    cipher: ChannelCipher;
     symmetricKey: string;
     expiresAt: Date;
     cryptoKey: CryptoKey;
@@ -92,10 +107,13 @@ export interface SessionRuntimeState {
     expiresAt: Date;
     nodeId?: string;
     requestWindowCount?: number;
+    requestWindowStartedAt?: Date;
+    requestSequence?: number;
 }
 
 export interface ChannelOpenResponse {
     channelId: string;
+    cipher: ChannelCipher;
     serverPublicKey: string;
     expiresAt: Date;
 }